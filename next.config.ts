@@ -21,6 +21,8 @@ const nextConfig: NextConfig = {
       },
     ],
   },
+  // pdfkit reads its font metrics from disk, so keep it out of the server bundle
+  serverExternalPackages: ['pdfkit'],
   // Enable native View Transitions for smooth navigation and optimize development experience
   experimental: {
     viewTransition: true,
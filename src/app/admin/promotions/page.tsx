@@ -0,0 +1,30 @@
+/**
+ * Admin Promotions Page
+ * Create and manage coupon codes with discount rules, scopes and usage limits
+ */
+
+import { PromotionsManagement } from '@/components/admin/promotions/promotions-management';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Promotions - Hamsoya Admin | Manage Coupon Codes',
+  description: 'Create coupon codes, set discount rules and usage limits, and schedule promotions in the admin dashboard.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function AdminPromotionsPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Promotions</h1>
+        <p className="text-muted-foreground">
+          Create coupon codes and control where, when and how often they can be used.
+        </p>
+      </div>
+      <PromotionsManagement />
+    </div>
+  );
+}
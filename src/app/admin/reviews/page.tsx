@@ -0,0 +1,31 @@
+/**
+ * Admin Reviews Page
+ * Moderate customer reviews and choose which ones are featured on the homepage
+ */
+
+import { ReviewsModeration } from '@/components/admin/reviews/reviews-moderation';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Reviews - Hamsoya Admin | Moderate Customer Reviews',
+  description: 'Approve, reject and reply to customer reviews, and feature the best ones on the homepage.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function AdminReviewsPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Reviews</h1>
+        <p className="text-muted-foreground">
+          New reviews stay hidden until they are approved. Feature approved reviews to show them on
+          the homepage.
+        </p>
+      </div>
+      <ReviewsModeration />
+    </div>
+  );
+}
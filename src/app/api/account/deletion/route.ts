@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ACCOUNT_DELETION_GRACE_DAYS, AccountDeletionSchema } from '@/lib/account-settings-schemas';
+import { cancelAccountDeletion, requestAccountDeletion } from '@/lib/server-account';
+import { clearAuthCache } from '@/lib/server-auth-cache';
+
+function unauthorized() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Authentication required',
+      message: 'Please log in to manage your account',
+    },
+    { status: 401 }
+  );
+}
+
+function serviceUnavailable(error: unknown) {
+  console.error('Account deletion service unavailable:', error);
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Account service is temporarily unavailable. Please try again later.',
+      errorCode: 'SERVICE_UNAVAILABLE',
+    },
+    { status: 503 }
+  );
+}
+
+// POST /api/account/deletion - Schedule the account for deletion after the grace period
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return unauthorized();
+
+    const body = await request.json().catch(() => null);
+    const parsed = AccountDeletionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: issue?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: issue ? { [String(issue.path[0])]: issue.message } : undefined,
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await requestAccountDeletion(accessToken, parsed.data);
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error,
+            errorCode: result.errorCode,
+            fieldErrors: result.fieldErrors,
+          },
+          { status: result.statusCode }
+        );
+      }
+
+      clearAuthCache();
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          deleted_at: result.data.deleted_at,
+          grace_period_days: ACCOUNT_DELETION_GRACE_DAYS,
+        },
+        message: `Your account will be deleted in ${ACCOUNT_DELETION_GRACE_DAYS} days`,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      return serviceUnavailable(backendError);
+    }
+
+  } catch (error) {
+    console.error('Account deletion POST API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/account/deletion - Keep the account after all, while still in the grace period
+export async function DELETE(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return unauthorized();
+
+    try {
+      const result = await cancelAccountDeletion(accessToken);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error, errorCode: result.errorCode },
+          { status: result.statusCode }
+        );
+      }
+
+      clearAuthCache();
+
+      return NextResponse.json({
+        success: true,
+        data: result.data,
+        message: 'Account deletion cancelled',
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      return serviceUnavailable(backendError);
+    }
+
+  } catch (error) {
+    console.error('Account deletion DELETE API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildAccountExport } from '@/lib/server-account';
+
+// GET /api/account/export - Everything the account holds, for the customer to download
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+          message: 'Please log in to export your data',
+        },
+        { status: 401 }
+      );
+    }
+
+    try {
+      const result = await buildAccountExport(accessToken);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error, errorCode: result.errorCode },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: result.data,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      console.error('Account export service unavailable:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Data export is temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Account export API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
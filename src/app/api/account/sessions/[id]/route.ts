@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRefreshTokenFamily, revokeSession } from '@/lib/server-sessions';
+
+// DELETE /api/account/sessions/[id] - Sign out one device
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+          message: 'Please log in to manage your devices',
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const refreshToken = request.cookies.get('refreshToken')?.value;
+    const currentFamily = getRefreshTokenFamily(refreshToken);
+
+    // Without this device's family there is no telling whether `id` is this device
+    if (!currentFamily) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'We could not confirm which device you are using. Please sign in again.',
+          errorCode: 'SESSION_UNVERIFIED',
+        },
+        { status: 409 }
+      );
+    }
+
+    // This device signs out through the normal logout, which also clears its cookies
+    if (currentFamily === id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Use Sign Out to sign out of this device',
+          errorCode: 'CURRENT_SESSION',
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await revokeSession(accessToken, refreshToken, id);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error, errorCode: result.errorCode },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: null,
+        message: 'Device signed out',
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      console.error('Session service unavailable:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Device management is temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Session DELETE API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
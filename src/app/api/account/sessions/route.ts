@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearAuthCache } from '@/lib/server-auth-cache';
+import { fetchSessions, revokeAllSessions } from '@/lib/server-sessions';
+
+function unauthorized() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Authentication required',
+      message: 'Please log in to manage your devices',
+    },
+    { status: 401 }
+  );
+}
+
+function serviceUnavailable(error: unknown) {
+  console.error('Session service unavailable:', error);
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Device management is temporarily unavailable. Please try again later.',
+      errorCode: 'SERVICE_UNAVAILABLE',
+    },
+    { status: 503 }
+  );
+}
+
+// GET /api/account/sessions - Devices signed in to the account
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return unauthorized();
+
+    try {
+      const result = await fetchSessions(accessToken, request.cookies.get('refreshToken')?.value);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error, errorCode: result.errorCode },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: result.data,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      return serviceUnavailable(backendError);
+    }
+
+  } catch (error) {
+    console.error('Sessions GET API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/account/sessions - Sign out everywhere, this device included
+export async function DELETE(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return unauthorized();
+
+    try {
+      const result = await revokeAllSessions(accessToken, request.cookies.get('refreshToken')?.value);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error, errorCode: result.errorCode },
+          { status: result.statusCode }
+        );
+      }
+
+      clearAuthCache();
+
+      const response = NextResponse.json({
+        success: true,
+        data: null,
+        message: 'Signed out on all devices',
+        timestamp: new Date().toISOString(),
+      });
+
+      // This device's tokens were revoked with the rest
+      response.cookies.delete('accessToken');
+      response.cookies.delete('refreshToken');
+
+      return response;
+
+    } catch (backendError) {
+      return serviceUnavailable(backendError);
+    }
+
+  } catch (error) {
+    console.error('Sessions DELETE API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
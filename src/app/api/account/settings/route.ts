@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AccountSettingsSchema } from '@/lib/account-settings-schemas';
+import { fetchAccountSettings, updateAccountSettings } from '@/lib/server-account';
+
+function unauthorized() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Authentication required',
+      message: 'Please log in to manage your settings',
+    },
+    { status: 401 }
+  );
+}
+
+function serviceUnavailable(error: unknown) {
+  console.error('Account settings service unavailable:', error);
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Settings are temporarily unavailable. Please try again later.',
+      errorCode: 'SERVICE_UNAVAILABLE',
+    },
+    { status: 503 }
+  );
+}
+
+// GET /api/account/settings - Theme, language and notification preferences
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return unauthorized();
+
+    try {
+      const result = await fetchAccountSettings(accessToken);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error, errorCode: result.errorCode },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: result.data,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      return serviceUnavailable(backendError);
+    }
+
+  } catch (error) {
+    console.error('Account settings GET API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/account/settings - Replace the saved preferences
+export async function PUT(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return unauthorized();
+
+    const body = await request.json().catch(() => null);
+    const parsed = AccountSettingsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: issue?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: issue ? { [String(issue.path[0])]: issue.message } : undefined,
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await updateAccountSettings(accessToken, parsed.data);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error, errorCode: result.errorCode },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: result.data,
+        message: 'Settings saved',
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      return serviceUnavailable(backendError);
+    }
+
+  } catch (error) {
+    console.error('Account settings PUT API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
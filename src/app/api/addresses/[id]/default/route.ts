@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setDefaultAddress } from '@/lib/server-addresses';
+
+// PUT /api/addresses/[id]/default - Make a saved address the one checkout preselects
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+          message: 'Please log in to manage your addresses',
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    try {
+      const result = await setDefaultAddress(accessToken, id);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error, errorCode: result.errorCode },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: result.data,
+        message: 'Default address updated',
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      console.error('Address service unavailable:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Address service is temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Default address API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
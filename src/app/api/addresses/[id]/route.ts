@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AddressFormSchema } from '@/lib/address-schemas';
+import { deleteAddress, updateAddress } from '@/lib/server-addresses';
+
+function unauthorized() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Authentication required',
+      message: 'Please log in to manage your addresses',
+    },
+    { status: 401 }
+  );
+}
+
+function serviceUnavailable(error: unknown) {
+  console.error('Address service unavailable:', error);
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Address service is temporarily unavailable. Please try again later.',
+      errorCode: 'SERVICE_UNAVAILABLE',
+    },
+    { status: 503 }
+  );
+}
+
+// PUT /api/addresses/[id] - Edit a saved address
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return unauthorized();
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const parsed = AddressFormSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: issue?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: issue ? { [String(issue.path[0])]: issue.message } : undefined,
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await updateAddress(accessToken, id, parsed.data);
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error,
+            errorCode: result.errorCode,
+            fieldErrors: result.fieldErrors,
+          },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: result.data,
+        message: 'Address updated',
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      return serviceUnavailable(backendError);
+    }
+
+  } catch (error) {
+    console.error('Address PUT API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/addresses/[id] - Remove a saved address
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return unauthorized();
+
+    const { id } = await params;
+
+    try {
+      const result = await deleteAddress(accessToken, id);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error, errorCode: result.errorCode },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: null,
+        message: 'Address deleted',
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      return serviceUnavailable(backendError);
+    }
+
+  } catch (error) {
+    console.error('Address DELETE API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AddressFormSchema } from '@/lib/address-schemas';
+import { createAddress, fetchAddresses } from '@/lib/server-addresses';
+
+function unauthorized() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Authentication required',
+      message: 'Please log in to manage your addresses',
+    },
+    { status: 401 }
+  );
+}
+
+function serviceUnavailable(error: unknown) {
+  console.error('Address service unavailable:', error);
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Address service is temporarily unavailable. Please try again later.',
+      errorCode: 'SERVICE_UNAVAILABLE',
+    },
+    { status: 503 }
+  );
+}
+
+// GET /api/addresses - The signed-in customer's saved addresses, default first
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return unauthorized();
+
+    try {
+      const result = await fetchAddresses(accessToken);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error, errorCode: result.errorCode },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: result.data,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      return serviceUnavailable(backendError);
+    }
+
+  } catch (error) {
+    console.error('Addresses GET API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/addresses - Save an address; an identical saved one is returned instead of a copy
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return unauthorized();
+
+    const body = await request.json().catch(() => null);
+    const parsed = AddressFormSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: issue?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: issue ? { [String(issue.path[0])]: issue.message } : undefined,
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await createAddress(accessToken, parsed.data);
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error,
+            errorCode: result.errorCode,
+            fieldErrors: result.fieldErrors,
+          },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: result.data.duplicate
+            ? 'This address is already in your address book'
+            : 'Address saved',
+          timestamp: new Date().toISOString(),
+        },
+        { status: result.data.duplicate ? 200 : 201 }
+      );
+
+    } catch (backendError) {
+      return serviceUnavailable(backendError);
+    }
+
+  } catch (error) {
+    console.error('Addresses POST API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { API_CONFIG } from '@/lib/api-config';
+import { describeLowStock } from '@/lib/inventory-utils';
+import { fetchLowStockProducts, type LowStockProduct } from '@/lib/server-inventory';
 
 interface ActivityItem {
   id: string;
@@ -43,6 +45,18 @@ function sanitizeActivity(activity: any): ActivityItem {
   };
 }
 
+// Low-stock products stay at the top of the feed until they are restocked
+function toLowStockActivity(product: LowStockProduct): ActivityItem {
+  return {
+    id: `low-stock-${product.id}`,
+    type: 'product',
+    ...describeLowStock(product),
+    timestamp: formatTimestamp(product.updated_at),
+    status: 'warning',
+    created_at: product.updated_at,
+  };
+}
+
 function formatTimestamp(dateString: string): string {
   try {
     const date = new Date(dateString);
@@ -102,8 +116,11 @@ export async function GET(request: NextRequest) {
 
       if (response.ok) {
         const data = await response.json();
-        const sanitizedActivities = Array.isArray(data.data) 
-          ? data.data.map(sanitizeActivity).slice(0, limit)
+        const lowStockProducts = !type || type === 'product'
+          ? await fetchLowStockProducts(accessToken).catch(() => [])
+          : [];
+        const sanitizedActivities = Array.isArray(data.data)
+          ? [...lowStockProducts.map(toLowStockActivity), ...data.data.map(sanitizeActivity)].slice(0, limit)
           : DEFAULT_ACTIVITIES;
 
         return NextResponse.json({
@@ -0,0 +1,247 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { CategoryFormSchema } from '@/lib/category-schemas';
+import { sanitizeAdminCategory } from '@/lib/category-utils';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { checkCategoryPlacement, deleteCategory, fetchAdminCategories } from '@/lib/server-categories';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+async function requireAdmin(request: NextRequest) {
+  const accessToken = request.cookies.get('accessToken')?.value;
+  const authState = await getServerAuthState();
+
+  if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+    return null;
+  }
+
+  return { accessToken, user: authState.user };
+}
+
+function unauthorized() {
+  return NextResponse.json(
+    { success: false, error: 'Unauthorized' },
+    { status: 401 }
+  );
+}
+
+function serviceUnavailable(backendError: unknown) {
+  console.error('Backend categories API unavailable:', backendError);
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Category service is temporarily unavailable. Please try again later.',
+      errorCode: 'SERVICE_UNAVAILABLE',
+    },
+    { status: 503 }
+  );
+}
+
+// GET /api/admin/categories/[id] - One category with its product count
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin(request);
+    if (!admin) return unauthorized();
+
+    const { id } = await params;
+
+    try {
+      const category = (await fetchAdminCategories(admin.accessToken)).find(candidate => candidate.id === id);
+
+      if (!category) {
+        return NextResponse.json(
+          { success: false, error: 'Category not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: category,
+        message: 'Category retrieved successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (backendError) {
+      return serviceUnavailable(backendError);
+    }
+  } catch (error) {
+    console.error('Error fetching category:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/categories/[id] - Update a category; omitted fields keep their current value
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin(request);
+    if (!admin) return unauthorized();
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const parsed = CategoryFormSchema.partial().safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: issue?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: issue ? { [String(issue.path[0])]: issue.message } : undefined,
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const categories = await fetchAdminCategories(admin.accessToken);
+      const category = categories.find(candidate => candidate.id === id);
+
+      if (!category) {
+        return NextResponse.json(
+          { success: false, error: 'Category not found' },
+          { status: 404 }
+        );
+      }
+
+      const placement = {
+        slug: parsed.data.slug ?? category.slug,
+        parent_id: parsed.data.parent_id !== undefined ? parsed.data.parent_id : category.parent_id,
+      };
+      const check = checkCategoryPlacement(placement, categories, id);
+
+      if (!check.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: check.error,
+            errorCode: check.errorCode,
+            fieldErrors: check.field ? { [check.field]: check.error } : undefined,
+          },
+          { status: check.statusCode }
+        );
+      }
+
+      const parentId = placement.parent_id || null;
+      const update: Record<string, unknown> = {
+        ...parsed.data,
+        ...(parsed.data.image !== undefined && { image: parsed.data.image || null }),
+      };
+
+      // A category moved under another parent goes to the end of its new siblings
+      if (parentId !== (category.parent_id || null)) {
+        const siblings = categories.filter(candidate => (candidate.parent_id || null) === parentId);
+        update.parent_id = parentId;
+        update.sort_order = siblings.length > 0 ? Math.max(...siblings.map(sibling => sibling.sort_order)) + 1 : 0;
+      }
+
+      const response = await fetch(`${API_CONFIG.backend.base}/admin/categories/${encodeURIComponent(id)}`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${admin.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(update),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+
+        return NextResponse.json({
+          success: true,
+          data: sanitizeAdminCategory(data.data),
+          message: data.message || 'Category updated successfully',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const errorData = await response.json().catch(() => ({}));
+      return NextResponse.json(
+        {
+          success: false,
+          error: errorData.message || errorData.error || 'Failed to update category',
+          errorCode: errorData.errorCode,
+        },
+        { status: response.status }
+      );
+    } catch (backendError) {
+      return serviceUnavailable(backendError);
+    }
+  } catch (error) {
+    console.error('Error updating category:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/categories/[id]?reassign_to=<id>
+// A category with products is only deleted once they have another category to move to
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin(request);
+    if (!admin) return unauthorized();
+
+    const { id } = await params;
+    const reassignTo = new URL(request.url).searchParams.get('reassign_to') || undefined;
+
+    try {
+      const categories = await fetchAdminCategories(admin.accessToken);
+      const category = categories.find(candidate => candidate.id === id);
+
+      if (!category) {
+        return NextResponse.json(
+          { success: false, error: 'Category not found' },
+          { status: 404 }
+        );
+      }
+
+      const result = await deleteCategory({
+        category,
+        reassignTo,
+        categories,
+        actor: { id: admin.user.id, name: admin.user.name },
+        accessToken: admin.accessToken,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error,
+            errorCode: result.errorCode,
+          },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { id, reassigned: result.reassigned },
+        message: result.reassigned > 0
+          ? `Category deleted and ${result.reassigned} product${result.reassigned === 1 ? '' : 's'} moved`
+          : 'Category deleted successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (backendError) {
+      return serviceUnavailable(backendError);
+    }
+  } catch (error) {
+    console.error('Error deleting category:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CategoryReorderSchema } from '@/lib/category-schemas';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { fetchAdminCategories, reorderCategories } from '@/lib/server-categories';
+
+// PUT /api/admin/categories/reorder - Save the drag-and-drop order of one group of siblings
+// The storefront category grid and product filters list categories in this order
+export async function PUT(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = CategoryReorderSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await reorderCategories({
+        parentId: parsed.data.parent_id,
+        categoryIds: parsed.data.category_ids,
+        categories: await fetchAdminCategories(accessToken),
+        accessToken,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error,
+            errorCode: result.errorCode,
+          },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: parsed.data,
+        message: 'Category order saved',
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      console.error('Backend categories API unavailable:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Category service is temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Error reordering categories:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
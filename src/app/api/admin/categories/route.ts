@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { CategoryFormSchema } from '@/lib/category-schemas';
+import { sanitizeAdminCategory } from '@/lib/category-utils';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { checkCategoryPlacement, fetchAdminCategories } from '@/lib/server-categories';
+import { AdminCategory } from '@/types/admin';
+
+// Default fallback data for when backend is unavailable
+const DEFAULT_CATEGORIES: AdminCategory[] = [];
+
+// GET /api/admin/categories - List categories in tree order with search and pagination
+// The whole tree is loaded so sub-categories always follow their parent
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const limit = Math.max(1, Number(searchParams.get('limit')) || 100);
+
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+          message: 'Admin access required'
+        },
+        { status: 401 }
+      );
+    }
+
+    const search = searchParams.get('search')?.trim().toLowerCase();
+    const isActive = searchParams.get('is_active');
+
+    try {
+      const categories = (await fetchAdminCategories(accessToken)).filter(category =>
+        (!search || [category.name, category.slug, category.description || ''].some(value =>
+          value.toLowerCase().includes(search)
+        )) &&
+        (isActive === null || category.is_active === (isActive === 'true'))
+      );
+      const totalPages = Math.ceil(categories.length / limit);
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          categories: categories.slice((page - 1) * limit, page * limit),
+          pagination: {
+            page,
+            limit,
+            total: categories.length,
+            totalPages,
+            hasNext: page < totalPages,
+            hasPrev: page > 1,
+          },
+        },
+        message: 'Categories retrieved successfully',
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      console.warn('Backend categories API unavailable, using fallback data:', backendError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        categories: DEFAULT_CATEGORIES,
+        pagination: { page, limit, total: 0, totalPages: 0, hasNext: false, hasPrev: false },
+      },
+      message: 'Categories retrieved (using fallback data)',
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Categories API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      data: { categories: DEFAULT_CATEGORIES },
+      error: 'Internal server error',
+      message: 'Failed to retrieve categories',
+      timestamp: new Date().toISOString(),
+    }, { status: 500 });
+  }
+}
+
+// POST /api/admin/categories - Create a category, appended after its siblings
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = CategoryFormSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: issue?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: issue ? { [String(issue.path[0])]: issue.message } : undefined,
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const categories = await fetchAdminCategories(accessToken);
+      const check = checkCategoryPlacement(parsed.data, categories);
+
+      if (!check.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: check.error,
+            errorCode: check.errorCode,
+            fieldErrors: check.field ? { [check.field]: check.error } : undefined,
+          },
+          { status: check.statusCode }
+        );
+      }
+
+      const parentId = parsed.data.parent_id || null;
+      const siblings = categories.filter(category => (category.parent_id || null) === parentId);
+
+      const response = await fetch(`${API_CONFIG.backend.base}/admin/categories`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          ...parsed.data,
+          image: parsed.data.image || undefined,
+          parent_id: parentId,
+          sort_order: siblings.length > 0 ? Math.max(...siblings.map(category => category.sort_order)) + 1 : 0,
+        }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+
+        return NextResponse.json({
+          success: true,
+          data: sanitizeAdminCategory(data.data),
+          message: data.message || 'Category created successfully',
+          timestamp: new Date().toISOString(),
+        }, { status: 201 });
+      }
+
+      const errorData = await response.json().catch(() => ({}));
+      return NextResponse.json(
+        {
+          success: false,
+          error: errorData.message || errorData.error || 'Failed to create category',
+          errorCode: errorData.errorCode,
+        },
+        { status: response.status }
+      );
+
+    } catch (backendError) {
+      console.error('Backend categories API unavailable:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Category service is temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Create category API error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { CouponFormSchema } from '@/lib/coupon-schemas';
+import { sanitizeCoupon } from '@/lib/coupon-utils';
+import { getServerAuthState } from '@/lib/server-auth-state';
+
+// PUT /api/admin/coupons/[id] - Update a coupon
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const parsed = CouponFormSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    const response = await fetch(`${API_CONFIG.backend.base}/admin/coupons/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(parsed.data),
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+
+      return NextResponse.json({
+        success: true,
+        data: sanitizeCoupon(data.data),
+        message: data.message || 'Coupon updated successfully',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const errorData = await response.json().catch(() => ({}));
+    return NextResponse.json(
+      {
+        success: false,
+        error: errorData.message || errorData.error || 'Failed to update coupon',
+        errorCode: errorData.errorCode,
+      },
+      { status: response.status }
+    );
+  } catch (error) {
+    console.error('Error updating coupon:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/coupons/[id] - Delete a coupon
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const response = await fetch(`${API_CONFIG.backend.base}/admin/coupons/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (response.ok) {
+      return NextResponse.json({
+        success: true,
+        message: 'Coupon deleted successfully',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const errorData = await response.json().catch(() => ({}));
+    return NextResponse.json(
+      {
+        success: false,
+        error: errorData.message || errorData.error || 'Failed to delete coupon',
+      },
+      { status: response.status }
+    );
+  } catch (error) {
+    console.error('Error deleting coupon:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { CouponFormSchema } from '@/lib/coupon-schemas';
+import { sanitizeCoupon } from '@/lib/coupon-utils';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { AdminCoupon, AdminCouponQueryParams } from '@/types/admin';
+
+// Default fallback data for when backend is unavailable
+const DEFAULT_COUPONS: AdminCoupon[] = [];
+
+// Helper function to build query string from parameters
+function buildQueryString(params: AdminCouponQueryParams): string {
+  const searchParams = new URLSearchParams();
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      searchParams.append(key, String(value));
+    }
+  });
+
+  return searchParams.toString();
+}
+
+// GET /api/admin/coupons - List coupons with pagination and filters
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+          message: 'Admin access required'
+        },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryParams: AdminCouponQueryParams = {
+      page: searchParams.get('page') ? parseInt(searchParams.get('page')!, 10) : 1,
+      limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!, 10) : 20,
+      search: searchParams.get('search') || undefined,
+      is_active: searchParams.get('is_active') ? searchParams.get('is_active') === 'true' : undefined,
+      sortBy: searchParams.get('sortBy') || 'created_at',
+      sortOrder: (searchParams.get('sortOrder') as 'asc' | 'desc') || 'desc',
+    };
+
+    try {
+      const queryString = buildQueryString(queryParams);
+      const backendUrl = `${API_CONFIG.backend.base}/admin/coupons${queryString ? `?${queryString}` : ''}`;
+
+      const response = await fetch(backendUrl, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        cache: 'no-store',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const coupons = Array.isArray(data.data) ? data.data : data.data?.coupons;
+        const pagination = data.pagination || data.data?.pagination;
+
+        return NextResponse.json({
+          success: true,
+          data: Array.isArray(coupons) ? coupons.map(sanitizeCoupon) : [],
+          pagination: {
+            page: Number(pagination?.page) || queryParams.page || 1,
+            limit: Number(pagination?.limit) || queryParams.limit || 20,
+            total: Number(pagination?.total) || 0,
+            totalPages: Number(pagination?.totalPages) || 0,
+            hasNext: Boolean(pagination?.hasNext),
+            hasPrev: Boolean(pagination?.hasPrev),
+          },
+          message: data.message || 'Coupons retrieved successfully',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Unauthorized',
+            message: 'Admin access required',
+          },
+          { status: response.status }
+        );
+      }
+
+      console.warn(`Backend coupons API returned ${response.status}, using fallback data`);
+
+    } catch (backendError) {
+      console.warn('Backend coupons API unavailable, using fallback data:', backendError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: DEFAULT_COUPONS,
+      pagination: {
+        page: queryParams.page || 1,
+        limit: queryParams.limit || 20,
+        total: 0,
+        totalPages: 0,
+        hasNext: false,
+        hasPrev: false,
+      },
+      message: 'Coupons retrieved (using fallback data)',
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Coupons API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      data: DEFAULT_COUPONS,
+      error: 'Internal server error',
+      message: 'Failed to retrieve coupons',
+      timestamp: new Date().toISOString(),
+    }, { status: 500 });
+  }
+}
+
+// POST /api/admin/coupons - Create a coupon
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = CouponFormSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const response = await fetch(`${API_CONFIG.backend.base}/admin/coupons`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify(parsed.data),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+
+        return NextResponse.json({
+          success: true,
+          data: sanitizeCoupon(data.data),
+          message: data.message || 'Coupon created successfully',
+          timestamp: new Date().toISOString(),
+        }, { status: 201 });
+      }
+
+      const errorData = await response.json().catch(() => ({}));
+      return NextResponse.json(
+        {
+          success: false,
+          error: errorData.message || errorData.error || (response.status === 409
+            ? `A coupon with the code ${parsed.data.code} already exists`
+            : 'Failed to create coupon'),
+          errorCode: errorData.errorCode,
+        },
+        { status: response.status }
+      );
+
+    } catch (backendError) {
+      console.error('Backend coupons API unavailable:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Coupon service is temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Create coupon API error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server';
+import { renderAdminOrderDocuments } from '@/lib/server-order-documents';
+
+// GET /api/admin/orders/[id]/invoice - Branded invoice PDF for one order
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return renderAdminOrderDocuments(request, [id], 'invoice');
+}
+
+export const dynamic = 'force-dynamic';
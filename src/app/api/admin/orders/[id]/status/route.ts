@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { updateOrderStatusOnBackend } from '@/lib/server-order-status';
+
+// PUT /api/admin/orders/[id]/status - Update order status and record the transition
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Order ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.status || typeof body.status !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Status is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateOrderStatusOnBackend({
+      orderId: id,
+      status: body.status,
+      payload: {
+        notes: typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : undefined,
+        tracking_number:
+          typeof body.tracking_number === 'string' ? body.tracking_number.trim() : undefined,
+        estimated_delivery:
+          typeof body.estimated_delivery === 'string' ? body.estimated_delivery : undefined,
+      },
+      actor: {
+        id: authState.user.id,
+        name: authState.user.name,
+        role: 'ADMIN',
+      },
+      accessToken,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error,
+          errorCode: result.errorCode,
+          fieldErrors: result.fieldErrors,
+        },
+        { status: result.statusCode }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.order,
+      message: result.message || 'Order status updated successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error updating order status:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
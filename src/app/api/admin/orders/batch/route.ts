@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runSequentialBatch } from '@/lib/batch-utils';
+import { BulkOrderActionSchema } from '@/lib/order-schemas';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { BULK_ORDER_ACTION_STATUS } from '@/lib/order-status';
+import { updateOrderStatusOnBackend } from '@/lib/server-order-status';
+import type { BulkOrderActionResponse, BulkOrderActionResult } from '@/types/admin';
+
+// POST /api/admin/orders/batch - Apply one status action to many orders
+// Each order is validated and updated independently, so a batch can partially succeed
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = BulkOrderActionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    const { action, orders, reason } = parsed.data;
+    const actor = {
+      id: authState.user.id,
+      name: authState.user.name,
+      role: 'ADMIN' as const,
+    };
+    const results = await runSequentialBatch<(typeof orders)[number], BulkOrderActionResult>(
+      orders,
+      async order => {
+        const result = await updateOrderStatusOnBackend({
+          orderId: order.id,
+          status: BULK_ORDER_ACTION_STATUS[action],
+          payload: {
+            notes: reason,
+            tracking_number: order.tracking_number || undefined,
+          },
+          actor,
+          accessToken,
+        });
+
+        return result.success
+          ? {
+              id: order.id,
+              order_number: result.order.order_number,
+              success: true,
+              status: result.order.status,
+            }
+          : {
+              id: order.id,
+              order_number: result.order?.order_number,
+              success: false,
+              error: result.error,
+              errorCode: result.errorCode,
+            };
+      },
+      (order, error) => {
+        console.error(`Bulk order update failed for ${order.id}:`, error);
+        return { id: order.id, success: false, error: 'Backend unavailable' };
+      }
+    );
+
+    const succeeded = results.filter(result => result.success).length;
+    const data: BulkOrderActionResponse = {
+      action,
+      results,
+      succeeded,
+      failed: results.length - succeeded,
+    };
+
+    return NextResponse.json({
+      success: data.failed === 0,
+      data,
+      message:
+        data.failed === 0
+          ? `${succeeded} order${succeeded === 1 ? '' : 's'} updated`
+          : `${succeeded} of ${results.length} orders updated, ${data.failed} failed`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error applying bulk order action:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
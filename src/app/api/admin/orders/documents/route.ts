@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ORDER_DOCUMENT_TYPES,
+  renderAdminOrderDocuments,
+  type OrderDocumentType,
+} from '@/lib/server-order-documents';
+
+// GET /api/admin/orders/documents?ids=a,b,c&type=invoice|packing-slip
+// Multi-order PDF for bulk printing - one order per page
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const type = (searchParams.get('type') || 'invoice') as OrderDocumentType;
+  const ids = (searchParams.get('ids') || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  if (!ORDER_DOCUMENT_TYPES.includes(type)) {
+    return NextResponse.json(
+      { success: false, error: 'Document type must be invoice or packing-slip' },
+      { status: 400 }
+    );
+  }
+
+  return renderAdminOrderDocuments(request, Array.from(new Set(ids)), type);
+}
+
+export const dynamic = 'force-dynamic';
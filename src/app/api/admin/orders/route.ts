@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { API_CONFIG } from '@/lib/api-config';
+import { sanitizeOrder } from '@/lib/order-utils';
 import { AdminOrder, AdminOrderQueryParams, PaginatedResponse } from '@/types/admin';
 
 const DEFAULT_ORDERS: AdminOrder[] = [];
@@ -16,61 +17,6 @@ function buildQueryString(params: AdminOrderQueryParams): string {
   return searchParams.toString();
 }
 
-function sanitizeOrder(order: any): AdminOrder {
-  return {
-    id: String(order.id || ''),
-    order_number: String(order.order_number || ''),
-    user_id: String(order.user_id || ''),
-    customer: {
-      id: String(order.customer?.id || order.user_id || ''),
-      name: String(order.customer?.name || ''),
-      email: String(order.customer?.email || ''),
-      phone_number: order.customer?.phone_number || undefined,
-    },
-    items: Array.isArray(order.items) ? order.items.map((item: any) => ({
-      id: String(item.id || ''),
-      order_id: String(item.order_id || order.id || ''),
-      product_id: String(item.product_id || ''),
-      product: {
-        id: String(item.product?.id || item.product_id || ''),
-        name: String(item.product?.name || ''),
-        images: Array.isArray(item.product?.images) ? item.product.images : [],
-        slug: item.product?.slug || undefined,
-      },
-      quantity: Number(item.quantity) || 0,
-      unit_price: Number(item.unit_price) || 0,
-      total_price: Number(item.total_price) || 0,
-      created_at: String(item.created_at || new Date().toISOString()),
-    })) : [],
-    items_count: Number(order.items_count) || 0,
-    subtotal: Number(order.subtotal) || 0,
-    shipping_cost: Number(order.shipping_cost) || 0,
-    tax_amount: Number(order.tax_amount) || 0,
-    discount_amount: Number(order.discount_amount) || 0,
-    total_amount: Number(order.total_amount) || 0,
-    status: order.status || 'pending',
-    payment_status: order.payment_status || 'pending',
-    payment_method: order.payment_method || 'cod',
-    shipping_address: {
-      name: String(order.shipping_address?.name || ''),
-      phone: String(order.shipping_address?.phone || ''),
-      address_line_1: String(order.shipping_address?.address_line_1 || ''),
-      address_line_2: order.shipping_address?.address_line_2 || undefined,
-      city: String(order.shipping_address?.city || ''),
-      postal_code: String(order.shipping_address?.postal_code || ''),
-      country: String(order.shipping_address?.country || 'Bangladesh'),
-    },
-    notes: order.notes || undefined,
-    tracking_number: order.tracking_number || undefined,
-    estimated_delivery: order.estimated_delivery || undefined,
-    delivered_at: order.delivered_at || undefined,
-    days_since_created: Number(order.days_since_created) || 0,
-    created_at: String(order.created_at || new Date().toISOString()),
-    updated_at: String(order.updated_at || new Date().toISOString()),
-    deleted_at: order.deleted_at || undefined,
-  };
-}
-
 export async function GET(request: NextRequest) {
   try {
     const accessToken = request.cookies.get('accessToken')?.value;
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InventoryMovementSchema } from '@/lib/inventory-schemas';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { fetchInventoryMovements, recordInventoryMovement } from '@/lib/server-inventory';
+
+// GET /api/admin/products/[id]/inventory - Stock movement history for a product
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const result = await fetchInventoryMovements(id, accessToken, {
+      page: searchParams.get('page') ? parseInt(searchParams.get('page')!, 10) : 1,
+      limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!, 10) : 20,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.statusCode }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.movements,
+      pagination: {
+        ...result.pagination,
+        hasNext: result.pagination.page < result.pagination.totalPages,
+        hasPrev: result.pagination.page > 1,
+      },
+      message: 'Stock history retrieved successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching stock history:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/products/[id]/inventory - Record a receipt, return, adjustment or damage
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const parsed = InventoryMovementSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await recordInventoryMovement({
+      productId: id,
+      movement: parsed.data,
+      actor: { id: authState.user.id, name: authState.user.name },
+      accessToken,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error,
+          errorCode: result.errorCode,
+        },
+        { status: result.statusCode }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { movement: result.movement, product: result.product },
+      message: 'Stock movement recorded successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error recording stock movement:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
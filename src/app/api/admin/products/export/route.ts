@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PRODUCT_IMPORT_FILE_TYPES, type ProductImportFileType } from '@/lib/product-import-utils';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { fetchAdminCategories } from '@/lib/server-categories';
+import { fetchProductsForExport, renderProductExport } from '@/lib/server-product-import';
+import type { AdminProductQueryParams } from '@/types/admin';
+
+const CONTENT_TYPES: Record<ProductImportFileType, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+function optionalBoolean(value: string | null): boolean | undefined {
+  return value ? value === 'true' : undefined;
+}
+
+// GET /api/admin/products/export?format=csv|xlsx&<list filters>
+// Every product matching the products list filters, in the import file layout
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'csv') as ProductImportFileType;
+
+    if (!PRODUCT_IMPORT_FILE_TYPES.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: 'Export format must be csv or xlsx', errorCode: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const filters: Omit<AdminProductQueryParams, 'page' | 'limit'> = {
+      search: searchParams.get('search') || undefined,
+      category_id: searchParams.get('category_id') || undefined,
+      featured: optionalBoolean(searchParams.get('featured')),
+      in_stock: optionalBoolean(searchParams.get('in_stock')),
+      is_active: optionalBoolean(searchParams.get('is_active')),
+      low_stock: optionalBoolean(searchParams.get('low_stock')),
+      sortBy: searchParams.get('sortBy') || 'created_at',
+      sortOrder: (searchParams.get('sortOrder') as 'asc' | 'desc') || 'desc',
+    };
+
+    try {
+      const [products, categories] = await Promise.all([
+        fetchProductsForExport(filters, accessToken),
+        fetchAdminCategories(accessToken),
+      ]);
+      const file = await renderProductExport(products, categories, format);
+      const date = new Date().toISOString().slice(0, 10);
+
+      return new NextResponse(new Uint8Array(file), {
+        status: 200,
+        headers: {
+          'Content-Type': CONTENT_TYPES[format],
+          'Content-Disposition': `attachment; filename="products-${date}.${format}"`,
+          'Cache-Control': 'private, no-store',
+        },
+      });
+
+    } catch (backendError) {
+      console.error('Backend products API unavailable for export:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Product export is temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Product export API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      message: 'An unexpected error occurred while exporting products',
+      timestamp: new Date().toISOString(),
+    }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
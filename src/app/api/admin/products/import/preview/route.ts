@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getImportFileType,
+  MAX_PRODUCT_IMPORT_ROWS,
+  type ProductImportPreview,
+} from '@/lib/product-import-utils';
+import { ProductImportFileSchema } from '@/lib/product-schemas';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { fetchAdminCategories } from '@/lib/server-categories';
+import {
+  previewProductImport,
+  readProductSpreadsheet,
+  type ImportCategory,
+} from '@/lib/server-product-import';
+
+// POST /api/admin/products/import/preview - Dry-run a CSV/XLSX product import
+// Every row is validated and reported; nothing is created until rows are committed
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = ProductImportFileSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    const { file_name, content } = parsed.data;
+    const fileType = getImportFileType(file_name);
+
+    if (!fileType) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Upload a .csv or .xlsx file',
+          errorCode: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    let rows;
+    try {
+      rows = await readProductSpreadsheet(Buffer.from(content, 'base64'), fileType);
+    } catch (readError) {
+      console.warn('Product import file could not be read:', readError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: `This file could not be read as ${fileType.toUpperCase()}`,
+          errorCode: 'INVALID_FILE',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'The file has no product rows below the header',
+          errorCode: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (rows.length > MAX_PRODUCT_IMPORT_ROWS) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Import at most ${MAX_PRODUCT_IMPORT_ROWS} products per file`,
+          errorCode: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    let categories: ImportCategory[];
+    try {
+      categories = await fetchAdminCategories(accessToken);
+    } catch (backendError) {
+      console.error('Backend categories API unavailable:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Product import is temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+    const previewRows = previewProductImport(rows, categories);
+    const valid = previewRows.filter(row => row.errors.length === 0).length;
+    const data: ProductImportPreview = {
+      file_name,
+      total: previewRows.length,
+      valid,
+      invalid: previewRows.length - valid,
+      rows: previewRows,
+    };
+
+    return NextResponse.json({
+      success: true,
+      data,
+      message: `${valid} of ${previewRows.length} rows ready to import`,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Product import preview API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      message: 'An unexpected error occurred while reading the import file',
+      timestamp: new Date().toISOString(),
+    }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
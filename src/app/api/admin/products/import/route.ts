@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { ProductImportBatchResponse } from '@/lib/product-import-utils';
+import { ProductImportBatchSchema } from '@/lib/product-schemas';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { fetchAdminCategories } from '@/lib/server-categories';
+import {
+  importProductBatch,
+  type ImportCategory,
+} from '@/lib/server-product-import';
+
+// POST /api/admin/products/import - Create one batch of previewed import rows
+// Rows are re-validated here, and each one is created independently so a batch can partially succeed
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = ProductImportBatchSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    let categories: ImportCategory[];
+    try {
+      categories = await fetchAdminCategories(accessToken);
+    } catch (backendError) {
+      console.error('Backend categories API unavailable:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Product import is temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+    const results = await importProductBatch({
+      rows: parsed.data.rows,
+      categories,
+      fileName: parsed.data.file_name,
+      actor: { id: authState.user.id, name: authState.user.name },
+      accessToken,
+    });
+
+    const succeeded = results.filter(result => result.success).length;
+    const data: ProductImportBatchResponse = {
+      results,
+      succeeded,
+      failed: results.length - succeeded,
+    };
+
+    return NextResponse.json({
+      success: data.failed === 0,
+      data,
+      message:
+        data.failed === 0
+          ? `${succeeded} product${succeeded === 1 ? '' : 's'} imported`
+          : `${succeeded} of ${results.length} products imported, ${data.failed} failed`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error importing products:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
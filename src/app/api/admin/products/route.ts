@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { API_CONFIG } from '@/lib/api-config';
+import { sanitizeAdminProductVariants } from '@/lib/product-variants';
 import { AdminProduct, BackendPaginatedResponse, AdminProductQueryParams, CreateProductData, ApiResponse } from '@/types/admin';
 
 // Default fallback data for when backend is unavailable
@@ -29,6 +30,7 @@ function sanitizeProduct(product: any): AdminProduct {
     cost_price: product.cost_price ? Number(product.cost_price) : undefined,
     sku: product.sku || undefined,
     stock_quantity: Number(product.stock_quantity) || 0,
+    reserved_quantity: Number(product.reserved_quantity) || 0,
     low_stock_threshold: product.low_stock_threshold ? Number(product.low_stock_threshold) : undefined,
     category_id: product.category_id || undefined,
     category_name: product.category?.name || product.category_name || undefined,
@@ -41,6 +43,13 @@ function sanitizeProduct(product: any): AdminProduct {
     tags: Array.isArray(product.tags) ? product.tags : undefined,
     meta_title: product.meta_title || undefined,
     meta_description: product.meta_description || undefined,
+    variants: sanitizeAdminProductVariants(product.variants),
+    is_preorder: Boolean(product.is_preorder),
+    preorder_available_date: product.preorder_available_date || undefined,
+    preorder_deposit_free: product.is_preorder ? product.preorder_deposit_free !== false : undefined,
+    restock_subscriber_count: Number(product.restock_subscriber_count) || 0,
+    average_rating: Number(product.average_rating) || 0,
+    review_count: Number(product.review_count) || 0,
     sales_count: Number(product.sales_count) || 0,
     revenue: Number(product.revenue) || 0,
     created_at: String(product.created_at || new Date().toISOString()),
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ReviewModerationSchema } from '@/lib/review-schemas';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { moderateReviewOnBackend } from '@/lib/server-review-moderation';
+
+// PUT /api/admin/reviews/[id] - Approve, reject, reply to or feature a review
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const parsed = ReviewModerationSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await moderateReviewOnBackend({
+      reviewId: id,
+      moderation: parsed.data,
+      actor: { id: authState.user.id, name: authState.user.name },
+      accessToken,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error,
+          errorCode: result.errorCode,
+        },
+        { status: result.statusCode }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.review,
+      message: result.message || 'Review updated successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error moderating review:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
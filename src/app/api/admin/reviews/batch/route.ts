@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runSequentialBatch } from '@/lib/batch-utils';
+import { BulkReviewActionSchema } from '@/lib/review-schemas';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { moderateReviewOnBackend } from '@/lib/server-review-moderation';
+import type { BulkReviewActionResponse, BulkReviewActionResult } from '@/types/admin';
+
+// POST /api/admin/reviews/batch - Approve or reject many reviews
+// Each review is checked and updated independently, so a batch can partially succeed
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = BulkReviewActionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    const { action, ids, reason } = parsed.data;
+    const actor = { id: authState.user.id, name: authState.user.name };
+    const results = await runSequentialBatch<string, BulkReviewActionResult>(
+      ids,
+      async id => {
+        const result = await moderateReviewOnBackend({
+          reviewId: id,
+          moderation: action === 'reject' ? { action, reason } : { action },
+          actor,
+          accessToken,
+        });
+
+        return result.success
+          ? { id, success: true, status: result.review.status }
+          : { id, success: false, error: result.error, errorCode: result.errorCode };
+      },
+      (id, error) => {
+        console.error(`Bulk review update failed for ${id}:`, error);
+        return { id, success: false, error: 'Backend unavailable' };
+      }
+    );
+
+    const succeeded = results.filter(result => result.success).length;
+    const data: BulkReviewActionResponse = {
+      action,
+      results,
+      succeeded,
+      failed: results.length - succeeded,
+    };
+
+    return NextResponse.json({
+      success: data.failed === 0,
+      data,
+      message:
+        data.failed === 0
+          ? `${succeeded} review${succeeded === 1 ? '' : 's'} updated`
+          : `${succeeded} of ${results.length} reviews updated, ${data.failed} failed`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error applying bulk review action:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { sanitizeAdminReview } from '@/lib/review-utils';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { AdminReview, AdminReviewQueryParams } from '@/types/admin';
+
+// Default fallback data for when backend is unavailable
+const DEFAULT_REVIEWS: AdminReview[] = [];
+
+const REVIEW_STATUSES: AdminReview['status'][] = ['pending', 'approved', 'rejected'];
+
+// Helper function to build query string from parameters
+function buildQueryString(params: AdminReviewQueryParams): string {
+  const searchParams = new URLSearchParams();
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      searchParams.append(key, String(value));
+    }
+  });
+
+  return searchParams.toString();
+}
+
+// GET /api/admin/reviews - List reviews for moderation with pagination and filters
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+          message: 'Admin access required'
+        },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as AdminReview['status'] | null;
+    const queryParams: AdminReviewQueryParams = {
+      page: searchParams.get('page') ? parseInt(searchParams.get('page')!, 10) : 1,
+      limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!, 10) : 20,
+      search: searchParams.get('search') || undefined,
+      status: status && REVIEW_STATUSES.includes(status) ? status : undefined,
+      rating: searchParams.get('rating') ? parseInt(searchParams.get('rating')!, 10) : undefined,
+      featured: searchParams.get('featured') ? searchParams.get('featured') === 'true' : undefined,
+      sortBy: searchParams.get('sortBy') || 'created_at',
+      sortOrder: (searchParams.get('sortOrder') as 'asc' | 'desc') || 'desc',
+    };
+
+    try {
+      const queryString = buildQueryString(queryParams);
+      const backendUrl = `${API_CONFIG.backend.base}/admin/reviews${queryString ? `?${queryString}` : ''}`;
+
+      const response = await fetch(backendUrl, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        cache: 'no-store',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const reviews = Array.isArray(data.data) ? data.data : data.data?.reviews;
+        const pagination = data.pagination || data.data?.pagination;
+
+        return NextResponse.json({
+          success: true,
+          data: Array.isArray(reviews) ? reviews.map(sanitizeAdminReview) : [],
+          pagination: {
+            page: Number(pagination?.page) || queryParams.page || 1,
+            limit: Number(pagination?.limit) || queryParams.limit || 20,
+            total: Number(pagination?.total) || 0,
+            totalPages: Number(pagination?.totalPages) || 0,
+            hasNext: Boolean(pagination?.hasNext),
+            hasPrev: Boolean(pagination?.hasPrev),
+          },
+          message: data.message || 'Reviews retrieved successfully',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Unauthorized',
+            message: 'Admin access required',
+          },
+          { status: response.status }
+        );
+      }
+
+      console.warn(`Backend reviews API returned ${response.status}, using fallback data`);
+
+    } catch (backendError) {
+      console.warn('Backend reviews API unavailable, using fallback data:', backendError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: DEFAULT_REVIEWS,
+      pagination: {
+        page: queryParams.page || 1,
+        limit: queryParams.limit || 20,
+        total: 0,
+        totalPages: 0,
+        hasNext: false,
+        hasPrev: false,
+      },
+      message: 'Reviews retrieved (using fallback data)',
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Reviews API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      data: DEFAULT_REVIEWS,
+      error: 'Internal server error',
+      message: 'Failed to retrieve reviews',
+      timestamp: new Date().toISOString(),
+    }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
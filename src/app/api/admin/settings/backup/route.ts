@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchDeliverySettings } from '@/lib/server-delivery';
+import { fetchSearchSettings } from '@/lib/server-search';
+import { fetchAdminSettings, getAdminAccess } from '@/lib/server-settings';
+import type { SettingsBackup } from '@/lib/settings-schemas';
+import { SETTINGS_BACKUP_VERSION } from '@/lib/settings-utils';
+
+// GET /api/admin/settings/backup - Snapshot of system settings, delivery zones and search synonyms
+export async function GET(request: NextRequest) {
+  const { accessToken, isAdmin } = await getAdminAccess(request);
+
+  if (!isAdmin || !accessToken) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const [settings, delivery, search] = await Promise.all([
+    fetchAdminSettings(accessToken),
+    fetchDeliverySettings(),
+    fetchSearchSettings(),
+  ]);
+
+  // A backup of fallback defaults would silently overwrite real settings on restore
+  if (!settings || !delivery) {
+    return NextResponse.json(
+      { success: false, error: 'Settings are unavailable right now, please try again' },
+      { status: 503 }
+    );
+  }
+
+  const backup: SettingsBackup = {
+    version: SETTINGS_BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    settings,
+    delivery: {
+      zones: delivery.zones,
+      free_shipping_threshold: delivery.free_shipping_threshold,
+    },
+    search: {
+      synonyms: search.synonyms,
+    },
+  };
+
+  return NextResponse.json({
+    success: true,
+    data: backup,
+    message: 'Settings backup created',
+    timestamp: new Date().toISOString(),
+  });
+}
+
+export const dynamic = 'force-dynamic';
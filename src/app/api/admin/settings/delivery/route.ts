@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { fetchDeliverySettings } from '@/lib/server-delivery';
+import { DeliverySettingsSchema } from '@/lib/settings-schemas';
+import { getAdminAccess } from '@/lib/server-settings';
+import { sanitizeDeliverySettings } from '@/lib/shipping-utils';
+
+// GET /api/admin/settings/delivery - Delivery zones for the settings editor
+export async function GET(request: NextRequest) {
+  const { isAdmin } = await getAdminAccess(request);
+
+  if (!isAdmin) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const settings = await fetchDeliverySettings();
+
+  // Default zones shown in the editor would overwrite the saved ones on the next save
+  if (!settings) {
+    return NextResponse.json(
+      { success: false, error: 'Delivery zones are unavailable right now, please try again' },
+      { status: 503 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: settings,
+    message: 'Delivery settings retrieved successfully',
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// PUT /api/admin/settings/delivery - Save delivery zones
+export async function PUT(request: NextRequest) {
+  try {
+    const { accessToken, isAdmin } = await getAdminAccess(request);
+
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = DeliverySettingsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: issue?.message || 'Invalid delivery settings',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: issue ? { [issue.path.join('.')]: issue.message } : undefined,
+        },
+        { status: 400 }
+      );
+    }
+
+    const response = await fetch(`${API_CONFIG.backend.base}/admin/settings/delivery`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(parsed.data),
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+
+      return NextResponse.json({
+        success: true,
+        data: sanitizeDeliverySettings(data.data || parsed.data),
+        message: data.message || 'Delivery settings saved',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const errorData = await response.json().catch(() => ({}));
+    return NextResponse.json(
+      {
+        success: false,
+        error: errorData.message || errorData.error || 'Failed to save delivery settings',
+      },
+      { status: response.status }
+    );
+  } catch (error) {
+    console.error('Delivery settings API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
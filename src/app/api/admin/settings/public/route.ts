@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { sanitizePublicSettings } from '@/lib/maintenance-mode';
+
+// GET /api/admin/settings/public - Settings the storefront and middleware read without signing in
+export async function GET() {
+  try {
+    const response = await fetch(`${API_CONFIG.backend.base}/settings/public`, {
+      headers: { 'Content-Type': 'application/json' },
+      next: { revalidate: 30 },
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+
+      return NextResponse.json({
+        success: true,
+        data: sanitizePublicSettings(data.data),
+        message: 'Public settings retrieved successfully',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    console.warn(`Backend public settings API returned ${response.status}`);
+  } catch (backendError) {
+    console.warn('Backend public settings API unavailable:', backendError);
+  }
+
+  // An error rather than defaults, so middleware keeps its last known maintenance state
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Public settings are temporarily unavailable',
+      errorCode: 'SERVICE_UNAVAILABLE',
+    },
+    { status: 503 }
+  );
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { getAdminAccess } from '@/lib/server-settings';
+import { DEFAULT_SYSTEM_SETTINGS, fromAdminSettings } from '@/lib/settings-utils';
+
+// POST /api/admin/settings/reset - Restore default system settings
+export async function POST(request: NextRequest) {
+  try {
+    const { accessToken, isAdmin } = await getAdminAccess(request);
+
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const response = await fetch(`${API_CONFIG.backend.base}/admin/settings/reset`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (response.ok) {
+      const data = await response.json().catch(() => ({}));
+
+      return NextResponse.json({
+        success: true,
+        data: data.data ? fromAdminSettings(data.data) : DEFAULT_SYSTEM_SETTINGS,
+        message: data.message || 'Settings reset to defaults',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const errorData = await response.json().catch(() => ({}));
+    return NextResponse.json(
+      {
+        success: false,
+        error: errorData.message || errorData.error || 'Failed to reset settings',
+      },
+      { status: response.status }
+    );
+  } catch (error) {
+    console.error('Settings reset API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { getAdminAccess } from '@/lib/server-settings';
+import { SettingsBackupSchema } from '@/lib/settings-schemas';
+import { fromAdminSettings, toAdminSettings } from '@/lib/settings-utils';
+import { sanitizeSearchSettings } from '@/lib/search-synonyms';
+import { sanitizeDeliverySettings } from '@/lib/shipping-utils';
+
+// POST /api/admin/settings/restore - Restore settings from a backup file
+export async function POST(request: NextRequest) {
+  try {
+    const { accessToken, isAdmin } = await getAdminAccess(request);
+
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = SettingsBackupSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: issue
+            ? `Invalid backup file: ${issue.path.join('.') || 'root'} - ${issue.message}`
+            : 'Invalid backup file',
+          errorCode: 'INVALID_BACKUP',
+        },
+        { status: 400 }
+      );
+    }
+
+    const response = await fetch(`${API_CONFIG.backend.base}/admin/settings/restore`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        settings: toAdminSettings(parsed.data.settings),
+        delivery: parsed.data.delivery,
+        search: parsed.data.search,
+      }),
+    });
+
+    if (response.ok) {
+      const data = await response.json().catch(() => ({}));
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          settings: data.data?.settings
+            ? fromAdminSettings(data.data.settings)
+            : parsed.data.settings,
+          delivery: parsed.data.delivery ? sanitizeDeliverySettings(parsed.data.delivery) : undefined,
+          search: parsed.data.search ? sanitizeSearchSettings(parsed.data.search) : undefined,
+        },
+        message: data.message || 'Settings restored from backup',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const errorData = await response.json().catch(() => ({}));
+    return NextResponse.json(
+      {
+        success: false,
+        error: errorData.message || errorData.error || 'Failed to restore settings',
+      },
+      { status: response.status }
+    );
+  } catch (error) {
+    console.error('Settings restore API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
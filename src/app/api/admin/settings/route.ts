@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { SystemSettingsSchema } from '@/lib/settings-schemas';
+import { fromAdminSettings, toAdminSettings } from '@/lib/settings-utils';
+import { fetchAdminSettings, getAdminAccess } from '@/lib/server-settings';
+
+// GET /api/admin/settings - System settings grouped by settings page section
+export async function GET(request: NextRequest) {
+  const { accessToken, isAdmin } = await getAdminAccess(request);
+
+  if (!isAdmin || !accessToken) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const settings = await fetchAdminSettings(accessToken);
+
+  // Defaults shown in place of the stored settings would overwrite them on the next save
+  if (!settings) {
+    return NextResponse.json(
+      { success: false, error: 'Settings are unavailable right now, please try again' },
+      { status: 503 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: settings,
+    message: 'Settings retrieved successfully',
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// PUT /api/admin/settings - Validate and save system settings
+export async function PUT(request: NextRequest) {
+  try {
+    const { accessToken, isAdmin } = await getAdminAccess(request);
+
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = SystemSettingsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: issue?.message || 'Invalid settings',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: Object.fromEntries(
+            parsed.error.issues.map(fieldIssue => [fieldIssue.path.join('.'), fieldIssue.message])
+          ),
+        },
+        { status: 400 }
+      );
+    }
+
+    const response = await fetch(`${API_CONFIG.backend.base}/admin/settings`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(toAdminSettings(parsed.data)),
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+
+      return NextResponse.json({
+        success: true,
+        data: data.data ? fromAdminSettings(data.data) : parsed.data,
+        message: data.message || 'Settings saved',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const errorData = await response.json().catch(() => ({}));
+    return NextResponse.json(
+      {
+        success: false,
+        error: errorData.message || errorData.error || 'Failed to save settings',
+      },
+      { status: response.status }
+    );
+  } catch (error) {
+    console.error('Settings API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { fetchSearchSettings } from '@/lib/server-search';
+import { SearchSettingsSchema } from '@/lib/settings-schemas';
+import { getAdminAccess } from '@/lib/server-settings';
+import { sanitizeSearchSettings } from '@/lib/search-synonyms';
+
+// GET /api/admin/settings/search - Search synonyms for the settings editor
+export async function GET(request: NextRequest) {
+  const { isAdmin } = await getAdminAccess(request);
+
+  if (!isAdmin) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: await fetchSearchSettings(),
+    message: 'Search settings retrieved successfully',
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// PUT /api/admin/settings/search - Save search synonyms
+export async function PUT(request: NextRequest) {
+  try {
+    const { accessToken, isAdmin } = await getAdminAccess(request);
+
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = SearchSettingsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: issue?.message || 'Invalid search settings',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: issue ? { [issue.path.join('.')]: issue.message } : undefined,
+        },
+        { status: 400 }
+      );
+    }
+
+    const response = await fetch(`${API_CONFIG.backend.base}/admin/settings/search`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(parsed.data),
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+
+      return NextResponse.json({
+        success: true,
+        data: sanitizeSearchSettings(data.data || parsed.data),
+        message: data.message || 'Search synonyms saved',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const errorData = await response.json().catch(() => ({}));
+    return NextResponse.json(
+      {
+        success: false,
+        error: errorData.message || errorData.error || 'Failed to save search synonyms',
+      },
+      { status: response.status }
+    );
+  } catch (error) {
+    console.error('Search settings API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
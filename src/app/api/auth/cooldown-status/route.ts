@@ -1,10 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { normalizeBangladeshiPhone } from '@/lib/phone-utils';
+import { fetchPhoneCooldownStatus } from '@/lib/server-phone-auth';
 
-// Get cooldown status (GET request with email query parameter)
+// Cooldown status for a phone number used with SMS sign-in
+async function getPhoneCooldownStatus(phone: string) {
+  const phoneNumber = normalizeBangladeshiPhone(phone);
+
+  if (!phoneNumber) {
+    return NextResponse.json(
+      { error: 'Please enter a valid mobile number (01XXXXXXXXX)' },
+      { status: 400 }
+    );
+  }
+
+  const status = await fetchPhoneCooldownStatus(phoneNumber);
+  return NextResponse.json({ success: true, data: status });
+}
+
+// Get cooldown status (GET request with email or phone query parameter)
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const email = searchParams.get('email');
+    const phone = searchParams.get('phone');
+
+    if (phone) {
+      return await getPhoneCooldownStatus(phone);
+    }
 
     if (!email) {
       return NextResponse.json(
@@ -52,7 +74,11 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { email } = body;
+    const { email, phone_number } = body;
+
+    if (phone_number) {
+      return await getPhoneCooldownStatus(String(phone_number));
+    }
 
     if (!email) {
       return NextResponse.json(
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { API_CONFIG } from '@/lib/api-config';
+import { getClientContextHeaders } from '@/lib/session-utils';
 import {
   decodeJWTPayload,
   getRoleBasedRedirectUrl,
@@ -29,6 +30,7 @@ export async function GET(request: NextRequest) {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getClientContextHeaders(request.headers),
       },
     });
 
@@ -6,6 +6,12 @@ import {
 } from '@/lib/server-jwt-decoder';
 import { API_CONFIG } from '@/lib/api-config';
 import { getRedirectUrl } from '@/lib/server-navigation';
+import { getClientContextHeaders } from '@/lib/session-utils';
+import {
+  applySessionCookies,
+  getAccessTokenFromCookies,
+  getSetCookieHeaders,
+} from '@/lib/server-session-cookies';
 
 // User login
 export async function POST(request: NextRequest) {
@@ -18,6 +24,7 @@ export async function POST(request: NextRequest) {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getClientContextHeaders(request.headers),
       },
       body: JSON.stringify(body),
     });
@@ -40,28 +47,14 @@ export async function POST(request: NextRequest) {
     let userRole = 'USER';
 
     // Get access token from response to extract role
-    const setCookieHeaders = response.headers.getSetCookie?.() || [];
-    if (setCookieHeaders.length === 0) {
-      const singleSetCookie = response.headers.get('set-cookie');
-      if (singleSetCookie) {
-        setCookieHeaders.push(singleSetCookie);
-      }
-    }
+    const setCookieHeaders = getSetCookieHeaders(response);
+    const accessToken = getAccessTokenFromCookies(setCookieHeaders);
+    const payload = accessToken ? decodeJWTPayload(accessToken) : null;
 
-    // Extract access token and decode role
-    for (const cookieHeader of setCookieHeaders) {
-      if (cookieHeader.includes('accessToken=')) {
-        const tokenMatch = cookieHeader.match(/accessToken=([^;]+)/);
-        if (tokenMatch) {
-          const payload = decodeJWTPayload(tokenMatch[1]);
-          if (payload?.role) {
-            userRole = payload.role;
-            const requestedRedirect = getRedirectFromRequest(request);
-            redirectUrl = getRoleBasedRedirectUrl(payload.role, requestedRedirect || undefined);
-            break;
-          }
-        }
-      }
+    if (payload?.role) {
+      userRole = payload.role;
+      const requestedRedirect = getRedirectFromRequest(request);
+      redirectUrl = getRoleBasedRedirectUrl(payload.role, requestedRedirect || undefined);
     }
 
     // Enhance response data with immediate redirect information
@@ -76,32 +69,7 @@ export async function POST(request: NextRequest) {
     const nextResponse = NextResponse.json(enhancedData);
 
     // Set cookies for the client (headers already extracted above)
-
-    for (const cookieHeader of setCookieHeaders) {
-      if (cookieHeader.includes('accessToken=')) {
-        const tokenMatch = cookieHeader.match(/accessToken=([^;]+)/);
-        if (tokenMatch) {
-          nextResponse.cookies.set('accessToken', tokenMatch[1], {
-            httpOnly: false, // Allow JavaScript access for API calls
-            secure: process.env.NODE_ENV === 'production',
-            sameSite: 'strict',
-            maxAge: 5 * 60, // 5 minutes (match backend)
-            path: '/',
-          });
-        }
-      } else if (cookieHeader.includes('refreshToken=')) {
-        const tokenMatch = cookieHeader.match(/refreshToken=([^;]+)/);
-        if (tokenMatch) {
-          nextResponse.cookies.set('refreshToken', tokenMatch[1], {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === 'production',
-            sameSite: 'strict',
-            maxAge: 30 * 24 * 60 * 60, // 30 days = 2,592,000 seconds
-            path: '/',
-          });
-        }
-      }
-    }
+    applySessionCookies(nextResponse, setCookieHeaders);
 
     return nextResponse;
   } catch (error) {
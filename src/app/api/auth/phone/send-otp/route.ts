@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PhoneOtpRequestSchema } from '@/lib/phone-auth-schemas';
+import { requestPhoneOtp } from '@/lib/server-phone-auth';
+
+// Text a sign-in or sign-up code to a Bangladeshi mobile number
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = PhoneOtpRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: issue?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: issue ? { [String(issue.path[0])]: issue.message } : undefined,
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await requestPhoneOtp(parsed.data);
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error,
+            errorCode: result.errorCode,
+            remainingAttempts: result.remainingAttempts,
+            cooldownRemaining: result.cooldownRemaining,
+            lockDuration: result.lockDuration,
+          },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          phone_number: parsed.data.phone_number,
+          cooldownRemaining: result.cooldownRemaining,
+          expiresIn: result.expiresIn,
+        },
+        message: `Verification code sent to ${parsed.data.phone_number}`,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      console.error('Phone OTP service unavailable:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Phone sign-in is temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Phone OTP send API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PhoneOtpVerifySchema } from '@/lib/phone-auth-schemas';
+import { getRedirectFromRequest, getRoleBasedRedirectUrl } from '@/lib/server-jwt-decoder';
+import { verifyPhoneOtp } from '@/lib/server-phone-auth';
+import { applySessionCookies } from '@/lib/server-session-cookies';
+import { getClientContextHeaders } from '@/lib/session-utils';
+
+// Exchange an SMS code for a session - signs in, or creates the account when registering
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = PhoneOtpVerifySchema.safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: issue?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: issue ? { [String(issue.path[0])]: issue.message } : undefined,
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await verifyPhoneOtp(parsed.data, getClientContextHeaders(request.headers));
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error,
+            errorCode: result.errorCode,
+            remainingAttempts: result.remainingAttempts,
+            cooldownRemaining: result.cooldownRemaining,
+            lockDuration: result.lockDuration,
+          },
+          { status: result.statusCode }
+        );
+      }
+
+      const role = result.user?.role || 'USER';
+      const requestedRedirect = getRedirectFromRequest(request);
+      const redirectUrl = getRoleBasedRedirectUrl(role, requestedRedirect || undefined);
+
+      const response = NextResponse.json({
+        success: true,
+        data: {
+          user: result.user,
+          redirectUrl,
+          userRole: role,
+        },
+        message: parsed.data.purpose === 'register' ? 'Account created' : 'Signed in',
+        timestamp: new Date().toISOString(),
+      });
+
+      applySessionCookies(response, result.setCookieHeaders);
+      return response;
+
+    } catch (backendError) {
+      console.error('Phone OTP service unavailable:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Phone sign-in is temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Phone OTP verify API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
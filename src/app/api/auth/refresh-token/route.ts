@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getClientContextHeaders, isRefreshTokenReuse, REFRESH_TOKEN_REUSED } from '@/lib/session-utils';
 
 // Refresh access token using refresh token
 export async function POST(request: NextRequest) {
@@ -20,6 +21,8 @@ export async function POST(request: NextRequest) {
       headers: {
         'Content-Type': 'application/json',
         Cookie: cookieHeader,
+        // Keeps the session's device and last-seen IP current
+        ...getClientContextHeaders(request.headers),
       },
     });
 
@@ -27,10 +30,14 @@ export async function POST(request: NextRequest) {
       const errorData = await response.json().catch(() => ({}));
 
       // If refresh token is expired or invalid, clean up cookies
-      if (response.status === 401) {
+      // A rotated-out token came back: the backend has revoked its whole family
+      const reused = isRefreshTokenReuse(errorData);
+
+      if (response.status === 401 || reused) {
         const cleanupResponse = NextResponse.json(
           {
             error: errorData.message || 'Token refresh failed',
+            errorCode: reused ? REFRESH_TOKEN_REUSED : errorData.errorCode,
             details: errorData,
           },
           { status: response.status }
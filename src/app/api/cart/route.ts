@@ -82,12 +82,16 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { product, quantity = 1 } = body;
+    const { product, quantity = 1, variant } = body;
     const sessionId = await getOrCreateSessionId();
 
     // TODO: Use tRPC client to call the backend
-    // const data = await trpcClient.cart.addItem.mutate({ product, quantity, sessionId });
-    const data = { items: [{ product, quantity }], count: quantity, totalPrice: product.price * quantity };
+    // const data = await trpcClient.cart.addItem.mutate({ product, quantity, variant, sessionId });
+    const data = {
+      items: [{ product, quantity, variant }],
+      count: quantity,
+      totalPrice: (variant?.price ?? product.price) * quantity,
+    };
 
     // Set cookies for instant display
     await setSessionIdCookie(sessionId);
@@ -104,11 +108,11 @@ export async function POST(request: NextRequest) {
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json();
-    const { productId, quantity } = body;
+    const { quantity } = body;
     const sessionId = await getOrCreateSessionId();
 
     // TODO: Use tRPC client to call the backend
-    // const data = await trpcClient.cart.updateQuantity.mutate({ productId, quantity, sessionId });
+    // const data = await trpcClient.cart.updateQuantity.mutate({ productId, variantId, quantity, sessionId });
     const data = { items: [], count: quantity, totalPrice: 0 };
 
     // Set cookies for instant display
@@ -137,7 +141,7 @@ export async function DELETE(request: NextRequest) {
       // data = await trpcClient.cart.clearCart.mutate({ sessionId });
       data = { items: [], count: 0, totalPrice: 0 };
     } else if (productId) {
-      // data = await trpcClient.cart.removeItem.mutate({ productId, sessionId });
+      // data = await trpcClient.cart.removeItem.mutate({ productId, variantId, sessionId });
       data = { items: [], count: 0, totalPrice: 0 };
     } else {
       return NextResponse.json(
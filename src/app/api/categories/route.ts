@@ -1,45 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { fetchStorefrontCategories } from '@/lib/server-categories';
 
-// Mock data for testing
-const mockCategories = [
-  {
-    id: 'all',
-    name: 'All Products',
-    description: 'Browse all available products',
-    productCount: 4,
-  },
-  {
-    id: 'honey',
-    name: 'Honey',
-    description: 'Pure, natural honey varieties',
-    productCount: 4,
-  },
-  {
-    id: 'beeswax',
-    name: 'Beeswax Products',
-    description: 'Natural beeswax candles and cosmetics',
-    productCount: 0,
-  },
-  {
-    id: 'propolis',
-    name: 'Propolis',
-    description: 'Bee propolis supplements and extracts',
-    productCount: 0,
-  },
-];
-
-// Get all categories
-export async function GET(request: NextRequest) {
+// Get all active categories in the order set by admins
+export async function GET() {
   try {
-    // For testing, return mock data instead of calling backend
-    // TODO: Replace with actual backend call when backend is available
-
-    // Simulate network delay for testing
-    await new Promise(resolve => setTimeout(resolve, 200));
+    const categories = await fetchStorefrontCategories();
 
     return NextResponse.json({
-      categories: mockCategories,
-      total: mockCategories.length,
+      categories,
+      total: categories.length,
     });
   } catch (error) {
     console.error('Categories API error:', error);
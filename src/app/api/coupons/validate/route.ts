@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ValidateCouponSchema } from '@/lib/coupon-schemas';
+import { quoteCouponForCart } from '@/lib/server-coupons';
+
+// POST /api/coupons/validate - Check a coupon code against the signed-in customer's cart
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Please log in to use a coupon',
+          errorCode: 'AUTHENTICATION_REQUIRED',
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = ValidateCouponSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await quoteCouponForCart({ ...parsed.data, accessToken });
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error,
+            errorCode: result.errorCode,
+          },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: result.quote,
+        message: 'Coupon applied',
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      console.error('Backend coupon API unavailable:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Coupons are temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Coupon validation API error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { fetchDeliverySettings } from '@/lib/server-delivery';
+
+// GET /api/delivery/settings - Public delivery zones used for shipping quotes
+export async function GET() {
+  const settings = await fetchDeliverySettings();
+
+  if (!settings) {
+    return NextResponse.json(
+      { success: false, error: 'Delivery zones are unavailable right now, please try again' },
+      { status: 503 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: settings,
+    message: 'Delivery settings retrieved successfully',
+    timestamp: new Date().toISOString(),
+  });
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { sanitizeOrder } from '@/lib/order-utils';
+import {
+  orderDocumentFilename,
+  pdfResponse,
+  renderOrderDocumentsPdf,
+} from '@/lib/server-order-documents';
+
+// GET /api/orders/[id]/invoice - Invoice PDF for one of the signed-in customer's orders
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    // The customer orders endpoint only returns orders owned by the token's user
+    const response = await fetch(`${API_CONFIG.backend.orders}/${encodeURIComponent(id)}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      // Never reveal whether another customer's order exists
+      const status = response.status === 403 ? 404 : response.status;
+
+      return NextResponse.json(
+        { success: false, error: status === 404 ? 'Order not found' : 'Failed to fetch order' },
+        { status }
+      );
+    }
+
+    const data = await response.json();
+    const order = sanitizeOrder(data.data);
+    const pdf = await renderOrderDocumentsPdf([order], 'invoice');
+
+    return pdfResponse(pdf, orderDocumentFilename([order], 'invoice'), 'attachment');
+  } catch (error) {
+    console.error('Error rendering customer invoice:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
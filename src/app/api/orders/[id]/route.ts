@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { sanitizeOrder } from '@/lib/order-utils';
+
+// GET /api/orders/[id] - Get one of the signed-in customer's orders
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Order ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const response = await fetch(`${API_CONFIG.backend.orders}/${encodeURIComponent(id)}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      cache: 'no-store',
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+
+      return NextResponse.json({
+        success: true,
+        data: sanitizeOrder(data.data),
+        message: data.message || 'Order retrieved successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      const errorData = await response.json().catch(() => ({}));
+
+      // Never reveal whether another customer's order exists
+      const status = response.status === 403 ? 404 : response.status;
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: status === 404 ? 'Order not found' : errorData.error || 'Failed to fetch order',
+          message: errorData.message || 'Backend error'
+        },
+        { status }
+      );
+    }
+  } catch (error) {
+    console.error('Error fetching order:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
@@ -0,0 +1,349 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { CreateOrderSchema } from '@/lib/order-schemas';
+import { mapBackendOrderErrors, mapOrderIssuesToFields, sanitizeOrder } from '@/lib/order-utils';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { quoteCouponForCart, resolveCatalogCartLines } from '@/lib/server-coupons';
+import { fetchDeliverySettings } from '@/lib/server-delivery';
+import { releaseStockReservation, reserveOrderStock } from '@/lib/server-inventory';
+import { quoteShipping } from '@/lib/shipping-utils';
+import { CreateOrderData, CustomerOrderQueryParams } from '@/types/admin';
+
+function buildQueryString(params: CustomerOrderQueryParams): string {
+  const searchParams = new URLSearchParams();
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      searchParams.append(key, String(value));
+    }
+  });
+
+  return searchParams.toString();
+}
+
+// GET /api/orders - List the signed-in customer's orders
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+          message: 'Please log in to view your orders',
+        },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryParams: CustomerOrderQueryParams = {
+      page: searchParams.get('page') ? parseInt(searchParams.get('page')!, 10) : 1,
+      limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!, 10) : 10,
+      status: searchParams.get('status') || undefined,
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+    };
+
+    try {
+      const queryString = buildQueryString(queryParams);
+      const backendUrl = `${API_CONFIG.backend.orders}${queryString ? `?${queryString}` : ''}`;
+
+      const response = await fetch(backendUrl, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        cache: 'no-store',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const orders = Array.isArray(data.data) ? data.data : data.data?.orders;
+        const pagination = data.pagination || data.data?.pagination;
+
+        return NextResponse.json({
+          success: true,
+          data: Array.isArray(orders) ? orders.map(sanitizeOrder) : [],
+          pagination: {
+            page: Number(pagination?.page) || queryParams.page || 1,
+            limit: Number(pagination?.limit) || queryParams.limit || 10,
+            total: Number(pagination?.total) || 0,
+            totalPages: Number(pagination?.totalPages) || 0,
+            hasNext: Boolean(pagination?.hasNext),
+            hasPrev: Boolean(pagination?.hasPrev),
+          },
+          message: data.message || 'Orders retrieved successfully',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Unauthorized',
+            message: 'Please log in to view your orders',
+          },
+          { status: response.status }
+        );
+      }
+
+      console.error(`Backend orders API returned ${response.status}`);
+
+    } catch (backendError) {
+      console.error('Backend orders API unavailable:', backendError);
+    }
+
+    // An empty list would read as "no orders yet" - say the history can't be loaded instead
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Order service is temporarily unavailable. Please try again later.',
+        errorCode: 'SERVICE_UNAVAILABLE',
+      },
+      { status: 503 }
+    );
+
+  } catch (error) {
+    console.error('Customer orders API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to retrieve orders',
+      timestamp: new Date().toISOString(),
+    }, { status: 500 });
+  }
+}
+
+// POST /api/orders - Place an order for the signed-in customer
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || !authState.user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+          message: 'Please log in to place an order',
+        },
+        { status: 401 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid JSON',
+          message: 'Request body must be valid JSON',
+        },
+        { status: 400 }
+      );
+    }
+
+    const parsed = CreateOrderSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Please check your order details and try again.',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: mapOrderIssuesToFields(
+            parsed.error.issues,
+            (body as { items?: CreateOrderData['items'] })?.items
+          ),
+        },
+        { status: 400 }
+      );
+    }
+
+    const orderData: CreateOrderData = {
+      ...parsed.data,
+      user_id: authState.user.id,
+    };
+    let reservationId: string | undefined;
+    // Only used to check the order here - the backend applies the coupon itself
+    let discountAmount = 0;
+
+    try {
+      // Discounts and the free-shipping threshold are worked out from catalog prices, never the client's
+      const catalogLines = await resolveCatalogCartLines(orderData.items, accessToken);
+
+      if (!catalogLines) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Some items in your cart are no longer available',
+            errorCode: 'CART_ITEM_UNAVAILABLE',
+          },
+          { status: 409 }
+        );
+      }
+
+      // Re-check the coupon at placement time - it may have expired or hit a limit since it was applied.
+      // This only gives early field errors; the backend re-evaluates the code when creating the order
+      if (orderData.coupon_code) {
+        const couponResult = await quoteCouponForCart({
+          code: orderData.coupon_code,
+          items: orderData.items,
+          accessToken,
+          lines: catalogLines,
+        });
+
+        if (!couponResult.success) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: couponResult.error,
+              errorCode: couponResult.errorCode,
+              fieldErrors: { coupon_code: couponResult.error },
+            },
+            { status: couponResult.statusCode === 404 ? 422 : couponResult.statusCode }
+          );
+        }
+
+        orderData.coupon_code = couponResult.quote.code;
+        discountAmount = couponResult.quote.discount_amount;
+      }
+
+      const deliverySettings = await fetchDeliverySettings();
+
+      if (!deliverySettings) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Order service is temporarily unavailable. Please try again later.',
+            errorCode: 'SERVICE_UNAVAILABLE',
+          },
+          { status: 503 }
+        );
+      }
+
+      // Checked here for early field errors only - the backend quotes and charges shipping itself
+      const subtotal = catalogLines.reduce((total, line) => total + line.unit_price * line.quantity, 0);
+      const shippingQuote = quoteShipping(deliverySettings, {
+        city: orderData.shipping_address.city,
+        area: orderData.shipping_address.address_line_2,
+        subtotal: subtotal - discountAmount,
+      });
+      const shippingError = !shippingQuote
+        ? `We don't deliver to ${orderData.shipping_address.city} yet`
+        : orderData.payment_method === 'cod' && !shippingQuote.cod_available
+          ? `Cash on delivery isn't available for ${shippingQuote.zone_name}`
+          : null;
+
+      if (!shippingQuote || shippingError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: shippingError,
+            errorCode: 'DELIVERY_UNAVAILABLE',
+            fieldErrors: { city: shippingError },
+          },
+          { status: 422 }
+        );
+      }
+
+      // Hold the stock before creating the order so two checkouts can't sell the same units
+      const reservation = await reserveOrderStock(orderData.items, accessToken);
+
+      if (!reservation.success) {
+        const isStockConflict = reservation.statusCode === 409;
+
+        return NextResponse.json(
+          {
+            success: false,
+            error: isStockConflict
+              ? reservation.errorData?.message ||
+                'Some items in your cart are no longer available in the requested quantity.'
+              : 'Order service is temporarily unavailable. Please try again later.',
+            errorCode: isStockConflict ? reservation.errorCode : 'SERVICE_UNAVAILABLE',
+            fieldErrors: isStockConflict ? mapBackendOrderErrors(reservation.errorData, orderData.items) : undefined,
+          },
+          { status: isStockConflict ? 409 : 503 }
+        );
+      }
+
+      reservationId = reservation.reservationId;
+      orderData.reservation_id = reservationId;
+
+      const response = await fetch(API_CONFIG.backend.orders, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify(orderData),
+        cache: 'no-store',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+
+        return NextResponse.json({
+          success: true,
+          data: sanitizeOrder(data.data),
+          message: data.message || 'Order placed successfully',
+          timestamp: new Date().toISOString(),
+        }, { status: 201 });
+      }
+
+      await releaseStockReservation(reservationId, accessToken, { reason: 'Order could not be placed' });
+
+      const errorData = await response.json().catch(() => ({}));
+      const fieldErrors = mapBackendOrderErrors(errorData, orderData.items);
+      const isStockConflict = response.status === 409;
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: errorData.message || errorData.error || (isStockConflict
+            ? 'Some items in your cart are no longer available in the requested quantity.'
+            : 'Failed to place order'),
+          errorCode: errorData.errorCode || (isStockConflict ? 'STOCK_CONFLICT' : undefined),
+          fieldErrors,
+        },
+        { status: response.status }
+      );
+
+    } catch (backendError) {
+      console.error('Backend order API unavailable:', backendError);
+
+      if (reservationId) {
+        await releaseStockReservation(reservationId, accessToken, { reason: 'Order could not be placed' });
+      }
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Order service is temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Order placement API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      message: 'An unexpected error occurred while placing your order',
+      timestamp: new Date().toISOString(),
+    }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { TrackOrderSchema } from '@/lib/order-schemas';
+import { sanitizeTrackingInfo } from '@/lib/order-utils';
+import { getClientIp } from '@/lib/maintenance-mode';
+import { normalizeBangladeshiPhone } from '@/lib/phone-utils';
+import { createRateLimiter } from '@/lib/server-rate-limit';
+
+const NOT_FOUND_MESSAGE = 'No order matches that order number and phone number.';
+
+// Lookups per visitor, and per order so guessing its phone number from many
+// addresses is slowed down too
+const ipLimiter = createRateLimiter({ limit: 20, windowMs: 15 * 60 * 1000 });
+const orderLimiter = createRateLimiter({ limit: 5, windowMs: 15 * 60 * 1000 });
+
+// POST /api/orders/track - Public order tracking by order number + phone
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = TrackOrderSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    const orderNumber = parsed.data.orderNumber.toUpperCase();
+    const ipLimit = ipLimiter.consume(getClientIp(request.headers) || 'unknown');
+    const orderLimit = orderLimiter.consume(orderNumber);
+
+    if (!ipLimit.allowed || !orderLimit.allowed) {
+      const retryAfter = Math.max(ipLimit.retryAfter, orderLimit.retryAfter);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Too many tracking attempts. Please try again in a few minutes.',
+          errorCode: 'TOO_MANY_REQUESTS',
+        },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+
+    const response = await fetch(`${API_CONFIG.backend.orders}/track`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        order_number: orderNumber,
+        phone: normalizeBangladeshiPhone(parsed.data.phone),
+      }),
+      cache: 'no-store',
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+
+      return NextResponse.json({
+        success: true,
+        data: sanitizeTrackingInfo(data.data),
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    // Mismatched phone and unknown order look the same to the caller
+    if (response.status === 404 || response.status === 403) {
+      return NextResponse.json(
+        { success: false, error: NOT_FOUND_MESSAGE, errorCode: 'ORDER_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const errorData = await response.json().catch(() => ({}));
+    return NextResponse.json(
+      {
+        success: false,
+        error: errorData.message || errorData.error || 'Failed to track order',
+      },
+      { status: response.status }
+    );
+  } catch (error) {
+    console.error('Order tracking API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RestockSubscriptionSchema } from '@/lib/restock-schemas';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { subscribeToRestock } from '@/lib/server-restock-notifications';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// POST /api/products/[id]/notify - Get an email when an out-of-stock product is back
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+    const user = authState.isAuthenticated ? authState.user : null;
+
+    const body = await request.json().catch(() => null);
+    const parsed = RestockSubscriptionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: { email: parsed.error.issues[0]?.message },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Guests must give an email; signed-in customers default to their account's
+    const email = parsed.data.email || user?.email;
+
+    if (!email) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Please enter your email address',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: { email: 'Please enter your email address' },
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await subscribeToRestock({
+        productId: id,
+        subscription: { ...parsed.data, email },
+        userId: user?.id,
+        accessToken: user ? accessToken : undefined,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error,
+            errorCode: result.errorCode,
+          },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: { email, alreadySubscribed: result.alreadySubscribed },
+          message: result.alreadySubscribed
+            ? "You're already on the list - we'll let you know when it's back"
+            : "We'll email you as soon as it's back in stock",
+          timestamp: new Date().toISOString(),
+        },
+        { status: result.alreadySubscribed ? 200 : 201 }
+      );
+
+    } catch (backendError) {
+      console.error('Backend restock API unavailable:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Restock alerts are temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Restock subscription API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      message: 'An unexpected error occurred while signing up for restock alerts',
+      timestamp: new Date().toISOString(),
+    }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
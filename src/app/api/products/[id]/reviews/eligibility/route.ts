@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { checkReviewEligibility } from '@/lib/server-reviews';
+import type { ReviewEligibility } from '@/types';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/products/[id]/reviews/eligibility - Whether the signed-in customer may review the product
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const accessToken = request.cookies.get('accessToken')?.value;
+  const authState = await getServerAuthState();
+
+  if (!accessToken || !authState.isAuthenticated || !authState.user) {
+    return NextResponse.json({
+      success: true,
+      data: { canReview: false, reason: 'AUTHENTICATION_REQUIRED' } satisfies ReviewEligibility,
+      message: 'Sign in to review this product',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  try {
+    const eligibility = await checkReviewEligibility({
+      productId: id,
+      userId: authState.user.id,
+      accessToken,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: eligibility,
+      message: 'Review eligibility checked',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (backendError) {
+    console.error('Review eligibility check failed:', backendError);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Could not check whether you can review this product',
+        errorCode: 'SERVICE_UNAVAILABLE',
+      },
+      { status: 503 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { ReviewFormSchema } from '@/lib/review-schemas';
+import { sanitizeReview } from '@/lib/review-utils';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { checkReviewEligibility, fetchProductReviews } from '@/lib/server-reviews';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/products/[id]/reviews - Published reviews with the rating breakdown
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const data = await fetchProductReviews(id);
+
+  return NextResponse.json({
+    success: true,
+    data,
+    message: 'Reviews retrieved successfully',
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// POST /api/products/[id]/reviews - Review a product the signed-in customer has received
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || !authState.user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Please log in to write a review',
+          errorCode: 'AUTHENTICATION_REQUIRED',
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = ReviewFormSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const fieldErrors: Record<string, string> = {};
+      parsed.error.issues.forEach(issue => {
+        const field = String(issue.path[0] ?? 'root');
+        fieldErrors[field] ??= issue.message;
+      });
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || 'Invalid review',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const eligibility = await checkReviewEligibility({
+        productId: id,
+        userId: authState.user.id,
+        accessToken,
+      });
+
+      if (!eligibility.canReview) {
+        return NextResponse.json(
+          {
+            success: false,
+            error:
+              eligibility.reason === 'ALREADY_REVIEWED'
+                ? 'You have already reviewed this product'
+                : 'Only customers who have received this product can review it',
+            errorCode: eligibility.reason === 'ALREADY_REVIEWED' ? 'REVIEW_EXISTS' : 'REVIEW_NOT_ELIGIBLE',
+          },
+          { status: eligibility.reason === 'ALREADY_REVIEWED' ? 409 : 403 }
+        );
+      }
+
+      const response = await fetch(`${API_CONFIG.backend.products}/${encodeURIComponent(id)}/reviews`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        // No `verified` flag - the backend marks the review from the customer's delivered orders
+        body: JSON.stringify(parsed.data),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+
+        return NextResponse.json(
+          {
+            success: true,
+            data: sanitizeReview(data.data || {}),
+            message: data.message || 'Thanks for your review!',
+            timestamp: new Date().toISOString(),
+          },
+          { status: 201 }
+        );
+      }
+
+      const errorData = await response.json().catch(() => ({}));
+
+      if (response.status === 409) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'You have already reviewed this product',
+            errorCode: 'REVIEW_EXISTS',
+          },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: errorData.message || errorData.error || 'Failed to submit review',
+        },
+        { status: response.status }
+      );
+
+    } catch (backendError) {
+      console.error('Backend reviews API unavailable:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Reviews are temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Create review API error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
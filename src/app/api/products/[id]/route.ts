@@ -1,3 +1,4 @@
+import { fetchCatalogProduct } from '@/lib/server-products';
 import { NextRequest, NextResponse } from 'next/server';
 
 interface RouteParams {
@@ -6,45 +7,38 @@ interface RouteParams {
   }>;
 }
 
-// Get a single product by ID
-export async function GET(request: NextRequest, { params }: RouteParams) {
+// Get a single catalog product by slug or legacy ID
+export async function GET(_request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const backendUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
-
-    const response = await fetch(`${backendUrl}/products/${id}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        // Forward any authentication headers
-        ...(request.headers.get('authorization') && {
-          authorization: request.headers.get('authorization')!,
-        }),
-      },
-    });
+    const result = await fetchCatalogProduct(id);
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
+    if (!result.success) {
       return NextResponse.json(
         {
-          error: errorData.message || 'Product not found',
-          details: errorData
+          success: false,
+          error: result.error,
         },
-        { status: response.status }
+        { status: result.statusCode }
       );
     }
 
-    const data = await response.json();
-    return NextResponse.json(data);
+    return NextResponse.json({
+      success: true,
+      data: result.product,
+      message: 'Product retrieved successfully',
+      timestamp: new Date().toISOString(),
+    });
   } catch (error) {
     console.error('Product API error:', error);
 
     return NextResponse.json(
       {
-        error: 'Internal server error',
+        success: false,
+        error: 'Product catalog is temporarily unavailable',
         message: error instanceof Error ? error.message : 'Unknown error'
       },
-      { status: 500 }
+      { status: 503 }
     );
   }
 }
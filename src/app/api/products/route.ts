@@ -1,123 +1,46 @@
+import { PRODUCTS_PAGE_SIZE, parseProductFilters } from '@/lib/product-search';
+import { fetchStorefrontCategories } from '@/lib/server-categories';
+import { searchCatalogProducts } from '@/lib/server-products';
+import { fetchSearchSettings } from '@/lib/server-search';
 import { NextRequest, NextResponse } from 'next/server';
 
-// Mock data for testing
-const mockProducts = [
-  {
-    id: '1',
-    name: 'Premium Organic Honey',
-    description:
-      'Pure, raw honey sourced from local beekeepers. Rich in antioxidants and natural enzymes.',
-    price: 24.99,
-    category: 'honey',
-    tags: ['organic', 'raw', 'local'],
-    inStock: true,
-    rating: 4.8,
-    reviewCount: 127,
-    image: '/images/products/honey-1.jpg',
-  },
-  {
-    id: '2',
-    name: 'Wildflower Honey',
-    description: 'Delicate wildflower honey with a complex floral taste profile.',
-    price: 19.99,
-    category: 'honey',
-    tags: ['wildflower', 'natural'],
-    inStock: true,
-    rating: 4.6,
-    reviewCount: 89,
-    image: '/images/products/honey-2.jpg',
-  },
-  {
-    id: '3',
-    name: 'Manuka Honey',
-    description: 'Premium Manuka honey from New Zealand with unique healing properties.',
-    price: 89.99,
-    category: 'honey',
-    tags: ['manuka', 'premium', 'healing'],
-    inStock: false,
-    rating: 4.9,
-    reviewCount: 203,
-    image: '/images/products/honey-3.jpg',
-  },
-  {
-    id: '4',
-    name: 'Clover Honey',
-    description: 'Light and mild clover honey, perfect for everyday use.',
-    price: 16.99,
-    category: 'honey',
-    tags: ['clover', 'mild', 'everyday'],
-    inStock: true,
-    rating: 4.4,
-    reviewCount: 156,
-    image: '/images/products/honey-4.jpg',
-  },
-];
-
-// Get all products with optional filters
+// Search catalog products - full-text search with synonyms, facet filters, sorting and pagination
 export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-
-    // For testing, return mock data instead of calling backend
-    // TODO: Replace with actual backend call when backend is available
-
-    let filteredProducts = [...mockProducts];
-
-    // Apply filters
-    const search = searchParams.get('search');
-    const category = searchParams.get('category');
-    const sortBy = searchParams.get('sortBy') || 'name';
-    const sortOrder = searchParams.get('sortOrder') || 'asc';
-
-    // Search filter
-    if (search) {
-      const searchLower = search.toLowerCase();
-      filteredProducts = filteredProducts.filter(
-        product =>
-          product.name.toLowerCase().includes(searchLower) ||
-          product.description.toLowerCase().includes(searchLower) ||
-          product.tags.some(tag => tag.toLowerCase().includes(searchLower))
-      );
-    }
-
-    // Category filter
-    if (category && category !== 'all') {
-      filteredProducts = filteredProducts.filter(product => product.category === category);
-    }
-
-    // Sorting
-    filteredProducts.sort((a, b) => {
-      let aValue = a[sortBy as keyof typeof a];
-      let bValue = b[sortBy as keyof typeof b];
-
-      if (typeof aValue === 'string') aValue = aValue.toLowerCase();
-      if (typeof bValue === 'string') bValue = bValue.toLowerCase();
+  const { searchParams } = new URL(request.url);
+  const filters = parseProductFilters(searchParams);
+  const page = Number(searchParams.get('page')) || 1;
+  const limit = Number(searchParams.get('limit')) || PRODUCTS_PAGE_SIZE;
 
-      if (sortOrder === 'desc') {
-        return aValue > bValue ? -1 : aValue < bValue ? 1 : 0;
-      } else {
-        return aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
-      }
+  try {
+    const [searchSettings, categories] = await Promise.all([
+      // Synonyms only matter when there is something to search for
+      filters.search ? fetchSearchSettings() : null,
+      // A parent category also matches its sub-categories' products
+      filters.category && filters.category !== 'all' ? fetchStorefrontCategories() : undefined,
+    ]);
+    const result = await searchCatalogProducts(filters, {
+      page,
+      limit,
+      synonyms: searchSettings?.synonyms,
+      categories,
     });
 
-    // Simulate network delay for testing
-    await new Promise(resolve => setTimeout(resolve, 300));
-
     return NextResponse.json({
-      products: filteredProducts,
-      total: filteredProducts.length,
-      page: 1,
-      limit: 50,
+      success: true,
+      ...result,
+      message: 'Products retrieved successfully',
+      timestamp: new Date().toISOString(),
     });
-  } catch (error) {
-    console.error('Products API error:', error);
+  } catch (backendError) {
+    console.error('Backend product search unavailable:', backendError);
 
     return NextResponse.json(
       {
-        error: 'Internal server error',
-        message: error instanceof Error ? error.message : 'Unknown error',
+        success: false,
+        error: 'Product search is temporarily unavailable. Please try again later.',
+        errorCode: 'SERVICE_UNAVAILABLE',
       },
-      { status: 500 }
+      { status: 503 }
     );
   }
 }
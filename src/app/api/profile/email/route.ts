@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EmailChangeRequestSchema } from '@/lib/profile-schemas';
+import { requestEmailChange } from '@/lib/server-profile';
+
+// POST /api/profile/email - Send a verification code to a new email address
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+          message: 'Please log in to change your email',
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = EmailChangeRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: issue?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: issue ? { [String(issue.path[0])]: issue.message } : undefined,
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await requestEmailChange(accessToken, parsed.data);
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error,
+            errorCode: result.errorCode,
+            fieldErrors: result.fieldErrors,
+            cooldownRemaining: result.cooldownRemaining,
+          },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          new_email: parsed.data.new_email,
+          cooldownRemaining: Number(result.data?.cooldownRemaining) || 60,
+        },
+        message: `Verification code sent to ${parsed.data.new_email}`,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      console.error('Profile service unavailable:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Profile service is temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Email change API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EmailChangeVerifySchema } from '@/lib/profile-schemas';
+import { clearAuthCache } from '@/lib/server-auth-cache';
+import { verifyEmailChange } from '@/lib/server-profile';
+import { applySessionCookies } from '@/lib/server-session-cookies';
+
+// POST /api/profile/email/verify - Confirm the code and switch the account's email
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+          message: 'Please log in to change your email',
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = EmailChangeVerifySchema.safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: issue?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: issue ? { [String(issue.path[0])]: issue.message } : undefined,
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await verifyEmailChange(accessToken, parsed.data);
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error,
+            errorCode: result.errorCode,
+            fieldErrors: result.fieldErrors,
+            remainingAttempts: result.remainingAttempts,
+          },
+          { status: result.statusCode }
+        );
+      }
+
+      const response = NextResponse.json({
+        success: true,
+        data: result.data,
+        message: 'Email address updated',
+        timestamp: new Date().toISOString(),
+      });
+
+      // The backend re-signs the access token for the new address in the same
+      // response and leaves the refresh token alone, so nothing races a client refresh
+      applySessionCookies(response, result.setCookieHeaders || []);
+      clearAuthCache();
+
+      return response;
+
+    } catch (backendError) {
+      console.error('Profile service unavailable:', backendError);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Profile service is temporarily unavailable. Please try again later.',
+          errorCode: 'SERVICE_UNAVAILABLE',
+        },
+        { status: 503 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Email change verify API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProfileUpdateSchema } from '@/lib/profile-schemas';
+import { clearAuthCache } from '@/lib/server-auth-cache';
+import { fetchProfile, updateProfile } from '@/lib/server-profile';
+import { applySessionCookies } from '@/lib/server-session-cookies';
+
+function unauthorized() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Authentication required',
+      message: 'Please log in to manage your profile',
+    },
+    { status: 401 }
+  );
+}
+
+function serviceUnavailable(error: unknown) {
+  console.error('Profile service unavailable:', error);
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Profile service is temporarily unavailable. Please try again later.',
+      errorCode: 'SERVICE_UNAVAILABLE',
+    },
+    { status: 503 }
+  );
+}
+
+// GET /api/profile - The signed-in customer's account details
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return unauthorized();
+
+    try {
+      const result = await fetchProfile(accessToken);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error, errorCode: result.errorCode },
+          { status: result.statusCode }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: result.data,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (backendError) {
+      return serviceUnavailable(backendError);
+    }
+
+  } catch (error) {
+    console.error('Profile GET API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/profile - Update name, phone number and avatar
+export async function PUT(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return unauthorized();
+
+    const body = await request.json().catch(() => null);
+    const parsed = ProfileUpdateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: issue?.message || 'Invalid request data',
+          errorCode: 'VALIDATION_ERROR',
+          fieldErrors: issue ? { [String(issue.path[0])]: issue.message } : undefined,
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await updateProfile(accessToken, parsed.data);
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error,
+            errorCode: result.errorCode,
+            fieldErrors: result.fieldErrors,
+          },
+          { status: result.statusCode }
+        );
+      }
+
+      const response = NextResponse.json({
+        success: true,
+        data: result.data,
+        message: 'Profile updated',
+        timestamp: new Date().toISOString(),
+      });
+
+      // The access token carries the name and avatar shown in the navbar - the
+      // backend re-signs it with the update, without rotating the refresh token
+      applySessionCookies(response, result.setCookieHeaders || []);
+      clearAuthCache();
+
+      return response;
+
+    } catch (backendError) {
+      return serviceUnavailable(backendError);
+    }
+
+  } catch (error) {
+    console.error('Profile PUT API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { sanitizeReview } from '@/lib/review-utils';
+
+// Most reviews the homepage carousel shows
+const FEATURED_REVIEWS_LIMIT = 12;
+
+// GET /api/reviews/featured - Approved reviews picked by admins for the homepage
+export async function GET() {
+  try {
+    const response = await fetch(`${API_CONFIG.backend.base}/reviews/featured?limit=${FEATURED_REVIEWS_LIMIT}`, {
+      headers: { 'Content-Type': 'application/json' },
+      next: { revalidate: 60 },
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      const reviews = Array.isArray(data.data) ? data.data : data.data?.reviews;
+
+      return NextResponse.json({
+        success: true,
+        data: Array.isArray(reviews)
+          ? reviews
+              .map(sanitizeReview)
+              // Featured reviews must still be published
+              .filter(review => !review.status || review.status === 'approved')
+              .slice(0, FEATURED_REVIEWS_LIMIT)
+          : [],
+        message: 'Featured reviews retrieved successfully',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    console.warn(`Backend featured reviews API returned ${response.status}, showing no reviews`);
+  } catch (backendError) {
+    console.warn('Backend featured reviews API unavailable, showing no reviews:', backendError);
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: [],
+    message: 'Featured reviews (fallback data)',
+    timestamp: new Date().toISOString(),
+  });
+}
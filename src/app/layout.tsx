@@ -8,6 +8,7 @@ import { AuthHydrationProvider } from '@/components/providers/auth-hydration-pro
 import { ServerAuthProvider } from '@/components/providers/server-auth-provider';
 import { StorageSync } from '@/components/providers/storage-sync';
 import { TRPCProvider } from '@/components/providers/trpc-provider';
+import { ThemePreferenceSync } from '@/components/settings/theme-preference-sync';
 import { ChunkErrorBoundary } from '@/components/ui/chunk-error-boundary';
 import { PageTransition } from '@/components/ui/smooth-transition';
 import { Toaster } from '@/components/ui/sonner';
@@ -150,6 +151,8 @@ export default async function RootLayout({
                     <StorageSync />
                     {/* Storage synchronization for data persistence */}
                     <StorageSyncInitializer />
+                    {/* Theme saved to the signed-in account */}
+                    <ThemePreferenceSync />
                     <PageTransition>
                       <ConditionalLayout>
                         {children}
@@ -0,0 +1,28 @@
+import { OrderDetailClient } from '@/components/orders/order-detail-client';
+import { redirectIfNotAuthenticated } from '@/lib/server-auth';
+import { Metadata } from 'next';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export const metadata: Metadata = {
+  title: 'Order Details - Hamsoya',
+  description: 'View the items, delivery address, payment and tracking details of your order.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+interface OrderDetailPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function OrderDetailPage({ params }: OrderDetailPageProps) {
+  const { id } = await params;
+
+  // Server-side authentication check - redirects if not authenticated
+  await redirectIfNotAuthenticated(`/orders/${id}`);
+
+  return <OrderDetailClient orderId={id} />;
+}
@@ -1,4 +1,4 @@
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { OrdersClient } from '@/components/orders/orders-client';
 import { redirectIfNotAuthenticated } from '@/lib/server-auth';
 import { Metadata } from 'next';
 
@@ -20,23 +20,5 @@ export default async function OrdersPage() {
   // Server-side authentication check - redirects if not authenticated
   await redirectIfNotAuthenticated('/orders');
 
-  return (
-    <div className="container mx-auto px-4 py-8">
-      <div className="max-w-4xl mx-auto">
-        <h1 className="text-3xl font-serif font-bold mb-8">My Orders</h1>
-
-        <Card>
-          <CardHeader>
-            <CardTitle>Order History</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-muted-foreground">
-              Order management features are coming soon. You will be able to view and track your
-              orders here.
-            </p>
-          </CardContent>
-        </Card>
-      </div>
-    </div>
-  );
+  return <OrdersClient />;
 }
@@ -1,10 +1,15 @@
 import { ProductDetailClient } from '@/components/products/product-detail-client';
 import { BreadcrumbStructuredData, ProductStructuredData } from '@/components/seo/structured-data';
 import { BRAND_NAME } from '@/lib/constants';
-import { getProductById, mockProducts, mockReviews } from '@/lib/mock-data';
+import { ApiError } from '@/lib/api-client';
+import { getProductPath, getRelatedProducts } from '@/lib/product-utils';
+import { getRequestApiClient } from '@/lib/server-products';
+import { fetchProductReviews } from '@/lib/server-reviews';
+import type { Product } from '@/types';
 import { Metadata } from 'next';
 import Link from 'next/link';
-import { notFound } from 'next/navigation';
+import { notFound, permanentRedirect } from 'next/navigation';
+import { cache } from 'react';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -15,10 +20,42 @@ interface ProductPageProps {
   }>;
 }
 
+// Catalog products scored for the "related products" section
+const RELATED_CANDIDATES_LIMIT = 100;
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+// Shared by generateMetadata and the page so the product is fetched once per request
+const loadProduct = cache(async (idOrSlug: string): Promise<Product | null> => {
+  try {
+    const apiClient = await getRequestApiClient();
+    const response = (await apiClient.getProduct(idOrSlug)) as { data: Product };
+    return response.data;
+  } catch (error) {
+    if (error instanceof ApiError && error.statusCode === 404) {
+      return null;
+    }
+    throw error;
+  }
+});
+
+async function loadRelatedProducts(product: Product): Promise<Product[]> {
+  try {
+    const apiClient = await getRequestApiClient();
+    const response = (await apiClient.getProducts({}, { limit: RELATED_CANDIDATES_LIMIT })) as {
+      data: Product[];
+    };
+    return getRelatedProducts(product, response.data);
+  } catch (error) {
+    console.warn('Related products unavailable:', error);
+    return [];
+  }
+}
+
 // Generate dynamic metadata for each product
 export async function generateMetadata({ params }: ProductPageProps): Promise<Metadata> {
   const { id } = await params;
-  const product = getProductById(id);
+  const product = await loadProduct(id);
 
   if (!product) {
     return {
@@ -41,6 +78,9 @@ export async function generateMetadata({ params }: ProductPageProps): Promise<Me
     keywords: `${product.name}, ${product.category}, organic food, ${
       product.tags?.join(', ') || ''
     }, ${BRAND_NAME}`,
+    alternates: {
+      canonical: `${APP_URL}${getProductPath(product)}`,
+    },
     openGraph: {
       title: `${product.name} | ${BRAND_NAME}`,
       description: product.description,
@@ -66,35 +106,44 @@ export async function generateMetadata({ params }: ProductPageProps): Promise<Me
 export default async function ProductDetailPage({ params }: ProductPageProps) {
   // Server-side data fetching
   const { id } = await params;
-  const product = getProductById(id);
+  const product = await loadProduct(id);
 
   if (!product) {
     notFound();
   }
 
+  // Old id URLs move permanently (308) to the slug URL
+  if (product.slug && decodeURIComponent(id) !== product.slug) {
+    permanentRedirect(getProductPath(product));
+  }
+
   // Get related data
-  const productReviews = mockReviews.filter(review => review.productId === product.id);
-  const relatedProducts = mockProducts
-    .filter(p => p.category === product.category && p.id !== product.id)
-    .slice(0, 4);
+  const [productReviews, relatedProducts] = await Promise.all([
+    fetchProductReviews(product.id),
+    loadRelatedProducts(product),
+  ]);
 
   // Breadcrumb data for structured data
   const breadcrumbItems = [
-    { name: 'Home', url: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000' },
+    { name: 'Home', url: APP_URL },
     {
       name: 'Products',
-      url: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/products`,
+      url: `${APP_URL}/products`,
     },
     {
       name: product.name,
-      url: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/products/${product.id}`,
+      url: `${APP_URL}${getProductPath(product)}`,
     },
   ];
 
   return (
     <>
       {/* Structured Data */}
-      <ProductStructuredData product={product} reviews={productReviews} />
+      <ProductStructuredData
+        product={product}
+        reviews={productReviews.reviews}
+        summary={productReviews.summary}
+      />
       <BreadcrumbStructuredData items={breadcrumbItems} />
 
       <div className="container mx-auto px-4 py-8">
@@ -116,17 +165,10 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
         {/* Client Component for interactive functionality */}
         <ProductDetailClient
           product={product}
-          reviews={productReviews}
+          initialReviews={productReviews}
           relatedProducts={relatedProducts}
         />
       </div>
     </>
   );
 }
-
-// Generate static params for better performance (optional)
-export async function generateStaticParams() {
-  return mockProducts.map(product => ({
-    id: product.id,
-  }));
-}
@@ -1,4 +1,4 @@
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ProfileClient } from '@/components/profile/profile-client';
 import { redirectIfNotAuthenticated } from '@/lib/auth-redirects';
 import { Metadata } from 'next';
 
@@ -20,23 +20,5 @@ export default async function ProfilePage() {
   // Server-side authentication check - redirects if not authenticated
   await redirectIfNotAuthenticated('/profile');
 
-  return (
-    <div className="container mx-auto px-4 py-8">
-      <div className="max-w-4xl mx-auto">
-        <h1 className="text-3xl font-serif font-bold mb-8">My Profile</h1>
-
-        <Card>
-          <CardHeader>
-            <CardTitle>Profile Information</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-muted-foreground">
-              Profile management features are coming soon. You can update your profile information
-              here.
-            </p>
-          </CardContent>
-        </Card>
-      </div>
-    </div>
-  );
+  return <ProfileClient />;
 }
@@ -0,0 +1,20 @@
+import { TrackOrderClient } from '@/components/orders/track-order-client';
+import { BRAND_NAME } from '@/lib/constants';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: `Track Your Order - ${BRAND_NAME}`,
+  description:
+    'Track the status of your Hamsoya order with your order number and phone number. No account required.',
+  keywords: 'track order, order status, delivery tracking, hamsoya',
+};
+
+interface TrackPageProps {
+  searchParams: Promise<{ order?: string }>;
+}
+
+export default async function TrackPage({ searchParams }: TrackPageProps) {
+  const { order } = await searchParams;
+
+  return <TrackOrderClient initialOrderNumber={order || ''} />;
+}
@@ -5,6 +5,7 @@ import { StatsCard } from '@/components/admin/ui/stats-card';
 import { DataTable } from '@/components/admin/ui/data-table';
 import { SalesChart } from '@/components/admin/ui/sales-chart';
 import { ActivityFeed } from '@/components/admin/ui/activity-feed';
+import { LowStockAlerts } from '@/components/admin/ui/low-stock-alerts';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useAdminDashboard } from '@/hooks/use-admin-dashboard';
@@ -280,7 +281,11 @@ export function AdminDashboardContent({ initialData }: AdminDashboardContentProp
         <StatsCard
           title="Total Products"
           value={stats?.overview?.total_products?.toLocaleString() || '0'}
-          description="active products"
+          description={
+            stats?.products?.low_stock_products
+              ? `${stats.products.low_stock_products} low on stock`
+              : 'active products'
+          }
           icon={Package}
         />
       </div>
@@ -307,7 +312,10 @@ export function AdminDashboardContent({ initialData }: AdminDashboardContentProp
 
       {/* Activity and Recent Orders - Responsive layout */}
       <div className="grid gap-4 md:gap-6 grid-cols-1 lg:grid-cols-2">
-        <ActivityFeed title="Recent Activity" maxItems={6} />
+        <div className="space-y-4 md:space-y-6">
+          <LowStockAlerts maxItems={5} />
+          <ActivityFeed title="Recent Activity" maxItems={6} />
+        </div>
 
         {/* Recent Orders */}
         <Card>
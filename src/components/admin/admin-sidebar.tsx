@@ -11,6 +11,8 @@ import {
   ShoppingCart,
   Users,
   FolderTree,
+  MessageSquare,
+  TicketPercent,
   Palette,
   Settings,
   FileText,
@@ -52,12 +54,24 @@ const navigationItems = [
     icon: Package,
     description: 'Product catalog management',
   },
+  {
+    title: 'Reviews',
+    href: '/admin/reviews',
+    icon: MessageSquare,
+    description: 'Review moderation',
+  },
   {
     title: 'Categories',
     href: '/admin/categories',
     icon: FolderTree,
     description: 'Category management',
   },
+  {
+    title: 'Promotions',
+    href: '/admin/promotions',
+    icon: TicketPercent,
+    description: 'Coupon codes and discounts',
+  },
   {
     title: 'Home Content',
     href: '/admin/home-content',
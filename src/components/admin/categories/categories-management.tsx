@@ -2,7 +2,6 @@
 
 import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { DataTable } from '@/components/admin/ui/data-table';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,18 +9,37 @@ import { Switch } from '@/components/ui/switch';
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
 } from '@/components/ui/dialog';
-import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { Label } from '@/components/ui/label';
+import { LoadingButton } from '@/components/ui/loading-button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAdminCategories } from '@/hooks/use-admin-data';
+import {
+  useCreateCategory,
+  useDeleteCategory,
+  useReorderCategories,
+  useUpdateCategory,
+} from '@/hooks/use-admin-mutations';
+import type { CategoryFormData } from '@/lib/category-schemas';
+import { orderCategoryTree } from '@/lib/category-utils';
+import { cn } from '@/lib/utils';
+import type { AdminCategory } from '@/types/admin';
 import {
   Plus,
   Search,
@@ -29,234 +47,125 @@ import {
   Trash2,
   MoreHorizontal,
   FolderTree,
+  GripVertical,
   Image as ImageIcon,
 } from 'lucide-react';
+import Image from 'next/image';
+import { CategoryFormDialog } from './category-form-dialog';
 
-// Mock categories data
-const mockCategories = [
-  {
-    id: 'CAT-001',
-    name: 'Honey',
-    description: 'Pure natural honey products from organic farms',
-    slug: 'honey',
-    image: '/api/placeholder/200/200',
-    isActive: true,
-    productCount: 15,
-    createdAt: '2024-01-01T08:00:00Z',
-    updatedAt: '2024-01-15T10:30:00Z',
-  },
-  {
-    id: 'CAT-002',
-    name: 'Dates',
-    description: 'Fresh organic dates from premium sources',
-    slug: 'dates',
-    image: '/api/placeholder/200/200',
-    isActive: true,
-    productCount: 8,
-    createdAt: '2024-01-02T09:15:00Z',
-    updatedAt: '2024-01-14T14:20:00Z',
-  },
-  {
-    id: 'CAT-003',
-    name: 'Nuts',
-    description: 'Premium quality nuts for healthy snacking',
-    slug: 'nuts',
-    image: '/api/placeholder/200/200',
-    isActive: true,
-    productCount: 12,
-    createdAt: '2024-01-03T10:30:00Z',
-    updatedAt: '2024-01-13T16:45:00Z',
-  },
-  {
-    id: 'CAT-004',
-    name: 'Oil',
-    description: 'Natural oils for cooking and health benefits',
-    slug: 'oil',
-    image: '/api/placeholder/200/200',
-    isActive: false,
-    productCount: 6,
-    createdAt: '2024-01-04T11:45:00Z',
-    updatedAt: '2024-01-12T12:30:00Z',
-  },
-  {
-    id: 'CAT-005',
-    name: 'Spices',
-    description: 'Aromatic spices and seasonings',
-    slug: 'spices',
-    image: '/api/placeholder/200/200',
-    isActive: true,
-    productCount: 20,
-    createdAt: '2024-01-05T13:00:00Z',
-    updatedAt: '2024-01-11T15:15:00Z',
-  },
-];
-
-interface CategoryFormData {
-  name: string;
-  description: string;
-  slug: string;
-  image: string;
-  isActive: boolean;
+function siblingKey(category: Pick<AdminCategory, 'parent_id'>): string {
+  return category.parent_id || '';
 }
 
 export function CategoriesManagement() {
   const [searchTerm, setSearchTerm] = useState('');
-  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [editingCategory, setEditingCategory] = useState<any>(null);
-  const [formData, setFormData] = useState<CategoryFormData>({
-    name: '',
-    description: '',
-    slug: '',
-    image: '',
-    isActive: true,
-  });
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<AdminCategory | null>(null);
+  const [categoryToDelete, setCategoryToDelete] = useState<AdminCategory | null>(null);
+  const [reassignTo, setReassignTo] = useState('');
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  // Order shown while a drop is being saved, tied to the response it was made from
+  const [pendingOrder, setPendingOrder] = useState<{ source: unknown; sortOrder: Record<string, number> } | null>(null);
+
+  const { data: categoriesResponse, isLoading, error } = useAdminCategories({ limit: 100 });
+
+  const createCategoryMutation = useCreateCategory();
+  const updateCategoryMutation = useUpdateCategory();
+  const deleteCategoryMutation = useDeleteCategory();
+  const reorderCategoriesMutation = useReorderCategories();
 
-  // Filter categories based on search
-  const filteredCategories = mockCategories.filter((category) =>
-    category.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    category.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    category.slug.toLowerCase().includes(searchTerm.toLowerCase())
+  const loadedCategories: AdminCategory[] =
+    (categoriesResponse as { data?: { categories?: AdminCategory[] } })?.data?.categories || [];
+  const sortOrder = pendingOrder && pendingOrder.source === categoriesResponse ? pendingOrder.sortOrder : {};
+  const categories = orderCategoryTree(
+    loadedCategories.map(category => ({
+      ...category,
+      sort_order: sortOrder[category.id] ?? category.sort_order,
+    }))
   );
 
-  const handleToggleStatus = (categoryId: string) => {
-    // TODO: Implement status toggle API call
-    console.log(`Toggling active status for category ${categoryId}`);
-  };
+  const search = searchTerm.trim().toLowerCase();
+  const visibleCategories = search
+    ? categories.filter(category =>
+        [category.name, category.slug, category.description || ''].some(value =>
+          value.toLowerCase().includes(search)
+        )
+      )
+    : categories;
+  // Dragging only makes sense against the full list
+  const canReorder = !search && !reorderCategoriesMutation.isPending;
 
-  const handleEdit = (category: any) => {
-    setEditingCategory(category);
-    setFormData({
-      name: category.name,
-      description: category.description,
-      slug: category.slug,
-      image: category.image,
-      isActive: category.isActive,
-    });
-    setIsAddDialogOpen(true);
+  const openCreate = () => {
+    setEditingCategory(null);
+    setIsFormOpen(true);
   };
 
-  const handleDelete = (categoryId: string) => {
-    // TODO: Implement delete API call
-    console.log(`Deleting category ${categoryId}`);
+  const openEdit = (category: AdminCategory) => {
+    setEditingCategory(category);
+    setIsFormOpen(true);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+  // Errors are re-thrown so the form can show field errors and stay open
+  const handleSave = async (data: CategoryFormData) => {
     if (editingCategory) {
-      // TODO: Implement update API call
-      console.log('Updating category:', formData);
+      await updateCategoryMutation.mutateAsync({ id: editingCategory.id, ...data });
     } else {
-      // TODO: Implement create API call
-      console.log('Creating category:', formData);
+      await createCategoryMutation.mutateAsync(data);
     }
-    setIsAddDialogOpen(false);
+    setIsFormOpen(false);
     setEditingCategory(null);
-    setFormData({
-      name: '',
-      description: '',
-      slug: '',
-      image: '',
-      isActive: true,
-    });
   };
 
-  const handleNameChange = (name: string) => {
-    setFormData(prev => ({
-      ...prev,
-      name,
-      slug: name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '')
-    }));
+  const handleToggleStatus = (category: AdminCategory) => {
+    updateCategoryMutation.mutate({ id: category.id, is_active: !category.is_active });
   };
 
-  const categoryColumns = [
-    {
-      key: 'category',
-      title: 'Category',
-      render: (_: any, category: any) => (
-        <div className="flex items-center gap-3">
-          <div className="w-12 h-12 bg-muted rounded-lg flex items-center justify-center">
-            <ImageIcon className="h-6 w-6 text-muted-foreground" />
-          </div>
-          <div>
-            <div className="font-medium">{category.name}</div>
-            <div className="text-sm text-muted-foreground">/{category.slug}</div>
-          </div>
-        </div>
-      ),
-    },
-    {
-      key: 'description',
-      title: 'Description',
-      render: (value: string) => (
-        <div className="max-w-xs">
-          <p className="text-sm text-muted-foreground truncate">{value}</p>
-        </div>
-      ),
-    },
-    {
-      key: 'productCount',
-      title: 'Products',
-      sortable: true,
-      render: (value: number) => (
-        <Badge variant="outline">{value} products</Badge>
-      ),
-    },
-    {
-      key: 'isActive',
-      title: 'Status',
-      render: (value: boolean, category: any) => (
-        <div className="flex items-center gap-2">
-          <Switch
-            checked={value}
-            onCheckedChange={() => handleToggleStatus(category.id)}
-          />
-          <Badge variant={value ? 'default' : 'secondary'}>
-            {value ? 'Active' : 'Inactive'}
-          </Badge>
-        </div>
-      ),
-    },
-    {
-      key: 'updatedAt',
-      title: 'Last Updated',
-      sortable: true,
-      render: (value: string) => (
-        <span className="text-sm">
-          {new Date(value).toLocaleDateString('en-US', {
-            month: 'short',
-            day: 'numeric',
-            year: 'numeric',
-          })}
-        </span>
-      ),
-    },
-    {
-      key: 'actions',
-      title: 'Actions',
-      render: (_: any, category: any) => (
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button variant="ghost" size="sm">
-              <MoreHorizontal className="h-4 w-4" />
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end">
-            <DropdownMenuItem onClick={() => handleEdit(category)}>
-              <Edit className="mr-2 h-4 w-4" />
-              Edit Category
-            </DropdownMenuItem>
-            <DropdownMenuItem
-              onClick={() => handleDelete(category.id)}
-              className="text-destructive"
-            >
-              <Trash2 className="mr-2 h-4 w-4" />
-              Delete Category
-            </DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
-      ),
-    },
-  ];
+  const openDelete = (category: AdminCategory) => {
+    setReassignTo('');
+    setCategoryToDelete(category);
+  };
+
+  const handleDelete = async () => {
+    if (!categoryToDelete) return;
+
+    try {
+      await deleteCategoryMutation.mutateAsync({
+        id: categoryToDelete.id,
+        reassignTo: reassignTo || undefined,
+      });
+      setCategoryToDelete(null);
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  };
+
+  const handleDrop = (target: AdminCategory) => {
+    const dragged = categories.find(category => category.id === draggingId);
+    setDraggingId(null);
+
+    if (!dragged || dragged.id === target.id || siblingKey(dragged) !== siblingKey(target)) return;
+
+    const siblingIds = categories
+      .filter(category => siblingKey(category) === siblingKey(dragged))
+      .map(category => category.id)
+      .filter(id => id !== dragged.id);
+    siblingIds.splice(siblingIds.indexOf(target.id) + (dragged.sort_order < target.sort_order ? 1 : 0), 0, dragged.id);
+
+    setPendingOrder({
+      source: categoriesResponse,
+      sortOrder: Object.fromEntries(siblingIds.map((id, index) => [id, index])),
+    });
+    reorderCategoriesMutation.mutate(
+      { parent_id: dragged.parent_id || null, category_ids: siblingIds },
+      { onError: () => setPendingOrder(null) }
+    );
+  };
+
+  const deleteChildren = categoryToDelete
+    ? categories.filter(category => category.parent_id === categoryToDelete.id)
+    : [];
+  const deleteProductCount = categoryToDelete?.product_count || 0;
+  const reassignOptions = categories.filter(category => category.id !== categoryToDelete?.id);
 
   return (
     <>
@@ -267,89 +176,16 @@ export function CategoriesManagement() {
               <FolderTree className="h-5 w-5" />
               Categories
             </CardTitle>
-            <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-              <DialogTrigger asChild>
-                <Button size="sm">
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add Category
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-md">
-                <DialogHeader>
-                  <DialogTitle>
-                    {editingCategory ? 'Edit Category' : 'Add New Category'}
-                  </DialogTitle>
-                </DialogHeader>
-                <form onSubmit={handleSubmit} className="space-y-4">
-                  <div>
-                    <Label htmlFor="name">Category Name</Label>
-                    <Input
-                      id="name"
-                      value={formData.name}
-                      onChange={(e) => handleNameChange(e.target.value)}
-                      placeholder="Enter category name"
-                      required
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="slug">Slug</Label>
-                    <Input
-                      id="slug"
-                      value={formData.slug}
-                      onChange={(e) => setFormData(prev => ({ ...prev, slug: e.target.value }))}
-                      placeholder="category-slug"
-                      required
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="description">Description</Label>
-                    <Textarea
-                      id="description"
-                      value={formData.description}
-                      onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
-                      placeholder="Enter category description"
-                      rows={3}
-                    />
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      id="isActive"
-                      checked={formData.isActive}
-                      onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isActive: checked }))}
-                    />
-                    <Label htmlFor="isActive">Active</Label>
-                  </div>
-                  <div className="flex gap-2 pt-4">
-                    <Button type="submit" className="flex-1">
-                      {editingCategory ? 'Update' : 'Create'} Category
-                    </Button>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => {
-                        setIsAddDialogOpen(false);
-                        setEditingCategory(null);
-                        setFormData({
-                          name: '',
-                          description: '',
-                          slug: '',
-                          image: '',
-                          isActive: true,
-                        });
-                      }}
-                    >
-                      Cancel
-                    </Button>
-                  </div>
-                </form>
-              </DialogContent>
-            </Dialog>
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Category
+            </Button>
           </div>
         </CardHeader>
         <CardContent>
           {/* Search */}
-          <div className="mb-6">
-            <div className="relative max-w-sm">
+          <div className="mb-6 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <div className="relative max-w-sm flex-1">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
                 placeholder="Search categories..."
@@ -358,17 +194,176 @@ export function CategoriesManagement() {
                 className="pl-10"
               />
             </div>
+            <p className="text-sm text-muted-foreground">
+              {search
+                ? 'Clear the search to reorder categories.'
+                : 'Drag categories to set the order shown in the storefront.'}
+            </p>
           </div>
 
-          {/* Categories Table */}
-          <DataTable
-            data={filteredCategories}
-            columns={categoryColumns}
-            searchable={false}
-            emptyMessage="No categories found"
-          />
+          {/* Categories List */}
+          {error ? (
+            <div className="py-12 text-center text-destructive">
+              Failed to load categories. Please try again.
+            </div>
+          ) : isLoading ? (
+            <div className="py-12 text-center text-muted-foreground">Loading categories...</div>
+          ) : visibleCategories.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">No categories found</div>
+          ) : (
+            <div className="divide-y rounded-lg border">
+              {visibleCategories.map((category) => (
+                <div
+                  key={category.id}
+                  draggable={canReorder}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggingId(category.id);
+                  }}
+                  onDragEnd={() => setDraggingId(null)}
+                  onDragOver={(e) => {
+                    const dragged = categories.find(candidate => candidate.id === draggingId);
+                    if (dragged && siblingKey(dragged) === siblingKey(category)) {
+                      e.preventDefault();
+                    }
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(category);
+                  }}
+                  className={cn(
+                    'flex items-center gap-3 p-3 bg-background',
+                    category.depth > 0 && 'pl-12',
+                    draggingId === category.id && 'opacity-50'
+                  )}
+                >
+                  <GripVertical
+                    className={cn(
+                      'h-4 w-4 shrink-0 text-muted-foreground',
+                      canReorder ? 'cursor-grab' : 'opacity-30'
+                    )}
+                  />
+                  <div className="relative w-12 h-12 shrink-0 bg-muted rounded-lg overflow-hidden flex items-center justify-center">
+                    {category.image ? (
+                      <Image src={category.image} alt={category.name} fill sizes="48px" className="object-cover" />
+                    ) : (
+                      <ImageIcon className="h-6 w-6 text-muted-foreground" />
+                    )}
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <div className="font-medium">{category.name}</div>
+                    <div className="text-sm text-muted-foreground truncate">
+                      /{category.slug}
+                      {category.description && ` · ${category.description}`}
+                    </div>
+                  </div>
+                  <Badge variant="outline" className="hidden sm:inline-flex">
+                    {category.product_count} products
+                  </Badge>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={category.is_active}
+                      onCheckedChange={() => handleToggleStatus(category)}
+                    />
+                    <Badge variant={category.is_active ? 'default' : 'secondary'} className="hidden md:inline-flex">
+                      {category.is_active ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </div>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm">
+                        <MoreHorizontal className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => openEdit(category)}>
+                        <Edit className="mr-2 h-4 w-4" />
+                        Edit Category
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => openDelete(category)}
+                        className="text-destructive"
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete Category
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
+
+      {isFormOpen && (
+        <CategoryFormDialog
+          key={editingCategory?.id || 'new'}
+          open={isFormOpen}
+          onOpenChange={(open) => {
+            setIsFormOpen(open);
+            if (!open) setEditingCategory(null);
+          }}
+          category={editingCategory}
+          categories={categories}
+          onSubmit={handleSave}
+          isSaving={createCategoryMutation.isPending || updateCategoryMutation.isPending}
+        />
+      )}
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!categoryToDelete} onOpenChange={(open) => !open && setCategoryToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Category</DialogTitle>
+            <DialogDescription>
+              {deleteChildren.length > 0
+                ? `${categoryToDelete?.name} has ${deleteChildren.length} sub-categor${
+                    deleteChildren.length === 1 ? 'y' : 'ies'
+                  }. Move or delete ${deleteChildren.length === 1 ? 'it' : 'them'} first.`
+                : deleteProductCount > 0
+                  ? `${categoryToDelete?.name} still has ${deleteProductCount} product${
+                      deleteProductCount === 1 ? '' : 's'
+                    }. Choose a category to move ${deleteProductCount === 1 ? 'it' : 'them'} to before deleting.`
+                  : `Delete ${categoryToDelete?.name}? This cannot be undone.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {deleteChildren.length === 0 && deleteProductCount > 0 && (
+            <div className="space-y-2">
+              <Label>Move products to</Label>
+              <Select value={reassignTo} onValueChange={setReassignTo}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {reassignOptions.map((category) => (
+                    <SelectItem key={category.id} value={category.id} className={cn(category.depth > 0 && 'pl-6')}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCategoryToDelete(null)}>
+              {deleteChildren.length > 0 ? 'Close' : 'Cancel'}
+            </Button>
+            {deleteChildren.length === 0 && (
+              <LoadingButton
+                variant="destructive"
+                onClick={handleDelete}
+                loading={deleteCategoryMutation.isPending}
+                disabled={deleteProductCount > 0 && !reassignTo}
+              >
+                {deleteProductCount > 0 ? 'Move Products & Delete' : 'Delete Category'}
+              </LoadingButton>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
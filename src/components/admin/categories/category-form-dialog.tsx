@@ -0,0 +1,332 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { ApiError } from '@/lib/api-client';
+import {
+  CategoryFormSchema,
+  type CategoryFormData,
+  type CategoryFormInput,
+} from '@/lib/category-schemas';
+import { slugifyCategoryName } from '@/lib/category-utils';
+import { uploadCategoryImage, validateImageFile } from '@/lib/imagekit';
+import type { AdminCategory } from '@/types/admin';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ImagePlus, X } from 'lucide-react';
+import Image from 'next/image';
+import { useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+
+const NO_PARENT = 'none';
+
+interface CategoryFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  category?: AdminCategory | null;
+  // Every category, used for the parent picker and the slug check
+  categories: AdminCategory[];
+  onSubmit: (data: CategoryFormData) => Promise<void>;
+  isSaving?: boolean;
+}
+
+export function CategoryFormDialog({
+  open,
+  onOpenChange,
+  category,
+  categories,
+  onSubmit,
+  isSaving = false,
+}: CategoryFormDialogProps) {
+  const form = useForm<CategoryFormInput, unknown, CategoryFormData>({
+    resolver: zodResolver(
+      CategoryFormSchema.superRefine((data, ctx) => {
+        const owner = categories.find(candidate => candidate.slug === data.slug && candidate.id !== category?.id);
+        if (owner) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['slug'],
+            message: `This slug is already used by ${owner.name}`,
+          });
+        }
+      })
+    ),
+    defaultValues: {
+      name: category?.name || '',
+      slug: category?.slug || '',
+      description: category?.description || '',
+      image: category?.image || '',
+      is_active: category ? category.is_active : true,
+      parent_id: category?.parent_id || null,
+    },
+  });
+
+  // The slug follows the name until it is edited by hand
+  const [slugEdited, setSlugEdited] = useState(!!category);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const image = form.watch('image');
+  const hasChildren = !!category && categories.some(candidate => candidate.parent_id === category.id);
+  const parentOptions = categories.filter(
+    candidate => !candidate.parent_id && candidate.id !== category?.id
+  );
+
+  const handleImageSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const validation = validateImageFile(file);
+    if (!validation.isValid) {
+      toast.error(validation.error);
+    } else {
+      try {
+        setUploadProgress(0);
+        const result = await uploadCategoryImage(file, form.getValues('slug'), setUploadProgress);
+        form.setValue('image', result.url, { shouldValidate: true, shouldDirty: true });
+      } catch (error) {
+        toast.error('Image upload failed', {
+          description: error instanceof Error ? error.message : undefined,
+        });
+      }
+    }
+
+    setUploadProgress(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleSubmit = async (data: CategoryFormData) => {
+    try {
+      await onSubmit({
+        ...data,
+        description: data.description || undefined,
+        parent_id: data.parent_id || null,
+      });
+    } catch (error) {
+      if (error instanceof ApiError && error.fieldErrors) {
+        Object.entries(error.fieldErrors).forEach(([field, message]) => {
+          if (field in CategoryFormSchema.shape) {
+            form.setError(field as keyof CategoryFormInput, { message });
+          }
+        });
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{category ? `Edit ${category.name}` : 'Add Category'}</DialogTitle>
+          <DialogDescription>
+            The slug is used in storefront links such as /products?category=slug.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name *</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Powdered Spices"
+                      {...field}
+                      onChange={(e) => {
+                        field.onChange(e);
+                        if (!slugEdited) {
+                          form.setValue('slug', slugifyCategoryName(e.target.value), { shouldValidate: true });
+                        }
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="slug"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Slug *</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="powdered-spices"
+                      {...field}
+                      onChange={(e) => {
+                        setSlugEdited(true);
+                        field.onChange(e);
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="parent_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Parent Category</FormLabel>
+                  <Select
+                    value={field.value || NO_PARENT}
+                    onValueChange={(value) => field.onChange(value === NO_PARENT ? null : value)}
+                    disabled={hasChildren}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="None (top level)" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                      {parentOptions.map((parent) => (
+                        <SelectItem key={parent.id} value={parent.id}>
+                          {parent.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {hasChildren
+                      ? 'This category has sub-categories, so it stays at the top level.'
+                      : 'Sub-categories appear under their parent and are included when shoppers filter by it.'}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder="Shown on the category card" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="image"
+              render={() => (
+                <FormItem>
+                  <FormLabel>Image</FormLabel>
+                  <div className="flex items-center gap-4">
+                    <div className="relative w-20 h-20 rounded-lg overflow-hidden bg-muted flex items-center justify-center">
+                      {image ? (
+                        <Image src={image} alt="Category image" fill sizes="80px" className="object-cover" />
+                      ) : (
+                        <ImagePlus className="h-6 w-6 text-muted-foreground" />
+                      )}
+                    </div>
+                    <div className="flex-1 space-y-2">
+                      <div className="flex gap-2">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={uploadProgress !== null}
+                          onClick={() => fileInputRef.current?.click()}
+                        >
+                          {image ? 'Replace' : 'Upload'}
+                        </Button>
+                        {image && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => form.setValue('image', '', { shouldDirty: true })}
+                          >
+                            <X className="mr-1 h-4 w-4" />
+                            Remove
+                          </Button>
+                        )}
+                      </div>
+                      {uploadProgress !== null && <Progress value={uploadProgress} className="h-2" />}
+                    </div>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      onChange={handleImageSelect}
+                    />
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <FormLabel>Active</FormLabel>
+                    <FormDescription>Inactive categories are hidden from the storefront.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <LoadingButton type="submit" loading={isSaving} disabled={uploadProgress !== null}>
+                {category ? 'Save Changes' : 'Create Category'}
+              </LoadingButton>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
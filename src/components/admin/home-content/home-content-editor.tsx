@@ -27,6 +27,7 @@ import {
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
+import { FeaturedReviewsList } from '@/components/admin/reviews/featured-reviews-list';
 import {
   Save,
   Eye,
@@ -93,14 +94,6 @@ const homeContentSchema = z.object({
     title: z.string().min(1, 'Title is required'),
     subtitle: z.string().min(1, 'Subtitle is required'),
     isActive: z.boolean(),
-    featuredReviews: z.array(z.object({
-      id: z.number(),
-      name: z.string().min(1, 'Name is required'),
-      rating: z.number().min(1).max(5),
-      comment: z.string().min(1, 'Comment is required'),
-      product: z.string().min(1, 'Product is required'),
-      isActive: z.boolean(),
-    })),
   }),
 });
 
@@ -196,32 +189,6 @@ const mockHomeContent = {
   reviews: {
     title: 'What Our Customers Say',
     subtitle: 'Real reviews from satisfied customers',
-    featuredReviews: [
-      {
-        id: 1,
-        name: 'Sarah Ahmed',
-        rating: 5,
-        comment: 'Amazing quality honey! Pure and natural taste.',
-        product: 'Premium Honey',
-        isActive: true,
-      },
-      {
-        id: 2,
-        name: 'Mohammad Rahman',
-        rating: 5,
-        comment: 'Best dates I have ever tasted. Highly recommended!',
-        product: 'Organic Dates',
-        isActive: true,
-      },
-      {
-        id: 3,
-        name: 'Fatima Khan',
-        rating: 4,
-        comment: 'Great quality nuts and fast delivery service.',
-        product: 'Mixed Nuts',
-        isActive: true,
-      },
-    ],
     isActive: true,
   },
 };
@@ -873,10 +840,47 @@ export function HomeContentEditor() {
                   />
                 </CardTitle>
               </CardHeader>
-              <CardContent className="p-4 sm:p-6">
-                <div className="text-center text-muted-foreground py-8">
-                  Customer Reviews section editor will be implemented in the next phase
+              <CardContent className="space-y-4 sm:space-y-6 p-4 sm:p-6">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="reviews.title"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium">Section Title</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="Enter section title"
+                            className="h-10 text-base"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="reviews.subtitle"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium">Section Subtitle</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="Enter section subtitle"
+                            className="h-10 text-base"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
+
+                {/* Featured reviews are moderated data, saved as soon as they change */}
+                <FeaturedReviewsList />
               </CardContent>
             </Card>
           </TabsContent>
@@ -0,0 +1,356 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useBulkOrderAction } from '@/hooks/use-admin-mutations';
+import type { TransformedOrder } from '@/lib/admin-utils';
+import { apiClient } from '@/lib/api-client';
+import { printOrders } from '@/lib/order-print';
+import type { BulkOrderActionInput } from '@/lib/order-schemas';
+import {
+  BULK_ORDER_ACTION_STATUS,
+  canApplyBulkOrderAction,
+  getOrderStatusLabel,
+  type BulkOrderAction,
+} from '@/lib/order-status';
+import { parseTrackingNumbersCsv } from '@/lib/order-utils';
+import type { BulkOrderActionResponse } from '@/types/admin';
+import {
+  CheckCircle,
+  FileText,
+  Package,
+  PackageCheck,
+  Printer,
+  Truck,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+interface BulkOrderActionsProps {
+  selectedOrders: TransformedOrder[];
+  // Receives the row keys (order numbers) that should stay selected
+  onSelectionChange: (keys: string[]) => void;
+}
+
+export function BulkOrderActions({ selectedOrders, onSelectionChange }: BulkOrderActionsProps) {
+  const [activeDialog, setActiveDialog] = useState<'ship' | 'cancel' | null>(null);
+  const [trackingCsv, setTrackingCsv] = useState('');
+  const [cancelReason, setCancelReason] = useState('');
+  const [lastResult, setLastResult] = useState<BulkOrderActionResponse | null>(null);
+  const bulkActionMutation = useBulkOrderAction();
+
+  // Only orders whose current status allows the action are sent with it
+  const getEligibleOrders = (action: BulkOrderAction) =>
+    selectedOrders.filter((order) => canApplyBulkOrderAction(order.status, action));
+
+  const shippableOrders = getEligibleOrders('ship');
+  const cancellableOrders = getEligibleOrders('cancel');
+
+  const trackingNumbers = parseTrackingNumbersCsv(trackingCsv);
+  const missingTracking = shippableOrders.filter(
+    (order) => !trackingNumbers[order.orderNumber.toUpperCase()] && !order._original.tracking_number
+  );
+
+  const runAction = async (
+    action: BulkOrderActionInput['action'],
+    extra: Partial<BulkOrderActionInput> = {}
+  ) => {
+    const eligibleOrders = getEligibleOrders(action);
+    const result = await bulkActionMutation.mutateAsync({
+      action,
+      orders: eligibleOrders.map((order) => ({
+        id: order._original.id,
+        tracking_number:
+          action === 'ship' ? trackingNumbers[order.orderNumber.toUpperCase()] : undefined,
+      })),
+      ...extra,
+    });
+
+    setActiveDialog(null);
+
+    // Keep the orders that failed or were skipped selected so they can be fixed and retried
+    const failedIds = result.results.filter((item) => !item.success).map((item) => item.id);
+    onSelectionChange(
+      selectedOrders
+        .filter(
+          (order) => failedIds.includes(order._original.id) || !eligibleOrders.includes(order)
+        )
+        .map((order) => order.orderNumber)
+    );
+
+    if (result.failed > 0) {
+      setLastResult(result);
+    } else {
+      setTrackingCsv('');
+      setCancelReason('');
+    }
+  };
+
+  const handlePrint = () => {
+    if (!printOrders(selectedOrders.map((order) => order._original))) {
+      toast.error('Unable to open the print window', {
+        description: 'Please allow pop-ups for this site and try again.',
+      });
+    }
+  };
+
+  const openDocuments = (type: 'invoice' | 'packing-slip') => {
+    const url = apiClient.getAdminOrderDocumentUrl(
+      selectedOrders.map((order) => order._original.id),
+      type
+    );
+    window.open(url, '_blank', 'noopener,noreferrer');
+  };
+
+  const failedResults = lastResult?.results.filter((item) => !item.success) || [];
+  const isPending = bulkActionMutation.isPending;
+
+  // "3 of 5" when only part of the selection can take the action
+  const renderEligibleCount = (action: BulkOrderAction) => {
+    const eligible = getEligibleOrders(action).length;
+    return eligible === selectedOrders.length ? null : (
+      <span className="ml-1 text-muted-foreground">
+        ({eligible}/{selectedOrders.length})
+      </span>
+    );
+  };
+
+  const getActionTitle = (action: BulkOrderAction) =>
+    `${getEligibleOrders(action).length} of ${selectedOrders.length} selected orders can move to ${getOrderStatusLabel(
+      BULK_ORDER_ACTION_STATUS[action]
+    )}`;
+
+  // Selected orders an action leaves alone, listed in its dialog
+  const renderSkippedOrders = (action: BulkOrderAction) => {
+    const skipped = selectedOrders.filter((order) => !canApplyBulkOrderAction(order.status, action));
+    if (skipped.length === 0) return null;
+
+    return (
+      <p className="text-sm text-muted-foreground">
+        {skipped.length} selected order{skipped.length === 1 ? '' : 's'} can&apos;t move to{' '}
+        {getOrderStatusLabel(BULK_ORDER_ACTION_STATUS[action])} and will be skipped:{' '}
+        <span className="font-mono">
+          {skipped
+            .slice(0, 5)
+            .map((order) => `${order.orderNumber} (${getOrderStatusLabel(order.status)})`)
+            .join(', ')}
+          {skipped.length > 5 ? '…' : ''}
+        </span>
+      </p>
+    );
+  };
+
+  return (
+    <>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 mb-4 border rounded-lg bg-muted/40">
+        <span className="text-sm font-medium">
+          {selectedOrders.length} order{selectedOrders.length === 1 ? '' : 's'} selected
+        </span>
+        <div className="flex flex-wrap gap-2 sm:ml-auto">
+          <Button
+            size="sm"
+            variant="outline"
+            title={getActionTitle('confirm')}
+            disabled={isPending || getEligibleOrders('confirm').length === 0}
+            onClick={() => runAction('confirm').catch(() => undefined)}
+          >
+            <CheckCircle className="mr-2 h-4 w-4" />
+            Confirm
+            {renderEligibleCount('confirm')}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            title={getActionTitle('process')}
+            disabled={isPending || getEligibleOrders('process').length === 0}
+            onClick={() => runAction('process').catch(() => undefined)}
+          >
+            <Package className="mr-2 h-4 w-4" />
+            Start Processing
+            {renderEligibleCount('process')}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            title={getActionTitle('ship')}
+            disabled={isPending || shippableOrders.length === 0}
+            onClick={() => setActiveDialog('ship')}
+          >
+            <Truck className="mr-2 h-4 w-4" />
+            Mark Shipped
+            {renderEligibleCount('ship')}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-destructive"
+            title={getActionTitle('cancel')}
+            disabled={isPending || cancellableOrders.length === 0}
+            onClick={() => setActiveDialog('cancel')}
+          >
+            <XCircle className="mr-2 h-4 w-4" />
+            Cancel
+            {renderEligibleCount('cancel')}
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="outline">
+                <Printer className="mr-2 h-4 w-4" />
+                Print
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={handlePrint}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print Orders
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => openDocuments('invoice')}>
+                <FileText className="mr-2 h-4 w-4" />
+                Invoices (PDF)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => openDocuments('packing-slip')}>
+                <PackageCheck className="mr-2 h-4 w-4" />
+                Packing Slips (PDF)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button size="sm" variant="ghost" onClick={() => onSelectionChange([])}>
+            <X className="mr-2 h-4 w-4" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {/* Bulk Ship Dialog */}
+      <Dialog open={activeDialog === 'ship'} onOpenChange={(open) => !open && setActiveDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark {shippableOrders.length} orders as shipped</DialogTitle>
+            <DialogDescription>
+              Paste one <span className="font-mono">order_number,tracking_number</span> pair per
+              line. Orders that already have a tracking number can be left out.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-tracking-csv">Tracking numbers (CSV)</Label>
+            <Textarea
+              id="bulk-tracking-csv"
+              value={trackingCsv}
+              onChange={(e) => setTrackingCsv(e.target.value)}
+              placeholder={shippableOrders
+                .slice(0, 3)
+                .map((order) => `${order.orderNumber},TRACKING-NUMBER`)
+                .join('\n')}
+              rows={6}
+              className="font-mono text-sm"
+            />
+            {missingTracking.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Missing tracking numbers for {missingTracking.length} order
+                {missingTracking.length === 1 ? '' : 's'}:{' '}
+                <span className="font-mono">
+                  {missingTracking
+                    .slice(0, 5)
+                    .map((order) => order.orderNumber)
+                    .join(', ')}
+                  {missingTracking.length > 5 ? '…' : ''}
+                </span>
+              </p>
+            )}
+            {renderSkippedOrders('ship')}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setActiveDialog(null)}>
+              Back
+            </Button>
+            <Button disabled={isPending} onClick={() => runAction('ship').catch(() => undefined)}>
+              {isPending ? 'Updating...' : 'Mark Shipped'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Bulk Cancel Dialog */}
+      <Dialog
+        open={activeDialog === 'cancel'}
+        onOpenChange={(open) => !open && setActiveDialog(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel {cancellableOrders.length} orders</DialogTitle>
+            <DialogDescription>
+              The reason is recorded in each order&apos;s status history.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-cancel-reason">Cancellation reason</Label>
+            <Textarea
+              id="bulk-cancel-reason"
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              placeholder="e.g. Out of stock after Eid restock delay"
+              rows={3}
+            />
+            {renderSkippedOrders('cancel')}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setActiveDialog(null)}>
+              Back
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={isPending || !cancelReason.trim()}
+              onClick={() =>
+                runAction('cancel', { reason: cancelReason.trim() }).catch(() => undefined)
+              }
+            >
+              {isPending ? 'Cancelling...' : 'Cancel Orders'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Partial Failure Report */}
+      <Dialog open={!!lastResult} onOpenChange={(open) => !open && setLastResult(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {lastResult?.succeeded} of {lastResult?.results.length} orders updated
+            </DialogTitle>
+            <DialogDescription>
+              The orders below were not changed and remain selected so you can retry them.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-72 overflow-y-auto divide-y border rounded-lg">
+            {failedResults.map((item) => (
+              <li key={item.id} className="flex flex-col gap-0.5 p-3 text-sm">
+                <span className="font-mono font-medium">{item.order_number || item.id}</span>
+                <span className="text-destructive">{item.error || 'Update failed'}</span>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button onClick={() => setLastResult(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
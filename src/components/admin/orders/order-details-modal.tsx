@@ -6,8 +6,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Select,
   SelectContent,
@@ -16,8 +20,17 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { OrderStatusBadge, PaymentStatusBadge } from './order-status-badge';
-import { formatCurrency, calculateOrderSummary, getNextPossibleStatuses } from '@/lib/admin-utils';
+import { formatCurrency, formatDate, calculateOrderSummary, getNextPossibleStatuses } from '@/lib/admin-utils';
 import { OrderDetailsSkeleton } from '@/components/admin/ui/skeleton';
+import { OrderStatusTimeline } from '@/components/orders/order-status-timeline';
+import { apiClient } from '@/lib/api-client';
+import { printOrders } from '@/lib/order-print';
+import { buildStatusTimeline } from '@/lib/order-utils';
+import {
+  getOrderStatusLabel,
+  getRequiredTransitionFields,
+  type OrderTransitionPayload,
+} from '@/lib/order-status';
 import {
   User,
   Phone,
@@ -26,237 +39,52 @@ import {
   Package,
   Calendar,
   CreditCard,
+  FileText,
+  PackageCheck,
 } from 'lucide-react';
 
-// Print HTML generation function
-function generatePrintHTML(order: any, summary: any): string {
-  const currentDate = new Date().toLocaleDateString();
-
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <title>Order ${order.order_number} - Invoice</title>
-      <style>
-        * { margin: 0; padding: 0; box-sizing: border-box; }
-        body {
-          font-family: Arial, sans-serif;
-          line-height: 1.6;
-          color: #333;
-          padding: 20px;
-        }
-        .header {
-          text-align: center;
-          margin-bottom: 30px;
-          border-bottom: 2px solid #333;
-          padding-bottom: 20px;
-        }
-        .company-name {
-          font-size: 24px;
-          font-weight: bold;
-          margin-bottom: 5px;
-        }
-        .invoice-title {
-          font-size: 18px;
-          color: #666;
-        }
-        .order-info {
-          display: flex;
-          justify-content: space-between;
-          margin-bottom: 30px;
-        }
-        .info-section {
-          flex: 1;
-          margin-right: 20px;
-        }
-        .info-section:last-child {
-          margin-right: 0;
-        }
-        .section-title {
-          font-weight: bold;
-          margin-bottom: 10px;
-          font-size: 14px;
-          text-transform: uppercase;
-          color: #666;
-        }
-        .items-table {
-          width: 100%;
-          border-collapse: collapse;
-          margin-bottom: 30px;
-        }
-        .items-table th, .items-table td {
-          border: 1px solid #ddd;
-          padding: 12px;
-          text-align: left;
-        }
-        .items-table th {
-          background-color: #f5f5f5;
-          font-weight: bold;
-        }
-        .items-table .text-right {
-          text-align: right;
-        }
-        .summary-table {
-          width: 300px;
-          margin-left: auto;
-          border-collapse: collapse;
-        }
-        .summary-table td {
-          padding: 8px 12px;
-          border-bottom: 1px solid #eee;
-        }
-        .summary-table .total-row {
-          font-weight: bold;
-          border-top: 2px solid #333;
-          border-bottom: 2px solid #333;
-        }
-        .footer {
-          margin-top: 40px;
-          text-align: center;
-          font-size: 12px;
-          color: #666;
-        }
-        @media print {
-          body { padding: 0; }
-          .no-print { display: none; }
-        }
-      </style>
-    </head>
-    <body>
-      <div class="header">
-        <div class="company-name">Hamsoya</div>
-        <div class="invoice-title">Order Invoice</div>
-      </div>
-
-      <div class="order-info">
-        <div class="info-section">
-          <div class="section-title">Order Details</div>
-          <div><strong>Order Number:</strong> ${order.order_number}</div>
-          <div><strong>Order Date:</strong> ${new Date(order.created_at).toLocaleDateString()}</div>
-          <div><strong>Status:</strong> ${order.status}</div>
-          <div><strong>Payment Status:</strong> ${order.payment_status}</div>
-        </div>
-
-        <div class="info-section">
-          <div class="section-title">Customer Information</div>
-          <div><strong>Name:</strong> ${order.customer.name}</div>
-          <div><strong>Email:</strong> ${order.customer.email}</div>
-          ${order.customer.phone_number ? `<div><strong>Phone:</strong> ${order.customer.phone_number}</div>` : ''}
-        </div>
-
-        <div class="info-section">
-          <div class="section-title">Shipping Address</div>
-          ${order.shipping_address ? `
-            <div>${order.shipping_address.name}</div>
-            <div>${order.shipping_address.address_line_1}</div>
-            ${order.shipping_address.address_line_2 ? `<div>${order.shipping_address.address_line_2}</div>` : ''}
-            <div>${order.shipping_address.city}, ${order.shipping_address.state} ${order.shipping_address.postal_code}</div>
-            <div>${order.shipping_address.country}</div>
-          ` : '<div>No shipping address provided</div>'}
-        </div>
-      </div>
-
-      <table class="items-table">
-        <thead>
-          <tr>
-            <th>Product</th>
-            <th class="text-right">Quantity</th>
-            <th class="text-right">Unit Price</th>
-            <th class="text-right">Total</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${order.items.map((item: any) => `
-            <tr>
-              <td>${item.product.name}</td>
-              <td class="text-right">${item.quantity}</td>
-              <td class="text-right">${formatCurrency(item.unit_price / 100)}</td>
-              <td class="text-right">${formatCurrency(item.total_price / 100)}</td>
-            </tr>
-          `).join('')}
-        </tbody>
-      </table>
-
-      <table class="summary-table">
-        <tr>
-          <td>Subtotal:</td>
-          <td class="text-right">${formatCurrency(summary.subtotal)}</td>
-        </tr>
-        ${summary.taxAmount > 0 ? `
-          <tr>
-            <td>Tax:</td>
-            <td class="text-right">${formatCurrency(summary.taxAmount)}</td>
-          </tr>
-        ` : ''}
-        ${summary.shippingAmount > 0 ? `
-          <tr>
-            <td>Shipping:</td>
-            <td class="text-right">${formatCurrency(summary.shippingAmount)}</td>
-          </tr>
-        ` : ''}
-        ${summary.discountAmount > 0 ? `
-          <tr>
-            <td>Discount:</td>
-            <td class="text-right">-${formatCurrency(summary.discountAmount)}</td>
-          </tr>
-        ` : ''}
-        <tr class="total-row">
-          <td><strong>Total:</strong></td>
-          <td class="text-right"><strong>${formatCurrency(summary.total)}</strong></td>
-        </tr>
-      </table>
-
-      <div class="footer">
-        <p>Thank you for your business!</p>
-        <p>Printed on ${currentDate}</p>
-      </div>
-    </body>
-    </html>
-  `;
-}
-
 interface OrderDetailsModalProps {
   order: any;
   isOpen: boolean;
   onClose: () => void;
-  onStatusUpdate: (orderId: string, newStatus: string) => void;
+  onStatusUpdate: (orderId: string, newStatus: string, details?: OrderTransitionPayload) => void;
+  isUpdating?: boolean;
 }
 
-
-
 export function OrderDetailsModal({
   order,
   isOpen,
   onClose,
   onStatusUpdate,
+  isUpdating = false,
 }: OrderDetailsModalProps) {
+  const [nextStatus, setNextStatus] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [statusNotes, setStatusNotes] = useState('');
+
   if (!order || !order._original) return null;
 
   const originalOrder = order._original;
   const orderSummary = calculateOrderSummary(originalOrder);
   const possibleStatuses = getNextPossibleStatuses(originalOrder);
+  const statusTimeline = buildStatusTimeline(originalOrder);
+  const requiredFields = nextStatus ? getRequiredTransitionFields(nextStatus) : [];
+  const needsTrackingNumber =
+    requiredFields.includes('tracking_number') && !originalOrder.tracking_number;
+  const canSubmitStatus = !!nextStatus && (!needsTrackingNumber || !!trackingNumber.trim());
+
+  const handleStatusSubmit = () => {
+    if (!canSubmitStatus) return;
 
-  const handleStatusChange = (newStatus: string) => {
-    onStatusUpdate(order.orderNumber, newStatus);
+    onStatusUpdate(originalOrder.id, nextStatus, {
+      notes: statusNotes.trim() || undefined,
+      tracking_number: trackingNumber.trim() || undefined,
+    });
     onClose();
   };
 
   const handlePrintOrder = () => {
-    // Create a new window for printing
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) return;
-
-    // Generate print-optimized HTML
-    const printContent = generatePrintHTML(originalOrder, orderSummary);
-
-    printWindow.document.write(printContent);
-    printWindow.document.close();
-
-    // Wait for content to load, then print
-    printWindow.onload = () => {
-      printWindow.print();
-      printWindow.close();
-    };
+    printOrders([originalOrder]);
   };
 
   return (
@@ -294,8 +122,15 @@ export function OrderDetailsModal({
                     <div className="flex-1">
                       <h4 className="font-medium">{item.product.name}</h4>
                       <p className="text-sm text-muted-foreground">
-                        Quantity: {item.quantity}
+                        {item.variant_name && `${item.variant_name} · `}Quantity: {item.quantity}
                       </p>
+                      {item.is_preorder && (
+                        <p className="text-xs text-blue-600">
+                          Pre-order
+                          {item.preorder_available_date &&
+                            ` · ships from ${formatDate(item.preorder_available_date)}`}
+                        </p>
+                      )}
                     </div>
                     <div className="text-right">
                       <p className="font-medium">{formatCurrency(item.total_price / 100)}</p>
@@ -330,7 +165,9 @@ export function OrderDetailsModal({
                 )}
                 {orderSummary.discountAmount > 0 && (
                   <div className="flex justify-between text-green-600">
-                    <span>Discount</span>
+                    <span>
+                      Discount{originalOrder.coupon_code ? ` (${originalOrder.coupon_code})` : ''}
+                    </span>
                     <span>-{formatCurrency(orderSummary.discountAmount)}</span>
                   </div>
                 )}
@@ -437,26 +274,89 @@ export function OrderDetailsModal({
               </div>
             </div>
 
+            {/* Documents */}
+            <div className="border rounded-lg p-4">
+              <h3 className="font-semibold mb-3">Documents</h3>
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" size="sm" asChild>
+                  <a
+                    href={apiClient.getAdminOrderDocumentUrl([originalOrder.id], 'invoice')}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    <FileText className="mr-2 h-4 w-4" />
+                    Invoice
+                  </a>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <a
+                    href={apiClient.getAdminOrderDocumentUrl([originalOrder.id], 'packing-slip')}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    <PackageCheck className="mr-2 h-4 w-4" />
+                    Packing Slip
+                  </a>
+                </Button>
+              </div>
+            </div>
+
+            {/* Status History */}
+            <div className="border rounded-lg p-4">
+              <h3 className="font-semibold mb-3">Status History</h3>
+              <OrderStatusTimeline entries={statusTimeline} showActor />
+            </div>
+
             {/* Status Update */}
             {possibleStatuses.length > 0 && (
               <div className="border rounded-lg p-4">
                 <h3 className="font-semibold mb-3">Update Status</h3>
                 <div className="space-y-3">
-                  <Select value={originalOrder.status} onValueChange={handleStatusChange}>
+                  <Select value={nextStatus} onValueChange={setNextStatus}>
                     <SelectTrigger>
-                      <SelectValue />
+                      <SelectValue
+                        placeholder={`${getOrderStatusLabel(originalOrder.status)} (Current)`}
+                      />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value={originalOrder.status}>
-                        {originalOrder.status} (Current)
-                      </SelectItem>
                       {possibleStatuses.map((status) => (
                         <SelectItem key={status} value={status}>
-                          {status}
+                          {getOrderStatusLabel(status)}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
+                  {requiredFields.includes('tracking_number') && (
+                    <div className="space-y-1">
+                      <Label htmlFor="tracking-number">Tracking Number</Label>
+                      <Input
+                        id="tracking-number"
+                        value={trackingNumber}
+                        onChange={(e) => setTrackingNumber(e.target.value)}
+                        placeholder={originalOrder.tracking_number || 'Courier tracking number'}
+                      />
+                      {needsTrackingNumber && !trackingNumber.trim() && (
+                        <p className="text-xs text-muted-foreground">
+                          Required before the order can be shipped
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {nextStatus && (
+                    <Textarea
+                      value={statusNotes}
+                      onChange={(e) => setStatusNotes(e.target.value)}
+                      placeholder="Add a note for the status history (optional)"
+                      rows={2}
+                    />
+                  )}
+                  <Button
+                    className="w-full"
+                    disabled={!canSubmitStatus || isUpdating}
+                    onClick={handleStatusSubmit}
+                  >
+                    {isUpdating ? 'Updating...' : 'Update Status'}
+                  </Button>
                   <Button
                     variant="outline"
                     className="w-full"
@@ -2,6 +2,7 @@ import { Badge } from '@/components/ui/badge'
 
 export enum OrderStatus {
   PENDING = 'pending',
+  CONFIRMED = 'confirmed',
   PROCESSING = 'processing',
   SHIPPED = 'shipped',
   DELIVERED = 'delivered',
@@ -19,6 +20,7 @@ export enum PaymentStatus {
 export const OrderStatusBadge = ({ status }: { status: OrderStatus }) => {
   const variants = {
     [OrderStatus.PENDING]: 'secondary',
+    [OrderStatus.CONFIRMED]: 'secondary',
     [OrderStatus.PROCESSING]: 'default',
     [OrderStatus.SHIPPED]: 'outline',
     [OrderStatus.DELIVERED]: 'default',
@@ -28,6 +30,7 @@ export const OrderStatusBadge = ({ status }: { status: OrderStatus }) => {
 
   const labels = {
     [OrderStatus.PENDING]: 'Pending',
+    [OrderStatus.CONFIRMED]: 'Confirmed',
     [OrderStatus.PROCESSING]: 'Processing',
     [OrderStatus.SHIPPED]: 'Shipped',
     [OrderStatus.DELIVERED]: 'Delivered',
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { DataTable } from '@/components/admin/ui/data-table';
 import { Badge } from '@/components/ui/badge';
@@ -19,95 +19,44 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { Skeleton } from '@/components/admin/ui/skeleton';
+import { BulkOrderActions } from './bulk-order-actions';
 import { OrderDetailsModal } from './order-details-modal';
+import { useAdminOrders } from '@/hooks/use-admin-data';
+import { useUpdateOrderStatus } from '@/hooks/use-admin-mutations';
+import { transformOrdersForTable, type TransformedOrder } from '@/lib/admin-utils';
+import { ORDER_STATUSES } from '@/lib/constants';
+import {
+  getAllowedNextStatuses,
+  getOrderStatusLabel,
+  getRequiredTransitionFields,
+  type OrderTransitionPayload,
+} from '@/lib/order-status';
+import type { OrderWithDetails, PaginatedResponse } from '@/types/admin';
 import {
   Eye,
   MoreHorizontal,
   Download,
   Filter,
-  Calendar,
   Search,
+  RefreshCw,
+  AlertCircle,
 } from 'lucide-react';
 
-// Mock orders data
-const mockOrders = [
-  {
-    id: 'ORD-001',
-    customer: 'John Doe',
-    email: 'john@example.com',
-    phone: '+880 1234567890',
-    total: 2500,
-    status: 'pending',
-    paymentStatus: 'pending',
-    date: '2024-01-15T10:30:00Z',
-    items: 3,
-    shippingAddress: 'Dhaka, Bangladesh',
-  },
-  {
-    id: 'ORD-002',
-    customer: 'Jane Smith',
-    email: 'jane@example.com',
-    phone: '+880 1234567891',
-    total: 1800,
-    status: 'confirmed',
-    paymentStatus: 'paid',
-    date: '2024-01-15T09:15:00Z',
-    items: 2,
-    shippingAddress: 'Chittagong, Bangladesh',
-  },
-  {
-    id: 'ORD-003',
-    customer: 'Bob Johnson',
-    email: 'bob@example.com',
-    phone: '+880 1234567892',
-    total: 3200,
-    status: 'delivered',
-    paymentStatus: 'paid',
-    date: '2024-01-14T14:20:00Z',
-    items: 5,
-    shippingAddress: 'Sylhet, Bangladesh',
-  },
-  {
-    id: 'ORD-004',
-    customer: 'Alice Brown',
-    email: 'alice@example.com',
-    phone: '+880 1234567893',
-    total: 1200,
-    status: 'cancelled',
-    paymentStatus: 'refunded',
-    date: '2024-01-14T11:45:00Z',
-    items: 1,
-    shippingAddress: 'Rajshahi, Bangladesh',
-  },
-  {
-    id: 'ORD-005',
-    customer: 'Charlie Wilson',
-    email: 'charlie@example.com',
-    phone: '+880 1234567894',
-    total: 4500,
-    status: 'processing',
-    paymentStatus: 'paid',
-    date: '2024-01-13T16:30:00Z',
-    items: 7,
-    shippingAddress: 'Khulna, Bangladesh',
-  },
-];
-
 const statusOptions = [
   { value: 'all', label: 'All Status' },
-  { value: 'pending', label: 'Pending' },
-  { value: 'confirmed', label: 'Confirmed' },
-  { value: 'processing', label: 'Processing' },
-  { value: 'delivered', label: 'Delivered' },
-  { value: 'cancelled', label: 'Cancelled' },
+  ...ORDER_STATUSES.map((status) => ({ value: status.id, label: status.name })),
 ];
 
+const PAGE_SIZE = 20;
+
 const getStatusVariant = (status: string) => {
   switch (status) {
     case 'delivered':
       return 'default';
     case 'confirmed':
     case 'processing':
+    case 'shipped':
       return 'secondary';
     case 'pending':
       return 'outline';
@@ -132,31 +81,77 @@ const getPaymentStatusVariant = (status: string) => {
 };
 
 export function OrdersManagement() {
-  const [selectedOrder, setSelectedOrder] = useState<any>(null);
+  const [selectedOrder, setSelectedOrder] = useState<TransformedOrder | null>(null);
   const [statusFilter, setStatusFilter] = useState('all');
   const [searchTerm, setSearchTerm] = useState('');
-  const [dateRange, setDateRange] = useState('all');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
 
-  // Filter orders based on status and search
-  const filteredOrders = mockOrders.filter((order) => {
-    const matchesStatus = statusFilter === 'all' || order.status === statusFilter;
-    const matchesSearch =
-      order.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      order.customer.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      order.email.toLowerCase().includes(searchTerm.toLowerCase());
-
-    return matchesStatus && matchesSearch;
+  const {
+    data: ordersResponse,
+    isLoading,
+    isError,
+    error,
+    refetch,
+  } = useAdminOrders({
+    page: currentPage,
+    limit: PAGE_SIZE,
+    search: searchTerm || undefined,
+    status: statusFilter === 'all' ? undefined : statusFilter,
+    sortBy: 'created_at',
+    sortOrder: 'desc',
   });
 
-  const handleStatusUpdate = (orderId: string, newStatus: string) => {
-    // TODO: Implement status update API call
-    console.log(`Updating order ${orderId} to status: ${newStatus}`);
+  const updateOrderStatusMutation = useUpdateOrderStatus();
+
+  const ordersData = ordersResponse as PaginatedResponse<OrderWithDetails> | undefined;
+  const orders = useMemo(() => transformOrdersForTable(ordersData?.data || []), [ordersData]);
+  const pagination = ordersData?.pagination;
+  const selectedOrders = orders.filter((order) => selectedKeys.includes(order.id));
+
+  const handleStatusUpdate = (
+    orderId: string,
+    newStatus: string,
+    details?: OrderTransitionPayload
+  ) => {
+    updateOrderStatusMutation.mutate({ id: orderId, status: newStatus, ...details });
   };
 
-  const handleViewOrder = (order: any) => {
+  const handleQuickStatusUpdate = (order: TransformedOrder, newStatus: string) => {
+    // Transitions that need extra input (e.g. a tracking number) go through the details modal
+    const needsInput = getRequiredTransitionFields(newStatus).some(
+      (field) => !order._original[field as keyof OrderWithDetails]
+    );
+
+    if (needsInput) {
+      setSelectedOrder(order);
+      return;
+    }
+
+    handleStatusUpdate(order._original.id, newStatus);
+  };
+
+  const handleViewOrder = (order: TransformedOrder) => {
     setSelectedOrder(order);
   };
 
+  const handleFilterChange = (value: string) => {
+    setStatusFilter(value);
+    setCurrentPage(1);
+    setSelectedKeys([]);
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearchTerm(value);
+    setCurrentPage(1);
+    setSelectedKeys([]);
+  };
+
+  const handlePageChange = (page: number) => {
+    setCurrentPage(page);
+    setSelectedKeys([]);
+  };
+
   const orderColumns = [
     {
       key: 'id',
@@ -170,7 +165,7 @@ export function OrdersManagement() {
       key: 'customer',
       title: 'Customer',
       sortable: true,
-      render: (value: string, order: any) => (
+      render: (value: string, order: TransformedOrder) => (
         <div className="min-w-[150px]">
           <div className="font-medium truncate">{value}</div>
           <div className="text-xs sm:text-sm text-muted-foreground truncate">{order.email}</div>
@@ -216,19 +211,13 @@ export function OrdersManagement() {
       title: 'Date',
       sortable: true,
       render: (value: string) => (
-        <span className="text-sm">
-          {new Date(value).toLocaleDateString('en-US', {
-            month: 'short',
-            day: 'numeric',
-            year: 'numeric',
-          })}
-        </span>
+        <span className="text-sm">{value}</span>
       ),
     },
     {
       key: 'actions',
       title: 'Actions',
-      render: (_: any, order: any) => (
+      render: (_: unknown, order: TransformedOrder) => (
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="ghost" size="sm">
@@ -240,21 +229,16 @@ export function OrdersManagement() {
               <Eye className="mr-2 h-4 w-4" />
               View Details
             </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => handleStatusUpdate(order.id, 'confirmed')}>
-              Confirm Order
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => handleStatusUpdate(order.id, 'processing')}>
-              Mark Processing
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => handleStatusUpdate(order.id, 'delivered')}>
-              Mark Delivered
-            </DropdownMenuItem>
-            <DropdownMenuItem
-              onClick={() => handleStatusUpdate(order.id, 'cancelled')}
-              className="text-destructive"
-            >
-              Cancel Order
-            </DropdownMenuItem>
+            {getAllowedNextStatuses(order.status).map((status) => (
+              <DropdownMenuItem
+                key={status}
+                onClick={() => handleQuickStatusUpdate(order, status)}
+                className={status === 'cancelled' ? 'text-destructive' : undefined}
+                disabled={updateOrderStatusMutation.isPending}
+              >
+                {status === 'cancelled' ? 'Cancel Order' : `Mark ${getOrderStatusLabel(status)}`}
+              </DropdownMenuItem>
+            ))}
           </DropdownMenuContent>
         </DropdownMenu>
       ),
@@ -266,8 +250,20 @@ export function OrdersManagement() {
       <Card>
         <CardHeader className="p-4 sm:p-6">
           <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-0">
-            <CardTitle className="text-lg sm:text-xl">Orders</CardTitle>
+            <CardTitle className="text-lg sm:text-xl">
+              Orders {pagination?.total ? `(${pagination.total})` : ''}
+            </CardTitle>
             <div className="flex items-center gap-2 w-full sm:w-auto">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => refetch()}
+                className="flex-1 sm:flex-none min-h-[44px]"
+                disabled={isLoading}
+              >
+                <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+                <span className="hidden sm:inline">Refresh</span>
+              </Button>
               <Button variant="outline" size="sm" className="flex-1 sm:flex-none min-h-[44px]">
                 <Download className="mr-2 h-4 w-4" />
                 <span className="hidden sm:inline">Export</span>
@@ -284,12 +280,12 @@ export function OrdersManagement() {
                 <Input
                   placeholder="Search orders, customers, or emails..."
                   value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  onChange={(e) => handleSearchChange(e.target.value)}
                   className="pl-10 h-10"
                 />
               </div>
             </div>
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <Select value={statusFilter} onValueChange={handleFilterChange}>
               <SelectTrigger className="w-full sm:w-[180px] h-10">
                 <Filter className="mr-2 h-4 w-4" />
                 <SelectValue />
@@ -304,24 +300,85 @@ export function OrdersManagement() {
             </Select>
           </div>
 
+          {/* Bulk Actions */}
+          {selectedOrders.length > 0 && (
+            <BulkOrderActions
+              selectedOrders={selectedOrders}
+              onSelectionChange={setSelectedKeys}
+            />
+          )}
+
           {/* Orders Table */}
-          <DataTable
-            data={filteredOrders}
-            columns={orderColumns}
-            searchable={false}
-            emptyMessage="No orders found"
-            keyField="id"
-          />
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-14 w-full" />
+              ))}
+            </div>
+          ) : isError ? (
+            <div className="text-center py-12">
+              <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-red-600 mb-2">Failed to Load Orders</h3>
+              <p className="text-muted-foreground mb-4">
+                {error?.message || 'Unable to fetch order data. Please try again.'}
+              </p>
+              <Button onClick={() => refetch()} variant="outline">
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Try Again
+              </Button>
+            </div>
+          ) : (
+            <DataTable
+              data={orders}
+              columns={orderColumns}
+              searchable={false}
+              pageSize={PAGE_SIZE}
+              emptyMessage="No orders found"
+              keyField="id"
+              selectable
+              selectedKeys={selectedKeys}
+              onSelectionChange={setSelectedKeys}
+            />
+          )}
+
+          {/* Server-side pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-sm text-muted-foreground">
+                Page {pagination.page} of {pagination.totalPages}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handlePageChange(currentPage - 1)}
+                  disabled={!pagination.hasPrev}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handlePageChange(currentPage + 1)}
+                  disabled={!pagination.hasNext}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* Order Details Modal */}
       {selectedOrder && (
         <OrderDetailsModal
+          key={selectedOrder.id}
           order={selectedOrder}
           isOpen={!!selectedOrder}
           onClose={() => setSelectedOrder(null)}
           onStatusUpdate={handleStatusUpdate}
+          isUpdating={updateOrderStatusMutation.isPending}
         />
       )}
     </>
@@ -31,9 +31,12 @@ export function EditProductClient({ productId }: EditProductClientProps) {
 
   const handleSubmit = async (data: any) => {
     try {
+      // Stock is owned by the inventory ledger - leave it out so a stale form can't overwrite it
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { stock_quantity, ...productData } = data;
       await updateProductMutation.mutateAsync({
         id: productId,
-        ...data,
+        ...productData,
       });
       toast.success('Product updated successfully!');
       router.push('/admin/products');
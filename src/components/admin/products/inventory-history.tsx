@@ -0,0 +1,342 @@
+'use client';
+
+import { DataTable } from '@/components/admin/ui/data-table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { LoadingButton } from '@/components/ui/loading-button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useAdminInventoryMovements } from '@/hooks/use-admin-data';
+import { useRecordInventoryMovement } from '@/hooks/use-admin-mutations';
+import { formatDateTime } from '@/lib/admin-utils';
+import {
+  InventoryMovementSchema,
+  MANUAL_INVENTORY_MOVEMENT_TYPES,
+  type InventoryMovementFormInput,
+  type InventoryMovementInput,
+} from '@/lib/inventory-schemas';
+import { INVENTORY_MOVEMENT_LABELS, isReservationMovement } from '@/lib/inventory-utils';
+import type { AdminProduct, InventoryMovement } from '@/types/admin';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { History, Plus } from 'lucide-react';
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+
+const PAGE_SIZE = 20;
+
+const QUANTITY_DESCRIPTIONS: Record<InventoryMovementInput['type'], string> = {
+  receipt: 'Units added to stock from a delivery.',
+  return: 'Units a customer sent back in sellable condition.',
+  adjustment: 'Use a negative number to remove stock, e.g. after a stock count.',
+  damage: 'Units written off - they are removed from stock.',
+};
+
+type StockLevels = Pick<AdminProduct, 'stock_quantity' | 'reserved_quantity'>;
+
+interface InventoryHistoryProps {
+  product: AdminProduct;
+  // Called with the product's new stock levels after a movement is recorded
+  onStockChange?: (levels: StockLevels) => void;
+}
+
+export function InventoryHistory({ product, onStockChange }: InventoryHistoryProps) {
+  const [page, setPage] = useState(1);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const recordMutation = useRecordInventoryMovement();
+  const variants = product.variants || [];
+
+  const { data: movementsResponse, isLoading, error } = useAdminInventoryMovements(product.id, {
+    page,
+    limit: PAGE_SIZE,
+  });
+  const movements = movementsResponse?.data || [];
+  const pagination = movementsResponse?.pagination;
+
+  const form = useForm<InventoryMovementFormInput, unknown, InventoryMovementInput>({
+    resolver: zodResolver(InventoryMovementSchema),
+    defaultValues: {
+      type: 'receipt',
+      // Stock is kept per variant when the product has options
+      variant_id: variants[0]?.id,
+      quantity: 1,
+      reason: '',
+    },
+  });
+  const movementType = form.watch('type');
+
+  const handleSubmit = async (data: InventoryMovementInput) => {
+    const response = (await recordMutation.mutateAsync({
+      productId: product.id,
+      ...data,
+      reason: data.reason || undefined,
+    })) as { data?: { product?: StockLevels } };
+
+    if (response.data?.product) {
+      onStockChange?.(response.data.product);
+    }
+    setDialogOpen(false);
+    form.reset({ ...form.getValues(), quantity: 1, reason: '' });
+    setPage(1);
+  };
+
+  const movementColumns = [
+    {
+      key: 'created_at',
+      title: 'Date',
+      render: (value: string) => <span className="text-sm whitespace-nowrap">{formatDateTime(value)}</span>,
+    },
+    {
+      key: 'type',
+      title: 'Movement',
+      render: (_: unknown, movement: InventoryMovement) => (
+        <div className="space-y-1">
+          <Badge variant={isReservationMovement(movement.type) ? 'outline' : 'secondary'}>
+            {INVENTORY_MOVEMENT_LABELS[movement.type]}
+          </Badge>
+          {movement.variant_name && (
+            <p className="text-xs text-muted-foreground">{movement.variant_name}</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'quantity',
+      title: 'Change',
+      render: (value: number) => (
+        <span className={value < 0 ? 'font-medium text-destructive' : 'font-medium text-green-600'}>
+          {value > 0 ? '+' : ''}
+          {value}
+        </span>
+      ),
+    },
+    {
+      key: 'stock_after',
+      title: 'Stock After',
+      render: (value?: number) => <span className="text-sm">{value ?? '-'}</span>,
+    },
+    {
+      key: 'reason',
+      title: 'Reason',
+      render: (_: unknown, movement: InventoryMovement) => (
+        <span className="text-sm text-muted-foreground">
+          {movement.order_number ? `Order #${movement.order_number}` : movement.reason || '-'}
+        </span>
+      ),
+    },
+    {
+      key: 'actor',
+      title: 'By',
+      render: (_: unknown, movement: InventoryMovement) => (
+        <span className="text-sm">{movement.actor?.name || 'System'}</span>
+      ),
+    },
+  ];
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Stock History
+            </CardTitle>
+            <Button size="sm" onClick={() => setDialogOpen(true)} className="cursor-pointer">
+              <Plus className="h-4 w-4 mr-2" />
+              Record Movement
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-sm text-destructive">
+              Failed to load stock history. Please refresh and try again.
+            </p>
+          ) : isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading stock history...</p>
+          ) : (
+            <DataTable
+              data={movements}
+              columns={movementColumns}
+              searchable={false}
+              pageSize={PAGE_SIZE}
+              keyField="id"
+              emptyMessage="No stock movements recorded yet."
+            />
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-sm text-muted-foreground">
+                Page {pagination.page} of {pagination.totalPages}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!pagination.hasPrev}
+                  onClick={() => setPage((current) => Math.max(1, current - 1))}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!pagination.hasNext}
+                  onClick={() => setPage((current) => current + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Stock Movement</DialogTitle>
+            <DialogDescription>
+              Sales and reservations are recorded automatically from orders.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {MANUAL_INVENTORY_MOVEMENT_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {INVENTORY_MOVEMENT_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {variants.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="variant_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Variant</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a variant" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {variants
+                            .filter((variant) => variant.id)
+                            .map((variant) => (
+                              <SelectItem key={variant.id} value={variant.id!}>
+                                {variant.name} ({variant.stock_quantity} in stock)
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quantity</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step={1}
+                        min={movementType === 'adjustment' ? undefined : 1}
+                        {...field}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>{QUANTITY_DESCRIPTIONS[movementType]}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      Reason{movementType === 'adjustment' || movementType === 'damage' ? ' *' : ''}
+                    </FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} placeholder="e.g. Supplier delivery #1042" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setDialogOpen(false)}
+                  className="cursor-pointer"
+                >
+                  Cancel
+                </Button>
+                <LoadingButton type="submit" loading={recordMutation.isPending} className="cursor-pointer">
+                  Record Movement
+                </LoadingButton>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
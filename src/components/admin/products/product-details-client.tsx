@@ -15,7 +15,9 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { LoadingButton } from '@/components/ui/loading-button';
+import { InventoryHistory } from '@/components/admin/products/inventory-history';
 import { useDeleteProduct } from '@/hooks/use-admin-mutations';
+import { DEFAULT_LOW_STOCK_THRESHOLD, getAvailableStock, isLowStock } from '@/lib/inventory-utils';
 import { AdminProduct } from '@/types/admin';
 import { apiClient } from '@/lib/api-client';
 import { toast } from 'sonner';
@@ -45,6 +47,8 @@ export function ProductDetailsClient({ initialProduct, productId }: ProductDetai
   const [product, setProduct] = useState(initialProduct);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const deleteProductMutation = useDeleteProduct();
+  const availableStock = getAvailableStock(product);
+  const lowStock = isLowStock(product);
 
   const handleToggleFeatured = async () => {
     try {
@@ -216,14 +220,40 @@ export function ProductDetailsClient({ initialProduct, productId }: ProductDetai
             <CardContent className="space-y-4">
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium">Stock Quantity</span>
-                <Badge variant={product.stock_quantity === 0 ? 'destructive' : product.stock_quantity < 30 ? 'outline' : 'default'}>
-                  {product.stock_quantity} units
+                <span className="text-sm">{product.stock_quantity} units</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Reserved for Orders</span>
+                <span className="text-sm">{product.reserved_quantity || 0} units</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Available</span>
+                <Badge variant={availableStock === 0 ? 'destructive' : lowStock ? 'outline' : 'default'}>
+                  {lowStock && availableStock > 0 && <AlertTriangle className="h-3 w-3 mr-1" />}
+                  {availableStock} units
                 </Badge>
               </div>
-              {product.low_stock_threshold && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Low Stock Threshold</span>
+                <span className="text-sm">
+                  {product.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD} units
+                </span>
+              </div>
+              {product.is_preorder && (
                 <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">Low Stock Threshold</span>
-                  <span className="text-sm">{product.low_stock_threshold} units</span>
+                  <span className="text-sm font-medium">Pre-order</span>
+                  <span className="text-sm">
+                    {product.preorder_available_date
+                      ? `Ships from ${formatDate(product.preorder_available_date)}`
+                      : 'No date set'}
+                    {product.preorder_deposit_free && ' · No deposit'}
+                  </span>
+                </div>
+              )}
+              {!!product.restock_subscriber_count && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Waiting for Restock</span>
+                  <span className="text-sm">{product.restock_subscriber_count} customers</span>
                 </div>
               )}
               <div className="flex items-center justify-between">
@@ -297,6 +327,11 @@ export function ProductDetailsClient({ initialProduct, productId }: ProductDetai
           </Card>
         </div>
 
+        <InventoryHistory
+          product={product}
+          onStockChange={(levels) => setProduct(prev => ({ ...prev, ...levels }))}
+        />
+
         {/* Benefits and Tags */}
         {(product.benefits && product.benefits.length > 0) || (product.tags && product.tags.length > 0) && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
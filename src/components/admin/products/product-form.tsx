@@ -1,9 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
+import { useFieldArray, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -29,30 +28,9 @@ import {
 import { LoadingButton } from '@/components/ui/loading-button';
 import { ProductImageUpload } from './product-image-upload';
 import { useAdminCategories } from '@/hooks/use-admin-data';
+import { ProductFormSchema, type ProductFormData } from '@/lib/product-schemas';
 import { AdminProduct, CreateProductData, UpdateProductData } from '@/types/admin';
-import { X, Plus } from 'lucide-react';
-
-const productFormSchema = z.object({
-  name: z.string().min(1, 'Product name is required').max(255, 'Name must be less than 255 characters'),
-  description: z.string().min(1, 'Description is required'),
-  price: z.number().min(1, 'Price must be greater than 0'),
-  original_price: z.number().optional(),
-  sku: z.string().optional(),
-  stock_quantity: z.number().min(0, 'Stock quantity cannot be negative'),
-  low_stock_threshold: z.number().min(0, 'Low stock threshold cannot be negative').optional(),
-  category_id: z.string().min(1, 'Category is required'),
-  images: z.array(z.string().url()).min(1, 'At least one image is required'),
-  featured: z.boolean().default(false),
-  is_active: z.boolean().default(true),
-  weight: z.union([z.string(), z.number()]).optional(),
-  origin: z.string().optional(),
-  benefits: z.array(z.string()).default([]),
-  tags: z.array(z.string()).default([]),
-  meta_title: z.string().optional(),
-  meta_description: z.string().optional(),
-});
-
-type ProductFormData = z.infer<typeof productFormSchema>;
+import { X, Plus, Trash2 } from 'lucide-react';
 
 interface ProductFormProps {
   initialData?: AdminProduct;
@@ -79,7 +57,7 @@ export function ProductForm({
   const categories = (categoriesResponse as any)?.data?.categories || [];
 
   const form = useForm({
-    resolver: zodResolver(productFormSchema),
+    resolver: zodResolver(ProductFormSchema),
     defaultValues: {
       name: initialData?.name || '',
       description: initialData?.description || '',
@@ -98,6 +76,10 @@ export function ProductForm({
       tags: initialData?.tags || [],
       meta_title: initialData?.meta_title || '',
       meta_description: initialData?.meta_description || '',
+      variants: initialData?.variants || [],
+      is_preorder: initialData?.is_preorder || false,
+      preorder_available_date: initialData?.preorder_available_date?.slice(0, 10) || '',
+      preorder_deposit_free: initialData?.preorder_deposit_free ?? true,
     },
     mode: 'onChange',
   });
@@ -105,10 +87,29 @@ export function ProductForm({
   const { watch, setValue, getValues } = form;
   const watchedBenefits = watch('benefits');
   const watchedTags = watch('tags');
+  const variants = useFieldArray({ control: form.control, name: 'variants' });
+  const hasVariants = variants.fields.length > 0;
+  // Once a product exists its stock only changes through recorded movements
+  const isEditing = !!initialData;
 
   const handleSubmit = async (data: ProductFormData) => {
     try {
-      await onSubmit(data);
+      // Pre-order details only apply while the product takes pre-orders
+      const productData = {
+        ...data,
+        preorder_available_date: data.is_preorder ? data.preorder_available_date : undefined,
+      };
+
+      // With variants, listings show the lowest variant price and the stock of all variants
+      await onSubmit(
+        data.variants.length > 0
+          ? {
+              ...productData,
+              price: Math.min(...data.variants.map(variant => variant.price)),
+              stock_quantity: data.variants.reduce((total, variant) => total + variant.stock_quantity, 0),
+            }
+          : productData
+      );
     } catch (error) {
       console.error('Form submission error:', error);
     }
@@ -217,9 +218,15 @@ export function ProductForm({
                         type="number"
                         placeholder="0"
                         {...field}
+                        disabled={hasVariants}
                         onChange={(e) => field.onChange(Number(e.target.value))}
                       />
                     </FormControl>
+                    {hasVariants && (
+                      <FormDescription>
+                        Set per variant - the lowest variant price is used
+                      </FormDescription>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -293,9 +300,16 @@ export function ProductForm({
                         type="number"
                         placeholder="0"
                         {...field}
+                        disabled={hasVariants || isEditing}
                         onChange={(e) => field.onChange(Number(e.target.value))}
                       />
                     </FormControl>
+                    {(hasVariants || isEditing) && (
+                      <FormDescription>
+                        {hasVariants && 'Total of all variants. '}
+                        {isEditing && 'Record receipts and adjustments from the product page.'}
+                      </FormDescription>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -316,7 +330,7 @@ export function ProductForm({
                       />
                     </FormControl>
                     <FormDescription>
-                      Alert when stock falls below this number
+                      Alert when available stock reaches this number
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -326,6 +340,165 @@ export function ProductForm({
           </CardContent>
         </Card>
 
+        {/* Variants */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Variants</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Sizes or weights sold at their own price, e.g. 250g, 500g and 1kg jars. Leave empty
+              if the product comes in one size.
+            </p>
+
+            {variants.fields.map((variant, index) => (
+              <div key={variant.id} className="rounded-lg border p-4 space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Variant {index + 1}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive cursor-pointer"
+                    onClick={() => variants.remove(index)}
+                    aria-label="Remove variant"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name={`variants.${index}.name`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., 500g" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name={`variants.${index}.sku`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>SKU</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Enter SKU (optional)" {...field} value={field.value || ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name={`variants.${index}.weight`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Weight (grams)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            placeholder="500"
+                            {...field}
+                            value={field.value ?? ''}
+                            onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : undefined)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name={`variants.${index}.price`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Price (৳) *</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            placeholder="0"
+                            {...field}
+                            onChange={(e) => field.onChange(Number(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name={`variants.${index}.original_price`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Original Price (৳)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            placeholder="0"
+                            {...field}
+                            value={field.value ?? ''}
+                            onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : undefined)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name={`variants.${index}.stock_quantity`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Stock *</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            placeholder="0"
+                            {...field}
+                            disabled={isEditing && !!getValues(`variants.${index}.id`)}
+                            onChange={(e) => field.onChange(Number(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
+            ))}
+
+            <Button
+              type="button"
+              variant="outline"
+              className="cursor-pointer"
+              onClick={() =>
+                variants.append({
+                  name: '',
+                  sku: '',
+                  price: getValues('price') || 0,
+                  original_price: undefined,
+                  stock_quantity: 0,
+                  weight: undefined,
+                })
+              }
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Variant
+            </Button>
+          </CardContent>
+        </Card>
+
         {/* Product Images */}
         <Card>
           <CardHeader>
@@ -512,6 +685,79 @@ export function ProductForm({
           </CardContent>
         </Card>
 
+        {/* Pre-order */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Pre-order</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="is_preorder"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Take Pre-orders</FormLabel>
+                    <FormDescription>
+                      Customers can order before stock arrives; pre-order lines ship separately
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      className="cursor-pointer"
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {watch('is_preorder') && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="preorder_available_date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expected Availability *</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Shown to customers as the ship date
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="preorder_deposit_free"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">No Deposit</FormLabel>
+                        <FormDescription>
+                          Reserve now, pay on delivery
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          className="cursor-pointer"
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* SEO Settings */}
         <Card>
           <CardHeader>
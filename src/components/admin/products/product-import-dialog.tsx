@@ -0,0 +1,259 @@
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { Progress } from '@/components/ui/progress';
+import { useImportProducts, usePreviewProductImport } from '@/hooks/use-admin-mutations';
+import {
+  PRODUCT_IMPORT_COLUMNS,
+  type ProductImportPreview,
+  type ProductImportResult,
+} from '@/lib/product-import-utils';
+import { PRODUCT_IMPORT_BATCH_SIZE } from '@/lib/product-schemas';
+import { AlertTriangle, CheckCircle, FileSpreadsheet, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ProductImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Files travel base64-encoded inside the JSON request body
+async function readFileAsBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  // Chunked so large files don't overflow String.fromCharCode's argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function ProductImportDialog({ open, onOpenChange }: ProductImportDialogProps) {
+  const [preview, setPreview] = useState<ProductImportPreview | null>(null);
+  const [results, setResults] = useState<Record<number, ProductImportResult>>({});
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const previewMutation = usePreviewProductImport();
+  const importMutation = useImportProducts();
+
+  // Valid rows not imported yet - after a partial failure, importing again retries only these
+  const pendingRows = (preview?.rows || []).filter(
+    row => row.values && !results[row.row]?.success
+  );
+  const importedCount = Object.values(results).filter(result => result.success).length;
+  const isImporting = progress !== null;
+
+  const reset = () => {
+    setPreview(null);
+    setResults({});
+    setProgress(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Closing mid-import would hide the progress of batches still being created
+    if (isImporting) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (file?: File) => {
+    if (!file) return;
+    reset();
+
+    try {
+      const data = await previewMutation.mutateAsync({
+        file_name: file.name,
+        content: await readFileAsBase64(file),
+      });
+      setPreview(data);
+    } catch {
+      // Reported by the mutation's error toast
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview || pendingRows.length === 0) return;
+
+    const rows = pendingRows.map(row => ({ row: row.row, values: row.values! }));
+    let succeeded = 0;
+    let failed = 0;
+    setProgress({ done: 0, total: rows.length });
+
+    try {
+      for (let start = 0; start < rows.length; start += PRODUCT_IMPORT_BATCH_SIZE) {
+        const batch = rows.slice(start, start + PRODUCT_IMPORT_BATCH_SIZE);
+        const data = await importMutation.mutateAsync({ file_name: preview.file_name, rows: batch });
+
+        succeeded += data.succeeded;
+        failed += data.failed;
+        setResults(current => ({
+          ...current,
+          ...Object.fromEntries(data.results.map(result => [result.row, result])),
+        }));
+        setProgress({ done: start + batch.length, total: rows.length });
+      }
+
+      if (failed === 0) {
+        toast.success(`${succeeded} product${succeeded === 1 ? '' : 's'} imported`);
+      } else {
+        toast.warning(`${failed} of ${succeeded + failed} products could not be imported`, {
+          description: 'Failed rows are marked below. Fix them in the file, or import again to retry.',
+        });
+      }
+    } catch (error) {
+      toast.error('Import stopped', {
+        description: `${succeeded} product${succeeded === 1 ? '' : 's'} imported before the error. ` +
+          (error instanceof Error ? error.message : 'Please try again.'),
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX file with the columns{' '}
+            <span className="font-mono">{PRODUCT_IMPORT_COLUMNS.join(', ')}</span>. Categories
+            can be given by name or slug; separate multiple tags or image URLs with{' '}
+            <span className="font-mono">|</span>. An export from this page is a ready-made template.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="product-import-file">Spreadsheet</Label>
+          <Input
+            id="product-import-file"
+            type="file"
+            accept=".csv,.xlsx"
+            disabled={previewMutation.isPending || isImporting}
+            onChange={e => {
+              handleFileChange(e.target.files?.[0]);
+              // Allow picking the same file again after fixing it
+              e.target.value = '';
+            }}
+            className="cursor-pointer"
+          />
+          {previewMutation.isPending && (
+            <p className="text-sm text-muted-foreground">Checking every row...</p>
+          )}
+        </div>
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <FileSpreadsheet className="h-4 w-4 text-muted-foreground" />
+              <span className="font-medium">{preview.file_name}</span>
+              <Badge variant="outline">{preview.total} rows</Badge>
+              <Badge variant="default">{preview.valid} ready</Badge>
+              {preview.invalid > 0 && <Badge variant="destructive">{preview.invalid} with errors</Badge>}
+              {importedCount > 0 && <Badge variant="secondary">{importedCount} imported</Badge>}
+            </div>
+
+            {preview.invalid > 0 && (
+              <p className="flex items-start gap-2 text-sm text-muted-foreground">
+                <AlertTriangle className="h-4 w-4 mt-0.5 text-yellow-500 shrink-0" />
+                Rows with errors are skipped. Fix them in the file and upload it again to import them.
+              </p>
+            )}
+
+            <div className="max-h-80 overflow-y-auto border rounded-md">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-muted">
+                  <tr className="text-left">
+                    <th className="px-3 py-2 font-medium w-16">Row</th>
+                    <th className="px-3 py-2 font-medium">Product</th>
+                    <th className="px-3 py-2 font-medium">Category</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {preview.rows.map(row => {
+                    const result = results[row.row];
+
+                    return (
+                      <tr key={row.row} className="align-top">
+                        <td className="px-3 py-2 text-muted-foreground">{row.row}</td>
+                        <td className="px-3 py-2">
+                          <div className="font-medium">{row.name || '—'}</div>
+                          {row.values?.sku && (
+                            <div className="text-xs text-muted-foreground">{row.values.sku}</div>
+                          )}
+                        </td>
+                        <td className="px-3 py-2">{row.category_name || '—'}</td>
+                        <td className="px-3 py-2">
+                          {result?.success ? (
+                            <span className="flex items-center gap-1 text-green-600">
+                              <CheckCircle className="h-4 w-4" />
+                              Imported
+                            </span>
+                          ) : result ? (
+                            <span className="flex items-start gap-1 text-destructive">
+                              <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                              {result.error}
+                            </span>
+                          ) : row.errors.length > 0 ? (
+                            <ul className="space-y-0.5 text-destructive">
+                              {row.errors.map(error => (
+                                <li key={error}>{error}</li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <span className="text-muted-foreground">Ready</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {progress && (
+              <div className="space-y-1">
+                <Progress value={(progress.done / progress.total) * 100} />
+                <p className="text-xs text-muted-foreground">
+                  Imported {progress.done} of {progress.total} rows...
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            disabled={isImporting}
+            onClick={() => handleOpenChange(false)}
+            className="cursor-pointer"
+          >
+            {importedCount > 0 ? 'Done' : 'Cancel'}
+          </Button>
+          <LoadingButton
+            disabled={pendingRows.length === 0}
+            loading={isImporting}
+            onClick={handleImport}
+            className="cursor-pointer"
+          >
+            Import {pendingRows.length} product{pendingRows.length === 1 ? '' : 's'}
+          </LoadingButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -29,12 +29,14 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { LoadingButton } from '@/components/ui/loading-button';
-import { useAdminProducts, useAdminCategories, AdminProduct } from '@/hooks/use-admin-data';
+import { useAdminProducts, useAdminCategories } from '@/hooks/use-admin-data';
 import {
   useUpdateProduct,
   useDeleteProduct
 } from '@/hooks/use-admin-mutations';
 import { apiClient } from '@/lib/api-client';
+import type { AdminProduct } from '@/types/admin';
+import { ProductImportDialog } from './product-import-dialog';
 import { toast } from 'sonner';
 import { useRouter } from 'next/navigation';
 import {
@@ -42,6 +44,9 @@ import {
   MoreHorizontal,
   Plus,
   Download,
+  Upload,
+  FileText,
+  FileSpreadsheet,
   Filter,
   Search,
   Edit,
@@ -76,6 +81,17 @@ export function ProductsManagement() {
   const [productToDelete, setProductToDelete] = useState<string | null>(null);
   const [stockDialogOpen, setStockDialogOpen] = useState(false);
   const [productToUpdateStock, setProductToUpdateStock] = useState<AdminProduct | null>(null);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+
+  // List filters, shared with the export so it downloads exactly what's listed
+  const filters = {
+    search: searchTerm || undefined,
+    category_id: categoryFilter !== 'all' ? categoryFilter : undefined,
+    is_active: statusFilter !== 'all' ? statusFilter === 'active' : undefined,
+    in_stock: stockFilter === 'inStock' ? true : stockFilter === 'outOfStock' ? false : undefined,
+    sortBy: 'created_at',
+    sortOrder: 'desc' as const,
+  };
 
   // Fetch products with filters
   const {
@@ -86,12 +102,7 @@ export function ProductsManagement() {
   } = useAdminProducts({
     page,
     limit: 20,
-    search: searchTerm || undefined,
-    category_id: categoryFilter !== 'all' ? categoryFilter : undefined,
-    is_active: statusFilter !== 'all' ? statusFilter === 'active' : undefined,
-    in_stock: stockFilter === 'inStock' ? true : stockFilter === 'outOfStock' ? false : undefined,
-    sortBy: 'created_at',
-    sortOrder: 'desc',
+    ...filters,
   });
 
   // Fetch categories for filter dropdown
@@ -148,6 +159,11 @@ export function ProductsManagement() {
     setProductToUpdateStock(null);
   };
 
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    // Same-origin download - the browser sends the admin session cookie with it
+    window.location.href = apiClient.getAdminProductExportUrl(filters, format);
+  };
+
   const handleDeleteProduct = async () => {
     if (!productToDelete) return;
 
@@ -219,6 +235,21 @@ export function ProductsManagement() {
         </Badge>
       ),
     },
+    {
+      key: 'average_rating',
+      title: 'Rating',
+      sortable: true,
+      render: (value: number, product: AdminProduct) =>
+        product.review_count ? (
+          <div className="flex items-center gap-1 text-sm">
+            <Star className="h-4 w-4 text-yellow-500 fill-current" />
+            <span className="font-medium">{value.toFixed(1)}</span>
+            <span className="text-muted-foreground">({product.review_count})</span>
+          </div>
+        ) : (
+          <span className="text-sm text-muted-foreground">No reviews</span>
+        ),
+    },
     {
       key: 'featured',
       title: 'Featured',
@@ -327,10 +358,33 @@ export function ProductsManagement() {
           <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-0">
             <CardTitle className="text-lg sm:text-xl">Products</CardTitle>
             <div className="flex items-center gap-2 w-full sm:w-auto">
-              <Button variant="outline" size="sm" className="flex-1 sm:flex-none min-h-[44px] cursor-pointer">
-                <Download className="mr-2 h-4 w-4" />
-                <span className="hidden sm:inline">Export</span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1 sm:flex-none min-h-[44px] cursor-pointer"
+                onClick={() => setImportDialogOpen(true)}
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                <span className="hidden sm:inline">Import</span>
               </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="flex-1 sm:flex-none min-h-[44px] cursor-pointer">
+                    <Download className="mr-2 h-4 w-4" />
+                    <span className="hidden sm:inline">Export</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => handleExport('csv')} className="cursor-pointer">
+                    <FileText className="mr-2 h-4 w-4" />
+                    Export as CSV
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('xlsx')} className="cursor-pointer">
+                    <FileSpreadsheet className="mr-2 h-4 w-4" />
+                    Export as Excel (XLSX)
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Button
                 size="sm"
                 className="flex-1 sm:flex-none min-h-[44px] cursor-pointer"
@@ -438,6 +492,8 @@ export function ProductsManagement() {
         </DialogContent>
       </Dialog>
 
+      <ProductImportDialog open={importDialogOpen} onOpenChange={setImportDialogOpen} />
+
       {/* Stock Update Dialog */}
       {/* <StockUpdateDialog
         open={stockDialogOpen}
@@ -0,0 +1,450 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { LoadingButton } from '@/components/ui/loading-button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useAdminCategories, useAdminProducts } from '@/hooks/use-admin-data';
+import {
+  CouponFormSchema,
+  type CouponFormData,
+  type CouponFormInput,
+} from '@/lib/coupon-schemas';
+import type { AdminCategory, AdminCoupon, AdminProduct } from '@/types/admin';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+
+interface CouponFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  coupon?: AdminCoupon | null;
+  onSubmit: (data: CouponFormData) => Promise<void>;
+  isSaving?: boolean;
+}
+
+// <input type="datetime-local"> works in local time without a zone suffix
+function toDateTimeLocal(iso?: string): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function fromDateTimeLocal(value?: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+function toOptionalNumber(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
+export function CouponFormDialog({
+  open,
+  onOpenChange,
+  coupon,
+  onSubmit,
+  isSaving = false,
+}: CouponFormDialogProps) {
+  const form = useForm<CouponFormInput, unknown, CouponFormData>({
+    resolver: zodResolver(CouponFormSchema),
+    defaultValues: {
+      code: coupon?.code || '',
+      description: coupon?.description || '',
+      discount_type: coupon?.discount_type || 'percentage',
+      discount_value: coupon?.discount_value || 10,
+      max_discount_amount: coupon?.max_discount_amount,
+      min_order_amount: coupon?.min_order_amount,
+      scope: coupon?.scope || 'all',
+      category_ids: coupon?.category_ids || [],
+      product_ids: coupon?.product_ids || [],
+      usage_limit: coupon?.usage_limit,
+      usage_limit_per_customer: coupon?.usage_limit_per_customer ?? 1,
+      starts_at: toDateTimeLocal(coupon?.starts_at),
+      ends_at: toDateTimeLocal(coupon?.ends_at),
+      is_active: coupon ? coupon.is_active : true,
+    },
+  });
+
+  const discountType = form.watch('discount_type');
+  const scope = form.watch('scope');
+
+  const { data: categoriesResponse } = useAdminCategories({ limit: 100, is_active: true });
+  const { data: productsResponse } = useAdminProducts({
+    limit: 100,
+    is_active: true,
+    sortBy: 'name',
+    sortOrder: 'asc',
+  });
+
+  const categories: AdminCategory[] =
+    (categoriesResponse as { data?: { categories?: AdminCategory[] } })?.data?.categories || [];
+  const products: AdminProduct[] = (productsResponse as { data?: AdminProduct[] })?.data || [];
+
+  const handleSubmit = async (data: CouponFormData) => {
+    await onSubmit({
+      ...data,
+      description: data.description || undefined,
+      max_discount_amount: data.discount_type === 'percentage' ? data.max_discount_amount : undefined,
+      // Only keep the targets that match the selected scope
+      category_ids: data.scope === 'categories' ? data.category_ids : [],
+      product_ids: data.scope === 'products' ? data.product_ids : [],
+      starts_at: fromDateTimeLocal(data.starts_at),
+      ends_at: fromDateTimeLocal(data.ends_at),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{coupon ? `Edit ${coupon.code}` : 'Create Coupon'}</DialogTitle>
+          <DialogDescription>
+            Customers enter the code in the cart or at checkout. Discounts are checked on the
+            server against live prices.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code *</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="EID2025"
+                        className="font-mono uppercase"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Eid special discount" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Discount */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="discount_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Discount Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="percentage">Percentage</SelectItem>
+                        <SelectItem value="fixed">Fixed Amount</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="discount_value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{discountType === 'percentage' ? 'Percent Off *' : 'Amount Off (৳) *'}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        {...field}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {discountType === 'percentage' && (
+                <FormField
+                  control={form.control}
+                  name="max_discount_amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Maximum Discount (৳)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder="No cap"
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            {/* Conditions */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="min_order_amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum Cart Value (৳)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        placeholder="None"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="usage_limit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Total Uses</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        placeholder="Unlimited"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="usage_limit_per_customer"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Uses Per Customer</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        placeholder="Unlimited"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="starts_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave empty to start immediately</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="ends_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave empty to never expire</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Scope */}
+            <FormField
+              control={form.control}
+              name="scope"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Applies To</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="md:w-1/2">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="all">Entire cart</SelectItem>
+                      <SelectItem value="categories">Selected categories</SelectItem>
+                      <SelectItem value="products">Selected products</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {scope === 'categories' && (
+              <FormField
+                control={form.control}
+                name="category_ids"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Categories</FormLabel>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-48 overflow-y-auto rounded-lg border p-3">
+                      {categories.length === 0 && (
+                        <p className="text-sm text-muted-foreground">No active categories</p>
+                      )}
+                      {categories.map((category) => {
+                        const selected = field.value || [];
+                        return (
+                          <label key={category.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={selected.includes(category.id)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(
+                                  checked
+                                    ? [...selected, category.id]
+                                    : selected.filter((id) => id !== category.id)
+                                )
+                              }
+                            />
+                            {category.name}
+                          </label>
+                        );
+                      })}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {scope === 'products' && (
+              <FormField
+                control={form.control}
+                name="product_ids"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Products</FormLabel>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-48 overflow-y-auto rounded-lg border p-3">
+                      {products.length === 0 && (
+                        <p className="text-sm text-muted-foreground">No active products</p>
+                      )}
+                      {products.map((product) => {
+                        const selected = field.value || [];
+                        return (
+                          <label key={product.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={selected.includes(product.id)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(
+                                  checked
+                                    ? [...selected, product.id]
+                                    : selected.filter((id) => id !== product.id)
+                                )
+                              }
+                            />
+                            <span className="truncate">{product.name}</span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Active</FormLabel>
+                    <FormDescription>
+                      Inactive coupons are rejected at checkout
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <LoadingButton type="submit" loading={isSaving}>
+                {coupon ? 'Save Changes' : 'Create Coupon'}
+              </LoadingButton>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,326 @@
+'use client';
+
+import { DataTable } from '@/components/admin/ui/data-table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { useAdminCoupons } from '@/hooks/use-admin-data';
+import { useCreateCoupon, useDeleteCoupon, useUpdateCoupon } from '@/hooks/use-admin-mutations';
+import { formatCurrency, formatDate } from '@/lib/admin-utils';
+import type { CouponFormData } from '@/lib/coupon-schemas';
+import { describeCouponDiscount, getCouponState, type CouponState } from '@/lib/coupon-utils';
+import type { AdminCoupon } from '@/types/admin';
+import { Edit, MoreHorizontal, Plus, Search, TicketPercent, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { CouponFormDialog } from './coupon-form-dialog';
+
+const PAGE_SIZE = 20;
+
+const STATE_BADGES: Record<CouponState, { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }> = {
+  active: { label: 'Active', variant: 'default' },
+  scheduled: { label: 'Scheduled', variant: 'outline' },
+  expired: { label: 'Expired', variant: 'secondary' },
+  exhausted: { label: 'Used Up', variant: 'secondary' },
+  inactive: { label: 'Inactive', variant: 'destructive' },
+};
+
+const SCOPE_LABELS: Record<AdminCoupon['scope'], string> = {
+  all: 'Entire cart',
+  categories: 'Categories',
+  products: 'Products',
+};
+
+export function PromotionsManagement() {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [page, setPage] = useState(1);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<AdminCoupon | null>(null);
+  const [couponToDelete, setCouponToDelete] = useState<AdminCoupon | null>(null);
+
+  const { data: couponsResponse, isLoading, error } = useAdminCoupons({
+    page,
+    limit: PAGE_SIZE,
+    search: searchTerm || undefined,
+    sortBy: 'created_at',
+    sortOrder: 'desc',
+  });
+
+  const createCouponMutation = useCreateCoupon();
+  const updateCouponMutation = useUpdateCoupon();
+  const deleteCouponMutation = useDeleteCoupon();
+
+  const coupons = couponsResponse?.data || [];
+  const pagination = couponsResponse?.pagination;
+
+  const openCreate = () => {
+    setEditingCoupon(null);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (coupon: AdminCoupon) => {
+    setEditingCoupon(coupon);
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async (data: CouponFormData) => {
+    try {
+      if (editingCoupon) {
+        await updateCouponMutation.mutateAsync({ id: editingCoupon.id, ...data });
+      } else {
+        await createCouponMutation.mutateAsync(data);
+      }
+      setIsFormOpen(false);
+      setEditingCoupon(null);
+    } catch {
+      // Error toast is shown by the mutation - keep the dialog open for corrections
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!couponToDelete) return;
+
+    try {
+      await deleteCouponMutation.mutateAsync(couponToDelete.id);
+      setCouponToDelete(null);
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  };
+
+  const couponColumns = [
+    {
+      key: 'code',
+      title: 'Coupon',
+      render: (_: string, coupon: AdminCoupon) => (
+        <div>
+          <div className="font-mono font-medium">{coupon.code}</div>
+          {coupon.description && (
+            <div className="text-sm text-muted-foreground truncate max-w-xs">
+              {coupon.description}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'discount_value',
+      title: 'Discount',
+      render: (_: number, coupon: AdminCoupon) => (
+        <div className="text-sm">
+          <div className="font-medium">{describeCouponDiscount(coupon)}</div>
+          {coupon.min_order_amount ? (
+            <div className="text-muted-foreground">
+              Min. cart {formatCurrency(coupon.min_order_amount)}
+            </div>
+          ) : null}
+        </div>
+      ),
+    },
+    {
+      key: 'scope',
+      title: 'Applies To',
+      render: (value: AdminCoupon['scope'], coupon: AdminCoupon) => (
+        <Badge variant="outline">
+          {SCOPE_LABELS[value]}
+          {value === 'categories' && ` (${coupon.category_ids.length})`}
+          {value === 'products' && ` (${coupon.product_ids.length})`}
+        </Badge>
+      ),
+    },
+    {
+      key: 'usage_count',
+      title: 'Usage',
+      render: (value: number, coupon: AdminCoupon) => (
+        <div className="text-sm">
+          <div>
+            {value}
+            {coupon.usage_limit !== undefined ? ` / ${coupon.usage_limit}` : ''} used
+          </div>
+          {coupon.usage_limit_per_customer !== undefined && (
+            <div className="text-muted-foreground">
+              {coupon.usage_limit_per_customer} per customer
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'ends_at',
+      title: 'Valid',
+      render: (_: string, coupon: AdminCoupon) => (
+        <div className="text-sm">
+          {coupon.starts_at ? formatDate(coupon.starts_at) : 'Now'} –{' '}
+          {coupon.ends_at ? formatDate(coupon.ends_at) : 'No end date'}
+        </div>
+      ),
+    },
+    {
+      key: 'is_active',
+      title: 'Status',
+      render: (_: boolean, coupon: AdminCoupon) => {
+        const badge = STATE_BADGES[getCouponState(coupon)];
+        return <Badge variant={badge.variant}>{badge.label}</Badge>;
+      },
+    },
+    {
+      key: 'actions',
+      title: 'Actions',
+      render: (_: unknown, coupon: AdminCoupon) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm">
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => openEdit(coupon)}>
+              <Edit className="mr-2 h-4 w-4" />
+              Edit Coupon
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => setCouponToDelete(coupon)}
+              className="text-destructive"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete Coupon
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
+  ];
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <TicketPercent className="h-5 w-5" />
+              Coupons
+            </CardTitle>
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Coupon
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {/* Search */}
+          <div className="mb-6">
+            <div className="relative max-w-sm">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by code..."
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setPage(1);
+                }}
+                className="pl-10"
+              />
+            </div>
+          </div>
+
+          {error ? (
+            <p className="text-sm text-destructive">
+              Failed to load coupons. Please refresh and try again.
+            </p>
+          ) : isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading coupons...</p>
+          ) : (
+            <DataTable
+              data={coupons}
+              columns={couponColumns}
+              searchable={false}
+              pageSize={PAGE_SIZE}
+              keyField="id"
+              emptyMessage="No coupons yet. Create one to start a promotion."
+            />
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-sm text-muted-foreground">
+                Page {pagination.page} of {pagination.totalPages}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!pagination.hasPrev}
+                  onClick={() => setPage((current) => Math.max(1, current - 1))}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!pagination.hasNext}
+                  onClick={() => setPage((current) => current + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isFormOpen && (
+        <CouponFormDialog
+          key={editingCoupon?.id || 'new'}
+          open={isFormOpen}
+          onOpenChange={(open) => {
+            setIsFormOpen(open);
+            if (!open) setEditingCoupon(null);
+          }}
+          coupon={editingCoupon}
+          onSubmit={handleSave}
+          isSaving={createCouponMutation.isPending || updateCouponMutation.isPending}
+        />
+      )}
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!couponToDelete} onOpenChange={(open) => !open && setCouponToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Coupon</DialogTitle>
+            <DialogDescription>
+              Delete <span className="font-mono">{couponToDelete?.code}</span>? Customers will no
+              longer be able to apply it. Orders that already used it keep their discount.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCouponToDelete(null)}>
+              Cancel
+            </Button>
+            <LoadingButton
+              variant="destructive"
+              onClick={handleDelete}
+              loading={deleteCouponMutation.isPending}
+            >
+              Delete Coupon
+            </LoadingButton>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
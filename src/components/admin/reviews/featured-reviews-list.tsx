@@ -0,0 +1,93 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Rating } from '@/components/ui/rating';
+import { useAdminReviews } from '@/hooks/use-admin-data';
+import { useModerateReview } from '@/hooks/use-admin-mutations';
+import { ExternalLink, StarOff } from 'lucide-react';
+import Link from 'next/link';
+
+// Approved reviews shown in the homepage carousel - picked from the Reviews page
+export function FeaturedReviewsList() {
+  const { data: reviewsResponse, isLoading, error } = useAdminReviews({
+    status: 'approved',
+    featured: true,
+    limit: 50,
+    sortBy: 'created_at',
+    sortOrder: 'desc',
+  });
+  const moderateMutation = useModerateReview();
+
+  const reviews = reviewsResponse?.data || [];
+
+  const handleUnfeature = async (id: string) => {
+    try {
+      await moderateMutation.mutateAsync({ id, action: 'unfeature' });
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h3 className="font-medium">Featured Reviews</h3>
+          <p className="text-sm text-muted-foreground">
+            Approved reviews featured from the Reviews page appear in the homepage carousel.
+          </p>
+        </div>
+        <Button type="button" variant="outline" size="sm" asChild>
+          <Link href="/admin/reviews">
+            <ExternalLink className="mr-2 h-4 w-4" />
+            Manage Reviews
+          </Link>
+        </Button>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-destructive">Failed to load featured reviews.</p>
+      ) : isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading featured reviews...</p>
+      ) : reviews.length === 0 ? (
+        <div className="text-center text-muted-foreground py-8 border rounded-lg">
+          No featured reviews yet. The reviews section is hidden on the homepage until at least one
+          review is featured.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {reviews.map((review) => (
+            <div key={review.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+              <div className="space-y-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{review.user.name}</span>
+                  <Rating rating={review.rating} size="sm" />
+                  {review.verified && (
+                    <Badge variant="outline" className="text-xs">
+                      Verified
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground line-clamp-2">{review.comment}</p>
+                {review.product.name && (
+                  <p className="text-xs text-muted-foreground">{review.product.name}</p>
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={moderateMutation.isPending}
+                onClick={() => handleUnfeature(review.id)}
+              >
+                <StarOff className="mr-2 h-4 w-4" />
+                Remove
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
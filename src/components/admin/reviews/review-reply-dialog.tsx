@@ -0,0 +1,85 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { Rating } from '@/components/ui/rating';
+import { Textarea } from '@/components/ui/textarea';
+import { useModerateReview } from '@/hooks/use-admin-mutations';
+import type { AdminReview } from '@/types/admin';
+import { useState } from 'react';
+
+interface ReviewReplyDialogProps {
+  review: AdminReview;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReviewReplyDialog({ review, open, onOpenChange }: ReviewReplyDialogProps) {
+  const [reply, setReply] = useState(review.admin_reply || '');
+  const moderateMutation = useModerateReview();
+
+  const handleSubmit = async () => {
+    try {
+      await moderateMutation.mutateAsync({ id: review.id, action: 'reply', reply });
+      onOpenChange(false);
+    } catch {
+      // Error toast is shown by the mutation - keep the dialog open for corrections
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{review.admin_reply ? 'Edit Reply' : 'Reply to Review'}</DialogTitle>
+          <DialogDescription>
+            Your reply is shown publicly under the review on the product page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="rounded-lg border bg-muted/40 p-3 text-sm">
+            <div className="flex items-center gap-2 mb-1">
+              <span className="font-medium">{review.user.name}</span>
+              <Rating rating={review.rating} size="sm" />
+            </div>
+            <p className="text-muted-foreground">{review.comment}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-reply">Reply</Label>
+            <Textarea
+              id="review-reply"
+              rows={4}
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              placeholder="Thank the customer or answer their question..."
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <LoadingButton
+            onClick={handleSubmit}
+            loading={moderateMutation.isPending}
+            disabled={reply.trim().length < 2}
+          >
+            Post Reply
+          </LoadingButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
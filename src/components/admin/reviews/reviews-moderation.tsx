@@ -0,0 +1,453 @@
+'use client';
+
+import { DataTable } from '@/components/admin/ui/data-table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { Rating } from '@/components/ui/rating';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useAdminReviews } from '@/hooks/use-admin-data';
+import { useBulkReviewAction, useModerateReview } from '@/hooks/use-admin-mutations';
+import { formatDate } from '@/lib/admin-utils';
+import type { AdminReview } from '@/types/admin';
+import {
+  CheckCircle,
+  Filter,
+  ImageIcon,
+  MessageSquare,
+  MessageSquareReply,
+  MoreHorizontal,
+  Search,
+  Star,
+  StarOff,
+  XCircle,
+} from 'lucide-react';
+import Image from 'next/image';
+import { useState } from 'react';
+import { ReviewReplyDialog } from './review-reply-dialog';
+
+const PAGE_SIZE = 20;
+
+type StatusFilter = AdminReview['status'] | 'all';
+
+const STATUS_OPTIONS: { value: StatusFilter; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'all', label: 'All Reviews' },
+];
+
+const STATUS_BADGES: Record<AdminReview['status'], { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }> = {
+  pending: { label: 'Pending', variant: 'outline' },
+  approved: { label: 'Approved', variant: 'default' },
+  rejected: { label: 'Rejected', variant: 'destructive' },
+};
+
+// Reviews waiting to be rejected - one review from its menu, or the current selection
+type RejectTarget = { review: AdminReview } | { ids: string[] };
+
+export function ReviewsModeration() {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('pending');
+  const [page, setPage] = useState(1);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [replyingTo, setReplyingTo] = useState<AdminReview | null>(null);
+  const [rejectTarget, setRejectTarget] = useState<RejectTarget | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const { data: reviewsResponse, isLoading, error } = useAdminReviews({
+    page,
+    limit: PAGE_SIZE,
+    search: searchTerm || undefined,
+    status: statusFilter === 'all' ? undefined : statusFilter,
+    sortBy: 'created_at',
+    sortOrder: statusFilter === 'pending' ? 'asc' : 'desc',
+  });
+
+  const moderateMutation = useModerateReview();
+  const bulkActionMutation = useBulkReviewAction();
+
+  const reviews = reviewsResponse?.data || [];
+  const pagination = reviewsResponse?.pagination;
+  const isPending = moderateMutation.isPending || bulkActionMutation.isPending;
+
+  const changeFilter = (status: StatusFilter) => {
+    setStatusFilter(status);
+    setPage(1);
+    setSelectedKeys([]);
+  };
+
+  const moderate = async (review: AdminReview, action: 'approve' | 'feature' | 'unfeature') => {
+    try {
+      await moderateMutation.mutateAsync({ id: review.id, action });
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  };
+
+  const runBulkAction = async (action: 'approve' | 'reject', ids: string[], reason?: string) => {
+    const result = await bulkActionMutation.mutateAsync({ action, ids, reason });
+
+    // Keep only the reviews that failed selected so they can be retried
+    setSelectedKeys(result.results.filter((item) => !item.success).map((item) => item.id));
+  };
+
+  const handleReject = async () => {
+    if (!rejectTarget) return;
+
+    try {
+      if ('review' in rejectTarget) {
+        await moderateMutation.mutateAsync({
+          id: rejectTarget.review.id,
+          action: 'reject',
+          reason: rejectReason || undefined,
+        });
+      } else {
+        await runBulkAction('reject', rejectTarget.ids, rejectReason || undefined);
+      }
+      setRejectTarget(null);
+      setRejectReason('');
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  };
+
+  const reviewColumns = [
+    {
+      key: 'comment',
+      title: 'Review',
+      render: (_: string, review: AdminReview) => (
+        <div className="max-w-md space-y-1">
+          <div className="flex items-center gap-2">
+            <Rating rating={review.rating} size="sm" />
+            {review.featured && (
+              <Badge variant="secondary" className="text-xs">
+                <Star className="mr-1 h-3 w-3 fill-current text-yellow-500" />
+                Featured
+              </Badge>
+            )}
+          </div>
+          <p className="text-sm line-clamp-3">{review.comment}</p>
+          {review.images.length > 0 && (
+            <div className="flex gap-1">
+              {review.images.map((url) => (
+                <a
+                  key={url}
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="relative h-10 w-10 overflow-hidden rounded border"
+                >
+                  <Image src={url} alt="Review photo" fill sizes="40px" className="object-cover" />
+                </a>
+              ))}
+            </div>
+          )}
+          {review.admin_reply && (
+            <p className="text-xs text-muted-foreground border-l-2 pl-2">
+              <span className="font-medium">Reply:</span> {review.admin_reply}
+            </p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'product',
+      title: 'Product',
+      render: (_: unknown, review: AdminReview) => (
+        <div className="flex items-center gap-2">
+          <div className="relative w-10 h-10 bg-muted rounded-md flex items-center justify-center overflow-hidden flex-shrink-0">
+            {review.product.images[0] ? (
+              <Image
+                src={review.product.images[0]}
+                alt={review.product.name}
+                fill
+                sizes="40px"
+                className="object-cover"
+              />
+            ) : (
+              <ImageIcon className="h-4 w-4 text-muted-foreground" />
+            )}
+          </div>
+          <span className="text-sm font-medium">{review.product.name || review.product_id}</span>
+        </div>
+      ),
+    },
+    {
+      key: 'user',
+      title: 'Customer',
+      render: (_: unknown, review: AdminReview) => (
+        <div className="text-sm">
+          <div className="font-medium">{review.user.name}</div>
+          {review.user.email && <div className="text-muted-foreground">{review.user.email}</div>}
+          {review.verified && (
+            <Badge variant="outline" className="mt-1 text-xs">
+              Verified Purchase
+            </Badge>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'status',
+      title: 'Status',
+      render: (value: AdminReview['status']) => (
+        <Badge variant={STATUS_BADGES[value].variant}>{STATUS_BADGES[value].label}</Badge>
+      ),
+    },
+    {
+      key: 'created_at',
+      title: 'Submitted',
+      render: (value: string) => <span className="text-sm">{formatDate(value)}</span>,
+    },
+    {
+      key: 'actions',
+      title: 'Actions',
+      render: (_: unknown, review: AdminReview) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={isPending}>
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {review.status !== 'approved' && (
+              <DropdownMenuItem onClick={() => moderate(review, 'approve')}>
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Approve
+              </DropdownMenuItem>
+            )}
+            {review.status !== 'rejected' && (
+              <DropdownMenuItem onClick={() => setReplyingTo(review)}>
+                <MessageSquareReply className="mr-2 h-4 w-4" />
+                {review.admin_reply ? 'Edit Reply' : 'Reply'}
+              </DropdownMenuItem>
+            )}
+            {review.status === 'approved' && (
+              <DropdownMenuItem
+                onClick={() => moderate(review, review.featured ? 'unfeature' : 'feature')}
+              >
+                {review.featured ? (
+                  <StarOff className="mr-2 h-4 w-4" />
+                ) : (
+                  <Star className="mr-2 h-4 w-4" />
+                )}
+                {review.featured ? 'Remove from Homepage' : 'Feature on Homepage'}
+              </DropdownMenuItem>
+            )}
+            {review.status !== 'rejected' && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => setRejectTarget({ review })}
+                  className="text-destructive"
+                >
+                  <XCircle className="mr-2 h-4 w-4" />
+                  Reject
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
+  ];
+
+  const rejectCount = rejectTarget ? ('review' in rejectTarget ? 1 : rejectTarget.ids.length) : 0;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            Reviews
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {/* Filters */}
+          <div className="flex flex-col sm:flex-row gap-3 mb-6">
+            <div className="relative flex-1 max-w-sm">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search reviews, products or customers..."
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setPage(1);
+                }}
+                className="pl-10"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={(value) => changeFilter(value as StatusFilter)}>
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <Filter className="mr-2 h-4 w-4" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATUS_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Bulk Actions */}
+          {selectedKeys.length > 0 && (
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 mb-4 border rounded-lg bg-muted/40">
+              <span className="text-sm font-medium">
+                {selectedKeys.length} review{selectedKeys.length === 1 ? '' : 's'} selected
+              </span>
+              <div className="flex flex-wrap gap-2 sm:ml-auto">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isPending}
+                  onClick={() => runBulkAction('approve', selectedKeys).catch(() => undefined)}
+                >
+                  <CheckCircle className="mr-2 h-4 w-4" />
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="text-destructive"
+                  disabled={isPending}
+                  onClick={() => setRejectTarget({ ids: selectedKeys })}
+                >
+                  <XCircle className="mr-2 h-4 w-4" />
+                  Reject
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setSelectedKeys([])}>
+                  Clear
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {error ? (
+            <p className="text-sm text-destructive">
+              Failed to load reviews. Please refresh and try again.
+            </p>
+          ) : isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading reviews...</p>
+          ) : (
+            <DataTable
+              data={reviews}
+              columns={reviewColumns}
+              searchable={false}
+              pageSize={PAGE_SIZE}
+              keyField="id"
+              emptyMessage={
+                statusFilter === 'pending' ? 'No reviews waiting for moderation.' : 'No reviews found.'
+              }
+              selectable
+              selectedKeys={selectedKeys}
+              onSelectionChange={setSelectedKeys}
+            />
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-sm text-muted-foreground">
+                Page {pagination.page} of {pagination.totalPages}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!pagination.hasPrev}
+                  onClick={() => setPage((current) => Math.max(1, current - 1))}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!pagination.hasNext}
+                  onClick={() => setPage((current) => current + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {replyingTo && (
+        <ReviewReplyDialog
+          key={replyingTo.id}
+          review={replyingTo}
+          open={!!replyingTo}
+          onOpenChange={(open) => !open && setReplyingTo(null)}
+        />
+      )}
+
+      {/* Reject Dialog */}
+      <Dialog
+        open={!!rejectTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejectTarget(null);
+            setRejectReason('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject {rejectCount === 1 ? 'Review' : `${rejectCount} Reviews`}</DialogTitle>
+            <DialogDescription>
+              Rejected reviews are hidden from the storefront and removed from the homepage.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-reason">Reason (optional)</Label>
+            <Textarea
+              id="reject-reason"
+              rows={3}
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              placeholder="e.g. Contains personal information"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectTarget(null)}>
+              Cancel
+            </Button>
+            <LoadingButton variant="destructive" onClick={handleReject} loading={isPending}>
+              Reject
+            </LoadingButton>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,453 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { LoadingButton } from '@/components/ui/loading-button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useAdminDeliverySettings } from '@/hooks/use-admin-data';
+import { useUpdateDeliverySettings } from '@/hooks/use-admin-mutations';
+import { BANGLADESHI_CITIES } from '@/lib/constants';
+import {
+  DeliverySettingsSchema,
+  type DeliverySettingsFormInput,
+  type DeliverySettingsInput,
+} from '@/lib/settings-schemas';
+import { DEFAULT_DELIVERY_SETTINGS } from '@/lib/shipping-utils';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Plus, Save, Trash2, Truck } from 'lucide-react';
+import { useEffect } from 'react';
+import { useFieldArray, useForm, type Control } from 'react-hook-form';
+
+type DeliveryFormControl = Control<DeliverySettingsFormInput, unknown, DeliverySettingsInput>;
+
+function toOptionalNumber(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
+function createZone(): DeliverySettingsFormInput['zones'][number] {
+  return {
+    id: `zone-${Date.now().toString(36)}`,
+    name: '',
+    cities: [],
+    is_fallback: false,
+    fee: 100,
+    area_fees: [],
+    free_shipping_threshold: undefined,
+    cod_available: true,
+    estimated_days_min: 2,
+    estimated_days_max: 4,
+  };
+}
+
+interface DeliveryZoneFieldsProps {
+  control: DeliveryFormControl;
+  index: number;
+  cities: string[];
+  onRemove: () => void;
+  canRemove: boolean;
+}
+
+function DeliveryZoneFields({ control, index, cities, onRemove, canRemove }: DeliveryZoneFieldsProps) {
+  const areaFees = useFieldArray({ control, name: `zones.${index}.area_fees` });
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex items-start gap-4">
+        <FormField
+          control={control}
+          name={`zones.${index}.name`}
+          render={({ field }) => (
+            <FormItem className="flex-1">
+              <FormLabel>Zone Name *</FormLabel>
+              <FormControl>
+                <Input placeholder="Inside Dhaka" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="mt-6 text-destructive"
+          onClick={onRemove}
+          disabled={!canRemove}
+          aria-label="Remove zone"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <FormField
+          control={control}
+          name={`zones.${index}.fee`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Fee (৳) *</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={0}
+                  {...field}
+                  onChange={(e) => field.onChange(Number(e.target.value))}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`zones.${index}.free_shipping_threshold`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Free Above (৳)</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Store default"
+                  value={field.value ?? ''}
+                  onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`zones.${index}.estimated_days_min`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Min Days</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={0}
+                  {...field}
+                  onChange={(e) => field.onChange(Number(e.target.value))}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`zones.${index}.estimated_days_max`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Max Days</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={0}
+                  {...field}
+                  onChange={(e) => field.onChange(Number(e.target.value))}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        <FormField
+          control={control}
+          name={`zones.${index}.cod_available`}
+          render={({ field }) => (
+            <FormItem className="flex items-center gap-2 space-y-0">
+              <FormControl>
+                <Switch checked={field.value ?? true} onCheckedChange={field.onChange} />
+              </FormControl>
+              <FormLabel>Cash on Delivery</FormLabel>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`zones.${index}.is_fallback`}
+          render={({ field }) => (
+            <FormItem className="flex items-center gap-2 space-y-0">
+              <FormControl>
+                <Switch checked={field.value ?? false} onCheckedChange={field.onChange} />
+              </FormControl>
+              <FormLabel>Fallback for unlisted cities</FormLabel>
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={control}
+        name={`zones.${index}.cities`}
+        render={({ field }) => {
+          const selected = field.value || [];
+          return (
+            <FormItem>
+              <FormLabel>Cities</FormLabel>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 max-h-40 overflow-y-auto rounded-lg border p-3">
+                {cities.map((city) => (
+                  <label key={city} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selected.includes(city)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(
+                          checked ? [...selected, city] : selected.filter((item) => item !== city)
+                        )
+                      }
+                    />
+                    {city}
+                  </label>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          );
+        }}
+      />
+
+      {/* Area overrides */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium">Area Fees</p>
+            <p className="text-xs text-muted-foreground">Override the zone fee for specific areas</p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => areaFees.append({ city: cities[0] || '', area: '', fee: 0 })}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Area
+          </Button>
+        </div>
+        {areaFees.fields.map((areaFee, areaIndex) => (
+          <div key={areaFee.id} className="grid grid-cols-[1fr_1fr_8rem_auto] gap-2 items-start">
+            <FormField
+              control={control}
+              name={`zones.${index}.area_fees.${areaIndex}.city`}
+              render={({ field }) => (
+                <FormItem>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="City" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {cities.map((city) => (
+                        <SelectItem key={city} value={city}>
+                          {city}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`zones.${index}.area_fees.${areaIndex}.area`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input placeholder="Area or Thana" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`zones.${index}.area_fees.${areaIndex}.fee`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => areaFees.remove(areaIndex)}
+              aria-label="Remove area fee"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function DeliveryZonesSettings() {
+  const { data: deliverySettings, isLoading, isError, refetch } = useAdminDeliverySettings();
+  const updateDeliverySettings = useUpdateDeliverySettings();
+
+  const form = useForm<DeliverySettingsFormInput, unknown, DeliverySettingsInput>({
+    resolver: zodResolver(DeliverySettingsSchema),
+    defaultValues: DEFAULT_DELIVERY_SETTINGS,
+  });
+  const zones = useFieldArray({ control: form.control, name: 'zones' });
+
+  // Load the saved zones once they arrive
+  useEffect(() => {
+    if (deliverySettings) {
+      form.reset(deliverySettings);
+    }
+  }, [deliverySettings, form]);
+
+  // Keep cities from older saves selectable even if they're no longer in the default list
+  const savedCities = (form.watch('zones') || []).flatMap((zone) => zone.cities || []);
+  const cities = Array.from(new Set([...BANGLADESHI_CITIES, ...savedCities]));
+
+  const zonesError =
+    form.formState.errors.zones?.root?.message || form.formState.errors.zones?.message;
+
+  const handleSubmit = async (data: DeliverySettingsInput) => {
+    try {
+      const response = (await updateDeliverySettings.mutateAsync(data)) as {
+        data?: DeliverySettingsFormInput;
+      };
+      form.reset(response.data || data);
+    } catch {
+      // Error toast is shown by the mutation - keep the edits for another try
+    }
+  };
+
+  // No form without the saved zones - saving the defaults would overwrite them
+  if (isError) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <p className="text-muted-foreground mb-4">We couldn&apos;t load the delivery zones.</p>
+          <Button variant="outline" onClick={() => refetch()}>
+            Try Again
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            Delivery Zones
+          </CardTitle>
+          {form.formState.isDirty && (
+            <Badge variant="outline" className="text-orange-600">
+              Unsaved Changes
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="free_shipping_threshold"
+              render={({ field }) => (
+                <FormItem className="max-w-xs">
+                  <FormLabel>Free Shipping Threshold (৳)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="No free shipping"
+                      value={field.value ?? ''}
+                      onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                      disabled={isLoading}
+                    />
+                  </FormControl>
+                  <FormDescription>Applies to every zone without its own threshold</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-4">
+              {zones.fields.map((zone, index) => (
+                <DeliveryZoneFields
+                  key={zone.id}
+                  control={form.control}
+                  index={index}
+                  cities={cities}
+                  onRemove={() => zones.remove(index)}
+                  canRemove={zones.fields.length > 1}
+                />
+              ))}
+              {zonesError && <p className="text-sm text-destructive">{zonesError}</p>}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Button type="button" variant="outline" onClick={() => zones.append(createZone())}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Zone
+              </Button>
+              <div className="flex items-center gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => form.reset()}
+                  disabled={!form.formState.isDirty}
+                >
+                  Discard
+                </Button>
+                <LoadingButton
+                  type="submit"
+                  loading={updateDeliverySettings.isPending}
+                  loadingText="Saving..."
+                  disabled={!form.formState.isDirty}
+                >
+                  <Save className="mr-2 h-4 w-4" />
+                  Save Zones
+                </LoadingButton>
+              </div>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { useAdminSearchSettings } from '@/hooks/use-admin-data';
+import { useUpdateSearchSettings } from '@/hooks/use-admin-mutations';
+import { DEFAULT_SEARCH_SETTINGS } from '@/lib/search-synonyms';
+import {
+  SearchSettingsSchema,
+  type SearchSettingsFormInput,
+  type SearchSettingsInput,
+} from '@/lib/settings-schemas';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Languages, Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+
+function toWords(text: string): string[] {
+  return text
+    .split(',')
+    .map((word) => word.trim())
+    .filter(Boolean);
+}
+
+interface SynonymsInputProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+  onBlur: () => void;
+}
+
+// Comma-separated text input backed by a string array
+function SynonymsInput({ value, onChange, onBlur }: SynonymsInputProps) {
+  const [text, setText] = useState(value.join(', '));
+
+  // Pick up resets and saves without fighting what the admin is typing
+  useEffect(() => {
+    if (toWords(text).join(',') !== toWords(value.join(',')).join(',')) {
+      setText(value.join(', '));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [value]);
+
+  return (
+    <Input
+      placeholder="modhu, madhu"
+      value={text}
+      onBlur={onBlur}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(e.target.value.split(','));
+      }}
+    />
+  );
+}
+
+export function SearchSynonymsSettings() {
+  const { data: searchSettings, isLoading } = useAdminSearchSettings();
+  const updateSearchSettings = useUpdateSearchSettings();
+
+  const form = useForm<SearchSettingsFormInput, unknown, SearchSettingsInput>({
+    resolver: zodResolver(SearchSettingsSchema),
+    defaultValues: { synonyms: DEFAULT_SEARCH_SETTINGS.synonyms },
+  });
+  const synonyms = useFieldArray({ control: form.control, name: 'synonyms' });
+
+  // Load the saved table once it arrives
+  useEffect(() => {
+    if (searchSettings) {
+      form.reset({ synonyms: searchSettings.synonyms });
+    }
+  }, [searchSettings, form]);
+
+  const synonymsError =
+    form.formState.errors.synonyms?.root?.message || form.formState.errors.synonyms?.message;
+
+  const handleSubmit = async (data: SearchSettingsInput) => {
+    try {
+      const response = (await updateSearchSettings.mutateAsync(data)) as {
+        data?: SearchSettingsFormInput;
+      };
+      form.reset(response.data || data);
+    } catch {
+      // Error toast is shown by the mutation - keep the edits for another try
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Languages className="h-5 w-5" />
+            Search Synonyms
+          </CardTitle>
+          {form.formState.isDirty && (
+            <Badge variant="outline" className="text-orange-600">
+              Unsaved Changes
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              Searching for any synonym also finds products with the catalog term, e.g. &quot;modhu&quot;
+              finds honey. Separate synonyms with commas.
+            </p>
+
+            <div className="space-y-3">
+              <div className="hidden sm:grid grid-cols-[12rem_1fr_auto] gap-2 text-sm font-medium">
+                <span>Catalog Term</span>
+                <span>Synonyms</span>
+                <span className="w-9" />
+              </div>
+              {synonyms.fields.map((group, index) => (
+                <div key={group.id} className="grid sm:grid-cols-[12rem_1fr_auto] gap-2 items-start">
+                  <FormField
+                    control={form.control}
+                    name={`synonyms.${index}.term`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input placeholder="honey" disabled={isLoading} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`synonyms.${index}.synonyms`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <SynonymsInput
+                            value={field.value || []}
+                            onChange={field.onChange}
+                            onBlur={field.onBlur}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive"
+                    onClick={() => synonyms.remove(index)}
+                    aria-label="Remove synonym group"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {synonyms.fields.length === 0 && (
+                <p className="text-sm text-muted-foreground py-4 text-center border rounded-lg">
+                  No synonyms - searches only match the words in product names, descriptions and tags.
+                </p>
+              )}
+              {synonymsError && <p className="text-sm text-destructive">{synonymsError}</p>}
+            </div>
+
+            <FormDescription>
+              Partial words match synonyms while shoppers type, once they have entered three letters.
+            </FormDescription>
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => synonyms.append({ term: '', synonyms: [] })}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Synonyms
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() =>
+                    form.reset(
+                      { synonyms: DEFAULT_SEARCH_SETTINGS.synonyms },
+                      { keepDefaultValues: true }
+                    )
+                  }
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Load Defaults
+                </Button>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => form.reset()}
+                  disabled={!form.formState.isDirty}
+                >
+                  Discard
+                </Button>
+                <LoadingButton
+                  type="submit"
+                  loading={updateSearchSettings.isPending}
+                  loadingText="Saving..."
+                  disabled={!form.formState.isDirty}
+                >
+                  <Save className="mr-2 h-4 w-4" />
+                  Save Synonyms
+                </LoadingButton>
+              </div>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
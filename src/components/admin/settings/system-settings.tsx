@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState, type ChangeEvent } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,6 +9,16 @@ import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { LoadingButton } from '@/components/ui/loading-button';
 import {
   Select,
   SelectContent,
@@ -20,83 +30,206 @@ import {
   Save,
   RotateCcw,
   Store,
-  Mail,
   Bell,
   Shield,
   Database,
-  Globe,
+  Download,
+  Upload,
+  Loader2,
 } from 'lucide-react';
+import { useAdminSettings } from '@/hooks/use-admin-data';
+import {
+  useDownloadSettingsBackup,
+  useResetSettings,
+  useRestoreSettings,
+  useUpdateSettings,
+} from '@/hooks/use-admin-mutations';
+import { ApiError } from '@/lib/api-client';
+import { formatDateTime } from '@/lib/admin-utils';
+import {
+  SettingsBackupSchema,
+  SystemSettingsSchema,
+  type SettingsBackup,
+  type SystemSettingsInput,
+} from '@/lib/settings-schemas';
+import { DEFAULT_SYSTEM_SETTINGS, getSettingsBackupFilename } from '@/lib/settings-utils';
+import { toastService } from '@/lib/toast-service';
+import { DeliveryZonesSettings } from './delivery-zones-settings';
+import { SearchSynonymsSettings } from './search-synonyms-settings';
+
+type SettingsSection = keyof SystemSettingsInput;
+
+const MAINTENANCE_ROLES: Array<{
+  role: SystemSettingsInput['system']['maintenanceAllowedRoles'][number];
+  label: string;
+}> = [
+  { role: 'SELLER', label: 'Sellers' },
+  { role: 'USER', label: 'Signed-in customers' },
+];
+
+// <input type="datetime-local"> works in local time without a zone suffix
+function toDateTimeLocal(iso: string): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function fromDateTimeLocal(value: string): string {
+  return value ? new Date(value).toISOString() : '';
+}
 
-// Mock system settings
-const mockSettings = {
-  business: {
-    storeName: 'Hamsoya',
-    tagline: 'Pure Natural Products for Healthy Living',
-    description: 'Premium quality honey, dates, nuts, and organic products sourced directly from trusted farms.',
-    contactEmail: 'info@hamsoya.com',
-    supportEmail: 'support@hamsoya.com',
-    phone: '+880 1234567890',
-    address: 'Dhaka, Bangladesh',
-    website: 'https://hamsoya.com',
-    logo: '/logo.png',
-    favicon: '/favicon.ico',
-  },
-  delivery: {
-    estimatedDays: 3,
-    freeShippingThreshold: 1000,
-    shippingCost: 100,
-    codAvailable: true,
-    deliveryAreas: ['Dhaka', 'Chittagong', 'Sylhet', 'Rajshahi', 'Khulna'],
-  },
-  notifications: {
-    emailNotifications: true,
-    orderNotifications: true,
-    stockAlerts: true,
-    customerRegistration: true,
-    lowStockThreshold: 10,
-  },
-  security: {
-    twoFactorAuth: false,
-    sessionTimeout: 30,
-    passwordExpiry: 90,
-    loginAttempts: 5,
-  },
-  system: {
-    maintenanceMode: false,
-    debugMode: false,
-    cacheEnabled: true,
-    backupFrequency: 'daily',
-    timezone: 'Asia/Dhaka',
-    language: 'en',
-  },
-};
+function FieldError({ errors, path }: { errors: Record<string, string>; path: string }) {
+  return errors[path] ? <p className="text-sm text-destructive mt-1">{errors[path]}</p> : null;
+}
 
 export function SystemSettings() {
-  const [settings, setSettings] = useState(mockSettings);
-  const [hasChanges, setHasChanges] = useState(false);
+  const { data: savedSettings, isLoading, isError, refetch } = useAdminSettings();
+  const updateSettings = useUpdateSettings();
+  const resetSettings = useResetSettings();
+  const downloadBackup = useDownloadSettingsBackup();
+  const restoreSettings = useRestoreSettings();
+
+  // Local edits on top of the saved settings, null while nothing has been changed
+  const [draft, setDraft] = useState<SystemSettingsInput | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [isResetDialogOpen, setIsResetDialogOpen] = useState(false);
+  const [pendingBackup, setPendingBackup] = useState<SettingsBackup | null>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+
+  const settings = draft ?? savedSettings ?? DEFAULT_SYSTEM_SETTINGS;
+  const hasChanges = draft !== null && JSON.stringify(draft) !== JSON.stringify(savedSettings);
 
   const handleSave = () => {
-    // TODO: Implement save API call
-    console.log('Saving system settings:', settings);
-    setHasChanges(false);
+    const parsed = SystemSettingsSchema.safeParse(settings);
+
+    if (!parsed.success) {
+      setFieldErrors(
+        Object.fromEntries(parsed.error.issues.map(issue => [issue.path.join('.'), issue.message]))
+      );
+      toastService.error(parsed.error.issues[0]?.message || 'Please fix the highlighted settings');
+      return;
+    }
+
+    setFieldErrors({});
+    // The saved settings update immediately - if the save fails they roll back and the edits return
+    setDraft(null);
+    updateSettings.mutate(parsed.data, {
+      onError: error => {
+        setDraft(parsed.data);
+        if (error instanceof ApiError && error.fieldErrors) {
+          setFieldErrors(error.fieldErrors);
+        }
+      },
+    });
   };
 
   const handleReset = () => {
-    setSettings(mockSettings);
-    setHasChanges(false);
+    setDraft(null);
+    setFieldErrors({});
   };
 
-  const updateSetting = (section: string, field: string, value: any) => {
-    setSettings(prev => ({
-      ...prev,
-      [section]: {
-        ...prev[section as keyof typeof prev],
-        [field]: value,
-      },
-    }));
-    setHasChanges(true);
+  const handleResetToDefaults = async () => {
+    try {
+      await resetSettings.mutateAsync();
+      setDraft(null);
+      setFieldErrors({});
+      setIsResetDialogOpen(false);
+    } catch {
+      // Error toast is shown by the mutation
+    }
   };
 
+  const handleDownloadBackup = async () => {
+    try {
+      const backup = await downloadBackup.mutateAsync();
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getSettingsBackupFilename(backup.exported_at);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  };
+
+  const handleBackupFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+
+    if (!file) return;
+
+    try {
+      const parsed = SettingsBackupSchema.safeParse(JSON.parse(await file.text()));
+
+      if (!parsed.success) {
+        toastService.error('This file is not a valid settings backup');
+        return;
+      }
+
+      setPendingBackup(parsed.data);
+    } catch {
+      toastService.error('Could not read the backup file');
+    }
+  };
+
+  const handleRestoreBackup = async () => {
+    if (!pendingBackup) return;
+
+    try {
+      await restoreSettings.mutateAsync(pendingBackup);
+      setDraft(null);
+      setFieldErrors({});
+      setPendingBackup(null);
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  };
+
+  const updateSetting = <S extends SettingsSection, F extends keyof SystemSettingsInput[S]>(
+    section: S,
+    field: F,
+    value: SystemSettingsInput[S][F]
+  ) => {
+    setDraft(prev => {
+      const current = prev ?? settings;
+      return {
+        ...current,
+        [section]: {
+          ...current[section],
+          [field]: value,
+        },
+      };
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center gap-2 py-12 text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Loading settings...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // No form without the stored settings - saving defaults would overwrite them
+  if (isError || !savedSettings) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <p className="text-muted-foreground mb-4">We couldn&apos;t load the settings.</p>
+          <Button variant="outline" onClick={() => refetch()}>
+            Try Again
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* Action Bar */}
@@ -109,8 +242,33 @@ export function SystemSettings() {
                   Unsaved Changes
                 </Badge>
               )}
+              {updateSettings.isPending && (
+                <Badge variant="secondary">Saving...</Badge>
+              )}
             </div>
             <div className="flex items-center gap-2">
+              <LoadingButton
+                variant="outline"
+                onClick={handleDownloadBackup}
+                loading={downloadBackup.isPending}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Backup
+              </LoadingButton>
+              <Button variant="outline" onClick={() => backupInputRef.current?.click()}>
+                <Upload className="mr-2 h-4 w-4" />
+                Restore
+              </Button>
+              <input
+                ref={backupInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleBackupFile}
+              />
+              <Button variant="outline" onClick={() => setIsResetDialogOpen(true)}>
+                Defaults
+              </Button>
               <Button variant="outline" onClick={handleReset} disabled={!hasChanges}>
                 <RotateCcw className="mr-2 h-4 w-4" />
                 Reset
@@ -126,9 +284,10 @@ export function SystemSettings() {
 
       {/* Settings Tabs */}
       <Tabs defaultValue="business" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="business">Business</TabsTrigger>
           <TabsTrigger value="delivery">Delivery</TabsTrigger>
+          <TabsTrigger value="search">Search</TabsTrigger>
           <TabsTrigger value="notifications">Notifications</TabsTrigger>
           <TabsTrigger value="security">Security</TabsTrigger>
           <TabsTrigger value="system">System</TabsTrigger>
@@ -152,6 +311,7 @@ export function SystemSettings() {
                     value={settings.business.storeName}
                     onChange={(e) => updateSetting('business', 'storeName', e.target.value)}
                   />
+                  <FieldError errors={fieldErrors} path="business.storeName" />
                 </div>
                 <div>
                   <Label htmlFor="tagline">Tagline</Label>
@@ -160,6 +320,7 @@ export function SystemSettings() {
                     value={settings.business.tagline}
                     onChange={(e) => updateSetting('business', 'tagline', e.target.value)}
                   />
+                  <FieldError errors={fieldErrors} path="business.tagline" />
                 </div>
               </div>
               <div>
@@ -170,6 +331,7 @@ export function SystemSettings() {
                   onChange={(e) => updateSetting('business', 'description', e.target.value)}
                   rows={3}
                 />
+                <FieldError errors={fieldErrors} path="business.description" />
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -180,6 +342,7 @@ export function SystemSettings() {
                     value={settings.business.contactEmail}
                     onChange={(e) => updateSetting('business', 'contactEmail', e.target.value)}
                   />
+                  <FieldError errors={fieldErrors} path="business.contactEmail" />
                 </div>
                 <div>
                   <Label htmlFor="support-email">Support Email</Label>
@@ -189,6 +352,7 @@ export function SystemSettings() {
                     value={settings.business.supportEmail}
                     onChange={(e) => updateSetting('business', 'supportEmail', e.target.value)}
                   />
+                  <FieldError errors={fieldErrors} path="business.supportEmail" />
                 </div>
               </div>
               <div className="grid grid-cols-2 gap-4">
@@ -199,6 +363,7 @@ export function SystemSettings() {
                     value={settings.business.phone}
                     onChange={(e) => updateSetting('business', 'phone', e.target.value)}
                   />
+                  <FieldError errors={fieldErrors} path="business.phone" />
                 </div>
                 <div>
                   <Label htmlFor="website">Website URL</Label>
@@ -207,6 +372,7 @@ export function SystemSettings() {
                     value={settings.business.website}
                     onChange={(e) => updateSetting('business', 'website', e.target.value)}
                   />
+                  <FieldError errors={fieldErrors} path="business.website" />
                 </div>
               </div>
               <div>
@@ -217,57 +383,20 @@ export function SystemSettings() {
                   onChange={(e) => updateSetting('business', 'address', e.target.value)}
                   rows={2}
                 />
+                <FieldError errors={fieldErrors} path="business.address" />
               </div>
             </CardContent>
           </Card>
         </TabsContent>
 
-        {/* Delivery Settings */}
+        {/* Delivery Zones - saved separately, checkout quotes from them */}
         <TabsContent value="delivery">
-          <Card>
-            <CardHeader>
-              <CardTitle>Delivery Settings</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-3 gap-4">
-                <div>
-                  <Label htmlFor="estimated-days">Estimated Delivery (Days)</Label>
-                  <Input
-                    id="estimated-days"
-                    type="number"
-                    value={settings.delivery.estimatedDays}
-                    onChange={(e) => updateSetting('delivery', 'estimatedDays', parseInt(e.target.value))}
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="shipping-cost">Shipping Cost (৳)</Label>
-                  <Input
-                    id="shipping-cost"
-                    type="number"
-                    value={settings.delivery.shippingCost}
-                    onChange={(e) => updateSetting('delivery', 'shippingCost', parseInt(e.target.value))}
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="free-shipping">Free Shipping Threshold (৳)</Label>
-                  <Input
-                    id="free-shipping"
-                    type="number"
-                    value={settings.delivery.freeShippingThreshold}
-                    onChange={(e) => updateSetting('delivery', 'freeShippingThreshold', parseInt(e.target.value))}
-                  />
-                </div>
-              </div>
-              <div className="flex items-center space-x-2">
-                <Switch
-                  id="cod-available"
-                  checked={settings.delivery.codAvailable}
-                  onCheckedChange={(checked) => updateSetting('delivery', 'codAvailable', checked)}
-                />
-                <Label htmlFor="cod-available">Cash on Delivery Available</Label>
-              </div>
-            </CardContent>
-          </Card>
+          <DeliveryZonesSettings />
+        </TabsContent>
+
+        {/* Search Synonyms - saved separately, product search expands queries with them */}
+        <TabsContent value="search">
+          <SearchSynonymsSettings />
         </TabsContent>
 
         {/* Notification Settings */}
@@ -328,9 +457,10 @@ export function SystemSettings() {
                   id="low-stock-threshold"
                   type="number"
                   value={settings.notifications.lowStockThreshold}
-                  onChange={(e) => updateSetting('notifications', 'lowStockThreshold', parseInt(e.target.value))}
+                  onChange={(e) => updateSetting('notifications', 'lowStockThreshold', Number(e.target.value))}
                   className="w-32"
                 />
+                <FieldError errors={fieldErrors} path="notifications.lowStockThreshold" />
               </div>
             </CardContent>
           </Card>
@@ -345,9 +475,48 @@ export function SystemSettings() {
                 Security Settings
               </CardTitle>
             </CardHeader>
-            <CardContent>
-              <div className="text-center text-muted-foreground py-8">
-                Security settings will be implemented here
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>Two-Factor Authentication</Label>
+                  <p className="text-sm text-muted-foreground">Require a second factor for admin sign-in</p>
+                </div>
+                <Switch
+                  checked={settings.security.twoFactorAuth}
+                  onCheckedChange={(checked) => updateSetting('security', 'twoFactorAuth', checked)}
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="session-timeout">Session Timeout (Minutes)</Label>
+                  <Input
+                    id="session-timeout"
+                    type="number"
+                    value={settings.security.sessionTimeout}
+                    onChange={(e) => updateSetting('security', 'sessionTimeout', Number(e.target.value))}
+                  />
+                  <FieldError errors={fieldErrors} path="security.sessionTimeout" />
+                </div>
+                <div>
+                  <Label htmlFor="password-expiry">Password Expiry (Days)</Label>
+                  <Input
+                    id="password-expiry"
+                    type="number"
+                    value={settings.security.passwordExpiry}
+                    onChange={(e) => updateSetting('security', 'passwordExpiry', Number(e.target.value))}
+                  />
+                  <FieldError errors={fieldErrors} path="security.passwordExpiry" />
+                </div>
+                <div>
+                  <Label htmlFor="login-attempts">Max Login Attempts</Label>
+                  <Input
+                    id="login-attempts"
+                    type="number"
+                    value={settings.security.loginAttempts}
+                    onChange={(e) => updateSetting('security', 'loginAttempts', Number(e.target.value))}
+                  />
+                  <FieldError errors={fieldErrors} path="security.loginAttempts" />
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -362,14 +531,220 @@ export function SystemSettings() {
                 System Settings
               </CardTitle>
             </CardHeader>
-            <CardContent>
-              <div className="text-center text-muted-foreground py-8">
-                System settings will be implemented here
+            <CardContent className="space-y-4">
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label>Maintenance Mode</Label>
+                    <p className="text-sm text-muted-foreground">Temporarily close the storefront to customers</p>
+                  </div>
+                  <Switch
+                    checked={settings.system.maintenanceMode}
+                    onCheckedChange={(checked) => updateSetting('system', 'maintenanceMode', checked)}
+                  />
+                </div>
+                {settings.system.maintenanceMode && (
+                  <div className="space-y-4 rounded-lg border p-4">
+                    <div>
+                      <Label htmlFor="maintenance-message">Maintenance Message</Label>
+                      <Textarea
+                        id="maintenance-message"
+                        value={settings.system.maintenanceMessage}
+                        onChange={(e) => updateSetting('system', 'maintenanceMessage', e.target.value)}
+                        placeholder="We're making some improvements and will be back shortly."
+                        rows={2}
+                      />
+                      <FieldError errors={fieldErrors} path="system.maintenanceMessage" />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="maintenance-starts">Starts</Label>
+                        <Input
+                          id="maintenance-starts"
+                          type="datetime-local"
+                          value={toDateTimeLocal(settings.system.maintenanceStartsAt)}
+                          onChange={(e) => updateSetting('system', 'maintenanceStartsAt', fromDateTimeLocal(e.target.value))}
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">Leave empty to start as soon as you save</p>
+                        <FieldError errors={fieldErrors} path="system.maintenanceStartsAt" />
+                      </div>
+                      <div>
+                        <Label htmlFor="maintenance-ends">Ends</Label>
+                        <Input
+                          id="maintenance-ends"
+                          type="datetime-local"
+                          value={toDateTimeLocal(settings.system.maintenanceEndsAt)}
+                          onChange={(e) => updateSetting('system', 'maintenanceEndsAt', fromDateTimeLocal(e.target.value))}
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">Leave empty to stay closed until switched off</p>
+                        <FieldError errors={fieldErrors} path="system.maintenanceEndsAt" />
+                      </div>
+                    </div>
+                    <div>
+                      <Label htmlFor="maintenance-ips">Allowed IP Addresses</Label>
+                      <Input
+                        id="maintenance-ips"
+                        value={settings.system.maintenanceAllowedIps.join(', ')}
+                        onChange={(e) =>
+                          updateSetting(
+                            'system',
+                            'maintenanceAllowedIps',
+                            e.target.value.split(',').map(ip => ip.trim()).filter(Boolean)
+                          )
+                        }
+                        placeholder="203.0.113.10, 198.51.100.7"
+                      />
+                      <FieldError errors={fieldErrors} path="system.maintenanceAllowedIps" />
+                    </div>
+                    <div>
+                      <Label>Also Allow</Label>
+                      <p className="text-xs text-muted-foreground">Admins can always browse the storefront</p>
+                      <div className="flex gap-6 mt-2">
+                        {MAINTENANCE_ROLES.map(({ role, label }) => (
+                          <label key={role} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={settings.system.maintenanceAllowedRoles.includes(role)}
+                              onCheckedChange={(checked) =>
+                                updateSetting(
+                                  'system',
+                                  'maintenanceAllowedRoles',
+                                  checked
+                                    ? [...settings.system.maintenanceAllowedRoles, role]
+                                    : settings.system.maintenanceAllowedRoles.filter(item => item !== role)
+                                )
+                              }
+                            />
+                            {label}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label>Debug Mode</Label>
+                    <p className="text-sm text-muted-foreground">Log detailed errors for troubleshooting</p>
+                  </div>
+                  <Switch
+                    checked={settings.system.debugMode}
+                    onCheckedChange={(checked) => updateSetting('system', 'debugMode', checked)}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label>Caching</Label>
+                    <p className="text-sm text-muted-foreground">Cache catalog and content responses</p>
+                  </div>
+                  <Switch
+                    checked={settings.system.cacheEnabled}
+                    onCheckedChange={(checked) => updateSetting('system', 'cacheEnabled', checked)}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label>Backup Frequency</Label>
+                  <Select
+                    value={settings.system.backupFrequency}
+                    onValueChange={(value) =>
+                      updateSetting('system', 'backupFrequency', value as SystemSettingsInput['system']['backupFrequency'])
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="hourly">Hourly</SelectItem>
+                      <SelectItem value="daily">Daily</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                      <SelectItem value="monthly">Monthly</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="timezone">Timezone</Label>
+                  <Input
+                    id="timezone"
+                    value={settings.system.timezone}
+                    onChange={(e) => updateSetting('system', 'timezone', e.target.value)}
+                  />
+                  <FieldError errors={fieldErrors} path="system.timezone" />
+                </div>
+                <div>
+                  <Label>Default Language</Label>
+                  <Select
+                    value={settings.system.language}
+                    onValueChange={(value) => updateSetting('system', 'language', value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="en">English</SelectItem>
+                      <SelectItem value="bn">বাংলা</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
             </CardContent>
           </Card>
         </TabsContent>
       </Tabs>
+
+      {/* Reset to Defaults Dialog */}
+      <Dialog open={isResetDialogOpen} onOpenChange={setIsResetDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset to Defaults</DialogTitle>
+            <DialogDescription>
+              Replace all system settings with their defaults? Delivery zones are not affected.
+              Download a backup first if you may want them back.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsResetDialogOpen(false)}>
+              Cancel
+            </Button>
+            <LoadingButton
+              variant="destructive"
+              onClick={handleResetToDefaults}
+              loading={resetSettings.isPending}
+              loadingText="Resetting..."
+            >
+              Reset Settings
+            </LoadingButton>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Restore Backup Dialog */}
+      <Dialog open={!!pendingBackup} onOpenChange={(open) => !open && setPendingBackup(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Restore Backup</DialogTitle>
+            <DialogDescription>
+              Restore the settings backup from{' '}
+              {pendingBackup ? formatDateTime(pendingBackup.exported_at) : ''}? This replaces the
+              current system settings
+              {pendingBackup?.delivery ? ', delivery zones' : ''}
+              {pendingBackup?.search ? ', search synonyms' : ''}.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingBackup(null)}>
+              Cancel
+            </Button>
+            <LoadingButton
+              onClick={handleRestoreBackup}
+              loading={restoreSettings.isPending}
+              loadingText="Restoring..."
+            >
+              Restore
+            </LoadingButton>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,6 +1,7 @@
 'use client';
 
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
 import {
   Select,
@@ -30,6 +31,10 @@ interface DataTableProps<T> {
   className?: string;
   emptyMessage?: string;
   keyField?: keyof T | string;
+  // Row selection - selected rows are tracked by their row key
+  selectable?: boolean;
+  selectedKeys?: string[];
+  onSelectionChange?: (keys: string[]) => void;
 }
 
 export function DataTable<T extends Record<string, any>>({
@@ -41,6 +46,9 @@ export function DataTable<T extends Record<string, any>>({
   className,
   emptyMessage = 'No data available',
   keyField,
+  selectable = false,
+  selectedKeys = [],
+  onSelectionChange,
 }: DataTableProps<T>) {
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
@@ -86,6 +94,21 @@ export function DataTable<T extends Record<string, any>>({
     return `row-${index}`;
   };
 
+  const pageKeys = paginatedData.map((item, index) => getRowKey(item, startIndex + index));
+  const selectedOnPage = pageKeys.filter((key) => selectedKeys.includes(key));
+  const allPageSelected = pageKeys.length > 0 && selectedOnPage.length === pageKeys.length;
+
+  const toggleRow = (key: string, checked: boolean) => {
+    onSelectionChange?.(
+      checked ? [...selectedKeys, key] : selectedKeys.filter((selected) => selected !== key)
+    );
+  };
+
+  const togglePage = (checked: boolean) => {
+    const otherKeys = selectedKeys.filter((key) => !pageKeys.includes(key));
+    onSelectionChange?.(checked ? [...otherKeys, ...pageKeys] : otherKeys);
+  };
+
   const handleSort = (key: string) => {
     setSortConfig((current) => {
       if (current?.key === key) {
@@ -121,6 +144,17 @@ export function DataTable<T extends Record<string, any>>({
           <table className="w-full min-w-[600px]">
             <thead>
               <tr className="border-b bg-muted/50">
+                {selectable && (
+                  <th className="h-12 w-10 px-3 sm:px-4 align-middle">
+                    <Checkbox
+                      checked={
+                        allPageSelected ? true : selectedOnPage.length > 0 ? 'indeterminate' : false
+                      }
+                      onCheckedChange={(checked) => togglePage(checked === true)}
+                      aria-label="Select all rows on this page"
+                    />
+                  </th>
+                )}
                 {columns.map((column) => (
                   <th
                     key={String(column.key)}
@@ -149,7 +183,7 @@ export function DataTable<T extends Record<string, any>>({
               {paginatedData.length === 0 ? (
                 <tr>
                   <td
-                    colSpan={columns.length}
+                    colSpan={columns.length + (selectable ? 1 : 0)}
                     className="h-24 text-center text-muted-foreground text-sm"
                   >
                     {emptyMessage}
@@ -158,9 +192,21 @@ export function DataTable<T extends Record<string, any>>({
               ) : (
                 paginatedData.map((item, index) => (
                   <tr
-                    key={getRowKey(item, index)}
-                    className="border-b transition-colors hover:bg-muted/50"
+                    key={pageKeys[index]}
+                    className={cn(
+                      'border-b transition-colors hover:bg-muted/50',
+                      selectable && selectedKeys.includes(pageKeys[index]) && 'bg-muted/30'
+                    )}
                   >
+                    {selectable && (
+                      <td className="w-10 p-3 sm:p-4 align-middle">
+                        <Checkbox
+                          checked={selectedKeys.includes(pageKeys[index])}
+                          onCheckedChange={(checked) => toggleRow(pageKeys[index], checked === true)}
+                          aria-label="Select row"
+                        />
+                      </td>
+                    )}
                     {columns.map((column) => (
                       <td
                         key={String(column.key)}
@@ -0,0 +1,77 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useAdminProducts } from '@/hooks/use-admin-data';
+import { DEFAULT_LOW_STOCK_THRESHOLD, getAvailableStock, isLowStock } from '@/lib/inventory-utils';
+import type { AdminProduct } from '@/types/admin';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import Link from 'next/link';
+
+interface LowStockAlertsProps {
+  title?: string;
+  maxItems?: number;
+}
+
+export function LowStockAlerts({ title = 'Low Stock Alerts', maxItems = 5 }: LowStockAlertsProps) {
+  const { data: productsResponse, isLoading } = useAdminProducts({
+    low_stock: true,
+    limit: maxItems,
+    sortBy: 'stock_quantity',
+    sortOrder: 'asc',
+  });
+
+  // Re-check against reserved stock, which the backend filter doesn't account for
+  const products = ((productsResponse as { data?: AdminProduct[] })?.data || []).filter(isLowStock);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-yellow-500" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-10 bg-muted rounded animate-pulse" />
+            ))}
+          </div>
+        ) : products.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle className="h-4 w-4 text-green-500" />
+            All products are above their low-stock threshold.
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {products.map((product) => {
+              const available = getAvailableStock(product);
+
+              return (
+                <li key={product.id} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <Link
+                      href={`/admin/products/${product.id}`}
+                      className="text-sm font-medium truncate hover:underline"
+                    >
+                      {product.name}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">
+                      Alert at {product.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD}
+                      {product.reserved_quantity ? ` · ${product.reserved_quantity} reserved` : ''}
+                    </p>
+                  </div>
+                  <Badge variant={available === 0 ? 'destructive' : 'outline'}>
+                    {available === 0 ? 'Out of stock' : `${available} left`}
+                  </Badge>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Label } from '@/components/ui/label';
+import { useEnhancedOTP } from '@/hooks/use-enhanced-otp';
+import { EnhancedOTPError } from '@/lib/api-enhanced';
+import {
+  PhoneOtpRequestSchema,
+  type PhoneOtpPurpose,
+  type PhoneOtpRequestData,
+  type PhoneOtpRequestInput,
+} from '@/lib/phone-auth-schemas';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ArrowLeft, Loader, Lock, Phone, RefreshCw, User } from 'lucide-react';
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+
+// Errors that belong next to the phone number rather than in a toast alone
+const PHONE_FIELD_ERRORS = ['PHONE_NOT_REGISTERED', 'PHONE_ALREADY_REGISTERED', 'VALIDATION_ERROR'];
+
+interface PhoneOTPLoginFormProps {
+  purpose: PhoneOtpPurpose;
+  redirectTo?: string;
+}
+
+/**
+ * Passwordless sign-in (or sign-up) by mobile number: request a code, then
+ * enter the 6 digits from the SMS. Cooldown, lockout and retry handling come
+ * from useEnhancedOTP, shared with the email OTP flow
+ */
+export function PhoneOTPLoginForm({ purpose, redirectTo }: PhoneOTPLoginFormProps) {
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [otp, setOtp] = useState('');
+  const [otpError, setOtpError] = useState<string | null>(null);
+
+  const form = useForm<PhoneOtpRequestInput, unknown, PhoneOtpRequestData>({
+    resolver: zodResolver(PhoneOtpRequestSchema),
+    defaultValues: {
+      phone_number: '',
+      purpose,
+      name: '',
+    },
+    mode: 'onChange', // Real-time validation
+  });
+
+  const name = form.watch('name');
+
+  const {
+    sendOTP,
+    verifyOTP,
+    resendOTP,
+    isSending,
+    isVerifying,
+    isResending,
+    cooldownRemaining,
+    lockStatus,
+  } = useEnhancedOTP(phoneNumber || undefined, {
+    channel: 'phone',
+    purpose,
+    name: purpose === 'register' ? name : undefined,
+    redirectTo,
+  });
+
+  const lockMinutes = Math.ceil(lockStatus.remainingTime / 60000);
+
+  const onRequestCode = async (data: PhoneOtpRequestData) => {
+    try {
+      await sendOTP(data.phone_number);
+      setPhoneNumber(data.phone_number);
+      setOtp('');
+      setOtpError(null);
+    } catch (error) {
+      // The hook has already shown a toast for the error
+      if (error instanceof EnhancedOTPError && error.errorCode && PHONE_FIELD_ERRORS.includes(error.errorCode)) {
+        form.setError('phone_number', { message: error.message });
+      }
+    }
+  };
+
+  const handleVerify = async (code: string) => {
+    if (code.length !== 6 || isVerifying) return;
+
+    setOtpError(null);
+
+    try {
+      const result = await verifyOTP(phoneNumber, code);
+      // Full navigation so the server renders with the new session cookies
+      window.location.assign(result?.redirectUrl || redirectTo || '/');
+    } catch (error) {
+      setOtp('');
+      if (error instanceof EnhancedOTPError) {
+        setOtpError(
+          error.remainingAttempts !== undefined
+            ? `${error.message} (${error.remainingAttempts} attempts remaining)`
+            : error.message
+        );
+      }
+    }
+  };
+
+  const handleResend = async () => {
+    if (cooldownRemaining > 0) return;
+
+    try {
+      await resendOTP(phoneNumber);
+      setOtp('');
+      setOtpError(null);
+    } catch {
+      // The hook has already shown a toast for the error
+    }
+  };
+
+  const handleChangeNumber = () => {
+    setPhoneNumber('');
+    setOtp('');
+    setOtpError(null);
+  };
+
+  if (!phoneNumber) {
+    return (
+      <form onSubmit={form.handleSubmit(onRequestCode)} className="space-y-6">
+        {purpose === 'register' && (
+          <div className="space-y-2">
+            <Label htmlFor={`${purpose}-phone-name`} className="text-sm font-medium text-foreground">
+              Full Name
+            </Label>
+            <div className="relative">
+              <User className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                id={`${purpose}-phone-name`}
+                type="text"
+                placeholder="Enter your full name"
+                className="pl-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
+                {...form.register('name')}
+              />
+            </div>
+            {form.formState.errors.name && (
+              <p className="text-sm text-red-500">{form.formState.errors.name.message}</p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor={`${purpose}-phone-number`} className="text-sm font-medium text-foreground">
+            Mobile Number
+          </Label>
+          <div className="relative">
+            <Phone className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              id={`${purpose}-phone-number`}
+              type="tel"
+              inputMode="tel"
+              autoComplete="tel"
+              placeholder="01XXXXXXXXX"
+              className="pl-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
+              {...form.register('phone_number')}
+            />
+          </div>
+          {form.formState.errors.phone_number ? (
+            <p className="text-sm text-red-500">{form.formState.errors.phone_number.message}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">We&apos;ll text you a 6-digit code</p>
+          )}
+        </div>
+
+        {lockStatus.isLocked && (
+          <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+            <Lock className="h-4 w-4 shrink-0" />
+            Too many incorrect attempts. Try again in {lockMinutes} minute{lockMinutes === 1 ? '' : 's'}.
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full h-11 text-base font-medium"
+          size="lg"
+          disabled={isSending || lockStatus.isLocked}
+        >
+          {isSending ? (
+            <>
+              <Loader className="mr-2 h-4 w-4 animate-spin" />
+              Sending Code...
+            </>
+          ) : (
+            'Send Code'
+          )}
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center space-y-1">
+        <p className="text-sm text-muted-foreground">Enter the 6-digit code we sent to</p>
+        <p className="font-medium text-foreground">{phoneNumber}</p>
+      </div>
+
+      <div className="flex justify-center">
+        <InputOTP
+          maxLength={6}
+          value={otp}
+          onChange={value => {
+            setOtp(value);
+            setOtpError(null); // Clear error when user types
+          }}
+          onComplete={handleVerify}
+          disabled={isVerifying || lockStatus.isLocked}
+          containerClassName="gap-2"
+        >
+          <InputOTPGroup className="gap-2">
+            {[0, 1, 2, 3, 4, 5].map(index => (
+              <InputOTPSlot
+                key={index}
+                index={index}
+                className={`w-11 h-11 text-lg font-bold border-2 rounded-xl ${
+                  otpError ? 'border-destructive' : 'border-border'
+                }`}
+              />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+
+      {otpError && <p className="text-sm text-center text-destructive">{otpError}</p>}
+
+      {lockStatus.isLocked && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+          <Lock className="h-4 w-4 shrink-0" />
+          Too many incorrect attempts. Try again in {lockMinutes} minute{lockMinutes === 1 ? '' : 's'}.
+        </div>
+      )}
+
+      <Button
+        type="button"
+        className="w-full h-11 text-base font-medium"
+        size="lg"
+        disabled={otp.length !== 6 || isVerifying || lockStatus.isLocked}
+        onClick={() => handleVerify(otp)}
+      >
+        {isVerifying ? (
+          <>
+            <Loader className="mr-2 h-4 w-4 animate-spin" />
+            Verifying...
+          </>
+        ) : purpose === 'register' ? (
+          'Create Account'
+        ) : (
+          'Sign In'
+        )}
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-8 px-2 text-muted-foreground"
+          onClick={handleChangeNumber}
+          disabled={isVerifying}
+        >
+          <ArrowLeft className="mr-1.5 h-3 w-3" />
+          Change number
+        </Button>
+
+        {cooldownRemaining > 0 ? (
+          <span className="text-muted-foreground">
+            Resend code in <span className="text-primary font-semibold">{cooldownRemaining}s</span>
+          </span>
+        ) : (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 px-2 text-primary hover:text-primary/80"
+            onClick={handleResend}
+            disabled={isResending || lockStatus.isLocked}
+          >
+            <RefreshCw className={`mr-1.5 h-3 w-3 ${isResending ? 'animate-spin' : ''}`} />
+            Resend Code
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import { toast } from 'sonner';
 import { z } from 'zod';
 import { useSearchParams } from 'next/navigation';
 import { GoogleOAuthButton, OAuthSeparator, OAuthErrorHandler, OAuthSuccessHandler } from './google-oauth-button';
+import { PhoneOTPLoginForm } from './phone-otp-login-form';
 
 // Form schemas - identical to login-client.tsx
 const LoginSchema = z.object({
@@ -45,6 +46,29 @@ const RegisterSchema = z
 type LoginFormData = z.infer<typeof LoginSchema>;
 type RegisterFormData = z.infer<typeof RegisterSchema>;
 
+type SignInMethod = 'email' | 'phone';
+
+// Switch between email + password and a one-time code texted to a mobile number
+function SignInMethodToggle({ value, onChange }: { value: SignInMethod; onChange: (method: SignInMethod) => void }) {
+  return (
+    <div className="grid grid-cols-2 gap-1 rounded-md bg-muted p-1 mb-6">
+      {(['email', 'phone'] as const).map(method => (
+        <Button
+          key={method}
+          type="button"
+          variant={value === method ? 'secondary' : 'ghost'}
+          size="sm"
+          className={value === method ? 'bg-background shadow-sm' : 'text-muted-foreground'}
+          onClick={() => onChange(method)}
+        >
+          {method === 'email' ? <Mail className="mr-2 h-4 w-4" /> : <Phone className="mr-2 h-4 w-4" />}
+          {method === 'email' ? 'Email' : 'Phone'}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
 interface ServerActionLoginFormProps {
   redirectTo?: string;
   error?: string;
@@ -52,6 +76,7 @@ interface ServerActionLoginFormProps {
 
 export function ServerActionLoginForm({ redirectTo, error }: ServerActionLoginFormProps) {
   const [activeTab, setActiveTab] = useState('login');
+  const [signInMethod, setSignInMethod] = useState<SignInMethod>('email');
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [profileImageUrl, setProfileImageUrl] = useState<string | undefined>(undefined);
@@ -205,87 +230,95 @@ export function ServerActionLoginForm({ redirectTo, error }: ServerActionLoginFo
                 <OAuthSeparator />
               </div> */}
 
-              <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-6">
-                <div className="space-y-2">
-                  <Label htmlFor="login-email" className="text-sm font-medium text-foreground">
-                    Email
-                  </Label>
-                  <div className="relative">
-                    <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      id="login-email"
-                      type="email"
-                      placeholder="Enter your email"
-                      className="pl-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
-                      {...loginForm.register('email')}
-                    />
-                  </div>
-                  {loginForm.formState.errors.email && (
-                    <p className="text-sm text-red-500">
-                      {loginForm.formState.errors.email.message}
-                    </p>
-                  )}
-                </div>
+              <SignInMethodToggle value={signInMethod} onChange={setSignInMethod} />
+
+              {signInMethod === 'phone' ? (
+                <PhoneOTPLoginForm purpose="login" redirectTo={redirectTo} />
+              ) : (
+                <>
+                  <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-6">
+                    <div className="space-y-2">
+                      <Label htmlFor="login-email" className="text-sm font-medium text-foreground">
+                        Email
+                      </Label>
+                      <div className="relative">
+                        <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                        <Input
+                          id="login-email"
+                          type="email"
+                          placeholder="Enter your email"
+                          className="pl-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
+                          {...loginForm.register('email')}
+                        />
+                      </div>
+                      {loginForm.formState.errors.email && (
+                        <p className="text-sm text-red-500">
+                          {loginForm.formState.errors.email.message}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="login-password" className="text-sm font-medium text-foreground">
+                        Password
+                      </Label>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                        <Input
+                          id="login-password"
+                          type={showPassword ? 'text' : 'password'}
+                          placeholder="Enter your password"
+                          className="pl-10 pr-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
+                          {...loginForm.register('password')}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="absolute right-0 top-0 h-full px-3 hover:bg-transparent text-muted-foreground hover:text-foreground transition-colors"
+                          onClick={() => setShowPassword(!showPassword)}
+                        >
+                          {showPassword ? (
+                            <EyeOff className="h-4 w-4" />
+                          ) : (
+                            <Eye className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </div>
+                      {loginForm.formState.errors.password && (
+                        <p className="text-sm text-red-500">
+                          {loginForm.formState.errors.password.message}
+                        </p>
+                      )}
+                    </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="login-password" className="text-sm font-medium text-foreground">
-                    Password
-                  </Label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      id="login-password"
-                      type={showPassword ? 'text' : 'password'}
-                      placeholder="Enter your password"
-                      className="pl-10 pr-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
-                      {...loginForm.register('password')}
-                    />
                     <Button
-                      type="button"
-                      variant="ghost"
-                      size="icon"
-                      className="absolute right-0 top-0 h-full px-3 hover:bg-transparent text-muted-foreground hover:text-foreground transition-colors"
-                      onClick={() => setShowPassword(!showPassword)}
+                      type="submit"
+                      className="w-full h-11 text-base font-medium"
+                      size="lg"
+                      disabled={isPending}
                     >
-                      {showPassword ? (
-                        <EyeOff className="h-4 w-4" />
+                      {isPending ? (
+                        <>
+                          <Loader className="mr-2 h-4 w-4 animate-spin" />
+                          Signing In...
+                        </>
                       ) : (
-                        <Eye className="h-4 w-4" />
+                        'Sign In'
                       )}
                     </Button>
-                  </div>
-                  {loginForm.formState.errors.password && (
-                    <p className="text-sm text-red-500">
-                      {loginForm.formState.errors.password.message}
-                    </p>
-                  )}
-                </div>
+                  </form>
 
-                <Button
-                  type="submit"
-                  className="w-full h-11 text-base font-medium"
-                  size="lg"
-                  disabled={isPending}
-                >
-                  {isPending ? (
-                    <>
-                      <Loader className="mr-2 h-4 w-4 animate-spin" />
-                      Signing In...
-                    </>
-                  ) : (
-                    'Sign In'
-                  )}
-                </Button>
-              </form>
-
-              <div className="mt-6 text-center">
-                <Link
-                  href="/forgot-password"
-                  className="text-sm text-primary hover:text-primary/80 transition-colors"
-                >
-                  Forgot your password?
-                </Link>
-              </div>
+                  <div className="mt-6 text-center">
+                    <Link
+                      href="/forgot-password"
+                      className="text-sm text-primary hover:text-primary/80 transition-colors"
+                    >
+                      Forgot your password?
+                    </Link>
+                  </div>
+                </>
+              )}
             </TabsContent>
 
             {/* Register Tab */}
@@ -303,177 +336,183 @@ export function ServerActionLoginForm({ redirectTo, error }: ServerActionLoginFo
                 <OAuthSeparator />
               </div> */}
 
-              <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-6">
-                <div className="space-y-2">
-                  <Label htmlFor="register-name" className="text-sm font-medium text-foreground">
-                    Full Name
-                  </Label>
-                  <div className="relative">
-                    <User className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      id="register-name"
-                      type="text"
-                      placeholder="Enter your full name"
-                      className="pl-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
-                      {...registerForm.register('name')}
-                    />
-                  </div>
-                  {registerForm.formState.errors.name && (
-                    <p className="text-sm text-red-500">
-                      {registerForm.formState.errors.name.message}
-                    </p>
-                  )}
-                </div>
+              <SignInMethodToggle value={signInMethod} onChange={setSignInMethod} />
 
-                <div className="space-y-2">
-                  <Label htmlFor="register-email" className="text-sm font-medium text-foreground">
-                    Email
-                  </Label>
-                  <div className="relative">
-                    <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      id="register-email"
-                      type="email"
-                      placeholder="Enter your email"
-                      className="pl-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
-                      {...registerForm.register('email')}
-                    />
+              {signInMethod === 'phone' ? (
+                <PhoneOTPLoginForm purpose="register" redirectTo={redirectTo} />
+              ) : (
+                <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="register-name" className="text-sm font-medium text-foreground">
+                      Full Name
+                    </Label>
+                    <div className="relative">
+                      <User className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        id="register-name"
+                        type="text"
+                        placeholder="Enter your full name"
+                        className="pl-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
+                        {...registerForm.register('name')}
+                      />
+                    </div>
+                    {registerForm.formState.errors.name && (
+                      <p className="text-sm text-red-500">
+                        {registerForm.formState.errors.name.message}
+                      </p>
+                    )}
                   </div>
-                  {registerForm.formState.errors.email && (
-                    <p className="text-sm text-red-500">
-                      {registerForm.formState.errors.email.message}
-                    </p>
-                  )}
-                </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="register-phone" className="text-sm font-medium text-foreground">
-                    Phone Number <span className="text-muted-foreground">(Optional)</span>
-                  </Label>
-                  <div className="relative">
-                    <Phone className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      id="register-phone"
-                      type="tel"
-                      placeholder="Enter your phone number"
-                      className="pl-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
-                      {...registerForm.register('phone_number')}
-                    />
+                  <div className="space-y-2">
+                    <Label htmlFor="register-email" className="text-sm font-medium text-foreground">
+                      Email
+                    </Label>
+                    <div className="relative">
+                      <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        id="register-email"
+                        type="email"
+                        placeholder="Enter your email"
+                        className="pl-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
+                        {...registerForm.register('email')}
+                      />
+                    </div>
+                    {registerForm.formState.errors.email && (
+                      <p className="text-sm text-red-500">
+                        {registerForm.formState.errors.email.message}
+                      </p>
+                    )}
                   </div>
-                </div>
 
-                {/* Profile Image Upload */}
-                <div className="space-y-3">
-                  <div className="text-center">
-                    <Label className="text-sm font-medium text-foreground">
-                      Profile Picture <span className="text-muted-foreground">(Optional)</span>
+                  <div className="space-y-2">
+                    <Label htmlFor="register-phone" className="text-sm font-medium text-foreground">
+                      Phone Number <span className="text-muted-foreground">(Optional)</span>
                     </Label>
+                    <div className="relative">
+                      <Phone className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        id="register-phone"
+                        type="tel"
+                        placeholder="Enter your phone number"
+                        className="pl-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
+                        {...registerForm.register('phone_number')}
+                      />
+                    </div>
                   </div>
-                  <div className="flex justify-center items-center py-4">
-                    <ProfileImageUpload
-                      currentImageUrl={profileImageUrl}
-                      currentFileId={profileImageFileId}
-                      onImageUpload={(url, fileId) => {
-                        setProfileImageUrl(url);
-                        setProfileImageFileId(fileId);
-                        registerForm.setValue('profile_image_url', url);
-                      }}
-                      onImageRemove={() => {
-                        setProfileImageUrl(undefined);
-                        setProfileImageFileId(undefined);
-                        registerForm.setValue('profile_image_url', '');
-                      }}
-                      size="lg"
-                      preserveOnUnmount={true}
-                      isFormSubmitting={isPending}
-                    />
+
+                  {/* Profile Image Upload */}
+                  <div className="space-y-3">
+                    <div className="text-center">
+                      <Label className="text-sm font-medium text-foreground">
+                        Profile Picture <span className="text-muted-foreground">(Optional)</span>
+                      </Label>
+                    </div>
+                    <div className="flex justify-center items-center py-4">
+                      <ProfileImageUpload
+                        currentImageUrl={profileImageUrl}
+                        currentFileId={profileImageFileId}
+                        onImageUpload={(url, fileId) => {
+                          setProfileImageUrl(url);
+                          setProfileImageFileId(fileId);
+                          registerForm.setValue('profile_image_url', url);
+                        }}
+                        onImageRemove={() => {
+                          setProfileImageUrl(undefined);
+                          setProfileImageFileId(undefined);
+                          registerForm.setValue('profile_image_url', '');
+                        }}
+                        size="lg"
+                        preserveOnUnmount={true}
+                        isFormSubmitting={isPending}
+                      />
+                    </div>
                   </div>
-                </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="register-password" className="text-sm font-medium text-foreground">
-                    Password
-                  </Label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      id="register-password"
-                      type={showPassword ? 'text' : 'password'}
-                      placeholder="Create a password"
-                      className="pl-10 pr-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
-                      {...registerForm.register('password')}
-                    />
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="icon"
-                      className="absolute right-0 top-0 h-full px-3 hover:bg-transparent text-muted-foreground hover:text-foreground transition-colors"
-                      onClick={() => setShowPassword(!showPassword)}
-                    >
-                      {showPassword ? (
-                        <EyeOff className="h-4 w-4" />
-                      ) : (
-                        <Eye className="h-4 w-4" />
-                      )}
-                    </Button>
+                  <div className="space-y-2">
+                    <Label htmlFor="register-password" className="text-sm font-medium text-foreground">
+                      Password
+                    </Label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        id="register-password"
+                        type={showPassword ? 'text' : 'password'}
+                        placeholder="Create a password"
+                        className="pl-10 pr-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
+                        {...registerForm.register('password')}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="absolute right-0 top-0 h-full px-3 hover:bg-transparent text-muted-foreground hover:text-foreground transition-colors"
+                        onClick={() => setShowPassword(!showPassword)}
+                      >
+                        {showPassword ? (
+                          <EyeOff className="h-4 w-4" />
+                        ) : (
+                          <Eye className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+                    {registerForm.formState.errors.password && (
+                      <p className="text-sm text-red-500">
+                        {registerForm.formState.errors.password.message}
+                      </p>
+                    )}
                   </div>
-                  {registerForm.formState.errors.password && (
-                    <p className="text-sm text-red-500">
-                      {registerForm.formState.errors.password.message}
-                    </p>
-                  )}
-                </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="register-confirm-password" className="text-sm font-medium text-foreground">
-                    Confirm Password
-                  </Label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      id="register-confirm-password"
-                      type={showConfirmPassword ? 'text' : 'password'}
-                      placeholder="Confirm your password"
-                      className="pl-10 pr-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
-                      {...registerForm.register('confirmPassword')}
-                    />
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="icon"
-                      className="absolute right-0 top-0 h-full px-3 hover:bg-transparent text-muted-foreground hover:text-foreground transition-colors"
-                      onClick={() => setShowConfirmPassword(!showConfirmPassword)}
-                    >
-                      {showConfirmPassword ? (
-                        <EyeOff className="h-4 w-4" />
-                      ) : (
-                        <Eye className="h-4 w-4" />
-                      )}
-                    </Button>
+                  <div className="space-y-2">
+                    <Label htmlFor="register-confirm-password" className="text-sm font-medium text-foreground">
+                      Confirm Password
+                    </Label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        id="register-confirm-password"
+                        type={showConfirmPassword ? 'text' : 'password'}
+                        placeholder="Confirm your password"
+                        className="pl-10 pr-10 h-11 transition-colors focus:ring-2 focus:ring-primary/20"
+                        {...registerForm.register('confirmPassword')}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="absolute right-0 top-0 h-full px-3 hover:bg-transparent text-muted-foreground hover:text-foreground transition-colors"
+                        onClick={() => setShowConfirmPassword(!showConfirmPassword)}
+                      >
+                        {showConfirmPassword ? (
+                          <EyeOff className="h-4 w-4" />
+                        ) : (
+                          <Eye className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+                    {registerForm.formState.errors.confirmPassword && (
+                      <p className="text-sm text-red-500">
+                        {registerForm.formState.errors.confirmPassword.message}
+                      </p>
+                    )}
                   </div>
-                  {registerForm.formState.errors.confirmPassword && (
-                    <p className="text-sm text-red-500">
-                      {registerForm.formState.errors.confirmPassword.message}
-                    </p>
-                  )}
-                </div>
 
-                <Button
-                  type="submit"
-                  className="w-full h-11 text-base font-medium"
-                  size="lg"
-                  disabled={isPending}
-                >
-                  {isPending ? (
-                    <>
-                      <Loader className="mr-2 h-4 w-4 animate-spin" />
-                      Creating Account...
-                    </>
-                  ) : (
-                    'Create Account'
-                  )}
-                </Button>
-              </form>
+                  <Button
+                    type="submit"
+                    className="w-full h-11 text-base font-medium"
+                    size="lg"
+                    disabled={isPending}
+                  >
+                    {isPending ? (
+                      <>
+                        <Loader className="mr-2 h-4 w-4 animate-spin" />
+                        Creating Account...
+                      </>
+                    ) : (
+                      'Create Account'
+                    )}
+                  </Button>
+                </form>
+              )}
 
               <div className="mt-6">
                 <Separator className="my-4" />
@@ -11,7 +11,13 @@ import {
 } from '@/components/ui/drawer';
 import { Price } from '@/components/ui/price';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { useDefaultAddress } from '@/hooks/use-addresses';
+import { useCartCoupon } from '@/hooks/use-cart-coupon';
+import { useShippingQuote } from '@/hooks/use-delivery';
 import { useMediaQuery } from '@/hooks/use-media-query';
+import { formatPreOrderAvailability } from '@/lib/preorder-utils';
+import { getCartItemKey, getCartItemPrice } from '@/lib/product-variants';
+import { formatDeliveryEstimate, getLowestDeliveryFee } from '@/lib/shipping-utils';
 import { cn } from '@/lib/utils';
 import { toastService } from '@/lib/toast-service';
 import { useCartStore } from '@/store';
@@ -21,6 +27,8 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState, useRef } from 'react';
 import { useIsAuthenticated } from '@/store/auth-store';
+import { CouponInput } from './coupon-input';
+import { FreeShippingProgress } from './free-shipping-progress';
 
 interface CartDrawerProps {
   initialCartCount?: number;
@@ -60,6 +68,16 @@ export function CartDrawer({ initialCartCount = 0 }: CartDrawerProps) {
   // This follows the same pattern as navbar user data to eliminate visual flashing
   const totalItems = isFullyHydrated ? getTotalItems() : initialCartCount;
   const totalPrice = isFullyHydrated ? getTotalPrice() : 0;
+  const { discount } = useCartCoupon();
+
+  // Quote delivery to the saved default address; checkout re-quotes for the entered city
+  const defaultAddress = useDefaultAddress();
+  const merchandiseTotal = Math.max(totalPrice - discount, 0);
+  const { settings: deliverySettings, quote: shippingQuote } = useShippingQuote({
+    city: defaultAddress?.city,
+    area: defaultAddress?.area,
+    subtotal: merchandiseTotal,
+  });
 
   // Handle cart open/close state changes
   const handleOpenChange = (open: boolean) => {
@@ -139,7 +157,7 @@ export function CartDrawer({ initialCartCount = 0 }: CartDrawerProps) {
               {isHydrated &&
                 items.map((item, index) => (
                   <div
-                    key={item.product.id}
+                    key={getCartItemKey(item.product.id, item.variant?.id)}
                     className={cn(
                       'flex gap-4 p-3 rounded-lg bg-card/50 border border-border/50 hover:bg-card/80 transition-all duration-200',
                       index !== items.length - 1 && 'mb-3'
@@ -161,12 +179,20 @@ export function CartDrawer({ initialCartCount = 0 }: CartDrawerProps) {
                         <h4 className="font-semibold text-sm leading-tight line-clamp-2">
                           {item.product.name}
                         </h4>
+                        {item.variant && (
+                          <p className="text-xs text-muted-foreground">{item.variant.name}</p>
+                        )}
+                        {item.product.preOrder && (
+                          <p className="text-xs text-primary">
+                            Pre-order · {formatPreOrderAvailability(item.product.preOrder)}
+                          </p>
+                        )}
                         <div className="flex items-center justify-between">
-                          <Price price={item.product.price} size="sm" />
+                          <Price price={getCartItemPrice(item)} size="sm" />
                           <span className="text-xs text-muted-foreground whitespace-nowrap">
                             Subtotal:{' '}
                             <Price
-                              price={item.product.price * item.quantity}
+                              price={getCartItemPrice(item) * item.quantity}
                               size="sm"
                               className="font-medium"
                             />
@@ -180,7 +206,9 @@ export function CartDrawer({ initialCartCount = 0 }: CartDrawerProps) {
                             variant="outline"
                             size="icon"
                             className="h-8 w-8 cursor-pointer transition-all duration-200 hover:bg-destructive/20 hover:border-destructive/40 hover:text-destructive"
-                            onClick={() => updateQuantity(item.product.id, item.quantity - 1)}
+                            onClick={() =>
+                              updateQuantity(item.product.id, item.quantity - 1, item.variant?.id)
+                            }
                           >
                             <Minus className="h-3 w-3" />
                           </Button>
@@ -193,7 +221,9 @@ export function CartDrawer({ initialCartCount = 0 }: CartDrawerProps) {
                             variant="outline"
                             size="icon"
                             className="h-8 w-8 cursor-pointer transition-all duration-200 hover:bg-primary/20 hover:border-primary/40 hover:text-primary"
-                            onClick={() => updateQuantity(item.product.id, item.quantity + 1)}
+                            onClick={() =>
+                              updateQuantity(item.product.id, item.quantity + 1, item.variant?.id)
+                            }
                           >
                             <Plus className="h-3 w-3" />
                           </Button>
@@ -203,7 +233,7 @@ export function CartDrawer({ initialCartCount = 0 }: CartDrawerProps) {
                           variant="ghost"
                           size="icon"
                           className="h-8 w-8 cursor-pointer text-destructive hover:text-destructive hover:bg-destructive/20 transition-all duration-200"
-                          onClick={() => removeItem(item.product.id)}
+                          onClick={() => removeItem(item.product.id, item.variant?.id)}
                         >
                           <Trash2 className="h-4 w-4" />
                         </Button>
@@ -218,6 +248,8 @@ export function CartDrawer({ initialCartCount = 0 }: CartDrawerProps) {
 
       {isHydrated && items.length > 0 && (
         <div className="border-t bg-background/50 backdrop-blur-sm p-4 space-y-4 transition-all duration-200">
+          <CouponInput />
+
           <div className="space-y-2">
             <div className="flex justify-between text-sm text-muted-foreground">
               <span className="transition-all duration-200">Items ({totalItems})</span>
@@ -225,14 +257,44 @@ export function CartDrawer({ initialCartCount = 0 }: CartDrawerProps) {
                 <Price price={totalPrice} size="sm" />
               </div>
             </div>
+            {discount > 0 && (
+              <div className="flex justify-between text-sm text-green-600">
+                <span>Discount</span>
+                <Price price={discount} currency="-৳" size="sm" />
+              </div>
+            )}
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>Delivery{shippingQuote ? ` (${shippingQuote.zone_name})` : ''}</span>
+              {shippingQuote ? (
+                shippingQuote.is_free ? (
+                  <span className="text-green-600 font-medium">Free</span>
+                ) : (
+                  <Price price={shippingQuote.fee} size="sm" />
+                )
+              ) : (
+                <span className="flex items-center gap-1">
+                  from <Price price={getLowestDeliveryFee(deliverySettings)} size="sm" />
+                </span>
+              )}
+            </div>
             <div className="flex justify-between text-lg font-bold">
               <span>Total:</span>
               <div className="transition-all duration-200">
-                <Price price={totalPrice} size="lg" className="text-primary" />
+                <Price
+                  price={merchandiseTotal + (shippingQuote?.fee ?? 0)}
+                  size="lg"
+                  className="text-primary"
+                />
               </div>
             </div>
           </div>
 
+          <FreeShippingProgress
+            settings={deliverySettings}
+            quote={shippingQuote}
+            subtotal={merchandiseTotal}
+          />
+
           <Button
             className="w-full cursor-pointer transition-all duration-200"
             size="lg"
@@ -250,7 +312,9 @@ export function CartDrawer({ initialCartCount = 0 }: CartDrawerProps) {
           </Button>
 
           <p className="text-xs text-center text-muted-foreground">
-            Cash on delivery available • Free shipping across Bangladesh
+            {shippingQuote
+              ? `${shippingQuote.cod_available ? 'Cash on delivery available' : 'Online payment only'} • Delivery in ${formatDeliveryEstimate(shippingQuote)}`
+              : 'Cash on delivery available • Delivery fee confirmed at checkout'}
           </p>
         </div>
       )}
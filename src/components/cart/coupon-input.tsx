@@ -0,0 +1,99 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCartCoupon } from '@/hooks/use-cart-coupon';
+import { cn } from '@/lib/utils';
+import { Loader, Tag, X } from 'lucide-react';
+import { useState, type FormEvent } from 'react';
+
+interface CouponInputProps {
+  className?: string;
+}
+
+export function CouponInput({ className }: CouponInputProps) {
+  const [code, setCode] = useState('');
+  const {
+    couponCode,
+    quote,
+    isChecking,
+    applyCoupon,
+    isApplying,
+    applyError,
+    resetApplyError,
+    removeCoupon,
+    canUseCoupons,
+  } = useCartCoupon();
+
+  const handleApply = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!code.trim()) return;
+
+    try {
+      await applyCoupon(code);
+      setCode('');
+    } catch {
+      // The message is shown inline from applyError
+    }
+  };
+
+  if (!canUseCoupons) {
+    return (
+      <p className={cn('text-xs text-muted-foreground', className)}>
+        Have a coupon? Log in to apply it at checkout.
+      </p>
+    );
+  }
+
+  if (couponCode) {
+    return (
+      <div
+        className={cn(
+          'flex items-center justify-between gap-2 rounded-md border border-dashed px-3 py-2 text-sm',
+          className
+        )}
+      >
+        <span className="flex items-center gap-2 min-w-0">
+          <Tag className="h-4 w-4 text-green-600 flex-shrink-0" />
+          <span className="font-mono font-medium">{couponCode}</span>
+          {quote?.description && (
+            <span className="text-muted-foreground truncate">{quote.description}</span>
+          )}
+          {isChecking && <Loader className="h-3 w-3 animate-spin text-muted-foreground" />}
+        </span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2"
+          onClick={removeCoupon}
+          aria-label="Remove coupon"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply} className={cn('space-y-1', className)}>
+      <div className="flex gap-2">
+        <Input
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value);
+            if (applyError) resetApplyError();
+          }}
+          placeholder="Coupon code"
+          className="font-mono uppercase"
+          aria-label="Coupon code"
+          autoComplete="off"
+        />
+        <Button type="submit" variant="outline" disabled={isApplying || !code.trim()}>
+          {isApplying ? 'Applying...' : 'Apply'}
+        </Button>
+      </div>
+      {applyError && <p className="text-xs text-destructive">{applyError}</p>}
+    </form>
+  );
+}
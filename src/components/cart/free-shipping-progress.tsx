@@ -0,0 +1,42 @@
+'use client';
+
+import { Progress } from '@/components/ui/progress';
+import { formatCurrency } from '@/lib/admin-utils';
+import { cn } from '@/lib/utils';
+import type { DeliverySettings, ShippingQuote } from '@/types/admin';
+import { Truck } from 'lucide-react';
+
+interface FreeShippingProgressProps {
+  settings: DeliverySettings;
+  quote?: ShippingQuote | null;
+  // Merchandise total after any coupon discount
+  subtotal: number;
+  className?: string;
+}
+
+export function FreeShippingProgress({ settings, quote, subtotal, className }: FreeShippingProgressProps) {
+  const threshold = quote ? quote.free_shipping_threshold : settings.free_shipping_threshold;
+
+  if (!threshold) {
+    return null;
+  }
+
+  const remaining = Math.max(threshold - subtotal, 0);
+
+  return (
+    <div className={cn('space-y-1.5', className)}>
+      <p className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Truck className="h-3.5 w-3.5" />
+        {remaining > 0 ? (
+          <span>
+            Add <span className="font-medium text-foreground">{formatCurrency(remaining)}</span> more
+            for free delivery
+          </span>
+        ) : (
+          <span className="text-green-600 font-medium">You&apos;ve unlocked free delivery</span>
+        )}
+      </p>
+      <Progress value={Math.min((subtotal / threshold) * 100, 100)} className="h-1.5" />
+    </div>
+  );
+}
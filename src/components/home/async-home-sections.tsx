@@ -13,6 +13,7 @@ import {
   PreOrderGuideSkeleton,
   ReviewsCarouselSkeleton,
 } from '@/components/ui/home-skeletons';
+import { fetchStorefrontCategories } from '@/lib/server-categories';
 
 /**
  * Async wrapper for HeroSection with Suspense boundary
@@ -28,13 +29,12 @@ async function AsyncHeroSection() {
 
 /**
  * Async wrapper for CategoryGrid with Suspense boundary
- * Simulates potential async data loading for categories
+ * Loads active categories in the order admins arranged them
  */
 async function AsyncCategoryGrid() {
-  // Simulate potential async operation (e.g., fetching categories from API)
-  await new Promise(resolve => setTimeout(resolve, 0));
-  
-  return <CategoryGrid />;
+  const categories = await fetchStorefrontCategories();
+
+  return <CategoryGrid categories={categories} />;
 }
 
 /**
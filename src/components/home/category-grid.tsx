@@ -1,10 +1,24 @@
 import { Badge } from '@/components/ui/badge';
 import { ViewTransitionLink } from '@/components/ui/view-transition-link';
-import { mockCategories } from '@/lib/mock-data';
+import type { Category } from '@/types';
 import { ArrowRight } from 'lucide-react';
 import Image from 'next/image';
 
-export function CategoryGrid() {
+interface CategoryGridProps {
+  // Active categories in admin-defined order; sub-categories are folded into their parent
+  categories: Category[];
+}
+
+export function CategoryGrid({ categories }: CategoryGridProps) {
+  const topLevel = categories
+    .filter(category => !category.parentId || !categories.some(parent => parent.id === category.parentId))
+    .map(category => ({
+      ...category,
+      productCount: categories
+        .filter(candidate => candidate.id === category.id || candidate.parentId === category.id)
+        .reduce((total, candidate) => total + candidate.productCount, 0),
+    }));
+
   return (
     <section className="py-16 bg-background">
       <div className="container mx-auto px-4">
@@ -17,12 +31,12 @@ export function CategoryGrid() {
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-          {mockCategories.map(category => (
-            <ViewTransitionLink key={category.id} href={`/products?category=${category.id}`} className="group">
+          {topLevel.map(category => (
+            <ViewTransitionLink key={category.id} href={`/products?category=${category.slug}`} className="group">
               <div className="overflow-hidden rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 group-hover:scale-105">
                 <div className="relative h-48 overflow-hidden rounded-xl">
                   <Image
-                    src={category.image}
+                    src={category.image || '/logo.png'}
                     alt={category.name}
                     fill
                     sizes="(max-width: 768px) 100vw, (max-width: 1024px) 50vw, 25vw"
@@ -10,7 +10,9 @@ import {
   OrganizationStructuredData,
   WebsiteStructuredData,
 } from '@/components/seo/structured-data';
+import { useCategories } from '@/hooks/use-products';
 import type { ServerStorageData } from '@/lib/server-storage';
+import type { Category } from '@/types';
 
 interface HomeClientProps {
   serverStorage?: ServerStorageData;
@@ -19,6 +21,8 @@ interface HomeClientProps {
 export function HomeClient({ serverStorage }: HomeClientProps) {
   // Suppress unused variable warnings - these may be used in future features
   void serverStorage;
+  const { data: categoriesData } = useCategories();
+  const categories = (categoriesData as { categories?: Category[] } | undefined)?.categories || [];
 
   return (
     <>
@@ -28,7 +32,7 @@ export function HomeClient({ serverStorage }: HomeClientProps) {
 
       <div className="min-h-screen">
         <HeroSection />
-        <CategoryGrid />
+        <CategoryGrid categories={categories} />
         <FeaturedProducts />
         <USPHighlights />
         <PreOrderGuide />
@@ -4,48 +4,17 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { mockReviews } from '@/lib/mock-data';
+import { ReviewsCarouselSkeleton } from '@/components/ui/home-skeletons';
+import { useFeaturedReviews } from '@/hooks/use-products';
 import { cn } from '@/lib/utils';
 import { ChevronLeft, ChevronRight, Quote, Star, Verified } from 'lucide-react';
 import { useEffect, useState } from 'react';
 
-// Extended mock reviews for carousel
-const extendedReviews = [
-  ...mockReviews,
-  {
-    id: '4',
-    productId: 'laccha-shemai',
-    userName: 'Nasir Ahmed',
-    rating: 5,
-    comment:
-      'The laccha shemai is absolutely perfect for making traditional desserts. My family loved it!',
-    createdAt: '2024-01-05',
-    verified: true,
-  },
-  {
-    id: '5',
-    productId: 'mustard-oil',
-    userName: 'Salma Khatun',
-    rating: 4,
-    comment: 'Great quality mustard oil with authentic taste. Perfect for Bengali cooking.',
-    createdAt: '2024-01-03',
-    verified: true,
-  },
-  {
-    id: '6',
-    productId: 'kalo-jira-flowers-honey',
-    userName: 'Dr. Rahman',
-    rating: 5,
-    comment:
-      'As a doctor, I can confirm this honey has excellent medicinal properties. Highly recommended!',
-    createdAt: '2024-01-01',
-    verified: true,
-  },
-];
-
 export function ReviewsCarousel() {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [itemsPerView, setItemsPerView] = useState(1);
+  // Approved reviews an admin featured from the Reviews page
+  const { data: reviews = [], isLoading } = useFeaturedReviews();
 
   useEffect(() => {
     const handleResize = () => {
@@ -65,19 +34,19 @@ export function ReviewsCarousel() {
 
   useEffect(() => {
     const timer = setInterval(() => {
-      setCurrentIndex(prev => (prev + 1) % Math.max(1, extendedReviews.length - itemsPerView + 1));
+      setCurrentIndex(prev => (prev + 1) % Math.max(1, reviews.length - itemsPerView + 1));
     }, 5000);
 
     return () => clearInterval(timer);
-  }, [itemsPerView]);
+  }, [itemsPerView, reviews.length]);
 
   const nextReview = () => {
-    setCurrentIndex(prev => (prev + 1) % Math.max(1, extendedReviews.length - itemsPerView + 1));
+    setCurrentIndex(prev => (prev + 1) % Math.max(1, reviews.length - itemsPerView + 1));
   };
 
   const prevReview = () => {
     setCurrentIndex(prev =>
-      prev === 0 ? Math.max(0, extendedReviews.length - itemsPerView) : prev - 1
+      prev === 0 ? Math.max(0, reviews.length - itemsPerView) : prev - 1
     );
   };
 
@@ -89,6 +58,15 @@ export function ReviewsCarousel() {
       .toUpperCase();
   };
 
+  if (isLoading) {
+    return <ReviewsCarouselSkeleton />;
+  }
+
+  // Hide the section until at least one review has been featured
+  if (reviews.length === 0) {
+    return null;
+  }
+
   return (
     <section className="py-16">
       <div className="container mx-auto px-4">
@@ -108,7 +86,7 @@ export function ReviewsCarousel() {
                 transform: `translateX(-${currentIndex * (100 / itemsPerView)}%)`,
               }}
             >
-              {extendedReviews.map(review => (
+              {reviews.map(review => (
                 <div
                   key={review.id}
                   className={cn(
@@ -199,7 +177,7 @@ export function ReviewsCarousel() {
 
         {/* Indicators */}
         <div className="flex justify-center mt-8 gap-2">
-          {Array.from({ length: Math.max(1, extendedReviews.length - itemsPerView + 1) }).map(
+          {Array.from({ length: Math.max(1, reviews.length - itemsPerView + 1) }).map(
             (_, index) => (
               <button
                 key={index}
@@ -1,6 +1,7 @@
 'use client';
 
 import { CartDrawer } from '@/components/cart/cart-drawer';
+import { SearchTypeahead } from '@/components/layout/search-typeahead';
 import { useUser, useIsAuthenticated } from '@/store/auth-store';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import type { User } from '@/types/auth';
@@ -14,7 +15,6 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Input } from '@/components/ui/input';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 import { useLogout } from '@/hooks/use-auth';
 import { BRAND_NAME, NAVIGATION_ITEMS } from '@/lib/constants';
@@ -26,7 +26,6 @@ import {
   LogOut,
   Menu,
   Moon,
-  Search,
   Settings,
   Shield,
   ShoppingBag,
@@ -54,7 +53,6 @@ export function Navbar({
   serverIsAuthenticated = false
 }: NavbarProps) {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
   const pathname = usePathname();
 
   // Enhanced admin navigation with prefetching
@@ -75,13 +73,10 @@ export function Navbar({
   // Use server-side count until client is hydrated, then use client-side count
   const bookmarkCount = bookmarksHydrated ? getBookmarkCount() : initialBookmarkCount;
 
-  const handleSearch = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      // Use server action for navigation
-      const { redirectToProducts } = await import('@/lib/server-navigation');
-      await redirectToProducts(searchQuery.trim());
-    }
+  const handleSearch = async (searchQuery: string) => {
+    // Use server action for navigation
+    const { redirectToProducts } = await import('@/lib/server-navigation');
+    await redirectToProducts(searchQuery);
   };
 
   const handleNavigateAdminDashboard = async () => {
@@ -131,21 +126,11 @@ export function Navbar({
           </nav>
 
           {/* Search Bar - Desktop */}
-          <form
-            onSubmit={handleSearch}
-            className="hidden md:flex items-center flex-1 max-w-md mx-8"
-          >
-            <div className="relative w-full">
-              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-              <Input
-                type="search"
-                placeholder="Search products..."
-                value={searchQuery}
-                onChange={e => setSearchQuery(e.target.value)}
-                className="pl-10 h-10 bg-muted/50 border-0 focus-visible:bg-background focus-visible:ring-2 focus-visible:ring-primary/20"
-              />
-            </div>
-          </form>
+          <SearchTypeahead
+            onSearch={handleSearch}
+            className="hidden md:block flex-1 max-w-md mx-8"
+            inputClassName="h-10 bg-muted/50 border-0 focus-visible:bg-background focus-visible:ring-2 focus-visible:ring-primary/20"
+          />
 
           {/* Actions */}
           <div className="flex items-center space-x-3">
@@ -335,18 +320,7 @@ export function Navbar({
                 </SheetHeader>
                 <div className="mt-6 space-y-6">
                   {/* Mobile Search */}
-                  <form onSubmit={handleSearch}>
-                    <div className="relative">
-                      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                      <Input
-                        type="search"
-                        placeholder="Search products..."
-                        value={searchQuery}
-                        onChange={e => setSearchQuery(e.target.value)}
-                        className="pl-10"
-                      />
-                    </div>
-                  </form>
+                  <SearchTypeahead onSearch={handleSearch} onNavigate={() => setIsMenuOpen(false)} />
 
                   {/* Mobile Navigation */}
                   <nav className="space-y-1">
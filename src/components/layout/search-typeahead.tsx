@@ -0,0 +1,286 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Price } from '@/components/ui/price';
+import { useViewTransitionRouter } from '@/components/ui/view-transition-link';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useProductSearch } from '@/hooks/use-products';
+import { PRODUCT_CATEGORIES } from '@/lib/constants';
+import { getProductPath } from '@/lib/product-utils';
+import { cn } from '@/lib/utils';
+import { useUser } from '@/store/auth-store';
+import { GUEST_SEARCH_KEY, useRecentSearchesStore } from '@/store/recent-searches-store';
+import type { Product } from '@/types';
+import { Clock, Loader2, Search, Tag, X } from 'lucide-react';
+import Image from 'next/image';
+import { useId, useMemo, useState } from 'react';
+
+// Suggestions start after this many characters
+const MIN_QUERY_LENGTH = 2;
+const PRODUCT_SUGGESTION_LIMIT = 5;
+const CATEGORY_SUGGESTION_LIMIT = 3;
+const SUGGESTION_DEBOUNCE_MS = 250;
+
+type Suggestion =
+  | { type: 'recent'; query: string }
+  | { type: 'product'; product: Product }
+  | { type: 'category'; value: string; label: string; count?: number };
+
+interface SearchTypeaheadProps {
+  // Runs a full search, e.g. by opening the products page
+  onSearch: (query: string) => void;
+  // Called after a search runs or a suggestion is picked, e.g. to close the mobile menu
+  onNavigate?: () => void;
+  className?: string;
+  inputClassName?: string;
+}
+
+function getCategoryLabel(value: string): string {
+  return PRODUCT_CATEGORIES.find(category => category.id === value)?.name || value;
+}
+
+export function SearchTypeahead({ onSearch, onNavigate, className, inputClassName }: SearchTypeaheadProps) {
+  const listboxId = useId();
+  const router = useViewTransitionRouter();
+  const user = useUser();
+  const userKey = user?.id || GUEST_SEARCH_KEY;
+  const recentSearches = useRecentSearchesStore(state => state.searches[userKey]);
+  const { addSearch, removeSearch, clearSearches } = useRecentSearchesStore();
+
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const debouncedQuery = useDebouncedValue(query.trim(), SUGGESTION_DEBOUNCE_MS);
+  const shouldSuggest = debouncedQuery.length >= MIN_QUERY_LENGTH;
+  const { data: results, isFetching } = useProductSearch(
+    shouldSuggest ? debouncedQuery : '',
+    PRODUCT_SUGGESTION_LIMIT
+  );
+
+  const suggestions = useMemo<Suggestion[]>(() => {
+    if (!shouldSuggest) {
+      return (recentSearches || []).map(recent => ({ type: 'recent', query: recent }));
+    }
+
+    const products: Suggestion[] = (results?.data || []).map(product => ({ type: 'product', product }));
+
+    // Categories whose name matches, then categories of the matching products
+    const lowerQuery = debouncedQuery.toLowerCase();
+    const facetCounts = new Map(results?.facets.categories.map(facet => [facet.value, facet.count]));
+    const categoryValues = new Set([
+      ...PRODUCT_CATEGORIES.filter(category => category.name.toLowerCase().includes(lowerQuery)).map(
+        category => category.id as string
+      ),
+      ...facetCounts.keys(),
+    ]);
+    const categories: Suggestion[] = Array.from(categoryValues)
+      .slice(0, CATEGORY_SUGGESTION_LIMIT)
+      .map(value => ({
+        type: 'category',
+        value,
+        label: getCategoryLabel(value),
+        count: facetCounts.get(value),
+      }));
+
+    return [...products, ...categories];
+  }, [debouncedQuery, recentSearches, results, shouldSuggest]);
+
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const runSearch = (searchQuery: string) => {
+    const trimmed = searchQuery.trim();
+    if (!trimmed) return;
+
+    addSearch(userKey, trimmed);
+    setQuery(trimmed);
+    close();
+    onSearch(trimmed);
+    onNavigate?.();
+  };
+
+  const selectSuggestion = (suggestion: Suggestion) => {
+    switch (suggestion.type) {
+      case 'recent':
+        runSearch(suggestion.query);
+        return;
+      case 'product':
+        addSearch(userKey, query);
+        router.push(getProductPath(suggestion.product));
+        break;
+      case 'category':
+        router.push(`/products?category=${encodeURIComponent(suggestion.value)}`);
+        break;
+    }
+
+    close();
+    onNavigate?.();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!isOpen) {
+        setIsOpen(true);
+        return;
+      }
+      if (suggestions.length === 0) return;
+
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (index + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' && isOpen && activeIndex >= 0 && suggestions[activeIndex]) {
+      e.preventDefault();
+      selectSuggestion(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      close();
+    }
+  };
+
+  const showDropdown = isOpen && (suggestions.length > 0 || shouldSuggest);
+  const optionId = (index: number) => `${listboxId}-option-${index}`;
+
+  return (
+    <form
+      role="search"
+      className={cn('relative w-full', className)}
+      onSubmit={e => {
+        e.preventDefault();
+        runSearch(query);
+      }}
+    >
+      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        type="search"
+        placeholder="Search products..."
+        value={query}
+        onChange={e => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={close}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-controls={listboxId}
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? optionId(activeIndex) : undefined}
+        className={cn('pl-10', inputClassName)}
+      />
+
+      {showDropdown && (
+        <div className="absolute left-0 right-0 top-full z-50 mt-2 overflow-hidden rounded-lg border bg-popover text-popover-foreground shadow-lg">
+          {!shouldSuggest && suggestions.length > 0 && (
+            <div className="flex items-center justify-between px-3 pt-2 text-xs text-muted-foreground">
+              <span>Recent searches</span>
+              <button
+                type="button"
+                className="hover:text-foreground"
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => clearSearches(userKey)}
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
+          <ul id={listboxId} role="listbox" className="max-h-96 overflow-y-auto py-1">
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={
+                  suggestion.type === 'product'
+                    ? `product-${suggestion.product.id}`
+                    : suggestion.type === 'category'
+                      ? `category-${suggestion.value}`
+                      : `recent-${suggestion.query}`
+                }
+                id={optionId(index)}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input so the click lands before blur closes the list
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => selectSuggestion(suggestion)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  'flex cursor-pointer items-center gap-3 px-3 py-2 text-sm',
+                  index === activeIndex && 'bg-accent text-accent-foreground'
+                )}
+              >
+                {suggestion.type === 'product' && (
+                  <>
+                    <div className="relative h-10 w-10 shrink-0 overflow-hidden rounded-md bg-muted">
+                      {suggestion.product.images[0] && (
+                        <Image
+                          src={suggestion.product.images[0]}
+                          alt={suggestion.product.name}
+                          fill
+                          className="object-cover"
+                          sizes="40px"
+                        />
+                      )}
+                    </div>
+                    <span className="flex-1 truncate">{suggestion.product.name}</span>
+                    <Price
+                      price={suggestion.product.price}
+                      originalPrice={suggestion.product.originalPrice}
+                      size="sm"
+                    />
+                  </>
+                )}
+
+                {suggestion.type === 'category' && (
+                  <>
+                    <Tag className="h-4 w-4 text-muted-foreground" />
+                    <span className="flex-1 truncate">
+                      {suggestion.label}
+                      <span className="text-muted-foreground"> in categories</span>
+                    </span>
+                    {suggestion.count !== undefined && (
+                      <span className="text-xs text-muted-foreground">{suggestion.count}</span>
+                    )}
+                  </>
+                )}
+
+                {suggestion.type === 'recent' && (
+                  <>
+                    <Clock className="h-4 w-4 text-muted-foreground" />
+                    <span className="flex-1 truncate">{suggestion.query}</span>
+                    <button
+                      type="button"
+                      aria-label={`Remove ${suggestion.query} from recent searches`}
+                      className="text-muted-foreground hover:text-foreground"
+                      onClick={e => {
+                        e.stopPropagation();
+                        removeSearch(userKey, suggestion.query);
+                      }}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {shouldSuggest && (
+            <button
+              type="button"
+              className="flex w-full items-center gap-2 border-t px-3 py-2 text-sm text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => runSearch(query)}
+            >
+              {isFetching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+              {!isFetching && suggestions.length === 0
+                ? `No matches - search all products for "${debouncedQuery}"`
+                : `See all results for "${debouncedQuery}"`}
+            </button>
+          )}
+        </div>
+      )}
+    </form>
+  );
+}
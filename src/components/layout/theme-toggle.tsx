@@ -2,7 +2,6 @@
 
 import * as React from 'react';
 import { Moon, Sun } from 'lucide-react';
-import { useTheme } from 'next-themes';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -10,9 +9,11 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { useThemePreference } from '@/hooks/use-account-settings';
 
+// Quick theme switch - for signed-in customers the choice is saved to their account
 export function ThemeToggle() {
-  const { setTheme } = useTheme();
+  const { setThemePreference: setTheme } = useThemePreference();
 
   return (
     <DropdownMenu>
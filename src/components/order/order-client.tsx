@@ -1,46 +1,60 @@
 'use client';
 
+import { CouponInput } from '@/components/cart/coupon-input';
+import { FreeShippingProgress } from '@/components/cart/free-shipping-progress';
 import { useAuthenticatedUser } from '@/components/providers/server-auth-provider';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Price } from '@/components/ui/price';
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { Textarea } from '@/components/ui/textarea';
+import { useAddresses, useCreateAddress, useImportLegacyAddresses } from '@/hooks/use-addresses';
+import { useCartCoupon } from '@/hooks/use-cart-coupon';
+import { useShippingQuote } from '@/hooks/use-delivery';
+import { findDuplicateAddress, getCityAreas } from '@/lib/address-utils';
+import { ApiError, apiClient } from '@/lib/api-client';
 import { BANGLADESHI_CITIES } from '@/lib/constants';
+import { CheckoutFormSchema, type CheckoutFormData } from '@/lib/order-schemas';
+import { buildCreateOrderData, type OrderFieldErrors } from '@/lib/order-utils';
+import { formatPreOrderAvailability, splitPreOrderItems } from '@/lib/preorder-utils';
+import { getCartItemKey, getCartItemPrice } from '@/lib/product-variants';
 import { ServerStorageData } from '@/lib/server-storage';
-import { useAddressesStore, useCartStore } from '@/store';
+import { formatDeliveryEstimate, groupCitiesByZone } from '@/lib/shipping-utils';
+import { useCartStore } from '@/store';
 import { ShippingAddress } from '@/types';
+import type { AdminOrder } from '@/types/admin';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { ArrowLeft, CheckCircle, CreditCard, MapPin, User } from 'lucide-react';
+import { AlertTriangle, ArrowLeft, CheckCircle, CreditCard, MapPin, User } from 'lucide-react';
 import Image from 'next/image';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { toast } from 'sonner';
-import * as z from 'zod';
-
-const orderSchema = z.object({
-  name: z.string().min(2, 'Name must be at least 2 characters'),
-  phone: z.string().min(11, 'Phone number must be at least 11 digits'),
-  address: z.string().min(10, 'Address must be at least 10 characters'),
-  city: z.string().min(1, 'Please select a city'),
-  area: z.string().min(2, 'Area must be at least 2 characters'),
-  postalCode: z.string().optional(),
-  notes: z.string().optional(),
-});
-
-type OrderFormData = z.infer<typeof orderSchema>;
+import { NEW_ADDRESS_ID, SavedAddressPicker } from './saved-address-picker';
+
+const CHECKOUT_FIELDS: Array<keyof CheckoutFormData> = [
+  'name',
+  'phone',
+  'address',
+  'city',
+  'area',
+  'postalCode',
+  'notes',
+];
 
 interface OrderClientProps {
   serverStorage?: ServerStorageData;
@@ -51,34 +65,90 @@ export function OrderClient({ serverStorage }: OrderClientProps) {
   const { user } = useAuthenticatedUser(); // This ensures user is authenticated
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [orderPlaced, setOrderPlaced] = useState(false);
+  const [placedOrder, setPlacedOrder] = useState<AdminOrder | null>(null);
+  const [itemErrors, setItemErrors] = useState<OrderFieldErrors>({});
+  const orderPlaced = placedOrder !== null;
 
   const { items, getTotalPrice, getTotalItems, clearCart } = useCartStore();
-  const { addresses, getDefaultAddress, addAddress } = useAddressesStore();
+  const { couponCode, discount, removeCoupon } = useCartCoupon();
+  const { data: savedAddresses = [], isPending: addressesLoading } = useAddresses();
+  const createAddress = useCreateAddress();
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+  const [saveAddress, setSaveAddress] = useState(true);
+
+  useImportLegacyAddresses();
 
   const totalPrice = getTotalPrice();
   const totalItems = getTotalItems();
-  const defaultAddress = getDefaultAddress();
+  const { readyItems, preOrderItems } = splitPreOrderItems(items);
 
   const {
     register,
     handleSubmit,
     formState: { errors },
     setValue,
+    setError,
+    clearErrors,
     watch,
-  } = useForm<OrderFormData>({
-    resolver: zodResolver(orderSchema),
+  } = useForm<CheckoutFormData>({
+    resolver: zodResolver(CheckoutFormSchema),
     defaultValues: {
       name: user?.name || '',
       phone: user?.phone_number || '',
-      address: defaultAddress?.address || '',
-      city: defaultAddress?.city || '',
-      area: defaultAddress?.area || '',
-      postalCode: defaultAddress?.postalCode || '',
+      address: '',
+      city: '',
+      area: '',
+      postalCode: '',
       notes: '',
     },
   });
 
+  // Fill the delivery fields from a saved address, or clear them for a new one
+  const selectAddress = (address: ShippingAddress | null) => {
+    setSelectedAddressId(address?.id ?? NEW_ADDRESS_ID);
+    setValue('name', address?.name || user?.name || '');
+    setValue('phone', address?.phone || user?.phone_number || '');
+    setValue('address', address?.address || '');
+    setValue('city', address?.city || '');
+    setValue('area', address?.area || '');
+    setValue('postalCode', address?.postalCode || '');
+    clearErrors();
+  };
+
+  // Preselect the default address once the address book has loaded
+  useEffect(() => {
+    if (selectedAddressId !== null || addressesLoading) return;
+
+    const defaultAddress = savedAddresses.find(address => address.isDefault) ?? savedAddresses[0];
+    if (defaultAddress) {
+      selectAddress(defaultAddress);
+    } else {
+      setSelectedAddressId(NEW_ADDRESS_ID);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedAddressId, addressesLoading, savedAddresses]);
+
+  // Quote delivery for the entered address - the order API charges the same fee
+  const selectedCity = watch('city');
+  const selectedArea = watch('area');
+  const merchandiseTotal = Math.max(totalPrice - discount, 0);
+  const { settings: deliverySettings, quote: shippingQuote } = useShippingQuote({
+    city: selectedCity,
+    area: selectedArea,
+    subtotal: merchandiseTotal,
+  });
+  const deliveryUnavailable = !!selectedCity && (!shippingQuote || !shippingQuote.cod_available);
+
+  // Only offer to save what isn't already in the address book
+  const [enteredName, enteredPhone, enteredAddress] = watch(['name', 'phone', 'address']);
+  const isSavedAddress = !!findDuplicateAddress(savedAddresses, {
+    name: enteredName,
+    phone: enteredPhone,
+    address: enteredAddress,
+    city: selectedCity,
+    area: selectedArea,
+  });
+
   // Redirect if cart is empty
   useEffect(() => {
     if (items.length === 0 && !orderPlaced) {
@@ -86,39 +156,72 @@ export function OrderClient({ serverStorage }: OrderClientProps) {
     }
   }, [items.length, router, orderPlaced]);
 
-  const onSubmit = async (data: OrderFormData) => {
+  // Apply server field errors to the form and line items, returns false if none applied
+  const applyFieldErrors = (fieldErrors?: OrderFieldErrors): boolean => {
+    if (!fieldErrors || Object.keys(fieldErrors).length === 0) {
+      return false;
+    }
+
+    const nextItemErrors: OrderFieldErrors = {};
+
+    Object.entries(fieldErrors).forEach(([field, message]) => {
+      if (field === 'coupon_code') {
+        // The coupon stopped being valid since it was applied - drop it so the order can go through
+        removeCoupon();
+        toast.error('Coupon removed', { description: message });
+      } else if (field.startsWith('items')) {
+        nextItemErrors[field] = message;
+      } else if (CHECKOUT_FIELDS.includes(field as keyof CheckoutFormData)) {
+        setError(field as keyof CheckoutFormData, { type: 'server', message });
+      }
+    });
+
+    setItemErrors(nextItemErrors);
+    return true;
+  };
+
+  const onSubmit = async (data: CheckoutFormData) => {
     setIsSubmitting(true);
+    setItemErrors({});
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      // Save address if it's new
-      const addressData: Omit<ShippingAddress, 'id'> = {
-        name: data.name,
-        phone: data.phone,
-        address: data.address,
-        city: data.city,
-        area: data.area,
-        postalCode: data.postalCode,
-        isDefault: addresses.length === 0,
+      const response = (await apiClient.createOrder(
+        buildCreateOrderData(items, data, couponCode || undefined)
+      )) as {
+        data: AdminOrder;
       };
 
-      addAddress(addressData);
+      // The order is placed either way, so a failed save is not worth interrupting for
+      if (saveAddress && !isSavedAddress) {
+        createAddress.mutate({
+          name: data.name,
+          phone: data.phone,
+          address: data.address,
+          city: data.city,
+          area: data.area,
+          postalCode: data.postalCode,
+        });
+      }
 
       // Clear cart and show success
       clearCart();
-      setOrderPlaced(true);
+      setPlacedOrder(response.data);
 
       toast.success('Order placed successfully!');
     } catch (error) {
-      toast.error('Failed to place order. Please try again.');
+      if (error instanceof ApiError && applyFieldErrors(error.fieldErrors)) {
+        return;
+      }
+
+      toast.error(
+        error instanceof ApiError ? error.message : 'Failed to place order. Please try again.'
+      );
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  if (orderPlaced) {
+  if (placedOrder) {
     return (
       <div className="container mx-auto px-4 py-16">
         <div className="max-w-md mx-auto text-center">
@@ -128,10 +231,21 @@ export function OrderClient({ serverStorage }: OrderClientProps) {
             <p className="text-muted-foreground">
               Thank you for your order. We'll contact you soon to confirm the delivery details.
             </p>
+            {placedOrder.order_number && (
+              <p className="mt-4 text-sm">
+                Order number:{' '}
+                <span className="font-mono font-semibold">{placedOrder.order_number}</span>
+              </p>
+            )}
           </div>
 
           <div className="space-y-4">
-            <Button asChild className="w-full">
+            {placedOrder.id && (
+              <Button asChild className="w-full">
+                <Link href={`/orders/${placedOrder.id}`}>View Order</Link>
+              </Button>
+            )}
+            <Button asChild variant={placedOrder.id ? 'outline' : 'default'} className="w-full">
               <Link href="/products">Continue Shopping</Link>
             </Button>
             <Button asChild variant="outline" className="w-full">
@@ -203,6 +317,14 @@ export function OrderClient({ serverStorage }: OrderClientProps) {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
+                {savedAddresses.length > 0 && (
+                  <SavedAddressPicker
+                    addresses={savedAddresses}
+                    selectedId={selectedAddressId}
+                    onSelect={selectAddress}
+                  />
+                )}
+
                 <div>
                   <Label htmlFor="address">Street Address *</Label>
                   <Textarea
@@ -219,15 +341,27 @@ export function OrderClient({ serverStorage }: OrderClientProps) {
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div>
                     <Label htmlFor="city">City *</Label>
-                    <Select onValueChange={value => setValue('city', value)}>
+                    <Select
+                      value={selectedCity}
+                      onValueChange={value => {
+                        setValue('city', value, { shouldValidate: true });
+                        // Areas belong to a city, so a change of city clears the area
+                        setValue('area', '');
+                      }}
+                    >
                       <SelectTrigger>
                         <SelectValue placeholder="Select city" />
                       </SelectTrigger>
                       <SelectContent>
-                        {BANGLADESHI_CITIES.map(city => (
-                          <SelectItem key={city} value={city}>
-                            {city}
-                          </SelectItem>
+                        {groupCitiesByZone(deliverySettings, BANGLADESHI_CITIES).map(group => (
+                          <SelectGroup key={group.zone.id}>
+                            <SelectLabel>{group.zone.name}</SelectLabel>
+                            {group.cities.map(city => (
+                              <SelectItem key={city} value={city}>
+                                {city}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
                         ))}
                       </SelectContent>
                     </Select>
@@ -238,7 +372,22 @@ export function OrderClient({ serverStorage }: OrderClientProps) {
 
                   <div>
                     <Label htmlFor="area">Area/Thana *</Label>
-                    <Input id="area" {...register('area')} placeholder="Area or Thana name" />
+                    <Select
+                      value={selectedArea}
+                      onValueChange={value => setValue('area', value, { shouldValidate: true })}
+                      disabled={!selectedCity}
+                    >
+                      <SelectTrigger id="area">
+                        <SelectValue placeholder={selectedCity ? 'Select area' : 'Select city first'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getCityAreas(selectedCity, selectedArea).map(area => (
+                          <SelectItem key={area} value={area}>
+                            {area}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     {errors.area && (
                       <p className="text-sm text-destructive mt-1">{errors.area.message}</p>
                     )}
@@ -249,6 +398,16 @@ export function OrderClient({ serverStorage }: OrderClientProps) {
                     <Input id="postalCode" {...register('postalCode')} placeholder="Optional" />
                   </div>
                 </div>
+
+                {!isSavedAddress && (
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={saveAddress}
+                      onCheckedChange={checked => setSaveAddress(checked === true)}
+                    />
+                    Save this address to my address book
+                  </label>
+                )}
               </CardContent>
             </Card>
 
@@ -285,6 +444,16 @@ export function OrderClient({ serverStorage }: OrderClientProps) {
                     Selected
                   </Badge>
                 </div>
+                {deliveryUnavailable && (
+                  <div className="mt-3 flex items-start gap-2 rounded-lg border border-destructive/50 p-3 text-sm text-destructive">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <p>
+                      {shippingQuote
+                        ? `Cash on delivery isn't available for ${shippingQuote.zone_name}. Please choose another delivery city.`
+                        : `We don't deliver to ${selectedCity} yet.`}
+                    </p>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </form>
@@ -297,52 +466,117 @@ export function OrderClient({ serverStorage }: OrderClientProps) {
               <CardTitle>Order Summary</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              {/* Items */}
-              <div className="space-y-3">
-                {items.map(item => (
-                  <div key={item.product.id} className="flex gap-3">
-                    <div className="relative h-12 w-12 flex-shrink-0 overflow-hidden rounded">
-                      <Image
-                        src={item.product.images[0]}
-                        alt={item.product.name}
-                        fill
-                        className="object-cover"
-                      />
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium truncate">{item.product.name}</p>
-                      <p className="text-sm text-muted-foreground">Qty: {item.quantity}</p>
-                    </div>
-                    <div className="text-sm font-medium">
-                      <Price price={item.product.price * item.quantity} size="sm" />
-                    </div>
+              {/* Items - pre-orders are listed apart since they ship later */}
+              {[
+                { title: 'Ships now', items: readyItems, isPreOrder: false },
+                { title: 'Pre-order', items: preOrderItems, isPreOrder: true },
+              ]
+                .filter(group => group.items.length > 0)
+                .map(group => (
+                  <div key={group.title} className="space-y-3">
+                    {preOrderItems.length > 0 && (
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-semibold">{group.title}</p>
+                        {group.isPreOrder &&
+                          group.items.every(item => item.product.preOrder?.depositFree) && (
+                            <Badge variant="outline" className="text-xs">
+                              No deposit
+                            </Badge>
+                          )}
+                      </div>
+                    )}
+                    {group.items.map(item => {
+                      const itemKey = getCartItemKey(item.product.id, item.variant?.id);
+
+                      return (
+                        <div key={itemKey} className="flex gap-3">
+                          <div className="relative h-12 w-12 flex-shrink-0 overflow-hidden rounded">
+                            <Image
+                              src={item.product.images[0]}
+                              alt={item.product.name}
+                              fill
+                              className="object-cover"
+                            />
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium truncate">{item.product.name}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {item.variant && `${item.variant.name} · `}Qty: {item.quantity}
+                            </p>
+                            {item.product.preOrder && (
+                              <p className="text-xs text-muted-foreground">
+                                {formatPreOrderAvailability(item.product.preOrder)}
+                              </p>
+                            )}
+                            {itemErrors[`items.${itemKey}`] && (
+                              <p className="text-xs text-destructive mt-1">
+                                {itemErrors[`items.${itemKey}`]}
+                              </p>
+                            )}
+                          </div>
+                          <div className="text-sm font-medium">
+                            <Price price={getCartItemPrice(item) * item.quantity} size="sm" />
+                          </div>
+                        </div>
+                      );
+                    })}
                   </div>
                 ))}
-              </div>
+
+              {itemErrors.items && (
+                <p className="text-sm text-destructive">{itemErrors.items}</p>
+              )}
 
               <Separator />
 
+              <CouponInput />
+
               {/* Totals */}
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
                   <span>Subtotal ({totalItems} items)</span>
                   <Price price={totalPrice} size="sm" />
                 </div>
+                {discount > 0 && (
+                  <div className="flex justify-between text-sm text-green-600">
+                    <span>Discount ({couponCode})</span>
+                    <Price price={discount} currency="-৳" size="sm" />
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
-                  <span>Delivery</span>
-                  <span className="text-green-600 font-medium">Free</span>
+                  <span>
+                    Delivery
+                    {shippingQuote && (
+                      <span className="block text-xs text-muted-foreground">
+                        {shippingQuote.zone_name} • {formatDeliveryEstimate(shippingQuote)}
+                      </span>
+                    )}
+                  </span>
+                  {!shippingQuote ? (
+                    <span className="text-muted-foreground">Select city</span>
+                  ) : shippingQuote.is_free ? (
+                    <span className="text-green-600 font-medium">Free</span>
+                  ) : (
+                    <Price price={shippingQuote.fee} size="sm" />
+                  )}
                 </div>
                 <Separator />
                 <div className="flex justify-between font-semibold">
                   <span>Total</span>
-                  <Price price={totalPrice} size="md" />
+                  <Price price={merchandiseTotal + (shippingQuote?.fee ?? 0)} size="md" />
                 </div>
               </div>
 
+              <FreeShippingProgress
+                settings={deliverySettings}
+                quote={shippingQuote}
+                subtotal={merchandiseTotal}
+              />
+
               {/* Place Order Button */}
               <Button
                 onClick={handleSubmit(onSubmit)}
-                disabled={isSubmitting}
+                disabled={isSubmitting || deliveryUnavailable}
                 className="w-full"
                 size="lg"
               >
@@ -0,0 +1,64 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { formatAddressLine } from '@/lib/address-utils';
+import { cn } from '@/lib/utils';
+import type { ShippingAddress } from '@/types';
+import { Plus } from 'lucide-react';
+
+export const NEW_ADDRESS_ID = 'new';
+
+interface SavedAddressPickerProps {
+  addresses: ShippingAddress[];
+  selectedId: string | null;
+  onSelect: (address: ShippingAddress | null) => void;
+}
+
+// Saved addresses as selectable cards, plus a card for typing a new one
+export function SavedAddressPicker({ addresses, selectedId, onSelect }: SavedAddressPickerProps) {
+  const optionClassName = (selected: boolean) =>
+    cn(
+      'w-full rounded-lg border p-3 text-left transition-colors hover:bg-muted/50',
+      selected && 'border-primary ring-1 ring-primary bg-primary/5'
+    );
+
+  return (
+    <div role="radiogroup" aria-label="Saved addresses" className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {addresses.map(address => (
+        <button
+          key={address.id}
+          type="button"
+          role="radio"
+          aria-checked={selectedId === address.id}
+          onClick={() => onSelect(address)}
+          className={optionClassName(selectedId === address.id)}
+        >
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-sm">{address.name}</span>
+            {address.isDefault && (
+              <Badge variant="secondary" className="text-xs">
+                Default
+              </Badge>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">{address.phone}</p>
+          <p className="text-sm mt-1 line-clamp-2">{formatAddressLine(address)}</p>
+        </button>
+      ))}
+
+      <button
+        type="button"
+        role="radio"
+        aria-checked={selectedId === NEW_ADDRESS_ID}
+        onClick={() => onSelect(null)}
+        className={cn(
+          optionClassName(selectedId === NEW_ADDRESS_ID),
+          'flex items-center justify-center gap-2 text-sm font-medium'
+        )}
+      >
+        <Plus className="h-4 w-4" />
+        Use a new address
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+'use client';
+
+import {
+  OrderStatus,
+  OrderStatusBadge,
+  PaymentStatus,
+  PaymentStatusBadge,
+} from '@/components/admin/orders/order-status-badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/loading';
+import { Price } from '@/components/ui/price';
+import { Separator } from '@/components/ui/separator';
+import { useOrder } from '@/hooks/use-orders';
+import { formatDate, formatDateTime } from '@/lib/admin-utils';
+import { ApiError, apiClient } from '@/lib/api-client';
+import { PAYMENT_METHODS } from '@/lib/constants';
+import { buildStatusTimeline } from '@/lib/order-utils';
+import { OrderStatusTimeline } from './order-status-timeline';
+import {
+  ArrowLeft,
+  CalendarClock,
+  CreditCard,
+  Download,
+  MapPin,
+  Package,
+  Truck,
+} from 'lucide-react';
+import Image from 'next/image';
+import Link from 'next/link';
+
+interface OrderDetailClientProps {
+  orderId: string;
+}
+
+export function OrderDetailClient({ orderId }: OrderDetailClientProps) {
+  const { data: order, isLoading, error, refetch } = useOrder(orderId);
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <Skeleton className="h-10 w-64" />
+          <Skeleton className="h-64 w-full rounded-lg" />
+          <Skeleton className="h-40 w-full rounded-lg" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    const notFound = error instanceof ApiError && error.statusCode === 404;
+
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto text-center">
+          <Package className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h1 className="text-2xl font-bold mb-2">
+            {notFound ? 'Order not found' : 'Unable to load order'}
+          </h1>
+          <p className="text-muted-foreground mb-6">
+            {notFound
+              ? "We couldn't find this order in your account."
+              : 'Something went wrong while loading this order.'}
+          </p>
+          <div className="space-y-3">
+            {!notFound && (
+              <Button className="w-full" onClick={() => refetch()}>
+                Try Again
+              </Button>
+            )}
+            <Button asChild variant="outline" className="w-full">
+              <Link href="/orders">Back to My Orders</Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const paymentMethod =
+    PAYMENT_METHODS.find(method => method.id === order.payment_method)?.name ||
+    order.payment_method;
+  const address = order.shipping_address;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Button variant="ghost" asChild className="mb-4">
+            <Link href="/orders">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to My Orders
+            </Link>
+          </Button>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+              <h1 className="text-3xl font-serif font-bold">
+                Order <span className="font-mono">{order.order_number}</span>
+              </h1>
+              <p className="text-muted-foreground">Placed on {formatDateTime(order.created_at)}</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <OrderStatusBadge status={order.status as OrderStatus} />
+              <Button variant="outline" size="sm" asChild>
+                <a href={apiClient.getOrderInvoiceUrl(order.id)} download>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download Invoice
+                </a>
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Items & Totals */}
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Items</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {order.items.map(item => (
+                  <div key={item.id || item.product_id} className="flex items-center gap-3">
+                    <div className="relative h-16 w-16 flex-shrink-0 overflow-hidden rounded bg-muted flex items-center justify-center">
+                      {item.product.images[0] ? (
+                        <Image
+                          src={item.product.images[0]}
+                          alt={item.product.name}
+                          fill
+                          className="object-cover"
+                        />
+                      ) : (
+                        <Package className="h-6 w-6 text-muted-foreground" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <Link
+                        href={`/products/${item.product.slug || item.product_id}`}
+                        className="font-medium hover:underline truncate block"
+                      >
+                        {item.product.name}
+                      </Link>
+                      <p className="text-sm text-muted-foreground">
+                        {item.variant_name && `${item.variant_name} · `}Qty: {item.quantity} × ৳
+                        {item.unit_price.toLocaleString()}
+                      </p>
+                      {item.is_preorder && (
+                        <p className="text-xs text-blue-600">
+                          Pre-order
+                          {item.preorder_available_date &&
+                            ` · ships from ${formatDate(item.preorder_available_date)}`}
+                        </p>
+                      )}
+                    </div>
+                    <Price price={item.total_price} size="sm" />
+                  </div>
+                ))}
+
+                <Separator />
+
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span>Subtotal</span>
+                    <Price price={order.subtotal} size="sm" />
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Delivery</span>
+                    {order.shipping_cost > 0 ? (
+                      <Price price={order.shipping_cost} size="sm" />
+                    ) : (
+                      <span className="text-green-600 font-medium">Free</span>
+                    )}
+                  </div>
+                  {order.discount_amount > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span>Discount{order.coupon_code ? ` (${order.coupon_code})` : ''}</span>
+                      <span>-৳{order.discount_amount.toLocaleString()}</span>
+                    </div>
+                  )}
+                  {order.tax_amount > 0 && (
+                    <div className="flex justify-between">
+                      <span>Tax</span>
+                      <Price price={order.tax_amount} size="sm" />
+                    </div>
+                  )}
+                  <Separator />
+                  <div className="flex justify-between font-semibold text-base">
+                    <span>Total</span>
+                    <Price price={order.total_amount} size="md" />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Order Timeline</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <OrderStatusTimeline entries={buildStatusTimeline(order)} />
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Delivery & Payment */}
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <MapPin className="h-4 w-4" />
+                  Shipping Address
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-1">
+                <p className="font-medium">{address.name}</p>
+                <p>{address.address_line_1}</p>
+                {address.address_line_2 && <p>{address.address_line_2}</p>}
+                <p>
+                  {address.city}
+                  {address.postal_code ? ` ${address.postal_code}` : ''}, {address.country}
+                </p>
+                <p className="text-muted-foreground">{address.phone}</p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <CreditCard className="h-4 w-4" />
+                  Payment
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-2">
+                <div className="flex items-center justify-between">
+                  <span>{paymentMethod}</span>
+                  <PaymentStatusBadge status={order.payment_status as PaymentStatus} />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Truck className="h-4 w-4" />
+                  Delivery
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-3">
+                <div>
+                  <p className="text-muted-foreground">Tracking number</p>
+                  <p className="font-mono">{order.tracking_number || 'Not available yet'}</p>
+                </div>
+                {order.delivered_at ? (
+                  <div className="flex items-center gap-2">
+                    <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                    <span>Delivered on {formatDate(order.delivered_at)}</span>
+                  </div>
+                ) : (
+                  order.estimated_delivery && (
+                    <div className="flex items-center gap-2">
+                      <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                      <span>Estimated delivery {formatDate(order.estimated_delivery)}</span>
+                    </div>
+                  )
+                )}
+              </CardContent>
+            </Card>
+
+            {order.notes && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Order Notes</CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-muted-foreground">{order.notes}</CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { formatDateTime } from '@/lib/admin-utils';
+import { ORDER_STATUSES } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+import type { OrderStatusHistoryEntry } from '@/types/admin';
+
+interface OrderStatusTimelineProps {
+  entries: OrderStatusHistoryEntry[];
+  showActor?: boolean;
+  className?: string;
+}
+
+const ACTOR_LABELS: Record<OrderStatusHistoryEntry['actor']['role'], string> = {
+  ADMIN: 'Hamsoya team',
+  CUSTOMER: 'Customer',
+  SYSTEM: 'System',
+};
+
+function getStatusName(status: string): string {
+  return ORDER_STATUSES.find(s => s.id === status)?.name || status;
+}
+
+/**
+ * Vertical timeline of order status transitions, oldest at the top
+ * The latest entry is highlighted as the current status
+ */
+export function OrderStatusTimeline({
+  entries,
+  showActor = false,
+  className,
+}: OrderStatusTimelineProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status updates yet.</p>;
+  }
+
+  return (
+    <ol className={cn('relative', className)}>
+      {entries.map((entry, index) => {
+        const isLast = index === entries.length - 1;
+        const isCancelled = entry.status === 'cancelled';
+
+        return (
+          <li key={entry.id} className="relative flex gap-3 pb-6 last:pb-0">
+            {!isLast && (
+              <span
+                className="absolute left-[7px] top-4 h-full w-px bg-border"
+                aria-hidden="true"
+              />
+            )}
+            <span
+              className={cn(
+                'relative mt-1 h-4 w-4 flex-shrink-0 rounded-full border-2',
+                isLast
+                  ? isCancelled
+                    ? 'border-destructive bg-destructive'
+                    : 'border-primary bg-primary'
+                  : 'border-muted-foreground/40 bg-background'
+              )}
+              aria-hidden="true"
+            />
+            <div className="min-w-0 flex-1">
+              <p className={cn('text-sm font-medium', isLast && 'text-foreground')}>
+                {getStatusName(entry.status)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {formatDateTime(entry.created_at)}
+                {showActor && (
+                  <> · {entry.actor.name || ACTOR_LABELS[entry.actor.role]}</>
+                )}
+              </p>
+              {entry.note && (
+                <p className="mt-1 text-sm text-muted-foreground break-words">{entry.note}</p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,209 @@
+'use client';
+
+import { OrderStatus, OrderStatusBadge } from '@/components/admin/orders/order-status-badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/loading';
+import { Price } from '@/components/ui/price';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useOrders } from '@/hooks/use-orders';
+import { formatDate } from '@/lib/admin-utils';
+import { ORDER_STATUSES } from '@/lib/constants';
+import type { AdminOrder } from '@/types/admin';
+import { ChevronLeft, ChevronRight, Filter, Package, ShoppingBag } from 'lucide-react';
+import Link from 'next/link';
+import { useState } from 'react';
+
+const PAGE_SIZE = 10;
+
+export function OrdersClient() {
+  const [page, setPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  const { data, isLoading, isError, refetch } = useOrders({
+    page,
+    limit: PAGE_SIZE,
+    status: statusFilter === 'all' ? undefined : statusFilter,
+    startDate: startDate || undefined,
+    endDate: endDate || undefined,
+  });
+
+  const orders = data?.data ?? [];
+  const pagination = data?.pagination;
+  const hasFilters = statusFilter !== 'all' || !!startDate || !!endDate;
+
+  // Reset to the first page whenever a filter changes
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setStatusFilter('all');
+    setStartDate('');
+    setEndDate('');
+    setPage(1);
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-3xl font-serif font-bold mb-8">My Orders</h1>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3 sm:gap-4 mb-6">
+          <div className="sm:w-[180px]">
+            <Label className="mb-1 block text-sm">Status</Label>
+            <Select value={statusFilter} onValueChange={updateFilter(setStatusFilter)}>
+              <SelectTrigger className="w-full h-10">
+                <Filter className="mr-2 h-4 w-4" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Status</SelectItem>
+                {ORDER_STATUSES.map(status => (
+                  <SelectItem key={status.id} value={status.id}>
+                    {status.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="orders-from" className="mb-1 block text-sm">From</Label>
+            <Input
+              id="orders-from"
+              type="date"
+              value={startDate}
+              max={endDate || undefined}
+              onChange={e => updateFilter(setStartDate)(e.target.value)}
+              className="h-10"
+            />
+          </div>
+          <div>
+            <Label htmlFor="orders-to" className="mb-1 block text-sm">To</Label>
+            <Input
+              id="orders-to"
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={e => updateFilter(setEndDate)(e.target.value)}
+              className="h-10"
+            />
+          </div>
+          {hasFilters && (
+            <Button variant="ghost" onClick={clearFilters} className="h-10">
+              Clear filters
+            </Button>
+          )}
+        </div>
+
+        {/* Order List */}
+        {isLoading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-28 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : isError ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground mb-4">We couldn&apos;t load your orders.</p>
+              <Button variant="outline" onClick={() => refetch()}>
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : orders.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <ShoppingBag className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground mb-4">
+                {hasFilters ? 'No orders match these filters.' : "You haven't placed any orders yet."}
+              </p>
+              {!hasFilters && (
+                <Button asChild>
+                  <Link href="/products">Start Shopping</Link>
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {orders.map(order => (
+              <OrderSummaryCard key={order.id} order={order} />
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between mt-6">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={!pagination.hasPrev}
+            >
+              <ChevronLeft className="mr-1 h-4 w-4" />
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {pagination.page} of {pagination.totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => p + 1)}
+              disabled={!pagination.hasNext}
+            >
+              Next
+              <ChevronRight className="ml-1 h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function OrderSummaryCard({ order }: { order: AdminOrder }) {
+  const itemCount = order.items_count || order.items.length;
+
+  return (
+    <Link href={`/orders/${order.id}`} className="block">
+      <Card className="transition-colors hover:border-primary/50">
+        <CardContent className="p-4 sm:p-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+              <div className="flex items-center gap-2 mb-1">
+                <span className="font-mono font-semibold">{order.order_number}</span>
+                <OrderStatusBadge status={order.status as OrderStatus} />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Placed on {formatDate(order.created_at)}
+              </p>
+            </div>
+            <div className="flex items-center gap-4 sm:text-right">
+              <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                <Package className="h-4 w-4" />
+                {itemCount} item{itemCount !== 1 ? 's' : ''}
+              </div>
+              <Price price={order.total_amount} size="md" />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </Link>
+  );
+}
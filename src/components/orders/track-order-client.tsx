@@ -0,0 +1,147 @@
+'use client';
+
+import { OrderStatus, OrderStatusBadge } from '@/components/admin/orders/order-status-badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { formatDate } from '@/lib/admin-utils';
+import { ApiError, apiClient } from '@/lib/api-client';
+import { TrackOrderSchema, type TrackOrderData } from '@/lib/order-schemas';
+import { buildStatusTimeline } from '@/lib/order-utils';
+import type { OrderTrackingInfo } from '@/types/admin';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { CalendarClock, PackageSearch, Truck } from 'lucide-react';
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { OrderStatusTimeline } from './order-status-timeline';
+
+interface TrackOrderClientProps {
+  initialOrderNumber?: string;
+}
+
+export function TrackOrderClient({ initialOrderNumber = '' }: TrackOrderClientProps) {
+  const [tracking, setTracking] = useState<OrderTrackingInfo | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<TrackOrderData>({
+    resolver: zodResolver(TrackOrderSchema),
+    defaultValues: {
+      orderNumber: initialOrderNumber,
+      phone: '',
+    },
+  });
+
+  const onSubmit = async (data: TrackOrderData) => {
+    setLookupError(null);
+
+    try {
+      const response = (await apiClient.trackOrder(data.orderNumber, data.phone)) as {
+        data: OrderTrackingInfo;
+      };
+      setTracking(response.data);
+    } catch (error) {
+      setTracking(null);
+      setLookupError(
+        error instanceof ApiError ? error.message : 'Failed to track order. Please try again.'
+      );
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-serif font-bold mb-2">Track Your Order</h1>
+          <p className="text-muted-foreground">
+            Enter your order number and the phone number you used at checkout.
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="orderNumber">Order Number</Label>
+                  <Input
+                    id="orderNumber"
+                    {...register('orderNumber')}
+                    placeholder="e.g. HAM-10025"
+                    autoComplete="off"
+                  />
+                  {errors.orderNumber && (
+                    <p className="text-sm text-destructive mt-1">{errors.orderNumber.message}</p>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="phone">Phone Number</Label>
+                  <Input
+                    id="phone"
+                    type="tel"
+                    {...register('phone')}
+                    placeholder="01XXXXXXXXX"
+                    autoComplete="tel"
+                  />
+                  {errors.phone && (
+                    <p className="text-sm text-destructive mt-1">{errors.phone.message}</p>
+                  )}
+                </div>
+              </div>
+              {lookupError && <p className="text-sm text-destructive">{lookupError}</p>}
+              <Button type="submit" disabled={isSubmitting} className="w-full sm:w-auto">
+                <PackageSearch className="mr-2 h-4 w-4" />
+                {isSubmitting ? 'Tracking...' : 'Track Order'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {tracking && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between gap-2">
+                <span>
+                  Order <span className="font-mono">{tracking.order_number}</span>
+                </span>
+                <OrderStatusBadge status={tracking.status as OrderStatus} />
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                <div className="flex items-start gap-2">
+                  <Truck className="h-4 w-4 text-muted-foreground mt-0.5" />
+                  <div>
+                    <p className="text-muted-foreground">Tracking number</p>
+                    <p className="font-mono">{tracking.tracking_number || 'Not available yet'}</p>
+                  </div>
+                </div>
+                <div className="flex items-start gap-2">
+                  <CalendarClock className="h-4 w-4 text-muted-foreground mt-0.5" />
+                  <div>
+                    <p className="text-muted-foreground">
+                      {tracking.delivered_at ? 'Delivered on' : 'Estimated delivery'}
+                    </p>
+                    <p>
+                      {tracking.delivered_at
+                        ? formatDate(tracking.delivered_at)
+                        : tracking.estimated_delivery
+                          ? formatDate(tracking.estimated_delivery)
+                          : 'To be confirmed'}
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              <OrderStatusTimeline entries={buildStatusTimeline(tracking)} showActor />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
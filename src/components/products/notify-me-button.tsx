@@ -0,0 +1,128 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { useRestockSubscription } from '@/hooks/use-products';
+import { ApiError } from '@/lib/api-client';
+import { RestockSubscriptionSchema, type RestockSubscriptionInput } from '@/lib/restock-schemas';
+import { cn } from '@/lib/utils';
+import { useUser } from '@/store/auth-store';
+import type { Product, ProductVariant } from '@/types';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Bell, BellRing } from 'lucide-react';
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+
+interface NotifyMeButtonProps {
+  product: Product;
+  // Out-of-stock option the customer is waiting for
+  variant?: ProductVariant;
+  size?: 'default' | 'sm' | 'lg';
+  className?: string;
+}
+
+export function NotifyMeButton({ product, variant, size = 'default', className }: NotifyMeButtonProps) {
+  const user = useUser();
+  const [open, setOpen] = useState(false);
+  const [subscribed, setSubscribed] = useState(false);
+  const subscription = useRestockSubscription(product.id);
+
+  const form = useForm<RestockSubscriptionInput>({
+    resolver: zodResolver(RestockSubscriptionSchema),
+    defaultValues: { email: user?.email || '' },
+  });
+
+  const handleSubmit = async (data: RestockSubscriptionInput) => {
+    try {
+      const response = await subscription.mutateAsync({
+        email: data.email || undefined,
+        variant_id: variant?.id,
+      });
+      toast.success(response.message);
+      setSubscribed(true);
+      setOpen(false);
+    } catch (error) {
+      if (error instanceof ApiError && error.fieldErrors?.email) {
+        form.setError('email', { message: error.fieldErrors.email });
+        return;
+      }
+
+      toast.error('Could not sign you up', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size={size}
+        disabled={subscribed}
+        className={cn('cursor-pointer', className)}
+        onClick={e => {
+          // Cards wrap their content in a link to the product page
+          e.preventDefault();
+          e.stopPropagation();
+          setOpen(true);
+        }}
+      >
+        {subscribed ? <BellRing className="mr-2 h-4 w-4" /> : <Bell className="mr-2 h-4 w-4" />}
+        {subscribed ? "We'll notify you" : 'Notify Me'}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        {/* Keep clicks in the dialog from reaching a surrounding product link */}
+        <DialogContent onClick={e => e.stopPropagation()}>
+          <DialogHeader>
+            <DialogTitle>Get notified when it&apos;s back</DialogTitle>
+            <DialogDescription>
+              {product.name}
+              {variant ? ` (${variant.name})` : ''} is out of stock. We&apos;ll send you one email
+              as soon as it&apos;s available again.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="you@example.com" autoComplete="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                  Cancel
+                </Button>
+                <LoadingButton type="submit" loading={subscription.isPending}>
+                  Notify Me
+                </LoadingButton>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
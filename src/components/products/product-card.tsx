@@ -1,9 +1,13 @@
 'use client';
 
+import { NotifyMeButton } from '@/components/products/notify-me-button';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Price } from '@/components/ui/price';
+import { canPurchase, formatPreOrderAvailability } from '@/lib/preorder-utils';
+import { getProductPath } from '@/lib/product-utils';
+import { getDefaultVariant } from '@/lib/product-variants';
 import { cn } from '@/lib/utils';
 import { useBookmarksStore, useCartStore } from '@/store';
 import { useAuthStore } from '@/store/auth-store';
@@ -28,9 +32,13 @@ export function ProductCard({ product, className }: ProductCardProps) {
   // For guest users, always show "not bookmarked" state to prevent hydration mismatches
   const isProductBookmarked = isAuthenticated ? isBookmarked(product.id) : false;
 
+  // Quick add uses the preselected variant; other sizes are picked on the detail page
+  const defaultVariant = getDefaultVariant(product);
+  const purchasable = canPurchase(product, defaultVariant);
+
   // Prevent hydration mismatch by only showing cart state after hydration
-  const isProductInCart = isHydrated ? isInCart(product.id) : false;
-  const cartQuantity = isHydrated ? getItemQuantity(product.id) : 0;
+  const isProductInCart = isHydrated ? isInCart(product.id, defaultVariant?.id) : false;
+  const cartQuantity = isHydrated ? getItemQuantity(product.id, defaultVariant?.id) : 0;
 
   // Detect if this is list view mode
   const isListView = className?.includes('flex-row');
@@ -39,13 +47,17 @@ export function ProductCard({ product, className }: ProductCardProps) {
     e.preventDefault();
     e.stopPropagation();
 
-    if (!product.inStock) {
+    if (!purchasable) {
       toast.error('Product is out of stock');
       return;
     }
 
-    addItem(product);
-    toast.success(`${product.name} added to cart`);
+    addItem(product, 1, defaultVariant);
+    toast.success(
+      `${product.name}${defaultVariant ? ` (${defaultVariant.name})` : ''} added to cart${
+        product.preOrder ? ' as a pre-order' : ''
+      }`
+    );
   };
 
   const handleToggleBookmark = (e: React.MouseEvent) => {
@@ -75,7 +87,7 @@ export function ProductCard({ product, className }: ProductCardProps) {
   if (isListView) {
     return (
       <Card className="group overflow-hidden border border-gray-200 shadow-md hover:shadow-xl transition-all duration-300 hover:scale-[1.02] rounded-lg flex min-h-[220px]">
-        <Link href={`/products/${product.id}`} className="flex w-full">
+        <Link href={getProductPath(product)} className="flex w-full">
           {/* Image section */}
           <div className="relative overflow-hidden w-[240px] flex-shrink-0 p-3">
             <div className="relative h-[256px] w-full rounded-lg overflow-hidden bg-gray-50">
@@ -91,13 +103,22 @@ export function ProductCard({ product, className }: ProductCardProps) {
 
             {/* Badges */}
             <div className="absolute top-4 left-4 flex flex-col gap-1.5 z-10">
-              {!product.inStock && (
+              {product.preOrder ? (
                 <Badge
-                  variant="destructive"
-                  className="bg-red-600 text-white shadow-lg border-0 text-xs px-2 py-0.5 font-medium"
+                  variant="accent"
+                  className="text-white shadow-lg border-0 text-xs px-2 py-0.5 font-medium"
                 >
-                  Out of Stock
+                  Pre-order
                 </Badge>
+              ) : (
+                !product.inStock && (
+                  <Badge
+                    variant="destructive"
+                    className="bg-red-600 text-white shadow-lg border-0 text-xs px-2 py-0.5 font-medium"
+                  >
+                    Out of Stock
+                  </Badge>
+                )
               )}
               {hasDiscount && (
                 <Badge
@@ -219,7 +240,11 @@ export function ProductCard({ product, className }: ProductCardProps) {
             <div className="mt-4 space-y-2">
               {/* Stock Status */}
               <div className="flex items-center gap-2 text-xs">
-                {product.inStock ? (
+                {product.preOrder ? (
+                  <span className="text-blue-600 font-medium">
+                    {formatPreOrderAvailability(product.preOrder)}
+                  </span>
+                ) : product.inStock ? (
                   <>
                     <span className="text-green-600 font-medium">✓ In Stock</span>
                     <span className="text-orange-600 font-medium">Only 8 left</span>
@@ -231,19 +256,26 @@ export function ProductCard({ product, className }: ProductCardProps) {
 
               {/* Add to Cart Button - not full width as requested */}
               <div className="flex justify-start">
-                <Button
-                  onClick={handleAddToCart}
-                  disabled={!product.inStock}
-                  className="h-9 font-medium transition-all duration-300 text-sm px-6 cursor-pointer"
-                  variant={isProductInCart ? 'outline' : 'default'}
-                >
-                  <ShoppingCart className="mr-2 h-4 w-4" />
-                  {isProductInCart
-                    ? `In Cart (${cartQuantity})`
-                    : product.inStock
-                    ? 'Add to Cart'
-                    : 'Out of Stock'}
-                </Button>
+                {purchasable ? (
+                  <Button
+                    onClick={handleAddToCart}
+                    className="h-9 font-medium transition-all duration-300 text-sm px-6 cursor-pointer"
+                    variant={isProductInCart ? 'outline' : 'default'}
+                  >
+                    <ShoppingCart className="mr-2 h-4 w-4" />
+                    {isProductInCart
+                      ? `In Cart (${cartQuantity})`
+                      : product.preOrder
+                      ? 'Pre-order'
+                      : 'Add to Cart'}
+                  </Button>
+                ) : (
+                  <NotifyMeButton
+                    product={product}
+                    variant={defaultVariant}
+                    className="h-9 font-medium text-sm px-6"
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -260,7 +292,7 @@ export function ProductCard({ product, className }: ProductCardProps) {
         className
       )}
     >
-      <Link href={`/products/${product.id}`}>
+      <Link href={getProductPath(product)}>
         <CardContent className="p-0">
           <div className="relative overflow-hidden">
             <div className="relative h-[355px] max-h-full w-full">
@@ -279,13 +311,22 @@ export function ProductCard({ product, className }: ProductCardProps) {
 
             {/* Badges */}
             <div className="absolute top-2 left-2 flex flex-col gap-1.5">
-              {!product.inStock && (
+              {product.preOrder ? (
                 <Badge
-                  variant="destructive"
-                  className="bg-red-600 text-white shadow-md border-0 text-xs px-2 py-0.5 font-medium"
+                  variant="accent"
+                  className="text-white shadow-md border-0 text-xs px-2 py-0.5 font-medium"
                 >
-                  Out of Stock
+                  Pre-order
                 </Badge>
+              ) : (
+                !product.inStock && (
+                  <Badge
+                    variant="destructive"
+                    className="bg-red-600 text-white shadow-md border-0 text-xs px-2 py-0.5 font-medium"
+                  >
+                    Out of Stock
+                  </Badge>
+                )
               )}
               {hasDiscount && (
                 <Badge
@@ -412,7 +453,11 @@ export function ProductCard({ product, className }: ProductCardProps) {
 
               {/* Stock Status with simulated quantity */}
               <div className="flex items-center gap-2 text-xs">
-                {product.inStock ? (
+                {product.preOrder ? (
+                  <span className="text-blue-600 font-medium">
+                    {formatPreOrderAvailability(product.preOrder)}
+                  </span>
+                ) : product.inStock ? (
                   <>
                     <span className="text-green-600 font-medium">✓ In Stock</span>
                     <span className="text-orange-600 font-medium">Only 8 left</span>
@@ -435,19 +480,26 @@ export function ProductCard({ product, className }: ProductCardProps) {
       </Link>
 
       <CardFooter className="p-4 pt-1">
-        <Button
-          onClick={handleAddToCart}
-          disabled={!product.inStock}
-          className="w-full h-10 font-medium transition-all duration-300"
-          variant={isProductInCart ? 'outline' : 'default'}
-        >
-          <ShoppingCart className="mr-2 h-4 w-4" />
-          {isProductInCart
-            ? `In Cart (${cartQuantity})`
-            : product.inStock
-            ? 'Add to Cart'
-            : 'Out of Stock'}
-        </Button>
+        {purchasable ? (
+          <Button
+            onClick={handleAddToCart}
+            className="w-full h-10 font-medium transition-all duration-300"
+            variant={isProductInCart ? 'outline' : 'default'}
+          >
+            <ShoppingCart className="mr-2 h-4 w-4" />
+            {isProductInCart
+              ? `In Cart (${cartQuantity})`
+              : product.preOrder
+              ? 'Pre-order'
+              : 'Add to Cart'}
+          </Button>
+        ) : (
+          <NotifyMeButton
+            product={product}
+            variant={defaultVariant}
+            className="w-full h-10 font-medium"
+          />
+        )}
       </CardFooter>
     </Card>
   );
@@ -1,6 +1,9 @@
 'use client';
 
+import { NotifyMeButton } from '@/components/products/notify-me-button';
 import { ProductCard } from '@/components/products/product-card';
+import { ReviewForm } from '@/components/products/review-form';
+import { ReviewSummary } from '@/components/products/review-summary';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -8,9 +11,14 @@ import { ProductDetailSkeleton } from '@/components/ui/loading';
 import { Price } from '@/components/ui/price';
 import { Rating } from '@/components/ui/rating';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useProductReviews, useReviewEligibility } from '@/hooks/use-products';
+import { BRAND_NAME } from '@/lib/constants';
+import { canPurchase, formatPreOrderAvailability } from '@/lib/preorder-utils';
+import { getProductPath } from '@/lib/product-utils';
+import { getDefaultVariant } from '@/lib/product-variants';
 import { cn } from '@/lib/utils';
 import { useAuthStore, useBookmarksStore, useCartStore } from '@/store';
-import { Product, Review } from '@/types';
+import { Product, ProductReviews } from '@/types';
 import { Heart, Minus, Plus, RotateCcw, Share2, Shield, ShoppingCart, Truck } from 'lucide-react';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
@@ -19,17 +27,19 @@ import { toast } from 'sonner';
 
 interface ProductDetailClientProps {
   product: Product;
-  reviews: Review[];
+  initialReviews: ProductReviews;
   relatedProducts: Product[];
 }
 
 export function ProductDetailClient({
   product,
-  reviews,
+  initialReviews,
   relatedProducts,
 }: ProductDetailClientProps) {
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [quantity, setQuantity] = useState(1);
+  const [selectedVariantId, setSelectedVariantId] = useState(() => getDefaultVariant(product)?.id);
+  const [isWritingReview, setIsWritingReview] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
   // Simulate loading state for demonstration
@@ -49,23 +59,36 @@ export function ProductDetailClient({
   // For guest users, always show "not bookmarked" state to prevent hydration mismatches
   const isProductBookmarked = isAuthenticated ? isBookmarked(product.id) : false;
 
+  // The selected variant's price, stock and weight replace the product's own
+  const selectedVariant = product.variants?.find(variant => variant.id === selectedVariantId);
+  const price = selectedVariant?.price ?? product.price;
+  const originalPrice = selectedVariant ? selectedVariant.originalPrice : product.originalPrice;
+  const inStock = selectedVariant?.inStock ?? product.inStock;
+  const weight = selectedVariant?.weight || product.weight;
+  const purchasable = canPurchase(product, selectedVariant);
+
   // Prevent hydration mismatch by only showing cart state after hydration
-  const isProductInCart = isHydrated ? isInCart(product.id) : false;
-  const cartQuantity = isHydrated ? getItemQuantity(product.id) : 0;
+  const isProductInCart = isHydrated ? isInCart(product.id, selectedVariant?.id) : false;
+  const cartQuantity = isHydrated ? getItemQuantity(product.id, selectedVariant?.id) : 0;
 
-  const averageRating =
-    reviews.length > 0
-      ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length
-      : 0;
+  const { data: { reviews, summary } = initialReviews } = useProductReviews(
+    product.id,
+    initialReviews
+  );
+  const { data: eligibility } = useReviewEligibility(product.id, isAuthenticated);
 
   const handleAddToCart = () => {
-    if (!product.inStock) {
+    if (!purchasable) {
       toast.error('Product is out of stock');
       return;
     }
 
-    addItem(product, quantity);
-    toast.success(`${product.name} added to cart`);
+    addItem(product, quantity, selectedVariant);
+    toast.success(
+      `${product.name}${selectedVariant ? ` (${selectedVariant.name})` : ''} added to cart${
+        product.preOrder ? ' as a pre-order' : ''
+      }`
+    );
   };
 
   const handleToggleBookmark = () => {
@@ -99,11 +122,9 @@ export function ProductDetailClient({
     }
   };
 
-  const hasDiscount = product.originalPrice && product.originalPrice > product.price;
+  const hasDiscount = originalPrice && originalPrice > price;
   const discountPercentage = hasDiscount
-    ? Math.round(
-        (((product.originalPrice ?? 0) - product.price) / (product.originalPrice ?? 1)) * 100
-      )
+    ? Math.round((((originalPrice ?? 0) - price) / (originalPrice ?? 1)) * 100)
     : 0;
 
   // Badge color logic matching ProductCard
@@ -143,10 +164,16 @@ export function ProductDetailClient({
 
             {/* Badges */}
             <div className="absolute top-4 left-4 flex flex-col gap-2">
-              {!product.inStock && (
-                <Badge variant="destructive" className="text-white text-center">
-                  Out of Stock
+              {product.preOrder ? (
+                <Badge variant="accent" className="text-white text-center">
+                  Pre-order
                 </Badge>
+              ) : (
+                !inStock && (
+                  <Badge variant="destructive" className="text-white text-center">
+                    Out of Stock
+                  </Badge>
+                )
               )}
               {hasDiscount && (
                 <Badge variant="destructive" className="text-white text-center">
@@ -209,18 +236,47 @@ export function ProductDetailClient({
 
               {/* Rating */}
               <div className="flex items-center gap-4 mb-4">
-                <Rating rating={averageRating} showValue />
-                <span className="text-sm text-muted-foreground">({reviews.length} reviews)</span>
+                <Rating rating={summary.averageRating} showValue />
+                <span className="text-sm text-muted-foreground">({summary.reviewCount} reviews)</span>
               </div>
 
               {/* Price */}
               <Price
-                price={product.price}
-                originalPrice={product.originalPrice}
+                price={price}
+                originalPrice={originalPrice}
                 size="lg"
                 className="mb-6"
               />
 
+              {/* Variant Picker */}
+              {product.variants && product.variants.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="font-semibold text-sm mb-3">
+                    Size:{' '}
+                    <span className="font-normal text-muted-foreground">{selectedVariant?.name}</span>
+                  </h3>
+                  <div role="radiogroup" aria-label="Size" className="flex flex-wrap gap-2">
+                    {product.variants.map(variant => (
+                      <Button
+                        key={variant.id}
+                        type="button"
+                        role="radio"
+                        aria-checked={variant.id === selectedVariant?.id}
+                        variant={variant.id === selectedVariant?.id ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => {
+                          setSelectedVariantId(variant.id);
+                          setQuantity(1);
+                        }}
+                        className={cn(!variant.inStock && 'line-through opacity-60')}
+                      >
+                        {variant.name}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Description */}
               <p className="text-muted-foreground leading-relaxed mb-6">{product.description}</p>
 
@@ -257,14 +313,14 @@ export function ProductDetailClient({
               )}
 
               {/* Product Details */}
-              {(product.weight || product.origin) && (
+              {(weight || product.origin) && (
                 <div className="bg-card/70 rounded-lg p-4 mb-6 border border-border/50">
                   <h3 className="font-semibold text-sm mb-3">Product Details</h3>
                   <div className="grid grid-cols-2 gap-4 text-sm">
-                    {product.weight && (
+                    {weight && (
                       <div>
                         <span className="text-muted-foreground">Weight:</span>
-                        <span className="ml-2 font-medium">{product.weight}</span>
+                        <span className="ml-2 font-medium">{weight}</span>
                       </div>
                     )}
                     {product.origin && (
@@ -299,7 +355,21 @@ export function ProductDetailClient({
             </div>
 
             {/* Stock Status */}
-            {product.inStock ? (
+            {product.preOrder ? (
+              <div className="mb-4 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="w-2 h-2 bg-blue-500 rounded-full"></span>
+                  <span className="text-sm text-blue-600 font-medium">
+                    Pre-order · {formatPreOrderAvailability(product.preOrder)}
+                  </span>
+                </div>
+                {product.preOrder.depositFree && (
+                  <p className="text-xs text-muted-foreground ml-4">
+                    No deposit needed - you pay on delivery when your order ships.
+                  </p>
+                )}
+              </div>
+            ) : inStock ? (
               <div className="flex items-center gap-2 mb-4">
                 <span className="w-2 h-2 bg-green-500 rounded-full"></span>
                 <span className="text-sm text-green-600 font-medium">In Stock</span>
@@ -329,7 +399,7 @@ export function ProductDetailClient({
                     variant="outline"
                     size="icon"
                     onClick={() => setQuantity(quantity + 1)}
-                    disabled={!product.inStock}
+                    disabled={!purchasable}
                   >
                     <Plus className="h-4 w-4" />
                   </Button>
@@ -337,19 +407,23 @@ export function ProductDetailClient({
               </div>
 
               <div className="flex gap-4">
-                <Button
-                  onClick={handleAddToCart}
-                  disabled={!product.inStock}
-                  className="flex-1"
-                  size="lg"
-                >
-                  <ShoppingCart className="mr-2 h-5 w-5" />
-                  {isProductInCart
-                    ? `In Cart (${cartQuantity})`
-                    : product.inStock
-                    ? 'Add to Cart'
-                    : 'Out of Stock'}
-                </Button>
+                {purchasable ? (
+                  <Button onClick={handleAddToCart} className="flex-1" size="lg">
+                    <ShoppingCart className="mr-2 h-5 w-5" />
+                    {isProductInCart
+                      ? `In Cart (${cartQuantity})`
+                      : product.preOrder
+                      ? 'Pre-order Now'
+                      : 'Add to Cart'}
+                  </Button>
+                ) : (
+                  <NotifyMeButton
+                    product={product}
+                    variant={selectedVariant}
+                    size="lg"
+                    className="flex-1"
+                  />
+                )}
 
                 <Button
                   variant="outline"
@@ -401,7 +475,7 @@ export function ProductDetailClient({
         <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="details">Details</TabsTrigger>
           <TabsTrigger value="benefits">Benefits</TabsTrigger>
-          <TabsTrigger value="reviews">Reviews ({reviews.length})</TabsTrigger>
+          <TabsTrigger value="reviews">Reviews ({summary.reviewCount})</TabsTrigger>
         </TabsList>
 
         <TabsContent value="details" className="mt-6">
@@ -411,10 +485,10 @@ export function ProductDetailClient({
                 <div>
                   <h3 className="font-semibold mb-3">Product Information</h3>
                   <dl className="space-y-2">
-                    {product.weight && (
+                    {weight && (
                       <>
                         <dt className="text-sm text-muted-foreground">Weight:</dt>
-                        <dd className="text-sm font-medium">{product.weight}</dd>
+                        <dd className="text-sm font-medium">{weight}</dd>
                       </>
                     )}
                     {product.origin && (
@@ -427,7 +501,7 @@ export function ProductDetailClient({
                     <dd className="text-sm font-medium capitalize">{product.category}</dd>
                     <dt className="text-sm text-muted-foreground">Availability:</dt>
                     <dd className="text-sm font-medium">
-                      {product.inStock ? 'In Stock' : 'Out of Stock'}
+                      {product.preOrder ? 'Pre-order' : inStock ? 'In Stock' : 'Out of Stock'}
                     </dd>
                   </dl>
                 </div>
@@ -468,6 +542,54 @@ export function ProductDetailClient({
 
         <TabsContent value="reviews" className="mt-6">
           <div className="space-y-6">
+            <Card className="bg-card/70">
+              <CardContent className="p-6 space-y-6">
+                {summary.reviewCount > 0 && <ReviewSummary summary={summary} />}
+
+                {/* Only customers with a delivered order can write a review */}
+                {!isAuthenticated ? (
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <p className="text-sm text-muted-foreground">
+                      Bought this product? Sign in to share your experience.
+                    </p>
+                    <Button
+                      variant="outline"
+                      onClick={() =>
+                        router.push(`/login?redirect=${encodeURIComponent(getProductPath(product))}`)
+                      }
+                    >
+                      Sign in to Review
+                    </Button>
+                  </div>
+                ) : eligibility?.canReview ? (
+                  isWritingReview ? (
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <h3 className="font-semibold">Write a Review</h3>
+                        <Button variant="ghost" size="sm" onClick={() => setIsWritingReview(false)}>
+                          Cancel
+                        </Button>
+                      </div>
+                      <ReviewForm
+                        productId={product.id}
+                        onSubmitted={() => setIsWritingReview(false)}
+                      />
+                    </div>
+                  ) : (
+                    <Button onClick={() => setIsWritingReview(true)}>Write a Review</Button>
+                  )
+                ) : eligibility?.reason === 'ALREADY_REVIEWED' ? (
+                  <p className="text-sm text-muted-foreground">
+                    You have already reviewed this product. Thank you!
+                  </p>
+                ) : eligibility?.reason === 'NOT_DELIVERED' ? (
+                  <p className="text-sm text-muted-foreground">
+                    Reviews are open to customers who have received this product.
+                  </p>
+                ) : null}
+              </CardContent>
+            </Card>
+
             {reviews.length > 0 ? (
               reviews.map(review => (
                 <Card key={review.id} className="bg-card/70">
@@ -489,6 +611,33 @@ export function ProductDetailClient({
                       )}
                     </div>
                     <p className="text-muted-foreground">{review.comment}</p>
+                    {review.adminReply && (
+                      <div className="mt-4 rounded-md border-l-2 border-primary bg-muted/40 p-3">
+                        <p className="text-xs font-semibold mb-1">Response from {BRAND_NAME}</p>
+                        <p className="text-sm text-muted-foreground">{review.adminReply}</p>
+                      </div>
+                    )}
+                    {review.images && review.images.length > 0 && (
+                      <div className="flex flex-wrap gap-3 mt-4">
+                        {review.images.map(url => (
+                          <a
+                            key={url}
+                            href={url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="relative w-20 h-20 rounded-md overflow-hidden border"
+                          >
+                            <Image
+                              src={url}
+                              alt={`Photo from ${review.userName}`}
+                              fill
+                              className="object-cover"
+                              sizes="80px"
+                            />
+                          </a>
+                        ))}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               ))
@@ -4,9 +4,11 @@ import { useUser, useIsAuthenticated } from '@/store/auth-store';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
 import { ErrorBoundary } from '@/components/ui/error-boundary';
 import { ProductsErrorFallback } from '@/components/ui/error-fallbacks';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { ProductCardSkeleton, ProductGridSkeleton } from '@/components/ui/loading';
 import {
   Select,
@@ -16,114 +18,159 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
-import { useProducts } from '@/hooks/use-products';
-import { PRODUCT_CATEGORIES } from '@/lib/constants';
+import { Slider } from '@/components/ui/slider';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useCategories, useInfiniteProducts } from '@/hooks/use-products';
+import { orderCategoryTree } from '@/lib/category-utils';
+import { parseProductFilters, serializeProductFilters } from '@/lib/product-search';
 import { cn } from '@/lib/utils';
-import { ProductFilters } from '@/types';
-import { Grid, List, Search } from 'lucide-react';
-import { useSearchParams } from 'next/navigation';
-import { JSX, useMemo, useState } from 'react';
+import { Category, ProductFilters } from '@/types';
+import { Grid, List, Loader2, Search } from 'lucide-react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { JSX, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 interface ProductsClientProps {
   // No props needed - user data comes from ServerAuthProvider
 }
 
+function formatPriceLabel(amount: number): string {
+  return `৳${amount.toLocaleString()}`;
+}
+
 export function ProductsClient(): JSX.Element {
   // Get user data from auth store
   const user = useUser();
   const isAuthenticated = useIsAuthenticated();
+  const router = useRouter();
+  const pathname = usePathname();
   const searchParams = useSearchParams();
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
 
-  const [filters, setFilters] = useState<ProductFilters>({
-    search: searchParams.get('search') || '',
-    category: searchParams.get('category') || 'all',
-    sortBy: 'name',
-    sortOrder: 'asc',
-    inStock: undefined,
-  });
+  // The URL query is the single source of truth, so filtered results are shareable
+  const filters = useMemo(
+    () => parseProductFilters(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+
+  const [searchInput, setSearchInput] = useState(filters.search || '');
+  const debouncedSearch = useDebouncedValue(searchInput, 400);
+  const [priceDraft, setPriceDraft] = useState<[number, number] | null>(null);
+  const pushedSearchRef = useRef(filters.search);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
   // Fetch data using React Query hooks
   const {
-    data: products = [],
-    isLoading: productsLoading,
+    data,
+    isLoading,
+    isFetching,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
     error: productsError,
     refetch: refetchProducts,
-  } = useProducts(filters);
-
-  const isLoading = productsLoading;
-
-  // Filter and sort products
-  const filteredProducts = useMemo(() => {
-    if (!products || !Array.isArray(products)) return [];
-    let filtered = [...products];
-
-    // Search filter
-    if (filters.search) {
-      const searchLower = filters.search.toLowerCase();
-      filtered = filtered.filter(
-        product =>
-          product.name.toLowerCase().includes(searchLower) ||
-          product.description.toLowerCase().includes(searchLower) ||
-          product.tags?.some((tag: string) => tag.toLowerCase().includes(searchLower))
-      );
-    }
+  } = useInfiniteProducts(filters);
 
-    // Category filter
-    if (filters.category && filters.category !== 'all') {
-      filtered = filtered.filter(product => product.category === filters.category);
+  const products = useMemo(() => data?.pages.flatMap(page => page.data) ?? [], [data]);
+  const totalProducts = data?.pages[0]?.pagination.total ?? 0;
+  const facets = data?.pages[0]?.facets;
+  const { data: categoriesData } = useCategories();
+  const categories = useMemo(
+    () => (categoriesData as { categories?: Category[] } | undefined)?.categories || [],
+    [categoriesData]
+  );
+
+  const updateFilters = useCallback(
+    (changes: Partial<ProductFilters>) => {
+      const query = serializeProductFilters({ ...filters, ...changes }).toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    },
+    [filters, pathname, router]
+  );
+
+  // Keep the input in step when the search changes elsewhere, e.g. the navbar,
+  // without overwriting what the user typed since the last update
+  useEffect(() => {
+    if (filters.search !== pushedSearchRef.current) {
+      pushedSearchRef.current = filters.search;
+      setSearchInput(filters.search || '');
     }
+  }, [filters.search]);
 
-    // Stock filter
-    if (filters.inStock !== undefined) {
-      filtered = filtered.filter(product => product.inStock === filters.inStock);
+  useEffect(() => {
+    const search = debouncedSearch.trim() || undefined;
+    if (search !== filters.search) {
+      pushedSearchRef.current = search;
+      updateFilters({ search });
     }
+    // Only a settled search input should update the URL
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedSearch]);
 
-    // Sort
-    filtered.sort((a, b) => {
-      let aValue: any, bValue: any;
-
-      switch (filters.sortBy) {
-        case 'price':
-          aValue = a.price;
-          bValue = b.price;
-          break;
-        case 'name':
-          aValue = a.name.toLowerCase();
-          bValue = b.name.toLowerCase();
-          break;
-        default:
-          aValue = a.name.toLowerCase();
-          bValue = b.name.toLowerCase();
-      }
-
-      if (filters.sortOrder === 'desc') {
-        return aValue < bValue ? 1 : -1;
-      }
-      return aValue > bValue ? 1 : -1;
-    });
+  // Infinite scroll - load the next page as the end of the grid comes into view
+  useEffect(() => {
+    const target = loadMoreRef.current;
+    if (!target || !hasNextPage) return;
 
-    return filtered;
-  }, [filters, products]);
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: '200px' }
+    );
 
-  const handleFilterChange = (key: keyof ProductFilters, value: any) => {
-    setFilters(prev => ({ ...prev, [key]: value }));
+    observer.observe(target);
+    return () => observer.disconnect();
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage]);
+
+  // Categories in admin-defined order; a parent's count includes its sub-categories
+  const categoryOptions = useMemo(() => {
+    const counts = new Map(facets?.categories.map(facet => [facet.value, facet.count]));
+    const tree = orderCategoryTree(categories);
+    const known = tree.map(category => ({
+      value: category.slug,
+      label: category.name,
+      depth: category.depth,
+      count: tree
+        .filter(candidate => candidate.id === category.id || (category.depth === 0 && candidate.parentId === category.id))
+        .reduce((total, candidate) => total + (counts.get(candidate.slug) ?? 0), 0),
+    }));
+    const extra = (facets?.categories || [])
+      .filter(facet => !tree.some(category => category.slug === facet.value))
+      .map(facet => ({ value: facet.value, label: facet.value, depth: 0, count: facet.count }));
+
+    return [...known, ...extra];
+  }, [categories, facets]);
+
+  const priceBounds: [number, number] = [facets?.priceRange.min ?? 0, facets?.priceRange.max ?? 0];
+  const priceValue: [number, number] = priceDraft ?? [
+    Math.max(priceBounds[0], filters.priceRange?.[0] ?? priceBounds[0]),
+    Math.min(priceBounds[1], filters.priceRange?.[1] ?? priceBounds[1]),
+  ];
+
+  const handlePriceCommit = (value: number[]) => {
+    const [min, max] = value;
+    setPriceDraft(null);
+    updateFilters({
+      priceRange: min <= priceBounds[0] && max >= priceBounds[1] ? undefined : [min, max],
+    });
   };
 
   const clearFilters = () => {
-    setFilters({
-      search: '',
-      category: 'all',
-      sortBy: 'name',
-      sortOrder: 'asc',
-      inStock: undefined,
-    });
+    pushedSearchRef.current = undefined;
+    setSearchInput('');
+    setPriceDraft(null);
+    router.replace(pathname, { scroll: false });
   };
 
-  const activeFiltersCount = Object.values(filters).filter(
-    value =>
-      value !== '' && value !== undefined && value !== 'name' && value !== 'asc' && value !== 'all'
-  ).length;
+  const activeFiltersCount = [
+    filters.search,
+    filters.category,
+    filters.origin,
+    filters.priceRange,
+    filters.inStock,
+  ].filter(value => value !== undefined).length;
 
   // Handle error state
   if (productsError) {
@@ -165,25 +212,25 @@ export function ProductsClient(): JSX.Element {
                 <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                 <Input
                   placeholder="Search products..."
-                  value={filters.search}
-                  onChange={e => handleFilterChange('search', e.target.value)}
+                  value={searchInput}
+                  onChange={e => setSearchInput(e.target.value)}
                   className="pl-10"
                 />
               </div>
 
               {/* Category Filter */}
               <Select
-                value={filters.category}
-                onValueChange={value => handleFilterChange('category', value)}
+                value={filters.category || 'all'}
+                onValueChange={value => updateFilters({ category: value === 'all' ? undefined : value })}
               >
                 <SelectTrigger className="w-full lg:w-48">
                   <SelectValue placeholder="All Categories" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Categories</SelectItem>
-                  {PRODUCT_CATEGORIES.map(category => (
-                    <SelectItem key={category.id} value={category.id}>
-                      {category.name}
+                  {categoryOptions.map(category => (
+                    <SelectItem key={category.value} value={category.value} className={cn(category.depth > 0 && 'pl-6')}>
+                      {category.label} ({category.count})
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -193,9 +240,11 @@ export function ProductsClient(): JSX.Element {
               <Select
                 value={`${filters.sortBy}-${filters.sortOrder}`}
                 onValueChange={value => {
-                  const [sortBy, sortOrder] = value.split('-');
-                  handleFilterChange('sortBy', sortBy);
-                  handleFilterChange('sortOrder', sortOrder);
+                  const [sortBy, sortOrder] = value.split('-') as [
+                    ProductFilters['sortBy'],
+                    ProductFilters['sortOrder'],
+                  ];
+                  updateFilters({ sortBy, sortOrder });
                 }}
               >
                 <SelectTrigger className="w-full lg:w-48">
@@ -206,6 +255,8 @@ export function ProductsClient(): JSX.Element {
                   <SelectItem value="name-desc">Name (Z-A)</SelectItem>
                   <SelectItem value="price-asc">Price (Low to High)</SelectItem>
                   <SelectItem value="price-desc">Price (High to Low)</SelectItem>
+                  <SelectItem value="rating-desc">Top Rated</SelectItem>
+                  <SelectItem value="newest-desc">Newest</SelectItem>
                 </SelectContent>
               </Select>
 
@@ -228,6 +279,57 @@ export function ProductsClient(): JSX.Element {
               </div>
             </div>
 
+            {/* Facets */}
+            <div className="mt-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-3 items-center">
+              <Select
+                value={filters.origin || 'all'}
+                onValueChange={value => updateFilters({ origin: value === 'all' ? undefined : value })}
+                disabled={!facets?.origins.length && !filters.origin}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="All Origins" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Origins</SelectItem>
+                  {facets?.origins.map(origin => (
+                    <SelectItem key={origin.value} value={origin.value}>
+                      {origin.value} ({origin.count})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="in-stock-only"
+                  checked={filters.inStock === true}
+                  onCheckedChange={checked => updateFilters({ inStock: checked === true ? true : undefined })}
+                />
+                <Label htmlFor="in-stock-only" className="font-normal">
+                  In stock only ({facets?.availability.inStock ?? 0})
+                </Label>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">Price</span>
+                  <span className="text-muted-foreground">
+                    {formatPriceLabel(priceValue[0])} - {formatPriceLabel(priceValue[1])}
+                  </span>
+                </div>
+                <Slider
+                  min={priceBounds[0]}
+                  max={priceBounds[1]}
+                  step={1}
+                  value={priceValue}
+                  onValueChange={value => setPriceDraft([value[0], value[1]])}
+                  onValueCommit={handlePriceCommit}
+                  disabled={priceBounds[0] >= priceBounds[1]}
+                  aria-label="Price range"
+                />
+              </div>
+            </div>
+
             {/* Active Filters */}
             {activeFiltersCount > 0 && (
               <>
@@ -235,11 +337,19 @@ export function ProductsClient(): JSX.Element {
                 <div className="flex items-center gap-2 flex-wrap">
                   <span className="text-sm font-medium">Active filters:</span>
                   {filters.search && <Badge variant="secondary">Search: {filters.search}</Badge>}
-                  {filters.category && filters.category !== 'all' && (
+                  {filters.category && (
+                    <Badge variant="secondary">
+                      Category:{' '}
+                      {categoryOptions.find(c => c.value === filters.category)?.label || filters.category}
+                    </Badge>
+                  )}
+                  {filters.origin && <Badge variant="secondary">Origin: {filters.origin}</Badge>}
+                  {filters.priceRange && (
                     <Badge variant="secondary">
-                      Category: {PRODUCT_CATEGORIES.find(c => c.id === filters.category)?.name}
+                      Price: {formatPriceLabel(priceValue[0])} - {formatPriceLabel(priceValue[1])}
                     </Badge>
                   )}
+                  {filters.inStock && <Badge variant="secondary">In stock</Badge>}
                   <Button
                     variant="ghost"
                     size="sm"
@@ -257,7 +367,10 @@ export function ProductsClient(): JSX.Element {
         {/* Results */}
         {!isLoading && (
           <div className="mb-6 flex items-center justify-between">
-            <p className="text-muted-foreground">{filteredProducts.length} products found</p>
+            <p className="text-muted-foreground">{totalProducts} products found</p>
+            {isFetching && !isFetchingNextPage && (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            )}
           </div>
         )}
 
@@ -275,7 +388,7 @@ export function ProductsClient(): JSX.Element {
               <ProductCardSkeleton key={i} viewMode={viewMode} />
             ))}
           </div>
-        ) : filteredProducts.length > 0 ? (
+        ) : products.length > 0 ? (
           <div
             className={cn(
               'grid gap-6',
@@ -284,7 +397,7 @@ export function ProductsClient(): JSX.Element {
                 : 'grid-cols-1'
             )}
           >
-            {filteredProducts.map(product => (
+            {products.map(product => (
               <ProductCard
                 key={product.id}
                 product={product}
@@ -300,6 +413,26 @@ export function ProductsClient(): JSX.Element {
             <Button onClick={clearFilters}>Clear filters</Button>
           </div>
         )}
+
+        {/* Infinite scroll sentinel - the button loads more manually */}
+        {hasNextPage && (
+          <div ref={loadMoreRef} className="flex justify-center py-8">
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Loading...
+                </>
+              ) : (
+                'Load more'
+              )}
+            </Button>
+          </div>
+        )}
       </div>
     </ErrorBoundary>
   );
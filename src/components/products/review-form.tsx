@@ -0,0 +1,226 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { Progress } from '@/components/ui/progress';
+import { Rating } from '@/components/ui/rating';
+import { Textarea } from '@/components/ui/textarea';
+import { useCreateReview } from '@/hooks/use-products';
+import { ApiError } from '@/lib/api-client';
+import { uploadReviewImage, validateImageFile } from '@/lib/imagekit';
+import {
+  MAX_REVIEW_IMAGES,
+  ReviewFormSchema,
+  type ReviewFormInput,
+  type ReviewFormValues,
+} from '@/lib/review-schemas';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ImagePlus, X } from 'lucide-react';
+import Image from 'next/image';
+import { useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+
+interface ReviewFormProps {
+  productId: string;
+  onSubmitted?: () => void;
+}
+
+export function ReviewForm({ productId, onSubmitted }: ReviewFormProps) {
+  const createReview = useCreateReview(productId);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+
+  const form = useForm<ReviewFormValues, unknown, ReviewFormInput>({
+    resolver: zodResolver(ReviewFormSchema),
+    defaultValues: {
+      rating: 0,
+      comment: '',
+      images: [],
+    },
+  });
+
+  const images = form.watch('images') || [];
+  const isUploading = uploadProgress !== null;
+
+  const handleFilesSelected = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const remaining = MAX_REVIEW_IMAGES - images.length;
+    const selected = Array.from(files).slice(0, remaining);
+
+    if (files.length > remaining) {
+      toast.warning(`You can add up to ${MAX_REVIEW_IMAGES} photos`);
+    }
+
+    const uploaded: string[] = [];
+
+    for (const file of selected) {
+      const validation = validateImageFile(file);
+      if (!validation.isValid) {
+        toast.error(validation.error);
+        continue;
+      }
+
+      try {
+        setUploadProgress(0);
+        const result = await uploadReviewImage(file, productId, setUploadProgress);
+        uploaded.push(result.url);
+      } catch (error) {
+        toast.error('Photo upload failed', {
+          description: error instanceof Error ? error.message : undefined,
+        });
+      }
+    }
+
+    setUploadProgress(null);
+    form.setValue('images', [...images, ...uploaded], { shouldValidate: true });
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleRemoveImage = (url: string) => {
+    form.setValue(
+      'images',
+      images.filter(image => image !== url),
+      { shouldValidate: true }
+    );
+  };
+
+  const handleSubmit = async (data: ReviewFormInput) => {
+    try {
+      await createReview.mutateAsync(data);
+      toast.success('Thanks for your review!', {
+        description: 'It will appear on this page once it has been approved.',
+      });
+      form.reset();
+      onSubmitted?.();
+    } catch (error) {
+      if (error instanceof ApiError && error.fieldErrors) {
+        Object.entries(error.fieldErrors).forEach(([field, message]) => {
+          if (field === 'rating' || field === 'comment' || field === 'images') {
+            form.setError(field, { message });
+          }
+        });
+      }
+
+      toast.error('Could not submit your review', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="rating"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Your Rating *</FormLabel>
+              <FormControl>
+                <Rating
+                  rating={field.value}
+                  size="lg"
+                  readonly={false}
+                  onRatingChange={rating => field.onChange(rating)}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="comment"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Your Review *</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="What did you like or dislike? How did you use this product?"
+                  rows={4}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="images"
+          render={() => (
+            <FormItem>
+              <FormLabel>Photos</FormLabel>
+              <div className="flex flex-wrap gap-3">
+                {images.map(url => (
+                  <div key={url} className="relative w-20 h-20 rounded-md overflow-hidden border">
+                    <Image src={url} alt="Review photo" fill className="object-cover" sizes="80px" />
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveImage(url)}
+                      className="absolute top-1 right-1 rounded-full bg-background/80 p-0.5 hover:bg-background"
+                      aria-label="Remove photo"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+
+                {images.length < MAX_REVIEW_IMAGES && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-20 h-20 flex-col gap-1 text-xs"
+                    disabled={isUploading}
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    <ImagePlus className="h-5 w-5" />
+                    Add
+                  </Button>
+                )}
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                multiple
+                className="hidden"
+                onChange={event => handleFilesSelected(event.target.files)}
+              />
+              {isUploading && <Progress value={uploadProgress} className="h-2" />}
+              <FormDescription>
+                Optional. Up to {MAX_REVIEW_IMAGES} photos in JPEG, PNG or WebP.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <LoadingButton
+          type="submit"
+          loading={createReview.isPending}
+          loadingText="Submitting..."
+          disabled={isUploading}
+        >
+          Submit Review
+        </LoadingButton>
+      </form>
+    </Form>
+  );
+}
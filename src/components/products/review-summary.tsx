@@ -0,0 +1,36 @@
+import { Progress } from '@/components/ui/progress';
+import { Rating } from '@/components/ui/rating';
+import { getRatingShare, RATING_VALUES } from '@/lib/review-utils';
+import { cn } from '@/lib/utils';
+import type { ReviewSummary as ReviewSummaryData } from '@/types';
+
+interface ReviewSummaryProps {
+  summary: ReviewSummaryData;
+  className?: string;
+}
+
+export function ReviewSummary({ summary, className }: ReviewSummaryProps) {
+  return (
+    <div className={cn('flex flex-col sm:flex-row gap-6', className)}>
+      <div className="flex flex-col items-center justify-center sm:w-40 text-center">
+        <span className="text-4xl font-bold">{summary.averageRating.toFixed(1)}</span>
+        <Rating rating={summary.averageRating} className="mt-2" />
+        <span className="text-sm text-muted-foreground mt-1">
+          {summary.reviewCount} {summary.reviewCount === 1 ? 'review' : 'reviews'}
+        </span>
+      </div>
+
+      <div className="flex-1 space-y-2">
+        {RATING_VALUES.map(rating => (
+          <div key={rating} className="flex items-center gap-3 text-sm">
+            <span className="w-12 text-muted-foreground">{rating} star</span>
+            <Progress value={getRatingShare(summary, rating)} className="h-2 flex-1" />
+            <span className="w-10 text-right text-muted-foreground">
+              {summary.breakdown[rating]}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
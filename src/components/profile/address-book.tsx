@@ -0,0 +1,213 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/loading';
+import { LoadingButton } from '@/components/ui/loading-button';
+import {
+  useAddresses,
+  useCreateAddress,
+  useDeleteAddress,
+  useImportLegacyAddresses,
+  useSetDefaultAddress,
+  useUpdateAddress,
+} from '@/hooks/use-addresses';
+import type { AddressFormData } from '@/lib/address-schemas';
+import { formatAddressLine } from '@/lib/address-utils';
+import type { ShippingAddress } from '@/types';
+import type { User } from '@/types/auth';
+import { MapPin, Pencil, Plus, Star, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { AddressFormDialog } from './address-form-dialog';
+
+interface AddressBookProps {
+  user: User;
+}
+
+export function AddressBook({ user }: AddressBookProps) {
+  const { data: addresses = [], isLoading, isError, refetch } = useAddresses();
+  const createAddress = useCreateAddress();
+  const updateAddress = useUpdateAddress();
+  const deleteAddress = useDeleteAddress();
+  const setDefaultAddress = useSetDefaultAddress();
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingAddress, setEditingAddress] = useState<ShippingAddress | null>(null);
+  const [addressToDelete, setAddressToDelete] = useState<ShippingAddress | null>(null);
+
+  useImportLegacyAddresses();
+
+  const openForm = (address: ShippingAddress | null) => {
+    setEditingAddress(address);
+    setFormOpen(true);
+  };
+
+  const handleSubmit = async (data: AddressFormData) => {
+    if (editingAddress) {
+      await updateAddress.mutateAsync({ id: editingAddress.id, data });
+      toast.success('Address updated');
+    } else {
+      const response = await createAddress.mutateAsync(data);
+      toast.success(response.data.duplicate ? 'Address already saved' : 'Address saved', {
+        description: response.data.duplicate
+          ? 'This address was already in your address book'
+          : undefined,
+      });
+    }
+
+    setFormOpen(false);
+  };
+
+  const handleDelete = async () => {
+    if (!addressToDelete) return;
+
+    try {
+      await deleteAddress.mutateAsync(addressToDelete.id);
+      toast.success('Address deleted');
+      setAddressToDelete(null);
+    } catch (error) {
+      toast.error('Could not delete the address', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const handleSetDefault = async (address: ShippingAddress) => {
+    try {
+      await setDefaultAddress.mutateAsync(address.id);
+      toast.success('Default address updated');
+    } catch (error) {
+      toast.error('Could not update the default address', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(2)].map((_, i) => (
+          <Skeleton key={i} className="h-24 w-full rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="py-6 text-center">
+        <p className="text-muted-foreground mb-4">We couldn&apos;t load your addresses.</p>
+        <Button variant="outline" onClick={() => refetch()}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {addresses.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 rounded-lg border border-dashed py-8 text-center">
+          <MapPin className="h-8 w-8 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            No saved addresses yet. Add one to check out faster.
+          </p>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {addresses.map(address => (
+            <li key={address.id} className="rounded-lg border p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{address.name}</p>
+                    {address.isDefault && <Badge variant="secondary">Default</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">{address.phone}</p>
+                  <p className="text-sm">{formatAddressLine(address)}</p>
+                </div>
+
+                <div className="flex flex-shrink-0 items-center gap-1">
+                  {!address.isDefault && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Set as default"
+                      onClick={() => handleSetDefault(address)}
+                      disabled={setDefaultAddress.isPending}
+                    >
+                      <Star className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon" title="Edit" onClick={() => openForm(address)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Delete"
+                    onClick={() => setAddressToDelete(address)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={() => openForm(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Address
+        </Button>
+      </div>
+
+      {formOpen && (
+        <AddressFormDialog
+          key={editingAddress?.id || 'new'}
+          open={formOpen}
+          onOpenChange={setFormOpen}
+          address={editingAddress}
+          defaultContact={{ name: user.name, phone: user.phone_number }}
+          onSubmit={handleSubmit}
+          isSaving={createAddress.isPending || updateAddress.isPending}
+        />
+      )}
+
+      <Dialog open={!!addressToDelete} onOpenChange={open => !open && setAddressToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Address</DialogTitle>
+            <DialogDescription>
+              Remove {addressToDelete ? formatAddressLine(addressToDelete) : 'this address'} from
+              your address book?
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAddressToDelete(null)}>
+              Cancel
+            </Button>
+            <LoadingButton
+              variant="destructive"
+              onClick={handleDelete}
+              loading={deleteAddress.isPending}
+            >
+              Delete Address
+            </LoadingButton>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { LoadingButton } from '@/components/ui/loading-button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { ApiError } from '@/lib/api-client';
+import {
+  AddressFormSchema,
+  type AddressFormData,
+  type AddressFormInput,
+} from '@/lib/address-schemas';
+import { getCityAreas } from '@/lib/address-utils';
+import { BANGLADESHI_CITIES } from '@/lib/constants';
+import type { ShippingAddress } from '@/types';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+
+const ADDRESS_FIELDS: Array<keyof AddressFormInput> = [
+  'name',
+  'phone',
+  'address',
+  'city',
+  'area',
+  'postalCode',
+];
+
+interface AddressFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  address?: ShippingAddress | null;
+  defaultContact?: { name?: string; phone?: string };
+  onSubmit: (data: AddressFormData) => Promise<void>;
+  isSaving?: boolean;
+}
+
+export function AddressFormDialog({
+  open,
+  onOpenChange,
+  address,
+  defaultContact,
+  onSubmit,
+  isSaving = false,
+}: AddressFormDialogProps) {
+  const form = useForm<AddressFormInput, unknown, AddressFormData>({
+    resolver: zodResolver(AddressFormSchema),
+    defaultValues: {
+      name: address?.name || defaultContact?.name || '',
+      phone: address?.phone || defaultContact?.phone || '',
+      address: address?.address || '',
+      city: address?.city || '',
+      area: address?.area || '',
+      postalCode: address?.postalCode || '',
+      isDefault: address?.isDefault ?? false,
+    },
+  });
+
+  const city = form.watch('city');
+  const area = form.watch('area');
+
+  const handleSubmit = async (data: AddressFormData) => {
+    try {
+      await onSubmit(data);
+    } catch (error) {
+      if (error instanceof ApiError && error.fieldErrors) {
+        Object.entries(error.fieldErrors).forEach(([field, message]) => {
+          if (ADDRESS_FIELDS.includes(field as keyof AddressFormInput)) {
+            form.setError(field as keyof AddressFormInput, { message });
+          }
+        });
+      }
+
+      toast.error('Could not save the address', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{address ? 'Edit Address' : 'Add Address'}</DialogTitle>
+          <DialogDescription>Saved addresses can be picked at checkout.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Recipient Name *</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone Number *</FormLabel>
+                    <FormControl>
+                      <Input type="tel" placeholder="01XXXXXXXXX" autoComplete="tel" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Street Address *</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="House/Flat number, Street name, Landmark"
+                      rows={3}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="city"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>City *</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={value => {
+                        field.onChange(value);
+                        // Areas belong to a city, so a change of city clears the area
+                        form.setValue('area', '');
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select city" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {BANGLADESHI_CITIES.map(cityName => (
+                          <SelectItem key={cityName} value={cityName}>
+                            {cityName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="area"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Area/Thana *</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={!city}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder={city ? 'Select area' : 'Select city first'} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {getCityAreas(city, area).map(areaName => (
+                          <SelectItem key={areaName} value={areaName}>
+                            {areaName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="postalCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Postal Code</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional" autoComplete="postal-code" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {!address?.isDefault && (
+              <FormField
+                control={form.control}
+                name="isDefault"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <FormLabel>Use as my default address</FormLabel>
+                    <FormControl>
+                      <Switch checked={!!field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <LoadingButton type="submit" loading={isSaving} loadingText="Saving...">
+                {address ? 'Save Changes' : 'Save Address'}
+              </LoadingButton>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { useRequestEmailChange, useVerifyEmailChange } from '@/hooks/use-profile';
+import { ApiError } from '@/lib/api-client';
+import { EmailChangeRequestSchema, type EmailChangeRequestData } from '@/lib/profile-schemas';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ArrowLeft, RefreshCw } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+
+interface ChangeEmailFormProps {
+  currentEmail: string;
+}
+
+/**
+ * Two-step email change: confirm the password and send a code to the new
+ * address, then enter that code. The account keeps its old email until then
+ */
+export function ChangeEmailForm({ currentEmail }: ChangeEmailFormProps) {
+  const requestEmailChange = useRequestEmailChange();
+  const verifyEmailChange = useVerifyEmailChange();
+  const [pendingRequest, setPendingRequest] = useState<EmailChangeRequestData | null>(null);
+  const [otp, setOtp] = useState('');
+  const [otpError, setOtpError] = useState<string | null>(null);
+  const [resendCooldown, setResendCooldown] = useState(0);
+
+  const form = useForm<EmailChangeRequestData>({
+    resolver: zodResolver(EmailChangeRequestSchema),
+    defaultValues: {
+      new_email: '',
+      current_password: '',
+    },
+  });
+
+  // Cooldown timer effect
+  useEffect(() => {
+    if (resendCooldown <= 0) return;
+    const timer = setTimeout(() => setResendCooldown(prev => prev - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendCooldown]);
+
+  const sendCode = async (data: EmailChangeRequestData) => {
+    const response = await requestEmailChange.mutateAsync(data);
+    setPendingRequest(data);
+    setResendCooldown(response.data.cooldownRemaining);
+    setOtp('');
+    setOtpError(null);
+    toast.success(response.message || `Verification code sent to ${data.new_email}`);
+  };
+
+  const handleRequest = async (data: EmailChangeRequestData) => {
+    if (data.new_email === currentEmail.toLowerCase()) {
+      form.setError('new_email', { message: 'This is already your email address' });
+      return;
+    }
+
+    try {
+      await sendCode(data);
+    } catch (error) {
+      if (error instanceof ApiError && error.fieldErrors) {
+        Object.entries(error.fieldErrors).forEach(([field, message]) => {
+          if (field === 'new_email' || field === 'current_password') {
+            form.setError(field, { message });
+          }
+        });
+        return;
+      }
+
+      toast.error('Could not send the verification code', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const handleResend = async () => {
+    if (!pendingRequest || resendCooldown > 0) return;
+
+    try {
+      await sendCode(pendingRequest);
+    } catch (error) {
+      toast.error('Could not resend the code', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const handleVerify = async (code: string) => {
+    if (!pendingRequest || code.length !== 6 || verifyEmailChange.isPending) return;
+
+    setOtpError(null);
+
+    try {
+      await verifyEmailChange.mutateAsync({ new_email: pendingRequest.new_email, otp: code });
+      toast.success('Email address updated', {
+        description: `You'll now sign in with ${pendingRequest.new_email}`,
+      });
+      setPendingRequest(null);
+      setOtp('');
+      form.reset();
+    } catch (error) {
+      setOtp('');
+
+      // Too many wrong codes - start over once the lock expires
+      if (error instanceof ApiError && error.errorCode === 'OTP_MAX_ATTEMPTS') {
+        toast.error(error.message);
+        setPendingRequest(null);
+        return;
+      }
+
+      setOtpError(error instanceof Error ? error.message : 'Verification failed');
+    }
+  };
+
+  const handleStartOver = () => {
+    setPendingRequest(null);
+    setOtp('');
+    setOtpError(null);
+  };
+
+  if (pendingRequest) {
+    return (
+      <div className="space-y-5">
+        <p className="text-sm text-muted-foreground">
+          Enter the 6-digit code we sent to{' '}
+          <span className="font-medium text-foreground">{pendingRequest.new_email}</span>
+        </p>
+
+        <InputOTP
+          maxLength={6}
+          value={otp}
+          onChange={value => {
+            setOtp(value);
+            setOtpError(null); // Clear error when user types
+          }}
+          onComplete={handleVerify}
+          disabled={verifyEmailChange.isPending}
+          containerClassName="gap-2"
+        >
+          <InputOTPGroup className="gap-2">
+            {[0, 1, 2, 3, 4, 5].map(index => (
+              <InputOTPSlot
+                key={index}
+                index={index}
+                className={`w-10 h-10 text-lg font-bold border-2 rounded-lg ${
+                  otpError ? 'border-destructive' : 'border-border'
+                }`}
+              />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+
+        {otpError && <p className="text-sm text-destructive">{otpError}</p>}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={handleStartOver}>
+            <ArrowLeft className="mr-1.5 h-3 w-3" />
+            Use a different email
+          </Button>
+
+          <div className="flex items-center gap-2">
+            {resendCooldown > 0 ? (
+              <span className="text-sm text-muted-foreground">
+                Resend code in <span className="text-primary font-semibold">{resendCooldown}s</span>
+              </span>
+            ) : (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={handleResend}
+                disabled={requestEmailChange.isPending}
+              >
+                <RefreshCw className="mr-1.5 h-3 w-3" />
+                Resend Code
+              </Button>
+            )}
+            <LoadingButton
+              type="button"
+              size="sm"
+              loading={verifyEmailChange.isPending}
+              loadingText="Verifying..."
+              disabled={otp.length !== 6}
+              onClick={() => handleVerify(otp)}
+            >
+              Verify
+            </LoadingButton>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleRequest)} className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Current email: <span className="font-medium text-foreground">{currentEmail}</span>
+        </p>
+
+        <FormField
+          control={form.control}
+          name="new_email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New Email</FormLabel>
+              <FormControl>
+                <Input type="email" placeholder="you@example.com" autoComplete="email" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="current_password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Current Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <LoadingButton type="submit" loading={requestEmailChange.isPending} loadingText="Sending...">
+            Send Verification Code
+          </LoadingButton>
+        </div>
+      </form>
+    </Form>
+  );
+}
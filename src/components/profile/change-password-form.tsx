@@ -0,0 +1,87 @@
+'use client';
+
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { useChangePassword } from '@/hooks/use-profile';
+import { ApiError } from '@/lib/api-client';
+import { ChangePasswordSchema, type ChangePasswordData } from '@/lib/profile-schemas';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+
+const PASSWORD_FIELDS = [
+  { name: 'current_password', label: 'Current Password', autoComplete: 'current-password' },
+  { name: 'new_password', label: 'New Password', autoComplete: 'new-password' },
+  { name: 'confirm_password', label: 'Confirm New Password', autoComplete: 'new-password' },
+] as const;
+
+export function ChangePasswordForm() {
+  const changePassword = useChangePassword();
+
+  const form = useForm<ChangePasswordData>({
+    resolver: zodResolver(ChangePasswordSchema),
+    defaultValues: {
+      current_password: '',
+      new_password: '',
+      confirm_password: '',
+    },
+  });
+
+  const handleSubmit = async (data: ChangePasswordData) => {
+    try {
+      await changePassword.mutateAsync(data);
+      toast.success('Password changed');
+      form.reset();
+    } catch (error) {
+      if (error instanceof ApiError && error.fieldErrors) {
+        Object.entries(error.fieldErrors).forEach(([field, message]) => {
+          if (PASSWORD_FIELDS.some(passwordField => passwordField.name === field)) {
+            form.setError(field as keyof ChangePasswordData, { message });
+          }
+        });
+        return;
+      }
+
+      toast.error('Could not change your password', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {PASSWORD_FIELDS.map(passwordField => (
+          <FormField
+            key={passwordField.name}
+            control={form.control}
+            name={passwordField.name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{passwordField.label}</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete={passwordField.autoComplete} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <div className="flex justify-end">
+          <LoadingButton type="submit" loading={changePassword.isPending} loadingText="Updating...">
+            Change Password
+          </LoadingButton>
+        </div>
+      </form>
+    </Form>
+  );
+}
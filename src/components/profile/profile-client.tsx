@@ -0,0 +1,81 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/loading';
+import { useProfile } from '@/hooks/use-profile';
+import { AddressBook } from './address-book';
+import { ChangeEmailForm } from './change-email-form';
+import { ChangePasswordForm } from './change-password-form';
+import { ProfileDetailsForm } from './profile-details-form';
+
+export function ProfileClient() {
+  const { data: user, isLoading, isError, refetch } = useProfile();
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-2xl mx-auto">
+        <h1 className="text-3xl font-serif font-bold mb-8">My Profile</h1>
+
+        {isLoading ? (
+          <div className="space-y-6">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-48 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : isError || !user ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground mb-4">We couldn&apos;t load your profile.</p>
+              <Button variant="outline" onClick={() => refetch()}>
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Profile Information</CardTitle>
+                <CardDescription>Your name, picture and mobile number</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ProfileDetailsForm key={user.updated_at || user.id} user={user} />
+              </CardContent>
+            </Card>
+
+            <Card id="addresses">
+              <CardHeader>
+                <CardTitle>Addresses</CardTitle>
+                <CardDescription>Delivery addresses you can pick at checkout</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AddressBook user={user} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Email Address</CardTitle>
+                <CardDescription>We&apos;ll send a code to the new address to confirm it</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChangeEmailForm currentEmail={user.email} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Password</CardTitle>
+                <CardDescription>Enter your current password to set a new one</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChangePasswordForm />
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
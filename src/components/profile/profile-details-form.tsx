@@ -0,0 +1,129 @@
+'use client';
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { ProfileImageUpload } from '@/components/ui/profile-image-upload';
+import { useUpdateProfile } from '@/hooks/use-profile';
+import { ApiError } from '@/lib/api-client';
+import {
+  ProfileUpdateSchema,
+  type ProfileUpdateData,
+  type ProfileUpdateInput,
+} from '@/lib/profile-schemas';
+import type { User } from '@/types/auth';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+
+interface ProfileDetailsFormProps {
+  user: User;
+}
+
+export function ProfileDetailsForm({ user }: ProfileDetailsFormProps) {
+  const updateProfile = useUpdateProfile();
+
+  const form = useForm<ProfileUpdateInput, unknown, ProfileUpdateData>({
+    resolver: zodResolver(ProfileUpdateSchema),
+    defaultValues: {
+      name: user.name || '',
+      phone_number: user.phone_number || '',
+      profile_image_url: user.profile_image_url || '',
+    },
+  });
+
+  const profileImageUrl = form.watch('profile_image_url');
+
+  const handleSubmit = async (data: ProfileUpdateData) => {
+    try {
+      const response = await updateProfile.mutateAsync(data);
+      toast.success('Profile updated');
+      form.reset({
+        name: response.data.name || '',
+        phone_number: response.data.phone_number || '',
+        profile_image_url: response.data.profile_image_url || '',
+      });
+    } catch (error) {
+      if (error instanceof ApiError && error.fieldErrors) {
+        Object.entries(error.fieldErrors).forEach(([field, message]) => {
+          if (field === 'name' || field === 'phone_number' || field === 'profile_image_url') {
+            form.setError(field, { message });
+          }
+        });
+      }
+
+      toast.error('Could not update your profile', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        <div className="flex flex-col items-center gap-2">
+          <ProfileImageUpload
+            currentImageUrl={profileImageUrl || undefined}
+            userId={user.id}
+            size="lg"
+            enableCrop
+            // The previous picture stays on ImageKit until the change is saved
+            preserveOnUnmount
+            isFormSubmitting={updateProfile.isPending}
+            onImageUpload={url => form.setValue('profile_image_url', url, { shouldDirty: true })}
+            onImageRemove={() => form.setValue('profile_image_url', '', { shouldDirty: true })}
+          />
+          <p className="text-xs text-muted-foreground">Click the picture to change it</p>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Full Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Your full name" autoComplete="name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="phone_number"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Mobile Number</FormLabel>
+              <FormControl>
+                <Input type="tel" placeholder="01XXXXXXXXX" autoComplete="tel" {...field} />
+              </FormControl>
+              <FormDescription>Used for delivery updates and signing in by SMS</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <LoadingButton
+            type="submit"
+            loading={updateProfile.isPending}
+            loadingText="Saving..."
+            disabled={!form.formState.isDirty}
+          >
+            Save Changes
+          </LoadingButton>
+        </div>
+      </form>
+    </Form>
+  );
+}
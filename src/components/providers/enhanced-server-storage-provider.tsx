@@ -172,9 +172,11 @@ export class ServerCart {
     return this.data.items.some(item => item.product.id === productId);
   }
 
+  // Across all of the product's variants
   getItemQuantity(productId: string): number {
-    const item = this.data.items.find(item => item.product.id === productId);
-    return item ? item.quantity : 0;
+    return this.data.items
+      .filter(item => item.product.id === productId)
+      .reduce((sum, item) => sum + item.quantity, 0);
   }
 }
 
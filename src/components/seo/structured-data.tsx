@@ -1,15 +1,14 @@
-import { Product, Review } from '@/types';
+import { Product, Review, ReviewSummary } from '@/types';
 import { BRAND_NAME, COMPANY_INFO } from '@/lib/constants';
 
 interface ProductStructuredDataProps {
   product: Product;
   reviews: Review[];
+  // Aggregate over every published review, not just the ones listed
+  summary: ReviewSummary;
 }
 
-export function ProductStructuredData({ product, reviews }: ProductStructuredDataProps) {
-  const averageRating = reviews.length > 0 
-    ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length 
-    : 0;
+export function ProductStructuredData({ product, reviews, summary }: ProductStructuredDataProps) {
 
   const structuredData = {
     '@context': 'https://schema.org',
@@ -30,8 +29,10 @@ export function ProductStructuredData({ product, reviews }: ProductStructuredDat
       '@type': 'Offer',
       price: product.price,
       priceCurrency: 'BDT',
-      availability: product.inStock 
-        ? 'https://schema.org/InStock' 
+      availability: product.preOrder
+        ? 'https://schema.org/PreOrder'
+        : product.inStock
+        ? 'https://schema.org/InStock'
         : 'https://schema.org/OutOfStock',
       seller: {
         '@type': 'Organization',
@@ -42,11 +43,11 @@ export function ProductStructuredData({ product, reviews }: ProductStructuredDat
     category: product.category,
     ...(product.weight && { weight: product.weight }),
     ...(product.origin && { countryOfOrigin: product.origin }),
-    ...(reviews.length > 0 && {
+    ...(summary.reviewCount > 0 && {
       aggregateRating: {
         '@type': 'AggregateRating',
-        ratingValue: averageRating.toFixed(1),
-        reviewCount: reviews.length,
+        ratingValue: summary.averageRating.toFixed(1),
+        reviewCount: summary.reviewCount,
         bestRating: 5,
         worstRating: 1,
       },
@@ -0,0 +1,102 @@
+'use client';
+
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useThemePreference, useUpdateAccountSettings } from '@/hooks/use-account-settings';
+import type {
+  AccountSettings,
+  LanguagePreference,
+  ThemePreference,
+} from '@/lib/account-settings-schemas';
+import { cn } from '@/lib/utils';
+import { Monitor, Moon, Sun } from 'lucide-react';
+import { toast } from 'sonner';
+
+const THEME_OPTIONS: Array<{ value: ThemePreference; label: string; icon: typeof Sun }> = [
+  { value: 'light', label: 'Light', icon: Sun },
+  { value: 'dark', label: 'Dark', icon: Moon },
+  { value: 'system', label: 'System', icon: Monitor },
+];
+
+const LANGUAGE_OPTIONS: Array<{ value: LanguagePreference; label: string }> = [
+  { value: 'en', label: 'English' },
+  { value: 'bn', label: 'বাংলা (Bangla)' },
+];
+
+interface AppearanceSettingsProps {
+  settings: AccountSettings;
+}
+
+export function AppearanceSettings({ settings }: AppearanceSettingsProps) {
+  const { theme, setThemePreference } = useThemePreference();
+  const updateSettings = useUpdateAccountSettings();
+
+  const handleLanguageChange = (language: LanguagePreference) => {
+    updateSettings.mutate(
+      { ...settings, language },
+      {
+        onError: error =>
+          toast.error('Could not save your language', {
+            description: error instanceof Error ? error.message : undefined,
+          }),
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <Label>Theme</Label>
+        <div role="radiogroup" aria-label="Theme" className="grid grid-cols-3 gap-3">
+          {THEME_OPTIONS.map(option => {
+            const Icon = option.icon;
+            const selected = theme === option.value;
+
+            return (
+              <button
+                key={option.value}
+                type="button"
+                role="radio"
+                aria-checked={selected}
+                onClick={() => setThemePreference(option.value)}
+                className={cn(
+                  'flex flex-col items-center gap-2 rounded-lg border p-4 text-sm transition-colors hover:bg-muted/50',
+                  selected && 'border-primary ring-1 ring-primary bg-primary/5'
+                )}
+              >
+                <Icon className="h-5 w-5" />
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="language">Language</Label>
+        <Select
+          value={settings.language}
+          onValueChange={value => handleLanguageChange(value as LanguagePreference)}
+        >
+          <SelectTrigger id="language" className="w-full sm:w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LANGUAGE_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-sm text-muted-foreground">Used for our emails and SMS messages</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { LoadingButton } from '@/components/ui/loading-button';
+import { useExportAccountData } from '@/hooks/use-account-settings';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+
+export function DataExport() {
+  const exportAccountData = useExportAccountData();
+
+  const handleExport = async () => {
+    try {
+      const data = await exportAccountData.mutateAsync();
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `hamsoya-account-${data.exported_at.slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast.success('Your data is downloading');
+    } catch (error) {
+      toast.error('Could not export your data', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+      <p className="text-sm text-muted-foreground">
+        A JSON file with your profile, orders, saved addresses, bookmarks and preferences.
+      </p>
+      <LoadingButton
+        variant="outline"
+        onClick={handleExport}
+        loading={exportAccountData.isPending}
+        loadingText="Preparing..."
+        className="flex-shrink-0"
+      >
+        <Download className="mr-2 h-4 w-4" />
+        Download My Data
+      </LoadingButton>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { Textarea } from '@/components/ui/textarea';
+import { useCancelAccountDeletion, useRequestAccountDeletion } from '@/hooks/use-account-settings';
+import {
+  ACCOUNT_DELETION_GRACE_DAYS,
+  AccountDeletionSchema,
+  getAccountPurgeDate,
+  type AccountDeletionData,
+} from '@/lib/account-settings-schemas';
+import { formatDate } from '@/lib/admin-utils';
+import { ApiError } from '@/lib/api-client';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { AlertTriangle } from 'lucide-react';
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+
+interface DeleteAccountProps {
+  deletedAt?: string;
+}
+
+/**
+ * Account deletion with a grace period: the account is soft-deleted straight
+ * away and purged after ACCOUNT_DELETION_GRACE_DAYS, until then it can be kept
+ */
+export function DeleteAccount({ deletedAt }: DeleteAccountProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const requestDeletion = useRequestAccountDeletion();
+  const cancelDeletion = useCancelAccountDeletion();
+
+  const form = useForm<AccountDeletionData>({
+    resolver: zodResolver(AccountDeletionSchema),
+    defaultValues: {
+      current_password: '',
+      confirmation: '',
+      reason: '',
+    },
+  });
+
+  const handleDelete = async (data: AccountDeletionData) => {
+    try {
+      const response = await requestDeletion.mutateAsync(data);
+      const purgeDate = formatDate(getAccountPurgeDate(response.data.deleted_at).toISOString());
+
+      toast.success('Your account is scheduled for deletion', {
+        description: `Sign in before ${purgeDate} if you change your mind.`,
+      });
+
+      // The session ends with the account
+      const { enhancedLogoutService } = await import('@/lib/enhanced-logout-service');
+      await enhancedLogoutService.logout({
+        showToast: false,
+        redirectTo: '/',
+        reason: 'Account deletion requested',
+      });
+    } catch (error) {
+      if (error instanceof ApiError && error.fieldErrors) {
+        Object.entries(error.fieldErrors).forEach(([field, message]) => {
+          if (field === 'current_password' || field === 'confirmation' || field === 'reason') {
+            form.setError(field, { message });
+          }
+        });
+        return;
+      }
+
+      toast.error('Could not delete your account', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const handleCancelDeletion = async () => {
+    try {
+      await cancelDeletion.mutateAsync();
+      toast.success('Your account will be kept');
+    } catch (error) {
+      toast.error('Could not cancel the deletion', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  if (deletedAt) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Your account is scheduled for deletion</AlertTitle>
+        <AlertDescription>
+          <p>
+            It will be permanently deleted on{' '}
+            {formatDate(getAccountPurgeDate(deletedAt).toISOString())}, along with your saved
+            addresses and preferences.
+          </p>
+          <LoadingButton
+            variant="outline"
+            size="sm"
+            className="mt-3"
+            onClick={handleCancelDeletion}
+            loading={cancelDeletion.isPending}
+          >
+            Keep My Account
+          </LoadingButton>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+      <p className="text-sm text-muted-foreground">
+        Your account is closed straight away and permanently deleted after{' '}
+        {ACCOUNT_DELETION_GRACE_DAYS} days. Sign in within that time to keep it.
+      </p>
+      <Button variant="destructive" className="flex-shrink-0" onClick={() => setDialogOpen(true)}>
+        Delete Account
+      </Button>
+
+      <Dialog
+        open={dialogOpen}
+        onOpenChange={open => {
+          setDialogOpen(open);
+          if (!open) form.reset();
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Account</DialogTitle>
+            <DialogDescription>
+              Your profile, saved addresses and preferences will be deleted after{' '}
+              {ACCOUNT_DELETION_GRACE_DAYS} days. Download your data first if you want a copy.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleDelete)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="current_password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Why are you leaving? (optional)</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="confirmation"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      Type <span className="font-mono font-semibold">DELETE</span> to confirm
+                    </FormLabel>
+                    <FormControl>
+                      <Input autoComplete="off" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <LoadingButton
+                  type="submit"
+                  variant="destructive"
+                  loading={requestDeletion.isPending}
+                  loadingText="Deleting..."
+                >
+                  Delete My Account
+                </LoadingButton>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
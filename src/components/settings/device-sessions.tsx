@@ -0,0 +1,192 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/loading';
+import { LoadingButton } from '@/components/ui/loading-button';
+import { useRevokeAllSessions, useRevokeSession, useSessions } from '@/hooks/use-sessions';
+import { formatDateTime } from '@/lib/admin-utils';
+import type { AccountSession } from '@/types/auth';
+import { LogOut, Monitor, Smartphone, Tablet } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+
+const DEVICE_ICONS: Record<AccountSession['device_type'], typeof Monitor> = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet,
+};
+
+/**
+ * Devices signed in to the account, one per refresh token family. Signing a
+ * device out revokes its family, so it cannot refresh its way back in
+ */
+export function DeviceSessions() {
+  const { data: sessions = [], isLoading, isError, refetch } = useSessions();
+  const revokeSession = useRevokeSession();
+  const revokeAllSessions = useRevokeAllSessions();
+
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [isSigningOutCurrent, setIsSigningOutCurrent] = useState(false);
+  const [confirmAllOpen, setConfirmAllOpen] = useState(false);
+
+  const handleSignOutCurrent = async () => {
+    setIsSigningOutCurrent(true);
+
+    try {
+      const { enhancedLogoutService } = await import('@/lib/enhanced-logout-service');
+      await enhancedLogoutService.logout({ redirectTo: '/login' });
+    } finally {
+      setIsSigningOutCurrent(false);
+    }
+  };
+
+  const handleRevoke = async (session: AccountSession) => {
+    setRevokingId(session.id);
+
+    try {
+      await revokeSession.mutateAsync(session.id);
+      toast.success('Device signed out', {
+        description: `${session.browser} on ${session.os} has been signed out.`,
+      });
+    } catch (error) {
+      toast.error('Could not sign out the device', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    try {
+      await revokeAllSessions.mutateAsync();
+      toast.success('Signed out on all devices');
+
+      // This device's session was revoked with the rest
+      const { enhancedLogoutService } = await import('@/lib/enhanced-logout-service');
+      await enhancedLogoutService.logout({
+        showToast: false,
+        redirectTo: '/login',
+        reason: 'Signed out everywhere',
+        skipBackendCall: true,
+      });
+    } catch (error) {
+      toast.error('Could not sign out your devices', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(2)].map((_, i) => (
+          <Skeleton key={i} className="h-16 w-full rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="py-6 text-center">
+        <p className="text-muted-foreground mb-4">We couldn&apos;t load your devices.</p>
+        <Button variant="outline" onClick={() => refetch()}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-3">
+        {sessions.map(session => {
+          const DeviceIcon = DEVICE_ICONS[session.device_type] || Monitor;
+          const whereabouts = [session.location, session.ip_address].filter(Boolean).join(' · ');
+
+          return (
+            <li key={session.id} className="flex items-center justify-between gap-4 rounded-lg border p-4">
+              <div className="flex min-w-0 items-center gap-3">
+                <DeviceIcon className="h-5 w-5 flex-shrink-0 text-muted-foreground" />
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium truncate">
+                      {session.browser} · {session.os}
+                    </p>
+                    {session.is_current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  {whereabouts && <p className="text-sm text-muted-foreground">{whereabouts}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    {session.is_current ? 'Active now' : `Last active ${formatDateTime(session.last_active_at)}`}
+                  </p>
+                </div>
+              </div>
+
+              {session.is_current ? (
+                <LoadingButton
+                  variant="outline"
+                  size="sm"
+                  onClick={handleSignOutCurrent}
+                  loading={isSigningOutCurrent}
+                >
+                  Sign Out
+                </LoadingButton>
+              ) : (
+                <LoadingButton
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevoke(session)}
+                  loading={revokingId === session.id}
+                  disabled={!!revokingId}
+                >
+                  Sign Out
+                </LoadingButton>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={() => setConfirmAllOpen(true)}>
+          <LogOut className="mr-2 h-4 w-4" />
+          Sign Out Everywhere
+        </Button>
+      </div>
+
+      <Dialog open={confirmAllOpen} onOpenChange={setConfirmAllOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Sign Out Everywhere</DialogTitle>
+            <DialogDescription>
+              Every device signed in to your account will be signed out, including this one.
+              You will need to sign in again.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmAllOpen(false)}>
+              Cancel
+            </Button>
+            <LoadingButton
+              variant="destructive"
+              onClick={handleRevokeAll}
+              loading={revokeAllSessions.isPending}
+            >
+              Sign Out Everywhere
+            </LoadingButton>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { Switch } from '@/components/ui/switch';
+import { useUpdateAccountSettings } from '@/hooks/use-account-settings';
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TOPICS,
+  type AccountSettings,
+  type NotificationChannel,
+  type NotificationTopic,
+} from '@/lib/account-settings-schemas';
+import { toast } from 'sonner';
+
+const TOPIC_LABELS: Record<NotificationTopic, { title: string; description: string }> = {
+  order_updates: {
+    title: 'Order updates',
+    description: 'Confirmation, shipping and delivery of your orders',
+  },
+  promotions: {
+    title: 'Offers and promotions',
+    description: 'Discounts, new arrivals and seasonal offers',
+  },
+  back_in_stock: {
+    title: 'Back in stock',
+    description: 'When a product you asked about is available again',
+  },
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+};
+
+interface NotificationSettingsProps {
+  settings: AccountSettings;
+  hasPhoneNumber: boolean;
+}
+
+export function NotificationSettings({ settings, hasPhoneNumber }: NotificationSettingsProps) {
+  const updateSettings = useUpdateAccountSettings();
+
+  const handleToggle = (channel: NotificationChannel, topic: NotificationTopic, enabled: boolean) => {
+    updateSettings.mutate(
+      {
+        ...settings,
+        notifications: {
+          ...settings.notifications,
+          [channel]: { ...settings.notifications[channel], [topic]: enabled },
+        },
+      },
+      {
+        onError: error =>
+          toast.error('Could not save your notification settings', {
+            description: error instanceof Error ? error.message : undefined,
+          }),
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-[1fr_auto_auto] items-center gap-x-6 gap-y-4">
+        <span />
+        {NOTIFICATION_CHANNELS.map(channel => (
+          <span key={channel} className="text-sm font-medium text-center">
+            {CHANNEL_LABELS[channel]}
+          </span>
+        ))}
+
+        {NOTIFICATION_TOPICS.map(topic => (
+          <div key={topic} className="contents">
+            <div>
+              <p className="text-sm font-medium">{TOPIC_LABELS[topic].title}</p>
+              <p className="text-sm text-muted-foreground">{TOPIC_LABELS[topic].description}</p>
+            </div>
+            {NOTIFICATION_CHANNELS.map(channel => (
+              <div key={channel} className="flex justify-center">
+                <Switch
+                  checked={settings.notifications[channel][topic]}
+                  onCheckedChange={checked => handleToggle(channel, topic, checked)}
+                  disabled={channel === 'sms' && !hasPhoneNumber}
+                  aria-label={`${TOPIC_LABELS[topic].title} by ${CHANNEL_LABELS[channel]}`}
+                />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {!hasPhoneNumber && (
+        <p className="text-sm text-muted-foreground">
+          Add a mobile number to your profile to get SMS notifications.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/loading';
+import { useAccountSettings } from '@/hooks/use-account-settings';
+import { useProfile } from '@/hooks/use-profile';
+import { AppearanceSettings } from './appearance-settings';
+import { DataExport } from './data-export';
+import { DeleteAccount } from './delete-account';
+import { DeviceSessions } from './device-sessions';
+import { NotificationSettings } from './notification-settings';
+
+export function SettingsClient() {
+  const settingsQuery = useAccountSettings();
+  const profileQuery = useProfile();
+  const settings = settingsQuery.data;
+  const user = profileQuery.data;
+
+  const isLoading = settingsQuery.isLoading || profileQuery.isLoading;
+  const isError = settingsQuery.isError || profileQuery.isError;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-2xl mx-auto">
+        <h1 className="text-3xl font-serif font-bold mb-8">Settings</h1>
+
+        {isLoading ? (
+          <div className="space-y-6">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-48 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : isError || !settings || !user ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground mb-4">We couldn&apos;t load your settings.</p>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  settingsQuery.refetch();
+                  profileQuery.refetch();
+                }}
+              >
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Appearance and Language</CardTitle>
+                <CardDescription>Saved to your account and used on every device</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AppearanceSettings settings={settings} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Notifications</CardTitle>
+                <CardDescription>Choose what we send you and how</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <NotificationSettings settings={settings} hasPhoneNumber={!!user.phone_number} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Devices</CardTitle>
+                <CardDescription>Where you&apos;re signed in to your account</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DeviceSessions />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Your Data</CardTitle>
+                <CardDescription>Download a copy of everything in your account</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DataExport />
+              </CardContent>
+            </Card>
+
+            <Card className="border-destructive/50">
+              <CardHeader>
+                <CardTitle className="text-destructive">Delete Account</CardTitle>
+                <CardDescription>Close your Hamsoya account</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DeleteAccount deletedAt={user.deleted_at} />
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+'use client';
+
+import { useAccountSettings } from '@/hooks/use-account-settings';
+import { useTheme } from 'next-themes';
+import { useEffect } from 'react';
+
+// Applies the theme saved to the account, so it follows the customer across devices
+export function ThemePreferenceSync() {
+  const { data: settings } = useAccountSettings();
+  const { setTheme } = useTheme();
+  const savedTheme = settings?.theme;
+
+  useEffect(() => {
+    if (savedTheme) setTheme(savedTheme);
+  }, [savedTheme, setTheme]);
+
+  return null;
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Slider } from '@/components/ui/slider';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+
+const VIEWPORT_SIZE = 256;
+const OUTPUT_SIZE = 512;
+const MAX_ZOOM = 3;
+
+interface Offset {
+  x: number;
+  y: number;
+}
+
+interface AvatarCropDialogProps {
+  file: File | null;
+  onCancel: () => void;
+  onCrop: (file: File) => void;
+}
+
+// Keep the image covering the whole viewport
+function clampOffset(offset: Offset, width: number, height: number): Offset {
+  return {
+    x: Math.min(0, Math.max(VIEWPORT_SIZE - width, offset.x)),
+    y: Math.min(0, Math.max(VIEWPORT_SIZE - height, offset.y)),
+  };
+}
+
+/**
+ * Square crop for profile pictures: drag to position, slide to zoom. The
+ * visible area is exported as a 512px JPEG, which the upload then compresses
+ */
+export function AvatarCropDialog({ file, onCancel, onCrop }: AvatarCropDialogProps) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 });
+  const dragRef = useRef<{ pointerX: number; pointerY: number; offset: Offset } | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    setImage(null);
+    setZoom(1);
+
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // Scale at which the shorter side exactly fills the viewport
+  const baseScale = image ? VIEWPORT_SIZE / Math.min(image.naturalWidth, image.naturalHeight) : 1;
+  const scale = baseScale * zoom;
+  const displayWidth = image ? image.naturalWidth * scale : VIEWPORT_SIZE;
+  const displayHeight = image ? image.naturalHeight * scale : VIEWPORT_SIZE;
+
+  const handleImageLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
+    const loaded = event.currentTarget;
+    const fitScale = VIEWPORT_SIZE / Math.min(loaded.naturalWidth, loaded.naturalHeight);
+
+    setImage(loaded);
+    setOffset({
+      x: (VIEWPORT_SIZE - loaded.naturalWidth * fitScale) / 2,
+      y: (VIEWPORT_SIZE - loaded.naturalHeight * fitScale) / 2,
+    });
+  };
+
+  // Zoom around the centre of the viewport
+  const handleZoomChange = (nextZoom: number) => {
+    if (!image) return;
+
+    const ratio = nextZoom / zoom;
+    const center = VIEWPORT_SIZE / 2;
+    const nextScale = baseScale * nextZoom;
+
+    setZoom(nextZoom);
+    setOffset(
+      clampOffset(
+        {
+          x: center - (center - offset.x) * ratio,
+          y: center - (center - offset.y) * ratio,
+        },
+        image.naturalWidth * nextScale,
+        image.naturalHeight * nextScale
+      )
+    );
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { pointerX: event.clientX, pointerY: event.clientY, offset };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    setOffset(
+      clampOffset(
+        {
+          x: drag.offset.x + event.clientX - drag.pointerX,
+          y: drag.offset.y + event.clientY - drag.pointerY,
+        },
+        displayWidth,
+        displayHeight
+      )
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleCrop = () => {
+    if (!image || !file) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = OUTPUT_SIZE;
+    canvas.height = OUTPUT_SIZE;
+
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    // JPEG has no transparency, so flatten onto white
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, OUTPUT_SIZE, OUTPUT_SIZE);
+    context.drawImage(
+      image,
+      -offset.x / scale,
+      -offset.y / scale,
+      VIEWPORT_SIZE / scale,
+      VIEWPORT_SIZE / scale,
+      0,
+      0,
+      OUTPUT_SIZE,
+      OUTPUT_SIZE
+    );
+
+    canvas.toBlob(
+      blob => {
+        if (!blob) return;
+        const name = file.name.replace(/\.[^.]+$/, '') || 'avatar';
+        onCrop(new File([blob], `${name}.jpg`, { type: 'image/jpeg' }));
+      },
+      'image/jpeg',
+      0.92
+    );
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={open => !open && onCancel()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Crop profile picture</DialogTitle>
+          <DialogDescription>Drag to reposition and use the slider to zoom.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-4">
+          <div
+            className="relative overflow-hidden rounded-full bg-muted cursor-move touch-none select-none"
+            style={{ width: VIEWPORT_SIZE, height: VIEWPORT_SIZE }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {imageUrl && (
+              // Plain img: the crop needs the natural size and a same-origin source for the canvas
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={imageUrl}
+                alt="Crop preview"
+                draggable={false}
+                onLoad={handleImageLoad}
+                className="absolute max-w-none"
+                style={{
+                  width: displayWidth,
+                  height: displayHeight,
+                  left: offset.x,
+                  top: offset.y,
+                  visibility: image ? 'visible' : 'hidden',
+                }}
+              />
+            )}
+          </div>
+
+          <div className="flex w-full items-center gap-3">
+            <ZoomOut className="h-4 w-4 text-muted-foreground" />
+            <Slider
+              value={[zoom]}
+              min={1}
+              max={MAX_ZOOM}
+              step={0.01}
+              onValueChange={([value]) => handleZoomChange(value)}
+              disabled={!image}
+            />
+            <ZoomIn className="h-4 w-4 text-muted-foreground" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleCrop} disabled={!image}>
+            Use photo
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
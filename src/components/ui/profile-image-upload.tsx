@@ -1,5 +1,6 @@
 'use client';
 
+import { AvatarCropDialog } from '@/components/ui/avatar-crop-dialog';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import {
@@ -29,6 +30,7 @@ interface ProfileImageUploadProps {
   // New props for better lifecycle management
   preserveOnUnmount?: boolean; // Don't delete image when component unmounts
   isFormSubmitting?: boolean; // Prevent deletion during form submission
+  enableCrop?: boolean; // Square-crop the picked image before uploading
 }
 
 export function ProfileImageUpload({
@@ -43,6 +45,7 @@ export function ProfileImageUpload({
   preventDeletion = false,
   preserveOnUnmount = false,
   isFormSubmitting = false,
+  enableCrop = false,
 }: ProfileImageUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
@@ -50,6 +53,7 @@ export function ProfileImageUpload({
   const [uploadStatus, setUploadStatus] = useState<string>('');
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [internalFileId, setInternalFileId] = useState<string | null>(null);
+  const [cropFile, setCropFile] = useState<File | null>(null);
 
   // Use external fileId if provided, otherwise use internal state
   const currentFileId = externalFileId || internalFileId;
@@ -71,7 +75,7 @@ export function ProfileImageUpload({
   };
 
   const handleFileSelect = useCallback(
-    async (file: File) => {
+    async (file: File, cropped = false) => {
       if (disabled) return;
 
       // Validate file
@@ -81,6 +85,11 @@ export function ProfileImageUpload({
         return;
       }
 
+      if (enableCrop && !cropped) {
+        setCropFile(file);
+        return;
+      }
+
       // Create preview
       const preview = URL.createObjectURL(file);
       setPreviewUrl(preview);
@@ -134,7 +143,7 @@ export function ProfileImageUpload({
         setUploadStatus('');
       }
     },
-    [disabled, userId, onImageUpload]
+    [disabled, enableCrop, userId, onImageUpload, externalFileId]
   );
 
   const handleDragOver = useCallback(
@@ -177,6 +186,8 @@ export function ProfileImageUpload({
       if (file) {
         handleFileSelect(file);
       }
+      // Allow picking the same file again, e.g. after cancelling the crop
+      e.target.value = '';
     },
     [handleFileSelect]
   );
@@ -223,7 +234,7 @@ export function ProfileImageUpload({
 
     // Call parent callback
     onImageRemove?.();
-  }, [disabled, preventDeletion, isFormSubmitting, preserveOnUnmount, currentFileId, internalFileId, onImageRemove]);
+  }, [disabled, preventDeletion, isFormSubmitting, preserveOnUnmount, currentFileId, externalFileId, internalFileId, onImageRemove]);
 
   // Enhanced cleanup effect with multiple safeguards to prevent unwanted image deletion
   useEffect(() => {
@@ -363,6 +374,17 @@ export function ProfileImageUpload({
         </Button>
       )}
 
+      {enableCrop && (
+        <AvatarCropDialog
+          file={cropFile}
+          onCancel={() => setCropFile(null)}
+          onCrop={croppedFile => {
+            setCropFile(null);
+            handleFileSelect(croppedFile, true);
+          }}
+        />
+      )}
+
       {/* Hidden File Input */}
       <input
         ref={fileInputRef}
@@ -7,8 +7,13 @@ import { cn } from "@/lib/utils"
 
 function Slider({
   className,
+  defaultValue,
+  value,
   ...props
 }: React.ComponentProps<typeof SliderPrimitive.Root>) {
+  // One thumb per value, so a two-value slider selects a range
+  const thumbCount = (value ?? defaultValue ?? [0]).length
+
   return (
     <SliderPrimitive.Root
       data-slot="slider"
@@ -16,12 +21,19 @@ function Slider({
         "relative flex w-full touch-none select-none items-center",
         className
       )}
+      defaultValue={defaultValue}
+      value={value}
       {...props}
     >
       <SliderPrimitive.Track className="relative h-1.5 w-full grow overflow-hidden rounded-full bg-primary/20">
         <SliderPrimitive.Range className="absolute h-full bg-primary" />
       </SliderPrimitive.Track>
-      <SliderPrimitive.Thumb className="block h-4 w-4 rounded-full border border-primary/50 bg-background shadow transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:pointer-events-none disabled:opacity-50" />
+      {Array.from({ length: thumbCount }, (_, index) => (
+        <SliderPrimitive.Thumb
+          key={index}
+          className="block h-4 w-4 rounded-full border border-primary/50 bg-background shadow transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:pointer-events-none disabled:opacity-50"
+        />
+      ))}
     </SliderPrimitive.Root>
   )
 }
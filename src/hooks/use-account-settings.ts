@@ -0,0 +1,105 @@
+import {
+  DEFAULT_ACCOUNT_SETTINGS,
+  type AccountDeletionData,
+  type AccountSettings,
+  type ThemePreference,
+} from '@/lib/account-settings-schemas';
+import { apiClient } from '@/lib/api-client';
+import { queryKeys } from '@/lib/query-client';
+import { useBookmarksStore } from '@/store';
+import { useIsAuthenticated } from '@/store/auth-store';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useTheme } from 'next-themes';
+
+type AccountSettingsResponse = { data: AccountSettings };
+
+// Hook for the signed-in customer's theme, language and notification preferences
+export function useAccountSettings() {
+  const isAuthenticated = useIsAuthenticated();
+
+  return useQuery({
+    queryKey: queryKeys.account.settings,
+    queryFn: () => apiClient.getAccountSettings(),
+    select: response => response.data,
+    enabled: isAuthenticated,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+// Settings save as soon as they change, so the cache is updated optimistically
+export function useUpdateAccountSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (settings: AccountSettings) => apiClient.updateAccountSettings(settings),
+    onMutate: async settings => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.account.settings });
+      const previous = queryClient.getQueryData<AccountSettingsResponse>(queryKeys.account.settings);
+      queryClient.setQueryData<AccountSettingsResponse>(queryKeys.account.settings, { data: settings });
+      return { previous };
+    },
+    onError: (_error, _settings, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.account.settings, context.previous);
+      }
+    },
+    onSuccess: response => {
+      queryClient.setQueryData<AccountSettingsResponse>(queryKeys.account.settings, { data: response.data });
+    },
+  });
+}
+
+/**
+ * The active theme. Signed-in customers also get the choice saved to their
+ * account, which `ThemePreferenceSync` applies on their other devices
+ */
+export function useThemePreference() {
+  const { theme, setTheme } = useTheme();
+  const { data: settings } = useAccountSettings();
+  const updateSettings = useUpdateAccountSettings();
+
+  const setThemePreference = (nextTheme: ThemePreference) => {
+    setTheme(nextTheme);
+
+    // Until the saved settings have loaded, saving would overwrite them with defaults
+    if (settings && settings.theme !== nextTheme) {
+      updateSettings.mutate({ ...settings, theme: nextTheme });
+    }
+  };
+
+  return {
+    theme: (theme as ThemePreference | undefined) ?? DEFAULT_ACCOUNT_SETTINGS.theme,
+    setThemePreference,
+  };
+}
+
+// Server-held account data plus this browser's bookmarks
+export function useExportAccountData() {
+  return useMutation({
+    mutationFn: async () => {
+      const response = await apiClient.exportAccountData();
+      return {
+        ...response.data,
+        bookmarks: useBookmarksStore.getState().bookmarkedProducts,
+      };
+    },
+  });
+}
+
+export function useRequestAccountDeletion() {
+  return useMutation({
+    mutationFn: (data: AccountDeletionData) => apiClient.requestAccountDeletion(data),
+  });
+}
+
+export function useCancelAccountDeletion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => apiClient.cancelAccountDeletion(),
+    onSuccess: response => {
+      queryClient.setQueryData(queryKeys.auth.profile, { data: response.data });
+    },
+  });
+}
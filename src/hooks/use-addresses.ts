@@ -0,0 +1,109 @@
+import { ApiError, apiClient } from '@/lib/api-client';
+import type { AddressFormInput } from '@/lib/address-schemas';
+import { queryKeys } from '@/lib/query-client';
+import { useAddressesStore } from '@/store/addresses-store';
+import { useIsAuthenticated } from '@/store/auth-store';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+
+// Hook for the signed-in customer's address book, default address first
+export function useAddresses() {
+  const isAuthenticated = useIsAuthenticated();
+
+  return useQuery({
+    queryKey: queryKeys.addresses.all,
+    queryFn: () => apiClient.getAddresses(),
+    select: response => response.data,
+    enabled: isAuthenticated,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+export function useDefaultAddress() {
+  const { data: addresses } = useAddresses();
+  return addresses?.find(address => address.isDefault) ?? addresses?.[0] ?? null;
+}
+
+function useInvalidateAddresses() {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: queryKeys.addresses.all });
+}
+
+export function useCreateAddress() {
+  const invalidateAddresses = useInvalidateAddresses();
+
+  return useMutation({
+    mutationFn: (data: AddressFormInput) => apiClient.createAddress(data),
+    onSuccess: invalidateAddresses,
+  });
+}
+
+export function useUpdateAddress() {
+  const invalidateAddresses = useInvalidateAddresses();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: AddressFormInput }) =>
+      apiClient.updateAddress(id, data),
+    onSuccess: invalidateAddresses,
+  });
+}
+
+export function useDeleteAddress() {
+  const invalidateAddresses = useInvalidateAddresses();
+
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deleteAddress(id),
+    onSuccess: invalidateAddresses,
+  });
+}
+
+export function useSetDefaultAddress() {
+  const invalidateAddresses = useInvalidateAddresses();
+
+  return useMutation({
+    mutationFn: (id: string) => apiClient.setDefaultAddress(id),
+    onSuccess: invalidateAddresses,
+  });
+}
+
+/**
+ * Moves addresses saved on this device before the address book existed into
+ * the account. The server skips ones it already has, so a retry is harmless
+ */
+export function useImportLegacyAddresses() {
+  const isAuthenticated = useIsAuthenticated();
+  const queryClient = useQueryClient();
+  const legacyAddresses = useAddressesStore(state => state.addresses);
+  const removeAddress = useAddressesStore(state => state.removeAddress);
+  const importingRef = useRef(false);
+
+  useEffect(() => {
+    if (!isAuthenticated || legacyAddresses.length === 0 || importingRef.current) return;
+
+    importingRef.current = true;
+
+    (async () => {
+      const results = await Promise.allSettled(
+        legacyAddresses.map(({ name, phone, address, city, area, postalCode, isDefault }) =>
+          apiClient.createAddress({ name, phone, address, city, area, postalCode, isDefault })
+        )
+      );
+
+      // Invalid entries can never be imported; anything else that failed is retried next time
+      results.forEach((result, index) => {
+        const rejectedAsInvalid =
+          result.status === 'rejected' &&
+          result.reason instanceof ApiError &&
+          result.reason.statusCode === 400;
+
+        if (result.status === 'fulfilled' || rejectedAsInvalid) {
+          removeAddress(legacyAddresses[index].id);
+        }
+      });
+
+      queryClient.invalidateQueries({ queryKey: queryKeys.addresses.all });
+      importingRef.current = false;
+    })();
+  }, [isAuthenticated, legacyAddresses, removeAddress, queryClient]);
+}
@@ -4,6 +4,17 @@ import { useQuery } from '@tanstack/react-query';
 import { ADMIN_QUERY_KEYS } from '@/lib/admin-data-prefetcher';
 import { useAuthStore } from '@/store/auth-store';
 import { apiClient } from '@/lib/api-client';
+import type { SystemSettingsInput } from '@/lib/settings-schemas';
+import type {
+  AdminCoupon,
+  AdminCouponQueryParams,
+  AdminReview,
+  AdminReviewQueryParams,
+  DeliverySettings,
+  InventoryMovement,
+  SearchSettings,
+  PaginatedResponse,
+} from '@/types/admin';
 
 /**
  * Enhanced API data fetchers for admin dashboard
@@ -492,6 +503,27 @@ export function useAdminProduct(id: string) {
   });
 }
 
+// Product Stock Movement History Hook
+export function useAdminInventoryMovements(productId: string, params?: { page?: number; limit?: number }) {
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useQuery({
+    queryKey: ['admin', 'products', 'inventory', productId, params],
+    queryFn: () =>
+      apiClient.getAdminInventoryMovements(productId, params) as Promise<PaginatedResponse<InventoryMovement>>,
+    enabled: isAdmin && !!productId,
+    staleTime: 1 * 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: (failureCount, error) => {
+      if (error instanceof Error && error.message.includes('401')) {
+        return false;
+      }
+      return failureCount < 2;
+    },
+  });
+}
+
 // Categories List Hook
 export function useAdminCategories(params?: {
   page?: number;
@@ -519,6 +551,46 @@ export function useAdminCategories(params?: {
   });
 }
 
+// Coupons List Hook
+export function useAdminCoupons(params?: AdminCouponQueryParams) {
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useQuery({
+    queryKey: ['admin', 'coupons', 'list', params],
+    queryFn: () => apiClient.getAdminCoupons(params) as Promise<PaginatedResponse<AdminCoupon>>,
+    enabled: isAdmin,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: (failureCount, error) => {
+      if (error instanceof Error && error.message.includes('401')) {
+        return false;
+      }
+      return failureCount < 2;
+    },
+  });
+}
+
+// Reviews Hook
+export function useAdminReviews(params?: AdminReviewQueryParams) {
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useQuery({
+    queryKey: ['admin', 'reviews', 'list', params],
+    queryFn: () => apiClient.getAdminReviews(params) as Promise<PaginatedResponse<AdminReview>>,
+    enabled: isAdmin,
+    staleTime: 1 * 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: (failureCount, error) => {
+      if (error instanceof Error && error.message.includes('401')) {
+        return false;
+      }
+      return failureCount < 2;
+    },
+  });
+}
+
 // Settings Hook
 export function useAdminSettings() {
   const { isAuthenticated, user } = useAuthStore();
@@ -526,7 +598,56 @@ export function useAdminSettings() {
 
   return useQuery({
     queryKey: ['admin', 'settings'],
-    queryFn: () => apiClient.getAdminSettingsEnhanced(),
+    queryFn: async () => {
+      const response = (await apiClient.getAdminSettings()) as { data: SystemSettingsInput };
+      return response.data;
+    },
+    enabled: isAdmin,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: (failureCount, error) => {
+      if (error instanceof Error && error.message.includes('401')) {
+        return false;
+      }
+      return failureCount < 2;
+    },
+  });
+}
+
+// Search Synonyms Hook
+export function useAdminSearchSettings() {
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useQuery({
+    queryKey: ['admin', 'settings', 'search'],
+    queryFn: async () => {
+      const response = (await apiClient.getAdminSearchSettings()) as { data: SearchSettings };
+      return response.data;
+    },
+    enabled: isAdmin,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: (failureCount, error) => {
+      if (error instanceof Error && error.message.includes('401')) {
+        return false;
+      }
+      return failureCount < 2;
+    },
+  });
+}
+
+// Delivery Zones Hook
+export function useAdminDeliverySettings() {
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useQuery({
+    queryKey: ['admin', 'settings', 'delivery'],
+    queryFn: async () => {
+      const response = (await apiClient.getAdminDeliverySettings()) as { data: DeliverySettings };
+      return response.data;
+    },
     enabled: isAdmin,
     staleTime: 10 * 60 * 1000, // 10 minutes
     gcTime: 30 * 60 * 1000, // 30 minutes
@@ -9,6 +9,7 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api-client';
 import { toast } from 'sonner';
 import { toastService } from '@/lib/toast-service';
+import { getOrderStatusLabel, type OrderTransitionPayload } from '@/lib/order-status';
 import { useAuthStore } from '@/store/auth-store';
 import type {
   CreateProductData,
@@ -16,8 +17,24 @@ import type {
   CreateCategoryData,
   UpdateCategoryData,
   UpdateCustomerData,
-  AdminSettings
+  BulkOrderActionResponse,
+  BulkReviewActionResponse,
+  CreateCouponData
 } from '@/types/admin';
+import type { CategoryReorderInput } from '@/lib/category-schemas';
+import type { InventoryMovementInput } from '@/lib/inventory-schemas';
+import type { BulkOrderActionInput } from '@/lib/order-schemas';
+import type { ProductImportBatchResponse, ProductImportPreview } from '@/lib/product-import-utils';
+import type { ProductImportBatchInput, ProductImportFileInput } from '@/lib/product-schemas';
+import type { BulkReviewActionInput, ReviewModerationInput } from '@/lib/review-schemas';
+import type {
+  DeliverySettingsInput,
+  SearchSettingsInput,
+  SettingsBackup,
+  SystemSettingsInput,
+} from '@/lib/settings-schemas';
+
+const ADMIN_SETTINGS_KEY = ['admin', 'settings'] as const;
 
 // Order Status Update Mutation
 export function useUpdateOrderStatus() {
@@ -26,11 +43,20 @@ export function useUpdateOrderStatus() {
   const isAdmin = isAuthenticated && user?.role === 'ADMIN';
 
   return useMutation({
-    mutationFn: async ({ id, status, notes }: { id: string; status: string; notes?: string }) => {
+    mutationFn: async ({
+      id,
+      status,
+      notes,
+      tracking_number,
+      estimated_delivery,
+    }: { id: string; status: string; notes?: string } & OrderTransitionPayload) => {
       if (!isAdmin) {
         throw new Error('Admin access required');
       }
-      return apiClient.updateAdminOrderStatusEnhanced(id, status, notes);
+      return apiClient.updateAdminOrderStatusEnhanced(id, status, notes, {
+        tracking_number,
+        estimated_delivery,
+      });
     },
     onSuccess: (data, variables) => {
       // Invalidate and refetch orders
@@ -38,7 +64,7 @@ export function useUpdateOrderStatus() {
       queryClient.invalidateQueries({ queryKey: ['admin', 'dashboard'] });
 
       toast.success('Order status updated', {
-        description: `Order status changed to ${variables.status}`,
+        description: `Order status changed to ${getOrderStatusLabel(variables.status)}`,
       });
     },
     onError: (error: any) => {
@@ -55,6 +81,42 @@ export function useUpdateOrderStatus() {
   });
 }
 
+// Bulk Order Action Mutation - reports per-order results rather than failing the whole batch
+export function useBulkOrderAction() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useMutation({
+    mutationFn: async (input: BulkOrderActionInput) => {
+      if (!isAdmin) {
+        throw new Error('Admin access required');
+      }
+      const response = (await apiClient.bulkUpdateAdminOrders(input)) as {
+        data: BulkOrderActionResponse;
+      };
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'orders'] });
+      queryClient.invalidateQueries({ queryKey: ['admin', 'dashboard'] });
+
+      if (data.failed === 0) {
+        toast.success(`${data.succeeded} order${data.succeeded === 1 ? '' : 's'} updated`);
+      } else {
+        toast.warning(`${data.failed} of ${data.results.length} orders could not be updated`, {
+          description: data.succeeded > 0 ? `${data.succeeded} updated successfully.` : undefined,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast.error('Bulk update failed', {
+        description: error?.message || 'Please try again.',
+      });
+    },
+  });
+}
+
 // Product Creation Mutation
 export function useCreateProduct() {
   const queryClient = useQueryClient();
@@ -139,6 +201,81 @@ export function useDeleteProduct() {
   });
 }
 
+// Stock Movement Mutation - receipts, returns, adjustments and damage
+export function useRecordInventoryMovement() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useMutation({
+    mutationFn: async ({ productId, ...movement }: InventoryMovementInput & { productId: string }) => {
+      if (!isAdmin) {
+        throw new Error('Admin access required');
+      }
+      return apiClient.recordAdminInventoryMovement(productId, movement as InventoryMovementInput);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'products'] });
+      queryClient.invalidateQueries({ queryKey: ['admin', 'dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['admin', 'activity'] });
+
+      toastService.success('Stock movement recorded');
+    },
+    onError: (error: Error) => {
+      toastService.error(
+        error?.message || 'Failed to record stock movement. Please try again.'
+      );
+    },
+  });
+}
+
+// Product Import Dry Run - validates a spreadsheet without creating anything
+export function usePreviewProductImport() {
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useMutation({
+    mutationFn: async (input: ProductImportFileInput) => {
+      if (!isAdmin) {
+        throw new Error('Admin access required');
+      }
+      const response = (await apiClient.previewAdminProductImport(input)) as {
+        data: ProductImportPreview;
+      };
+      return response.data;
+    },
+    onError: (error: Error) => {
+      toast.error('Could not read the import file', {
+        description: error?.message || 'Please check the file and try again.',
+      });
+    },
+  });
+}
+
+// Product Import Batch Mutation - the import dialog commits previewed rows one batch at a time
+export function useImportProducts() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useMutation({
+    mutationFn: async (input: ProductImportBatchInput) => {
+      if (!isAdmin) {
+        throw new Error('Admin access required');
+      }
+      const response = (await apiClient.importAdminProducts(input)) as {
+        data: ProductImportBatchResponse;
+      };
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'products'] });
+      queryClient.invalidateQueries({ queryKey: ['admin', 'dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['admin', 'activity'] });
+    },
+  });
+}
+
 // Category Creation Mutation
 export function useCreateCategory() {
   const queryClient = useQueryClient();
@@ -156,6 +293,7 @@ export function useCreateCategory() {
       // Invalidate and refetch categories
       queryClient.invalidateQueries({ queryKey: ['admin', 'categories'] });
       queryClient.invalidateQueries({ queryKey: ['admin', 'dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
 
       toastService.success('Category created successfully');
     },
@@ -184,6 +322,7 @@ export function useUpdateCategory() {
       // Invalidate and refetch categories
       queryClient.invalidateQueries({ queryKey: ['admin', 'categories'] });
       queryClient.invalidateQueries({ queryKey: ['admin', 'dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
 
       toastService.success('Category updated successfully');
     },
@@ -202,18 +341,20 @@ export function useDeleteCategory() {
   const isAdmin = isAuthenticated && user?.role === 'ADMIN';
 
   return useMutation({
-    mutationFn: async (id: string) => {
+    mutationFn: async ({ id, reassignTo }: { id: string; reassignTo?: string }) => {
       if (!isAdmin) {
         throw new Error('Admin access required');
       }
-      return apiClient.deleteAdminCategoryEnhanced(id);
+      return apiClient.deleteAdminCategoryEnhanced(id, reassignTo) as Promise<{ message?: string }>;
     },
-    onSuccess: () => {
-      // Invalidate and refetch categories
+    onSuccess: (response) => {
+      // Invalidate and refetch categories, and products that may have moved category
       queryClient.invalidateQueries({ queryKey: ['admin', 'categories'] });
+      queryClient.invalidateQueries({ queryKey: ['admin', 'products'] });
       queryClient.invalidateQueries({ queryKey: ['admin', 'dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
 
-      toastService.success('Category deleted successfully');
+      toastService.success(response?.message || 'Category deleted successfully');
     },
     onError: (error: any) => {
       toastService.error(
@@ -223,6 +364,180 @@ export function useDeleteCategory() {
   });
 }
 
+// Category Reorder Mutation - saves the drag-and-drop order of one group of siblings
+export function useReorderCategories() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useMutation({
+    mutationFn: async (input: CategoryReorderInput) => {
+      if (!isAdmin) {
+        throw new Error('Admin access required');
+      }
+      return apiClient.reorderAdminCategories(input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+    },
+    onError: (error: Error) => {
+      toastService.error(error.message || 'Failed to save category order. Please try again.');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'categories'] });
+    },
+  });
+}
+
+// Coupon Creation Mutation
+export function useCreateCoupon() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useMutation({
+    mutationFn: async (couponData: CreateCouponData) => {
+      if (!isAdmin) {
+        throw new Error('Admin access required');
+      }
+      return apiClient.createAdminCoupon(couponData);
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'coupons'] });
+
+      toastService.success(`Coupon ${variables.code} created`);
+    },
+    onError: (error: Error) => {
+      toastService.error(
+        error?.message || 'Failed to create coupon. Please try again.'
+      );
+    },
+  });
+}
+
+// Coupon Update Mutation
+export function useUpdateCoupon() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useMutation({
+    mutationFn: async ({ id, ...couponData }: CreateCouponData & { id: string }) => {
+      if (!isAdmin) {
+        throw new Error('Admin access required');
+      }
+      return apiClient.updateAdminCoupon(id, couponData);
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'coupons'] });
+
+      toastService.success(`Coupon ${variables.code} updated`);
+    },
+    onError: (error: Error) => {
+      toastService.error(
+        error?.message || 'Failed to update coupon. Please try again.'
+      );
+    },
+  });
+}
+
+// Coupon Deletion Mutation
+export function useDeleteCoupon() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!isAdmin) {
+        throw new Error('Admin access required');
+      }
+      return apiClient.deleteAdminCoupon(id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'coupons'] });
+
+      toastService.success('Coupon deleted successfully');
+    },
+    onError: (error: Error) => {
+      toastService.error(
+        error?.message || 'Failed to delete coupon. Please try again.'
+      );
+    },
+  });
+}
+
+const REVIEW_MODERATION_MESSAGES: Record<ReviewModerationInput['action'], string> = {
+  approve: 'Review approved',
+  reject: 'Review rejected',
+  reply: 'Reply posted',
+  feature: 'Review featured on the homepage',
+  unfeature: 'Review removed from the homepage',
+};
+
+// Review Moderation Mutation
+export function useModerateReview() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: ReviewModerationInput & { id: string }) => {
+      if (!isAdmin) {
+        throw new Error('Admin access required');
+      }
+      return apiClient.moderateAdminReview(id, input as ReviewModerationInput);
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'reviews'] });
+      queryClient.invalidateQueries({ queryKey: ['reviews'] });
+
+      toastService.success(REVIEW_MODERATION_MESSAGES[variables.action]);
+    },
+    onError: (error: Error) => {
+      toastService.error(
+        error?.message || 'Failed to update review. Please try again.'
+      );
+    },
+  });
+}
+
+// Bulk Review Action Mutation - reports per-review results rather than failing the whole batch
+export function useBulkReviewAction() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useMutation({
+    mutationFn: async (input: BulkReviewActionInput) => {
+      if (!isAdmin) {
+        throw new Error('Admin access required');
+      }
+      const response = (await apiClient.bulkModerateAdminReviews(input)) as {
+        data: BulkReviewActionResponse;
+      };
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'reviews'] });
+      queryClient.invalidateQueries({ queryKey: ['reviews'] });
+
+      if (data.failed === 0) {
+        toast.success(`${data.succeeded} review${data.succeeded === 1 ? '' : 's'} ${data.action === 'approve' ? 'approved' : 'rejected'}`);
+      } else {
+        toast.warning(`${data.failed} of ${data.results.length} reviews could not be updated`, {
+          description: data.succeeded > 0 ? `${data.succeeded} updated successfully.` : undefined,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast.error('Bulk update failed', {
+        description: error?.message || 'Please try again.',
+      });
+    },
+  });
+}
+
 // Customer Update Mutation
 export function useUpdateCustomer() {
   const queryClient = useQueryClient();
@@ -279,30 +594,100 @@ export function useDeleteCustomer() {
   });
 }
 
-// Settings Update Mutation
+// Settings Update Mutation - applied optimistically, rolled back if the save fails
 export function useUpdateSettings() {
   const queryClient = useQueryClient();
   const { isAuthenticated, user } = useAuthStore();
   const isAdmin = isAuthenticated && user?.role === 'ADMIN';
 
   return useMutation({
-    mutationFn: async (settingsData: Partial<AdminSettings>) => {
+    mutationFn: async (settingsData: SystemSettingsInput) => {
       if (!isAdmin) {
         throw new Error('Admin access required');
       }
-      return apiClient.updateAdminSettingsEnhanced(settingsData);
+      return apiClient.updateAdminSettings(settingsData) as Promise<{ data: SystemSettingsInput }>;
     },
-    onSuccess: () => {
-      // Invalidate and refetch settings
-      queryClient.invalidateQueries({ queryKey: ['admin', 'settings'] });
+    onMutate: async (settingsData) => {
+      await queryClient.cancelQueries({ queryKey: ADMIN_SETTINGS_KEY, exact: true });
+
+      const previousSettings = queryClient.getQueryData<SystemSettingsInput>(ADMIN_SETTINGS_KEY);
+      queryClient.setQueryData(ADMIN_SETTINGS_KEY, settingsData);
+
+      return { previousSettings };
+    },
+    onSuccess: (response) => {
+      queryClient.setQueryData(ADMIN_SETTINGS_KEY, response.data);
 
       toastService.success('Settings updated successfully');
     },
-    onError: (error: any) => {
+    onError: (error: Error, _settingsData, context) => {
+      if (context?.previousSettings) {
+        queryClient.setQueryData(ADMIN_SETTINGS_KEY, context.previousSettings);
+      }
+
       toastService.error(
         error?.message || 'Failed to update settings. Please try again.'
       );
     },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_SETTINGS_KEY, exact: true });
+    },
+  });
+}
+
+// Delivery Zones Update Mutation
+export function useUpdateDeliverySettings() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useMutation({
+    mutationFn: async (deliveryData: DeliverySettingsInput) => {
+      if (!isAdmin) {
+        throw new Error('Admin access required');
+      }
+      return apiClient.updateAdminDeliverySettings(deliveryData);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'settings'] });
+      // Cart and checkout quote from the public zones
+      queryClient.invalidateQueries({ queryKey: ['delivery'] });
+
+      toastService.success('Delivery zones saved');
+    },
+    onError: (error: Error) => {
+      toastService.error(
+        error?.message || 'Failed to save delivery zones. Please try again.'
+      );
+    },
+  });
+}
+
+// Search Synonyms Update Mutation
+export function useUpdateSearchSettings() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useMutation({
+    mutationFn: async (searchData: SearchSettingsInput) => {
+      if (!isAdmin) {
+        throw new Error('Admin access required');
+      }
+      return apiClient.updateAdminSearchSettings(searchData);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'settings'] });
+      // Cached search results were expanded with the old synonyms
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+
+      toastService.success('Search synonyms saved');
+    },
+    onError: (error: Error) => {
+      toastService.error(
+        error?.message || 'Failed to save search synonyms. Please try again.'
+      );
+    },
   });
 }
 
@@ -317,18 +702,68 @@ export function useResetSettings() {
       if (!isAdmin) {
         throw new Error('Admin access required');
       }
-      return apiClient.resetAdminSettingsEnhanced();
+      return apiClient.resetAdminSettings() as Promise<{ data: SystemSettingsInput }>;
     },
-    onSuccess: () => {
-      // Invalidate and refetch settings
-      queryClient.invalidateQueries({ queryKey: ['admin', 'settings'] });
+    onSuccess: (response) => {
+      queryClient.setQueryData(ADMIN_SETTINGS_KEY, response.data);
+      queryClient.invalidateQueries({ queryKey: ADMIN_SETTINGS_KEY, exact: true });
 
       toastService.success('Settings reset to defaults successfully');
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toastService.error(
         error?.message || 'Failed to reset settings. Please try again.'
       );
     },
   });
 }
+
+// Settings Backup Download Mutation
+export function useDownloadSettingsBackup() {
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!isAdmin) {
+        throw new Error('Admin access required');
+      }
+      const response = (await apiClient.getAdminSettingsBackup()) as { data: SettingsBackup };
+      return response.data;
+    },
+    onError: (error: Error) => {
+      toastService.error(
+        error?.message || 'Failed to create settings backup. Please try again.'
+      );
+    },
+  });
+}
+
+// Settings Backup Restore Mutation
+export function useRestoreSettings() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, user } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === 'ADMIN';
+
+  return useMutation({
+    mutationFn: async (backup: SettingsBackup) => {
+      if (!isAdmin) {
+        throw new Error('Admin access required');
+      }
+      return apiClient.restoreAdminSettings(backup);
+    },
+    onSuccess: () => {
+      // Restores system settings, delivery zones and search synonyms
+      queryClient.invalidateQueries({ queryKey: ['admin', 'settings'] });
+      queryClient.invalidateQueries({ queryKey: ['delivery'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+
+      toastService.success('Settings restored from backup');
+    },
+    onError: (error: Error) => {
+      toastService.error(
+        error?.message || 'Failed to restore settings. Please try again.'
+      );
+    },
+  });
+}
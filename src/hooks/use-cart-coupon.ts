@@ -0,0 +1,83 @@
+'use client';
+
+import { ApiError, apiClient } from '@/lib/api-client';
+import type { ValidateCouponInput } from '@/lib/coupon-schemas';
+import { normalizeCouponCode } from '@/lib/coupon-utils';
+import { queryKeys } from '@/lib/query-client';
+import { useCartStore } from '@/store';
+import { useIsAuthenticated } from '@/store/auth-store';
+import type { CouponQuote } from '@/types/admin';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+
+async function fetchCouponQuote(code: string, items: ValidateCouponInput['items']) {
+  const response = (await apiClient.validateCoupon({ code, items })) as { data: CouponQuote };
+  return response.data;
+}
+
+// The server refused the coupon for this cart, as opposed to an outage or an expired session
+function isCouponRejection(error: unknown): error is ApiError {
+  return (
+    error instanceof ApiError &&
+    !!error.statusCode &&
+    error.statusCode < 500 &&
+    error.statusCode !== 401
+  );
+}
+
+// Applied coupon for the current cart - the quote is refreshed whenever the cart changes
+export function useCartCoupon() {
+  const queryClient = useQueryClient();
+  const isAuthenticated = useIsAuthenticated();
+  const { items, couponCode, setCouponCode } = useCartStore();
+
+  const lines = items.map(item => ({
+    product_id: item.product.id,
+    variant_id: item.variant?.id,
+    quantity: item.quantity,
+  }));
+
+  const quoteQuery = useQuery({
+    queryKey: queryKeys.cart.coupon(couponCode || '', lines),
+    queryFn: () => fetchCouponQuote(couponCode!, lines),
+    enabled: !!couponCode && isAuthenticated && lines.length > 0,
+    staleTime: 1 * 60 * 1000, // 1 minute
+    retry: (failureCount, error) => !isCouponRejection(error) && failureCount < 2,
+  });
+
+  // Drop a coupon the server no longer accepts for this cart (expired, limit hit, items removed)
+  useEffect(() => {
+    if (isCouponRejection(quoteQuery.error)) {
+      setCouponCode(null);
+      // Fixed id so the cart drawer and checkout don't both show the same toast
+      toast.error('Coupon removed', {
+        id: 'cart-coupon-removed',
+        description: quoteQuery.error.message,
+      });
+    }
+  }, [quoteQuery.error, setCouponCode]);
+
+  const applyMutation = useMutation({
+    mutationFn: (code: string) => fetchCouponQuote(normalizeCouponCode(code), lines),
+    onSuccess: quote => {
+      queryClient.setQueryData(queryKeys.cart.coupon(quote.code, lines), quote);
+      setCouponCode(quote.code);
+    },
+  });
+
+  const quote = couponCode ? quoteQuery.data : undefined;
+
+  return {
+    couponCode,
+    quote,
+    discount: quote?.discount_amount || 0,
+    isChecking: quoteQuery.isFetching,
+    applyCoupon: applyMutation.mutateAsync,
+    isApplying: applyMutation.isPending,
+    applyError: applyMutation.error instanceof Error ? applyMutation.error.message : null,
+    resetApplyError: applyMutation.reset,
+    removeCoupon: () => setCouponCode(null),
+    canUseCoupons: isAuthenticated,
+  };
+}
@@ -0,0 +1,30 @@
+import { apiClient } from '@/lib/api-client';
+import { queryKeys } from '@/lib/query-client';
+import { DEFAULT_DELIVERY_SETTINGS, quoteShipping, type ShippingQuoteInput } from '@/lib/shipping-utils';
+import type { DeliverySettings } from '@/types/admin';
+import { useQuery } from '@tanstack/react-query';
+
+// Hook for the public delivery zones
+export function useDeliverySettings() {
+  return useQuery({
+    queryKey: queryKeys.delivery.settings,
+    queryFn: async () => {
+      const response = (await apiClient.getDeliverySettings()) as { data: DeliverySettings };
+      return response.data;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+// Hook for a shipping quote - the order API charges the same fee from the saved zones
+export function useShippingQuote(input: ShippingQuoteInput) {
+  const { data: settings = DEFAULT_DELIVERY_SETTINGS, isLoading } = useDeliverySettings();
+
+  return {
+    settings,
+    // No quote until a city is known - callers show the lowest fee instead
+    quote: input.city ? quoteShipping(settings, input) : null,
+    isLoading,
+  };
+}
@@ -1,13 +1,23 @@
 'use client';
 
-import { EnhancedOTPAPI, EnhancedOTPError } from '@/lib/api-enhanced';
+import { EnhancedOTPAPI, EnhancedOTPError, PhoneOTPAPI } from '@/lib/api-enhanced';
 import { getRetryStrategy, logError } from '@/lib/error-constants';
+import type { PhoneOtpPurpose } from '@/lib/phone-auth-schemas';
 import { OTPToast } from '@/lib/toast-utils';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useCallback, useEffect, useRef, useState } from 'react';
 
+interface EnhancedOTPOptions {
+  // 'phone' sends the code by SMS and signs in or registers on verification
+  channel?: 'email' | 'phone';
+  purpose?: PhoneOtpPurpose;
+  name?: string;
+  redirectTo?: string;
+}
+
 // Enhanced OTP hook with comprehensive error handling and retry logic
-export function useEnhancedOTP(email?: string) {
+export function useEnhancedOTP(email?: string, options: EnhancedOTPOptions = {}) {
+  const { channel = 'email', purpose = 'login', name, redirectTo } = options;
   const queryClient = useQueryClient();
   const [retryCount, setRetryCount] = useState(0);
   const [isLocked, setIsLocked] = useState(false);
@@ -15,7 +25,7 @@ export function useEnhancedOTP(email?: string) {
   const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Initialize API client
-  const otpAPI = new EnhancedOTPAPI();
+  const otpAPI = channel === 'phone' ? new PhoneOTPAPI({ purpose, name, redirectTo }) : new EnhancedOTPAPI();
 
   // Clear retry timeout on unmount
   useEffect(() => {
@@ -161,7 +171,7 @@ export function useEnhancedOTP(email?: string) {
 
   // Cooldown status query (optimized)
   const cooldownQuery = useQuery({
-    queryKey: ['cooldown-status', email], // Use consistent key
+    queryKey: ['cooldown-status', email, channel], // Use consistent key
     queryFn: () => (email ? otpAPI.getCooldownStatus(email) : null),
     enabled: !!email,
     staleTime: 2000, // Consider data fresh for 2 seconds
@@ -201,7 +211,7 @@ export function useEnhancedOTP(email?: string) {
   const verifyOTP = useCallback(
     async (targetEmail: string, otp: string) => {
       try {
-        await verifyOTPMutation.mutateAsync({ targetEmail, otp });
+        return await verifyOTPMutation.mutateAsync({ targetEmail, otp });
       } catch (error) {
         if (error instanceof EnhancedOTPError && error.errorCode === 'NETWORK_ERROR') {
           const strategy = getRetryStrategy('NETWORK_ERROR');
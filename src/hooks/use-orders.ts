@@ -0,0 +1,29 @@
+import { apiClient } from '@/lib/api-client';
+import { queryKeys } from '@/lib/query-client';
+import type { AdminOrder, CustomerOrderQueryParams, PaginatedResponse } from '@/types/admin';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+
+// Hook for the signed-in customer's order history
+export function useOrders(params: CustomerOrderQueryParams = {}) {
+  return useQuery({
+    queryKey: queryKeys.orders.list(params),
+    queryFn: () => apiClient.getOrders(params) as Promise<PaginatedResponse<AdminOrder>>,
+    placeholderData: keepPreviousData,
+    staleTime: 1 * 60 * 1000, // 1 minute
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+// Hook for a single customer order
+export function useOrder(id: string) {
+  return useQuery({
+    queryKey: queryKeys.orders.detail(id),
+    queryFn: async () => {
+      const response = (await apiClient.getOrder(id)) as { data: AdminOrder };
+      return response.data;
+    },
+    staleTime: 1 * 60 * 1000, // 1 minute
+    gcTime: 5 * 60 * 1000, // 5 minutes
+    enabled: !!id,
+  });
+}
@@ -1,23 +1,50 @@
 import { apiClient } from '@/lib/api-client';
+import { PRODUCTS_PAGE_SIZE } from '@/lib/product-search';
 import { queryKeys } from '@/lib/query-client';
-import type { ProductFilters } from '@/types';
-import { useQuery } from '@tanstack/react-query';
+import type { RestockSubscriptionInput } from '@/lib/restock-schemas';
+import type { ReviewFormInput } from '@/lib/review-schemas';
+import type {
+  Product,
+  ProductFilters,
+  ProductReviews,
+  ProductSearchResult,
+  Review,
+  ReviewEligibility,
+} from '@/types';
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
 
 // Hook for getting all products with filters
 export function useProducts(filters: ProductFilters = {}) {
   return useQuery({
     queryKey: queryKeys.products.list(filters),
-    queryFn: () =>
-      apiClient.getProducts({
-        category: filters.category,
-        search: filters.search,
-        featured: filters.featured,
-        inStock: filters.inStock,
-        sortBy: filters.sortBy,
-        sortOrder: filters.sortOrder,
-        limit: 50,
-        offset: 0,
-      }),
+    queryFn: async () => {
+      const response = (await apiClient.getProducts(filters, { limit: 50 })) as { data: Product[] };
+      return response.data;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+// Hook for the products page - one server-filtered page per fetch, for infinite scroll
+export function useInfiniteProducts(filters: ProductFilters = {}) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.products.infinite(filters),
+    queryFn: async ({ pageParam }) =>
+      (await apiClient.getProducts(filters, {
+        page: pageParam,
+        limit: PRODUCTS_PAGE_SIZE,
+      })) as ProductSearchResult,
+    initialPageParam: 1,
+    getNextPageParam: lastPage =>
+      lastPage.pagination.page < lastPage.pagination.totalPages ? lastPage.pagination.page + 1 : undefined,
+    placeholderData: keepPreviousData,
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
   });
@@ -27,7 +54,10 @@ export function useProducts(filters: ProductFilters = {}) {
 export function useProduct(id: string) {
   return useQuery({
     queryKey: queryKeys.products.detail(id),
-    queryFn: () => apiClient.getProduct(id),
+    queryFn: async () => {
+      const response = (await apiClient.getProduct(id)) as { data: Product };
+      return response.data;
+    },
     staleTime: 10 * 60 * 1000, // 10 minutes
     gcTime: 30 * 60 * 1000, // 30 minutes
     enabled: !!id,
@@ -55,28 +85,88 @@ export function useProductsByCategory(categorySlug: string, limit?: number) {
   });
 }
 
-// Hook for searching products
+// Hook for searching products - matches and category facets, synonyms applied by the server
 export function useProductSearch(query: string, limit?: number) {
   return useQuery({
     queryKey: queryKeys.products.search(query),
-    queryFn: () => apiClient.searchProducts(query, limit),
+    queryFn: async () => (await apiClient.searchProducts(query, limit)) as ProductSearchResult,
+    // Keep the last suggestions on screen while the next query loads
+    placeholderData: keepPreviousData,
     staleTime: 2 * 60 * 1000, // 2 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
     enabled: !!query && query.length > 0,
   });
 }
 
-// Hook for getting product reviews (placeholder - will be implemented when reviews API is ready)
-export function useProductReviews(productId: string) {
+// Hook for a product's published reviews and rating breakdown
+export function useProductReviews(productId: string, initialData?: ProductReviews) {
   return useQuery({
     queryKey: queryKeys.reviews.byProduct(productId),
-    queryFn: () => Promise.resolve([]), // Placeholder - return empty array for now
+    queryFn: async () => {
+      const response = (await apiClient.getProductReviews(productId)) as { data: ProductReviews };
+      return response.data;
+    },
+    initialData,
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 15 * 60 * 1000, // 15 minutes
     enabled: !!productId,
   });
 }
 
+// Hook for the reviews admins picked for the homepage carousel
+export function useFeaturedReviews() {
+  return useQuery({
+    queryKey: queryKeys.reviews.featured,
+    queryFn: async () => {
+      const response = (await apiClient.getFeaturedReviews()) as { data: Review[] };
+      return response.data;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+// Hook for whether the signed-in customer has a delivered order for the product
+export function useReviewEligibility(productId: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: queryKeys.reviews.eligibility(productId),
+    queryFn: async () => {
+      const response = (await apiClient.getReviewEligibility(productId)) as { data: ReviewEligibility };
+      return response.data;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 15 * 60 * 1000, // 15 minutes
+    enabled: !!productId && enabled,
+  });
+}
+
+// Hook for submitting a review - the server sets the verified flag
+export function useCreateReview(productId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (review: ReviewFormInput) => {
+      const response = (await apiClient.createProductReview(productId, review)) as { data: Review };
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.reviews.byProduct(productId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.reviews.eligibility(productId) });
+    },
+  });
+}
+
+// Hook for signing up to a "back in stock" email
+export function useRestockSubscription(productId: string) {
+  return useMutation({
+    mutationFn: (input: RestockSubscriptionInput) =>
+      apiClient.subscribeToRestock(productId, input) as Promise<{
+        data: { email: string; alreadySubscribed: boolean };
+        message: string;
+      }>,
+  });
+}
+
 // Hook for getting all categories
 export function useCategories() {
   return useQuery({
@@ -0,0 +1,79 @@
+import { apiClient } from '@/lib/api-client';
+import { authCacheManager } from '@/lib/auth-cache-manager';
+import { queryKeys } from '@/lib/query-client';
+import type {
+  ChangePasswordData,
+  EmailChangeRequestData,
+  EmailChangeVerifyData,
+  ProfileUpdateInput,
+} from '@/lib/profile-schemas';
+import { useAuthActions } from '@/store/auth-store';
+import type { User } from '@/types/auth';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import { useCallback } from 'react';
+
+/**
+ * Pushes a saved account everywhere it is shown: the auth store, the cached
+ * profile and - via a router refresh that picks up the reissued access
+ * token - server-rendered parts such as the navbar avatar
+ */
+function useSyncSavedUser() {
+  const queryClient = useQueryClient();
+  const { updateProfile } = useAuthActions();
+  const router = useRouter();
+
+  return useCallback(
+    (user: User) => {
+      updateProfile(user);
+      authCacheManager.setUserData(user);
+      queryClient.setQueryData(queryKeys.auth.profile, { data: user });
+      router.refresh();
+    },
+    [queryClient, updateProfile, router]
+  );
+}
+
+// Hook for the signed-in customer's full profile
+export function useProfile() {
+  return useQuery({
+    queryKey: queryKeys.auth.profile,
+    queryFn: () => apiClient.getProfile(),
+    select: response => response.data,
+    // Sign-in seeds this key from the session user, which lacks fields such as the phone number
+    staleTime: 0,
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+export function useUpdateProfile() {
+  const syncSavedUser = useSyncSavedUser();
+
+  return useMutation({
+    mutationFn: (data: ProfileUpdateInput) => apiClient.updateProfile(data),
+    onSuccess: response => syncSavedUser(response.data),
+  });
+}
+
+export function useChangePassword() {
+  return useMutation({
+    mutationFn: (data: ChangePasswordData) => apiClient.changePassword(data),
+  });
+}
+
+// Email change, step 1 - the code goes to the new address
+export function useRequestEmailChange() {
+  return useMutation({
+    mutationFn: (data: EmailChangeRequestData) => apiClient.requestEmailChange(data),
+  });
+}
+
+// Email change, step 2 - the account switches once the code checks out
+export function useVerifyEmailChange() {
+  const syncSavedUser = useSyncSavedUser();
+
+  return useMutation({
+    mutationFn: (data: EmailChangeVerifyData) => apiClient.verifyEmailChange(data),
+    onSuccess: response => syncSavedUser(response.data),
+  });
+}
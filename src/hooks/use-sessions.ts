@@ -0,0 +1,34 @@
+import { apiClient } from '@/lib/api-client';
+import { queryKeys } from '@/lib/query-client';
+import { useIsAuthenticated } from '@/store/auth-store';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+// Hook for the devices signed in to the customer's account, this one first
+export function useSessions() {
+  const isAuthenticated = useIsAuthenticated();
+
+  return useQuery({
+    queryKey: queryKeys.account.sessions,
+    queryFn: () => apiClient.getSessions(),
+    select: response => response.data,
+    enabled: isAuthenticated,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+export function useRevokeSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => apiClient.revokeSession(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.account.sessions }),
+  });
+}
+
+// Signs out every device, this one included - the caller finishes the local logout
+export function useRevokeAllSessions() {
+  return useMutation({
+    mutationFn: () => apiClient.revokeAllSessions(),
+  });
+}
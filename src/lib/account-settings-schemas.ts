@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import type { ShippingAddress } from '@/types';
+import type { AdminOrder } from '@/types/admin';
+import type { User } from '@/types/auth';
+
+export const THEME_PREFERENCES = ['light', 'dark', 'system'] as const;
+export const LANGUAGE_PREFERENCES = ['en', 'bn'] as const;
+export const NOTIFICATION_CHANNELS = ['email', 'sms'] as const;
+export const NOTIFICATION_TOPICS = ['order_updates', 'promotions', 'back_in_stock'] as const;
+
+// Days a deleted account can still be restored before it is purged
+export const ACCOUNT_DELETION_GRACE_DAYS = 30;
+
+const NotificationTopicsSchema = z.object({
+  order_updates: z.boolean(),
+  promotions: z.boolean(),
+  back_in_stock: z.boolean(),
+});
+
+// Per-account preferences, saved as a whole on every change
+export const AccountSettingsSchema = z.object({
+  theme: z.enum(THEME_PREFERENCES),
+  language: z.enum(LANGUAGE_PREFERENCES),
+  notifications: z.object({
+    email: NotificationTopicsSchema,
+    sms: NotificationTopicsSchema,
+  }),
+});
+
+export const DEFAULT_ACCOUNT_SETTINGS: z.infer<typeof AccountSettingsSchema> = {
+  theme: 'system',
+  language: 'en',
+  notifications: {
+    email: { order_updates: true, promotions: false, back_in_stock: true },
+    sms: { order_updates: true, promotions: false, back_in_stock: false },
+  },
+};
+
+// When a soft-deleted account is purged for good
+export function getAccountPurgeDate(deletedAt: string): Date {
+  const date = new Date(deletedAt);
+  date.setDate(date.getDate() + ACCOUNT_DELETION_GRACE_DAYS);
+  return date;
+}
+
+// Deletion request - the password and a typed confirmation guard against accidents
+export const AccountDeletionSchema = z.object({
+  current_password: z.string().min(1, 'Please enter your password'),
+  confirmation: z.string().refine(value => value.trim() === 'DELETE', 'Type DELETE to confirm'),
+  reason: z.string().trim().max(500, 'Reason must be less than 500 characters').optional(),
+});
+
+// Type exports
+export type ThemePreference = (typeof THEME_PREFERENCES)[number];
+export type LanguagePreference = (typeof LANGUAGE_PREFERENCES)[number];
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+export type NotificationTopic = (typeof NOTIFICATION_TOPICS)[number];
+export type AccountSettings = z.infer<typeof AccountSettingsSchema>;
+export type AccountDeletionData = z.infer<typeof AccountDeletionSchema>;
+
+// Self-service data export, as downloaded by the customer
+export interface AccountExport {
+  exported_at: string;
+  profile: User;
+  settings: AccountSettings;
+  orders: AdminOrder[];
+  addresses: ShippingAddress[];
+}
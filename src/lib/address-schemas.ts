@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { normalizeBangladeshiPhone } from './phone-utils';
+
+// Saved delivery address - the same fields checkout asks for
+export const AddressFormSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters'),
+  phone: z
+    .string()
+    .trim()
+    .min(1, 'Phone number is required')
+    .transform((value, ctx) => {
+      const phone = normalizeBangladeshiPhone(value);
+      if (!phone) {
+        ctx.addIssue({
+          code: 'custom',
+          message: 'Please enter a valid mobile number (01XXXXXXXXX)',
+        });
+        return z.NEVER;
+      }
+      return phone;
+    }),
+  address: z.string().trim().min(10, 'Address must be at least 10 characters'),
+  city: z.string().min(1, 'Please select a city'),
+  area: z.string().trim().min(2, 'Please select an area'),
+  postalCode: z.string().trim().optional(),
+  isDefault: z.boolean().optional(),
+});
+
+// Type exports
+export type AddressFormInput = z.input<typeof AddressFormSchema>;
+export type AddressFormData = z.infer<typeof AddressFormSchema>;
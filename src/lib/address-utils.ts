@@ -0,0 +1,91 @@
+/**
+ * Address Book Utilities
+ * Maps backend addresses to the storefront shape and detects duplicates, so
+ * the same delivery address is only ever saved once per customer
+ */
+
+import type { ShippingAddress } from '@/types';
+import type { BackendShippingAddress } from '@/types/backend';
+import type { AddressFormData } from './address-schemas';
+import { BANGLADESHI_CITY_AREAS, type BangladeshiCity } from './constants';
+import { normalizeBangladeshiPhone } from './phone-utils';
+
+export function sanitizeShippingAddress(address: BackendShippingAddress): ShippingAddress {
+  return {
+    id: String(address.id || ''),
+    name: String(address.name || ''),
+    phone: String(address.phone || ''),
+    address: String(address.address || address.address_line_1 || ''),
+    city: String(address.city || ''),
+    area: String(address.area || ''),
+    postalCode: address.postal_code || address.postalCode || undefined,
+    isDefault: Boolean(address.is_default ?? address.isDefault),
+  };
+}
+
+// Backend (snake_case) payload for a saved address
+export function toBackendAddress(data: Partial<AddressFormData>) {
+  return {
+    name: data.name,
+    phone: data.phone,
+    address: data.address,
+    city: data.city,
+    area: data.area,
+    postal_code: data.postalCode || undefined,
+    is_default: data.isDefault,
+  };
+}
+
+// Case, spacing and punctuation differences don't make a new address
+function normalizeText(value: string | undefined): string {
+  return (value || '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+export function getAddressFingerprint(
+  address: Pick<ShippingAddress, 'name' | 'phone' | 'address' | 'city' | 'area'>
+): string {
+  return [
+    normalizeText(address.name),
+    normalizeBangladeshiPhone(address.phone) || address.phone.trim(),
+    normalizeText(address.address),
+    normalizeText(address.city),
+    normalizeText(address.area),
+  ].join('|');
+}
+
+export function findDuplicateAddress(
+  addresses: ShippingAddress[],
+  candidate: Pick<ShippingAddress, 'name' | 'phone' | 'address' | 'city' | 'area'>,
+  excludeId?: string
+): ShippingAddress | undefined {
+  const fingerprint = getAddressFingerprint(candidate);
+  return addresses.find(
+    address => address.id !== excludeId && getAddressFingerprint(address) === fingerprint
+  );
+}
+
+// Default address first, then in the order they were saved
+export function sortAddresses(addresses: ShippingAddress[]): ShippingAddress[] {
+  return [...addresses].sort((a, b) => Number(!!b.isDefault) - Number(!!a.isDefault));
+}
+
+/**
+ * Areas to offer for a city. A saved area that is not in the list (from
+ * before the dropdown existed) is kept so editing doesn't silently drop it
+ */
+export function getCityAreas(city: string | undefined, currentArea?: string): string[] {
+  const areas = city && city in BANGLADESHI_CITY_AREAS ? [...BANGLADESHI_CITY_AREAS[city as BangladeshiCity]] : [];
+
+  if (currentArea && !areas.some(area => area.toLowerCase() === currentArea.toLowerCase())) {
+    areas.unshift(currentArea);
+  }
+
+  return areas;
+}
+
+export function formatAddressLine(address: Pick<ShippingAddress, 'address' | 'area' | 'city' | 'postalCode'>): string {
+  return [address.address, address.area, address.city, address.postalCode].filter(Boolean).join(', ');
+}
@@ -3,6 +3,7 @@
  * Data transformation and formatting utilities for admin interface
  */
 
+import { canTransitionOrder, getAllowedNextStatuses } from '@/lib/order-status';
 import type { OrderWithDetails } from '@/types/admin';
 
 // Transform backend OrderWithDetails to frontend table format
@@ -134,39 +135,17 @@ export function getPaymentStatusPriority(status: string): number {
 
 // Check if order can be cancelled
 export function canCancelOrder(order: OrderWithDetails): boolean {
-  const nonCancellableStatuses = ['DELIVERED', 'CANCELLED'];
-  return !nonCancellableStatuses.includes(order.status);
+  return canTransitionOrder(order.status, 'cancelled');
 }
 
 // Check if order status can be updated
 export function canUpdateOrderStatus(order: OrderWithDetails, newStatus: string): boolean {
-  const currentStatus = order.status;
-
-  // Define valid status transitions
-  const validTransitions: Record<string, string[]> = {
-    PENDING: ['CONFIRMED', 'CANCELLED'],
-    CONFIRMED: ['PROCESSING', 'CANCELLED'],
-    PROCESSING: ['SHIPPED', 'CANCELLED'],
-    SHIPPED: ['DELIVERED'],
-    DELIVERED: [], // Cannot change from delivered
-    CANCELLED: [], // Cannot change from cancelled
-  };
-
-  return validTransitions[currentStatus]?.includes(newStatus.toUpperCase()) || false;
+  return canTransitionOrder(order.status, newStatus);
 }
 
 // Get next possible statuses for an order
 export function getNextPossibleStatuses(order: OrderWithDetails): string[] {
-  const validTransitions: Record<string, string[]> = {
-    PENDING: ['CONFIRMED', 'CANCELLED'],
-    CONFIRMED: ['PROCESSING', 'CANCELLED'],
-    PROCESSING: ['SHIPPED', 'CANCELLED'],
-    SHIPPED: ['DELIVERED'],
-    DELIVERED: [],
-    CANCELLED: [],
-  };
-
-  return validTransitions[order.status] || [];
+  return getAllowedNextStatuses(order.status);
 }
 
 // Calculate order summary
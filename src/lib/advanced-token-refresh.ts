@@ -9,6 +9,7 @@
 import { enhancedTokenManager } from './enhanced-token-manager';
 import { useAuthStore } from '@/store/auth-store';
 import { toastService } from './toast-service';
+import { fetchTokenRefresh } from './token-refresh-lock';
 
 interface RefreshResult {
   success: boolean;
@@ -92,13 +93,7 @@ class AdvancedTokenRefreshService {
    */
   private async attemptTokenRefresh(): Promise<RefreshResult> {
     try {
-      const response = await fetch('/api/auth/refresh-token', {
-        method: 'POST',
-        credentials: 'same-origin',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+      const response = await fetchTokenRefresh();
 
       if (response.ok) {
         // Token refresh successful
@@ -1,6 +1,43 @@
 // Simple API client for making requests to the Next.js API routes
 
+import type { ProductFilters, ShippingAddress } from '@/types';
+import type {
+  AdminCouponQueryParams,
+  AdminProductQueryParams,
+  AdminReviewQueryParams,
+  CreateCouponData,
+} from '@/types/admin';
+import type { AccountSession, User } from '@/types/auth';
+import type {
+  AccountDeletionData,
+  AccountExport,
+  AccountSettings,
+} from './account-settings-schemas';
+import type { AddressFormInput } from './address-schemas';
+import type { CategoryReorderInput } from './category-schemas';
+import type { ValidateCouponInput } from './coupon-schemas';
+import type {
+  DeliverySettingsInput,
+  SearchSettingsInput,
+  SettingsBackup,
+  SystemSettingsInput,
+} from './settings-schemas';
+import type { InventoryMovementInput } from './inventory-schemas';
+import type { BulkOrderActionInput, CreateOrderInput } from './order-schemas';
+import type { ProductImportBatchInput, ProductImportFileInput } from './product-schemas';
+import type {
+  ChangePasswordData,
+  EmailChangeRequestData,
+  EmailChangeVerifyData,
+  ProfileUpdateInput,
+} from './profile-schemas';
+import type { RestockSubscriptionInput } from './restock-schemas';
+import type { BulkReviewActionInput, ReviewFormInput, ReviewModerationInput } from './review-schemas';
+import type { OrderTransitionPayload } from './order-status';
 import { API_CONFIG, urlBuilder } from './api-config';
+import { serializeProductFilters } from './product-search';
+import { isRefreshTokenReuse } from './session-utils';
+import { fetchTokenRefresh } from './token-refresh-lock';
 
 const API_BASE_URL = '/api';
 
@@ -9,16 +46,23 @@ export class ApiError extends Error {
   public statusCode?: number;
   public errorCode?: string;
   public userFriendly: boolean;
+  public fieldErrors?: Record<string, string>;
 
   constructor(
     message: string,
-    options?: { statusCode?: number; errorCode?: string; userFriendly?: boolean }
+    options?: {
+      statusCode?: number;
+      errorCode?: string;
+      userFriendly?: boolean;
+      fieldErrors?: Record<string, string>;
+    }
   ) {
     super(message);
     this.name = 'ApiError';
     this.statusCode = options?.statusCode;
     this.errorCode = options?.errorCode;
     this.userFriendly = options?.userFriendly ?? false;
+    this.fieldErrors = options?.fieldErrors;
   }
 }
 
@@ -141,20 +185,19 @@ class ApiClient {
 
   private async refreshTokens(): Promise<boolean> {
     try {
-      // Call the refresh token endpoint
-      const response = await fetch(`${this.baseUrl}/auth/refresh-token`, {
-        method: 'POST',
-        credentials: 'same-origin', // Include cookies
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+      // Call the refresh token endpoint - shared with every other refresh in the browser
+      const response = await fetchTokenRefresh(`${this.baseUrl}/auth/refresh-token`);
 
       if (response.ok) {
         // Token refresh successful
         return true;
       } else {
-        // Token refresh failed
+        // Token refresh failed - a reused refresh token ends every session in its family
+        const errorData = await response.json().catch(() => ({}));
+        if (isRefreshTokenReuse(errorData)) {
+          const { handleRefreshTokenReuse } = await import('./security-logout');
+          await handleRefreshTokenReuse();
+        }
         return false;
       }
     } catch (error) {
@@ -216,6 +259,7 @@ class ApiClient {
             statusCode: retryResponse.status,
             errorCode: errorData.errorCode || errorData.details?.errorCode,
             userFriendly: true,
+            fieldErrors: errorData.fieldErrors,
           });
         } else {
           // Refresh failed, user needs to login again
@@ -246,6 +290,7 @@ class ApiClient {
           statusCode: response.status,
           errorCode: errorData.errorCode || errorData.details?.errorCode,
           userFriendly: true,
+          fieldErrors: errorData.fieldErrors,
         });
       }
 
@@ -304,25 +349,11 @@ class ApiClient {
   }
 
   // Products API
-  async getProducts(params?: {
-    category?: string;
-    search?: string;
-    featured?: boolean;
-    inStock?: boolean;
-    sortBy?: string;
-    sortOrder?: string;
-    limit?: number;
-    offset?: number;
-  }) {
-    const searchParams = new URLSearchParams();
+  async getProducts(filters: ProductFilters = {}, pagination: { page?: number; limit?: number } = {}) {
+    const searchParams = serializeProductFilters(filters);
 
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          searchParams.append(key, value.toString());
-        }
-      });
-    }
+    if (pagination.page) searchParams.set('page', String(pagination.page));
+    if (pagination.limit) searchParams.set('limit', String(pagination.limit));
 
     const queryString = searchParams.toString();
     const endpoint = queryString ? `/products?${queryString}` : '/products';
@@ -330,8 +361,9 @@ class ApiClient {
     return this.get(endpoint);
   }
 
-  async getProduct(id: string) {
-    return this.get(`/products/${id}`);
+  // Accepts a product slug or a legacy product ID
+  async getProduct(idOrSlug: string) {
+    return this.get(`/products/${encodeURIComponent(idOrSlug)}`);
   }
 
   async getFeaturedProducts(limit?: number) {
@@ -351,6 +383,28 @@ class ApiClient {
     return this.get(`/products${params}`);
   }
 
+  // Product Reviews API
+  async getProductReviews(productId: string) {
+    return this.get(`/products/${encodeURIComponent(productId)}/reviews`);
+  }
+
+  async getReviewEligibility(productId: string) {
+    return this.get(`/products/${encodeURIComponent(productId)}/reviews/eligibility`);
+  }
+
+  async createProductReview(productId: string, review: ReviewFormInput) {
+    return this.post(`/products/${encodeURIComponent(productId)}/reviews`, review);
+  }
+
+  // Back-in-stock alerts
+  async subscribeToRestock(productId: string, input: RestockSubscriptionInput) {
+    return this.post(`/products/${encodeURIComponent(productId)}/notify`, input);
+  }
+
+  async getFeaturedReviews() {
+    return this.get('/reviews/featured');
+  }
+
   // Categories API
   async getCategories() {
     return this.get('/categories');
@@ -360,6 +414,141 @@ class ApiClient {
     return this.get(`/categories/${slug}`);
   }
 
+  // Profile API
+  async getProfile() {
+    return this.get<{ data: User }>('/profile');
+  }
+
+  async updateProfile(data: ProfileUpdateInput) {
+    return this.put<{ data: User; message?: string }>('/profile', data);
+  }
+
+  async changePassword(data: ChangePasswordData) {
+    return this.put<{ message?: string }>('/profile/password', data);
+  }
+
+  async requestEmailChange(data: EmailChangeRequestData) {
+    return this.post<{ data: { new_email: string; cooldownRemaining: number }; message?: string }>(
+      '/profile/email',
+      data
+    );
+  }
+
+  async verifyEmailChange(data: EmailChangeVerifyData) {
+    return this.post<{ data: User; message?: string }>('/profile/email/verify', data);
+  }
+
+  // Account settings API
+  async getAccountSettings() {
+    return this.get<{ data: AccountSettings }>('/account/settings');
+  }
+
+  async updateAccountSettings(settings: AccountSettings) {
+    return this.put<{ data: AccountSettings; message?: string }>('/account/settings', settings);
+  }
+
+  async exportAccountData() {
+    return this.get<{ data: AccountExport }>('/account/export');
+  }
+
+  async requestAccountDeletion(data: AccountDeletionData) {
+    return this.post<{ data: { deleted_at: string; grace_period_days: number }; message?: string }>(
+      '/account/deletion',
+      data
+    );
+  }
+
+  async cancelAccountDeletion() {
+    return this.delete<{ data: User; message?: string }>('/account/deletion');
+  }
+
+  // Signed-in devices API
+  async getSessions() {
+    return this.get<{ data: AccountSession[] }>('/account/sessions');
+  }
+
+  async revokeSession(id: string) {
+    return this.delete<{ message?: string }>(`/account/sessions/${encodeURIComponent(id)}`);
+  }
+
+  async revokeAllSessions() {
+    return this.delete<{ message?: string }>('/account/sessions');
+  }
+
+  // Address book API
+  async getAddresses() {
+    return this.get<{ data: ShippingAddress[] }>('/addresses');
+  }
+
+  async createAddress(data: AddressFormInput) {
+    return this.post<{ data: { address: ShippingAddress; duplicate: boolean }; message?: string }>(
+      '/addresses',
+      data
+    );
+  }
+
+  async updateAddress(id: string, data: AddressFormInput) {
+    return this.put<{ data: ShippingAddress; message?: string }>(
+      `/addresses/${encodeURIComponent(id)}`,
+      data
+    );
+  }
+
+  async deleteAddress(id: string) {
+    return this.delete<{ message?: string }>(`/addresses/${encodeURIComponent(id)}`);
+  }
+
+  async setDefaultAddress(id: string) {
+    return this.put<{ data: ShippingAddress; message?: string }>(
+      `/addresses/${encodeURIComponent(id)}/default`
+    );
+  }
+
+  // Orders API
+  async getOrders(params?: {
+    page?: number;
+    limit?: number;
+    status?: string;
+    startDate?: string;
+    endDate?: string;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+    const queryString = searchParams.toString();
+    return this.get(`/orders${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async getOrder(id: string) {
+    return this.get(`/orders/${encodeURIComponent(id)}`);
+  }
+
+  async createOrder(data: CreateOrderInput) {
+    return this.post('/orders', data);
+  }
+
+  async trackOrder(orderNumber: string, phone: string) {
+    return this.post('/orders/track', { orderNumber, phone });
+  }
+
+  async validateCoupon(input: ValidateCouponInput) {
+    return this.post('/coupons/validate', input);
+  }
+
+  async getDeliverySettings() {
+    return this.get('/delivery/settings');
+  }
+
+  // PDF documents are served directly by the route, so callers link to these URLs
+  getOrderInvoiceUrl(id: string): string {
+    return `${this.baseUrl}/orders/${encodeURIComponent(id)}/invoice`;
+  }
+
   // Authentication API (placeholder for future implementation)
   async login(email: string, password: string) {
     return this.post('/auth/login', { email, password });
@@ -564,14 +753,38 @@ class ApiClient {
     return this.put(`/admin/products/${id}/featured`, { featured });
   }
 
-  async updateAdminProductStock(id: string, stock_quantity: number, in_stock?: boolean) {
-    return this.put(`/admin/products/${id}/stock`, { stock_quantity, in_stock });
+  async getAdminInventoryMovements(id: string, params?: { page?: number; limit?: number }) {
+    const searchParams = new URLSearchParams();
+    if (params?.page) searchParams.append('page', params.page.toString());
+    if (params?.limit) searchParams.append('limit', params.limit.toString());
+    const queryString = searchParams.toString();
+    return this.get(`/admin/products/${encodeURIComponent(id)}/inventory${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async recordAdminInventoryMovement(id: string, input: InventoryMovementInput) {
+    return this.post(`/admin/products/${encodeURIComponent(id)}/inventory`, input);
   }
 
   async deleteAdminProduct(id: string) {
     return this.delete(`/admin/products/${id}`);
   }
 
+  async previewAdminProductImport(input: ProductImportFileInput) {
+    return this.post('/admin/products/import/preview', input);
+  }
+
+  async importAdminProducts(input: ProductImportBatchInput) {
+    return this.post('/admin/products/import', input);
+  }
+
+  getAdminProductExportUrl(filters: Omit<AdminProductQueryParams, 'page' | 'limit'>, format: 'csv' | 'xlsx'): string {
+    const searchParams = new URLSearchParams({ format });
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') searchParams.append(key, String(value));
+    });
+    return `${this.baseUrl}/admin/products/export?${searchParams.toString()}`;
+  }
+
   // Categories
   async getAdminCategories(params?: {
     page?: number;
@@ -617,15 +830,79 @@ class ApiClient {
     return this.get(`/admin/categories/${id}/products`);
   }
 
+  // Coupons
+  async getAdminCoupons(params?: AdminCouponQueryParams) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+    const queryString = searchParams.toString();
+    return this.get(`/admin/coupons${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async createAdminCoupon(data: CreateCouponData) {
+    return this.post('/admin/coupons', data);
+  }
+
+  async updateAdminCoupon(id: string, data: CreateCouponData) {
+    return this.put(`/admin/coupons/${encodeURIComponent(id)}`, data);
+  }
+
+  async deleteAdminCoupon(id: string) {
+    return this.delete(`/admin/coupons/${encodeURIComponent(id)}`);
+  }
+
+  // Reviews
+  async getAdminReviews(params?: AdminReviewQueryParams) {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+          searchParams.append(key, value.toString());
+        }
+      });
+    }
+    const queryString = searchParams.toString();
+    return this.get(`/admin/reviews${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async moderateAdminReview(id: string, input: ReviewModerationInput) {
+    return this.put(`/admin/reviews/${encodeURIComponent(id)}`, input);
+  }
+
+  async bulkModerateAdminReviews(input: BulkReviewActionInput) {
+    return this.post('/admin/reviews/batch', input);
+  }
+
   // Settings
   async getAdminSettings() {
     return this.get('/admin/settings');
   }
 
-  async updateAdminSettings(data: any) {
+  async updateAdminSettings(data: SystemSettingsInput) {
     return this.put('/admin/settings', data);
   }
 
+  async getAdminDeliverySettings() {
+    return this.get('/admin/settings/delivery');
+  }
+
+  async updateAdminDeliverySettings(data: DeliverySettingsInput) {
+    return this.put('/admin/settings/delivery', data);
+  }
+
+  async getAdminSearchSettings() {
+    return this.get('/admin/settings/search');
+  }
+
+  async updateAdminSearchSettings(data: SearchSettingsInput) {
+    return this.put('/admin/settings/search', data);
+  }
+
   async getAdminPublicSettings() {
     return this.get('/admin/settings/public');
   }
@@ -638,7 +915,7 @@ class ApiClient {
     return this.get('/admin/settings/backup');
   }
 
-  async restoreAdminSettings(data: any) {
+  async restoreAdminSettings(data: SettingsBackup) {
     return this.post('/admin/settings/restore', data);
   }
 
@@ -824,14 +1101,31 @@ class ApiClient {
     }
   }
 
-  async updateAdminOrderStatusEnhanced(id: string, status: string, notes?: string) {
+  async updateAdminOrderStatusEnhanced(
+    id: string,
+    status: string,
+    notes?: string,
+    details?: Pick<OrderTransitionPayload, 'tracking_number' | 'estimated_delivery'>
+  ) {
     try {
-      return await this.put(`/admin/orders/${id}/status`, { status, notes });
+      return await this.put(`/admin/orders/${id}/status`, { status, notes, ...details });
     } catch (error) {
       throw error; // Re-throw for proper error handling in UI
     }
   }
 
+  async bulkUpdateAdminOrders(input: BulkOrderActionInput) {
+    return this.post('/admin/orders/batch', input);
+  }
+
+  getAdminOrderDocumentUrl(ids: string[], type: 'invoice' | 'packing-slip'): string {
+    if (ids.length === 1) {
+      return `${this.baseUrl}/admin/orders/${encodeURIComponent(ids[0])}/${type}`;
+    }
+    const searchParams = new URLSearchParams({ type, ids: ids.join(',') });
+    return `${this.baseUrl}/admin/orders/documents?${searchParams.toString()}`;
+  }
+
   // Customers Methods
   async getAdminCustomersEnhanced(params?: {
     page?: number;
@@ -1035,14 +1329,16 @@ class ApiClient {
     } catch (error) {
       return {
         success: true,
-        data: [],
-        pagination: {
-          page: params?.page || 1,
-          limit: params?.limit || 20,
-          total: 0,
-          totalPages: 0,
-          hasNext: false,
-          hasPrev: false,
+        data: {
+          categories: [],
+          pagination: {
+            page: params?.page || 1,
+            limit: params?.limit || 20,
+            total: 0,
+            totalPages: 0,
+            hasNext: false,
+            hasPrev: false,
+          },
         },
         message: 'Categories (fallback data)',
         timestamp: new Date().toISOString(),
@@ -1066,71 +1362,18 @@ class ApiClient {
     }
   }
 
-  async deleteAdminCategoryEnhanced(id: string) {
+  // reassignTo moves the category's products to another category before it is deleted
+  async deleteAdminCategoryEnhanced(id: string, reassignTo?: string) {
     try {
-      return await this.delete(`/admin/categories/${id}`);
+      const query = reassignTo ? `?reassign_to=${encodeURIComponent(reassignTo)}` : '';
+      return await this.delete(`/admin/categories/${id}${query}`);
     } catch (error) {
       throw error; // Re-throw for proper error handling in UI
     }
   }
 
-  // Settings Methods
-  async getAdminSettingsEnhanced() {
-    try {
-      return await this.get('/admin/settings');
-    } catch (error) {
-      return {
-        success: true,
-        data: {
-          site_name: 'Hamsoya',
-          site_description: 'Premium organic products from Bangladesh',
-          contact_email: 'contact@hamsoya.com',
-          contact_phone: '+880-1234-567890',
-          address: 'Dhaka, Bangladesh',
-          currency: 'BDT',
-          tax_rate: 0,
-          shipping_fee: 100,
-          free_shipping_threshold: 2000,
-          maintenance_mode: false,
-          allow_registration: true,
-          email_notifications: true,
-          sms_notifications: false,
-          social_media: {
-            facebook: '',
-            twitter: '',
-            instagram: '',
-            youtube: '',
-          },
-          seo: {
-            meta_title: 'Hamsoya - Premium Organic Products',
-            meta_description: 'Discover premium organic honey, ghee, and traditional foods from Bangladesh',
-            meta_keywords: 'organic, honey, ghee, bangladesh, natural, premium',
-          },
-          analytics: {
-            google_analytics_id: '',
-            facebook_pixel_id: '',
-          },
-        },
-        message: 'Settings (fallback data)',
-        timestamp: new Date().toISOString(),
-      };
-    }
-  }
-
-  async updateAdminSettingsEnhanced(settingsData: any) {
-    try {
-      return await this.put('/admin/settings', settingsData);
-    } catch (error) {
-      throw error; // Re-throw for proper error handling in UI
-    }
-  }
-
-  async resetAdminSettingsEnhanced() {
-    try {
-      return await this.post('/admin/settings/reset');
-    } catch (error) {
-      throw error; // Re-throw for proper error handling in UI
-    }
+  async reorderAdminCategories(input: CategoryReorderInput) {
+    return this.put('/admin/categories/reorder', input);
   }
 }
 
@@ -37,6 +37,8 @@ export const API_CONFIG = {
     bookmarks: `${FRONTEND_API_URL}/bookmarks`,
     bookmarksCount: `${FRONTEND_API_URL}/bookmarks/count`,
     products: `${FRONTEND_API_URL}/products`,
+    orders: `${FRONTEND_API_URL}/orders`,
+    addresses: `${FRONTEND_API_URL}/addresses`,
     health: `${FRONTEND_API_URL}/health`,
     imagekit: `${FRONTEND_API_URL}/imagekit/auth`,
   },
@@ -50,6 +52,7 @@ export const API_CONFIG = {
       logout: `${BACKEND_API_URL}/auth/logout`,
       me: `${BACKEND_API_URL}/auth/me`,
       refreshToken: `${BACKEND_API_URL}/auth/refresh-token`,
+      sessions: `${BACKEND_API_URL}/auth/sessions`,
       verify: `${BACKEND_API_URL}/auth/verify`,
       resendVerification: `${BACKEND_API_URL}/auth/resend-verification`,
       cooldownStatus: `${BACKEND_API_URL}/auth/cooldown-status`,
@@ -69,6 +72,8 @@ export const API_CONFIG = {
     },
     trpc: `${BACKEND_API_URL.replace('/api', '')}/trpc`,
     products: `${BACKEND_API_URL}/products`,
+    orders: `${BACKEND_API_URL}/orders`,
+    addresses: `${BACKEND_API_URL}/addresses`,
     health: `${BACKEND_API_URL}/health`,
   },
 } as const;
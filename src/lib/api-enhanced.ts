@@ -1,6 +1,7 @@
 // Enhanced API client for OTP operations with comprehensive error handling
 
 import { API_CONFIG, urlBuilder } from './api-config';
+import type { PhoneOtpPurpose } from './phone-auth-schemas';
 
 interface APIResponse<T = any> {
   success: boolean;
@@ -18,6 +19,7 @@ interface OTPSendResponse {
 interface OTPVerifyResponse {
   message: string;
   remainingAttempts?: number;
+  redirectUrl?: string;
 }
 
 interface OTPError {
@@ -56,10 +58,10 @@ export class EnhancedOTPAPI {
   private baseURL: string;
 
   constructor(baseURL?: string) {
-    this.baseURL = baseURL || API_CONFIG.backend.base;
+    this.baseURL = baseURL ?? API_CONFIG.backend.base;
   }
 
-  private async makeRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  protected async makeRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
     const url = `${this.baseURL}${endpoint}`;
 
     const defaultHeaders = {
@@ -153,6 +155,60 @@ export class EnhancedOTPAPI {
   }
 }
 
+// Phone number OTP client - same errors and cooldowns, sent by SMS through the Next.js API
+export class PhoneOTPAPI extends EnhancedOTPAPI {
+  private context: { purpose: PhoneOtpPurpose; name?: string };
+  private redirectTo?: string;
+
+  constructor(options: { purpose: PhoneOtpPurpose; name?: string; redirectTo?: string }) {
+    super('');
+    this.context = { purpose: options.purpose, name: options.name };
+    this.redirectTo = options.redirectTo;
+  }
+
+  async sendOTP(phoneNumber: string): Promise<OTPSendResponse> {
+    const response = await this.makeRequest<APIResponse<OTPSendResponse>>('/api/auth/phone/send-otp', {
+      method: 'POST',
+      body: JSON.stringify({ phone_number: phoneNumber, ...this.context }),
+    });
+
+    return {
+      message: response.message || 'OTP sent successfully',
+      cooldownRemaining: response.data?.cooldownRemaining,
+    };
+  }
+
+  async verifyOTP(phoneNumber: string, otp: string): Promise<OTPVerifyResponse> {
+    const query = this.redirectTo ? `?redirect=${encodeURIComponent(this.redirectTo)}` : '';
+    const response = await this.makeRequest<APIResponse<{ redirectUrl?: string }>>(`/api/auth/phone/verify${query}`, {
+      method: 'POST',
+      body: JSON.stringify({ phone_number: phoneNumber, otp, ...this.context }),
+    });
+
+    return {
+      message: response.message || 'OTP verified successfully',
+      redirectUrl: response.data?.redirectUrl,
+    };
+  }
+
+  async getCooldownStatus(
+    phoneNumber: string
+  ): Promise<{ cooldownRemaining: number; canResend: boolean }> {
+    const response = await this.makeRequest<
+      APIResponse<{ cooldownRemaining: number; canResend: boolean }>
+    >(`/api/auth/cooldown-status?phone=${encodeURIComponent(phoneNumber)}`, {
+      method: 'GET',
+    });
+
+    return response.data || { cooldownRemaining: 0, canResend: true };
+  }
+
+  // The send endpoint enforces the cooldown itself, so a resend is just another send
+  async resendOTP(phoneNumber: string): Promise<OTPSendResponse> {
+    return this.sendOTP(phoneNumber);
+  }
+}
+
 // Singleton instance
 export const enhancedOTPAPI = new EnhancedOTPAPI();
 
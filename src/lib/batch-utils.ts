@@ -0,0 +1,29 @@
+/**
+ * Batch Utilities
+ * Shared by the admin bulk actions and imports that update many records
+ * through the backend in one request
+ */
+
+/**
+ * Run `task` for every item and collect one result per item, in order.
+ * Items are processed one at a time rather than in parallel so that large
+ * batches put a steady, predictable load on the backend. A task that throws
+ * is turned into a result by `onError`, so one failure never stops the batch
+ */
+export async function runSequentialBatch<T, R>(
+  items: readonly T[],
+  task: (item: T) => Promise<R>,
+  onError: (item: T, error: unknown) => R
+): Promise<R[]> {
+  const results: R[] = [];
+
+  for (const item of items) {
+    try {
+      results.push(await task(item));
+    } catch (error) {
+      results.push(onError(item, error));
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+// Category Slug Schema - lower-case words joined by dashes, used in storefront URLs
+export const CategorySlugSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(2, 'Slug must be at least 2 characters')
+  .max(60, 'Slug must be at most 60 characters')
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Use lower-case letters, numbers and single dashes only');
+
+// Admin Category Form Schema
+export const CategoryFormSchema = z.object({
+  name: z.string().trim().min(1, 'Category name is required').max(100, 'Name must be less than 100 characters'),
+  slug: CategorySlugSchema,
+  description: z.string().trim().max(500, 'Description must be less than 500 characters').optional(),
+  image: z.string().url('Image must be a valid URL').optional().or(z.literal('')),
+  is_active: z.boolean().default(true),
+  // Empty or null means a top-level category
+  parent_id: z.string().nullable().optional(),
+});
+
+// Sibling order after a drag-and-drop; positions are rewritten for the whole group
+export const CategoryReorderSchema = z.object({
+  parent_id: z.string().nullable(),
+  category_ids: z.array(z.string().min(1)).min(1, 'Nothing to reorder'),
+});
+
+// Type exports
+export type CategoryFormInput = z.input<typeof CategoryFormSchema>;
+export type CategoryFormData = z.infer<typeof CategoryFormSchema>;
+export type CategoryReorderInput = z.infer<typeof CategoryReorderSchema>;
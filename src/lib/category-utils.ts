@@ -0,0 +1,109 @@
+/**
+ * Category Utilities
+ * Maps backend categories to the admin and storefront shapes and arranges
+ * them as a two-level tree (top-level categories with their sub-categories)
+ * in the order admins set by drag and drop
+ */
+
+import type { Category } from '@/types';
+import type { AdminCategory } from '@/types/admin';
+import type { BackendCategory } from '@/types/backend';
+
+export function slugifyCategoryName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '');
+}
+
+export function sanitizeAdminCategory(category: BackendCategory): AdminCategory {
+  return {
+    id: String(category.id || ''),
+    name: String(category.name || ''),
+    description: category.description || undefined,
+    slug: String(category.slug || ''),
+    image: category.image || undefined,
+    is_active: category.is_active !== false,
+    parent_id: category.parent_id || category.parent?.id || undefined,
+    parent_name: category.parent?.name || category.parent_name || undefined,
+    sort_order: Number(category.sort_order) || 0,
+    product_count: Number(category.product_count) || 0,
+    active_product_count: category.active_product_count !== undefined ? Number(category.active_product_count) : undefined,
+    featured_product_count:
+      category.featured_product_count !== undefined ? Number(category.featured_product_count) : undefined,
+    days_since_created: category.days_since_created !== undefined ? Number(category.days_since_created) : undefined,
+    created_at: String(category.created_at || new Date().toISOString()),
+    updated_at: String(category.updated_at || new Date().toISOString()),
+    deleted_at: category.deleted_at || undefined,
+  };
+}
+
+export function sanitizeCategory(category: BackendCategory): Category {
+  return {
+    id: String(category.id || ''),
+    name: String(category.name || ''),
+    slug: String(category.slug || category.id || ''),
+    description: category.description || undefined,
+    image: category.image || '',
+    productCount: Number(category.active_product_count ?? category.product_count ?? category.productCount) || 0,
+    parentId: category.parent_id || category.parentId || undefined,
+    sortOrder: Number(category.sort_order ?? category.sortOrder) || 0,
+  };
+}
+
+type TreeNode = { id: string; name: string; parentId?: string; sortOrder: number };
+
+function toTreeNode(category: AdminCategory | Category): TreeNode {
+  return 'sort_order' in category
+    ? { id: category.id, name: category.name, parentId: category.parent_id, sortOrder: category.sort_order }
+    : { id: category.id, name: category.name, parentId: category.parentId, sortOrder: category.sortOrder };
+}
+
+function compareNodes(a: TreeNode, b: TreeNode): number {
+  return a.sortOrder - b.sortOrder || a.name.localeCompare(b.name);
+}
+
+function isTopLevel(node: TreeNode, ids: Set<string>): boolean {
+  return !node.parentId || !ids.has(node.parentId);
+}
+
+/**
+ * Categories in display order: each top-level category followed by its
+ * sub-categories. Sub-categories whose parent is missing are shown at the top level
+ */
+export function sortCategoryTree<T extends AdminCategory | Category>(categories: T[]): T[] {
+  const ids = new Set(categories.map(category => category.id));
+  const nodes = new Map(categories.map(category => [category.id, toTreeNode(category)]));
+  const isRoot = (category: T) => isTopLevel(nodes.get(category.id)!, ids);
+  const byOrder = (a: T, b: T) => compareNodes(nodes.get(a.id)!, nodes.get(b.id)!);
+
+  return categories
+    .filter(isRoot)
+    .sort(byOrder)
+    .flatMap(root => [
+      root,
+      ...categories
+        .filter(category => !isRoot(category) && nodes.get(category.id)!.parentId === root.id)
+        .sort(byOrder),
+    ]);
+}
+
+// sortCategoryTree with each category's depth, for indenting sub-categories
+export function orderCategoryTree<T extends AdminCategory | Category>(categories: T[]): Array<T & { depth: 0 | 1 }> {
+  const ids = new Set(categories.map(category => category.id));
+
+  return sortCategoryTree(categories).map(category => ({
+    ...category,
+    depth: isTopLevel(toTreeNode(category), ids) ? (0 as const) : (1 as const),
+  }));
+}
+
+// The category itself plus its sub-categories, matched by id or slug
+export function getCategoryScope(categories: Category[], idOrSlug: string): string[] {
+  const category = categories.find(candidate => candidate.slug === idOrSlug || candidate.id === idOrSlug);
+  if (!category) return [idOrSlug];
+
+  return [category, ...categories.filter(candidate => candidate.parentId === category.id)].map(
+    candidate => candidate.slug
+  );
+}
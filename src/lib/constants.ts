@@ -55,6 +55,75 @@ export const BANGLADESHI_CITIES = [
   'Tongi',
 ] as const;
 
+export type BangladeshiCity = (typeof BANGLADESHI_CITIES)[number];
+
+// Delivery areas (thanas) offered for each city in address forms
+export const BANGLADESHI_CITY_AREAS: Record<BangladeshiCity, readonly string[]> = {
+  Dhaka: [
+    'Adabor',
+    'Badda',
+    'Banani',
+    'Cantonment',
+    'Demra',
+    'Dhanmondi',
+    'Gulshan',
+    'Hazaribagh',
+    'Jatrabari',
+    'Kafrul',
+    'Khilgaon',
+    'Khilkhet',
+    'Kotwali',
+    'Lalbagh',
+    'Mirpur',
+    'Mohammadpur',
+    'Motijheel',
+    'Pallabi',
+    'Ramna',
+    'Rampura',
+    'Sabujbagh',
+    'Shah Ali',
+    'Shahbagh',
+    'Shyampur',
+    'Sutrapur',
+    'Tejgaon',
+    'Turag',
+    'Uttara',
+    'Vatara',
+  ],
+  Chittagong: [
+    'Bakalia',
+    'Bandar',
+    'Bayazid',
+    'Chandgaon',
+    'Chawkbazar',
+    'Double Mooring',
+    'Halishahar',
+    'Khulshi',
+    'Kotwali',
+    'Pahartali',
+    'Panchlaish',
+    'Patenga',
+  ],
+  Sylhet: ['Airport', 'Jalalabad', 'Kotwali', 'Moglabazar', 'Shah Paran', 'South Surma'],
+  Rajshahi: ['Boalia', 'Chandrima', 'Kashiadanga', 'Matihar', 'Rajpara', 'Shah Makhdum'],
+  Khulna: ['Aranghata', 'Daulatpur', 'Khalishpur', 'Khan Jahan Ali', 'Khulna Sadar', 'Sonadanga'],
+  Barisal: ['Airport', 'Bandar', 'Kawnia', 'Kotwali'],
+  Rangpur: ['Haragach', 'Kotwali', 'Mahiganj', 'Parshuram', 'Tajhat'],
+  Mymensingh: ['Bhaluka', 'Gouripur', 'Kotwali', 'Muktagacha', 'Phulpur', 'Trishal'],
+  Comilla: ['Burichang', 'Chauddagram', 'Debidwar', 'Kotwali', 'Laksam', 'Sadar Dakshin'],
+  Narayanganj: [
+    'Araihazar',
+    'Bandar',
+    'Fatullah',
+    'Narayanganj Sadar',
+    'Rupganj',
+    'Siddhirganj',
+    'Sonargaon',
+  ],
+  Gazipur: ['Basan', 'Gacha', 'Gazipur Sadar', 'Joydebpur', 'Kaliakair', 'Kapasia', 'Kashimpur', 'Konabari', 'Sreepur'],
+  Tongi: ['Board Bazar', 'Cherag Ali', 'Station Road', 'Tongi East', 'Tongi West'],
+};
+
 export const COMPANY_INFO = {
   name: BRAND_NAME,
   tagline: 'Pure & Natural Food Products',
@@ -81,5 +150,6 @@ export const STORAGE_KEYS = {
   bookmarks: 'hamsoya-bookmarks',
   user: 'hamsoya-user',
   addresses: 'hamsoya-addresses',
+  recentSearches: 'hamsoya-recent-searches',
   theme: 'hamsoya-theme',
 } as const;
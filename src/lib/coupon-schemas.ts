@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+const optionalAmount = z.number().nonnegative('Amount cannot be negative').optional();
+const optionalLimit = z.number().int('Must be a whole number').positive('Must be at least 1').optional();
+
+// Coupon Code Schema - codes are stored and compared in upper case
+export const CouponCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .min(3, 'Coupon code must be at least 3 characters')
+  .max(32, 'Coupon code must be at most 32 characters')
+  .regex(/^[A-Z0-9_-]+$/, 'Use letters, numbers, dashes and underscores only');
+
+// Admin Coupon Form Schema
+export const CouponFormSchema = z
+  .object({
+    code: CouponCodeSchema,
+    description: z.string().trim().max(255, 'Description must be less than 255 characters').optional(),
+    discount_type: z.enum(['percentage', 'fixed']),
+    discount_value: z.number().positive('Discount must be greater than 0'),
+    max_discount_amount: optionalAmount,
+    min_order_amount: optionalAmount,
+    scope: z.enum(['all', 'categories', 'products']),
+    category_ids: z.array(z.string()).default([]),
+    product_ids: z.array(z.string()).default([]),
+    usage_limit: optionalLimit,
+    usage_limit_per_customer: optionalLimit,
+    starts_at: z.string().optional(),
+    ends_at: z.string().optional(),
+    is_active: z.boolean().default(true),
+  })
+  .refine(data => data.discount_type !== 'percentage' || data.discount_value <= 100, {
+    message: 'A percentage discount cannot exceed 100%',
+    path: ['discount_value'],
+  })
+  .refine(data => data.scope !== 'categories' || data.category_ids.length > 0, {
+    message: 'Select at least one category',
+    path: ['category_ids'],
+  })
+  .refine(data => data.scope !== 'products' || data.product_ids.length > 0, {
+    message: 'Select at least one product',
+    path: ['product_ids'],
+  })
+  .refine(
+    data =>
+      !data.starts_at || !data.ends_at || new Date(data.ends_at) > new Date(data.starts_at),
+    {
+      message: 'End date must be after the start date',
+      path: ['ends_at'],
+    }
+  );
+
+// Checkout Coupon Validation Schema
+export const ValidateCouponSchema = z.object({
+  code: CouponCodeSchema,
+  items: z
+    .array(
+      z.object({
+        product_id: z.string().min(1, 'Product is required'),
+        variant_id: z.string().min(1).optional(),
+        quantity: z.number().int().positive('Quantity must be at least 1'),
+      })
+    )
+    .min(1, 'Your cart is empty'),
+});
+
+// Type exports
+export type CouponFormInput = z.input<typeof CouponFormSchema>;
+export type CouponFormData = z.infer<typeof CouponFormSchema>;
+export type ValidateCouponInput = z.infer<typeof ValidateCouponSchema>;
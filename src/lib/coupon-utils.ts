@@ -0,0 +1,186 @@
+/**
+ * Coupon Utility Functions
+ * Coupon eligibility and discount rules shared by the checkout API routes
+ * and the admin promotions UI
+ */
+
+import { formatCurrency } from '@/lib/admin-utils';
+import type { AdminCoupon, CouponQuote } from '@/types/admin';
+import type { BackendCoupon } from '@/types/backend';
+
+// A cart line priced and categorised from the catalog, never from the client
+export interface CouponCartLine {
+  product_id: string;
+  quantity: number;
+  unit_price: number;
+  // Identifiers (id and slug) of the product's category
+  categories: string[];
+}
+
+export interface CouponEvaluationContext {
+  lines: CouponCartLine[];
+  // How many times the current customer has already redeemed this coupon
+  customerUsageCount?: number;
+  now?: Date;
+}
+
+export type CouponEvaluationResult =
+  | { valid: true; quote: CouponQuote }
+  | { valid: false; error: string; errorCode: string };
+
+export type CouponState = 'active' | 'scheduled' | 'expired' | 'exhausted' | 'inactive';
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return value === undefined || value === null || value === '' ? undefined : Number(value);
+}
+
+// Sanitize a coupon returned by the backend
+export function sanitizeCoupon(coupon: BackendCoupon): AdminCoupon {
+  return {
+    id: String(coupon.id || ''),
+    code: normalizeCouponCode(String(coupon.code || '')),
+    description: coupon.description || undefined,
+    discount_type: coupon.discount_type === 'fixed' ? 'fixed' : 'percentage',
+    discount_value: Number(coupon.discount_value) || 0,
+    max_discount_amount: optionalNumber(coupon.max_discount_amount),
+    min_order_amount: optionalNumber(coupon.min_order_amount),
+    scope: coupon.scope === 'categories' || coupon.scope === 'products' ? coupon.scope : 'all',
+    category_ids: Array.isArray(coupon.category_ids) ? coupon.category_ids.map(String) : [],
+    product_ids: Array.isArray(coupon.product_ids) ? coupon.product_ids.map(String) : [],
+    usage_limit: optionalNumber(coupon.usage_limit),
+    usage_limit_per_customer: optionalNumber(coupon.usage_limit_per_customer),
+    usage_count: Number(coupon.usage_count) || 0,
+    starts_at: coupon.starts_at || undefined,
+    ends_at: coupon.ends_at || undefined,
+    is_active: Boolean(coupon.is_active),
+    created_at: String(coupon.created_at || new Date().toISOString()),
+    updated_at: String(coupon.updated_at || new Date().toISOString()),
+  };
+}
+
+// Lifecycle state used for admin badges and the first eligibility checks
+export function getCouponState(coupon: AdminCoupon, now: Date = new Date()): CouponState {
+  if (!coupon.is_active) return 'inactive';
+  if (coupon.starts_at && new Date(coupon.starts_at) > now) return 'scheduled';
+  if (coupon.ends_at && new Date(coupon.ends_at) < now) return 'expired';
+  if (coupon.usage_limit !== undefined && coupon.usage_count >= coupon.usage_limit) return 'exhausted';
+  return 'active';
+}
+
+export function describeCouponDiscount(
+  coupon: Pick<AdminCoupon, 'discount_type' | 'discount_value' | 'max_discount_amount'>
+): string {
+  if (coupon.discount_type === 'fixed') {
+    return `${formatCurrency(coupon.discount_value)} off`;
+  }
+
+  const cap = coupon.max_discount_amount
+    ? ` (up to ${formatCurrency(coupon.max_discount_amount)})`
+    : '';
+  return `${coupon.discount_value}% off${cap}`;
+}
+
+function isLineEligible(coupon: AdminCoupon, line: CouponCartLine): boolean {
+  switch (coupon.scope) {
+    case 'categories':
+      return line.categories.some(category => coupon.category_ids.includes(category));
+    case 'products':
+      return coupon.product_ids.includes(line.product_id);
+    default:
+      return true;
+  }
+}
+
+const STATE_ERRORS: Record<Exclude<CouponState, 'active'>, { error: string; errorCode: string }> = {
+  inactive: { error: 'This coupon is no longer available', errorCode: 'COUPON_INACTIVE' },
+  scheduled: { error: 'This coupon is not active yet', errorCode: 'COUPON_NOT_STARTED' },
+  expired: { error: 'This coupon has expired', errorCode: 'COUPON_EXPIRED' },
+  exhausted: {
+    error: 'This coupon has reached its usage limit',
+    errorCode: 'COUPON_USAGE_LIMIT_REACHED',
+  },
+};
+
+// Check a coupon against a cart and work out the discount it gives
+export function evaluateCoupon(
+  coupon: AdminCoupon,
+  { lines, customerUsageCount = 0, now = new Date() }: CouponEvaluationContext
+): CouponEvaluationResult {
+  const state = getCouponState(coupon, now);
+
+  if (state !== 'active') {
+    return { valid: false, ...STATE_ERRORS[state] };
+  }
+
+  if (
+    coupon.usage_limit_per_customer !== undefined &&
+    customerUsageCount >= coupon.usage_limit_per_customer
+  ) {
+    return {
+      valid: false,
+      error: 'You have already used this coupon the maximum number of times',
+      errorCode: 'COUPON_CUSTOMER_LIMIT_REACHED',
+    };
+  }
+
+  const subtotal = roundAmount(
+    lines.reduce((total, line) => total + line.unit_price * line.quantity, 0)
+  );
+
+  if (coupon.min_order_amount && subtotal < coupon.min_order_amount) {
+    return {
+      valid: false,
+      error: `Add ${formatCurrency(roundAmount(coupon.min_order_amount - subtotal))} more to use this coupon`,
+      errorCode: 'COUPON_MIN_ORDER_NOT_MET',
+    };
+  }
+
+  const eligibleSubtotal = roundAmount(
+    lines
+      .filter(line => isLineEligible(coupon, line))
+      .reduce((total, line) => total + line.unit_price * line.quantity, 0)
+  );
+
+  if (eligibleSubtotal <= 0) {
+    return {
+      valid: false,
+      error: "This coupon doesn't apply to any items in your cart",
+      errorCode: 'COUPON_NOT_APPLICABLE',
+    };
+  }
+
+  let discount =
+    coupon.discount_type === 'percentage'
+      ? (eligibleSubtotal * coupon.discount_value) / 100
+      : coupon.discount_value;
+
+  if (coupon.max_discount_amount) {
+    discount = Math.min(discount, coupon.max_discount_amount);
+  }
+
+  // A coupon never discounts more than the items it applies to
+  const discountAmount = roundAmount(Math.min(discount, eligibleSubtotal));
+
+  return {
+    valid: true,
+    quote: {
+      coupon_id: coupon.id,
+      code: coupon.code,
+      description: coupon.description,
+      discount_type: coupon.discount_type,
+      discount_value: coupon.discount_value,
+      subtotal,
+      eligible_subtotal: eligibleSubtotal,
+      discount_amount: discountAmount,
+      total: roundAmount(subtotal - discountAmount),
+    },
+  };
+}
@@ -4,6 +4,7 @@
  * Provides immediate data access with zero loading states
  */
 
+import { getCartItemPrice } from './product-variants';
 import { CartItem, Product } from '@/types';
 import { cookies } from 'next/headers';
 import { API_CONFIG, urlBuilder } from './api-config';
@@ -112,7 +113,7 @@ async function fetchCartData(): Promise<ServerCartData> {
         cartData.items?.reduce((sum: number, item: CartItem) => sum + item.quantity, 0) || 0;
       const totalPrice =
         cartData.items?.reduce(
-          (sum: number, item: CartItem) => sum + item.product.price * item.quantity,
+          (sum: number, item: CartItem) => sum + getCartItemPrice(item) * item.quantity,
           0
         ) || 0;
 
@@ -110,6 +110,26 @@ export const OTP_ERROR_MESSAGES = {
     severity: "warning" as const,
   },
 
+  // Phone sign-in errors
+  "PHONE_NOT_REGISTERED": {
+    title: "Number Not Registered",
+    message: "No account uses this mobile number. Sign up with it instead.",
+    action: "Sign Up",
+    severity: "info" as const,
+  },
+  "PHONE_ALREADY_REGISTERED": {
+    title: "Account Exists",
+    message: "An account with this mobile number already exists. Please sign in instead.",
+    action: "Sign In",
+    severity: "info" as const,
+  },
+  "SMS_DELIVERY_FAILED": {
+    title: "SMS Not Sent",
+    message: "We could not text your code. Please try again in a moment.",
+    action: "Try Again",
+    severity: "error" as const,
+  },
+
   // Default fallback
   "UNKNOWN_ERROR": {
     title: "Unexpected Error",
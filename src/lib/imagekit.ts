@@ -38,6 +38,22 @@ export const productImageUploadParams = {
   tags: ['product', 'ecommerce'],
 };
 
+// Upload parameters for customer review photos
+export const reviewImageUploadParams = {
+  folder: '/review-images/',
+  useUniqueFileName: true,
+  overwriteFile: false,
+  tags: ['review', 'customer-photo'],
+};
+
+// Upload parameters for category cover images
+export const categoryImageUploadParams = {
+  folder: '/category-images/',
+  useUniqueFileName: true,
+  overwriteFile: false,
+  tags: ['category'],
+};
+
 // Optimized compression settings for faster uploads
 export const optimizedCompressionSettings = {
   maxWidth: 600,
@@ -217,21 +233,13 @@ function uploadWithProgress(
   });
 }
 
-// Upload profile image with compression and progress tracking
-export async function uploadProfileImage(
-  file: File,
-  userId: string,
-  onProgress?: (progress: number) => void
-) {
-  const fileName = `profile-${userId}-${Date.now()}`;
-
+// Compress an image before upload when it's over the size budget
+async function compressForUpload(file: File): Promise<File> {
   // Import compression utility dynamically to avoid SSR issues
   const { compressImage, shouldCompressImage, formatFileSize } = await import(
     './image-compression'
   );
 
-  let fileToUpload = file;
-
   // Compress image if it's too large (using optimized settings)
   if (shouldCompressImage(file, optimizedCompressionSettings.maxSizeKB)) {
     console.log(`🗜️ Compressing image: ${formatFileSize(file.size)}`);
@@ -239,21 +247,57 @@ export async function uploadProfileImage(
     try {
       const compressionResult = await compressImage(file, optimizedCompressionSettings);
 
-      fileToUpload = compressionResult.file;
       console.log(
         `✅ Image compressed: ${formatFileSize(compressionResult.originalSize)} → ${formatFileSize(
           compressionResult.compressedSize
         )} (${compressionResult.compressionRatio.toFixed(1)}x smaller)`
       );
+      return compressionResult.file;
     } catch (error) {
       console.warn('⚠️ Image compression failed, uploading original:', error);
       // Continue with original file if compression fails
     }
   }
 
+  return file;
+}
+
+// Upload profile image with compression and progress tracking
+export async function uploadProfileImage(
+  file: File,
+  userId: string,
+  onProgress?: (progress: number) => void
+) {
+  const fileName = `profile-${userId}-${Date.now()}`;
+  const fileToUpload = await compressForUpload(file);
+
   return uploadImageToImageKit(fileToUpload, fileName, profileImageUploadParams.folder, onProgress);
 }
 
+// Upload a review photo with compression and progress tracking
+export async function uploadReviewImage(
+  file: File,
+  productId: string,
+  onProgress?: (progress: number) => void
+) {
+  const fileName = `review-${productId}-${Date.now()}`;
+  const fileToUpload = await compressForUpload(file);
+
+  return uploadImageToImageKit(fileToUpload, fileName, reviewImageUploadParams.folder, onProgress);
+}
+
+// Upload a category cover image with compression and progress tracking
+export async function uploadCategoryImage(
+  file: File,
+  slug: string,
+  onProgress?: (progress: number) => void
+) {
+  const fileName = `category-${slug || 'new'}-${Date.now()}`;
+  const fileToUpload = await compressForUpload(file);
+
+  return uploadImageToImageKit(fileToUpload, fileName, categoryImageUploadParams.folder, onProgress);
+}
+
 // Generate optimized image URL using ImageKit URL transformations
 export function getOptimizedImageUrl(
   imageUrl: string,
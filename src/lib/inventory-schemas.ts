@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+// Movements an admin records by hand - sales, reservations and releases come from orders
+export const MANUAL_INVENTORY_MOVEMENT_TYPES = ['receipt', 'return', 'adjustment', 'damage'] as const;
+
+// Movements that must say why stock changed
+const REASON_REQUIRED_TYPES: ReadonlyArray<(typeof MANUAL_INVENTORY_MOVEMENT_TYPES)[number]> = [
+  'adjustment',
+  'damage',
+];
+
+// Admin Stock Movement Schema - quantities are positive except for adjustments, which may go either way
+export const InventoryMovementSchema = z
+  .object({
+    type: z.enum(MANUAL_INVENTORY_MOVEMENT_TYPES),
+    variant_id: z.string().min(1).optional(),
+    quantity: z
+      .number({ invalid_type_error: 'Quantity is required' })
+      .int('Quantity must be a whole number')
+      .refine(quantity => quantity !== 0, 'Quantity cannot be zero'),
+    reason: z.string().trim().max(500, 'Reason must be less than 500 characters').optional(),
+  })
+  .refine(data => data.type === 'adjustment' || data.quantity > 0, {
+    message: 'Quantity must be greater than 0',
+    path: ['quantity'],
+  })
+  .refine(data => !REASON_REQUIRED_TYPES.includes(data.type) || !!data.reason, {
+    message: 'Please give a reason for this change',
+    path: ['reason'],
+  });
+
+// Type exports
+export type InventoryMovementFormInput = z.input<typeof InventoryMovementSchema>;
+export type InventoryMovementInput = z.infer<typeof InventoryMovementSchema>;
@@ -0,0 +1,80 @@
+/**
+ * Inventory Utility Functions
+ * Maps backend stock movements to the `InventoryMovement` shape, signs
+ * movement quantities and works out available stock for low-stock alerts
+ */
+
+import type { InventoryMovementInput } from '@/lib/inventory-schemas';
+import type { AdminProduct, InventoryMovement, InventoryMovementType } from '@/types/admin';
+import type { BackendInventoryMovement } from '@/types/backend';
+
+// Used when a product has no threshold of its own
+export const DEFAULT_LOW_STOCK_THRESHOLD = 10;
+
+export const INVENTORY_MOVEMENT_LABELS: Record<InventoryMovementType, string> = {
+  receipt: 'Stock received',
+  sale: 'Sold',
+  return: 'Customer return',
+  adjustment: 'Manual adjustment',
+  damage: 'Damaged',
+  reservation: 'Reserved for order',
+  release: 'Reservation released',
+};
+
+// Reservations and releases move reserved stock, not stock on hand
+export function isReservationMovement(type: InventoryMovementType): boolean {
+  return type === 'reservation' || type === 'release';
+}
+
+// Sanitize a stock movement returned by the backend
+export function sanitizeInventoryMovement(movement: BackendInventoryMovement): InventoryMovement {
+  return {
+    id: String(movement.id || ''),
+    product_id: String(movement.product_id || ''),
+    variant_id: movement.variant_id || undefined,
+    variant_name: movement.variant?.name || movement.variant_name || undefined,
+    type: movement.type && movement.type in INVENTORY_MOVEMENT_LABELS ? movement.type : 'adjustment',
+    quantity: Number(movement.quantity) || 0,
+    stock_after: movement.stock_after !== undefined && movement.stock_after !== null
+      ? Number(movement.stock_after)
+      : undefined,
+    reason: movement.reason || undefined,
+    order_id: movement.order_id || undefined,
+    order_number: movement.order?.order_number || movement.order_number || undefined,
+    actor: movement.actor?.id
+      ? { id: String(movement.actor.id), name: String(movement.actor.name || '') }
+      : undefined,
+    created_at: String(movement.created_at || new Date().toISOString()),
+  };
+}
+
+// Signed change to stock on hand for a movement entered by an admin
+export function getMovementDelta(movement: Pick<InventoryMovementInput, 'type' | 'quantity'>): number {
+  return movement.type === 'damage' ? -Math.abs(movement.quantity) : movement.quantity;
+}
+
+type StockLevels = Pick<AdminProduct, 'stock_quantity' | 'reserved_quantity' | 'low_stock_threshold'>;
+
+// Stock that can still be sold - on hand minus what placed orders are holding
+export function getAvailableStock(product: StockLevels): number {
+  return Math.max(0, product.stock_quantity - (product.reserved_quantity || 0));
+}
+
+export function isLowStock(product: StockLevels): boolean {
+  return getAvailableStock(product) <= (product.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD);
+}
+
+// Activity feed wording for a product at or below its threshold
+export function describeLowStock(product: Pick<AdminProduct, 'name'> & StockLevels): {
+  title: string;
+  description: string;
+} {
+  const available = getAvailableStock(product);
+
+  return {
+    title: available === 0 ? `Out of stock: ${product.name}` : `Low stock: ${product.name}`,
+    description: `${available} available, alert threshold is ${
+      product.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD
+    }`,
+  };
+}
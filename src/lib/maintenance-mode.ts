@@ -0,0 +1,151 @@
+/**
+ * Maintenance Mode
+ * Decides whether a storefront request should get the maintenance page.
+ * Runs in middleware, so public settings are cached in memory between requests
+ */
+
+import { ApiClient } from '@/lib/api-client';
+import type { MaintenanceSettings, PublicSettings } from '@/types/admin';
+import type { BackendPublicSettings } from '@/types/backend';
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+// How long middleware trusts a fetched value before asking again
+const PUBLIC_SETTINGS_TTL = 30 * 1000; // 30 seconds
+
+// Used when nothing is stored yet - maintenance settings fail open
+export const DEFAULT_PUBLIC_SETTINGS: PublicSettings = {
+  site_name: 'Hamsoya',
+  maintenance: {
+    enabled: false,
+    allowed_ips: [],
+    allowed_roles: [],
+  },
+};
+
+// Storefront paths that stay reachable during maintenance - API routes, including
+// /api/health, never reach the maintenance check
+const MAINTENANCE_EXEMPT_ROUTES = ['/admin', '/login'];
+
+// Fallback Retry-After when no end time is scheduled
+const DEFAULT_RETRY_AFTER_SECONDS = 60 * 60; // 1 hour
+
+let cachedPublicSettings: { value: PublicSettings; expiresAt: number } | null = null;
+
+// Sanitize public settings returned by the backend, nested or in the flat `AdminSettings` shape
+export function sanitizePublicSettings(settings: BackendPublicSettings | null | undefined): PublicSettings {
+  const maintenance = settings?.maintenance || {
+    enabled: settings?.maintenance_mode,
+    message: settings?.maintenance_message,
+    starts_at: settings?.maintenance_starts_at,
+    ends_at: settings?.maintenance_ends_at,
+    allowed_ips: settings?.maintenance_allowed_ips,
+    allowed_roles: settings?.maintenance_allowed_roles,
+  };
+
+  return {
+    site_name: settings?.site_name || DEFAULT_PUBLIC_SETTINGS.site_name,
+    site_tagline: settings?.site_tagline || undefined,
+    contact_email: settings?.contact_email || undefined,
+    contact_phone: settings?.contact_phone || undefined,
+    maintenance: {
+      enabled: Boolean(maintenance.enabled),
+      message: maintenance.message || undefined,
+      starts_at: maintenance.starts_at || undefined,
+      ends_at: maintenance.ends_at || undefined,
+      allowed_ips: Array.isArray(maintenance.allowed_ips) ? maintenance.allowed_ips.map(String) : [],
+      allowed_roles: Array.isArray(maintenance.allowed_roles)
+        ? maintenance.allowed_roles.filter((role: unknown) => role === 'USER' || role === 'SELLER')
+        : [],
+    },
+  };
+}
+
+/**
+ * Public settings through `getAdminPublicSettings`, cached for PUBLIC_SETTINGS_TTL.
+ * Middleware has no relative base URL, so the client is built for the configured
+ * app origin - the request's Host header is client-controlled
+ */
+export async function getCachedPublicSettings(): Promise<PublicSettings> {
+  if (cachedPublicSettings && cachedPublicSettings.expiresAt > Date.now()) {
+    return cachedPublicSettings.value;
+  }
+
+  try {
+    const response = (await new ApiClient(`${APP_URL}/api`).getAdminPublicSettings()) as {
+      data: PublicSettings;
+    };
+    const value = sanitizePublicSettings(response.data);
+
+    cachedPublicSettings = { value, expiresAt: Date.now() + PUBLIC_SETTINGS_TTL };
+    return value;
+  } catch (error) {
+    console.warn('Public settings unavailable for maintenance check:', error);
+
+    // Keep serving the last known value rather than flapping the storefront open
+    return cachedPublicSettings?.value || DEFAULT_PUBLIC_SETTINGS;
+  }
+}
+
+export function isMaintenanceExemptPath(pathname: string): boolean {
+  return MAINTENANCE_EXEMPT_ROUTES.some(route => pathname === route || pathname.startsWith(`${route}/`));
+}
+
+// Enabled and inside the scheduled window, if one is set
+export function isMaintenanceActive(maintenance: MaintenanceSettings, now: Date = new Date()): boolean {
+  if (!maintenance.enabled) {
+    return false;
+  }
+
+  if (maintenance.starts_at && now < new Date(maintenance.starts_at)) {
+    return false;
+  }
+
+  if (maintenance.ends_at && now >= new Date(maintenance.ends_at)) {
+    return false;
+  }
+
+  return true;
+}
+
+// Admins always pass; other visitors pass by allowlisted IP or role
+export function canBypassMaintenance(
+  maintenance: MaintenanceSettings,
+  visitor: { ip?: string | null; role?: string | null }
+): boolean {
+  if (visitor.role === 'ADMIN') {
+    return true;
+  }
+
+  if (visitor.role && maintenance.allowed_roles.includes(visitor.role as 'USER' | 'SELLER')) {
+    return true;
+  }
+
+  return !!visitor.ip && maintenance.allowed_ips.includes(visitor.ip);
+}
+
+export function getRetryAfterSeconds(maintenance: MaintenanceSettings, now: Date = new Date()): number {
+  if (maintenance.ends_at) {
+    const remaining = Math.ceil((new Date(maintenance.ends_at).getTime() - now.getTime()) / 1000);
+
+    if (remaining > 0) {
+      return remaining;
+    }
+  }
+
+  return DEFAULT_RETRY_AFTER_SECONDS;
+}
+
+/**
+ * The visitor's address as seen by our own proxy. Clients can prepend anything
+ * to X-Forwarded-For, so only the last hop - the one our proxy appended - is trusted
+ */
+export function getClientIp(headers: Headers): string | null {
+  const forwardedFor = headers.get('x-forwarded-for');
+
+  if (forwardedFor) {
+    return forwardedFor.split(',').pop()?.trim() || null;
+  }
+
+  return headers.get('x-real-ip');
+}
@@ -0,0 +1,83 @@
+/**
+ * Maintenance Page
+ * Self-contained HTML served by middleware while the storefront is closed,
+ * so it renders without the app bundle or backend
+ */
+
+import type { PublicSettings } from '@/types/admin';
+
+const DEFAULT_MAINTENANCE_MESSAGE =
+  "We're making some improvements and will be back shortly. Thank you for your patience.";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatReturnTime(endsAt: string): string {
+  return new Date(endsAt).toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'Asia/Dhaka',
+  });
+}
+
+export function renderMaintenancePage(settings: PublicSettings): string {
+  const siteName = escapeHtml(settings.site_name);
+  const message = escapeHtml(settings.maintenance.message || DEFAULT_MAINTENANCE_MESSAGE);
+  const endsAt = settings.maintenance.ends_at;
+  const contact = settings.contact_email || settings.contact_phone;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <meta name="robots" content="noindex" />
+  <title>${siteName} - Under Maintenance</title>
+  <link rel="icon" href="/favicon.ico" />
+  <style>
+    * { box-sizing: border-box; }
+    body {
+      margin: 0;
+      min-height: 100vh;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: 24px;
+      font-family: ui-sans-serif, system-ui, -apple-system, 'Segoe UI', sans-serif;
+      background: linear-gradient(180deg, #fdf8e8 0%, #ffffff 100%);
+      color: #1a1a1a;
+    }
+    main { max-width: 480px; text-align: center; }
+    .badge {
+      display: inline-block;
+      padding: 4px 12px;
+      border-radius: 9999px;
+      background: #c79f12;
+      color: #ffffff;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 0.05em;
+      text-transform: uppercase;
+    }
+    h1 { margin: 16px 0 8px; font-family: Georgia, ui-serif, serif; font-size: 36px; color: #c79f12; }
+    p { margin: 0 0 12px; line-height: 1.6; color: #4b4b4b; }
+    .meta { font-size: 14px; color: #6b6b6b; }
+  </style>
+</head>
+<body>
+  <main>
+    <span class="badge">Under Maintenance</span>
+    <h1>${siteName}</h1>
+    <p>${message}</p>
+    ${endsAt ? `<p class="meta">Expected back by ${escapeHtml(formatReturnTime(endsAt))}</p>` : ''}
+    ${contact ? `<p class="meta">Need help? Contact us at ${escapeHtml(contact)}</p>` : ''}
+  </main>
+</body>
+</html>`;
+}
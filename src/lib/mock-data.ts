@@ -142,31 +142,39 @@ export const mockProducts: Product[] = [
 export const mockCategories: Category[] = [
   {
     id: 'honey',
+    slug: 'honey',
     name: 'Natural Honey',
     description: 'Pure honey from various flower sources',
     image: 'https://images.unsplash.com/photo-1587049352846-4a222e784d38?w=300&h=200&fit=crop',
     productCount: 3,
+    sortOrder: 0,
   },
   {
     id: 'ghee',
+    slug: 'ghee',
     name: 'Pure Ghee',
     description: 'Traditional clarified butter',
     image: 'https://images.unsplash.com/photo-1628088062854-d1870b4553da?w=300&h=200&fit=crop',
     productCount: 2,
+    sortOrder: 1,
   },
   {
     id: 'spices',
+    slug: 'spices',
     name: 'Spices & Powders',
     description: 'Fresh ground spices and powders',
     image: 'https://images.unsplash.com/photo-1596040033229-a9821ebd058d?w=300&h=200&fit=crop',
     productCount: 4,
+    sortOrder: 2,
   },
   {
     id: 'traditional',
+    slug: 'traditional',
     name: 'Traditional Foods',
     description: 'Authentic Bengali traditional foods',
     image: 'https://images.unsplash.com/photo-1574484284002-952d92456975?w=300&h=200&fit=crop',
     productCount: 5,
+    sortOrder: 3,
   },
 ];
 
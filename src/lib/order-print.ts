@@ -0,0 +1,227 @@
+/**
+ * Order Print Utilities
+ * Print-ready invoice HTML for admin orders, one order per printed page
+ */
+
+import { calculateOrderSummary, formatCurrency } from '@/lib/admin-utils';
+import type { OrderWithDetails } from '@/types/admin';
+
+const PRINT_STYLES = `
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: Arial, sans-serif;
+      line-height: 1.6;
+      color: #333;
+      padding: 20px;
+    }
+    .header {
+      text-align: center;
+      margin-bottom: 30px;
+      border-bottom: 2px solid #333;
+      padding-bottom: 20px;
+    }
+    .company-name {
+      font-size: 24px;
+      font-weight: bold;
+      margin-bottom: 5px;
+    }
+    .invoice-title {
+      font-size: 18px;
+      color: #666;
+    }
+    .order-info {
+      display: flex;
+      justify-content: space-between;
+      margin-bottom: 30px;
+    }
+    .info-section {
+      flex: 1;
+      margin-right: 20px;
+    }
+    .info-section:last-child {
+      margin-right: 0;
+    }
+    .section-title {
+      font-weight: bold;
+      margin-bottom: 10px;
+      font-size: 14px;
+      text-transform: uppercase;
+      color: #666;
+    }
+    .items-table {
+      width: 100%;
+      border-collapse: collapse;
+      margin-bottom: 30px;
+    }
+    .items-table th, .items-table td {
+      border: 1px solid #ddd;
+      padding: 12px;
+      text-align: left;
+    }
+    .items-table th {
+      background-color: #f5f5f5;
+      font-weight: bold;
+    }
+    .items-table .text-right {
+      text-align: right;
+    }
+    .summary-table {
+      width: 300px;
+      margin-left: auto;
+      border-collapse: collapse;
+    }
+    .summary-table td {
+      padding: 8px 12px;
+      border-bottom: 1px solid #eee;
+    }
+    .summary-table .total-row {
+      font-weight: bold;
+      border-top: 2px solid #333;
+      border-bottom: 2px solid #333;
+    }
+    .footer {
+      margin-top: 40px;
+      text-align: center;
+      font-size: 12px;
+      color: #666;
+    }
+    @media print {
+      body { padding: 0; }
+      .no-print { display: none; }
+    }
+    .order-page { page-break-after: always; }
+    .order-page:last-child { page-break-after: auto; }
+`;
+
+function renderOrderSection(order: OrderWithDetails, currentDate: string): string {
+  const summary = calculateOrderSummary(order);
+
+  return `
+    <div class="order-page">
+      <div class="header">
+        <div class="company-name">Hamsoya</div>
+        <div class="invoice-title">Order Invoice</div>
+      </div>
+
+      <div class="order-info">
+        <div class="info-section">
+          <div class="section-title">Order Details</div>
+          <div><strong>Order Number:</strong> ${order.order_number}</div>
+          <div><strong>Order Date:</strong> ${new Date(order.created_at).toLocaleDateString()}</div>
+          <div><strong>Status:</strong> ${order.status}</div>
+          <div><strong>Payment Status:</strong> ${order.payment_status}</div>
+        </div>
+
+        <div class="info-section">
+          <div class="section-title">Customer Information</div>
+          <div><strong>Name:</strong> ${order.customer.name}</div>
+          <div><strong>Email:</strong> ${order.customer.email}</div>
+          ${order.customer.phone_number ? `<div><strong>Phone:</strong> ${order.customer.phone_number}</div>` : ''}
+        </div>
+
+        <div class="info-section">
+          <div class="section-title">Shipping Address</div>
+          ${order.shipping_address ? `
+            <div>${order.shipping_address.name}</div>
+            <div>${order.shipping_address.address_line_1}</div>
+            ${order.shipping_address.address_line_2 ? `<div>${order.shipping_address.address_line_2}</div>` : ''}
+            <div>${order.shipping_address.city} ${order.shipping_address.postal_code}</div>
+            <div>${order.shipping_address.country}</div>
+          ` : '<div>No shipping address provided</div>'}
+        </div>
+      </div>
+
+      <table class="items-table">
+        <thead>
+          <tr>
+            <th>Product</th>
+            <th class="text-right">Quantity</th>
+            <th class="text-right">Unit Price</th>
+            <th class="text-right">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${order.items.map((item: OrderWithDetails['items'][number]) => `
+            <tr>
+              <td>${item.product.name}${item.variant_name ? ` (${item.variant_name})` : ''}</td>
+              <td class="text-right">${item.quantity}</td>
+              <td class="text-right">${formatCurrency(item.unit_price / 100)}</td>
+              <td class="text-right">${formatCurrency(item.total_price / 100)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+
+      <table class="summary-table">
+        <tr>
+          <td>Subtotal:</td>
+          <td class="text-right">${formatCurrency(summary.subtotal)}</td>
+        </tr>
+        ${summary.taxAmount > 0 ? `
+          <tr>
+            <td>Tax:</td>
+            <td class="text-right">${formatCurrency(summary.taxAmount)}</td>
+          </tr>
+        ` : ''}
+        ${summary.shippingAmount > 0 ? `
+          <tr>
+            <td>Shipping:</td>
+            <td class="text-right">${formatCurrency(summary.shippingAmount)}</td>
+          </tr>
+        ` : ''}
+        ${summary.discountAmount > 0 ? `
+          <tr>
+            <td>Discount:</td>
+            <td class="text-right">-${formatCurrency(summary.discountAmount)}</td>
+          </tr>
+        ` : ''}
+        <tr class="total-row">
+          <td><strong>Total:</strong></td>
+          <td class="text-right"><strong>${formatCurrency(summary.total)}</strong></td>
+        </tr>
+      </table>
+
+      <div class="footer">
+        <p>Thank you for your business!</p>
+        <p>Printed on ${currentDate}</p>
+      </div>
+    </div>
+  `;
+}
+
+// Print HTML generation function
+export function generatePrintHTML(orders: OrderWithDetails[]): string {
+  const currentDate = new Date().toLocaleDateString();
+  const title =
+    orders.length === 1 ? `Order ${orders[0].order_number} - Invoice` : `${orders.length} Orders - Invoices`;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>${title}</title>
+      <style>${PRINT_STYLES}</style>
+    </head>
+    <body>
+      ${orders.map(order => renderOrderSection(order, currentDate)).join('')}
+    </body>
+    </html>
+  `;
+}
+
+// Open the browser print dialog for one or more orders
+export function printOrders(orders: OrderWithDetails[]): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.write(generatePrintHTML(orders));
+  printWindow.document.close();
+
+  // Wait for content to load, then print
+  printWindow.onload = () => {
+    printWindow.print();
+    printWindow.close();
+  };
+
+  return true;
+}
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { CouponCodeSchema } from './coupon-schemas';
+import { isValidBangladeshiPhone } from './phone-utils';
+
+// Checkout Form Schema
+export const CheckoutFormSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  phone: z.string().min(11, 'Phone number must be at least 11 digits'),
+  address: z.string().min(10, 'Address must be at least 10 characters'),
+  city: z.string().min(1, 'Please select a city'),
+  area: z.string().min(2, 'Area must be at least 2 characters'),
+  postalCode: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+// Shipping Address Schema (backend shape)
+export const OrderShippingAddressSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  phone: z.string().min(11, 'Phone number must be at least 11 digits'),
+  address_line_1: z.string().min(10, 'Address must be at least 10 characters'),
+  address_line_2: z.string().optional(),
+  city: z.string().min(1, 'Please select a city'),
+  postal_code: z.string(),
+  country: z.string().min(1),
+});
+
+// Create Order Schema - user_id is taken from the session and prices from the
+// catalog, never from the client
+export const CreateOrderSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        product_id: z.string().min(1, 'Product is required'),
+        variant_id: z.string().min(1).optional(),
+        quantity: z.number().int().positive('Quantity must be at least 1'),
+      })
+    )
+    .min(1, 'Your cart is empty'),
+  shipping_address: OrderShippingAddressSchema,
+  payment_method: z.enum(['cod', 'card', 'mobile_banking']),
+  notes: z.string().optional(),
+  coupon_code: CouponCodeSchema.optional(),
+});
+
+// Guest Order Tracking Schema
+export const TrackOrderSchema = z.object({
+  orderNumber: z.string().trim().min(3, 'Please enter your order number'),
+  phone: z
+    .string()
+    .trim()
+    .refine(isValidBangladeshiPhone, 'Please enter the phone number used for the order'),
+});
+
+// Bulk Admin Order Action Schema
+export const BULK_ORDER_ACTION_LIMIT = 100;
+
+export const BulkOrderActionSchema = z
+  .object({
+    action: z.enum(['confirm', 'process', 'ship', 'cancel']),
+    orders: z
+      .array(
+        z.object({
+          id: z.string().min(1, 'Order ID is required'),
+          tracking_number: z.string().trim().optional(),
+        })
+      )
+      .min(1, 'Select at least one order')
+      .max(BULK_ORDER_ACTION_LIMIT, `You can update up to ${BULK_ORDER_ACTION_LIMIT} orders at once`),
+    reason: z.string().trim().optional(),
+  })
+  .refine(data => data.action !== 'cancel' || !!data.reason, {
+    message: 'A cancellation reason is required',
+    path: ['reason'],
+  });
+
+// Type exports
+export type CheckoutFormData = z.infer<typeof CheckoutFormSchema>;
+export type CreateOrderInput = z.infer<typeof CreateOrderSchema>;
+export type TrackOrderData = z.infer<typeof TrackOrderSchema>;
+export type BulkOrderActionInput = z.infer<typeof BulkOrderActionSchema>;
@@ -0,0 +1,147 @@
+/**
+ * Order Status State Machine
+ * Single source of truth for legal order status transitions, shared by the
+ * admin orders API routes and the admin UI
+ */
+
+import { ORDER_STATUSES } from '@/lib/constants';
+import type { AdminOrder } from '@/types/admin';
+
+export type OrderStatusValue = (typeof ORDER_STATUSES)[number]['id'];
+
+// Extra data that can accompany a status change
+export interface OrderTransitionPayload {
+  notes?: string;
+  tracking_number?: string;
+  estimated_delivery?: string;
+}
+
+// Subset of the order a transition needs to inspect
+export type OrderTransitionSubject = Pick<AdminOrder, 'status'> &
+  Partial<Pick<AdminOrder, 'tracking_number' | 'estimated_delivery'>>;
+
+export type OrderTransitionResult =
+  | { valid: true; updates: Partial<AdminOrder> }
+  | { valid: false; error: string; errorCode: string; fieldErrors?: Record<string, string> };
+
+// Side-effect hooks run when entering a status
+interface OrderTransitionHook {
+  // Payload fields that must be present (on the payload or already on the order)
+  requires?: Array<keyof OrderTransitionPayload>;
+  // Extra order fields to set as part of the transition
+  apply?: (order: OrderTransitionSubject, payload: OrderTransitionPayload) => Partial<AdminOrder>;
+}
+
+// Legal next states for every status - terminal states map to an empty list
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatusValue, readonly OrderStatusValue[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export const ORDER_TRANSITION_HOOKS: Partial<Record<OrderStatusValue, OrderTransitionHook>> = {
+  shipped: {
+    requires: ['tracking_number'],
+    apply: (order, payload) => ({
+      tracking_number: payload.tracking_number || order.tracking_number,
+      ...(payload.estimated_delivery && { estimated_delivery: payload.estimated_delivery }),
+    }),
+  },
+  delivered: {
+    apply: () => ({ delivered_at: new Date().toISOString() }),
+  },
+};
+
+// Target status for each admin bulk action. Each action is a single step, so
+// orders move through the table one bulk action at a time
+export const BULK_ORDER_ACTION_STATUS = {
+  confirm: 'confirmed',
+  process: 'processing',
+  ship: 'shipped',
+  cancel: 'cancelled',
+} as const satisfies Record<string, OrderStatusValue>;
+
+export type BulkOrderAction = keyof typeof BULK_ORDER_ACTION_STATUS;
+
+const REQUIRED_FIELD_MESSAGES: Record<keyof OrderTransitionPayload, string> = {
+  notes: 'A note is required for this status change',
+  tracking_number: 'A tracking number is required before an order can be shipped',
+  estimated_delivery: 'An estimated delivery date is required for this status change',
+};
+
+export function isOrderStatus(value: unknown): value is OrderStatusValue {
+  return typeof value === 'string' && value in ORDER_STATUS_TRANSITIONS;
+}
+
+export function getOrderStatusLabel(status: string): string {
+  return ORDER_STATUSES.find(option => option.id === status.toLowerCase())?.name || status;
+}
+
+// Get the statuses an order may move to next
+export function getAllowedNextStatuses(status: string): OrderStatusValue[] {
+  const current = status.toLowerCase();
+  return isOrderStatus(current) ? [...ORDER_STATUS_TRANSITIONS[current]] : [];
+}
+
+export function canTransitionOrder(from: string, to: string): boolean {
+  return getAllowedNextStatuses(from).includes(to.toLowerCase() as OrderStatusValue);
+}
+
+export function canApplyBulkOrderAction(status: string, action: BulkOrderAction): boolean {
+  return canTransitionOrder(status, BULK_ORDER_ACTION_STATUS[action]);
+}
+
+// Payload fields the UI must collect before moving an order into `status`
+export function getRequiredTransitionFields(status: string): Array<keyof OrderTransitionPayload> {
+  const target = status.toLowerCase();
+  return isOrderStatus(target) ? ORDER_TRANSITION_HOOKS[target]?.requires || [] : [];
+}
+
+// Validate a transition and collect the field updates its hooks produce
+export function validateOrderTransition(
+  order: OrderTransitionSubject,
+  to: string,
+  payload: OrderTransitionPayload = {}
+): OrderTransitionResult {
+  const from = order.status.toLowerCase();
+  const target = to.toLowerCase();
+
+  if (!isOrderStatus(target)) {
+    return { valid: false, error: `Unknown order status: ${to}`, errorCode: 'INVALID_STATUS' };
+  }
+
+  if (!canTransitionOrder(from, target)) {
+    return {
+      valid: false,
+      error: `Cannot change an order from ${getOrderStatusLabel(from)} to ${getOrderStatusLabel(target)}`,
+      errorCode: 'INVALID_STATUS_TRANSITION',
+    };
+  }
+
+  const hook = ORDER_TRANSITION_HOOKS[target];
+  const fieldErrors: Record<string, string> = {};
+
+  hook?.requires?.forEach(field => {
+    const value = payload[field] ?? order[field as keyof OrderTransitionSubject];
+    if (typeof value !== 'string' || !value.trim()) {
+      fieldErrors[field] = REQUIRED_FIELD_MESSAGES[field];
+    }
+  });
+
+  if (Object.keys(fieldErrors).length > 0) {
+    return {
+      valid: false,
+      error: Object.values(fieldErrors)[0],
+      errorCode: 'TRANSITION_REQUIREMENTS_NOT_MET',
+      fieldErrors,
+    };
+  }
+
+  return {
+    valid: true,
+    updates: { status: target, ...hook?.apply?.(order, payload) },
+  };
+}
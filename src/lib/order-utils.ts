@@ -0,0 +1,310 @@
+/**
+ * Order Utility Functions
+ * Shared order helpers for the checkout flow and the order API routes
+ */
+
+import type { CheckoutFormData, CreateOrderInput } from '@/lib/order-schemas';
+import { getCartItemKey } from '@/lib/product-variants';
+import type { CartItem } from '@/types';
+import type { AdminOrder, OrderStatusHistoryEntry, OrderTrackingInfo } from '@/types/admin';
+import type {
+  BackendError,
+  BackendOrder,
+  BackendOrderItem,
+  BackendOrderStatusEntry,
+  BackendStockConflict,
+  BackendValidationIssue,
+} from '@/types/backend';
+import type { ZodIssue } from 'zod';
+
+// Field-level errors keyed by checkout form field, or `items.<cart item key>` for line items
+export type OrderFieldErrors = Record<string, string>;
+
+// Backend shipping address fields mapped back to checkout form fields
+const SHIPPING_FIELD_MAP: Record<string, keyof CheckoutFormData> = {
+  name: 'name',
+  phone: 'phone',
+  address_line_1: 'address',
+  address_line_2: 'area',
+  city: 'city',
+  postal_code: 'postalCode',
+};
+
+// Sanitize an order returned by the backend
+export function sanitizeOrder(order: BackendOrder): AdminOrder {
+  return {
+    id: String(order.id || ''),
+    order_number: String(order.order_number || ''),
+    user_id: String(order.user_id || ''),
+    customer: {
+      id: String(order.customer?.id || order.user_id || ''),
+      name: String(order.customer?.name || ''),
+      email: String(order.customer?.email || ''),
+      phone_number: order.customer?.phone_number || undefined,
+    },
+    items: Array.isArray(order.items) ? order.items.map((item: BackendOrderItem) => ({
+      id: String(item.id || ''),
+      order_id: String(item.order_id || order.id || ''),
+      product_id: String(item.product_id || ''),
+      product: {
+        id: String(item.product?.id || item.product_id || ''),
+        name: String(item.product?.name || ''),
+        images: Array.isArray(item.product?.images) ? item.product.images : [],
+        slug: item.product?.slug || undefined,
+      },
+      variant_id: item.variant_id || item.variant?.id || undefined,
+      variant_name: item.variant_name || item.variant?.name || undefined,
+      is_preorder: Boolean(item.is_preorder ?? item.product?.is_preorder),
+      preorder_available_date: item.preorder_available_date || item.product?.preorder_available_date || undefined,
+      quantity: Number(item.quantity) || 0,
+      unit_price: Number(item.unit_price) || 0,
+      total_price: Number(item.total_price) || 0,
+      created_at: String(item.created_at || new Date().toISOString()),
+    })) : [],
+    items_count: Number(order.items_count) || 0,
+    subtotal: Number(order.subtotal) || 0,
+    shipping_cost: Number(order.shipping_cost) || 0,
+    tax_amount: Number(order.tax_amount) || 0,
+    discount_amount: Number(order.discount_amount) || 0,
+    total_amount: Number(order.total_amount) || 0,
+    status: order.status || 'pending',
+    payment_status: order.payment_status || 'pending',
+    payment_method: order.payment_method || 'cod',
+    shipping_address: {
+      name: String(order.shipping_address?.name || ''),
+      phone: String(order.shipping_address?.phone || ''),
+      address_line_1: String(order.shipping_address?.address_line_1 || ''),
+      address_line_2: order.shipping_address?.address_line_2 || undefined,
+      city: String(order.shipping_address?.city || ''),
+      postal_code: String(order.shipping_address?.postal_code || ''),
+      country: String(order.shipping_address?.country || 'Bangladesh'),
+    },
+    notes: order.notes || undefined,
+    coupon_code: order.coupon_code || undefined,
+    reservation_id: order.reservation_id || undefined,
+    tracking_number: order.tracking_number || undefined,
+    estimated_delivery: order.estimated_delivery || undefined,
+    delivered_at: order.delivered_at || undefined,
+    status_history: sanitizeStatusHistory(order.status_history, order.id),
+    days_since_created: Number(order.days_since_created) || 0,
+    created_at: String(order.created_at || new Date().toISOString()),
+    updated_at: String(order.updated_at || new Date().toISOString()),
+    deleted_at: order.deleted_at || undefined,
+  };
+}
+
+// Sanitize status history entries returned by the backend, oldest first
+export function sanitizeStatusHistory(history: BackendOrderStatusEntry[] | undefined, orderId?: string): OrderStatusHistoryEntry[] {
+  if (!Array.isArray(history)) {
+    return [];
+  }
+
+  return history
+    .map((entry: BackendOrderStatusEntry, index: number) => ({
+      id: String(entry.id || `${orderId || 'order'}-${index}`),
+      order_id: String(entry.order_id || orderId || ''),
+      from_status: entry.from_status || undefined,
+      status: entry.status || 'pending',
+      actor: {
+        id: entry.actor?.id || entry.actor_id || undefined,
+        name: String(entry.actor?.name || entry.actor_name || ''),
+        role: entry.actor?.role || entry.actor_role || 'SYSTEM',
+      },
+      note: entry.note || entry.notes || undefined,
+      created_at: String(entry.created_at || new Date().toISOString()),
+    }))
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+}
+
+// Sanitize the public tracking view of an order
+export function sanitizeTrackingInfo(order: BackendOrder): OrderTrackingInfo {
+  return {
+    order_number: String(order.order_number || ''),
+    status: order.status || 'pending',
+    // Guests only see who acted by role, never by name, and never the staff notes
+    status_history: sanitizeStatusHistory(order.status_history, order.id).map(entry => ({
+      id: entry.id,
+      order_id: entry.order_id,
+      from_status: entry.from_status,
+      status: entry.status,
+      actor: { name: '', role: entry.actor.role },
+      created_at: entry.created_at,
+    })),
+    items_count: Number(order.items_count) || 0,
+    tracking_number: order.tracking_number || undefined,
+    estimated_delivery: order.estimated_delivery || undefined,
+    delivered_at: order.delivered_at || undefined,
+    created_at: String(order.created_at || new Date().toISOString()),
+  };
+}
+
+// Status timeline for display, falling back to what the order itself records
+export function buildStatusTimeline(
+  order: Pick<AdminOrder, 'status' | 'created_at' | 'delivered_at'> & {
+    id?: string;
+    updated_at?: string;
+    status_history?: OrderStatusHistoryEntry[];
+  }
+): OrderStatusHistoryEntry[] {
+  if (order.status_history && order.status_history.length > 0) {
+    return order.status_history;
+  }
+
+  const orderId = order.id || '';
+  const timeline: OrderStatusHistoryEntry[] = [
+    {
+      id: `${orderId}-placed`,
+      order_id: orderId,
+      status: 'pending',
+      actor: { name: '', role: 'CUSTOMER' },
+      created_at: order.created_at,
+    },
+  ];
+
+  if (order.status !== 'pending') {
+    timeline.push({
+      id: `${orderId}-current`,
+      order_id: orderId,
+      from_status: 'pending',
+      status: order.status,
+      actor: { name: '', role: 'SYSTEM' },
+      created_at:
+        (order.status === 'delivered' && order.delivered_at) || order.updated_at || order.created_at,
+    });
+  }
+
+  return timeline;
+}
+
+// Build the create-order payload from cart items and the checkout form
+export function buildCreateOrderData(
+  items: CartItem[],
+  form: CheckoutFormData,
+  couponCode?: string
+): CreateOrderInput {
+  return {
+    items: items.map(item => ({
+      product_id: item.product.id,
+      variant_id: item.variant?.id,
+      quantity: item.quantity,
+    })),
+    shipping_address: {
+      name: form.name.trim(),
+      phone: form.phone.trim(),
+      address_line_1: form.address.trim(),
+      address_line_2: form.area.trim(),
+      city: form.city,
+      postal_code: form.postalCode?.trim() || '',
+      country: 'Bangladesh',
+    },
+    payment_method: 'cod',
+    notes: form.notes?.trim() || undefined,
+    coupon_code: couponCode || undefined,
+  };
+}
+
+// Resolve a backend/zod field path to a checkout field key
+function resolveFieldKey(path: Array<string | number>, items?: CreateOrderInput['items']): string | null {
+  const [root, second, third] = path;
+
+  if (root === 'shipping_address' && typeof second === 'string') {
+    return SHIPPING_FIELD_MAP[second] || null;
+  }
+
+  if (root === 'items') {
+    if (typeof second === 'number') {
+      const item = items?.[second];
+      return item?.product_id ? `items.${getCartItemKey(item.product_id, item.variant_id)}` : 'items';
+    }
+    if (typeof second === 'string' && third === undefined) {
+      return `items.${second}`;
+    }
+    return 'items';
+  }
+
+  if (root === 'notes') {
+    return 'notes';
+  }
+
+  return typeof root === 'string' && SHIPPING_FIELD_MAP[root] ? SHIPPING_FIELD_MAP[root] : null;
+}
+
+// Map zod issues from the create-order schema to checkout field errors
+export function mapOrderIssuesToFields(
+  issues: ZodIssue[],
+  items?: CreateOrderInput['items']
+): OrderFieldErrors {
+  const fieldErrors: OrderFieldErrors = {};
+
+  issues.forEach(issue => {
+    const key = resolveFieldKey(issue.path, items);
+    if (key && !fieldErrors[key]) {
+      fieldErrors[key] = issue.message;
+    }
+  });
+
+  return fieldErrors;
+}
+
+// Normalize backend order errors (validation and stock conflicts) to checkout field errors
+export function mapBackendOrderErrors(
+  errorData: BackendError | undefined,
+  items?: CreateOrderInput['items']
+): OrderFieldErrors {
+  const fieldErrors: OrderFieldErrors = {};
+  const details = errorData?.details || {};
+
+  // Validation errors: [{ path | field, message }]
+  const validationErrors = errorData?.errors || details.errors || errorData?.issues || details.issues;
+  if (Array.isArray(validationErrors)) {
+    validationErrors.forEach((err: BackendValidationIssue) => {
+      const path: Array<string | number> = Array.isArray(err?.path)
+        ? err.path
+        : String(err?.field || '').split('.').filter(Boolean);
+      const key = resolveFieldKey(path, items);
+      if (key && err?.message && !fieldErrors[key]) {
+        fieldErrors[key] = String(err.message);
+      }
+    });
+  }
+
+  // Stock conflicts: [{ product_id, variant_id?, available_quantity, message? }]
+  const conflicts = errorData?.conflicts || details.conflicts ||
+    (details.product_id ? [details] : []);
+  if (Array.isArray(conflicts)) {
+    conflicts.forEach((conflict: BackendStockConflict) => {
+      if (!conflict?.product_id) return;
+      const available = Number(conflict.available_quantity ?? conflict.available);
+      fieldErrors[`items.${getCartItemKey(conflict.product_id, conflict.variant_id)}`] = conflict.message ||
+        (Number.isFinite(available) && available > 0
+          ? `Only ${available} left in stock`
+          : 'This product is out of stock');
+    });
+  }
+
+  return fieldErrors;
+}
+
+// Parse "order_number,tracking_number" lines (header row optional) into a lookup
+// keyed by the upper-cased order number
+export function parseTrackingNumbersCsv(csv: string): Record<string, string> {
+  const trackingNumbers: Record<string, string> = {};
+
+  csv
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .forEach((line, index) => {
+      // Skip a header row such as "order_number,tracking_number"
+      if (index === 0 && /tracking/i.test(line)) return;
+
+      const [orderNumber, trackingNumber] = line
+        .split(/[,;\t]/)
+        .map(cell => cell.trim().replace(/^"|"$/g, ''));
+
+      if (!orderNumber || !trackingNumber) return;
+      trackingNumbers[orderNumber.toUpperCase()] = trackingNumber;
+    });
+
+  return trackingNumbers;
+}
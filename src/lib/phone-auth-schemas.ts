@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { normalizeBangladeshiPhone } from './phone-utils';
+
+export const PHONE_OTP_PURPOSES = ['login', 'register'] as const;
+
+// Bangladeshi mobile number, normalized to 01XXXXXXXXX
+export const PhoneNumberSchema = z
+  .string()
+  .trim()
+  .min(1, 'Phone number is required')
+  .transform((value, ctx) => {
+    const phone = normalizeBangladeshiPhone(value);
+    if (!phone) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Please enter a valid mobile number (01XXXXXXXXX)',
+      });
+      return z.NEVER;
+    }
+    return phone;
+  });
+
+const PhoneOtpBaseSchema = z.object({
+  phone_number: PhoneNumberSchema,
+  purpose: z.enum(PHONE_OTP_PURPOSES),
+  // Only used when registering
+  name: z.string().trim().max(100, 'Name must be less than 100 characters').optional(),
+});
+
+function requireNameForRegistration(data: z.infer<typeof PhoneOtpBaseSchema>, ctx: z.RefinementCtx) {
+  if (data.purpose === 'register' && (!data.name || data.name.length < 2)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['name'],
+      message: 'Name must be at least 2 characters',
+    });
+  }
+}
+
+// Request a sign-in or sign-up code by SMS
+export const PhoneOtpRequestSchema = PhoneOtpBaseSchema.superRefine(requireNameForRegistration);
+
+// Exchange the SMS code for a session
+export const PhoneOtpVerifySchema = PhoneOtpBaseSchema.extend({
+  otp: z
+    .string()
+    .length(6, 'OTP must be 6 digits')
+    .regex(/^\d{6}$/, 'OTP must contain only numbers'),
+}).superRefine(requireNameForRegistration);
+
+// Type exports
+export type PhoneOtpPurpose = (typeof PHONE_OTP_PURPOSES)[number];
+export type PhoneOtpRequestInput = z.input<typeof PhoneOtpRequestSchema>;
+export type PhoneOtpRequestData = z.infer<typeof PhoneOtpRequestSchema>;
+export type PhoneOtpVerifyInput = z.input<typeof PhoneOtpVerifySchema>;
+export type PhoneOtpVerifyData = z.infer<typeof PhoneOtpVerifySchema>;
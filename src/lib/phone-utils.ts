@@ -0,0 +1,26 @@
+/**
+ * Phone Number Utilities
+ * Bangladeshi mobile number validation and normalization (01XXXXXXXXX)
+ */
+
+// Local format: 01 followed by an operator digit (3-9) and 8 more digits
+export const BANGLADESHI_PHONE_REGEX = /^01[3-9]\d{8}$/;
+
+/**
+ * Normalize a Bangladeshi mobile number to the local 01XXXXXXXXX format
+ * Accepts spaces, dashes and the +880 / 880 country prefix
+ * Returns null when the input is not a valid mobile number
+ */
+export function normalizeBangladeshiPhone(input: string): string | null {
+  let digits = input.replace(/[^\d]/g, '');
+
+  if (digits.startsWith('880')) {
+    digits = digits.slice(2);
+  }
+
+  return BANGLADESHI_PHONE_REGEX.test(digits) ? digits : null;
+}
+
+export function isValidBangladeshiPhone(input: string): boolean {
+  return normalizeBangladeshiPhone(input) !== null;
+}
@@ -0,0 +1,58 @@
+/**
+ * Pre-Order Utilities
+ * Maps backend pre-order flags to the storefront shape and tells pre-order
+ * lines apart from items that ship straight away
+ */
+
+import type { CartItem, Product, ProductPreOrder, ProductVariant } from '@/types';
+import type { BackendProduct } from '@/types/backend';
+
+// Sanitize pre-order details, snake_case or already camelCase
+export function sanitizePreOrder(product: BackendProduct): ProductPreOrder | undefined {
+  if (product.preOrder) {
+    return {
+      availableDate: product.preOrder.availableDate || undefined,
+      depositFree: Boolean(product.preOrder.depositFree),
+    };
+  }
+
+  if (!product.is_preorder) {
+    return undefined;
+  }
+
+  return {
+    availableDate: product.preorder_available_date || undefined,
+    depositFree: product.preorder_deposit_free !== false,
+  };
+}
+
+export function isPreOrder(product: Pick<Product, 'preOrder'>): boolean {
+  return !!product.preOrder;
+}
+
+// Pre-order products can be ordered with no stock on hand
+export function canPurchase(product: Product, variant?: ProductVariant): boolean {
+  return isPreOrder(product) || (variant?.inStock ?? product.inStock);
+}
+
+// "Ships from 12 Nov 2026", or a vaguer promise when no date is set
+export function formatPreOrderAvailability(preOrder: ProductPreOrder): string {
+  if (!preOrder.availableDate) {
+    return 'Ships as soon as the new batch is ready';
+  }
+
+  const date = new Date(preOrder.availableDate);
+  if (isNaN(date.getTime())) {
+    return 'Ships as soon as the new batch is ready';
+  }
+
+  return `Ships from ${date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}`;
+}
+
+// Cart lines that ship now and pre-order lines that ship later, in cart order
+export function splitPreOrderItems(items: CartItem[]): { readyItems: CartItem[]; preOrderItems: CartItem[] } {
+  return {
+    readyItems: items.filter(item => !isPreOrder(item.product)),
+    preOrderItems: items.filter(item => isPreOrder(item.product)),
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * Product Import/Export Utilities
+ * Spreadsheet columns for bulk product import and export, plus CSV reading and
+ * writing and the mapping between spreadsheet rows and import rows
+ */
+
+import type { ProductImportRowInput } from '@/lib/product-schemas';
+import type { AdminCategory, AdminProduct } from '@/types/admin';
+
+// Column headers, in spreadsheet order - exports use the same layout so they re-import cleanly
+export const PRODUCT_IMPORT_COLUMNS = [
+  'name',
+  'sku',
+  'description',
+  'price',
+  'original_price',
+  'cost_price',
+  'stock_quantity',
+  'category',
+  'tags',
+  'images',
+] as const;
+
+export type ProductImportColumn = (typeof PRODUCT_IMPORT_COLUMNS)[number];
+
+export const PRODUCT_IMPORT_FILE_TYPES = ['csv', 'xlsx'] as const;
+
+export type ProductImportFileType = (typeof PRODUCT_IMPORT_FILE_TYPES)[number];
+
+// Spreadsheets get unwieldy well before this, and every row is validated on preview
+export const MAX_PRODUCT_IMPORT_ROWS = 1000;
+
+export interface ProductImportPreviewRow {
+  // Spreadsheet row number, counting the header as row 1
+  row: number;
+  name: string;
+  values?: ProductImportRowInput;
+  category_name?: string;
+  errors: string[];
+}
+
+export interface ProductImportPreview {
+  file_name: string;
+  total: number;
+  valid: number;
+  invalid: number;
+  rows: ProductImportPreviewRow[];
+}
+
+export interface ProductImportResult {
+  row: number;
+  success: boolean;
+  product_id?: string;
+  error?: string;
+}
+
+export interface ProductImportBatchResponse {
+  results: ProductImportResult[];
+  succeeded: number;
+  failed: number;
+}
+
+export type SpreadsheetRow = Partial<Record<ProductImportColumn, string>> & {
+  // Spreadsheet row number, counting the header as row 1
+  line: number;
+};
+
+export type ExportableProduct = Pick<
+  AdminProduct,
+  | 'name'
+  | 'sku'
+  | 'description'
+  | 'price'
+  | 'original_price'
+  | 'cost_price'
+  | 'stock_quantity'
+  | 'category_id'
+  | 'category_name'
+  | 'tags'
+  | 'images'
+>;
+
+// "Original Price" and "original-price" both mean original_price
+export function normalizeImportHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+export function getImportFileType(fileName: string): ProductImportFileType | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return PRODUCT_IMPORT_FILE_TYPES.find(type => type === extension) ?? null;
+}
+
+// RFC 4180 CSV - quoted fields may hold commas, doubled quotes and line breaks
+export function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const text = csv.replace(/^\uFEFF/, ''); // Excel prefixes UTF-8 CSVs with a byte order mark
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    // Quotes only open a quoted field at its start; elsewhere they're literal
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+}
+
+// Header row plus data rows to keyed rows; unknown columns are ignored and blank rows dropped
+export function toSpreadsheetRows(table: string[][]): SpreadsheetRow[] {
+  const [header = [], ...body] = table;
+  const columns = header.map(normalizeImportHeader);
+
+  return body
+    .map((cells, index) => {
+      const row: SpreadsheetRow = { line: index + 2 };
+      columns.forEach((column, columnIndex) => {
+        if ((PRODUCT_IMPORT_COLUMNS as readonly string[]).includes(column)) {
+          row[column as ProductImportColumn] = cells[columnIndex]?.trim() ?? '';
+        }
+      });
+      return row;
+    })
+    .filter((_, index) => body[index].some(cell => cell.trim()));
+}
+
+// Tags and image URLs share a cell, separated by | or ;
+function splitList(value?: string): string[] {
+  return (value || '')
+    .split(/[|;]/)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+// Numbers stay strings when they don't parse, so validation reports the cell instead of dropping it
+function toNumber(value?: string): number | string | undefined {
+  if (!value) return undefined;
+  const number = Number(value.replace(/,/g, ''));
+  return isNaN(number) ? value : number;
+}
+
+// Spreadsheet cells to the shape ProductImportRowSchema validates
+export function toImportRowValues(row: SpreadsheetRow): Record<string, unknown> {
+  return {
+    name: row.name || '',
+    sku: row.sku || undefined,
+    description: row.description || undefined,
+    price: toNumber(row.price),
+    original_price: toNumber(row.original_price),
+    cost_price: toNumber(row.cost_price),
+    stock_quantity: toNumber(row.stock_quantity) ?? 0,
+    category: row.category || '',
+    tags: splitList(row.tags),
+    images: splitList(row.images),
+  };
+}
+
+// Match a category by slug or by name, ignoring case
+export function resolveImportCategory<T extends Pick<AdminCategory, 'id' | 'name' | 'slug'>>(
+  categories: T[],
+  value: string
+): T | undefined {
+  const needle = value.trim().toLowerCase();
+  return (
+    categories.find(category => category.slug.toLowerCase() === needle) ||
+    categories.find(category => category.name.toLowerCase() === needle)
+  );
+}
+
+// One product as a spreadsheet row, in PRODUCT_IMPORT_COLUMNS order
+export function toExportRow(product: ExportableProduct, categorySlug?: string): string[] {
+  const values: Record<ProductImportColumn, string> = {
+    name: product.name,
+    sku: product.sku || '',
+    description: product.description || '',
+    price: String(product.price),
+    original_price: product.original_price !== undefined ? String(product.original_price) : '',
+    cost_price: product.cost_price !== undefined ? String(product.cost_price) : '',
+    stock_quantity: String(product.stock_quantity),
+    category: categorySlug || product.category_name || '',
+    tags: (product.tags || []).join('|'),
+    images: product.images.join('|'),
+  };
+
+  return PRODUCT_IMPORT_COLUMNS.map(column => values[column]);
+}
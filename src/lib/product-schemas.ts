@@ -0,0 +1,121 @@
+import { z } from 'zod';
+
+// Product Variant Schema
+export const ProductVariantSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1, 'Variant name is required').max(50, 'Name must be less than 50 characters'),
+  sku: z.string().optional(),
+  price: z.number().min(1, 'Price must be greater than 0'),
+  original_price: z.number().optional(),
+  stock_quantity: z.number().int().min(0, 'Stock cannot be negative'),
+  weight: z.number().positive('Weight must be greater than 0').optional(),
+});
+
+// Product fields shared by the admin form and the bulk import
+const ProductBaseSchema = z.object({
+  name: z.string().min(1, 'Product name is required').max(255, 'Name must be less than 255 characters'),
+  description: z.string().min(1, 'Description is required'),
+  price: z.number().min(1, 'Price must be greater than 0'),
+  original_price: z.number().optional(),
+  sku: z.string().optional(),
+  stock_quantity: z.number().min(0, 'Stock quantity cannot be negative'),
+  low_stock_threshold: z.number().min(0, 'Low stock threshold cannot be negative').optional(),
+  category_id: z.string().min(1, 'Category is required'),
+  images: z.array(z.string().url()).min(1, 'At least one image is required'),
+  featured: z.boolean().default(false),
+  is_active: z.boolean().default(true),
+  weight: z.union([z.string(), z.number()]).optional(),
+  origin: z.string().optional(),
+  benefits: z.array(z.string()).default([]),
+  tags: z.array(z.string()).default([]),
+  meta_title: z.string().optional(),
+  meta_description: z.string().optional(),
+});
+
+// Admin Product Form Schema
+export const ProductFormSchema = ProductBaseSchema.extend({
+  variants: z.array(ProductVariantSchema).default([]),
+  is_preorder: z.boolean().default(false),
+  preorder_available_date: z.string().optional(),
+  preorder_deposit_free: z.boolean().default(true),
+}).superRefine((data, ctx) => {
+  if (data.is_preorder && !data.preorder_available_date) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Expected availability date is required for pre-orders',
+      path: ['preorder_available_date'],
+    });
+  }
+
+  const names = new Set<string>();
+  const skus = new Set<string>();
+
+  data.variants.forEach((variant, index) => {
+    const name = variant.name.toLowerCase();
+    if (names.has(name)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Variant names must be unique',
+        path: ['variants', index, 'name'],
+      });
+    }
+    names.add(name);
+
+    const sku = variant.sku?.trim().toLowerCase();
+    if (sku && skus.has(sku)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Variant SKUs must be unique',
+        path: ['variants', index, 'sku'],
+      });
+    }
+    if (sku) skus.add(sku);
+  });
+});
+
+// Bulk Import Row Schema - one spreadsheet row, with the category given by name or slug
+export const ProductImportRowSchema = ProductBaseSchema.pick({
+  name: true,
+  price: true,
+  original_price: true,
+  sku: true,
+  stock_quantity: true,
+  images: true,
+  tags: true,
+}).extend({
+  description: z.string().optional(),
+  cost_price: z.number().min(0, 'Cost price cannot be negative').optional(),
+  stock_quantity: ProductBaseSchema.shape.stock_quantity.int('Stock quantity must be a whole number'),
+  category: z.string().trim().min(1, 'Category is required'),
+});
+
+// Rows are committed a batch at a time so one request never creates the whole catalog
+export const PRODUCT_IMPORT_BATCH_SIZE = 50;
+
+// Uploaded spreadsheet, base64-encoded so it travels as JSON like every other admin request
+export const ProductImportFileSchema = z.object({
+  file_name: z.string().trim().min(1, 'File name is required'),
+  content: z
+    .string()
+    .min(1, 'The file is empty')
+    .max(7_000_000, 'The file must be smaller than 5 MB'),
+});
+
+export const ProductImportBatchSchema = z.object({
+  file_name: z.string().trim().optional(),
+  rows: z
+    .array(
+      z.object({
+        row: z.number().int().positive(),
+        values: ProductImportRowSchema,
+      })
+    )
+    .min(1, 'Nothing to import')
+    .max(PRODUCT_IMPORT_BATCH_SIZE, `Import at most ${PRODUCT_IMPORT_BATCH_SIZE} products at a time`),
+});
+
+// Type exports
+export type ProductFormData = z.infer<typeof ProductFormSchema>;
+export type ProductImportRowInput = z.infer<typeof ProductImportRowSchema>;
+export type ProductImportFileInput = z.infer<typeof ProductImportFileSchema>;
+export type ProductImportBatchInput = z.infer<typeof ProductImportBatchSchema>;
@@ -0,0 +1,159 @@
+/**
+ * Product Search
+ * Maps `ProductFilters` to and from the URL query so the products page state
+ * is shareable, and to the query of the backend search, which does the
+ * matching, facet counts, sorting and pagination
+ */
+
+import { getCategoryScope } from '@/lib/category-utils';
+import { expandSearchTerm } from '@/lib/search-synonyms';
+import type { Category, FacetCount, ProductFacets, ProductFilters } from '@/types';
+import type { SearchSynonym } from '@/types/admin';
+
+export const PRODUCTS_PAGE_SIZE = 12;
+export const MAX_PRODUCTS_PAGE_SIZE = 100;
+
+export const DEFAULT_PRODUCT_SORT = {
+  sortBy: 'name',
+  sortOrder: 'asc',
+} as const satisfies Pick<ProductFilters, 'sortBy' | 'sortOrder'>;
+
+const SORT_FIELDS: NonNullable<ProductFilters['sortBy']>[] = ['name', 'price', 'newest', 'rating'];
+
+function parsePrice(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : undefined;
+}
+
+export function parseProductFilters(searchParams: URLSearchParams): ProductFilters {
+  const sortBy = searchParams.get('sortBy') as ProductFilters['sortBy'];
+  const sortOrder = searchParams.get('sortOrder');
+  const minPrice = parsePrice(searchParams.get('minPrice'));
+  const maxPrice = parsePrice(searchParams.get('maxPrice'));
+  const inStock = searchParams.get('inStock');
+
+  return {
+    search: searchParams.get('search')?.trim() || undefined,
+    category: searchParams.get('category') || undefined,
+    origin: searchParams.get('origin') || undefined,
+    priceRange:
+      minPrice !== undefined || maxPrice !== undefined
+        ? [minPrice ?? 0, maxPrice ?? Number.MAX_SAFE_INTEGER]
+        : undefined,
+    inStock: inStock === 'true' ? true : inStock === 'false' ? false : undefined,
+    featured: searchParams.get('featured') === 'true' || undefined,
+    sortBy: sortBy && SORT_FIELDS.includes(sortBy) ? sortBy : DEFAULT_PRODUCT_SORT.sortBy,
+    sortOrder: sortOrder === 'desc' ? 'desc' : sortOrder === 'asc' ? 'asc' : DEFAULT_PRODUCT_SORT.sortOrder,
+  };
+}
+
+// Only non-default values are written, keeping shared URLs short
+export function serializeProductFilters(filters: ProductFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.search) params.set('search', filters.search);
+  if (filters.category && filters.category !== 'all') params.set('category', filters.category);
+  if (filters.origin) params.set('origin', filters.origin);
+  if (filters.priceRange) {
+    const [min, max] = filters.priceRange;
+    if (min > 0) params.set('minPrice', String(min));
+    if (max < Number.MAX_SAFE_INTEGER) params.set('maxPrice', String(max));
+  }
+  if (filters.inStock !== undefined) params.set('inStock', String(filters.inStock));
+  if (filters.featured) params.set('featured', 'true');
+  if (filters.sortBy && filters.sortBy !== DEFAULT_PRODUCT_SORT.sortBy) params.set('sortBy', filters.sortBy);
+  if (filters.sortOrder && filters.sortOrder !== DEFAULT_PRODUCT_SORT.sortOrder) {
+    params.set('sortOrder', filters.sortOrder);
+  }
+
+  return params;
+}
+
+/**
+ * Words of the query, each expanded to the words it may stand for through
+ * the synonym table
+ */
+export function getSearchTerms(query?: string, synonyms: SearchSynonym[] = []): string[][] {
+  return (query || '')
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(term => expandSearchTerm(term, synonyms));
+}
+
+export interface BackendSearchOptions {
+  page?: number;
+  limit?: number;
+  synonyms?: SearchSynonym[];
+  categories?: Category[];
+}
+
+/**
+ * Query string for the backend product search. The backend does not know the
+ * synonym table or the category tree, so each search word is sent with the
+ * words it may stand for and a category with its sub-categories
+ */
+export function buildBackendSearchParams(
+  filters: ProductFilters,
+  { page = 1, limit = PRODUCTS_PAGE_SIZE, synonyms = [], categories = [] }: BackendSearchOptions = {}
+): URLSearchParams {
+  const params = new URLSearchParams({ is_active: 'true', include_facets: 'true' });
+
+  if (filters.search) {
+    params.set('search', filters.search);
+    // Every term must match, through any one of its words
+    getSearchTerms(filters.search, synonyms).forEach(words => params.append('search_terms', words.join('|')));
+  }
+  if (filters.category && filters.category !== 'all') {
+    params.set('categories', getCategoryScope(categories, filters.category).join(','));
+  }
+  if (filters.origin) params.set('origin', filters.origin);
+  if (filters.priceRange) {
+    const [min, max] = filters.priceRange;
+    if (min > 0) params.set('min_price', String(min));
+    if (max < Number.MAX_SAFE_INTEGER) params.set('max_price', String(max));
+  }
+  if (filters.inStock !== undefined) params.set('in_stock', String(filters.inStock));
+  if (filters.featured) params.set('featured', 'true');
+
+  params.set('sort_by', filters.sortBy || DEFAULT_PRODUCT_SORT.sortBy);
+  params.set('sort_order', filters.sortOrder || DEFAULT_PRODUCT_SORT.sortOrder);
+  params.set('page', String(Math.max(1, page)));
+  params.set('limit', String(Math.min(Math.max(1, limit), MAX_PRODUCTS_PAGE_SIZE)));
+
+  return params;
+}
+
+function sanitizeFacetCounts(counts: unknown): FacetCount[] {
+  if (!Array.isArray(counts)) return [];
+
+  return counts.flatMap((entry: unknown) => {
+    const { value, count } = (entry ?? {}) as { value?: unknown; count?: unknown };
+    return typeof value === 'string' && value ? [{ value, count: Number(count) || 0 }] : [];
+  });
+}
+
+// Sanitize the facet counts returned with a backend search
+export function sanitizeProductFacets(facets: unknown): ProductFacets {
+  const { categories, origins, availability, priceRange } = (facets ?? {}) as {
+    categories?: unknown;
+    origins?: unknown;
+    availability?: { inStock?: unknown; outOfStock?: unknown };
+    priceRange?: { min?: unknown; max?: unknown };
+  };
+
+  return {
+    categories: sanitizeFacetCounts(categories),
+    origins: sanitizeFacetCounts(origins),
+    availability: {
+      inStock: Number(availability?.inStock) || 0,
+      outOfStock: Number(availability?.outOfStock) || 0,
+    },
+    priceRange: {
+      min: Number(priceRange?.min) || 0,
+      max: Number(priceRange?.max) || 0,
+    },
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Product Utility Functions
+ * Maps backend products to the storefront `Product` shape, builds slug-based
+ * product URLs and picks related products for the detail page
+ */
+
+import { sanitizePreOrder } from '@/lib/preorder-utils';
+import { sanitizeProductVariants } from '@/lib/product-variants';
+import type { Product } from '@/types';
+import type { BackendProduct } from '@/types/backend';
+
+// Sanitize a product returned by the backend, snake_case or already camelCase
+export function sanitizeProduct(product: BackendProduct): Product {
+  const originalPrice = Number(product.original_price ?? product.originalPrice) || undefined;
+  const stockQuantity = product.stock_quantity ?? product.stockQuantity;
+  const variants = sanitizeProductVariants(product.variants);
+
+  return {
+    id: String(product.id || ''),
+    slug: product.slug || undefined,
+    name: String(product.name || ''),
+    description: String(product.description || ''),
+    price: Number(product.price) || 0,
+    originalPrice,
+    images: Array.isArray(product.images) ? product.images.filter((url: unknown) => typeof url === 'string') : [],
+    category: String(
+      typeof product.category === 'object'
+        ? product.category.slug || product.category_slug || product.category.name || ''
+        : product.category_slug || product.category || ''
+    ),
+    // A product with variants is available while any of its options is
+    inStock: variants
+      ? variants.some(variant => variant.inStock)
+      : Boolean(product.in_stock ?? product.inStock ?? Number(stockQuantity) > 0),
+    featured: Boolean(product.featured),
+    tags: Array.isArray(product.tags) ? product.tags.map(String) : undefined,
+    weight: product.weight ? String(product.weight) : undefined,
+    origin: product.origin || undefined,
+    benefits: Array.isArray(product.benefits) ? product.benefits.map(String) : undefined,
+    averageRating: Number(product.average_rating ?? product.averageRating) || 0,
+    reviewCount: Number(product.review_count ?? product.reviewCount) || 0,
+    createdAt: product.created_at || product.createdAt || undefined,
+    variants,
+    preOrder: sanitizePreOrder(product),
+  };
+}
+
+// Storefront URL for a product - the slug once the catalog provides one
+export function getProductPath(product: Pick<Product, 'id' | 'slug'>): string {
+  return `/products/${encodeURIComponent(product.slug || product.id)}`;
+}
+
+function countSharedTags(a: Product, b: Product): number {
+  if (!a.tags?.length || !b.tags?.length) {
+    return 0;
+  }
+
+  const tags = new Set(a.tags.map(tag => tag.toLowerCase()));
+  return b.tags.filter(tag => tags.has(tag.toLowerCase())).length;
+}
+
+/**
+ * Products related to `product`, best match first. Sharing the category
+ * outweighs any single shared tag; in-stock products win ties
+ */
+export function getRelatedProducts(product: Product, candidates: Product[], limit: number = 4): Product[] {
+  return candidates
+    .filter(candidate => candidate.id !== product.id)
+    .map(candidate => ({
+      candidate,
+      score:
+        (candidate.category === product.category ? 2 : 0) + countSharedTags(product, candidate),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || Number(b.candidate.inStock) - Number(a.candidate.inStock))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
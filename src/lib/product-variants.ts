@@ -0,0 +1,77 @@
+/**
+ * Product Variant Utilities
+ * Maps backend variants to the storefront and admin shapes, and keys and
+ * prices cart lines by product + variant
+ */
+
+import type { CartItem, Product, ProductVariant } from '@/types';
+import type { AdminProductVariant } from '@/types/admin';
+import type { BackendProductVariant } from '@/types/backend';
+
+// Variant weights are stored in grams
+function formatVariantWeight(weight: unknown): string | undefined {
+  if (weight === undefined || weight === null || weight === '') return undefined;
+  return typeof weight === 'number' ? `${weight}g` : String(weight);
+}
+
+// Sanitize storefront variants, snake_case or already camelCase
+export function sanitizeProductVariants(variants: BackendProductVariant[] | undefined): ProductVariant[] | undefined {
+  if (!Array.isArray(variants) || variants.length === 0) {
+    return undefined;
+  }
+
+  return (
+    variants
+      .map((variant): ProductVariant => {
+        const stockQuantity = variant.stock_quantity ?? variant.stockQuantity;
+
+        return {
+          id: String(variant.id || ''),
+          name: String(variant.name || ''),
+          sku: variant.sku || undefined,
+          price: Number(variant.price) || 0,
+          originalPrice: Number(variant.original_price ?? variant.originalPrice) || undefined,
+          stockQuantity: stockQuantity !== undefined ? Number(stockQuantity) || 0 : undefined,
+          inStock: Boolean(variant.in_stock ?? variant.inStock ?? Number(stockQuantity) > 0),
+          weight: formatVariantWeight(variant.weight),
+        };
+      })
+      .filter((variant: ProductVariant) => variant.id && variant.name)
+  );
+}
+
+// Sanitize admin variants returned by the backend
+export function sanitizeAdminProductVariants(variants: BackendProductVariant[] | undefined): AdminProductVariant[] | undefined {
+  if (!Array.isArray(variants)) {
+    return undefined;
+  }
+
+  return variants.map(variant => ({
+    id: variant.id ? String(variant.id) : undefined,
+    name: String(variant.name || ''),
+    sku: variant.sku || undefined,
+    price: Number(variant.price) || 0,
+    original_price: variant.original_price ? Number(variant.original_price) : undefined,
+    stock_quantity: Number(variant.stock_quantity) || 0,
+    weight: variant.weight ? Number(variant.weight) : undefined,
+  }));
+}
+
+// Preselected option - the first one in stock, so "Add to Cart" works straight away
+export function getDefaultVariant(product: Product): ProductVariant | undefined {
+  const variants = product.variants || [];
+  return variants.find(variant => variant.inStock) || variants[0];
+}
+
+// Cart lines are unique per product + variant
+export function getCartItemKey(productId: string, variantId?: string): string {
+  return variantId ? `${productId}:${variantId}` : productId;
+}
+
+export function isSameCartLine(item: CartItem, productId: string, variantId?: string): boolean {
+  return item.product.id === productId && item.variant?.id === variantId;
+}
+
+export function getCartItemPrice(item: CartItem): number {
+  return item.variant?.price ?? item.product.price;
+}
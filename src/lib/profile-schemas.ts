@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { normalizeBangladeshiPhone } from './phone-utils';
+
+// Profile details - an empty phone number removes it from the account
+export const ProfileUpdateSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Name must be at least 2 characters')
+    .max(100, 'Name must be less than 100 characters'),
+  phone_number: z
+    .string()
+    .trim()
+    .transform((value, ctx) => {
+      if (!value) return '';
+      const phone = normalizeBangladeshiPhone(value);
+      if (!phone) {
+        ctx.addIssue({
+          code: 'custom',
+          message: 'Please enter a valid mobile number (01XXXXXXXXX)',
+        });
+        return z.NEVER;
+      }
+      return phone;
+    }),
+  profile_image_url: z.string().url('Invalid image URL').or(z.literal('')),
+});
+
+// Password change - the current password is always required
+export const ChangePasswordSchema = z
+  .object({
+    current_password: z.string().min(1, 'Current password is required'),
+    new_password: z.string().min(6, 'Password must be at least 6 characters'),
+    confirm_password: z.string().min(1, 'Please confirm your new password'),
+  })
+  .refine(data => data.new_password === data.confirm_password, {
+    message: "Passwords don't match",
+    path: ['confirm_password'],
+  })
+  .refine(data => data.new_password !== data.current_password, {
+    message: 'New password must be different from your current password',
+    path: ['new_password'],
+  });
+
+// Email change, step 1 - send a code to the new address
+export const EmailChangeRequestSchema = z.object({
+  new_email: z.string().trim().toLowerCase().email('Please enter a valid email address'),
+  current_password: z.string().min(1, 'Current password is required'),
+});
+
+// Email change, step 2 - confirm the code sent to the new address
+export const EmailChangeVerifySchema = z.object({
+  new_email: z.string().trim().toLowerCase().email('Please enter a valid email address'),
+  otp: z
+    .string()
+    .length(6, 'OTP must be 6 digits')
+    .regex(/^\d{6}$/, 'OTP must contain only numbers'),
+});
+
+// Type exports
+export type ProfileUpdateInput = z.input<typeof ProfileUpdateSchema>;
+export type ProfileUpdateData = z.infer<typeof ProfileUpdateSchema>;
+export type ChangePasswordData = z.infer<typeof ChangePasswordSchema>;
+export type EmailChangeRequestData = z.infer<typeof EmailChangeRequestSchema>;
+export type EmailChangeVerifyData = z.infer<typeof EmailChangeVerifySchema>;
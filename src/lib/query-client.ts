@@ -1,3 +1,5 @@
+import type { ProductFilters } from '@/types';
+import type { CustomerOrderQueryParams } from '@/types/admin';
 import { QueryClient } from '@tanstack/react-query';
 
 // Create a client with optimized defaults
@@ -50,6 +52,7 @@ export const queryKeys = {
     all: ['products'] as const,
     lists: () => ['products', 'list'] as const,
     list: (filters?: Record<string, any>) => ['products', 'list', filters] as const,
+    infinite: (filters?: ProductFilters) => ['products', 'list', 'infinite', filters] as const,
     details: () => ['products', 'detail'] as const,
     detail: (id: string) => ['products', 'detail', id] as const,
     featured: ['products', 'featured'] as const,
@@ -66,17 +69,35 @@ export const queryKeys = {
   reviews: {
     all: ['reviews'] as const,
     byProduct: (productId: string) => ['reviews', 'product', productId] as const,
+    eligibility: (productId: string) => ['reviews', 'eligibility', productId] as const,
+    featured: ['reviews', 'featured'] as const,
   },
   // Cart (if we need server-side cart)
   cart: {
     items: ['cart', 'items'] as const,
+    coupon: (code: string, items: Array<{ product_id: string; variant_id?: string; quantity: number }>) =>
+      ['cart', 'coupon', code, items] as const,
+  },
+  // Delivery zones and shipping fees
+  delivery: {
+    settings: ['delivery', 'settings'] as const,
   },
   // Orders
   orders: {
     all: ['orders'] as const,
-    list: ['orders', 'list'] as const,
+    lists: () => ['orders', 'list'] as const,
+    list: (filters?: CustomerOrderQueryParams) => ['orders', 'list', filters] as const,
     detail: (id: string) => ['orders', 'detail', id] as const,
   },
+  // Account preferences and signed-in devices
+  account: {
+    settings: ['account', 'settings'] as const,
+    sessions: ['account', 'sessions'] as const,
+  },
+  // Saved delivery addresses
+  addresses: {
+    all: ['addresses'] as const,
+  },
 } as const;
 
 // Helper function to invalidate cooldown queries
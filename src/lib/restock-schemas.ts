@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+// "Notify me" signup for an out-of-stock product - signed-in customers can leave the email out
+export const RestockSubscriptionSchema = z.object({
+  email: z.string().trim().email('Please enter a valid email address').optional(),
+  variant_id: z.string().min(1).optional(),
+});
+
+// Type exports
+export type RestockSubscriptionInput = z.infer<typeof RestockSubscriptionSchema>;
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+export const MAX_REVIEW_IMAGES = 4;
+
+// Product Review Form Schema - the verified flag is set by the server, never the client
+export const ReviewFormSchema = z.object({
+  rating: z
+    .number()
+    .int('Please choose a star rating')
+    .min(1, 'Please choose a star rating')
+    .max(5, 'Rating cannot be more than 5 stars'),
+  comment: z
+    .string()
+    .trim()
+    .min(10, 'Review must be at least 10 characters')
+    .max(2000, 'Review must be less than 2000 characters'),
+  images: z
+    .array(z.string().url('Invalid image URL'))
+    .max(MAX_REVIEW_IMAGES, `You can add up to ${MAX_REVIEW_IMAGES} photos`)
+    .default([]),
+});
+
+export const BULK_REVIEW_ACTION_LIMIT = 50;
+
+// Admin moderation of a single review
+export const ReviewModerationSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('approve') }),
+  z.object({
+    action: z.literal('reject'),
+    reason: z.string().trim().max(500, 'Reason must be less than 500 characters').optional(),
+  }),
+  z.object({
+    action: z.literal('reply'),
+    reply: z
+      .string()
+      .trim()
+      .min(2, 'Reply must be at least 2 characters')
+      .max(1000, 'Reply must be less than 1000 characters'),
+  }),
+  z.object({ action: z.literal('feature') }),
+  z.object({ action: z.literal('unfeature') }),
+]);
+
+// Approve or reject many reviews at once
+export const BulkReviewActionSchema = z.object({
+  action: z.enum(['approve', 'reject']),
+  ids: z
+    .array(z.string().min(1, 'Review ID is required'))
+    .min(1, 'Select at least one review')
+    .max(BULK_REVIEW_ACTION_LIMIT, `You can update up to ${BULK_REVIEW_ACTION_LIMIT} reviews at once`),
+  reason: z.string().trim().max(500, 'Reason must be less than 500 characters').optional(),
+});
+
+export type ReviewFormValues = z.input<typeof ReviewFormSchema>;
+export type ReviewFormInput = z.infer<typeof ReviewFormSchema>;
+export type ReviewModerationInput = z.infer<typeof ReviewModerationSchema>;
+export type BulkReviewActionInput = z.infer<typeof BulkReviewActionSchema>;
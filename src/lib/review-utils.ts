@@ -0,0 +1,178 @@
+/**
+ * Review Utility Functions
+ * Maps backend reviews to the storefront `Review` and admin `AdminReview`
+ * shapes, builds the rating breakdown shown on product pages, and checks
+ * moderation actions against a review's current state
+ */
+
+import type { ReviewModerationInput } from '@/lib/review-schemas';
+import type { Review, ReviewSummary } from '@/types';
+import type { AdminReview } from '@/types/admin';
+import type { BackendReview, BackendReviewSummary } from '@/types/backend';
+
+export const RATING_VALUES = [5, 4, 3, 2, 1] as const;
+
+export const EMPTY_REVIEW_SUMMARY: ReviewSummary = {
+  averageRating: 0,
+  reviewCount: 0,
+  breakdown: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+};
+
+// Sanitize a review returned by the backend
+export function sanitizeReview(review: BackendReview): Review {
+  return {
+    id: String(review.id || ''),
+    productId: String(review.product_id || review.productId || ''),
+    userId: review.user_id || review.userId || undefined,
+    userName: String(review.user?.name || review.user_name || review.userName || 'Customer'),
+    rating: Math.min(5, Math.max(1, Math.round(Number(review.rating) || 1))),
+    comment: String(review.comment || ''),
+    images: Array.isArray(review.images) ? review.images.filter((url: unknown) => typeof url === 'string') : [],
+    verified: Boolean(review.verified ?? review.is_verified),
+    status: review.status || undefined,
+    adminReply: review.admin_reply || review.adminReply || undefined,
+    productName: review.product?.name || review.product_name || undefined,
+    createdAt: String(review.created_at || review.createdAt || new Date().toISOString()),
+  };
+}
+
+export function summarizeReviews(reviews: Review[]): ReviewSummary {
+  if (reviews.length === 0) {
+    return EMPTY_REVIEW_SUMMARY;
+  }
+
+  const breakdown = { ...EMPTY_REVIEW_SUMMARY.breakdown };
+  let total = 0;
+
+  reviews.forEach(review => {
+    breakdown[review.rating as keyof ReviewSummary['breakdown']] += 1;
+    total += review.rating;
+  });
+
+  return {
+    averageRating: Math.round((total / reviews.length) * 10) / 10,
+    reviewCount: reviews.length,
+    breakdown,
+  };
+}
+
+// Prefer the backend's aggregate - it covers every review, not just the page that was loaded
+export function sanitizeReviewSummary(summary: BackendReviewSummary | undefined, reviews: Review[]): ReviewSummary {
+  if (!summary || !Number(summary.review_count ?? summary.reviewCount)) {
+    return summarizeReviews(reviews);
+  }
+
+  const breakdown = summary.breakdown || {};
+
+  return {
+    averageRating: Number(summary.average_rating ?? summary.averageRating) || 0,
+    reviewCount: Number(summary.review_count ?? summary.reviewCount) || 0,
+    breakdown: {
+      1: Number(breakdown[1]) || 0,
+      2: Number(breakdown[2]) || 0,
+      3: Number(breakdown[3]) || 0,
+      4: Number(breakdown[4]) || 0,
+      5: Number(breakdown[5]) || 0,
+    },
+  };
+}
+
+export function getRatingShare(summary: ReviewSummary, rating: keyof ReviewSummary['breakdown']): number {
+  return summary.reviewCount > 0 ? Math.round((summary.breakdown[rating] / summary.reviewCount) * 100) : 0;
+}
+
+// Sanitize a review returned by the backend admin API
+export function sanitizeAdminReview(review: BackendReview): AdminReview {
+  return {
+    id: String(review.id || ''),
+    product_id: String(review.product_id || review.product?.id || ''),
+    product: {
+      id: String(review.product?.id || review.product_id || ''),
+      name: String(review.product?.name || review.product_name || ''),
+      images: Array.isArray(review.product?.images) ? review.product.images : [],
+    },
+    user: {
+      id: String(review.user?.id || review.user_id || ''),
+      name: String(review.user?.name || review.user_name || 'Customer'),
+      email: String(review.user?.email || ''),
+    },
+    rating: Math.min(5, Math.max(1, Math.round(Number(review.rating) || 1))),
+    comment: String(review.comment || ''),
+    images: Array.isArray(review.images) ? review.images.filter((url: unknown) => typeof url === 'string') : [],
+    verified: Boolean(review.verified ?? review.is_verified),
+    status: review.status === 'approved' || review.status === 'rejected' ? review.status : 'pending',
+    featured: Boolean(review.featured),
+    admin_reply: review.admin_reply || undefined,
+    replied_at: review.replied_at || undefined,
+    rejection_reason: review.rejection_reason || undefined,
+    moderated_at: review.moderated_at || undefined,
+    created_at: String(review.created_at || new Date().toISOString()),
+    updated_at: String(review.updated_at || new Date().toISOString()),
+  };
+}
+
+export type ReviewModerationResult =
+  | { valid: true; updates: Partial<Pick<AdminReview, 'status' | 'featured' | 'admin_reply' | 'rejection_reason'>> }
+  | { valid: false; error: string; errorCode: string };
+
+// Check a moderation action against the review's current state and build the backend update
+export function validateReviewModeration(
+  review: Pick<AdminReview, 'status' | 'featured'>,
+  moderation: ReviewModerationInput
+): ReviewModerationResult {
+  switch (moderation.action) {
+    case 'approve':
+      if (review.status === 'approved') {
+        return { valid: false, error: 'This review is already approved', errorCode: 'REVIEW_ALREADY_APPROVED' };
+      }
+      return { valid: true, updates: { status: 'approved' } };
+
+    case 'reject':
+      if (review.status === 'rejected') {
+        return { valid: false, error: 'This review is already rejected', errorCode: 'REVIEW_ALREADY_REJECTED' };
+      }
+      // A rejected review can't stay on the homepage
+      return {
+        valid: true,
+        updates: { status: 'rejected', featured: false, rejection_reason: moderation.reason || undefined },
+      };
+
+    case 'reply':
+      if (review.status === 'rejected') {
+        return { valid: false, error: 'Rejected reviews cannot be replied to', errorCode: 'REVIEW_REJECTED' };
+      }
+      return { valid: true, updates: { admin_reply: moderation.reply } };
+
+    case 'feature':
+      if (review.status !== 'approved') {
+        return { valid: false, error: 'Only approved reviews can be featured', errorCode: 'REVIEW_NOT_APPROVED' };
+      }
+      return { valid: true, updates: { featured: true } };
+
+    case 'unfeature':
+      return { valid: true, updates: { featured: false } };
+  }
+}
+
+const MODERATION_ACTIVITY_TITLES: Record<ReviewModerationInput['action'], string> = {
+  approve: 'Review Approved',
+  reject: 'Review Rejected',
+  reply: 'Review Replied To',
+  feature: 'Review Featured',
+  unfeature: 'Review Unfeatured',
+};
+
+// Activity log entry describing a moderation action
+export function describeReviewModeration(review: AdminReview, moderation: ReviewModerationInput) {
+  const subject = `${review.rating}-star review by ${review.user.name}${
+    review.product.name ? ` on ${review.product.name}` : ''
+  }`;
+
+  return {
+    title: MODERATION_ACTIVITY_TITLES[moderation.action],
+    description:
+      moderation.action === 'reject' && moderation.reason
+        ? `${subject} - ${moderation.reason}`
+        : subject,
+  };
+}
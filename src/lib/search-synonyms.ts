@@ -0,0 +1,68 @@
+/**
+ * Search Synonyms
+ * Maps the Bangla/English transliterations shoppers type ("modhu", "ghi") to
+ * the words used in the catalog, so product search finds them either way
+ */
+
+import type { SearchSettings, SearchSynonym } from '@/types/admin';
+import type { BackendSearchSettings } from '@/types/backend';
+
+// Partial words shorter than this only match themselves, not synonyms
+const MIN_SYNONYM_PREFIX_LENGTH = 3;
+
+// Used until admins save their own table
+export const DEFAULT_SEARCH_SETTINGS: SearchSettings = {
+  synonyms: [
+    { term: 'honey', synonyms: ['modhu', 'madhu', 'moddhu'] },
+    { term: 'ghee', synonyms: ['ghi', 'ghea', 'ghrito'] },
+    { term: 'spices', synonyms: ['moshla', 'mosla', 'masala', 'moshlla'] },
+    { term: 'chili', synonyms: ['morich', 'marich', 'mirchi', 'chilli'] },
+    { term: 'turmeric', synonyms: ['holud', 'holdi', 'haldi'] },
+    { term: 'cumin', synonyms: ['jira', 'zira', 'jeera'] },
+    { term: 'coriander', synonyms: ['dhonia', 'dhoniya', 'dhania'] },
+    { term: 'mustard', synonyms: ['shorisha', 'sorisha', 'sarson'] },
+    { term: 'shemai', synonyms: ['semai', 'semiya', 'vermicelli'] },
+  ],
+};
+
+// Sanitize search settings returned by the backend
+export function sanitizeSearchSettings(settings: BackendSearchSettings | null | undefined): SearchSettings {
+  // Nothing stored yet - an empty table the admin saved is kept as is
+  if (!Array.isArray(settings?.synonyms)) {
+    return DEFAULT_SEARCH_SETTINGS;
+  }
+
+  return {
+    synonyms: settings.synonyms
+      .map((group): SearchSynonym => ({
+        term: String(group.term || '').trim().toLowerCase(),
+        synonyms: Array.isArray(group.synonyms)
+          ? group.synonyms.map((synonym: unknown) => String(synonym).trim().toLowerCase()).filter(Boolean)
+          : [],
+      }))
+      .filter((group: SearchSynonym) => group.term && group.synonyms.length > 0),
+    updated_at: settings.updated_at || undefined,
+  };
+}
+
+function matchesWord(word: string, term: string): boolean {
+  return word === term || (term.length >= MIN_SYNONYM_PREFIX_LENGTH && word.startsWith(term));
+}
+
+/**
+ * Every word a search term may stand for - the term itself plus its synonym
+ * group when it names the catalog term or one of the synonyms. Partial words
+ * match by prefix, so "modh" already finds honey while the shopper types
+ */
+export function expandSearchTerm(term: string, synonyms: SearchSynonym[]): string[] {
+  const words = new Set([term]);
+
+  synonyms.forEach(group => {
+    if ([group.term, ...group.synonyms].some(word => matchesWord(word, term))) {
+      words.add(group.term);
+      group.synonyms.forEach(synonym => words.add(synonym));
+    }
+  });
+
+  return Array.from(words);
+}
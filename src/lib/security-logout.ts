@@ -4,6 +4,7 @@
  */
 
 import { clearAllAuthCookies } from '@/lib/cookies';
+import { SESSION_REUSE_LOGOUT_REASON } from '@/lib/session-utils';
 
 interface SecurityLogoutOptions {
   reason?: string;
@@ -134,6 +135,18 @@ export async function handleTokenCorruption() {
   });
 }
 
+/**
+ * Handle a refresh token presented again after rotation - the backend has
+ * already revoked every session in its family
+ */
+export async function handleRefreshTokenReuse() {
+  await performSecurityLogout({
+    reason: SESSION_REUSE_LOGOUT_REASON,
+    redirectTo: '/login',
+    clearClientState: true,
+  });
+}
+
 /**
  * Client-side security check for admin routes
  * Use this in components that need immediate security validation
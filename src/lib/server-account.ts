@@ -0,0 +1,137 @@
+/**
+ * Server-Side Account Settings
+ * Preferences, self-service data export and account deletion for the
+ * signed-in customer. Deletion is a soft delete: the backend sets
+ * `deleted_at` and only purges the account after the grace period
+ */
+
+import {
+  AccountSettingsSchema,
+  DEFAULT_ACCOUNT_SETTINGS,
+  type AccountDeletionData,
+  type AccountExport,
+  type AccountSettings,
+} from '@/lib/account-settings-schemas';
+import { API_CONFIG } from '@/lib/api-config';
+import { sanitizeOrder } from '@/lib/order-utils';
+import { fetchAddresses } from '@/lib/server-addresses';
+import {
+  callUserMutation,
+  callUserQuery,
+  fetchProfile,
+  sanitizeProfileUser,
+  type ProfileResult,
+} from '@/lib/server-profile';
+import type { AdminOrder } from '@/types/admin';
+import type { User } from '@/types/auth';
+import type { BackendAccountSettings } from '@/types/backend';
+
+// Orders fetched per page while exporting, and the most pages read
+const EXPORT_ORDERS_PAGE_SIZE = 100;
+const EXPORT_ORDERS_MAX_PAGES = 20;
+
+// Fill in anything the backend has not stored yet with the defaults
+export function sanitizeAccountSettings(settings: BackendAccountSettings | null | undefined): AccountSettings {
+  const merged = {
+    ...DEFAULT_ACCOUNT_SETTINGS,
+    ...settings,
+    notifications: {
+      email: { ...DEFAULT_ACCOUNT_SETTINGS.notifications.email, ...settings?.notifications?.email },
+      sms: { ...DEFAULT_ACCOUNT_SETTINGS.notifications.sms, ...settings?.notifications?.sms },
+    },
+  };
+
+  const parsed = AccountSettingsSchema.safeParse(merged);
+  return parsed.success ? parsed.data : DEFAULT_ACCOUNT_SETTINGS;
+}
+
+export async function fetchAccountSettings(accessToken: string): Promise<ProfileResult<AccountSettings>> {
+  const result = await callUserQuery('settings', accessToken, 'Failed to load your settings');
+  return result.success ? { success: true, data: sanitizeAccountSettings(result.data) } : result;
+}
+
+export async function updateAccountSettings(
+  accessToken: string,
+  settings: AccountSettings
+): Promise<ProfileResult<AccountSettings>> {
+  const result = await callUserMutation('updateSettings', settings, accessToken, 'Failed to save your settings');
+  return result.success ? { success: true, data: sanitizeAccountSettings(result.data) } : result;
+}
+
+export async function requestAccountDeletion(
+  accessToken: string,
+  { current_password, reason }: AccountDeletionData
+): Promise<ProfileResult<{ deleted_at: string }>> {
+  return callUserMutation(
+    'requestDeletion',
+    { current_password, reason: reason || undefined },
+    accessToken,
+    'Failed to delete your account'
+  );
+}
+
+export async function cancelAccountDeletion(accessToken: string): Promise<ProfileResult<User>> {
+  const result = await callUserMutation('cancelDeletion', {}, accessToken, 'Failed to restore your account');
+  return result.success ? { success: true, data: sanitizeProfileUser(result.data) } : result;
+}
+
+async function fetchAllOrders(accessToken: string): Promise<AdminOrder[]> {
+  const orders: AdminOrder[] = [];
+
+  for (let page = 1; page <= EXPORT_ORDERS_MAX_PAGES; page++) {
+    const response = await fetch(
+      `${API_CONFIG.backend.orders}?page=${page}&limit=${EXPORT_ORDERS_PAGE_SIZE}`,
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        cache: 'no-store',
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Backend orders API returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    const pageOrders = Array.isArray(data.data) ? data.data : data.data?.orders;
+    if (!Array.isArray(pageOrders)) break;
+
+    orders.push(...pageOrders.map(sanitizeOrder));
+
+    const pagination = data.pagination || data.data?.pagination;
+    const hasNext = pagination ? Boolean(pagination.hasNext) : pageOrders.length === EXPORT_ORDERS_PAGE_SIZE;
+    if (!hasNext) break;
+  }
+
+  return orders;
+}
+
+/**
+ * Everything the account holds on the server. Bookmarks live with the
+ * browser's storage, so the client adds them to the download
+ */
+export async function buildAccountExport(accessToken: string): Promise<ProfileResult<AccountExport>> {
+  const [profile, settings, addresses, orders] = await Promise.all([
+    fetchProfile(accessToken),
+    fetchAccountSettings(accessToken),
+    fetchAddresses(accessToken),
+    fetchAllOrders(accessToken),
+  ]);
+
+  if (!profile.success) return profile;
+  if (!settings.success) return settings;
+  if (!addresses.success) return addresses;
+
+  return {
+    success: true,
+    data: {
+      exported_at: new Date().toISOString(),
+      profile: profile.data,
+      settings: settings.data,
+      orders,
+      addresses: addresses.data,
+    },
+  };
+}
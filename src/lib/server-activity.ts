@@ -0,0 +1,43 @@
+/**
+ * Server-Side Activity Log
+ * Records admin actions in the backend activity log shown on the dashboard
+ * and the Logs page. Logging is best-effort and never fails the action itself
+ */
+
+import { API_CONFIG } from '@/lib/api-config';
+
+export interface AdminActivityEntry {
+  type: 'order' | 'user' | 'product' | 'system';
+  title: string;
+  description: string;
+  status?: 'success' | 'warning' | 'error' | 'info';
+  actor: {
+    id: string;
+    name: string;
+  };
+  // Identifies what the action was applied to, e.g. { review_id }
+  metadata?: Record<string, string | number | boolean | undefined>;
+}
+
+export async function recordAdminActivity(entry: AdminActivityEntry, accessToken: string): Promise<void> {
+  try {
+    const response = await fetch(`${API_CONFIG.backend.base}/admin/activity`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...entry,
+        status: entry.status || 'info',
+        created_at: new Date().toISOString(),
+      }),
+    });
+
+    if (!response.ok) {
+      console.warn(`Backend activity API returned ${response.status}, activity not recorded`);
+    }
+  } catch (error) {
+    console.warn('Backend activity API unavailable, activity not recorded:', error);
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Server-Side Address Book
+ * Reads and changes the signed-in customer's saved delivery addresses on the
+ * backend. Saving an address that is already in the book returns the existing
+ * entry instead of adding a copy, so repeat checkouts never pile up duplicates
+ */
+
+import type { AddressFormData } from '@/lib/address-schemas';
+import {
+  findDuplicateAddress,
+  sanitizeShippingAddress,
+  sortAddresses,
+  toBackendAddress,
+} from '@/lib/address-utils';
+import { API_CONFIG } from '@/lib/api-config';
+import type { ShippingAddress } from '@/types';
+import type { BackendError, BackendShippingAddress } from '@/types/backend';
+
+export interface AddressFailure {
+  success: false;
+  statusCode: number;
+  error: string;
+  errorCode?: string;
+  fieldErrors?: Record<string, string>;
+}
+
+export type AddressResult<T> = { success: true; data: T } | AddressFailure;
+
+function addressUrl(id?: string, action?: string): string {
+  return [API_CONFIG.backend.addresses, id && encodeURIComponent(id), action].filter(Boolean).join('/');
+}
+
+function toFailure(status: number, error: BackendError, fallback: string): AddressFailure {
+  return {
+    success: false,
+    statusCode: status,
+    error: error?.message || error?.error || fallback,
+    errorCode: error?.errorCode || error?.code,
+  };
+}
+
+// `T` is the shape of the backend's `data` for the call
+async function callAddressApi<T>(
+  accessToken: string,
+  url: string,
+  fallbackError: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<AddressResult<T>> {
+  const response = await fetch(url, {
+    method: init.method || 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    cache: 'no-store',
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || data.success === false) {
+    return toFailure(response.status, data, fallbackError);
+  }
+
+  return { success: true, data: data.data };
+}
+
+export async function fetchAddresses(accessToken: string): Promise<AddressResult<ShippingAddress[]>> {
+  const result = await callAddressApi<BackendShippingAddress[] | { addresses?: BackendShippingAddress[] }>(
+    accessToken,
+    addressUrl(),
+    'Failed to load your addresses'
+  );
+  if (!result.success) return result;
+
+  const rawAddresses = Array.isArray(result.data) ? result.data : result.data?.addresses;
+  return {
+    success: true,
+    data: sortAddresses(Array.isArray(rawAddresses) ? rawAddresses.map(sanitizeShippingAddress) : []),
+  };
+}
+
+/**
+ * Saves an address, or returns the matching saved one (`duplicate: true`).
+ * A duplicate that should become the default is promoted rather than copied
+ */
+export async function createAddress(
+  accessToken: string,
+  data: AddressFormData
+): Promise<AddressResult<{ address: ShippingAddress; duplicate: boolean }>> {
+  const existing = await fetchAddresses(accessToken);
+  if (!existing.success) return existing;
+
+  const duplicate = findDuplicateAddress(existing.data, data);
+
+  if (duplicate) {
+    if (data.isDefault && !duplicate.isDefault) {
+      const promoted = await setDefaultAddress(accessToken, duplicate.id);
+      if (!promoted.success) return promoted;
+      return { success: true, data: { address: promoted.data, duplicate: true } };
+    }
+
+    return { success: true, data: { address: duplicate, duplicate: true } };
+  }
+
+  const result = await callAddressApi<BackendShippingAddress>(accessToken, addressUrl(), 'Failed to save the address', {
+    method: 'POST',
+    // The first address in the book is always the default
+    body: toBackendAddress({ ...data, isDefault: data.isDefault || existing.data.length === 0 }),
+  });
+
+  return result.success
+    ? { success: true, data: { address: sanitizeShippingAddress(result.data), duplicate: false } }
+    : result;
+}
+
+export async function updateAddress(
+  accessToken: string,
+  id: string,
+  data: AddressFormData
+): Promise<AddressResult<ShippingAddress>> {
+  const existing = await fetchAddresses(accessToken);
+  if (!existing.success) return existing;
+
+  if (!existing.data.some(address => address.id === id)) {
+    return { success: false, statusCode: 404, error: 'Address not found', errorCode: 'ADDRESS_NOT_FOUND' };
+  }
+
+  if (findDuplicateAddress(existing.data, data, id)) {
+    return {
+      success: false,
+      statusCode: 409,
+      error: 'This address is already in your address book',
+      errorCode: 'DUPLICATE_ADDRESS',
+      fieldErrors: { address: 'This address is already in your address book' },
+    };
+  }
+
+  const result = await callAddressApi<BackendShippingAddress>(accessToken, addressUrl(id), 'Failed to update the address', {
+    method: 'PUT',
+    body: toBackendAddress(data),
+  });
+
+  return result.success ? { success: true, data: sanitizeShippingAddress(result.data) } : result;
+}
+
+export async function deleteAddress(accessToken: string, id: string): Promise<AddressResult<null>> {
+  const result = await callAddressApi<null>(accessToken, addressUrl(id), 'Failed to delete the address', {
+    method: 'DELETE',
+  });
+
+  return result.success ? { success: true, data: null } : result;
+}
+
+export async function setDefaultAddress(
+  accessToken: string,
+  id: string
+): Promise<AddressResult<ShippingAddress>> {
+  const result = await callAddressApi<BackendShippingAddress>(
+    accessToken,
+    addressUrl(id, 'default'),
+    'Failed to update the default address',
+    { method: 'PUT' }
+  );
+
+  return result.success ? { success: true, data: sanitizeShippingAddress(result.data) } : result;
+}
@@ -7,9 +7,10 @@
 'use server';
 
 import { redirect } from 'next/navigation';
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
 import { API_CONFIG } from './api-config';
 import { getUserFriendlyMessage } from './error-messages';
+import { getClientContextHeaders } from './session-utils';
 
 export interface LoginCredentials {
   email: string;
@@ -97,7 +98,10 @@ export async function serverLoginAction(credentials: LoginCredentials): Promise<
 
     const response = await fetch(API_CONFIG.backend.auth.login, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: {
+        'Content-Type': 'application/json',
+        ...getClientContextHeaders(await headers()),
+      },
       body: JSON.stringify({ email, password }),
 
     });
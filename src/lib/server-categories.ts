@@ -0,0 +1,294 @@
+/**
+ * Server-Side Categories
+ * Loads the category tree from the backend for admin pages and the
+ * storefront, checks slugs and parents before a category is saved, rewrites
+ * sibling order after drag and drop, and deletes categories only once their
+ * products have somewhere else to go
+ */
+
+import { API_CONFIG } from '@/lib/api-config';
+import type { CategoryFormData } from '@/lib/category-schemas';
+import { sanitizeAdminCategory, sanitizeCategory, sortCategoryTree } from '@/lib/category-utils';
+import { mockCategories } from '@/lib/mock-data';
+import { recordAdminActivity } from '@/lib/server-activity';
+import type { Category } from '@/types';
+import type { AdminCategory } from '@/types/admin';
+import type { BackendCategory } from '@/types/backend';
+
+export type CategoryCheckResult =
+  | { success: true }
+  | { success: false; statusCode: number; error: string; errorCode: string; field?: 'slug' | 'parent_id' };
+
+export interface CategoryReorderRequest {
+  parentId: string | null;
+  categoryIds: string[];
+  categories: AdminCategory[];
+  accessToken: string;
+}
+
+export interface CategoryDeleteRequest {
+  category: AdminCategory;
+  // Where the category's products move before it is deleted
+  reassignTo?: string;
+  categories: AdminCategory[];
+  actor: { id: string; name: string };
+  accessToken: string;
+}
+
+export type CategoryDeleteResult =
+  | { success: true; reassigned: number }
+  | { success: false; statusCode: number; error: string; errorCode?: string };
+
+function categoryHeaders(accessToken: string) {
+  return {
+    'Authorization': `Bearer ${accessToken}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+// Every category, active or not, in tree order
+export async function fetchAdminCategories(accessToken: string): Promise<AdminCategory[]> {
+  const response = await fetch(`${API_CONFIG.backend.base}/admin/categories/all`, {
+    headers: categoryHeaders(accessToken),
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new Error(`Backend categories API returned ${response.status}`);
+  }
+
+  const data = await response.json();
+  const categories = Array.isArray(data.data) ? data.data : data.data?.categories;
+
+  return sortCategoryTree(Array.isArray(categories) ? categories.map(sanitizeAdminCategory) : []);
+}
+
+// Active categories for the storefront grid and product filters, in tree order
+export async function fetchStorefrontCategories(): Promise<Category[]> {
+  try {
+    const response = await fetch(`${API_CONFIG.backend.base}/categories`, {
+      headers: { 'Content-Type': 'application/json' },
+      cache: 'no-store',
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      const categories = Array.isArray(data.data) ? data.data : data.data?.categories || data.categories;
+
+      if (Array.isArray(categories)) {
+        return sortCategoryTree(
+          categories
+            .filter((category: BackendCategory) => category.is_active !== false)
+            .map(sanitizeCategory)
+        );
+      }
+    }
+
+    console.warn(`Backend categories API returned ${response.status}, using fallback categories`);
+  } catch (backendError) {
+    console.warn('Backend categories API unavailable, using fallback categories:', backendError);
+  }
+
+  return mockCategories;
+}
+
+/**
+ * Slugs are unique across the whole tree, and the tree is two levels deep:
+ * a parent must be a top-level category, and a category that has
+ * sub-categories cannot itself become one
+ */
+export function checkCategoryPlacement(
+  category: Pick<CategoryFormData, 'slug' | 'parent_id'>,
+  categories: AdminCategory[],
+  categoryId?: string
+): CategoryCheckResult {
+  const slugOwner = categories.find(candidate => candidate.slug === category.slug && candidate.id !== categoryId);
+
+  if (slugOwner) {
+    return {
+      success: false,
+      statusCode: 409,
+      error: `The slug "${category.slug}" is already used by ${slugOwner.name}`,
+      errorCode: 'SLUG_TAKEN',
+      field: 'slug',
+    };
+  }
+
+  if (!category.parent_id) {
+    return { success: true };
+  }
+
+  const parent = categories.find(candidate => candidate.id === category.parent_id);
+
+  if (!parent || parent.id === categoryId) {
+    return {
+      success: false,
+      statusCode: 400,
+      error: 'Choose an existing category as the parent',
+      errorCode: 'VALIDATION_ERROR',
+      field: 'parent_id',
+    };
+  }
+
+  if (parent.parent_id) {
+    return {
+      success: false,
+      statusCode: 400,
+      error: `${parent.name} is already a sub-category and cannot have its own`,
+      errorCode: 'VALIDATION_ERROR',
+      field: 'parent_id',
+    };
+  }
+
+  if (categoryId && categories.some(candidate => candidate.parent_id === categoryId)) {
+    return {
+      success: false,
+      statusCode: 400,
+      error: 'Move this category\'s sub-categories elsewhere before giving it a parent',
+      errorCode: 'VALIDATION_ERROR',
+      field: 'parent_id',
+    };
+  }
+
+  return { success: true };
+}
+
+// Rewrite sort_order for one group of siblings in the dragged order
+export async function reorderCategories({
+  parentId,
+  categoryIds,
+  categories,
+  accessToken,
+}: CategoryReorderRequest): Promise<CategoryCheckResult> {
+  const siblings = categories.filter(category => (category.parent_id || null) === parentId);
+  const siblingIds = new Set(siblings.map(category => category.id));
+
+  if (categoryIds.length !== siblings.length || categoryIds.some(id => !siblingIds.has(id))) {
+    return {
+      success: false,
+      statusCode: 409,
+      error: 'Categories changed while you were sorting. Refresh and try again.',
+      errorCode: 'STALE_ORDER',
+    };
+  }
+
+  const response = await fetch(`${API_CONFIG.backend.base}/admin/categories/reorder`, {
+    method: 'PUT',
+    headers: categoryHeaders(accessToken),
+    body: JSON.stringify({
+      items: categoryIds.map((id, index) => ({ id, sort_order: index })),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    return {
+      success: false,
+      statusCode: response.status,
+      error: errorData.message || errorData.error || 'Failed to save category order',
+      errorCode: errorData.errorCode || 'BACKEND_ERROR',
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Deletes a category. One with sub-categories is refused; one with products
+ * needs `reassignTo`, and its products are moved there first
+ */
+export async function deleteCategory({
+  category,
+  reassignTo,
+  categories,
+  actor,
+  accessToken,
+}: CategoryDeleteRequest): Promise<CategoryDeleteResult> {
+  const children = categories.filter(candidate => candidate.parent_id === category.id);
+
+  if (children.length > 0) {
+    return {
+      success: false,
+      statusCode: 409,
+      error: `Move or delete its ${children.length} sub-categor${children.length === 1 ? 'y' : 'ies'} first`,
+      errorCode: 'CATEGORY_HAS_CHILDREN',
+    };
+  }
+
+  const productCount = category.product_count || 0;
+  const target = reassignTo ? categories.find(candidate => candidate.id === reassignTo) : undefined;
+
+  if (productCount > 0 && !target) {
+    return {
+      success: false,
+      statusCode: 409,
+      error: reassignTo
+        ? 'Choose an existing category to move the products to'
+        : `${category.name} still has ${productCount} product${productCount === 1 ? '' : 's'}. Move them to another category first.`,
+      errorCode: 'CATEGORY_HAS_PRODUCTS',
+    };
+  }
+
+  if (target?.id === category.id) {
+    return {
+      success: false,
+      statusCode: 400,
+      error: 'Products must move to a different category',
+      errorCode: 'VALIDATION_ERROR',
+    };
+  }
+
+  if (productCount > 0 && target) {
+    const response = await fetch(
+      `${API_CONFIG.backend.base}/admin/categories/${encodeURIComponent(category.id)}/reassign-products`,
+      {
+        method: 'POST',
+        headers: categoryHeaders(accessToken),
+        body: JSON.stringify({ target_category_id: target.id }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return {
+        success: false,
+        statusCode: response.status,
+        error: errorData.message || errorData.error || 'Failed to move the category\'s products',
+        errorCode: errorData.errorCode,
+      };
+    }
+  }
+
+  const response = await fetch(`${API_CONFIG.backend.base}/admin/categories/${encodeURIComponent(category.id)}`, {
+    method: 'DELETE',
+    headers: categoryHeaders(accessToken),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    return {
+      success: false,
+      statusCode: response.status,
+      error: response.status === 404
+        ? 'Category not found'
+        : errorData.message || errorData.error || 'Failed to delete category',
+      errorCode: errorData.errorCode,
+    };
+  }
+
+  await recordAdminActivity(
+    {
+      type: 'product',
+      title: `Category deleted: ${category.name}`,
+      description: target && productCount > 0
+        ? `${productCount} product${productCount === 1 ? '' : 's'} moved to ${target.name}`
+        : 'Category had no products',
+      status: 'info',
+      actor,
+      metadata: { category_id: category.id, reassigned_to: target?.id, reassigned: productCount },
+    },
+    accessToken
+  );
+
+  return { success: true, reassigned: target ? productCount : 0 };
+}
@@ -0,0 +1,130 @@
+/**
+ * Server-Side Coupon Validation
+ * Loads coupons and catalog prices from the backend so checkout discounts are
+ * never computed from client-supplied prices
+ */
+
+import { API_CONFIG } from '@/lib/api-config';
+import type { ValidateCouponInput } from '@/lib/coupon-schemas';
+import { evaluateCoupon, normalizeCouponCode, sanitizeCoupon, type CouponCartLine } from '@/lib/coupon-utils';
+import type { CouponQuote } from '@/types/admin';
+import type { BackendProductVariant } from '@/types/backend';
+
+export interface CouponQuoteRequest {
+  code: string;
+  items: ValidateCouponInput['items'];
+  accessToken: string;
+  // Lines already priced with `resolveCatalogCartLines`, to skip pricing them again
+  lines?: CouponCartLine[];
+}
+
+export type CouponQuoteResult =
+  | { success: true; quote: CouponQuote }
+  | { success: false; statusCode: number; error: string; errorCode: string };
+
+function customerHeaders(accessToken: string) {
+  return {
+    'Authorization': `Bearer ${accessToken}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+// Price and categorise cart lines from the catalog - null when any item is no longer sold
+export async function resolveCatalogCartLines(
+  items: ValidateCouponInput['items'],
+  accessToken: string
+): Promise<CouponCartLine[] | null> {
+  const lines = await Promise.all(
+    items.map(async item => {
+      const response = await fetch(`${API_CONFIG.backend.products}/${encodeURIComponent(item.product_id)}`, {
+        headers: customerHeaders(accessToken),
+        cache: 'no-store',
+      });
+
+      if (!response.ok) {
+        return null;
+      }
+
+      const data = await response.json();
+      const product = data.data || {};
+      const variant = item.variant_id && Array.isArray(product.variants)
+        ? product.variants.find((candidate: BackendProductVariant) => String(candidate.id) === item.variant_id)
+        : undefined;
+
+      if (item.variant_id && !variant) {
+        return null;
+      }
+
+      return {
+        product_id: item.product_id,
+        quantity: item.quantity,
+        unit_price: Number((variant || product).price) || 0,
+        categories: [product.category_id, product.category?.id, product.category?.slug, product.category]
+          .filter(value => typeof value === 'string' && value.length > 0),
+      };
+    })
+  );
+
+  return lines.every(line => line !== null) ? (lines as CouponCartLine[]) : null;
+}
+
+export async function quoteCouponForCart({
+  code,
+  items,
+  accessToken,
+  lines: pricedLines,
+}: CouponQuoteRequest): Promise<CouponQuoteResult> {
+  const couponCode = normalizeCouponCode(code);
+
+  // The backend includes how often the signed-in customer has redeemed this coupon
+  const couponResponse = await fetch(`${API_CONFIG.backend.base}/coupons/${encodeURIComponent(couponCode)}`, {
+    headers: customerHeaders(accessToken),
+    cache: 'no-store',
+  });
+
+  if (couponResponse.status === 404) {
+    return {
+      success: false,
+      statusCode: 404,
+      error: "We couldn't find that coupon code",
+      errorCode: 'COUPON_NOT_FOUND',
+    };
+  }
+
+  if (!couponResponse.ok) {
+    return {
+      success: false,
+      statusCode: couponResponse.status,
+      error: 'Failed to check coupon',
+      errorCode: 'COUPON_CHECK_FAILED',
+    };
+  }
+
+  const couponData = await couponResponse.json();
+  const lines = pricedLines || (await resolveCatalogCartLines(items, accessToken));
+
+  if (!lines) {
+    return {
+      success: false,
+      statusCode: 409,
+      error: 'Some items in your cart are no longer available',
+      errorCode: 'CART_ITEM_UNAVAILABLE',
+    };
+  }
+
+  const evaluation = evaluateCoupon(sanitizeCoupon(couponData.data), {
+    lines,
+    customerUsageCount: Number(couponData.data?.customer_usage_count) || 0,
+  });
+
+  if (!evaluation.valid) {
+    return {
+      success: false,
+      statusCode: 422,
+      error: evaluation.error,
+      errorCode: evaluation.errorCode,
+    };
+  }
+
+  return { success: true, quote: evaluation.quote };
+}
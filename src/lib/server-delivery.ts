@@ -0,0 +1,30 @@
+/**
+ * Server-Side Delivery Settings
+ * Loads the saved delivery zones for shipping quotes and the settings editor
+ */
+
+import { API_CONFIG } from '@/lib/api-config';
+import { sanitizeDeliverySettings } from '@/lib/shipping-utils';
+import type { DeliverySettings } from '@/types/admin';
+
+// Load the saved zones, or null when the backend can't be reached - default
+// zones would quote the wrong fees
+export async function fetchDeliverySettings(): Promise<DeliverySettings | null> {
+  try {
+    const response = await fetch(`${API_CONFIG.backend.base}/settings/delivery`, {
+      headers: { 'Content-Type': 'application/json' },
+      cache: 'no-store',
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      return sanitizeDeliverySettings(data.data);
+    }
+
+    console.warn(`Backend delivery settings API returned ${response.status}`);
+  } catch (backendError) {
+    console.warn('Backend delivery settings API unavailable:', backendError);
+  }
+
+  return null;
+}
@@ -0,0 +1,284 @@
+/**
+ * Server-Side Inventory Ledger
+ * Records stock movements on the backend and holds stock for orders: a
+ * reservation is taken when an order is placed, committed as a sale when it
+ * ships and released when it is cancelled. A movement that brings stock back
+ * above zero notifies customers waiting on a restock
+ */
+
+import { API_CONFIG } from '@/lib/api-config';
+import type { CreateOrderInput } from '@/lib/order-schemas';
+import type { InventoryMovementInput } from '@/lib/inventory-schemas';
+import {
+  getMovementDelta,
+  INVENTORY_MOVEMENT_LABELS,
+  isLowStock,
+  sanitizeInventoryMovement,
+} from '@/lib/inventory-utils';
+import { recordAdminActivity } from '@/lib/server-activity';
+import { notifyRestockSubscribers } from '@/lib/server-restock-notifications';
+import type { AdminProduct, InventoryMovement } from '@/types/admin';
+import type { BackendError, BackendProduct } from '@/types/backend';
+
+export interface InventoryMovementRequest {
+  productId: string;
+  movement: InventoryMovementInput;
+  actor: { id: string; name: string };
+  accessToken: string;
+}
+
+export type InventoryMovementResult =
+  | { success: true; movement: InventoryMovement; product?: Pick<AdminProduct, 'stock_quantity' | 'reserved_quantity'> }
+  | { success: false; statusCode: number; error: string; errorCode?: string };
+
+export type InventoryMovementsFetchResult =
+  | {
+      success: true;
+      movements: InventoryMovement[];
+      pagination: { page: number; limit: number; total: number; totalPages: number };
+    }
+  | { success: false; statusCode: number; error: string };
+
+export type LowStockProduct = Pick<
+  AdminProduct,
+  'id' | 'name' | 'stock_quantity' | 'reserved_quantity' | 'low_stock_threshold' | 'updated_at'
+>;
+
+export type StockReservationResult =
+  | { success: true; reservationId: string }
+  // `errorData` carries the backend's stock conflicts for the checkout form
+  | { success: false; statusCode: number; error: string; errorCode?: string; errorData?: BackendError };
+
+function inventoryHeaders(accessToken: string) {
+  return {
+    'Authorization': `Bearer ${accessToken}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+// Movement history for a product, newest first
+export async function fetchInventoryMovements(
+  productId: string,
+  accessToken: string,
+  { page = 1, limit = 20 }: { page?: number; limit?: number } = {}
+): Promise<InventoryMovementsFetchResult> {
+  const query = new URLSearchParams({ page: String(page), limit: String(limit) });
+  const response = await fetch(
+    `${API_CONFIG.backend.base}/admin/products/${encodeURIComponent(productId)}/inventory/movements?${query}`,
+    {
+      headers: inventoryHeaders(accessToken),
+      cache: 'no-store',
+    }
+  );
+
+  if (!response.ok) {
+    return {
+      success: false,
+      statusCode: response.status,
+      error: response.status === 404 ? 'Product not found' : 'Failed to load stock history',
+    };
+  }
+
+  const data = await response.json();
+  const movements = Array.isArray(data.data) ? data.data.map(sanitizeInventoryMovement) : [];
+
+  return {
+    success: true,
+    movements,
+    pagination: {
+      page: Number(data.pagination?.page) || page,
+      limit: Number(data.pagination?.limit) || limit,
+      total: Number(data.pagination?.total) || movements.length,
+      totalPages: Number(data.pagination?.totalPages) || 1,
+    },
+  };
+}
+
+// Record a receipt, return, adjustment or damage and log it, with a warning once stock runs low
+export async function recordInventoryMovement({
+  productId,
+  movement,
+  actor,
+  accessToken,
+}: InventoryMovementRequest): Promise<InventoryMovementResult> {
+  const response = await fetch(
+    `${API_CONFIG.backend.base}/admin/products/${encodeURIComponent(productId)}/inventory/movements`,
+    {
+      method: 'POST',
+      headers: inventoryHeaders(accessToken),
+      body: JSON.stringify({
+        type: movement.type,
+        variant_id: movement.variant_id,
+        quantity: getMovementDelta(movement),
+        reason: movement.reason,
+        actor,
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    return {
+      success: false,
+      statusCode: response.status,
+      error: errorData.message || errorData.error ||
+        (response.status === 409 ? 'Stock cannot go below zero' : 'Failed to record stock movement'),
+      errorCode: errorData.errorCode || (response.status === 409 ? 'INSUFFICIENT_STOCK' : undefined),
+    };
+  }
+
+  const data = await response.json();
+  const recorded = sanitizeInventoryMovement(data.data?.movement || data.data);
+  const product = data.data?.product;
+  const lowStock = product?.stock_quantity !== undefined && isLowStock({
+    stock_quantity: Number(product.stock_quantity) || 0,
+    reserved_quantity: Number(product.reserved_quantity) || 0,
+    low_stock_threshold: product.low_stock_threshold ? Number(product.low_stock_threshold) : undefined,
+  });
+
+  await recordAdminActivity(
+    {
+      type: 'product',
+      title: `${INVENTORY_MOVEMENT_LABELS[recorded.type]}: ${product?.name || 'product'}`,
+      description: `${recorded.quantity > 0 ? '+' : ''}${recorded.quantity} units${
+        recorded.reason ? ` - ${recorded.reason}` : ''
+      }`,
+      status: lowStock ? 'warning' : 'success',
+      actor,
+      metadata: { product_id: productId, movement_id: recorded.id, type: recorded.type },
+    },
+    accessToken
+  );
+
+  // Variant movements report the variant's own stock
+  const stockAfter = recorded.stock_after ?? (product ? Number(product.stock_quantity) || 0 : undefined);
+  if (stockAfter !== undefined && stockAfter > 0 && stockAfter - recorded.quantity <= 0) {
+    await notifyRestockSubscribers({
+      productId,
+      productName: product?.name,
+      variantId: recorded.variant_id,
+      actor,
+      accessToken,
+    });
+  }
+
+  return {
+    success: true,
+    movement: recorded,
+    product: product
+      ? {
+          stock_quantity: Number(product.stock_quantity) || 0,
+          reserved_quantity: Number(product.reserved_quantity) || 0,
+        }
+      : undefined,
+  };
+}
+
+// Hold stock for an order about to be placed - fails with stock conflicts when it runs short
+export async function reserveOrderStock(
+  items: CreateOrderInput['items'],
+  accessToken: string
+): Promise<StockReservationResult> {
+  const response = await fetch(`${API_CONFIG.backend.base}/inventory/reservations`, {
+    method: 'POST',
+    headers: inventoryHeaders(accessToken),
+    body: JSON.stringify({
+      items: items.map(item => ({
+        product_id: item.product_id,
+        variant_id: item.variant_id,
+        quantity: item.quantity,
+      })),
+    }),
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    return {
+      success: false,
+      statusCode: response.status,
+      error: errorData.message || errorData.error || 'Failed to reserve stock',
+      errorCode: errorData.errorCode || (response.status === 409 ? 'STOCK_CONFLICT' : undefined),
+      errorData,
+    };
+  }
+
+  const data = await response.json();
+  return { success: true, reservationId: String(data.data?.id || data.data?.reservation_id || '') };
+}
+
+async function settleReservation(
+  reservationId: string,
+  action: 'release' | 'commit',
+  accessToken: string,
+  details: { order_id?: string; reason?: string }
+): Promise<boolean> {
+  try {
+    const response = await fetch(
+      `${API_CONFIG.backend.base}/inventory/reservations/${encodeURIComponent(reservationId)}/${action}`,
+      {
+        method: 'POST',
+        headers: inventoryHeaders(accessToken),
+        body: JSON.stringify(details),
+      }
+    );
+
+    if (!response.ok) {
+      console.warn(`Backend inventory API returned ${response.status}, reservation ${reservationId} not ${action}d`);
+    }
+    return response.ok;
+  } catch (error) {
+    console.warn(`Backend inventory API unavailable, reservation ${reservationId} not ${action}d:`, error);
+    return false;
+  }
+}
+
+// Return held stock, e.g. when the order is cancelled or could not be placed
+export function releaseStockReservation(
+  reservationId: string,
+  accessToken: string,
+  details: { order_id?: string; reason?: string } = {}
+): Promise<boolean> {
+  return settleReservation(reservationId, 'release', accessToken, details);
+}
+
+// Turn held stock into a sale once the order ships
+export function commitStockReservation(
+  reservationId: string,
+  accessToken: string,
+  details: { order_id?: string } = {}
+): Promise<boolean> {
+  return settleReservation(reservationId, 'commit', accessToken, details);
+}
+
+// Products at or below their low-stock threshold, lowest available stock first
+export async function fetchLowStockProducts(accessToken: string, limit: number = 5): Promise<LowStockProduct[]> {
+  const query = new URLSearchParams({
+    low_stock: 'true',
+    limit: String(limit),
+    sortBy: 'stock_quantity',
+    sortOrder: 'asc',
+  });
+  const response = await fetch(`${API_CONFIG.backend.base}/admin/products?${query}`, {
+    headers: inventoryHeaders(accessToken),
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    return [];
+  }
+
+  const data = await response.json();
+  const products = Array.isArray(data.data?.products) ? data.data.products : [];
+
+  return products
+    .map((product: BackendProduct): LowStockProduct => ({
+      id: String(product.id || ''),
+      name: String(product.name || ''),
+      stock_quantity: Number(product.stock_quantity) || 0,
+      reserved_quantity: Number(product.reserved_quantity) || 0,
+      low_stock_threshold: product.low_stock_threshold ? Number(product.low_stock_threshold) : undefined,
+      updated_at: String(product.updated_at || new Date().toISOString()),
+    }))
+    .filter(isLowStock);
+}
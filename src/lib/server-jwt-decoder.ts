@@ -3,6 +3,7 @@
  * Optimized for fast role extraction without database calls
  */
 
+import { jwtVerify } from 'jose';
 import { NextRequest } from 'next/server';
 
 export interface JWTPayload {
@@ -102,6 +103,33 @@ export function extractUserRoleFromRequest(request: NextRequest): {
   };
 }
 
+/**
+ * Extract user role from access token in request after verifying its signature
+ * For decisions a forged cookie must not be able to unlock - returns no role
+ * when the token is missing, expired, invalid or the secret is not configured
+ */
+export async function verifyUserRoleFromRequest(
+  request: NextRequest
+): Promise<'USER' | 'SELLER' | 'ADMIN' | null> {
+  const accessToken = request.cookies.get('accessToken')?.value;
+  const accessSecret = process.env.JWT_ACCESS_SECRET;
+
+  if (!accessToken || !accessSecret) {
+    return null;
+  }
+
+  try {
+    const { payload } = await jwtVerify(accessToken, new TextEncoder().encode(accessSecret), {
+      algorithms: ['HS256'],
+    });
+    const role = payload.role;
+
+    return role === 'USER' || role === 'SELLER' || role === 'ADMIN' ? role : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Validate access token and extract role information
  * Optimized for middleware use
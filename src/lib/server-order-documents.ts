@@ -0,0 +1,431 @@
+/**
+ * Server-Side Order Documents
+ * Renders branded invoice and packing slip PDFs for one or more orders
+ * Hind Siliguri is embedded so the ৳ sign and Bengali product names print correctly
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import { NextRequest, NextResponse } from 'next/server';
+import { normalizeStatus } from '@/lib/admin-utils';
+import { COMPANY_INFO, PAYMENT_METHODS } from '@/lib/constants';
+import { BULK_ORDER_ACTION_LIMIT } from '@/lib/order-schemas';
+import { getOrderStatusLabel } from '@/lib/order-status';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import { fetchAdminOrder } from '@/lib/server-order-status';
+import type { AdminOrder } from '@/types/admin';
+
+export type OrderDocumentType = 'invoice' | 'packing-slip';
+
+export const ORDER_DOCUMENT_TYPES: readonly OrderDocumentType[] = ['invoice', 'packing-slip'];
+
+const FONT_DIR = path.join(process.cwd(), 'node_modules/@fontsource/hind-siliguri/files');
+
+// The font package ships Latin and Bengali glyphs as separate files
+const FONT_FILES = {
+  latin: 'hind-siliguri-latin-400-normal.woff',
+  'latin-bold': 'hind-siliguri-latin-600-normal.woff',
+  bengali: 'hind-siliguri-bengali-400-normal.woff',
+  'bengali-bold': 'hind-siliguri-bengali-600-normal.woff',
+} as const;
+
+type FontName = keyof typeof FONT_FILES;
+
+const PAGE_MARGIN = 50;
+const PAGE_BOTTOM = 780;
+const BRAND_COLOR = '#166534';
+const MUTED_COLOR = '#6b7280';
+const TEXT_COLOR = '#111827';
+const BENGALI_PATTERN = /([\u0980-\u09FF]+)/;
+
+let fontCache: Promise<Record<FontName, Buffer>> | null = null;
+
+function loadFonts(): Promise<Record<FontName, Buffer>> {
+  if (!fontCache) {
+    fontCache = Promise.all(
+      (Object.keys(FONT_FILES) as FontName[]).map(
+        async name => [name, await readFile(path.join(FONT_DIR, FONT_FILES[name]))] as const
+      )
+    ).then(entries => Object.fromEntries(entries) as Record<FontName, Buffer>);
+
+    // Allow a retry after a failed read instead of caching the rejection
+    fontCache.catch(() => {
+      fontCache = null;
+    });
+  }
+  return fontCache;
+}
+
+// Same ৳ formatting as the storefront Price component
+export function formatTaka(amount: number): string {
+  return `৳${amount.toLocaleString()}`;
+}
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  width?: number;
+  align?: 'left' | 'right';
+}
+
+// Split text into Latin and Bengali runs so each run uses a font that has its glyphs
+function toRuns(text: string): Array<{ text: string; bengali: boolean }> {
+  return text
+    .split(BENGALI_PATTERN)
+    .filter(Boolean)
+    .map(part => ({ text: part, bengali: BENGALI_PATTERN.test(part) }));
+}
+
+function runFont(bengali: boolean, bold: boolean): FontName {
+  return `${bengali ? 'bengali' : 'latin'}${bold ? '-bold' : ''}` as FontName;
+}
+
+function measureText(doc: PDFKit.PDFDocument, text: string, size: number, bold: boolean): number {
+  return toRuns(text).reduce(
+    (width, run) => width + doc.font(runFont(run.bengali, bold)).fontSize(size).widthOfString(run.text),
+    0
+  );
+}
+
+// Shorten text with an ellipsis until it fits the given width
+function fitText(doc: PDFKit.PDFDocument, text: string, width: number, size: number, bold: boolean): string {
+  if (measureText(doc, text, size, bold) <= width) return text;
+
+  let fitted = text;
+  while (fitted.length > 1 && measureText(doc, `${fitted}…`, size, bold) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}…`;
+}
+
+function drawText(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  x: number,
+  y: number,
+  { size = 10, bold = false, color = TEXT_COLOR, width, align = 'left' }: TextOptions = {}
+) {
+  const content = width ? fitText(doc, text, width, size, bold) : text;
+  let cursor = align === 'right' && width ? x + width - measureText(doc, content, size, bold) : x;
+
+  toRuns(content).forEach(run => {
+    const font = runFont(run.bengali, bold);
+    doc.font(font).fontSize(size).fillColor(color).text(run.text, cursor, y, { lineBreak: false });
+    cursor += doc.widthOfString(run.text);
+  });
+}
+
+function drawRule(doc: PDFKit.PDFDocument, y: number, color = '#e5e7eb') {
+  doc
+    .moveTo(PAGE_MARGIN, y)
+    .lineTo(doc.page.width - PAGE_MARGIN, y)
+    .lineWidth(1)
+    .strokeColor(color)
+    .stroke();
+}
+
+function formatDocumentDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function drawHeader(doc: PDFKit.PDFDocument, order: AdminOrder, type: OrderDocumentType): number {
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  const title = type === 'invoice' ? 'INVOICE' : 'PACKING SLIP';
+
+  drawText(doc, COMPANY_INFO.name, PAGE_MARGIN, PAGE_MARGIN, { size: 22, bold: true, color: BRAND_COLOR });
+  drawText(doc, COMPANY_INFO.tagline, PAGE_MARGIN, PAGE_MARGIN + 28, { size: 9, color: MUTED_COLOR });
+  drawText(
+    doc,
+    `${COMPANY_INFO.address}  ·  ${COMPANY_INFO.phone}  ·  ${COMPANY_INFO.email}`,
+    PAGE_MARGIN,
+    PAGE_MARGIN + 42,
+    { size: 9, color: MUTED_COLOR }
+  );
+
+  drawText(doc, title, PAGE_MARGIN, PAGE_MARGIN, { size: 18, bold: true, width: contentWidth, align: 'right' });
+  drawText(doc, `Order ${order.order_number}`, PAGE_MARGIN, PAGE_MARGIN + 26, {
+    size: 10,
+    width: contentWidth,
+    align: 'right',
+  });
+  drawText(doc, `Date: ${formatDocumentDate(order.created_at)}`, PAGE_MARGIN, PAGE_MARGIN + 40, {
+    size: 10,
+    color: MUTED_COLOR,
+    width: contentWidth,
+    align: 'right',
+  });
+
+  drawRule(doc, PAGE_MARGIN + 62, BRAND_COLOR);
+  return PAGE_MARGIN + 76;
+}
+
+function drawAddresses(doc: PDFKit.PDFDocument, order: AdminOrder, type: OrderDocumentType, top: number): number {
+  const address = order.shipping_address;
+  const columnWidth = (doc.page.width - PAGE_MARGIN * 2) / 2;
+  const addressLines = [
+    address.name,
+    address.address_line_1,
+    address.address_line_2,
+    [address.city, address.postal_code].filter(Boolean).join(' '),
+    address.country,
+    address.phone,
+  ].filter((line): line is string => !!line);
+
+  drawText(doc, 'SHIP TO', PAGE_MARGIN, top, { size: 9, bold: true, color: MUTED_COLOR });
+  addressLines.forEach((line, index) => {
+    drawText(doc, line, PAGE_MARGIN, top + 14 + index * 13, {
+      size: 10,
+      bold: index === 0,
+      width: columnWidth - 10,
+    });
+  });
+
+  const detailX = PAGE_MARGIN + columnWidth;
+  const paymentMethod =
+    PAYMENT_METHODS.find(method => method.id === order.payment_method)?.name || order.payment_method;
+  const details =
+    type === 'invoice'
+      ? [
+          ['Payment', paymentMethod],
+          ['Payment status', normalizeStatus(order.payment_status)],
+          ['Order status', getOrderStatusLabel(order.status)],
+        ]
+      : [
+          ['Items', String(order.items.reduce((count, item) => count + item.quantity, 0))],
+          ['Tracking', order.tracking_number || '—'],
+          ['Payment', paymentMethod],
+        ];
+
+  drawText(doc, 'DETAILS', detailX, top, { size: 9, bold: true, color: MUTED_COLOR });
+  details.forEach(([label, value], index) => {
+    drawText(doc, label, detailX, top + 14 + index * 13, { size: 10, color: MUTED_COLOR });
+    drawText(doc, value, detailX + 90, top + 14 + index * 13, { size: 10, width: columnWidth - 90 });
+  });
+
+  return top + 14 + Math.max(addressLines.length, details.length) * 13 + 20;
+}
+
+function drawItems(doc: PDFKit.PDFDocument, order: AdminOrder, type: OrderDocumentType, top: number): number {
+  const right = doc.page.width - PAGE_MARGIN;
+  const columns =
+    type === 'invoice'
+      ? { item: PAGE_MARGIN, qty: right - 220, unit: right - 160, total: right - 80 }
+      : { item: PAGE_MARGIN, qty: right - 110, unit: 0, total: right - 40 };
+  const itemWidth = columns.qty - columns.item - 10;
+
+  const drawTableHeader = (y: number) => {
+    doc.rect(PAGE_MARGIN, y - 4, right - PAGE_MARGIN, 20).fill('#f3f4f6');
+    drawText(doc, 'Item', columns.item + 6, y, { size: 9, bold: true });
+    drawText(doc, 'Qty', columns.qty, y, { size: 9, bold: true, width: 40, align: 'right' });
+    if (type === 'invoice') {
+      drawText(doc, 'Unit Price', columns.unit, y, { size: 9, bold: true, width: 70, align: 'right' });
+      drawText(doc, 'Total', columns.total, y, { size: 9, bold: true, width: 74, align: 'right' });
+    } else {
+      drawText(doc, 'Packed', columns.total - 10, y, { size: 9, bold: true, width: 46, align: 'right' });
+    }
+    return y + 24;
+  };
+
+  let y = drawTableHeader(top);
+
+  order.items.forEach(item => {
+    if (y > PAGE_BOTTOM - 40) {
+      doc.addPage();
+      y = drawTableHeader(PAGE_MARGIN);
+    }
+
+    const itemName = item.variant_name ? `${item.product.name} (${item.variant_name})` : item.product.name;
+    drawText(doc, itemName, columns.item + 6, y, { size: 10, width: itemWidth });
+    drawText(doc, String(item.quantity), columns.qty, y, { size: 10, width: 40, align: 'right' });
+
+    if (type === 'invoice') {
+      drawText(doc, formatTaka(item.unit_price), columns.unit, y, { size: 10, width: 70, align: 'right' });
+      drawText(doc, formatTaka(item.total_price), columns.total, y, { size: 10, width: 74, align: 'right' });
+    } else {
+      doc.rect(columns.total + 14, y + 1, 10, 10).lineWidth(1).strokeColor(TEXT_COLOR).stroke();
+    }
+
+    y += 20;
+    drawRule(doc, y - 5);
+  });
+
+  return y + 6;
+}
+
+function drawTotals(doc: PDFKit.PDFDocument, order: AdminOrder, top: number): number {
+  const right = doc.page.width - PAGE_MARGIN;
+  const labelX = right - 220;
+  const rows: Array<[string, string]> = [
+    ['Subtotal', formatTaka(order.subtotal)],
+    ['Delivery', order.shipping_cost > 0 ? formatTaka(order.shipping_cost) : 'Free'],
+  ];
+
+  if (order.discount_amount > 0) {
+    const label = order.coupon_code ? `Discount (${order.coupon_code})` : 'Discount';
+    rows.push([label, `-${formatTaka(order.discount_amount)}`]);
+  }
+  if (order.tax_amount > 0) rows.push(['Tax', formatTaka(order.tax_amount)]);
+
+  let y = top > PAGE_BOTTOM - 100 ? (doc.addPage(), PAGE_MARGIN) : top;
+
+  rows.forEach(([label, value]) => {
+    drawText(doc, label, labelX, y, { size: 10, color: MUTED_COLOR });
+    drawText(doc, value, labelX, y, { size: 10, width: 220, align: 'right' });
+    y += 16;
+  });
+
+  doc.moveTo(labelX, y).lineTo(right, y).lineWidth(1).strokeColor(TEXT_COLOR).stroke();
+  y += 8;
+  drawText(doc, 'Total', labelX, y, { size: 12, bold: true });
+  drawText(doc, formatTaka(order.total_amount), labelX, y, {
+    size: 12,
+    bold: true,
+    color: BRAND_COLOR,
+    width: 220,
+    align: 'right',
+  });
+
+  return y + 30;
+}
+
+function drawFooter(doc: PDFKit.PDFDocument, order: AdminOrder, type: OrderDocumentType, top: number) {
+  let y = top;
+
+  if (order.notes) {
+    drawText(doc, 'NOTES', PAGE_MARGIN, y, { size: 9, bold: true, color: MUTED_COLOR });
+    drawText(doc, order.notes, PAGE_MARGIN, y + 14, {
+      size: 10,
+      width: doc.page.width - PAGE_MARGIN * 2,
+    });
+    y += 40;
+  }
+
+  const message =
+    type === 'invoice'
+      ? `Thank you for shopping with ${COMPANY_INFO.name}!`
+      : 'Please check all items against this slip before sealing the package.';
+
+  drawText(doc, message, PAGE_MARGIN, Math.max(y, PAGE_BOTTOM - 10), {
+    size: 9,
+    color: MUTED_COLOR,
+    width: doc.page.width - PAGE_MARGIN * 2,
+  });
+}
+
+// Render one document per order, each starting on a new page
+export async function renderOrderDocumentsPdf(
+  orders: AdminOrder[],
+  type: OrderDocumentType
+): Promise<Buffer> {
+  const fonts = await loadFonts();
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: PAGE_MARGIN,
+    autoFirstPage: false,
+    // Start with an embedded font so pdfkit never loads its built-in Helvetica metrics
+    font: path.join(FONT_DIR, FONT_FILES.latin),
+    info: {
+      Title: `${COMPANY_INFO.name} ${type === 'invoice' ? 'Invoice' : 'Packing Slip'}`,
+      Author: COMPANY_INFO.name,
+    },
+  });
+
+  (Object.keys(fonts) as FontName[]).forEach(name => doc.registerFont(name, fonts[name]));
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  orders.forEach(order => {
+    doc.addPage();
+    let y = drawHeader(doc, order, type);
+    y = drawAddresses(doc, order, type, y);
+    y = drawItems(doc, order, type, y);
+    if (type === 'invoice') {
+      y = drawTotals(doc, order, y);
+    }
+    drawFooter(doc, order, type, y);
+  });
+
+  doc.end();
+  return finished;
+}
+
+export function orderDocumentFilename(orders: AdminOrder[], type: OrderDocumentType): string {
+  const suffix = orders.length === 1 ? orders[0].order_number : `${orders.length}-orders`;
+  return `${type}-${suffix}.pdf`;
+}
+
+export function pdfResponse(pdf: Buffer, filename: string, disposition: 'inline' | 'attachment' = 'inline') {
+  return new NextResponse(new Uint8Array(pdf), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `${disposition}; filename="${filename}"`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
+
+// Shared handler for the admin document routes - checks admin access, loads every order and renders one PDF
+export async function renderAdminOrderDocuments(
+  request: NextRequest,
+  orderIds: string[],
+  type: OrderDocumentType
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const authState = await getServerAuthState();
+
+    if (!accessToken || !authState.isAuthenticated || authState.user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (orderIds.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Order ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (orderIds.length > BULK_ORDER_ACTION_LIMIT) {
+      return NextResponse.json(
+        { success: false, error: `You can print up to ${BULK_ORDER_ACTION_LIMIT} orders at once` },
+        { status: 400 }
+      );
+    }
+
+    const orders: AdminOrder[] = [];
+    for (const orderId of orderIds) {
+      const result = await fetchAdminOrder(orderId, accessToken);
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: `${result.error} (${orderId})` },
+          { status: result.statusCode }
+        );
+      }
+      orders.push(result.order);
+    }
+
+    const pdf = await renderOrderDocumentsPdf(orders, type);
+    return pdfResponse(pdf, orderDocumentFilename(orders, type));
+  } catch (error) {
+    console.error(`Error rendering order ${type}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
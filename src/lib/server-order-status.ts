@@ -0,0 +1,126 @@
+/**
+ * Server-Side Order Status Updates
+ * Loads orders from the backend with admin credentials and applies status
+ * transitions checked against the shared state machine, settling the order's
+ * stock reservation when it ships or is cancelled
+ */
+
+import { API_CONFIG } from '@/lib/api-config';
+import { validateOrderTransition, type OrderTransitionPayload } from '@/lib/order-status';
+import { sanitizeOrder } from '@/lib/order-utils';
+import { commitStockReservation, releaseStockReservation } from '@/lib/server-inventory';
+import type { AdminOrder, OrderStatusHistoryEntry } from '@/types/admin';
+
+export interface OrderStatusUpdateRequest {
+  orderId: string;
+  status: string;
+  payload?: OrderTransitionPayload;
+  actor: OrderStatusHistoryEntry['actor'];
+  accessToken: string;
+}
+
+export type OrderStatusUpdateResult =
+  | { success: true; order: AdminOrder; message?: string }
+  | {
+      success: false;
+      statusCode: number;
+      error: string;
+      errorCode?: string;
+      fieldErrors?: Record<string, string>;
+      order?: AdminOrder;
+    };
+
+export type AdminOrderFetchResult =
+  | { success: true; order: AdminOrder }
+  | { success: false; statusCode: number; error: string };
+
+function adminOrderHeaders(accessToken: string) {
+  return {
+    'Authorization': `Bearer ${accessToken}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+// Load a single order with admin credentials
+export async function fetchAdminOrder(orderId: string, accessToken: string): Promise<AdminOrderFetchResult> {
+  const response = await fetch(`${API_CONFIG.backend.base}/admin/orders/${encodeURIComponent(orderId)}`, {
+    headers: adminOrderHeaders(accessToken),
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    return {
+      success: false,
+      statusCode: response.status,
+      error: response.status === 404 ? 'Order not found' : 'Failed to load order',
+    };
+  }
+
+  const data = await response.json();
+  return { success: true, order: sanitizeOrder(data.data) };
+}
+
+export async function updateOrderStatusOnBackend({
+  orderId,
+  status,
+  payload = {},
+  actor,
+  accessToken,
+}: OrderStatusUpdateRequest): Promise<OrderStatusUpdateResult> {
+  // Load the current order so the transition is checked against its real status
+  const current = await fetchAdminOrder(orderId, accessToken);
+
+  if (!current.success) {
+    return current;
+  }
+
+  const currentOrder = current.order;
+  const transition = validateOrderTransition(currentOrder, status, payload);
+
+  if (!transition.valid) {
+    return {
+      success: false,
+      statusCode: transition.errorCode === 'INVALID_STATUS_TRANSITION' ? 409 : 400,
+      error: transition.error,
+      errorCode: transition.errorCode,
+      fieldErrors: transition.fieldErrors,
+      order: currentOrder,
+    };
+  }
+
+  const response = await fetch(`${API_CONFIG.backend.base}/admin/orders/${encodeURIComponent(orderId)}/status`, {
+    method: 'PUT',
+    headers: adminOrderHeaders(accessToken),
+    body: JSON.stringify({
+      ...transition.updates,
+      notes: payload.notes,
+      // Recorded on the status history entry for this transition
+      actor,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    return {
+      success: false,
+      statusCode: response.status,
+      error: errorData.message || errorData.error || 'Failed to update order status',
+      order: currentOrder,
+    };
+  }
+
+  const data = await response.json();
+  // The validated, normalised status - `status` is whatever casing the caller sent
+  const newStatus = transition.updates.status;
+
+  if (currentOrder.reservation_id && newStatus === 'cancelled') {
+    await releaseStockReservation(currentOrder.reservation_id, accessToken, {
+      order_id: currentOrder.id,
+      reason: payload.notes || 'Order cancelled',
+    });
+  } else if (currentOrder.reservation_id && newStatus === 'shipped') {
+    await commitStockReservation(currentOrder.reservation_id, accessToken, { order_id: currentOrder.id });
+  }
+
+  return { success: true, order: sanitizeOrder(data.data), message: data.message };
+}
@@ -0,0 +1,229 @@
+/**
+ * Server-Side Phone Authentication
+ * Passwordless sign-in and sign-up by Bangladeshi mobile number. This server
+ * generates each 6-digit code and delivers it through the configured SMS
+ * provider; the backend only ever sees a keyed hash of it, and owns the
+ * account lookup, expiry, resend cooldown and attempt lockout, answering with
+ * the same error codes as the email OTP flow
+ */
+
+import { createHmac, randomInt } from 'crypto';
+import { API_CONFIG } from '@/lib/api-config';
+import { BRAND_NAME } from '@/lib/constants';
+import type { PhoneOtpRequestData, PhoneOtpVerifyData } from '@/lib/phone-auth-schemas';
+import { getSetCookieHeaders } from '@/lib/server-session-cookies';
+import { getSmsProvider, type SmsProvider } from '@/lib/server-sms';
+import type { User } from '@/types/auth';
+import type { BackendError } from '@/types/backend';
+
+export const PHONE_OTP_TTL_SECONDS = 5 * 60;
+
+export interface PhoneOtpFailure {
+  success: false;
+  statusCode: number;
+  error: string;
+  errorCode?: string;
+  remainingAttempts?: number;
+  cooldownRemaining?: number;
+  lockDuration?: number;
+}
+
+export type PhoneOtpRequestResult =
+  | { success: true; cooldownRemaining: number; expiresIn: number }
+  | PhoneOtpFailure;
+
+export type PhoneOtpVerifyResult =
+  | { success: true; user: User; setCookieHeaders: string[] }
+  | PhoneOtpFailure;
+
+function getInternalApiKey(): string | null {
+  return process.env.INTERNAL_API_KEY || null;
+}
+
+function internalHeaders(apiKey: string) {
+  return {
+    'X-Internal-Api-Key': apiKey,
+    'Content-Type': 'application/json',
+  };
+}
+
+// Keyed so a leaked hash cannot be brute-forced over the million possible codes
+function hashPhoneOtp(phoneNumber: string, otp: string, apiKey: string): string {
+  return createHmac('sha256', apiKey).update(`${phoneNumber}:${otp}`).digest('hex');
+}
+
+function unavailable(): PhoneOtpFailure {
+  return {
+    success: false,
+    statusCode: 503,
+    error: 'Phone sign-in is not available right now. Please use your email instead.',
+    errorCode: 'SERVICE_UNAVAILABLE',
+  };
+}
+
+function toFailure(status: number, errorData: BackendError, fallback: string): PhoneOtpFailure {
+  return {
+    success: false,
+    statusCode: status,
+    error: errorData.message || errorData.error || fallback,
+    errorCode: errorData.errorCode,
+    remainingAttempts: errorData.remainingAttempts,
+    cooldownRemaining: errorData.cooldownRemaining,
+    lockDuration: errorData.lockDuration,
+  };
+}
+
+// The configured SMS provider, or null when its settings are missing or invalid
+function resolveSmsProvider(): SmsProvider | null {
+  try {
+    return getSmsProvider();
+  } catch (error) {
+    console.error('SMS provider is not configured:', error);
+    return null;
+  }
+}
+
+/**
+ * Drops a stored code the customer never received, along with its resend
+ * cooldown, so they can ask again straight away. Best effort - the code
+ * expires on its own if this fails
+ */
+async function discardPhoneOtp(phoneNumber: string, apiKey: string): Promise<void> {
+  try {
+    const response = await fetch(
+      `${API_CONFIG.backend.base}/auth/phone/otp?phone_number=${encodeURIComponent(phoneNumber)}`,
+      {
+        method: 'DELETE',
+        headers: internalHeaders(apiKey),
+        cache: 'no-store',
+      }
+    );
+
+    if (!response.ok) {
+      console.warn(`Backend phone OTP discard returned ${response.status}`);
+    }
+  } catch (error) {
+    console.warn('Failed to discard the undelivered phone OTP:', error);
+  }
+}
+
+export function formatPhoneOtpMessage(otp: string): string {
+  return `${otp} is your ${BRAND_NAME} verification code. It expires in ${PHONE_OTP_TTL_SECONDS / 60} minutes. Do not share it with anyone.`;
+}
+
+/**
+ * Issues a code for the number and texts it. The backend refuses with
+ * OTP_RATE_LIMIT during the resend cooldown, OTP_MAX_ATTEMPTS while the
+ * number is locked, PHONE_NOT_REGISTERED when signing in with an unknown
+ * number and PHONE_ALREADY_REGISTERED when signing up with a known one. A code
+ * the SMS gateway fails to deliver is discarded again (SMS_DELIVERY_FAILED)
+ */
+export async function requestPhoneOtp({
+  phone_number,
+  purpose,
+  name,
+}: PhoneOtpRequestData): Promise<PhoneOtpRequestResult> {
+  const apiKey = getInternalApiKey();
+  // Checked before a code is stored, so a misconfigured gateway never starts a cooldown
+  const smsProvider = resolveSmsProvider();
+  if (!apiKey || !smsProvider) return unavailable();
+
+  const otp = randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+  const response = await fetch(`${API_CONFIG.backend.base}/auth/phone/otp`, {
+    method: 'POST',
+    headers: internalHeaders(apiKey),
+    body: JSON.stringify({
+      phone_number,
+      purpose,
+      name: purpose === 'register' ? name : undefined,
+      otp_hash: hashPhoneOtp(phone_number, otp, apiKey),
+      expires_in: PHONE_OTP_TTL_SECONDS,
+    }),
+    cache: 'no-store',
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    return toFailure(response.status, data, 'Failed to send the verification code');
+  }
+
+  const delivery = await smsProvider.send({ to: phone_number, body: formatPhoneOtpMessage(otp) });
+
+  if (!delivery.success) {
+    console.error(`SMS delivery via ${delivery.provider} failed:`, delivery.error);
+    await discardPhoneOtp(phone_number, apiKey);
+    return {
+      success: false,
+      statusCode: 502,
+      error: 'We could not text your code. Please try again in a moment.',
+      errorCode: 'SMS_DELIVERY_FAILED',
+    };
+  }
+
+  return {
+    success: true,
+    cooldownRemaining: Number(data.data?.cooldownRemaining ?? data.cooldownRemaining) || 60,
+    expiresIn: PHONE_OTP_TTL_SECONDS,
+  };
+}
+
+/**
+ * Checks the code with the backend, which counts failed attempts, and signs
+ * the customer in - creating the account first when registering
+ */
+export async function verifyPhoneOtp(
+  { phone_number, purpose, name, otp }: PhoneOtpVerifyData,
+  clientHeaders: Record<string, string> = {}
+): Promise<PhoneOtpVerifyResult> {
+  const apiKey = getInternalApiKey();
+  if (!apiKey) return unavailable();
+
+  const response = await fetch(`${API_CONFIG.backend.base}/auth/phone/verify`, {
+    method: 'POST',
+    // The new session is recorded against the customer's device, not this server
+    headers: { ...internalHeaders(apiKey), ...clientHeaders },
+    body: JSON.stringify({
+      phone_number,
+      purpose,
+      name: purpose === 'register' ? name : undefined,
+      otp_hash: hashPhoneOtp(phone_number, otp, apiKey),
+    }),
+    cache: 'no-store',
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    return toFailure(response.status, data, 'Verification failed');
+  }
+
+  return {
+    success: true,
+    user: data.data?.user,
+    setCookieHeaders: getSetCookieHeaders(response),
+  };
+}
+
+// Seconds until the number can be sent another code
+export async function fetchPhoneCooldownStatus(
+  phoneNumber: string
+): Promise<{ cooldownRemaining: number; canResend: boolean }> {
+  const response = await fetch(
+    `${API_CONFIG.backend.base}/auth/phone/cooldown-status?phone_number=${encodeURIComponent(phoneNumber)}`,
+    {
+      headers: { 'Content-Type': 'application/json' },
+      cache: 'no-store',
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Backend phone cooldown API returned ${response.status}`);
+  }
+
+  const data = await response.json();
+  const cooldownRemaining = Number(data.data?.cooldownRemaining ?? data.cooldownRemaining) || 0;
+
+  return { cooldownRemaining, canResend: cooldownRemaining === 0 };
+}
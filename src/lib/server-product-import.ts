@@ -0,0 +1,277 @@
+/**
+ * Server-Side Product Import/Export
+ * Reads CSV and XLSX product spreadsheets, validates every row against the
+ * product rules before anything is written, creates validated rows on the
+ * backend a batch at a time and renders the filtered product list back out
+ */
+
+import ExcelJS from 'exceljs';
+import { API_CONFIG } from '@/lib/api-config';
+import { runSequentialBatch } from '@/lib/batch-utils';
+import {
+  parseCsv,
+  PRODUCT_IMPORT_COLUMNS,
+  resolveImportCategory,
+  toCsv,
+  toExportRow,
+  toImportRowValues,
+  toSpreadsheetRows,
+  type ExportableProduct,
+  type ProductImportFileType,
+  type ProductImportPreviewRow,
+  type ProductImportResult,
+  type SpreadsheetRow,
+} from '@/lib/product-import-utils';
+import { ProductImportRowSchema, type ProductImportBatchInput } from '@/lib/product-schemas';
+import { recordAdminActivity } from '@/lib/server-activity';
+import type { AdminCategory, AdminProductQueryParams, CreateProductData } from '@/types/admin';
+import type { BackendProduct } from '@/types/backend';
+
+export type ImportCategory = Pick<AdminCategory, 'id' | 'name' | 'slug'>;
+
+export interface ProductImportBatchRequest {
+  rows: ProductImportBatchInput['rows'];
+  categories: ImportCategory[];
+  fileName?: string;
+  actor: { id: string; name: string };
+  accessToken: string;
+}
+
+// Exports page through the backend list; more than this belongs in a database dump
+const MAX_EXPORT_PRODUCTS = 5000;
+const EXPORT_PAGE_SIZE = 100;
+
+function importHeaders(accessToken: string) {
+  return {
+    'Authorization': `Bearer ${accessToken}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+// First worksheet of an XLSX, or the whole CSV, as keyed rows
+export async function readProductSpreadsheet(
+  content: Buffer,
+  fileType: ProductImportFileType
+): Promise<SpreadsheetRow[]> {
+  if (fileType === 'csv') {
+    return toSpreadsheetRows(parseCsv(content.toString('utf8')));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  // exceljs still types its input as the pre-generic Buffer
+  await workbook.xlsx.load(content as unknown as ArrayBuffer);
+  const worksheet = workbook.worksheets[0];
+
+  if (!worksheet) {
+    return [];
+  }
+
+  const table: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, row => {
+    const cells: string[] = [];
+    for (let column = 1; column <= worksheet.columnCount; column++) {
+      cells.push(row.getCell(column).text ?? '');
+    }
+    table.push(cells);
+  });
+
+  return toSpreadsheetRows(table);
+}
+
+// Dry run - validates every row and reports all of its problems, writing nothing
+export function previewProductImport(
+  rows: SpreadsheetRow[],
+  categories: ImportCategory[]
+): ProductImportPreviewRow[] {
+  const skuRows = new Map<string, number>();
+
+  return rows.map(row => {
+    const errors: string[] = [];
+    const parsed = ProductImportRowSchema.safeParse(toImportRowValues(row));
+
+    if (!parsed.success) {
+      parsed.error.issues.forEach(issue => {
+        errors.push(issue.path.length > 0 ? `${issue.path[0]}: ${issue.message}` : issue.message);
+      });
+    }
+
+    const category = row.category ? resolveImportCategory(categories, row.category) : undefined;
+    if (row.category && !category) {
+      errors.push(`category: No category named "${row.category}"`);
+    }
+
+    const sku = row.sku?.toLowerCase();
+    if (sku) {
+      const firstRow = skuRows.get(sku);
+      if (firstRow) {
+        errors.push(`sku: Duplicates the SKU on row ${firstRow}`);
+      } else {
+        skuRows.set(sku, row.line);
+      }
+    }
+
+    return {
+      row: row.line,
+      name: row.name || '',
+      values: parsed.success && errors.length === 0 ? parsed.data : undefined,
+      category_name: category?.name,
+      errors,
+    };
+  });
+}
+
+// Create one batch of previewed rows; each row succeeds or fails on its own
+export async function importProductBatch({
+  rows,
+  categories,
+  fileName,
+  actor,
+  accessToken,
+}: ProductImportBatchRequest): Promise<ProductImportResult[]> {
+  const results = await runSequentialBatch<ProductImportBatchRequest['rows'][number], ProductImportResult>(
+    rows,
+    async ({ row, values }) => {
+      const category = resolveImportCategory(categories, values.category);
+
+      if (!category) {
+        return { row, success: false, error: `No category named "${values.category}"` };
+      }
+
+      const productData: CreateProductData = {
+        name: values.name,
+        description: values.description,
+        price: values.price,
+        original_price: values.original_price,
+        cost_price: values.cost_price,
+        sku: values.sku,
+        stock_quantity: values.stock_quantity,
+        category_id: category.id,
+        images: values.images,
+        tags: values.tags,
+        is_active: true,
+      };
+
+      const response = await fetch(`${API_CONFIG.backend.base}/admin/products`, {
+        method: 'POST',
+        headers: importHeaders(accessToken),
+        body: JSON.stringify(productData),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        return {
+          row,
+          success: false,
+          error: response.status === 409
+            ? 'A product with this SKU already exists'
+            : errorData.message || errorData.error || 'Failed to create product',
+        };
+      }
+
+      const data = await response.json();
+      return { row, success: true, product_id: data.data?.id ? String(data.data.id) : undefined };
+    },
+    ({ row }, error) => {
+      console.error(`Product import failed for row ${row}:`, error);
+      return { row, success: false, error: 'Backend unavailable' };
+    }
+  );
+
+  const succeeded = results.filter(result => result.success).length;
+  const failed = results.length - succeeded;
+
+  if (succeeded > 0) {
+    await recordAdminActivity(
+      {
+        type: 'product',
+        title: `Imported ${succeeded} product${succeeded === 1 ? '' : 's'}`,
+        description: `${fileName || 'Bulk import'}, rows ${rows[0].row}-${rows[rows.length - 1].row}` +
+          (failed > 0 ? ` (${failed} failed)` : ''),
+        status: failed > 0 ? 'warning' : 'success',
+        actor,
+        metadata: { file_name: fileName, succeeded, failed },
+      },
+      accessToken
+    );
+  }
+
+  return results;
+}
+
+// Every product matching the list filters, one backend page at a time
+export async function fetchProductsForExport(
+  filters: Omit<AdminProductQueryParams, 'page' | 'limit'>,
+  accessToken: string
+): Promise<ExportableProduct[]> {
+  const products: ExportableProduct[] = [];
+
+  for (let page = 1; products.length < MAX_EXPORT_PRODUCTS; page++) {
+    const query = new URLSearchParams({ page: String(page), limit: String(EXPORT_PAGE_SIZE) });
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') query.append(key, String(value));
+    });
+
+    const response = await fetch(`${API_CONFIG.backend.base}/admin/products?${query}`, {
+      headers: importHeaders(accessToken),
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Backend products API returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    const pageProducts = Array.isArray(data.data?.products) ? data.data.products : [];
+
+    pageProducts.forEach((product: BackendProduct) => {
+      products.push({
+        name: String(product.name || ''),
+        sku: product.sku || undefined,
+        description: product.description || undefined,
+        price: Number(product.price) || 0,
+        original_price: product.original_price ? Number(product.original_price) : undefined,
+        cost_price: product.cost_price ? Number(product.cost_price) : undefined,
+        stock_quantity: Number(product.stock_quantity) || 0,
+        category_id: product.category_id || undefined,
+        category_name:
+          (typeof product.category === 'object' ? product.category.name : undefined) ||
+          product.category_name ||
+          undefined,
+        tags: Array.isArray(product.tags) ? product.tags : undefined,
+        images: Array.isArray(product.images) ? product.images : [],
+      });
+    });
+
+    if (!data.data?.pagination?.hasNext || pageProducts.length === 0) {
+      break;
+    }
+  }
+
+  return products.slice(0, MAX_EXPORT_PRODUCTS);
+}
+
+// Spreadsheet in the import layout; categories are written as slugs so the file re-imports as-is
+export async function renderProductExport(
+  products: ExportableProduct[],
+  categories: ImportCategory[],
+  fileType: ProductImportFileType
+): Promise<Buffer> {
+  const slugs = new Map(categories.map(category => [category.id, category.slug]));
+  const table = [
+    [...PRODUCT_IMPORT_COLUMNS],
+    ...products.map(product => toExportRow(product, product.category_id ? slugs.get(product.category_id) : undefined)),
+  ];
+
+  if (fileType === 'csv') {
+    // Byte order mark so Excel opens the file as UTF-8
+    return Buffer.from(`\uFEFF${toCsv(table)}`, 'utf8');
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet('Products');
+  worksheet.addRows(table);
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,104 @@
+/**
+ * Server-Side Catalog Products
+ * Resolves storefront product URLs, which carry a slug or a legacy id, against
+ * the backend catalog, runs storefront searches against the backend search
+ * endpoint, and builds the server-side API client used by product pages
+ */
+
+import { ApiClient } from '@/lib/api-client';
+import { API_CONFIG } from '@/lib/api-config';
+import { buildBackendSearchParams, sanitizeProductFacets, type BackendSearchOptions } from '@/lib/product-search';
+import { sanitizeProduct } from '@/lib/product-utils';
+import type { Product, ProductFilters, ProductSearchResult } from '@/types';
+
+// The app's own origin, from configuration - never from request headers, which
+// the client controls
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+export type ProductLookupResult =
+  | { success: true; product: Product }
+  | { success: false; statusCode: number; error: string };
+
+async function fetchBackendProduct(path: string): Promise<Response> {
+  return fetch(`${API_CONFIG.backend.products}/${path}`, {
+    headers: { 'Content-Type': 'application/json' },
+    cache: 'no-store',
+  });
+}
+
+/**
+ * Looks a product up by slug first, then by id so old `/products/<id>` links
+ * still resolve and can be redirected to the slug URL
+ */
+export async function fetchCatalogProduct(idOrSlug: string): Promise<ProductLookupResult> {
+  const segment = encodeURIComponent(idOrSlug);
+
+  let response = await fetchBackendProduct(`slug/${segment}`);
+
+  if (response.status === 404) {
+    response = await fetchBackendProduct(segment);
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+
+    return {
+      success: false,
+      statusCode: response.status,
+      error: errorData.message || (response.status === 404 ? 'Product not found' : 'Failed to load product'),
+    };
+  }
+
+  const data = await response.json();
+  const product = data.data?.product || data.data || data;
+
+  // Inactive products are hidden from the storefront as if they did not exist
+  if (!product?.id || product.is_active === false) {
+    return { success: false, statusCode: 404, error: 'Product not found' };
+  }
+
+  return { success: true, product: sanitizeProduct(product) };
+}
+
+/**
+ * One page of storefront search results. Matching, facet counts, sorting and
+ * pagination all run on the backend; this only translates the filters
+ */
+export async function searchCatalogProducts(
+  filters: ProductFilters,
+  options: BackendSearchOptions = {}
+): Promise<ProductSearchResult> {
+  const params = buildBackendSearchParams(filters, options);
+
+  const response = await fetch(`${API_CONFIG.backend.products}/search?${params}`, {
+    headers: { 'Content-Type': 'application/json' },
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new Error(`Backend product search returned ${response.status}`);
+  }
+
+  const data = await response.json();
+  const rawProducts = Array.isArray(data.data) ? data.data : data.data?.products;
+  const pagination = data.pagination || data.data?.pagination;
+
+  return {
+    data: Array.isArray(rawProducts) ? rawProducts.map(sanitizeProduct) : [],
+    facets: sanitizeProductFacets(data.facets || data.data?.facets),
+    pagination: {
+      page: Number(pagination?.page) || Number(params.get('page')),
+      limit: Number(pagination?.limit) || Number(params.get('limit')),
+      total: Number(pagination?.total) || 0,
+      totalPages: Number(pagination?.totalPages) || 0,
+    },
+  };
+}
+
+/**
+ * API client for server components. Relative `/api` URLs only work in the
+ * browser, so the client is built for the configured app origin
+ */
+export async function getRequestApiClient(): Promise<ApiClient> {
+  return new ApiClient(`${APP_URL}/api`);
+}
@@ -0,0 +1,216 @@
+/**
+ * Server-Side Customer Profile
+ * Reads the signed-in customer's account and applies changes through the
+ * backend's `user.*` tRPC procedures. Backend failures are mapped onto the
+ * form field they concern, so profile forms can show them inline
+ */
+
+import { API_CONFIG, urlBuilder } from '@/lib/api-config';
+import type {
+  ChangePasswordData,
+  EmailChangeRequestData,
+  EmailChangeVerifyData,
+  ProfileUpdateData,
+} from '@/lib/profile-schemas';
+import { getSetCookieHeaders } from '@/lib/server-session-cookies';
+import type { AppRouter } from '@/types/api';
+import type { User } from '@/types/auth';
+import type { BackendError, BackendUser } from '@/types/backend';
+
+type UserProcedures = AppRouter['user'];
+type MutationName = {
+  [K in keyof UserProcedures]: UserProcedures[K] extends { mutation: unknown } ? K : never;
+}[keyof UserProcedures];
+type MutationInput<K extends MutationName> = UserProcedures[K] extends {
+  mutation: (input: infer Input) => unknown;
+}
+  ? Input
+  : never;
+type MutationOutput<K extends MutationName> = UserProcedures[K] extends {
+  mutation: (...args: never[]) => infer Output;
+}
+  ? Output
+  : never;
+type QueryName = {
+  [K in keyof UserProcedures]: UserProcedures[K] extends { query: unknown } ? K : never;
+}[keyof UserProcedures];
+type QueryOutput<K extends QueryName> = UserProcedures[K] extends {
+  query: (...args: never[]) => infer Output;
+}
+  ? Output
+  : never;
+
+export interface ProfileFailure {
+  success: false;
+  statusCode: number;
+  error: string;
+  errorCode?: string;
+  fieldErrors?: Record<string, string>;
+  remainingAttempts?: number;
+  cooldownRemaining?: number;
+}
+
+/**
+ * `setCookieHeaders` carries the re-signed access token the backend returns
+ * when a change touches what the token holds (name, email, avatar)
+ */
+export type ProfileResult<T> = { success: true; data: T; setCookieHeaders?: string[] } | ProfileFailure;
+
+// Backend error codes that belong to a single form field
+const FIELD_ERROR_CODES: Record<string, { field: string; message: string }> = {
+  INVALID_PASSWORD: { field: 'current_password', message: 'Current password is incorrect' },
+  EMAIL_ALREADY_REGISTERED: { field: 'new_email', message: 'This email address is already in use' },
+  EMAIL_UNCHANGED: { field: 'new_email', message: 'This is already your email address' },
+  PHONE_ALREADY_REGISTERED: { field: 'phone_number', message: 'This mobile number is already in use' },
+};
+
+export function sanitizeProfileUser(user: BackendUser): User {
+  return {
+    id: String(user.id || ''),
+    name: user.name || undefined,
+    email: String(user.email || ''),
+    role: user.role || 'USER',
+    phone_number: user.phone_number || undefined,
+    profile_image_url: user.profile_image_url || undefined,
+    is_verified: Boolean(user.is_verified ?? user.isEmailVerified),
+    created_at: String(user.created_at || user.createdAt || new Date().toISOString()),
+    updated_at: user.updated_at || user.updatedAt || undefined,
+    deleted_at: user.deleted_at || user.deletedAt || undefined,
+  };
+}
+
+function toFailure(status: number, error: BackendError | undefined, fallback: string): ProfileFailure {
+  const errorCode: string | undefined = error?.data?.errorCode || error?.errorCode;
+  const message: string = error?.message || fallback;
+  const fieldError = errorCode ? FIELD_ERROR_CODES[errorCode] : undefined;
+
+  if (fieldError) {
+    // 400 rather than the backend's 401/409 - a wrong password is not an expired session
+    return {
+      success: false,
+      statusCode: 400,
+      error: fieldError.message,
+      errorCode,
+      fieldErrors: { [fieldError.field]: fieldError.message },
+    };
+  }
+
+  return {
+    success: false,
+    statusCode: status,
+    error: message,
+    errorCode: errorCode || (status === 429 ? 'OTP_RATE_LIMIT' : undefined),
+    remainingAttempts: error?.data?.remainingAttempts,
+    cooldownRemaining: error?.data?.cooldownRemaining,
+  };
+}
+
+export async function callUserMutation<K extends MutationName>(
+  procedure: K,
+  input: MutationInput<K>,
+  accessToken: string,
+  fallbackError: string
+): Promise<ProfileResult<MutationOutput<K>>> {
+  const response = await fetch(urlBuilder.trpc(`user.${procedure}`), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    // The backend router uses the superjson transformer
+    body: JSON.stringify({ json: input }),
+    cache: 'no-store',
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || data.error) {
+    return toFailure(response.status, data.error?.json ?? data.error, fallbackError);
+  }
+
+  return {
+    success: true,
+    data: data.result?.data?.json ?? data.result?.data,
+    setCookieHeaders: getSetCookieHeaders(response),
+  };
+}
+
+export async function callUserQuery<K extends QueryName>(
+  procedure: K,
+  accessToken: string,
+  fallbackError: string
+): Promise<ProfileResult<QueryOutput<K>>> {
+  const response = await fetch(urlBuilder.trpc(`user.${procedure}`), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    cache: 'no-store',
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || data.error) {
+    return toFailure(response.status, data.error?.json ?? data.error, fallbackError);
+  }
+
+  return { success: true, data: data.result?.data?.json ?? data.result?.data };
+}
+
+// The full account, including fields the access token does not carry
+export async function fetchProfile(accessToken: string): Promise<ProfileResult<User>> {
+  const response = await fetch(API_CONFIG.backend.auth.me, {
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    cache: 'no-store',
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.data) {
+    return toFailure(response.status, data, 'Failed to load your profile');
+  }
+
+  return { success: true, data: sanitizeProfileUser(data.data) };
+}
+
+export async function updateProfile(
+  accessToken: string,
+  data: ProfileUpdateData
+): Promise<ProfileResult<User>> {
+  const result = await callUserMutation('updateProfile', data, accessToken, 'Failed to update your profile');
+  return result.success ? { ...result, data: sanitizeProfileUser(result.data) } : result;
+}
+
+export async function changePassword(
+  accessToken: string,
+  { current_password, new_password }: ChangePasswordData
+): Promise<ProfileResult<{ message: string }>> {
+  return callUserMutation(
+    'changePassword',
+    { current_password, new_password },
+    accessToken,
+    'Failed to change your password'
+  );
+}
+
+/**
+ * Sends a verification code to the new address. The email on the account
+ * only changes once that code is confirmed with verifyEmailChange
+ */
+export async function requestEmailChange(
+  accessToken: string,
+  data: EmailChangeRequestData
+): Promise<ProfileResult<{ message: string; cooldownRemaining?: number }>> {
+  return callUserMutation('requestEmailChange', data, accessToken, 'Failed to send the verification code');
+}
+
+export async function verifyEmailChange(
+  accessToken: string,
+  data: EmailChangeVerifyData
+): Promise<ProfileResult<User>> {
+  const result = await callUserMutation('verifyEmailChange', data, accessToken, 'Verification failed');
+  return result.success ? { ...result, data: sanitizeProfileUser(result.data) } : result;
+}
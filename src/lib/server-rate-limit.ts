@@ -0,0 +1,43 @@
+/**
+ * Server-Side Rate Limiting
+ * Fixed-window attempt counters for public endpoints that can be used to
+ * guess their way to someone else's data. Counters live in this server
+ * instance's memory, so they slow guessing down rather than cap it exactly
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the caller's window resets, once they are over the limit
+  retryAfter: number;
+}
+
+export interface RateLimiter {
+  consume(key: string): RateLimitResult;
+}
+
+/**
+ * A limiter allowing `limit` attempts per key in each `windowMs`. Expired
+ * windows are swept on use, so idle keys do not pile up
+ */
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    consume(key: string): RateLimitResult {
+      const now = Date.now();
+
+      for (const [candidate, window] of windows) {
+        if (window.resetAt <= now) windows.delete(candidate);
+      }
+
+      const window = windows.get(key) || { count: 0, resetAt: now + windowMs };
+      window.count += 1;
+      windows.set(key, window);
+
+      return {
+        allowed: window.count <= limit,
+        retryAfter: window.count <= limit ? 0 : Math.ceil((window.resetAt - now) / 1000),
+      };
+    },
+  };
+}
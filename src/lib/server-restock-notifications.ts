@@ -0,0 +1,122 @@
+/**
+ * Server-Side Restock Notifications
+ * Signs customers up for "back in stock" alerts and asks the backend to email
+ * and notify them once a stock movement brings the product back above zero
+ */
+
+import { API_CONFIG } from '@/lib/api-config';
+import type { RestockSubscriptionInput } from '@/lib/restock-schemas';
+import { recordAdminActivity } from '@/lib/server-activity';
+
+export interface RestockSubscriptionRequest {
+  productId: string;
+  subscription: RestockSubscriptionInput & { email: string };
+  // Signed-in customers also get an in-app notification
+  userId?: string;
+  accessToken?: string;
+}
+
+export type RestockSubscriptionResult =
+  | { success: true; alreadySubscribed: boolean }
+  | { success: false; statusCode: number; error: string; errorCode?: string };
+
+export interface RestockNotificationRequest {
+  productId: string;
+  productName?: string;
+  variantId?: string;
+  actor: { id: string; name: string };
+  accessToken: string;
+}
+
+export async function subscribeToRestock({
+  productId,
+  subscription,
+  userId,
+  accessToken,
+}: RestockSubscriptionRequest): Promise<RestockSubscriptionResult> {
+  const response = await fetch(
+    `${API_CONFIG.backend.products}/${encodeURIComponent(productId)}/restock-subscriptions`,
+    {
+      method: 'POST',
+      headers: {
+        ...(accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {}),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        email: subscription.email,
+        variant_id: subscription.variant_id,
+        user_id: userId,
+      }),
+      cache: 'no-store',
+    }
+  );
+
+  // Signing up twice is harmless - the customer is still on the list
+  if (response.status === 409) {
+    return { success: true, alreadySubscribed: true };
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    return {
+      success: false,
+      statusCode: response.status,
+      error: response.status === 404
+        ? 'Product not found'
+        : errorData.message || errorData.error || 'Failed to sign up for restock alerts',
+      errorCode: errorData.errorCode,
+    };
+  }
+
+  return { success: true, alreadySubscribed: false };
+}
+
+// Email and notify everyone waiting on the product (or one variant of it); best-effort
+export async function notifyRestockSubscribers({
+  productId,
+  productName,
+  variantId,
+  actor,
+  accessToken,
+}: RestockNotificationRequest): Promise<number> {
+  try {
+    const response = await fetch(
+      `${API_CONFIG.backend.base}/admin/products/${encodeURIComponent(productId)}/restock-subscriptions/notify`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ variant_id: variantId }),
+      }
+    );
+
+    if (!response.ok) {
+      console.warn(`Backend restock API returned ${response.status}, subscribers not notified`);
+      return 0;
+    }
+
+    const data = await response.json();
+    const notified = Number(data.data?.notified) || 0;
+
+    if (notified > 0) {
+      await recordAdminActivity(
+        {
+          type: 'product',
+          title: `Back in stock: ${productName || 'product'}`,
+          description: `${notified} waiting customer${notified === 1 ? '' : 's'} notified`,
+          status: 'info',
+          actor,
+          metadata: { product_id: productId, variant_id: variantId, notified },
+        },
+        accessToken
+      );
+    }
+
+    return notified;
+  } catch (error) {
+    console.warn('Backend restock API unavailable, subscribers not notified:', error);
+    return 0;
+  }
+}
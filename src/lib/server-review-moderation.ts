@@ -0,0 +1,107 @@
+/**
+ * Server-Side Review Moderation
+ * Loads reviews with admin credentials, checks moderation actions against
+ * their current state and records each action in the activity log
+ */
+
+import { API_CONFIG } from '@/lib/api-config';
+import type { ReviewModerationInput } from '@/lib/review-schemas';
+import { describeReviewModeration, sanitizeAdminReview, validateReviewModeration } from '@/lib/review-utils';
+import { recordAdminActivity } from '@/lib/server-activity';
+import type { AdminReview } from '@/types/admin';
+
+export interface ReviewModerationRequest {
+  reviewId: string;
+  moderation: ReviewModerationInput;
+  actor: { id: string; name: string };
+  accessToken: string;
+}
+
+export type ReviewModerationUpdateResult =
+  | { success: true; review: AdminReview; message?: string }
+  | { success: false; statusCode: number; error: string; errorCode?: string };
+
+export type AdminReviewFetchResult =
+  | { success: true; review: AdminReview }
+  | { success: false; statusCode: number; error: string };
+
+function adminReviewHeaders(accessToken: string) {
+  return {
+    'Authorization': `Bearer ${accessToken}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+// Load a single review with admin credentials
+export async function fetchAdminReview(reviewId: string, accessToken: string): Promise<AdminReviewFetchResult> {
+  const response = await fetch(`${API_CONFIG.backend.base}/admin/reviews/${encodeURIComponent(reviewId)}`, {
+    headers: adminReviewHeaders(accessToken),
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    return {
+      success: false,
+      statusCode: response.status,
+      error: response.status === 404 ? 'Review not found' : 'Failed to load review',
+    };
+  }
+
+  const data = await response.json();
+  return { success: true, review: sanitizeAdminReview(data.data) };
+}
+
+export async function moderateReviewOnBackend({
+  reviewId,
+  moderation,
+  actor,
+  accessToken,
+}: ReviewModerationRequest): Promise<ReviewModerationUpdateResult> {
+  // Load the current review so the action is checked against its real status
+  const current = await fetchAdminReview(reviewId, accessToken);
+
+  if (!current.success) {
+    return current;
+  }
+
+  const check = validateReviewModeration(current.review, moderation);
+
+  if (!check.valid) {
+    return { success: false, statusCode: 409, error: check.error, errorCode: check.errorCode };
+  }
+
+  const response = await fetch(`${API_CONFIG.backend.base}/admin/reviews/${encodeURIComponent(reviewId)}`, {
+    method: 'PATCH',
+    headers: adminReviewHeaders(accessToken),
+    body: JSON.stringify({
+      ...check.updates,
+      ...(moderation.action === 'reply' && { replied_at: new Date().toISOString() }),
+      moderated_by: actor.id,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    return {
+      success: false,
+      statusCode: response.status,
+      error: errorData.message || errorData.error || 'Failed to update review',
+    };
+  }
+
+  const data = await response.json();
+  const review = sanitizeAdminReview(data.data || { ...current.review, ...check.updates });
+
+  await recordAdminActivity(
+    {
+      type: 'product',
+      ...describeReviewModeration(review, moderation),
+      status: moderation.action === 'reject' ? 'warning' : 'success',
+      actor,
+      metadata: { review_id: review.id, product_id: review.product_id, action: moderation.action },
+    },
+    accessToken
+  );
+
+  return { success: true, review, message: data.message };
+}
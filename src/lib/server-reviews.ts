@@ -0,0 +1,127 @@
+/**
+ * Server-Side Product Reviews
+ * Loads published reviews from the backend and checks whether a customer has
+ * a delivered order for a product. The check only gives early feedback -
+ * the backend decides eligibility and `Review.verified` itself
+ */
+
+import { API_CONFIG } from '@/lib/api-config';
+import { EMPTY_REVIEW_SUMMARY, sanitizeReview, sanitizeReviewSummary } from '@/lib/review-utils';
+import type { ProductReviews, ReviewEligibility } from '@/types';
+import type { BackendOrder, BackendOrderItem } from '@/types/backend';
+
+// Delivered orders looked at when checking eligibility - more than enough for one customer
+const DELIVERED_ORDERS_LIMIT = 100;
+
+function reviewsUrl(productId: string): string {
+  return `${API_CONFIG.backend.products}/${encodeURIComponent(productId)}/reviews`;
+}
+
+export async function fetchProductReviews(productId: string): Promise<ProductReviews> {
+  try {
+    const response = await fetch(`${reviewsUrl(productId)}?status=approved`, {
+      headers: { 'Content-Type': 'application/json' },
+      cache: 'no-store',
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      const rawReviews = Array.isArray(data.data) ? data.data : data.data?.reviews;
+      const reviews = (Array.isArray(rawReviews) ? rawReviews.map(sanitizeReview) : [])
+        // Only published reviews are shown, even if the backend ignores the filter
+        .filter(review => !review.status || review.status === 'approved');
+
+      return {
+        reviews,
+        summary: sanitizeReviewSummary(data.data?.summary || data.summary, reviews),
+      };
+    }
+
+    console.warn(`Backend reviews API returned ${response.status}, showing no reviews`);
+  } catch (backendError) {
+    console.warn('Backend reviews API unavailable, showing no reviews:', backendError);
+  }
+
+  return { reviews: [], summary: EMPTY_REVIEW_SUMMARY };
+}
+
+export async function hasDeliveredOrderForProduct(productId: string, accessToken: string): Promise<boolean> {
+  const response = await fetch(
+    `${API_CONFIG.backend.orders}?status=delivered&limit=${DELIVERED_ORDERS_LIMIT}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      cache: 'no-store',
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Backend orders API returned ${response.status}`);
+  }
+
+  const data = await response.json();
+  const orders = Array.isArray(data.data) ? data.data : data.data?.orders;
+
+  return (
+    Array.isArray(orders) &&
+    orders.some((order: BackendOrder) =>
+      order.status === 'delivered' &&
+      Array.isArray(order.items) &&
+      order.items.some((item: BackendOrderItem) => String(item.product_id || item.product?.id) === productId)
+    )
+  );
+}
+
+// Pending and rejected reviews count too, so a customer can't queue up duplicates
+export async function hasReviewedProduct(
+  productId: string,
+  userId: string,
+  accessToken: string
+): Promise<boolean> {
+  const response = await fetch(
+    `${reviewsUrl(productId)}?user_id=${encodeURIComponent(userId)}&status=all`,
+    {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      cache: 'no-store',
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Backend reviews API returned ${response.status}`);
+  }
+
+  const data = await response.json();
+  const rawReviews = Array.isArray(data.data) ? data.data : data.data?.reviews;
+
+  return Array.isArray(rawReviews) && rawReviews.map(sanitizeReview).some(review => review.userId === userId);
+}
+
+export async function checkReviewEligibility({
+  productId,
+  userId,
+  accessToken,
+}: {
+  productId: string;
+  userId: string;
+  accessToken: string;
+}): Promise<ReviewEligibility> {
+  const [delivered, reviewed] = await Promise.all([
+    hasDeliveredOrderForProduct(productId, accessToken),
+    hasReviewedProduct(productId, userId, accessToken),
+  ]);
+
+  if (!delivered) {
+    return { canReview: false, reason: 'NOT_DELIVERED' };
+  }
+
+  if (reviewed) {
+    return { canReview: false, reason: 'ALREADY_REVIEWED' };
+  }
+
+  return { canReview: true };
+}
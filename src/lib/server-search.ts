@@ -0,0 +1,29 @@
+/**
+ * Server-Side Search Settings
+ * Loads the synonym table admins edit, so every product search expands
+ * transliterations the same way
+ */
+
+import { API_CONFIG } from '@/lib/api-config';
+import { DEFAULT_SEARCH_SETTINGS, sanitizeSearchSettings } from '@/lib/search-synonyms';
+import type { SearchSettings } from '@/types/admin';
+
+export async function fetchSearchSettings(): Promise<SearchSettings> {
+  try {
+    const response = await fetch(`${API_CONFIG.backend.base}/settings/search`, {
+      headers: { 'Content-Type': 'application/json' },
+      cache: 'no-store',
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      return sanitizeSearchSettings(data.data);
+    }
+
+    console.warn(`Backend search settings API returned ${response.status}, using default synonyms`);
+  } catch (backendError) {
+    console.warn('Backend search settings API unavailable, using default synonyms:', backendError);
+  }
+
+  return DEFAULT_SEARCH_SETTINGS;
+}
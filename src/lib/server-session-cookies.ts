@@ -0,0 +1,55 @@
+/**
+ * Server-Side Session Cookies
+ * Copies the access and refresh tokens the backend issues on sign-in, or with
+ * an account change, onto a Next.js response, with the lifetimes and flags the rest of the app expects
+ */
+
+import type { NextResponse } from 'next/server';
+
+// Every Set-Cookie header on a backend response
+export function getSetCookieHeaders(response: Response): string[] {
+  const setCookieHeaders = response.headers.getSetCookie?.() || [];
+  if (setCookieHeaders.length === 0) {
+    const singleSetCookie = response.headers.get('set-cookie');
+    if (singleSetCookie) {
+      setCookieHeaders.push(singleSetCookie);
+    }
+  }
+  return setCookieHeaders;
+}
+
+export function getAccessTokenFromCookies(setCookieHeaders: string[]): string | null {
+  for (const cookieHeader of setCookieHeaders) {
+    const tokenMatch = cookieHeader.match(/accessToken=([^;]+)/);
+    if (tokenMatch) return tokenMatch[1];
+  }
+  return null;
+}
+
+export function applySessionCookies(response: NextResponse, setCookieHeaders: string[]): void {
+  for (const cookieHeader of setCookieHeaders) {
+    if (cookieHeader.includes('accessToken=')) {
+      const tokenMatch = cookieHeader.match(/accessToken=([^;]+)/);
+      if (tokenMatch) {
+        response.cookies.set('accessToken', tokenMatch[1], {
+          httpOnly: false, // Allow JavaScript access for API calls
+          secure: process.env.NODE_ENV === 'production',
+          sameSite: 'strict',
+          maxAge: 5 * 60, // 5 minutes (match backend)
+          path: '/',
+        });
+      }
+    } else if (cookieHeader.includes('refreshToken=')) {
+      const tokenMatch = cookieHeader.match(/refreshToken=([^;]+)/);
+      if (tokenMatch) {
+        response.cookies.set('refreshToken', tokenMatch[1], {
+          httpOnly: true,
+          secure: process.env.NODE_ENV === 'production',
+          sameSite: 'strict',
+          maxAge: 30 * 24 * 60 * 60, // 30 days = 2,592,000 seconds
+          path: '/',
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Server-Side Session Registry
+ * Lists and revokes the signed-in customer's sessions. The backend keys each
+ * session by refresh token family: a sign-in starts a family, every refresh
+ * rotates the token within it, and revoking the family signs that device out
+ */
+
+import { API_CONFIG } from '@/lib/api-config';
+import { parseUserAgent } from '@/lib/session-utils';
+import type { AccountSession } from '@/types/auth';
+import type { BackendError, BackendSession } from '@/types/backend';
+
+export interface SessionFailure {
+  success: false;
+  statusCode: number;
+  error: string;
+  errorCode?: string;
+}
+
+export type SessionResult<T> = { success: true; data: T } | SessionFailure;
+
+// The family a refresh token belongs to, read without verification - null when it can't be read
+export function getRefreshTokenFamily(refreshToken: string | undefined): string | null {
+  const segment = refreshToken?.split('.')[1];
+  if (!segment) return null;
+
+  try {
+    // JWT segments are unpadded base64url
+    const payload = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    const family = payload.familyId || payload.family_id || payload.family || payload.sid;
+    return family ? String(family) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function sanitizeSession(session: BackendSession, currentFamily: string | null): AccountSession {
+  const id = String(session.family_id || session.familyId || session.id || '');
+  const device = parseUserAgent(session.user_agent || session.userAgent);
+
+  return {
+    id,
+    browser: session.browser || device.browser,
+    os: session.os || device.os,
+    device_type: session.device_type || device.device_type,
+    ip_address: session.ip_address || session.ipAddress || undefined,
+    location: session.location || undefined,
+    created_at: String(session.created_at || session.createdAt || new Date().toISOString()),
+    last_active_at: String(
+      session.last_active_at || session.lastActiveAt || session.updated_at || session.created_at || new Date().toISOString()
+    ),
+    is_current: Boolean(session.is_current ?? session.isCurrent) || (!!currentFamily && id === currentFamily),
+  };
+}
+
+function toFailure(status: number, error: BackendError, fallback: string): SessionFailure {
+  return {
+    success: false,
+    statusCode: status,
+    error: error?.message || error?.error || fallback,
+    errorCode: error?.errorCode || error?.code,
+  };
+}
+
+// `T` is the shape of the backend's `data` for the call
+async function callSessionsApi<T>(
+  url: string,
+  accessToken: string,
+  refreshToken: string | undefined,
+  fallbackError: string,
+  method = 'GET'
+): Promise<SessionResult<T>> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+      // Lets the backend tell which session is the caller's own
+      ...(refreshToken && { Cookie: `refreshToken=${refreshToken}` }),
+    },
+    cache: 'no-store',
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || data.success === false) {
+    return toFailure(response.status, data, fallbackError);
+  }
+
+  return { success: true, data: data.data };
+}
+
+// Most recently active first, with this device at the top
+export async function fetchSessions(
+  accessToken: string,
+  refreshToken: string | undefined
+): Promise<SessionResult<AccountSession[]>> {
+  const result = await callSessionsApi<BackendSession[] | { sessions?: BackendSession[] }>(
+    API_CONFIG.backend.auth.sessions,
+    accessToken,
+    refreshToken,
+    'Failed to load your devices'
+  );
+  if (!result.success) return result;
+
+  const currentFamily = getRefreshTokenFamily(refreshToken);
+  const rawSessions = Array.isArray(result.data) ? result.data : result.data?.sessions;
+  const sessions: AccountSession[] = Array.isArray(rawSessions)
+    ? rawSessions.map(session => sanitizeSession(session, currentFamily))
+    : [];
+
+  return {
+    success: true,
+    data: sessions.sort(
+      (a, b) =>
+        Number(b.is_current) - Number(a.is_current) ||
+        new Date(b.last_active_at).getTime() - new Date(a.last_active_at).getTime()
+    ),
+  };
+}
+
+export async function revokeSession(
+  accessToken: string,
+  refreshToken: string | undefined,
+  sessionId: string
+): Promise<SessionResult<null>> {
+  const result = await callSessionsApi<null>(
+    `${API_CONFIG.backend.auth.sessions}/${encodeURIComponent(sessionId)}`,
+    accessToken,
+    refreshToken,
+    'Failed to sign out the device',
+    'DELETE'
+  );
+
+  return result.success ? { success: true, data: null } : result;
+}
+
+// Revokes every family, including the caller's own
+export async function revokeAllSessions(
+  accessToken: string,
+  refreshToken: string | undefined
+): Promise<SessionResult<null>> {
+  const result = await callSessionsApi<null>(
+    API_CONFIG.backend.auth.sessions,
+    accessToken,
+    refreshToken,
+    'Failed to sign out your devices',
+    'DELETE'
+  );
+
+  return result.success ? { success: true, data: null } : result;
+}
@@ -0,0 +1,44 @@
+/**
+ * Server-Side Admin Settings
+ * Shared by the /api/admin/settings route handlers
+ */
+
+import { NextRequest } from 'next/server';
+import { API_CONFIG } from '@/lib/api-config';
+import { getServerAuthState } from '@/lib/server-auth-state';
+import type { SystemSettingsInput } from '@/lib/settings-schemas';
+import { fromAdminSettings } from '@/lib/settings-utils';
+
+export async function getAdminAccess(request: NextRequest) {
+  const accessToken = request.cookies.get('accessToken')?.value;
+  const authState = await getServerAuthState();
+
+  return {
+    accessToken,
+    isAdmin: !!accessToken && authState.isAuthenticated && authState.user?.role === 'ADMIN',
+  };
+}
+
+// Load the stored settings, or null when the backend can't be reached
+export async function fetchAdminSettings(accessToken: string): Promise<SystemSettingsInput | null> {
+  try {
+    const response = await fetch(`${API_CONFIG.backend.base}/admin/settings`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      cache: 'no-store',
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      return fromAdminSettings(data.data);
+    }
+
+    console.warn(`Backend settings API returned ${response.status}`);
+  } catch (backendError) {
+    console.warn('Backend settings API unavailable:', backendError);
+  }
+
+  return null;
+}
@@ -0,0 +1,135 @@
+/**
+ * Server-Side SMS
+ * Small provider abstraction for outgoing text messages. `SMS_PROVIDER`
+ * picks the transport:
+ * - `http`: POSTs to an SMS gateway (`SMS_API_URL`, `SMS_API_KEY`, `SMS_SENDER_ID`)
+ * - `file`: appends each message as a JSON line to `SMS_OUTBOX_FILE`, so
+ *   development and tests can read the codes that were sent
+ * - `console`: logs the message (the default outside production)
+ */
+
+import { appendFile } from 'fs/promises';
+import path from 'path';
+
+export interface SmsMessage {
+  // Bangladeshi mobile number in 01XXXXXXXXX format
+  to: string;
+  body: string;
+}
+
+export type SmsDeliveryResult =
+  | { success: true; provider: string; messageId?: string }
+  | { success: false; provider: string; error: string };
+
+export interface SmsProvider {
+  name: string;
+  send(message: SmsMessage): Promise<SmsDeliveryResult>;
+}
+
+const DEFAULT_OUTBOX_FILE = '.sms-outbox.log';
+
+// Gateways expect the international 8801XXXXXXXXX form
+function toInternational(phone: string): string {
+  return phone.startsWith('0') ? `88${phone}` : phone;
+}
+
+export const consoleSmsProvider: SmsProvider = {
+  name: 'console',
+  async send(message) {
+    console.info(`[SMS] to ${message.to}: ${message.body}`);
+    return { success: true, provider: this.name };
+  },
+};
+
+export function createFileSmsProvider(filePath: string = DEFAULT_OUTBOX_FILE): SmsProvider {
+  const outbox = path.resolve(process.cwd(), filePath);
+
+  return {
+    name: 'file',
+    async send(message) {
+      try {
+        await appendFile(
+          outbox,
+          `${JSON.stringify({ ...message, sent_at: new Date().toISOString() })}\n`,
+          'utf8'
+        );
+        return { success: true, provider: this.name };
+      } catch (error) {
+        return {
+          success: false,
+          provider: this.name,
+          error: error instanceof Error ? error.message : 'Could not write the SMS outbox',
+        };
+      }
+    },
+  };
+}
+
+export function createHttpSmsProvider(options: { url: string; apiKey: string; senderId?: string }): SmsProvider {
+  return {
+    name: 'http',
+    async send(message) {
+      try {
+        const response = await fetch(options.url, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${options.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            to: toInternational(message.to),
+            message: message.body,
+            sender_id: options.senderId,
+          }),
+          cache: 'no-store',
+        });
+
+        const data = await response.json().catch(() => ({}));
+
+        if (!response.ok) {
+          return {
+            success: false,
+            provider: this.name,
+            error: data.message || data.error || `SMS gateway returned ${response.status}`,
+          };
+        }
+
+        return { success: true, provider: this.name, messageId: data.message_id || data.id };
+      } catch (error) {
+        return {
+          success: false,
+          provider: this.name,
+          error: error instanceof Error ? error.message : 'SMS gateway unreachable',
+        };
+      }
+    },
+  };
+}
+
+// The provider selected by the environment; production never falls back to the console
+export function getSmsProvider(): SmsProvider {
+  const provider = process.env.SMS_PROVIDER || (process.env.NODE_ENV === 'production' ? 'http' : 'console');
+
+  switch (provider) {
+    case 'http': {
+      const url = process.env.SMS_API_URL;
+      const apiKey = process.env.SMS_API_KEY;
+
+      if (!url || !apiKey) {
+        throw new Error('SMS_API_URL and SMS_API_KEY must be set to send SMS');
+      }
+
+      return createHttpSmsProvider({ url, apiKey, senderId: process.env.SMS_SENDER_ID });
+    }
+    case 'file':
+      return createFileSmsProvider(process.env.SMS_OUTBOX_FILE);
+    case 'console':
+      return consoleSmsProvider;
+    default:
+      throw new Error(`Unknown SMS_PROVIDER "${provider}"`);
+  }
+}
+
+export async function sendSms(message: SmsMessage): Promise<SmsDeliveryResult> {
+  return getSmsProvider().send(message);
+}
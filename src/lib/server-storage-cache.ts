@@ -3,6 +3,7 @@
  * Eliminates client-side useEffect hooks and provides immediate data access
  */
 
+import { getCartItemPrice } from './product-variants';
 import { CartItem, Product } from '@/types';
 import { cookies } from 'next/headers';
 import { ENHANCED_STORAGE_CONFIG } from './enhanced-guest-storage';
@@ -135,7 +136,7 @@ async function getServerCartData(): Promise<ServerCartData> {
       0
     );
     const totalPrice = cartData.items.reduce(
-      (sum: number, item: CartItem) => sum + item.product.price * item.quantity,
+      (sum: number, item: CartItem) => sum + getCartItemPrice(item) * item.quantity,
       0
     );
 
@@ -253,9 +254,11 @@ export class ServerCart {
     return this.data.items.some(item => item.product.id === productId);
   }
 
+  // Across all of the product's variants
   getItemQuantity(productId: string): number {
-    const item = this.data.items.find(item => item.product.id === productId);
-    return item?.quantity || 0;
+    return this.data.items
+      .filter(item => item.product.id === productId)
+      .reduce((sum, item) => sum + item.quantity, 0);
   }
 }
 
@@ -4,6 +4,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  getClientContextHeaders,
+  isRefreshTokenReuse,
+  SESSION_REUSE_LOGOUT_REASON,
+} from './session-utils';
 
 interface TokenPayload {
   userId: string;
@@ -30,6 +35,8 @@ interface RefreshResult {
     refreshToken: string;
   };
   user?: any;
+  // The refresh token had already been rotated - its whole family is now revoked
+  reused?: boolean;
 }
 
 /**
@@ -109,6 +116,7 @@ export async function attemptServerSideRefresh(
       headers: {
         'Content-Type': 'application/json',
         Cookie: `refreshToken=${refreshToken}`,
+        ...getClientContextHeaders(request.headers),
       },
       // Ensure no caching for refresh requests
       cache: 'no-store',
@@ -117,9 +125,9 @@ export async function attemptServerSideRefresh(
     console.log('[TOKEN-REFRESH] Refresh response status:', response.status);
 
     if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unknown error');
-      console.log('[TOKEN-REFRESH] Refresh failed:', response.status, errorText);
-      return { success: false };
+      const errorData = await response.json().catch(() => ({}));
+      console.log('[TOKEN-REFRESH] Refresh failed:', response.status, errorData);
+      return { success: false, reused: isRefreshTokenReuse(errorData) };
     }
 
     const data = await response.json();
@@ -322,6 +330,18 @@ export function getAuthDebugInfo(request: NextRequest): {
   };
 }
 
+/**
+ * Login page to send the user to after a failed refresh, explaining when
+ * the session was ended because its refresh token was reused
+ */
+function getRefreshFailureRedirect(request: NextRequest, refreshResult: RefreshResult): URL {
+  const loginUrl = new URL('/login', request.url);
+  if (refreshResult.reused) {
+    loginUrl.searchParams.set('error', SESSION_REUSE_LOGOUT_REASON);
+  }
+  return loginUrl;
+}
+
 /**
  * Enhanced authentication check for middleware
  * Returns authentication status and handles token refresh
@@ -360,7 +380,7 @@ export async function checkAuthenticationWithRefresh(
       };
     } else {
       // Refresh failed - clear all cookies and redirect
-      const response = NextResponse.redirect(new URL('/login', request.url));
+      const response = NextResponse.redirect(getRefreshFailureRedirect(request, refreshResult));
       clearAllAuthCookies(response);
 
       return {
@@ -397,7 +417,7 @@ export async function checkAuthenticationWithRefresh(
         };
       } else {
         // Refresh failed - clear all cookies and redirect
-        const response = NextResponse.redirect(new URL('/login', request.url));
+        const response = NextResponse.redirect(getRefreshFailureRedirect(request, refreshResult));
         clearAllAuthCookies(response);
 
         return {
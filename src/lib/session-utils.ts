@@ -0,0 +1,70 @@
+/**
+ * Session Utilities
+ * Shared by the session registry, the token refresh paths and the devices
+ * list: reading the device from a user agent, passing the customer's device
+ * and IP on to the backend, and recognising refresh-token reuse
+ */
+
+import type { AccountSession } from '@/types/auth';
+import type { BackendError } from '@/types/backend';
+
+// Backend error code for a refresh token presented again after rotation.
+// The backend has already revoked the token's whole family by then
+export const REFRESH_TOKEN_REUSED = 'REFRESH_TOKEN_REUSED';
+
+export const SESSION_REUSE_LOGOUT_REASON =
+  'Your session was used from somewhere else, so we signed you out on all devices. Please sign in again.';
+
+export function isRefreshTokenReuse(body: BackendError | null | undefined): boolean {
+  return [body?.errorCode, body?.code, body?.details?.errorCode, body?.details?.code].includes(
+    REFRESH_TOKEN_REUSED
+  );
+}
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(?:e|A|iOS)?\/([\d]+)/, 'Edge'],
+  [/OPR\/([\d]+)/, 'Opera'],
+  [/SamsungBrowser\/([\d]+)/, 'Samsung Internet'],
+  [/(?:Chrome|CriOS)\/([\d]+)/, 'Chrome'],
+  [/(?:Firefox|FxiOS)\/([\d]+)/, 'Firefox'],
+  [/Version\/([\d]+).*Safari/, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/Windows NT/, 'Windows'],
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Mac OS X/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+export function parseUserAgent(
+  userAgent: string | undefined
+): Pick<AccountSession, 'browser' | 'os' | 'device_type'> {
+  const ua = userAgent || '';
+  const browserMatch = BROWSERS.find(([pattern]) => pattern.test(ua));
+  const browserVersion = browserMatch ? ua.match(browserMatch[0])?.[1] : undefined;
+
+  return {
+    browser: browserMatch ? `${browserMatch[1]}${browserVersion ? ` ${browserVersion}` : ''}` : 'Unknown browser',
+    os: OPERATING_SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] || 'Unknown OS',
+    device_type: /iPad|Tablet/i.test(ua) ? 'tablet' : /Mobi|Android|iPhone/i.test(ua) ? 'mobile' : 'desktop',
+  };
+}
+
+/**
+ * The customer's user agent and IP, for backend calls that start or renew a
+ * session. Those calls come from this server, so without these headers every
+ * session would be recorded against the server's own address
+ */
+export function getClientContextHeaders(headers: Headers): Record<string, string> {
+  const clientIp =
+    headers.get('x-forwarded-for')?.split(',')[0]?.trim() || headers.get('x-real-ip') || '';
+  const userAgent = headers.get('user-agent') || '';
+
+  return {
+    ...(userAgent && { 'User-Agent': userAgent }),
+    ...(clientIp && { 'X-Forwarded-For': clientIp, 'X-Real-IP': clientIp }),
+  };
+}
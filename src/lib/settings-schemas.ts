@@ -0,0 +1,173 @@
+import { z } from 'zod';
+
+// IPv4 or IPv6 address, without a CIDR suffix
+const IP_ADDRESS_PATTERN = /^(\d{1,3}(\.\d{1,3}){3}|[0-9a-fA-F]*:[0-9a-fA-F:]+)$/;
+
+const optionalAmount = z.number().nonnegative('Amount cannot be negative').optional();
+
+// Delivery Zone Schema
+export const DeliveryZoneSchema = z
+  .object({
+    id: z.string().trim().min(1, 'Zone ID is required'),
+    name: z.string().trim().min(2, 'Zone name must be at least 2 characters'),
+    cities: z.array(z.string().trim().min(1)).default([]),
+    is_fallback: z.boolean().default(false),
+    fee: z.number().nonnegative('Fee cannot be negative'),
+    area_fees: z
+      .array(
+        z.object({
+          city: z.string().trim().min(1, 'City is required'),
+          area: z.string().trim().min(1, 'Area is required'),
+          fee: z.number().nonnegative('Fee cannot be negative'),
+        })
+      )
+      .default([]),
+    free_shipping_threshold: optionalAmount,
+    cod_available: z.boolean().default(true),
+    estimated_days_min: z.number().int().min(0, 'Days cannot be negative'),
+    estimated_days_max: z.number().int().min(0, 'Days cannot be negative'),
+  })
+  .refine(zone => zone.estimated_days_max >= zone.estimated_days_min, {
+    message: 'Maximum days must be at least the minimum',
+    path: ['estimated_days_max'],
+  })
+  .refine(zone => zone.is_fallback || zone.cities.length > 0, {
+    message: 'Add at least one city or make this the fallback zone',
+    path: ['cities'],
+  });
+
+// Delivery Settings Schema
+export const DeliverySettingsSchema = z
+  .object({
+    zones: z.array(DeliveryZoneSchema).min(1, 'Add at least one delivery zone'),
+    free_shipping_threshold: optionalAmount,
+  })
+  .superRefine((settings, ctx) => {
+    if (settings.zones.filter(zone => zone.is_fallback).length > 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Only one zone can be the fallback zone',
+        path: ['zones'],
+      });
+    }
+
+    // A city must resolve to exactly one zone
+    const seen = new Map<string, string>();
+    settings.zones.forEach((zone, index) => {
+      zone.cities.forEach(city => {
+        const key = city.toLowerCase();
+        const owner = seen.get(key);
+        if (owner) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `${city} is already in ${owner}`,
+            path: ['zones', index, 'cities'],
+          });
+        }
+        seen.set(key, zone.name);
+      });
+    });
+  });
+
+// System Settings Schema - the sections edited on the settings page
+export const SystemSettingsSchema = z.object({
+  business: z.object({
+    storeName: z.string().trim().min(2, 'Store name must be at least 2 characters').max(100),
+    tagline: z.string().trim().max(150, 'Tagline must be less than 150 characters'),
+    description: z.string().trim().max(1000, 'Description must be less than 1000 characters'),
+    contactEmail: z.string().trim().email('Please enter a valid contact email'),
+    supportEmail: z.string().trim().email('Please enter a valid support email').or(z.literal('')),
+    phone: z.string().trim().max(30, 'Phone number is too long'),
+    address: z.string().trim().max(300, 'Address must be less than 300 characters'),
+    website: z.string().trim().url('Please enter a valid website URL').or(z.literal('')),
+    logo: z.string().trim(),
+    favicon: z.string().trim(),
+  }),
+  notifications: z.object({
+    emailNotifications: z.boolean(),
+    orderNotifications: z.boolean(),
+    stockAlerts: z.boolean(),
+    customerRegistration: z.boolean(),
+    lowStockThreshold: z.number().int().min(0, 'Threshold cannot be negative'),
+  }),
+  security: z.object({
+    twoFactorAuth: z.boolean(),
+    sessionTimeout: z.number().int().min(5, 'Session timeout must be at least 5 minutes').max(1440),
+    passwordExpiry: z.number().int().min(0, 'Use 0 for passwords that never expire').max(365),
+    loginAttempts: z.number().int().min(1, 'Allow at least 1 login attempt').max(20),
+  }),
+  system: z
+    .object({
+      maintenanceMode: z.boolean(),
+      maintenanceMessage: z.string().trim().max(500, 'Message must be less than 500 characters').default(''),
+      maintenanceStartsAt: z.string().datetime({ offset: true, message: 'Invalid start time' }).or(z.literal('')).default(''),
+      maintenanceEndsAt: z.string().datetime({ offset: true, message: 'Invalid end time' }).or(z.literal('')).default(''),
+      maintenanceAllowedIps: z
+        .array(z.string().trim().regex(IP_ADDRESS_PATTERN, 'Enter valid IP addresses'))
+        .default([]),
+      maintenanceAllowedRoles: z.array(z.enum(['USER', 'SELLER'])).default([]),
+      debugMode: z.boolean(),
+      cacheEnabled: z.boolean(),
+      backupFrequency: z.enum(['hourly', 'daily', 'weekly', 'monthly']),
+      timezone: z.string().trim().min(1, 'Timezone is required'),
+      language: z.string().trim().min(2, 'Language is required'),
+    })
+    .refine(
+      system =>
+        !system.maintenanceStartsAt ||
+        !system.maintenanceEndsAt ||
+        new Date(system.maintenanceEndsAt) > new Date(system.maintenanceStartsAt),
+      { message: 'Maintenance must end after it starts', path: ['maintenanceEndsAt'] }
+    ),
+});
+
+// Search Synonym Schema - one catalog term and the words shoppers type for it
+export const SearchSynonymSchema = z.object({
+  term: z.string().trim().toLowerCase().min(2, 'Term must be at least 2 characters'),
+  // Blank entries left by a trailing comma are dropped before validating
+  synonyms: z
+    .array(z.string().trim().toLowerCase())
+    .transform(synonyms => synonyms.filter(Boolean))
+    .pipe(
+      z
+        .array(z.string().min(2, 'Synonyms must be at least 2 characters'))
+        .min(1, 'Add at least one synonym')
+    ),
+});
+
+// Search Settings Schema
+export const SearchSettingsSchema = z
+  .object({
+    synonyms: z.array(SearchSynonymSchema).max(200, 'Too many synonym groups'),
+  })
+  .superRefine((settings, ctx) => {
+    const seen = new Set<string>();
+
+    settings.synonyms.forEach((group, index) => {
+      if (seen.has(group.term)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `"${group.term}" already has a synonym group`,
+          path: ['synonyms', index, 'term'],
+        });
+      }
+      seen.add(group.term);
+    });
+  });
+
+// Settings Backup Schema - the JSON file downloaded and restored from the settings page
+export const SettingsBackupSchema = z.object({
+  version: z.literal(1, { errorMap: () => ({ message: 'Unsupported settings backup version' }) }),
+  exported_at: z.string(),
+  settings: SystemSettingsSchema,
+  delivery: DeliverySettingsSchema.optional(),
+  search: SearchSettingsSchema.optional(),
+});
+
+// Type exports
+export type DeliverySettingsFormInput = z.input<typeof DeliverySettingsSchema>;
+export type DeliverySettingsInput = z.infer<typeof DeliverySettingsSchema>;
+export type SearchSettingsFormInput = z.input<typeof SearchSettingsSchema>;
+export type SearchSettingsInput = z.infer<typeof SearchSettingsSchema>;
+export type SystemSettingsInput = z.infer<typeof SystemSettingsSchema>;
+export type SettingsBackup = z.infer<typeof SettingsBackupSchema>;
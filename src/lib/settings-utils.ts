@@ -0,0 +1,148 @@
+/**
+ * Settings Utility Functions
+ * Maps between the sectioned settings edited in the admin panel and the flat
+ * `AdminSettings` shape stored by the backend
+ */
+
+import type { SystemSettingsInput } from '@/lib/settings-schemas';
+import type { AdminSettings } from '@/types/admin';
+
+export const SETTINGS_BACKUP_VERSION = 1;
+
+// Used for any setting the backend hasn't stored yet
+export const DEFAULT_SYSTEM_SETTINGS: SystemSettingsInput = {
+  business: {
+    storeName: 'Hamsoya',
+    tagline: 'Pure Natural Products for Healthy Living',
+    description: 'Premium quality honey, dates, nuts, and organic products sourced directly from trusted farms.',
+    contactEmail: 'info@hamsoya.com',
+    supportEmail: 'support@hamsoya.com',
+    phone: '+880 1234567890',
+    address: 'Dhaka, Bangladesh',
+    website: 'https://hamsoya.com',
+    logo: '/logo.png',
+    favicon: '/favicon.ico',
+  },
+  notifications: {
+    emailNotifications: true,
+    orderNotifications: true,
+    stockAlerts: true,
+    customerRegistration: true,
+    lowStockThreshold: 10,
+  },
+  security: {
+    twoFactorAuth: false,
+    sessionTimeout: 30,
+    passwordExpiry: 90,
+    loginAttempts: 5,
+  },
+  system: {
+    maintenanceMode: false,
+    maintenanceMessage: '',
+    maintenanceStartsAt: '',
+    maintenanceEndsAt: '',
+    maintenanceAllowedIps: [],
+    maintenanceAllowedRoles: [],
+    debugMode: false,
+    cacheEnabled: true,
+    backupFrequency: 'daily',
+    timezone: 'Asia/Dhaka',
+    language: 'en',
+  },
+};
+
+function pick<T>(value: T | null | undefined, fallback: T): T {
+  return value === undefined || value === null ? fallback : value;
+}
+
+// Build the settings page sections from backend settings
+export function fromAdminSettings(settings?: AdminSettings | null): SystemSettingsInput {
+  const defaults = DEFAULT_SYSTEM_SETTINGS;
+  const stored = settings || {};
+
+  return {
+    business: {
+      storeName: pick(stored.site_name, defaults.business.storeName),
+      tagline: pick(stored.site_tagline, defaults.business.tagline),
+      description: pick(stored.site_description, defaults.business.description),
+      contactEmail: pick(stored.contact_email, defaults.business.contactEmail),
+      supportEmail: pick(stored.support_email, defaults.business.supportEmail),
+      phone: pick(stored.contact_phone, defaults.business.phone),
+      address: pick(stored.address, defaults.business.address),
+      website: pick(stored.website_url, defaults.business.website),
+      logo: pick(stored.logo_url, defaults.business.logo),
+      favicon: pick(stored.favicon_url, defaults.business.favicon),
+    },
+    notifications: {
+      emailNotifications: pick(stored.email_notifications, defaults.notifications.emailNotifications),
+      orderNotifications: pick(stored.order_notifications, defaults.notifications.orderNotifications),
+      stockAlerts: pick(stored.stock_alerts, defaults.notifications.stockAlerts),
+      customerRegistration: pick(
+        stored.customer_registration_alerts,
+        defaults.notifications.customerRegistration
+      ),
+      lowStockThreshold: Number(pick(stored.low_stock_threshold, defaults.notifications.lowStockThreshold)),
+    },
+    security: {
+      twoFactorAuth: pick(stored.two_factor_auth, defaults.security.twoFactorAuth),
+      sessionTimeout: Number(pick(stored.session_timeout_minutes, defaults.security.sessionTimeout)),
+      passwordExpiry: Number(pick(stored.password_expiry_days, defaults.security.passwordExpiry)),
+      loginAttempts: Number(pick(stored.max_login_attempts, defaults.security.loginAttempts)),
+    },
+    system: {
+      maintenanceMode: pick(stored.maintenance_mode, defaults.system.maintenanceMode),
+      maintenanceMessage: pick(stored.maintenance_message, defaults.system.maintenanceMessage),
+      maintenanceStartsAt: pick(stored.maintenance_starts_at, defaults.system.maintenanceStartsAt),
+      maintenanceEndsAt: pick(stored.maintenance_ends_at, defaults.system.maintenanceEndsAt),
+      maintenanceAllowedIps: pick(stored.maintenance_allowed_ips, defaults.system.maintenanceAllowedIps),
+      maintenanceAllowedRoles: pick(stored.maintenance_allowed_roles, defaults.system.maintenanceAllowedRoles),
+      debugMode: pick(stored.debug_mode, defaults.system.debugMode),
+      cacheEnabled: pick(stored.cache_enabled, defaults.system.cacheEnabled),
+      backupFrequency: pick(stored.backup_frequency, defaults.system.backupFrequency),
+      timezone: pick(stored.timezone, defaults.system.timezone),
+      language: pick(stored.default_language, defaults.system.language),
+    },
+  };
+}
+
+// Flatten the settings page sections into the backend shape
+export function toAdminSettings(settings: SystemSettingsInput): AdminSettings {
+  const { business, notifications, security, system } = settings;
+
+  return {
+    site_name: business.storeName,
+    site_tagline: business.tagline,
+    site_description: business.description,
+    contact_email: business.contactEmail,
+    support_email: business.supportEmail,
+    contact_phone: business.phone,
+    address: business.address,
+    website_url: business.website,
+    logo_url: business.logo,
+    favicon_url: business.favicon,
+    email_notifications: notifications.emailNotifications,
+    order_notifications: notifications.orderNotifications,
+    stock_alerts: notifications.stockAlerts,
+    customer_registration_alerts: notifications.customerRegistration,
+    low_stock_threshold: notifications.lowStockThreshold,
+    two_factor_auth: security.twoFactorAuth,
+    session_timeout_minutes: security.sessionTimeout,
+    password_expiry_days: security.passwordExpiry,
+    max_login_attempts: security.loginAttempts,
+    maintenance_mode: system.maintenanceMode,
+    maintenance_message: system.maintenanceMessage,
+    maintenance_starts_at: system.maintenanceStartsAt,
+    maintenance_ends_at: system.maintenanceEndsAt,
+    maintenance_allowed_ips: system.maintenanceAllowedIps,
+    maintenance_allowed_roles: system.maintenanceAllowedRoles,
+    debug_mode: system.debugMode,
+    cache_enabled: system.cacheEnabled,
+    backup_frequency: system.backupFrequency,
+    timezone: system.timezone,
+    default_language: system.language,
+  };
+}
+
+export function getSettingsBackupFilename(exportedAt: string): string {
+  return `hamsoya-settings-${exportedAt.slice(0, 10)}.json`;
+}
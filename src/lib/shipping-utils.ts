@@ -0,0 +1,165 @@
+/**
+ * Shipping Utility Functions
+ * Delivery zone lookup and shipping fee quotes shared by the cart, checkout
+ * and the order API route
+ */
+
+import type { DeliveryAreaFee, DeliverySettings, DeliveryZone, ShippingQuote } from '@/types/admin';
+import type { BackendDeliverySettings } from '@/types/backend';
+
+export interface ShippingQuoteInput {
+  city?: string;
+  area?: string;
+  // Merchandise total after any coupon discount
+  subtotal: number;
+}
+
+// Used until delivery settings have been saved, and when the backend is unreachable
+export const DEFAULT_DELIVERY_SETTINGS: DeliverySettings = {
+  free_shipping_threshold: 1000,
+  zones: [
+    {
+      id: 'inside-dhaka',
+      name: 'Inside Dhaka',
+      cities: ['Dhaka'],
+      is_fallback: false,
+      fee: 60,
+      area_fees: [],
+      cod_available: true,
+      estimated_days_min: 1,
+      estimated_days_max: 2,
+    },
+    {
+      id: 'dhaka-suburbs',
+      name: 'Dhaka Suburbs',
+      cities: ['Narayanganj', 'Gazipur', 'Tongi'],
+      is_fallback: false,
+      fee: 100,
+      area_fees: [],
+      cod_available: true,
+      estimated_days_min: 2,
+      estimated_days_max: 3,
+    },
+    {
+      id: 'outside-dhaka',
+      name: 'Outside Dhaka',
+      cities: [],
+      is_fallback: true,
+      fee: 120,
+      area_fees: [],
+      cod_available: true,
+      estimated_days_min: 3,
+      estimated_days_max: 5,
+    },
+  ],
+};
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return value === undefined || value === null || value === '' ? undefined : Number(value);
+}
+
+// Sanitize delivery settings returned by the backend
+export function sanitizeDeliverySettings(settings: BackendDeliverySettings | null | undefined): DeliverySettings {
+  if (!settings || !Array.isArray(settings.zones) || settings.zones.length === 0) {
+    return DEFAULT_DELIVERY_SETTINGS;
+  }
+
+  return {
+    free_shipping_threshold: optionalNumber(settings.free_shipping_threshold),
+    zones: settings.zones.map((zone): DeliveryZone => ({
+      id: String(zone.id || ''),
+      name: String(zone.name || ''),
+      cities: Array.isArray(zone.cities) ? zone.cities.map(String) : [],
+      is_fallback: Boolean(zone.is_fallback),
+      fee: Number(zone.fee) || 0,
+      area_fees: Array.isArray(zone.area_fees)
+        ? zone.area_fees.map((areaFee): DeliveryAreaFee => ({
+            city: String(areaFee.city || ''),
+            area: String(areaFee.area || ''),
+            fee: Number(areaFee.fee) || 0,
+          }))
+        : [],
+      free_shipping_threshold: optionalNumber(zone.free_shipping_threshold),
+      cod_available: zone.cod_available !== false,
+      estimated_days_min: Number(zone.estimated_days_min) || 1,
+      estimated_days_max: Number(zone.estimated_days_max) || Number(zone.estimated_days_min) || 1,
+    })),
+    updated_at: settings.updated_at || undefined,
+  };
+}
+
+// Find the zone that delivers to a city, falling back to the catch-all zone
+export function findDeliveryZone(settings: DeliverySettings, city?: string): DeliveryZone | undefined {
+  const listed = city
+    ? settings.zones.find(zone => zone.cities.some(zoneCity => sameName(zoneCity, city)))
+    : undefined;
+
+  return listed || settings.zones.find(zone => zone.is_fallback);
+}
+
+export function quoteShipping(
+  settings: DeliverySettings,
+  { city, area, subtotal }: ShippingQuoteInput
+): ShippingQuote | null {
+  const zone = findDeliveryZone(settings, city);
+
+  if (!zone) {
+    return null;
+  }
+
+  const areaFee =
+    city && area
+      ? zone.area_fees.find(fee => sameName(fee.city, city) && sameName(fee.area, area))
+      : undefined;
+  const baseFee = areaFee ? areaFee.fee : zone.fee;
+  const threshold = zone.free_shipping_threshold ?? settings.free_shipping_threshold;
+  const isFree = baseFee === 0 || (threshold !== undefined && threshold > 0 && subtotal >= threshold);
+
+  return {
+    zone_id: zone.id,
+    zone_name: zone.name,
+    fee: isFree ? 0 : baseFee,
+    base_fee: baseFee,
+    is_free: isFree,
+    free_shipping_threshold: threshold,
+    amount_to_free_shipping: threshold && !isFree ? Math.max(threshold - subtotal, 0) : 0,
+    cod_available: zone.cod_available,
+    estimated_days_min: zone.estimated_days_min,
+    estimated_days_max: zone.estimated_days_max,
+  };
+}
+
+// Group a city list by the zone that delivers there, in zone order; unserved cities are dropped
+export function groupCitiesByZone(
+  settings: DeliverySettings,
+  cities: readonly string[]
+): Array<{ zone: DeliveryZone; cities: string[] }> {
+  return settings.zones
+    .map(zone => ({
+      zone,
+      cities: cities.filter(city => findDeliveryZone(settings, city)?.id === zone.id),
+    }))
+    .filter(group => group.cities.length > 0);
+}
+
+// Cheapest standard fee, shown before the customer has picked a city
+export function getLowestDeliveryFee(settings: DeliverySettings): number {
+  return settings.zones.reduce(
+    (lowest, zone) => Math.min(lowest, zone.fee),
+    settings.zones[0]?.fee ?? 0
+  );
+}
+
+export function formatDeliveryEstimate(quote: Pick<ShippingQuote, 'estimated_days_min' | 'estimated_days_max'>): string {
+  const { estimated_days_min: min, estimated_days_max: max } = quote;
+
+  if (min === max) {
+    return `${min} day${min === 1 ? '' : 's'}`;
+  }
+
+  return `${min}-${max} days`;
+}
@@ -0,0 +1,73 @@
+/**
+ * Token Refresh Lock
+ * Every refresh path in the browser goes through fetchTokenRefresh, which
+ * makes refresh-token rotation single-flight within the tab and, through the
+ * Web Locks API, across all tabs. The refresh token cookie is shared, so two
+ * concurrent refreshes would present the same token twice - which the backend
+ * treats as reuse and answers by revoking every session in the family
+ */
+
+const REFRESH_LOCK_NAME = 'hamsoya:token-refresh';
+
+let inFlightRefresh: Promise<Response> | null = null;
+
+function readAccessTokenCookie(): string | null {
+  const match = document.cookie.match(/(?:^|;\s*)accessToken=([^;]+)/);
+  return match ? match[1] : null;
+}
+
+function postRefresh(url: string): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    credentials: 'same-origin', // Include cookies
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+async function refreshInLock(url: string, accessTokenBefore: string | null): Promise<Response> {
+  // Another tab rotated the session while this one waited for the lock - the
+  // shared cookies already hold the new pair, so presenting the old refresh
+  // token now would only trip reuse detection
+  const accessTokenNow = readAccessTokenCookie();
+  if (accessTokenNow && accessTokenNow !== accessTokenBefore) {
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return postRefresh(url);
+}
+
+async function refreshAcrossTabs(url: string): Promise<Response> {
+  const accessTokenBefore = readAccessTokenCookie();
+
+  if (!navigator.locks) {
+    return refreshInLock(url, accessTokenBefore);
+  }
+
+  return await navigator.locks.request(REFRESH_LOCK_NAME, () => refreshInLock(url, accessTokenBefore));
+}
+
+/**
+ * POST to the refresh endpoint, sharing one request between every caller in
+ * the tab and waiting for refreshes in other tabs to finish first. Each caller
+ * gets its own copy of the response to read
+ */
+export async function fetchTokenRefresh(url: string = '/api/auth/refresh-token'): Promise<Response> {
+  // No shared cookies to race over on the server
+  if (typeof window === 'undefined') {
+    return postRefresh(url);
+  }
+
+  if (!inFlightRefresh) {
+    inFlightRefresh = refreshAcrossTabs(url).finally(() => {
+      inFlightRefresh = null;
+    });
+  }
+
+  const response = await inFlightRefresh;
+  return response.clone();
+}
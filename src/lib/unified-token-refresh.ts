@@ -5,7 +5,9 @@
  */
 
 import { useAuthStore } from '@/store/auth-store';
+import { isRefreshTokenReuse } from './session-utils';
 import { toastService } from './toast-service';
+import { fetchTokenRefresh } from './token-refresh-lock';
 
 interface TokenPayload {
   userId: string;
@@ -140,13 +142,8 @@ class UnifiedTokenRefreshService {
    */
   private async doRefresh(): Promise<boolean> {
     try {
-      const response = await fetch('/api/auth/refresh-token', {
-        method: 'POST',
-        credentials: 'same-origin',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+      // Single-flight with the API client and with other tabs
+      const response = await fetchTokenRefresh();
 
       if (response.ok) {
         const data = await response.json();
@@ -163,6 +160,13 @@ class UnifiedTokenRefreshService {
 
         return true;
       } else {
+        const errorData = await response.json().catch(() => ({}));
+
+        if (isRefreshTokenReuse(errorData)) {
+          await this.handleRefreshTokenReuse();
+          return false;
+        }
+
         // Refresh failed, handle logout
         this.handleRefreshFailure();
         return false;
@@ -173,6 +177,20 @@ class UnifiedTokenRefreshService {
     }
   }
 
+  /**
+   * Handle a reused refresh token - every session in its family is revoked,
+   * so sign out completely and explain why on the login page
+   */
+  private async handleRefreshTokenReuse(): Promise<void> {
+    this.stop();
+
+    const { logout } = useAuthStore.getState();
+    logout();
+
+    const { handleRefreshTokenReuse } = await import('./security-logout');
+    await handleRefreshTokenReuse();
+  }
+
   /**
    * Handle refresh failure by logging out user
    */
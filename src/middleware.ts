@@ -5,14 +5,25 @@
  * Enhanced with automatic token refresh for seamless user experience
  */
 
+import {
+  canBypassMaintenance,
+  getCachedPublicSettings,
+  getClientIp,
+  getRetryAfterSeconds,
+  isMaintenanceActive,
+  isMaintenanceExemptPath,
+} from '@/lib/maintenance-mode';
+import { renderMaintenancePage } from '@/lib/maintenance-page';
 import { enhanceMiddlewareWithStorage } from '@/lib/server-storage-middleware';
 import { checkAuthenticationWithRefresh } from '@/lib/server-token-validator';
 import {
   extractUserRoleFromRequest,
   getRoleBasedRedirectUrl,
-  getRedirectFromRequest
+  getRedirectFromRequest,
+  verifyUserRoleFromRequest
 } from '@/lib/server-jwt-decoder';
 import { NextRequest, NextResponse } from 'next/server';
+import type { PublicSettings } from '@/types/admin';
 
 // Routes that require authentication - instant redirect to login if not authenticated
 const PROTECTED_ROUTES = ['/order', '/profile', '/dashboard', '/checkout', '/bookmarks', '/admin'];
@@ -194,6 +205,22 @@ function createSecureLogoutRedirect(request: NextRequest, message?: string): Nex
   return response;
 }
 
+/**
+ * Serve the maintenance page with 503 and Retry-After so crawlers keep the pages indexed
+ */
+function createMaintenanceResponse(settings: PublicSettings): NextResponse {
+  const response = new NextResponse(renderMaintenancePage(settings), {
+    status: 503,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+
+  response.headers.set('Retry-After', String(getRetryAfterSeconds(settings.maintenance)));
+  response.headers.set('Cache-Control', 'no-cache, no-store, must-revalidate, private, max-age=0');
+  response.headers.set('X-Robots-Tag', 'noindex');
+
+  return response;
+}
+
 /**
  * Main middleware function with enhanced authentication and automatic token refresh
  */
@@ -211,6 +238,23 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // Maintenance mode - closed storefront pages are never rendered for regular visitors
+  if (!isMaintenanceExemptPath(pathname)) {
+    const publicSettings = await getCachedPublicSettings();
+
+    if (isMaintenanceActive(publicSettings.maintenance)) {
+      // Verified, not just decoded - a hand-made cookie must not get past maintenance
+      const visitor = {
+        ip: getClientIp(request.headers),
+        role: await verifyUserRoleFromRequest(request),
+      };
+
+      if (!canBypassMaintenance(publicSettings.maintenance, visitor)) {
+        return createMaintenanceResponse(publicSettings);
+      }
+    }
+  }
+
   // PRIORITY 1: Handle admin routes FIRST with optimized security checks
   // This prevents any content rendering for unauthorized users
   if (pathname.startsWith('/admin')) {
@@ -3,6 +3,11 @@ import { persist } from 'zustand/middleware';
 import { ShippingAddress } from '@/types';
 import { STORAGE_KEYS } from '@/lib/constants';
 
+/**
+ * Legacy device-only address list. Signed-in customers now keep their
+ * addresses on the server (see `useAddresses`); anything still stored here
+ * is imported into the account once and then removed
+ */
 interface AddressesStore {
   addresses: ShippingAddress[];
   
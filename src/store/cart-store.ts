@@ -1,6 +1,7 @@
 import type { ServerCartData } from '@/lib/server-storage-cache';
+import { getCartItemPrice, isSameCartLine } from '@/lib/product-variants';
 import { cartStorage } from '@/lib/storage-sync';
-import { CartItem, Product } from '@/types';
+import { CartItem, Product, ProductVariant } from '@/types';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
@@ -8,15 +9,18 @@ interface CartStore {
   items: CartItem[];
   isOpen: boolean;
   isHydrated: boolean;
+  // Coupon code entered by the customer - the discount itself is always quoted by the server
+  couponCode: string | null;
 
-  // Actions
-  addItem: (product: Product, quantity?: number) => void;
-  removeItem: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  // Actions - cart lines are keyed on product + variant
+  addItem: (product: Product, quantity?: number, variant?: ProductVariant) => void;
+  removeItem: (productId: string, variantId?: string) => void;
+  updateQuantity: (productId: string, quantity: number, variantId?: string) => void;
   clearCart: () => void;
   openCart: () => void;
   closeCart: () => void;
   toggleCart: () => void;
+  setCouponCode: (code: string | null) => void;
 
   // Server-side hydration
   initializeFromServer: (serverData: ServerCartData) => void;
@@ -29,8 +33,8 @@ interface CartStore {
   // Computed values
   getTotalItems: () => number;
   getTotalPrice: () => number;
-  getItemQuantity: (productId: string) => number;
-  isInCart: (productId: string) => boolean;
+  getItemQuantity: (productId: string, variantId?: string) => number;
+  isInCart: (productId: string, variantId?: string) => boolean;
 
   // Internal hydration
   _setHydrated: (hydrated: boolean) => void;
@@ -42,16 +46,17 @@ export const useCartStore = create<CartStore>()(
       items: [],
       isOpen: false,
       isHydrated: false,
+      couponCode: null,
 
-      addItem: (product: Product, quantity = 1) => {
+      addItem: (product: Product, quantity = 1, variant?: ProductVariant) => {
         // Optimistic update
         set(state => {
-          const existingItem = state.items.find(item => item.product.id === product.id);
+          const existingItem = state.items.find(item => isSameCartLine(item, product.id, variant?.id));
 
           if (existingItem) {
             return {
               items: state.items.map(item =>
-                item.product.id === product.id
+                isSameCartLine(item, product.id, variant?.id)
                   ? { ...item, quantity: item.quantity + quantity }
                   : item
               ),
@@ -59,7 +64,7 @@ export const useCartStore = create<CartStore>()(
           }
 
           return {
-            items: [...state.items, { product, quantity }],
+            items: [...state.items, { product, quantity, variant }],
           };
         });
 
@@ -70,7 +75,7 @@ export const useCartStore = create<CartStore>()(
               const response = await fetch('/api/cart', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ product, quantity }),
+                body: JSON.stringify({ product, quantity, variant }),
               });
 
               if (response.ok) {
@@ -108,17 +113,20 @@ export const useCartStore = create<CartStore>()(
         }
       },
 
-      removeItem: (productId: string) => {
+      removeItem: (productId: string, variantId?: string) => {
         // Optimistic update
         set(state => ({
-          items: state.items.filter(item => item.product.id !== productId),
+          items: state.items.filter(item => !isSameCartLine(item, productId, variantId)),
         }));
 
         // Sync with backend with retry logic
         if (typeof window !== 'undefined') {
           const syncWithRetry = async (retries = 3) => {
             try {
-              const response = await fetch(`/api/cart?productId=${productId}`, {
+              const params = new URLSearchParams({ productId });
+              if (variantId) params.set('variantId', variantId);
+
+              const response = await fetch(`/api/cart?${params}`, {
                 method: 'DELETE',
               });
 
@@ -155,16 +163,16 @@ export const useCartStore = create<CartStore>()(
         }
       },
 
-      updateQuantity: (productId: string, quantity: number) => {
+      updateQuantity: (productId: string, quantity: number, variantId?: string) => {
         if (quantity <= 0) {
-          get().removeItem(productId);
+          get().removeItem(productId, variantId);
           return;
         }
 
         // Optimistic update
         set(state => ({
           items: state.items.map(item =>
-            item.product.id === productId ? { ...item, quantity } : item
+            isSameCartLine(item, productId, variantId) ? { ...item, quantity } : item
           ),
         }));
 
@@ -173,7 +181,7 @@ export const useCartStore = create<CartStore>()(
           fetch('/api/cart', {
             method: 'PUT',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ productId, quantity }),
+            body: JSON.stringify({ productId, variantId, quantity }),
           })
             .then(response => response.json())
             .then(data => {
@@ -199,7 +207,7 @@ export const useCartStore = create<CartStore>()(
 
       clearCart: () => {
         // Optimistic update
-        set({ items: [] });
+        set({ items: [], couponCode: null });
 
         // Sync with backend
         if (typeof window !== 'undefined') {
@@ -240,6 +248,10 @@ export const useCartStore = create<CartStore>()(
         set(state => ({ isOpen: !state.isOpen }));
       },
 
+      setCouponCode: (code: string | null) => {
+        set({ couponCode: code });
+      },
+
       initializeFromServer: (serverData: ServerCartData) => {
         set(state => {
           // Prevent multiple initializations if already hydrated
@@ -288,8 +300,8 @@ export const useCartStore = create<CartStore>()(
         const mergedItems = [...authenticatedItems];
 
         currentItems.forEach(currentItem => {
-          const existingIndex = mergedItems.findIndex(
-            item => item.product.id === currentItem.product.id
+          const existingIndex = mergedItems.findIndex(item =>
+            isSameCartLine(item, currentItem.product.id, currentItem.variant?.id)
           );
 
           if (existingIndex >= 0) {
@@ -309,7 +321,7 @@ export const useCartStore = create<CartStore>()(
 
       clearGuestData: () => {
         cartStorage.clear();
-        set({ items: [] });
+        set({ items: [], couponCode: null });
       },
 
       getTotalItems: () => {
@@ -317,16 +329,16 @@ export const useCartStore = create<CartStore>()(
       },
 
       getTotalPrice: () => {
-        return get().items.reduce((total, item) => total + item.product.price * item.quantity, 0);
+        return get().items.reduce((total, item) => total + getCartItemPrice(item) * item.quantity, 0);
       },
 
-      getItemQuantity: (productId: string) => {
-        const item = get().items.find(item => item.product.id === productId);
+      getItemQuantity: (productId: string, variantId?: string) => {
+        const item = get().items.find(item => isSameCartLine(item, productId, variantId));
         return item?.quantity || 0;
       },
 
-      isInCart: (productId: string) => {
-        return get().items.some(item => item.product.id === productId);
+      isInCart: (productId: string, variantId?: string) => {
+        return get().items.some(item => isSameCartLine(item, productId, variantId));
       },
 
       _setHydrated: (hydrated: boolean) => {
@@ -335,7 +347,7 @@ export const useCartStore = create<CartStore>()(
     }),
     {
       name: 'hamsoya-cart-v2', // Use enhanced storage key
-      partialize: state => ({ items: state.items }),
+      partialize: state => ({ items: state.items, couponCode: state.couponCode }),
       onRehydrateStorage: () => state => {
         if (state) {
           state.isOpen = false;
@@ -2,3 +2,4 @@ export { useCartStore } from './cart-store';
 export { useBookmarksStore } from './bookmarks-store';
 export { useAuthStore } from './auth-store';
 export { useAddressesStore } from './addresses-store';
+export { useRecentSearchesStore } from './recent-searches-store';
@@ -0,0 +1,65 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { STORAGE_KEYS } from '@/lib/constants';
+
+// Searches remembered per user for the navbar suggestions
+const MAX_RECENT_SEARCHES = 5;
+
+// Key used for searches made while signed out
+export const GUEST_SEARCH_KEY = 'guest';
+
+interface RecentSearchesStore {
+  // Most recent first, keyed by user ID
+  searches: Record<string, string[]>;
+
+  // Actions
+  addSearch: (userKey: string, query: string) => void;
+  removeSearch: (userKey: string, query: string) => void;
+  clearSearches: (userKey: string) => void;
+}
+
+export const useRecentSearchesStore = create<RecentSearchesStore>()(
+  persist(
+    (set) => ({
+      searches: {},
+
+      addSearch: (userKey, query) => {
+        const trimmed = query.trim();
+        if (!trimmed) return;
+
+        set((state) => {
+          const existing = (state.searches[userKey] || []).filter(
+            (search) => search.toLowerCase() !== trimmed.toLowerCase()
+          );
+
+          return {
+            searches: {
+              ...state.searches,
+              [userKey]: [trimmed, ...existing].slice(0, MAX_RECENT_SEARCHES),
+            },
+          };
+        });
+      },
+
+      removeSearch: (userKey, query) => {
+        set((state) => ({
+          searches: {
+            ...state.searches,
+            [userKey]: (state.searches[userKey] || []).filter((search) => search !== query),
+          },
+        }));
+      },
+
+      clearSearches: (userKey) => {
+        set((state) => {
+          const searches = { ...state.searches };
+          delete searches[userKey];
+          return { searches };
+        });
+      },
+    }),
+    {
+      name: STORAGE_KEYS.recentSearches,
+    }
+  )
+);
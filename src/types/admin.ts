@@ -84,6 +84,8 @@ export interface AdminProduct {
   cost_price?: number;
   sku?: string;
   stock_quantity: number;
+  // Held for placed orders that have not shipped yet
+  reserved_quantity?: number;
   low_stock_threshold?: number;
   category_id?: string;
   category_name?: string;
@@ -106,11 +108,57 @@ export interface AdminProduct {
   is_low_stock?: boolean;
   origin?: string;
   benefits?: string[];
+  variants?: AdminProductVariant[];
+  is_preorder?: boolean;
+  preorder_available_date?: string;
+  preorder_deposit_free?: boolean;
+  // Customers waiting for a "back in stock" notification
+  restock_subscriber_count?: number;
   created_at: string;
   updated_at: string;
   deleted_at?: string;
 }
 
+export interface AdminProductVariant {
+  // Unset until the variant is first saved
+  id?: string;
+  name: string;
+  sku?: string;
+  price: number;
+  original_price?: number;
+  stock_quantity: number;
+  // Grams, like the product weight
+  weight?: number;
+}
+
+export type InventoryMovementType =
+  | 'receipt'
+  | 'sale'
+  | 'return'
+  | 'adjustment'
+  | 'damage'
+  | 'reservation'
+  | 'release';
+
+export interface InventoryMovement {
+  id: string;
+  product_id: string;
+  variant_id?: string;
+  variant_name?: string;
+  type: InventoryMovementType;
+  // Signed change - to stock on hand, or to reserved stock for reservations and releases
+  quantity: number;
+  stock_after?: number;
+  reason?: string;
+  order_id?: string;
+  order_number?: string;
+  actor?: {
+    id: string;
+    name: string;
+  };
+  created_at: string;
+}
+
 export interface AdminOrder {
   id: string;
   order_number: string;
@@ -141,15 +189,60 @@ export interface AdminOrder {
     country: string;
   };
   notes?: string;
+  coupon_code?: string;
+  // Stock held for the order from placement until it ships or is cancelled
+  reservation_id?: string;
   tracking_number?: string;
   estimated_delivery?: string;
   delivered_at?: string;
+  status_history?: OrderStatusHistoryEntry[];
   days_since_created?: number;
   created_at: string;
   updated_at: string;
   deleted_at?: string;
 }
 
+export interface OrderStatusHistoryEntry {
+  id: string;
+  order_id: string;
+  from_status?: AdminOrder['status'];
+  status: AdminOrder['status'];
+  actor: {
+    id?: string;
+    name: string;
+    role: 'ADMIN' | 'CUSTOMER' | 'SYSTEM';
+  };
+  note?: string;
+  created_at: string;
+}
+
+export interface OrderTrackingInfo {
+  order_number: string;
+  status: AdminOrder['status'];
+  status_history: OrderStatusHistoryEntry[];
+  items_count: number;
+  tracking_number?: string;
+  estimated_delivery?: string;
+  delivered_at?: string;
+  created_at: string;
+}
+
+export interface BulkOrderActionResult {
+  id: string;
+  order_number?: string;
+  success: boolean;
+  status?: AdminOrder['status'];
+  error?: string;
+  errorCode?: string;
+}
+
+export interface BulkOrderActionResponse {
+  action: 'confirm' | 'process' | 'ship' | 'cancel';
+  results: BulkOrderActionResult[];
+  succeeded: number;
+  failed: number;
+}
+
 export interface AdminOrderItem {
   id: string;
   order_id: string;
@@ -160,6 +253,11 @@ export interface AdminOrderItem {
     images: string[];
     slug?: string;
   };
+  variant_id?: string;
+  variant_name?: string;
+  // Pre-order lines ship separately once the product is available
+  is_preorder?: boolean;
+  preorder_available_date?: string;
   quantity: number;
   unit_price: number;
   total_price: number;
@@ -173,6 +271,11 @@ export interface AdminCategory {
   slug: string;
   image?: string;
   is_active: boolean;
+  // Sub-categories point at a top-level parent, e.g. Powdered Spices -> Spices
+  parent_id?: string;
+  parent_name?: string;
+  // Position among its siblings, lowest first
+  sort_order: number;
   product_count?: number;
   active_product_count?: number;
   featured_product_count?: number;
@@ -182,6 +285,136 @@ export interface AdminCategory {
   deleted_at?: string;
 }
 
+export interface AdminCoupon {
+  id: string;
+  code: string;
+  description?: string;
+  discount_type: 'percentage' | 'fixed';
+  discount_value: number;
+  max_discount_amount?: number;
+  min_order_amount?: number;
+  scope: 'all' | 'categories' | 'products';
+  category_ids: string[];
+  product_ids: string[];
+  usage_limit?: number;
+  usage_limit_per_customer?: number;
+  usage_count: number;
+  starts_at?: string;
+  ends_at?: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Server-side coupon check result for a cart
+export interface CouponQuote {
+  coupon_id: string;
+  code: string;
+  description?: string;
+  discount_type: AdminCoupon['discount_type'];
+  discount_value: number;
+  subtotal: number;
+  eligible_subtotal: number;
+  discount_amount: number;
+  total: number;
+}
+
+// Fee override for a single area within a zone's city
+export interface AdminReview {
+  id: string;
+  product_id: string;
+  product: {
+    id: string;
+    name: string;
+    images: string[];
+  };
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  rating: number;
+  comment: string;
+  images: string[];
+  verified: boolean;
+  status: 'pending' | 'approved' | 'rejected';
+  // Shown in the homepage reviews carousel - approved reviews only
+  featured: boolean;
+  admin_reply?: string;
+  replied_at?: string;
+  rejection_reason?: string;
+  moderated_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BulkReviewActionResult {
+  id: string;
+  success: boolean;
+  status?: AdminReview['status'];
+  error?: string;
+  errorCode?: string;
+}
+
+export interface BulkReviewActionResponse {
+  action: 'approve' | 'reject';
+  results: BulkReviewActionResult[];
+  succeeded: number;
+  failed: number;
+}
+
+export interface DeliveryAreaFee {
+  city: string;
+  area: string;
+  fee: number;
+}
+
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  // Cities covered by the zone - a fallback zone covers every city not listed elsewhere
+  cities: string[];
+  is_fallback: boolean;
+  fee: number;
+  area_fees: DeliveryAreaFee[];
+  free_shipping_threshold?: number;
+  cod_available: boolean;
+  estimated_days_min: number;
+  estimated_days_max: number;
+}
+
+export interface DeliverySettings {
+  zones: DeliveryZone[];
+  // Applies to zones without their own threshold
+  free_shipping_threshold?: number;
+  updated_at?: string;
+}
+
+export interface SearchSynonym {
+  // The word used in the catalog, e.g. "honey"
+  term: string;
+  // Spellings and transliterations shoppers type instead, e.g. "modhu"
+  synonyms: string[];
+}
+
+export interface SearchSettings {
+  synonyms: SearchSynonym[];
+  updated_at?: string;
+}
+
+export interface ShippingQuote {
+  zone_id: string;
+  zone_name: string;
+  fee: number;
+  base_fee: number;
+  is_free: boolean;
+  free_shipping_threshold?: number;
+  amount_to_free_shipping: number;
+  cod_available: boolean;
+  estimated_days_min: number;
+  estimated_days_max: number;
+}
+
 export interface PaginationInfo {
   page: number;
   limit: number;
@@ -244,6 +477,14 @@ export interface AdminOrderQueryParams {
   sortOrder?: 'asc' | 'desc';
 }
 
+export interface CustomerOrderQueryParams {
+  page?: number;
+  limit?: number;
+  status?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
 export interface AdminCustomerQueryParams {
   page?: number;
   limit?: number;
@@ -273,18 +514,24 @@ export interface CreateProductData {
   tags?: string[];
   meta_title?: string;
   meta_description?: string;
+  variants?: AdminProductVariant[];
+  is_preorder?: boolean;
+  preorder_available_date?: string;
+  preorder_deposit_free?: boolean;
 }
 
 export interface UpdateProductData extends Partial<CreateProductData> {
   id: string;
 }
 
+// Order placement request - the backend prices every line from its catalog and
+// quotes shipping from the saved delivery zones
 export interface CreateOrderData {
   user_id: string;
   items: {
     product_id: string;
+    variant_id?: string;
     quantity: number;
-    unit_price: number;
   }[];
   shipping_address: {
     name: string;
@@ -297,6 +544,9 @@ export interface CreateOrderData {
   };
   payment_method: 'cod' | 'card' | 'mobile_banking';
   notes?: string;
+  // Re-evaluated by the backend, which works out the discount itself
+  coupon_code?: string;
+  reservation_id?: string;
 }
 
 export interface UpdateOrderData {
@@ -313,12 +563,51 @@ export interface CreateCategoryData {
   slug?: string;
   image?: string;
   is_active?: boolean;
+  // null moves a sub-category back to the top level
+  parent_id?: string | null;
 }
 
 export interface UpdateCategoryData extends Partial<CreateCategoryData> {
   id: string;
 }
 
+export interface CreateCouponData {
+  code: string;
+  description?: string;
+  discount_type: AdminCoupon['discount_type'];
+  discount_value: number;
+  max_discount_amount?: number;
+  min_order_amount?: number;
+  scope: AdminCoupon['scope'];
+  category_ids?: string[];
+  product_ids?: string[];
+  usage_limit?: number;
+  usage_limit_per_customer?: number;
+  starts_at?: string;
+  ends_at?: string;
+  is_active?: boolean;
+}
+
+export interface AdminCouponQueryParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+  is_active?: boolean;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface AdminReviewQueryParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+  status?: AdminReview['status'];
+  rating?: number;
+  featured?: boolean;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
 export interface UpdateCustomerData {
   name?: string;
   email?: string;
@@ -331,14 +620,37 @@ export interface UpdateCustomerData {
 
 export interface AdminSettings {
   site_name?: string;
+  site_tagline?: string;
   site_description?: string;
   contact_email?: string;
+  support_email?: string;
   contact_phone?: string;
+  address?: string;
+  website_url?: string;
+  logo_url?: string;
+  favicon_url?: string;
   currency?: string;
   timezone?: string;
   maintenance_mode?: boolean;
+  maintenance_message?: string;
+  maintenance_starts_at?: string;
+  maintenance_ends_at?: string;
+  maintenance_allowed_ips?: string[];
+  maintenance_allowed_roles?: Array<'USER' | 'SELLER'>;
+  debug_mode?: boolean;
+  cache_enabled?: boolean;
+  backup_frequency?: 'hourly' | 'daily' | 'weekly' | 'monthly';
   allow_registration?: boolean;
   require_email_verification?: boolean;
+  email_notifications?: boolean;
+  order_notifications?: boolean;
+  stock_alerts?: boolean;
+  customer_registration_alerts?: boolean;
+  low_stock_threshold?: number;
+  two_factor_auth?: boolean;
+  session_timeout_minutes?: number;
+  password_expiry_days?: number;
+  max_login_attempts?: number;
   max_upload_size?: number;
   smtp_host?: string;
   smtp_port?: number;
@@ -355,6 +667,26 @@ export interface AdminSettings {
     instagram?: string;
     linkedin?: string;
   };
+  updated_at?: string;
+}
+
+export interface MaintenanceSettings {
+  enabled: boolean;
+  message?: string;
+  // Optional window - outside it the storefront stays open even while enabled
+  starts_at?: string;
+  ends_at?: string;
+  allowed_ips: string[];
+  allowed_roles: Array<'USER' | 'SELLER'>;
+}
+
+// Settings readable without authentication
+export interface PublicSettings {
+  site_name: string;
+  site_tagline?: string;
+  contact_email?: string;
+  contact_phone?: string;
+  maintenance: MaintenanceSettings;
 }
 
 export interface AdminStats {
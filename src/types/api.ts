@@ -1,4 +1,6 @@
 // Shared types for API communication
+import type { AccountSettings } from '@/lib/account-settings-schemas';
+
 export interface User {
   id: string;
   name: string;
@@ -110,8 +112,39 @@ export interface AppRouter {
     profile: {
       query: () => User;
     };
+    // Also sets a re-signed accessToken cookie; the refresh token is not rotated
     updateProfile: {
-      mutation: (input: { name?: string; phone_number?: string }) => User;
+      mutation: (input: { name?: string; phone_number?: string; profile_image_url?: string }) => User;
+    };
+    changePassword: {
+      mutation: (input: { current_password: string; new_password: string }) => {
+        message: string;
+      };
+    };
+    requestEmailChange: {
+      mutation: (input: { new_email: string; current_password: string }) => {
+        message: string;
+        cooldownRemaining?: number;
+      };
+    };
+    // Also sets a re-signed accessToken cookie for the new address
+    verifyEmailChange: {
+      mutation: (input: { new_email: string; otp: string }) => User;
+    };
+    settings: {
+      query: () => AccountSettings;
+    };
+    updateSettings: {
+      mutation: (input: AccountSettings) => AccountSettings;
+    };
+    // Soft delete - sets `deleted_at`; the account is purged once the grace period ends
+    requestDeletion: {
+      mutation: (input: { current_password: string; reason?: string }) => {
+        deleted_at: string;
+      };
+    };
+    cancelDeletion: {
+      mutation: (input: Record<string, never>) => User;
     };
     stats: {
       query: () => {
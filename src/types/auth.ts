@@ -13,6 +13,21 @@ export interface User {
   is_verified: boolean;
   created_at: string;
   updated_at?: string;
+  // Set while the account is scheduled for deletion
+  deleted_at?: string;
+}
+
+// One signed-in device - a refresh token family and everything rotated from it
+export interface AccountSession {
+  id: string;
+  browser: string;
+  os: string;
+  device_type: 'desktop' | 'mobile' | 'tablet';
+  ip_address?: string;
+  location?: string;
+  created_at: string;
+  last_active_at: string;
+  is_current: boolean;
 }
 
 export interface AuthState {
@@ -0,0 +1,397 @@
+// Raw backend payloads, as received before the `sanitize*` helpers map them onto
+// the app's own types. Every field is optional: the sanitizers check and coerce
+// each one, and also accept the camelCase shapes the app itself produces
+import type { AccountSettings } from '@/lib/account-settings-schemas';
+import type { AccountSession, User } from './auth';
+import type {
+  AdminCoupon,
+  AdminOrder,
+  AdminReview,
+  InventoryMovementType,
+  OrderStatusHistoryEntry,
+} from './admin';
+
+// Decimal columns arrive as strings, counts as numbers
+type BackendNumber = number | string;
+
+export interface BackendValidationIssue {
+  path?: Array<string | number>;
+  field?: string;
+  message?: string;
+}
+
+export interface BackendStockConflict {
+  product_id?: string;
+  variant_id?: string;
+  available_quantity?: BackendNumber;
+  available?: BackendNumber;
+  message?: string;
+}
+
+// Error body of a failed backend call - REST and tRPC use different subsets
+export interface BackendError {
+  message?: string;
+  error?: string;
+  errorCode?: string;
+  code?: string;
+  data?: {
+    errorCode?: string;
+    remainingAttempts?: number;
+    cooldownRemaining?: number;
+  };
+  remainingAttempts?: number;
+  cooldownRemaining?: number;
+  lockDuration?: number;
+  errors?: BackendValidationIssue[];
+  issues?: BackendValidationIssue[];
+  conflicts?: BackendStockConflict[];
+  details?: BackendStockConflict & {
+    errorCode?: string;
+    code?: string;
+    errors?: BackendValidationIssue[];
+    issues?: BackendValidationIssue[];
+    conflicts?: BackendStockConflict[];
+  };
+}
+
+export interface BackendProductVariant {
+  id?: string | number;
+  name?: string;
+  sku?: string;
+  price?: BackendNumber;
+  original_price?: BackendNumber;
+  originalPrice?: BackendNumber;
+  stock_quantity?: BackendNumber;
+  stockQuantity?: BackendNumber;
+  in_stock?: boolean;
+  inStock?: boolean;
+  // Grams from the backend, already formatted once sanitized
+  weight?: BackendNumber;
+}
+
+export interface BackendProduct {
+  id?: string | number;
+  slug?: string;
+  name?: string;
+  sku?: string;
+  description?: string;
+  price?: BackendNumber;
+  original_price?: BackendNumber;
+  originalPrice?: BackendNumber;
+  cost_price?: BackendNumber;
+  images?: string[];
+  // A slug, or the joined category record
+  category?: string | { id?: string; slug?: string; name?: string };
+  category_id?: string;
+  category_slug?: string;
+  category_name?: string;
+  stock_quantity?: BackendNumber;
+  stockQuantity?: BackendNumber;
+  reserved_quantity?: BackendNumber;
+  low_stock_threshold?: BackendNumber;
+  in_stock?: boolean;
+  inStock?: boolean;
+  is_active?: boolean;
+  featured?: boolean;
+  tags?: string[];
+  weight?: BackendNumber;
+  origin?: string;
+  benefits?: string[];
+  average_rating?: BackendNumber;
+  averageRating?: BackendNumber;
+  review_count?: BackendNumber;
+  reviewCount?: BackendNumber;
+  created_at?: string;
+  createdAt?: string;
+  updated_at?: string;
+  variants?: BackendProductVariant[];
+  is_preorder?: boolean;
+  preorder_available_date?: string;
+  preorder_deposit_free?: boolean;
+  preOrder?: {
+    availableDate?: string;
+    depositFree?: boolean;
+  };
+}
+
+export interface BackendCategory {
+  id?: string;
+  name?: string;
+  slug?: string;
+  description?: string;
+  image?: string;
+  is_active?: boolean;
+  parent_id?: string;
+  parentId?: string;
+  parent?: { id?: string; name?: string };
+  parent_name?: string;
+  sort_order?: BackendNumber;
+  sortOrder?: BackendNumber;
+  product_count?: BackendNumber;
+  productCount?: BackendNumber;
+  active_product_count?: BackendNumber;
+  featured_product_count?: BackendNumber;
+  days_since_created?: BackendNumber;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string;
+}
+
+export interface BackendOrderItem {
+  id?: string;
+  order_id?: string;
+  product_id?: string;
+  product?: {
+    id?: string;
+    name?: string;
+    images?: string[];
+    slug?: string;
+    is_preorder?: boolean;
+    preorder_available_date?: string;
+  };
+  variant_id?: string;
+  variant_name?: string;
+  variant?: { id?: string; name?: string };
+  is_preorder?: boolean;
+  preorder_available_date?: string;
+  quantity?: BackendNumber;
+  unit_price?: BackendNumber;
+  total_price?: BackendNumber;
+  created_at?: string;
+}
+
+export interface BackendOrderStatusEntry {
+  id?: string;
+  order_id?: string;
+  from_status?: AdminOrder['status'];
+  status?: AdminOrder['status'];
+  actor?: {
+    id?: string;
+    name?: string;
+    role?: OrderStatusHistoryEntry['actor']['role'];
+  };
+  actor_id?: string;
+  actor_name?: string;
+  actor_role?: OrderStatusHistoryEntry['actor']['role'];
+  note?: string;
+  notes?: string;
+  created_at?: string;
+}
+
+export interface BackendOrder {
+  id?: string;
+  order_number?: string;
+  user_id?: string;
+  customer?: {
+    id?: string;
+    name?: string;
+    email?: string;
+    phone_number?: string;
+  };
+  items?: BackendOrderItem[];
+  items_count?: BackendNumber;
+  subtotal?: BackendNumber;
+  shipping_cost?: BackendNumber;
+  tax_amount?: BackendNumber;
+  discount_amount?: BackendNumber;
+  total_amount?: BackendNumber;
+  status?: AdminOrder['status'];
+  payment_status?: AdminOrder['payment_status'];
+  payment_method?: AdminOrder['payment_method'];
+  shipping_address?: Partial<AdminOrder['shipping_address']>;
+  notes?: string;
+  coupon_code?: string;
+  reservation_id?: string;
+  tracking_number?: string;
+  estimated_delivery?: string;
+  delivered_at?: string;
+  status_history?: BackendOrderStatusEntry[];
+  days_since_created?: BackendNumber;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string;
+}
+
+export interface BackendReview {
+  id?: string;
+  product_id?: string;
+  productId?: string;
+  product?: { id?: string; name?: string; images?: string[] };
+  product_name?: string;
+  productName?: string;
+  user_id?: string;
+  userId?: string;
+  user?: { id?: string; name?: string; email?: string };
+  user_name?: string;
+  userName?: string;
+  rating?: BackendNumber;
+  comment?: string;
+  images?: string[];
+  verified?: boolean;
+  is_verified?: boolean;
+  status?: AdminReview['status'];
+  featured?: boolean;
+  admin_reply?: string;
+  adminReply?: string;
+  replied_at?: string;
+  rejection_reason?: string;
+  moderated_at?: string;
+  created_at?: string;
+  createdAt?: string;
+  updated_at?: string;
+}
+
+export interface BackendReviewSummary {
+  average_rating?: BackendNumber;
+  averageRating?: BackendNumber;
+  review_count?: BackendNumber;
+  reviewCount?: BackendNumber;
+  // Review count per star rating, keyed 1 to 5
+  breakdown?: Record<string, BackendNumber>;
+}
+
+export interface BackendCoupon {
+  id?: string;
+  code?: string;
+  description?: string;
+  discount_type?: AdminCoupon['discount_type'];
+  discount_value?: BackendNumber;
+  max_discount_amount?: BackendNumber | null;
+  min_order_amount?: BackendNumber | null;
+  scope?: AdminCoupon['scope'];
+  category_ids?: string[];
+  product_ids?: string[];
+  usage_limit?: BackendNumber | null;
+  usage_limit_per_customer?: BackendNumber | null;
+  usage_count?: BackendNumber;
+  starts_at?: string;
+  ends_at?: string;
+  is_active?: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface BackendInventoryMovement {
+  id?: string;
+  product_id?: string;
+  variant_id?: string;
+  variant_name?: string;
+  variant?: { name?: string };
+  type?: InventoryMovementType;
+  quantity?: BackendNumber;
+  stock_after?: BackendNumber | null;
+  reason?: string;
+  order_id?: string;
+  order_number?: string;
+  order?: { order_number?: string };
+  actor?: { id?: string; name?: string };
+  created_at?: string;
+}
+
+export interface BackendShippingAddress {
+  id?: string;
+  name?: string;
+  phone?: string;
+  address?: string;
+  address_line_1?: string;
+  city?: string;
+  area?: string;
+  postal_code?: string;
+  postalCode?: string;
+  is_default?: boolean;
+  isDefault?: boolean;
+}
+
+export interface BackendSession {
+  id?: string;
+  family_id?: string;
+  familyId?: string;
+  user_agent?: string;
+  userAgent?: string;
+  browser?: string;
+  os?: string;
+  device_type?: AccountSession['device_type'];
+  ip_address?: string;
+  ipAddress?: string;
+  location?: string;
+  created_at?: string;
+  createdAt?: string;
+  last_active_at?: string;
+  lastActiveAt?: string;
+  updated_at?: string;
+  is_current?: boolean;
+  isCurrent?: boolean;
+}
+
+export interface BackendUser {
+  id?: string;
+  name?: string;
+  email?: string;
+  role?: User['role'];
+  phone_number?: string;
+  profile_image_url?: string;
+  is_verified?: boolean;
+  isEmailVerified?: boolean;
+  created_at?: string;
+  createdAt?: string;
+  updated_at?: string;
+  updatedAt?: string;
+  deleted_at?: string;
+  deletedAt?: string;
+}
+
+// Settings saved before a field existed lack it - the defaults fill it in
+export type BackendAccountSettings = Partial<Omit<AccountSettings, 'notifications'>> & {
+  notifications?: {
+    email?: Partial<AccountSettings['notifications']['email']>;
+    sms?: Partial<AccountSettings['notifications']['sms']>;
+  };
+};
+
+export interface BackendMaintenanceSettings {
+  enabled?: boolean;
+  message?: string;
+  starts_at?: string;
+  ends_at?: string;
+  allowed_ips?: string[];
+  allowed_roles?: string[];
+}
+
+// Nested under `maintenance`, or flat `maintenance_*` fields on older backends
+export interface BackendPublicSettings {
+  site_name?: string;
+  site_tagline?: string;
+  contact_email?: string;
+  contact_phone?: string;
+  maintenance?: BackendMaintenanceSettings;
+  maintenance_mode?: boolean;
+  maintenance_message?: string;
+  maintenance_starts_at?: string;
+  maintenance_ends_at?: string;
+  maintenance_allowed_ips?: string[];
+  maintenance_allowed_roles?: string[];
+}
+
+export interface BackendSearchSettings {
+  synonyms?: Array<{ term?: string; synonyms?: string[] }>;
+  updated_at?: string;
+}
+
+export interface BackendDeliveryZone {
+  id?: string;
+  name?: string;
+  cities?: string[];
+  is_fallback?: boolean;
+  fee?: BackendNumber;
+  area_fees?: Array<{ city?: string; area?: string; fee?: BackendNumber }>;
+  free_shipping_threshold?: BackendNumber | null;
+  cod_available?: boolean;
+  estimated_days_min?: BackendNumber;
+  estimated_days_max?: BackendNumber;
+}
+
+export interface BackendDeliverySettings {
+  free_shipping_threshold?: BackendNumber | null;
+  zones?: BackendDeliveryZone[];
+  updated_at?: string;
+}
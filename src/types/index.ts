@@ -1,5 +1,7 @@
 export interface Product {
   id: string;
+  // URL segment for /products/[id]; catalog products always have one
+  slug?: string;
   name: string;
   description: string;
   price: number;
@@ -12,11 +14,38 @@ export interface Product {
   weight?: string;
   origin?: string;
   benefits?: string[];
+  averageRating?: number;
+  reviewCount?: number;
+  createdAt?: string;
+  // Size/weight options sold at their own price, e.g. 250g/500g/1kg jars
+  variants?: ProductVariant[];
+  // Seasonal products that can be ordered before the batch is ready
+  preOrder?: ProductPreOrder;
+}
+
+export interface ProductPreOrder {
+  // Expected date the product ships (ISO date)
+  availableDate?: string;
+  // The order only reserves the product - nothing is paid until it ships
+  depositFree: boolean;
+}
+
+export interface ProductVariant {
+  id: string;
+  name: string;
+  sku?: string;
+  price: number;
+  originalPrice?: number;
+  stockQuantity?: number;
+  inStock: boolean;
+  weight?: string;
 }
 
 export interface CartItem {
   product: Product;
   quantity: number;
+  // Chosen option - a product is one cart line per variant
+  variant?: ProductVariant;
 }
 
 export interface Cart {
@@ -58,9 +87,12 @@ export interface Order {
 export interface Category {
   id: string;
   name: string;
+  slug: string;
   description?: string;
   image: string;
   productCount: number;
+  parentId?: string;
+  sortOrder: number;
 }
 
 export interface Review {
@@ -71,10 +103,34 @@ export interface Review {
   comment: string;
   createdAt: string;
   verified?: boolean;
+  userId?: string;
+  images?: string[];
+  status?: 'pending' | 'approved' | 'rejected';
+  // Public response from the store, shown under the review
+  adminReply?: string;
+  productName?: string;
+}
+
+export interface ReviewSummary {
+  averageRating: number;
+  reviewCount: number;
+  // Number of reviews for each star rating, 1 to 5
+  breakdown: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export interface ProductReviews {
+  reviews: Review[];
+  summary: ReviewSummary;
+}
+
+export interface ReviewEligibility {
+  canReview: boolean;
+  reason?: 'AUTHENTICATION_REQUIRED' | 'NOT_DELIVERED' | 'ALREADY_REVIEWED';
 }
 
 export interface ProductFilters {
   category?: string;
+  origin?: string;
   priceRange?: [number, number];
   inStock?: boolean;
   search?: string;
@@ -83,6 +139,25 @@ export interface ProductFilters {
   sortOrder?: 'asc' | 'desc';
 }
 
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Counts for each facet ignore that facet's own filter, so other options stay selectable
+export interface ProductFacets {
+  categories: FacetCount[];
+  origins: FacetCount[];
+  availability: {
+    inStock: number;
+    outOfStock: number;
+  };
+  priceRange: {
+    min: number;
+    max: number;
+  };
+}
+
 export interface ApiResponse<T> {
   data: T;
   success: boolean;
@@ -98,3 +173,7 @@ export interface PaginatedResponse<T> {
     totalPages: number;
   };
 }
+
+export interface ProductSearchResult extends PaginatedResponse<Product> {
+  facets: ProductFacets;
+}